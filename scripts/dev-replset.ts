@@ -0,0 +1,18 @@
+/**
+ * Starts the API against a throwaway single-node replica set so MongoDB transactions can be exercised locally
+ * without a cloud cluster. Data lives only as long as this process.
+ */
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+
+const replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+process.env.DATABASE_URL = replSet.getUri('posopenai');
+console.log(`In-memory replica set running at ${process.env.DATABASE_URL}`);
+
+const stop = async () => {
+  await replSet.stop();
+  process.exit(0);
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+await import('../src/server/app.js');
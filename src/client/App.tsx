@@ -18,6 +18,17 @@ import { Memberships } from './pages/Memberships';
 import { Orders } from './pages/Orders';
 import { Payroll } from './pages/Payroll';
 import { ProductList } from './pages/ProductList';
+import { Purchases } from './pages/Purchases';
+import { StockTake } from './pages/StockTake';
+import { BarcodeLabels } from './pages/BarcodeLabels';
+import { Promotions } from './pages/Promotions';
+import { Quotations } from './pages/Quotations';
+import { SalesOrders } from './pages/SalesOrders';
+import { DeliveryChallans } from './pages/DeliveryChallans';
+import { GstReturns } from './pages/GstReturns';
+import { TaxGroups } from './pages/TaxGroups';
+import { DocumentTemplates } from './pages/DocumentTemplates';
+import { CatalogImport } from './pages/CatalogImport';
 import { Reports } from './pages/Reports';
 import Returns from './pages/Returns';
 import { Sales } from './pages/Sales';
@@ -27,7 +38,7 @@ import { Shifts } from './pages/Shifts';
 import { UserManagement } from './pages/UserManagement';
 import { apiUrl, fetchApiJson } from './utils/api';
 import { initializeAutoTooltips } from './utils/autoTooltips';
-import { getGeneralSettings } from './utils/generalSettings';
+import { fetchGeneralSettings, getGeneralSettings } from './utils/generalSettings';
 
 const orderedPages: PageKey[] = [
   'dashboard',
@@ -35,6 +46,7 @@ const orderedPages: PageKey[] = [
   'inventory',
   'sales',
   'orders',
+  'purchases',
   'products',
   'returns',
   'categories',
@@ -72,6 +84,11 @@ const DashboardHome: React.FC<{
     return () => clearInterval(timer);
   }, []);
 
+  // Pick up the shared business and invoice settings; the cached copy is used until then, or when offline.
+  useEffect(() => {
+    fetchGeneralSettings().catch(() => undefined);
+  }, []);
+
   useEffect(() => {
     const refreshBrand = () => {
       const settings = getGeneralSettings();
@@ -182,6 +199,15 @@ const DashboardHome: React.FC<{
       category: 'Catalog',
       accent: 'from-sky-500/25 to-sky-400/10',
     },
+    {
+      key: 'purchases',
+      title: 'Purchases',
+      desc: 'Raise purchase orders and receive supplier stock.',
+      path: '/purchases',
+      icon: '🚚',
+      category: 'Catalog',
+      accent: 'from-sky-500/25 to-sky-400/10',
+    },
     {
       key: 'categories',
       title: 'Categories',
@@ -683,16 +709,27 @@ function App() {
 
             <Route path="/sales-dashboard" element={permissions['sales-dashboard'] ? <SalesDashboard /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/inventory" element={permissions.inventory ? <Inventory /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/inventory/stock-take" element={permissions.inventory ? <StockTake /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/sales" element={permissions.sales ? <Sales /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/promotions" element={permissions.sales ? <Promotions /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/quotations" element={permissions.sales ? <Quotations /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/delivery-challans" element={permissions.sales ? <DeliveryChallans /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/orders" element={permissions.orders ? <Orders /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/sales-orders" element={permissions.orders ? <SalesOrders /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/purchases" element={permissions.purchases ? <Purchases /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/products" element={permissions.products ? <ProductList /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/products/add" element={permissions.products ? <AddProduct /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/products/import" element={permissions.products ? <CatalogImport /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/products/labels" element={permissions.products ? <BarcodeLabels /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/products/edit/:id" element={permissions.products ? <EditProduct /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/returns" element={permissions.returns ? <Returns /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/categories" element={permissions.categories ? <Categories /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/settings" element={permissions.settings ? <Settings /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/tax-groups" element={permissions.settings ? <TaxGroups /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/document-templates" element={permissions.settings ? <DocumentTemplates /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/accounting" element={permissions.accounting ? <Accounting /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/reports" element={permissions.reports ? <Reports /> : <Navigate to={fallbackPath} replace />} />
+            <Route path="/gst-returns" element={permissions.reports ? <GstReturns /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/employees" element={permissions.employees ? <Employees /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/attendance" element={permissions.attendance ? <Attendance currentUserRole={user.role as string | undefined} /> : <Navigate to={fallbackPath} replace />} />
             <Route path="/shifts" element={permissions.shifts ? <Shifts /> : <Navigate to={fallbackPath} replace />} />
@@ -16,6 +16,43 @@ interface InventoryItem {
   lastRestockDate: string;
 }
 
+interface StockLocationOption {
+  _id: string;
+  locationCode: string;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+interface StockTransferRow {
+  _id: string;
+  transferNumber: string;
+  fromLocationName: string;
+  toLocationName: string;
+  status: 'draft' | 'in_transit' | 'received' | 'cancelled';
+  items: Array<{ productId: string; productName: string; quantity: number }>;
+  createdAt: string;
+}
+
+interface StockCard {
+  productName: string;
+  unit?: string;
+  openingQuantity: number;
+  inwardQuantity: number;
+  outwardQuantity: number;
+  closingQuantity: number;
+  rows: Array<{
+    _id: string;
+    date: string;
+    movementType: string;
+    referenceNo?: string;
+    locationName?: string;
+    inward: number;
+    outward: number;
+    balance: number;
+  }>;
+}
+
 export const Inventory = () => {
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -23,13 +60,39 @@ export const Inventory = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [updateAction, setUpdateAction] = useState<'add' | 'subtract' | 'set'>('add');
   const [updateQuantity, setUpdateQuantity] = useState<number>(0);
+  const [updateReason, setUpdateReason] = useState('');
+  const [stockCard, setStockCard] = useState<StockCard | null>(null);
   const [error, setError] = useState('');
+  const [locations, setLocations] = useState<StockLocationOption[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [transfers, setTransfers] = useState<StockTransferRow[]>([]);
+  const [transferForm, setTransferForm] = useState({ fromLocationId: '', toLocationId: '', productId: '', quantity: '' });
+  const [newLocation, setNewLocation] = useState({ locationCode: '', name: '', locationType: 'store' });
+
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${localStorage.getItem('token')}`,
+  });
+
+  const fetchLocations = async () => {
+    try {
+      const [locationData, transferData] = await Promise.all([
+        fetchApiJson(apiUrl('/api/locations'), { headers: authHeaders() }),
+        fetchApiJson(apiUrl('/api/locations/transfers?limit=50'), { headers: authHeaders() }),
+      ]);
+      setLocations(locationData.data || []);
+      setTransfers(transferData.data || []);
+    } catch (error) {
+      setError((error as Error)?.message || 'Failed to fetch locations');
+    }
+  };
 
   const fetchInventory = async () => {
     try {
       setError('');
       const token = localStorage.getItem('token');
-      const data = await fetchApiJson(apiUrl('/api/inventory?limit=1000'), {
+      const query = locationId ? `&locationId=${locationId}` : '';
+      const data = await fetchApiJson(apiUrl(`/api/inventory?limit=1000${query}`), {
         headers: { Authorization: `Bearer ${token}` },
       });
       setInventory(data.data || []);
@@ -43,8 +106,61 @@ export const Inventory = () => {
 
   useEffect(() => {
     fetchInventory();
+  }, [locationId]);
+
+  useEffect(() => {
+    fetchLocations();
   }, []);
 
+  const createLocation = async () => {
+    try {
+      setError('');
+      await fetchApiJson(apiUrl('/api/locations'), {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(newLocation),
+      });
+      setNewLocation({ locationCode: '', name: '', locationType: 'store' });
+      fetchLocations();
+    } catch (error) {
+      setError((error as Error)?.message || 'Failed to create location');
+    }
+  };
+
+  const createTransfer = async () => {
+    try {
+      setError('');
+      await fetchApiJson(apiUrl('/api/locations/transfers'), {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          fromLocationId: transferForm.fromLocationId,
+          toLocationId: transferForm.toLocationId,
+          items: [{ productId: transferForm.productId, quantity: Number(transferForm.quantity || 0) }],
+        }),
+      });
+      setTransferForm({ ...transferForm, productId: '', quantity: '' });
+      fetchLocations();
+    } catch (error) {
+      setError((error as Error)?.message || 'Failed to create transfer');
+    }
+  };
+
+  const transferAction = async (id: string, action: 'dispatch' | 'receive' | 'cancel') => {
+    try {
+      setError('');
+      await fetchApiJson(apiUrl(`/api/locations/transfers/${id}/${action}`), {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({}),
+      });
+      fetchLocations();
+      fetchInventory();
+    } catch (error) {
+      setError((error as Error)?.message || `Failed to ${action} transfer`);
+    }
+  };
+
   const handleUpdateStock = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedItem) return;
@@ -60,6 +176,8 @@ export const Inventory = () => {
         body: JSON.stringify({
           quantity: Number(updateQuantity),
           action: updateAction,
+          locationId: locationId || undefined,
+          reason: updateReason || undefined,
         }),
       });
       setIsModalOpen(false);
@@ -75,9 +193,23 @@ export const Inventory = () => {
     setSelectedItem(item);
     setUpdateAction('add');
     setUpdateQuantity(0);
+    setUpdateReason('');
     setIsModalOpen(true);
   };
 
+  const openStockCard = async (item: InventoryItem) => {
+    try {
+      setError('');
+      const query = locationId ? `?locationId=${locationId}` : '';
+      const data = await fetchApiJson(apiUrl(`/api/inventory/${item.productId._id}/stock-card${query}`), {
+        headers: authHeaders(),
+      });
+      setStockCard(data.data || null);
+    } catch (error) {
+      setError((error as Error)?.message || 'Failed to load stock card');
+    }
+  };
+
   if (loading) return <div className="p-8 text-center text-gray-300">Loading inventory...</div>;
 
   const lowStockCount = inventory.filter((i) => i.quantity <= i.productId.minStock).length;
@@ -88,7 +220,19 @@ export const Inventory = () => {
     <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <h1 className="text-2xl font-bold text-white sm:text-3xl">Inventory Management</h1>
-        <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={fetchInventory}>Refresh Data</button>
+        <div className="flex items-center gap-2">
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+          >
+            <option value="">All Locations</option>
+            {locations.map((location) => (
+              <option key={location._id} value={location._id}>{location.name}</option>
+            ))}
+          </select>
+          <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={fetchInventory}>Refresh Data</button>
+        </div>
       </div>
 
       {error && (
@@ -144,6 +288,9 @@ export const Inventory = () => {
                   <button className="rounded-md bg-indigo-500 px-3 py-1.5 text-xs font-semibold text-white hover:bg-indigo-400" onClick={() => openUpdateModal(item)}>
                     Update Stock
                   </button>
+                  <button className="ml-2 rounded-md bg-white/10 px-3 py-1.5 text-xs text-white hover:bg-white/20" onClick={() => openStockCard(item)}>
+                    Stock Card
+                  </button>
                 </td>
               </tr>
             ))}
@@ -158,6 +305,128 @@ export const Inventory = () => {
         </table>
       </div>
 
+      <div className="mt-8 grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-2 rounded-lg border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">Add Location</h2>
+          <input
+            className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+            placeholder="Code (e.g. BACK)"
+            value={newLocation.locationCode}
+            onChange={(e) => setNewLocation({ ...newLocation, locationCode: e.target.value })}
+          />
+          <input
+            className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+            placeholder="Name"
+            value={newLocation.name}
+            onChange={(e) => setNewLocation({ ...newLocation, name: e.target.value })}
+          />
+          <select
+            className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+            value={newLocation.locationType}
+            onChange={(e) => setNewLocation({ ...newLocation, locationType: e.target.value })}
+          >
+            <option value="store">Store</option>
+            <option value="warehouse">Warehouse</option>
+            <option value="outlet">Outlet</option>
+          </select>
+          <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={createLocation}>
+            Save Location
+          </button>
+        </div>
+
+        <div className="space-y-2 rounded-lg border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-white">Stock Transfer</h2>
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-4">
+            <select
+              className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+              value={transferForm.fromLocationId}
+              onChange={(e) => setTransferForm({ ...transferForm, fromLocationId: e.target.value })}
+            >
+              <option value="">From</option>
+              {locations.map((location) => (
+                <option key={location._id} value={location._id}>{location.name}</option>
+              ))}
+            </select>
+            <select
+              className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+              value={transferForm.toLocationId}
+              onChange={(e) => setTransferForm({ ...transferForm, toLocationId: e.target.value })}
+            >
+              <option value="">To</option>
+              {locations.map((location) => (
+                <option key={location._id} value={location._id}>{location.name}</option>
+              ))}
+            </select>
+            <select
+              className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+              value={transferForm.productId}
+              onChange={(e) => setTransferForm({ ...transferForm, productId: e.target.value })}
+            >
+              <option value="">Product</option>
+              {inventory.map((item) => (
+                <option key={item.productId._id} value={item.productId._id}>{item.productId.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="1"
+              className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white"
+              placeholder="Qty"
+              value={transferForm.quantity}
+              onChange={(e) => setTransferForm({ ...transferForm, quantity: e.target.value })}
+            />
+          </div>
+          <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={createTransfer}>
+            Create Transfer
+          </button>
+
+          <table className="mt-3 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Transfer', 'From', 'To', 'Items', 'Status', 'Actions'].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {transfers.map((transfer) => (
+                <tr key={transfer._id}>
+                  <td className="px-2 py-2 text-sm text-white">{transfer.transferNumber}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{transfer.fromLocationName}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{transfer.toLocationName}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">
+                    {transfer.items.map((item) => `${item.productName} x ${item.quantity}`).join(', ')}
+                  </td>
+                  <td className="px-2 py-2 text-sm uppercase text-gray-300">{transfer.status.replace('_', ' ')}</td>
+                  <td className="px-2 py-2 text-sm">
+                    <div className="flex gap-2">
+                      {transfer.status === 'draft' && (
+                        <button className="rounded-md bg-indigo-500 px-2 py-1 text-xs font-semibold text-white hover:bg-indigo-400" onClick={() => transferAction(transfer._id, 'dispatch')}>
+                          Dispatch
+                        </button>
+                      )}
+                      {transfer.status === 'in_transit' && (
+                        <button className="rounded-md bg-emerald-500 px-2 py-1 text-xs font-semibold text-white hover:bg-emerald-400" onClick={() => transferAction(transfer._id, 'receive')}>
+                          Receive
+                        </button>
+                      )}
+                      {['draft', 'in_transit'].includes(transfer.status) && (
+                        <button className="rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20" onClick={() => transferAction(transfer._id, 'cancel')}>
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {transfers.length === 0 && (
+                <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No stock transfers yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {isModalOpen && selectedItem && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
           <div className="w-full max-w-md rounded-lg border border-white/10 bg-gray-900 p-6">
@@ -190,6 +459,16 @@ export const Inventory = () => {
                 />
               </div>
 
+              <div>
+                <label className="mb-1 block text-sm text-gray-300">Reason</label>
+                <input
+                  value={updateReason}
+                  onChange={(e) => setUpdateReason(e.target.value)}
+                  placeholder="Damaged, recount, opening..."
+                  className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-white"
+                />
+              </div>
+
               <div className="flex justify-end gap-3 pt-2">
                 <button type="button" className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => setIsModalOpen(false)}>
                   Cancel
@@ -202,6 +481,47 @@ export const Inventory = () => {
           </div>
         </div>
       )}
+
+      {stockCard && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+          <div className="max-h-[85vh] w-full max-w-3xl overflow-y-auto rounded-lg border border-white/10 bg-gray-900 p-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-white">Stock Card: {stockCard.productName}</h2>
+              <button className="rounded-md bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/20" onClick={() => setStockCard(null)}>
+                Close
+              </button>
+            </div>
+            <p className="mt-1 text-sm text-gray-400">
+              Opening {stockCard.openingQuantity} | In {stockCard.inwardQuantity} | Out {stockCard.outwardQuantity} | Closing {stockCard.closingQuantity} {stockCard.unit}
+            </p>
+            <table className="mt-4 min-w-full divide-y divide-white/10">
+              <thead>
+                <tr>
+                  {['Date', 'Type', 'Reference', 'Location', 'In', 'Out', 'Balance'].map((h) => (
+                    <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {stockCard.rows.map((row) => (
+                  <tr key={row._id}>
+                    <td className="px-2 py-2 text-sm text-gray-300">{new Date(row.date).toLocaleString('en-IN')}</td>
+                    <td className="px-2 py-2 text-sm uppercase text-gray-300">{row.movementType.replace('_', ' ')}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{row.referenceNo || '-'}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{row.locationName || '-'}</td>
+                    <td className="px-2 py-2 text-sm text-emerald-300">{row.inward || ''}</td>
+                    <td className="px-2 py-2 text-sm text-red-300">{row.outward || ''}</td>
+                    <td className="px-2 py-2 text-sm text-white">{row.balance}</td>
+                  </tr>
+                ))}
+                {stockCard.rows.length === 0 && (
+                  <tr><td colSpan={7} className="px-2 py-3 text-center text-sm text-gray-400">No stock movements recorded.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
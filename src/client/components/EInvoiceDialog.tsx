@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { apiUrl } from '../utils/api';
+import { getGeneralSettings } from '../utils/generalSettings';
+
+interface EInvoiceDialogProps {
+  saleId: string;
+  docNo: string;
+  onClose: () => void;
+  onRegistered: (sale: any) => void;
+}
+
+const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+
+// Downloads the e-invoice JSON for the IRP and records the IRN from the response file that comes back.
+export const EInvoiceDialog: React.FC<EInvoiceDialogProps> = ({ saleId, docNo, onClose, onRegistered }) => {
+  const [buyer, setBuyer] = useState({ address: '', place: '', pincode: '' });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mockIrp, setMockIrp] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const post = async (path: string, body: Record<string, any> = {}) => {
+    const token = localStorage.getItem('token');
+    const response = await fetch(apiUrl(`/api/sales/${saleId}/e-invoice${path}`), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({
+        seller: getGeneralSettings().business,
+        buyer: {
+          address: buyer.address || undefined,
+          place: buyer.place || undefined,
+          pincode: buyer.pincode || undefined,
+        },
+        ...body,
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setErrors(data?.data?.errors?.length ? data.data.errors : [data?.error || 'E-invoice request failed']);
+      return null;
+    }
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setErrors([]);
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      setErrors([e.message || 'E-invoice request failed']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const download = () => run(async () => {
+    const data = await post('');
+    if (!data) return;
+    setMockIrp(Boolean(data.data.mockIrp));
+    const blob = new Blob([JSON.stringify(data.data.payload, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `einvoice_${docNo.replace(/[^A-Za-z0-9-]/g, '_')}.json`;
+    link.click();
+  });
+
+  const importResponse = (file: File) => run(async () => {
+    let response: any;
+    try {
+      response = JSON.parse(await file.text());
+    } catch {
+      setErrors(['Response file is not valid JSON']);
+      return;
+    }
+    const data = await post('/response', { response });
+    if (data) onRegistered(data.data);
+  });
+
+  const registerWithMock = () => run(async () => {
+    const data = await post('/mock-irp');
+    if (data) onRegistered(data.data.sale);
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+      <div className="w-full max-w-lg space-y-3 rounded-xl border border-white/10 bg-gray-900 p-5">
+        <h2 className="text-lg font-semibold text-white">E-Invoice for {docNo}</h2>
+        <p className="text-xs text-gray-400">
+          Download the JSON and upload it on the IRP, then import the response file here. Once an IRN is recorded the
+          invoice can no longer be edited. Seller details come from Settings.
+        </p>
+        {errors.length > 0 && (
+          <ul className="list-disc rounded border border-red-500/30 bg-red-500/10 py-2 pl-6 pr-3 text-sm text-red-200">
+            {errors.map((row) => <li key={row}>{row}</li>)}
+          </ul>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <input className={`${inputClass} col-span-2`} placeholder="Buyer address (defaults to customer address)" value={buyer.address} onChange={(e) => setBuyer({ ...buyer, address: e.target.value })} />
+          <input className={inputClass} placeholder="Buyer place / city" value={buyer.place} onChange={(e) => setBuyer({ ...buyer, place: e.target.value })} />
+          <input className={inputClass} placeholder="Buyer pincode" value={buyer.pincode} onChange={(e) => setBuyer({ ...buyer, pincode: e.target.value })} />
+        </div>
+        <label className="block text-xs text-gray-400">
+          IRP response file
+          <input
+            type="file"
+            accept="application/json,.json"
+            disabled={busy}
+            className="mt-1 block w-full text-sm text-gray-300"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importResponse(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <div className="flex justify-end gap-2">
+          <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={onClose}>Close</button>
+          {mockIrp && (
+            <button
+              className="rounded-md bg-amber-500/20 px-3 py-2 text-sm font-semibold text-amber-200 hover:bg-amber-500/30 disabled:opacity-50"
+              disabled={busy}
+              onClick={registerWithMock}
+            >
+              Register with Mock IRP
+            </button>
+          )}
+          <button
+            className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400 disabled:opacity-50"
+            disabled={busy}
+            onClick={download}
+          >
+            Download JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
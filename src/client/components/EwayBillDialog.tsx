@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { apiUrl, fetchApiJson } from '../utils/api';
+import { getGeneralSettings } from '../utils/generalSettings';
+
+interface EwayBillDialogProps {
+  endpoint: string; // /api/sales/:id/eway-bill or /api/delivery-challans/:id/eway-bill
+  docNo: string;
+  transport?: Record<string, any>;
+  shipTo?: { pincode?: string; stateCode?: string };
+  onClose: () => void;
+}
+
+const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+
+// Collects Part-B transport details and downloads the portal's bulk-upload JSON; nothing is filed from here.
+export const EwayBillDialog: React.FC<EwayBillDialogProps> = ({ endpoint, docNo, transport = {}, shipTo = {}, onClose }) => {
+  const [form, setForm] = useState({
+    transporterName: transport.transporterName || '',
+    transporterId: transport.transporterId || '',
+    transportMode: transport.transportMode || 'road',
+    vehicleNumber: transport.vehicleNumber || '',
+    transportDocNo: transport.transportDocNo || '',
+    distanceKm: transport.distanceKm ? String(transport.distanceKm) : '',
+    pincode: shipTo.pincode || '',
+    stateCode: shipTo.stateCode || '',
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const download = async () => {
+    setErrors([]);
+    setBusy(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(apiUrl(endpoint), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          seller: getGeneralSettings().business,
+          shipTo: { pincode: form.pincode || undefined, stateCode: form.stateCode || undefined },
+          transport: {
+            transporterName: form.transporterName,
+            transporterId: form.transporterId,
+            transportMode: form.transportMode,
+            vehicleNumber: form.vehicleNumber,
+            transportDocNo: form.transportDocNo,
+            distanceKm: Number(form.distanceKm || 0),
+          },
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setErrors(data?.data?.errors?.length ? data.data.errors : [data?.error || 'Failed to prepare e-way bill']);
+        return;
+      }
+
+      const blob = new Blob([JSON.stringify(data.data.payload, null, 2)], { type: 'application/json' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `ewaybill_${docNo.replace(/[^A-Za-z0-9-]/g, '_')}.json`;
+      link.click();
+      onClose();
+    } catch (e: any) {
+      setErrors([e.message || 'Failed to prepare e-way bill']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+      <div className="w-full max-w-lg space-y-3 rounded-xl border border-white/10 bg-gray-900 p-5">
+        <h2 className="text-lg font-semibold text-white">E-way Bill for {docNo}</h2>
+        <p className="text-xs text-gray-400">Downloads the JSON for bulk upload on the e-way bill portal. Seller details come from Settings.</p>
+        {errors.length > 0 && (
+          <ul className="list-disc rounded border border-red-500/30 bg-red-500/10 py-2 pl-6 pr-3 text-sm text-red-200">
+            {errors.map((row) => <li key={row}>{row}</li>)}
+          </ul>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <input className={inputClass} placeholder="Delivery pincode" value={form.pincode} onChange={(e) => setForm({ ...form, pincode: e.target.value })} />
+          <input className={inputClass} placeholder="Delivery state code (e.g. 32)" value={form.stateCode} onChange={(e) => setForm({ ...form, stateCode: e.target.value })} />
+          <select className={inputClass} value={form.transportMode} onChange={(e) => setForm({ ...form, transportMode: e.target.value })}>
+            <option value="road">Road</option>
+            <option value="rail">Rail</option>
+            <option value="air">Air</option>
+            <option value="ship">Ship</option>
+          </select>
+          <input className={inputClass} type="number" min="1" placeholder="Distance (km)" value={form.distanceKm} onChange={(e) => setForm({ ...form, distanceKm: e.target.value })} />
+          <input className={inputClass} placeholder="Vehicle number" value={form.vehicleNumber} onChange={(e) => setForm({ ...form, vehicleNumber: e.target.value })} />
+          <input className={inputClass} placeholder="Transport doc no." value={form.transportDocNo} onChange={(e) => setForm({ ...form, transportDocNo: e.target.value })} />
+          <input className={inputClass} placeholder="Transporter name" value={form.transporterName} onChange={(e) => setForm({ ...form, transporterName: e.target.value })} />
+          <input className={inputClass} placeholder="Transporter ID" value={form.transporterId} onChange={(e) => setForm({ ...form, transporterId: e.target.value })} />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={onClose}>Close</button>
+          <button
+            className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400 disabled:opacity-50"
+            disabled={busy}
+            onClick={download}
+          >
+            Download JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -15,11 +15,20 @@ type MenuCategory = 'Home' | 'Sales' | 'Catalog' | 'People' | 'Operations' | 'Ad
 const menuItems = [
   { key: 'dashboard' as PageKey, name: 'Dashboard', path: '/', category: 'Home' as MenuCategory, icon: '🏠' },
   { key: 'sales-dashboard' as PageKey, name: 'Sales', path: '/sales-dashboard', category: 'Sales' as MenuCategory, icon: '💰' },
+  { key: 'sales' as PageKey, name: 'Quotations', path: '/quotations', category: 'Sales' as MenuCategory, icon: '📝' },
+  { key: 'sales' as PageKey, name: 'Delivery Challans', path: '/delivery-challans', category: 'Sales' as MenuCategory, icon: '🚚' },
   { key: 'orders' as PageKey, name: 'Orders', path: '/orders', category: 'Sales' as MenuCategory, icon: '📄' },
+  { key: 'orders' as PageKey, name: 'Sales Orders', path: '/sales-orders', category: 'Sales' as MenuCategory, icon: '📦' },
   { key: 'returns' as PageKey, name: 'Returns', path: '/returns', category: 'Sales' as MenuCategory, icon: '↩️' },
+  { key: 'sales' as PageKey, name: 'Promotions', path: '/promotions', category: 'Sales' as MenuCategory, icon: '🎁' },
   { key: 'reports' as PageKey, name: 'Reports', path: '/reports', category: 'Sales' as MenuCategory, icon: '📈' },
+  { key: 'reports' as PageKey, name: 'GST Returns', path: '/gst-returns', category: 'Sales' as MenuCategory, icon: '🏛️' },
   { key: 'products' as PageKey, name: 'Products', path: '/products', category: 'Catalog' as MenuCategory, icon: '📦' },
+  { key: 'products' as PageKey, name: 'Barcode Labels', path: '/products/labels', category: 'Catalog' as MenuCategory, icon: '🏷️' },
+  { key: 'products' as PageKey, name: 'Import / Export', path: '/products/import', category: 'Catalog' as MenuCategory, icon: '📥' },
   { key: 'categories' as PageKey, name: 'Categories', path: '/categories', category: 'Catalog' as MenuCategory, icon: '🗂️' },
+  { key: 'purchases' as PageKey, name: 'Purchases', path: '/purchases', category: 'Catalog' as MenuCategory, icon: '🚚' },
+  { key: 'inventory' as PageKey, name: 'Stock Take', path: '/inventory/stock-take', category: 'Catalog' as MenuCategory, icon: '🧮' },
   { key: 'employees' as PageKey, name: 'Employees', path: '/employees', category: 'People' as MenuCategory, icon: '👥' },
   { key: 'attendance' as PageKey, name: 'Attendance', path: '/attendance', category: 'People' as MenuCategory, icon: '🕒' },
   { key: 'shifts' as PageKey, name: 'Shifts', path: '/shifts', category: 'People' as MenuCategory, icon: '🗓️' },
@@ -29,6 +38,8 @@ const menuItems = [
   { key: 'facilities' as PageKey, name: 'Event Booking', path: '/events', category: 'Operations' as MenuCategory, icon: '📅' },
   { key: 'memberships' as PageKey, name: 'Memberships', path: '/memberships', category: 'Operations' as MenuCategory, icon: '🎫' },
   { key: 'settings' as PageKey, name: 'Settings', path: '/settings', category: 'Admin' as MenuCategory, icon: '⚙️' },
+  { key: 'settings' as PageKey, name: 'Tax Master', path: '/tax-groups', category: 'Admin' as MenuCategory, icon: '💹' },
+  { key: 'settings' as PageKey, name: 'Print Templates', path: '/document-templates', category: 'Admin' as MenuCategory, icon: '🖨️' },
   { key: 'accounting' as PageKey, name: 'Accounting', path: '/accounting', category: 'Admin' as MenuCategory, icon: '📚' },
   { key: 'user-management' as PageKey, name: 'Users', path: '/user-management', category: 'Admin' as MenuCategory, icon: '🛡️' },
 ];
@@ -5,6 +5,7 @@ interface SaleItemBrief {
   productId: string;
   productName: string;
   quantity: number;
+  unit?: string;
   unitPrice: number;
   gstRate?: number;
 }
@@ -52,6 +53,7 @@ const ReturnModal: React.FC<ReturnModalProps> = ({ open, saleId, items, token, o
           productId: s.productId,
           originalQuantity: s.quantity,
           returnQuantity: s.returnQuantity,
+          unit: s.unit,
           unitPrice: s.unitPrice,
           gstRate: s.gstRate || 0,
           returnReason: reason || undefined,
@@ -99,7 +101,7 @@ const ReturnModal: React.FC<ReturnModalProps> = ({ open, saleId, items, token, o
               {items.map((it, i) => (
                 <tr key={it.productId}>
                   <td>{it.productName}</td>
-                  <td>{it.quantity}</td>
+                  <td>{it.quantity} {it.unit || ''}</td>
                   <td>
                     <input type="number" min={0} max={it.quantity} value={quantities[i]} onChange={(e) => handleQtyChange(i, Number(e.target.value))} />
                   </td>
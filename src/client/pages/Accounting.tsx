@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { formatCurrency } from '../config';
+import { openDocumentPdf } from '../utils/documentPdf';
 
 const API_BASE = window.location.protocol === 'file:' ? 'http://localhost:3000' : '';
 
@@ -463,6 +464,17 @@ export const Accounting: React.FC = () => {
     });
   };
 
+  // The server marks the voucher printed when it renders the PDF.
+  const openVoucherPdf = async (row: VoucherRow) => {
+    setError('');
+    try {
+      await openDocumentPdf('voucher', row._id);
+      await refreshVouchers();
+    } catch (e: any) {
+      setError(e.message || 'Failed to render voucher PDF');
+    }
+  };
+
   const printVoucher = async (row: VoucherRow) => {
     const popup = window.open('', '_blank', 'width=700,height=700');
     if (!popup) {
@@ -736,7 +748,7 @@ export const Accounting: React.FC = () => {
                     <td className="px-2 py-1 uppercase">{row.voucherType}</td>
                     <td className="px-2 py-1">{new Date(row.voucherDate).toLocaleDateString('en-IN')}</td>
                     <td className="px-2 py-1">{formatCurrency(row.totalAmount)}</td>
-                    <td className="px-2 py-1"><button className="text-indigo-300" onClick={() => printVoucher(row)}>Print</button></td>
+                    <td className="px-2 py-1 space-x-2"><button className="text-indigo-300" onClick={() => printVoucher(row)}>Print</button><button className="text-indigo-300" onClick={() => openVoucherPdf(row)}>PDF</button></td>
                   </tr>
                 ))}
               </tbody>
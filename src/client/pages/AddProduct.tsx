@@ -12,6 +12,8 @@ export const AddProduct: React.FC = () => {
     gstRate: '18',
     stock: '',
     minStock: '5',
+    barcodes: '',
+    weighedItemCode: '',
     unit: 'piece'
   });
   const [loading, setLoading] = useState(false);
@@ -53,6 +55,8 @@ export const AddProduct: React.FC = () => {
           gstRate: '18',
           stock: '',
           minStock: '5',
+          barcodes: '',
+          weighedItemCode: '',
           unit: 'piece'
         });
       } else {
@@ -117,6 +121,33 @@ export const AddProduct: React.FC = () => {
                 )}
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium leading-6 text-white">Barcodes (comma separated)</label>
+              <input
+                type="text"
+                name="barcodes"
+                value={formData.barcodes}
+                onChange={handleChange}
+                placeholder="EAN-13, UPC or internal codes"
+                className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6"
+              />
+            </div>
+
+            {formData.unit === 'kg' && (
+              <div>
+                <label className="block text-sm font-medium leading-6 text-white">Scale Item Code</label>
+                <input
+                  type="text"
+                  name="weighedItemCode"
+                  value={formData.weighedItemCode}
+                  onChange={handleChange}
+                  maxLength={5}
+                  placeholder="5-digit code printed in weighed barcodes"
+                  className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6"
+                />
+              </div>
+            )}
           </div>
 
           {/* Pricing & Stock */}
@@ -158,10 +189,12 @@ export const AddProduct: React.FC = () => {
                   className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6 [&>option]:bg-gray-900"
                 >
                   <option value="0">0%</option>
+                  <option value="3">3%</option>
                   <option value="5">5%</option>
                   <option value="12">12%</option>
                   <option value="18">18%</option>
                   <option value="28">28%</option>
+                  <option value="40">40%</option>
                 </select>
               </div>
               <div>
@@ -174,9 +207,14 @@ export const AddProduct: React.FC = () => {
                 >
                   <option value="piece">Piece</option>
                   <option value="kg">Kg</option>
+                  <option value="gram">Gram</option>
                   <option value="liter">Liter</option>
+                  <option value="ml">Ml</option>
                   <option value="meter">Meter</option>
                   <option value="box">Box</option>
+                  <option value="carton">Carton</option>
+                  <option value="pack">Pack</option>
+                  <option value="dozen">Dozen</option>
                 </select>
               </div>
             </div>
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { apiUrl, fetchApiJson } from '../utils/api';
+import { LabelLayout, printLabelSheet, renderBarcodeSvg } from '../utils/barcodeLabels';
+
+interface LabelProduct {
+  _id: string;
+  name: string;
+  sku: string;
+  price: number;
+  barcodes?: string[];
+}
+
+export const BarcodeLabels: React.FC = () => {
+  const [products, setProducts] = useState<LabelProduct[]>([]);
+  const [search, setSearch] = useState('');
+  const [copies, setCopies] = useState<Record<string, string>>({});
+  const [layout, setLayout] = useState<LabelLayout>('a4');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  useEffect(() => {
+    fetchApiJson(apiUrl('/api/products?limit=500'), { headers })
+      .then((data) => setProducts((data.data || []).filter((product: any) => !product.hasVariants)))
+      .catch((e: any) => setError(e.message || 'Failed to load products'));
+  }, [headers]);
+
+  const term = search.trim().toLowerCase();
+  const visibleProducts = products.filter((product) =>
+    !term
+    || product.name.toLowerCase().includes(term)
+    || product.sku.toLowerCase().includes(term)
+    || (product.barcodes || []).some((code) => code.toLowerCase() === term)
+  );
+
+  const selected = products
+    .filter((product) => Number(copies[product._id] || 0) > 0)
+    .map((product) => ({
+      name: product.name,
+      sku: product.sku,
+      barcode: product.barcodes?.[0],
+      price: product.price,
+      copies: Number(copies[product._id] || 0),
+    }));
+  const totalLabels = selected.reduce((sum, item) => sum + item.copies, 0);
+
+  const handlePrint = () => {
+    setError('');
+    if (!selected.length) {
+      setError('Enter the number of labels for at least one product');
+      return;
+    }
+    if (!printLabelSheet(selected, layout)) {
+      setError('Unable to open print window. Please allow popups and try again.');
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-white sm:text-3xl">Barcode Labels</h1>
+
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 p-5 sm:flex-row sm:items-center">
+        <input
+          className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white sm:max-w-xs"
+          placeholder="Search name, SKU or barcode"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <select
+          className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white"
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as LabelLayout)}
+        >
+          <option value="a4">A4 sheet (3 x 8)</option>
+          <option value="thermal">Thermal roll (50 x 25 mm)</option>
+        </select>
+        <span className="text-sm text-gray-300">{totalLabels} labels selected</span>
+        <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400 sm:ml-auto" onClick={handlePrint}>
+          Print Labels
+        </button>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-5">
+        <table className="min-w-full divide-y divide-white/10">
+          <thead>
+            <tr>
+              {['Product', 'SKU', 'Barcode', 'Price', 'Preview', 'Copies'].map((h) => (
+                <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10">
+            {visibleProducts.slice(0, 100).map((product) => (
+              <tr key={product._id}>
+                <td className="px-2 py-2 text-sm text-white">{product.name}</td>
+                <td className="px-2 py-2 text-sm text-gray-300">{product.sku}</td>
+                <td className="px-2 py-2 text-sm text-gray-300">{product.barcodes?.[0] || <span className="text-gray-500">SKU</span>}</td>
+                <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(product.price || 0)}</td>
+                <td className="px-2 py-2">
+                  <div
+                    className="h-10 w-40 overflow-hidden rounded bg-white [&>svg]:h-full [&>svg]:w-full"
+                    dangerouslySetInnerHTML={{ __html: renderBarcodeSvg(product.barcodes?.[0] || product.sku) }}
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-20 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+                    value={copies[product._id] ?? ''}
+                    onChange={(e) => setCopies({ ...copies, [product._id]: e.target.value })}
+                  />
+                </td>
+              </tr>
+            ))}
+            {visibleProducts.length === 0 && (
+              <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No products found.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { apiUrl, fetchApiJson } from '../utils/api';
+
+type ImportEntity = 'products' | 'categories' | 'opening_stock' | 'customer_prices';
+
+interface ImportRow {
+  row: number;
+  data: Record<string, any>;
+  errors: string[];
+}
+
+interface ImportResult {
+  entity: ImportEntity;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  rows: ImportRow[];
+}
+
+const entityLabels: Record<ImportEntity, string> = {
+  products: 'Products',
+  categories: 'Categories',
+  opening_stock: 'Opening Stock',
+  customer_prices: 'Customer Price Overrides',
+};
+
+const readFileContent = (file: File): Promise<{ format: 'csv' | 'xlsx'; content: string }> =>
+  new Promise((resolve, reject) => {
+    const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error('Unable to read file'));
+    reader.onload = () => {
+      if (!isXlsx) {
+        resolve({ format: 'csv', content: String(reader.result || '') });
+        return;
+      }
+      // Data URL prefix is stripped so the server receives plain base64.
+      resolve({ format: 'xlsx', content: String(reader.result || '').split(',')[1] || '' });
+    };
+    if (isXlsx) reader.readAsDataURL(file);
+    else reader.readAsText(file);
+  });
+
+export const CatalogImport: React.FC = () => {
+  const [entity, setEntity] = useState<ImportEntity>('products');
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [showValidRows, setShowValidRows] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) {
+      setError('Choose a CSV or XLSX file first');
+      return;
+    }
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      const payload = await readFileContent(file);
+      const data = await fetchApiJson(apiUrl('/api/catalog/import'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ entity, ...payload, dryRun }),
+      });
+      setResult(data.data);
+      if (dryRun) {
+        setMessage(data.data.errorRows ? `${data.data.errorRows} rows need fixing before import.` : `All ${data.data.totalRows} rows are valid. Ready to import.`);
+      } else {
+        setMessage(data.message || 'Import completed');
+        setFile(null);
+      }
+    } catch (e: any) {
+      setError(e.message || 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const download = async (path: string, fileName: string) => {
+    setError('');
+    try {
+      const response = await fetch(apiUrl(path), { headers: { Authorization: headers.Authorization } });
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+      const blob = await response.blob();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (e: any) {
+      setError(e.message || 'Download failed');
+    }
+  };
+
+  const visibleRows = (result?.rows || []).filter((row) => showValidRows || row.errors.length);
+  const canCommit = Boolean(result && result.entity === entity && result.errorRows === 0 && result.totalRows > 0 && file);
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-white sm:text-3xl">Catalog Import / Export</h1>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-white">Import</h2>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+            <select
+              className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white"
+              value={entity}
+              onChange={(e) => {
+                setEntity(e.target.value as ImportEntity);
+                setResult(null);
+              }}
+            >
+              {(Object.keys(entityLabels) as ImportEntity[]).map((key) => (
+                <option key={key} value={key}>{entityLabels[key]}</option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="text-sm text-gray-300"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+            />
+            <button
+              className="text-xs text-indigo-300 hover:text-indigo-200 sm:ml-auto"
+              onClick={() => download(`/api/catalog/template?entity=${entity}`, `${entity}_template.csv`)}
+            >
+              Download template
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button
+              disabled={busy}
+              className="rounded-md bg-white/10 px-3 py-2 text-sm font-semibold text-white hover:bg-white/20 disabled:opacity-50"
+              onClick={() => submit(true)}
+            >
+              Validate (Dry Run)
+            </button>
+            <button
+              disabled={busy || !canCommit}
+              className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400 disabled:opacity-50"
+              onClick={() => submit(false)}
+            >
+              Import
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">Rows are imported all together or not at all. Run a dry run first and fix any reported rows.</p>
+        </div>
+
+        <div className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">Export</h2>
+          <div className="grid grid-cols-2 gap-2">
+            <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => download('/api/catalog/export?entity=products&format=csv', 'products.csv')}>Products CSV</button>
+            <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => download('/api/catalog/export?entity=products&format=xlsx', 'products.xlsx')}>Products XLSX</button>
+            <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => download('/api/catalog/export?entity=categories&format=csv', 'categories.csv')}>Categories CSV</button>
+            <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => download('/api/catalog/export?entity=categories&format=xlsx', 'categories.xlsx')}>Categories XLSX</button>
+          </div>
+        </div>
+      </div>
+
+      {result && (
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-5">
+          <div className="mb-3 flex items-center justify-between">
+            <p className="text-sm text-gray-300">
+              {result.totalRows} rows | <span className="text-emerald-300">{result.validRows} valid</span> | <span className="text-red-300">{result.errorRows} with errors</span>
+            </p>
+            <label className="flex items-center gap-2 text-xs text-gray-300">
+              <input type="checkbox" checked={showValidRows} onChange={(e) => setShowValidRows(e.target.checked)} />
+              Show valid rows
+            </label>
+          </div>
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Row', 'Key', 'Errors'].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {visibleRows.map((row) => (
+                <tr key={row.row}>
+                  <td className="px-2 py-2 text-sm text-gray-300">{row.row}</td>
+                  <td className="px-2 py-2 text-sm text-white">{row.data.sku || row.data.name || row.data.customerCode || '-'}</td>
+                  <td className={`px-2 py-2 text-sm ${row.errors.length ? 'text-red-300' : 'text-emerald-300'}`}>
+                    {row.errors.length ? row.errors.join('; ') : 'OK'}
+                  </td>
+                </tr>
+              ))}
+              {visibleRows.length === 0 && (
+                <tr><td colSpan={3} className="px-2 py-3 text-center text-sm text-gray-400">No rows with errors.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,344 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { apiUrl, fetchApiJson, newIdempotencyKey } from '../utils/api';
+import { EwayBillDialog } from '../components/EwayBillDialog';
+
+type ChallanStatus = 'issued' | 'invoiced' | 'cancelled';
+
+interface ProductOption {
+  _id: string;
+  name: string;
+  sku: string;
+  price: number;
+}
+
+interface CustomerOption {
+  _id: string;
+  name: string;
+  phone?: string;
+}
+
+interface ChallanRow {
+  _id: string;
+  challanNumber: string;
+  status: ChallanStatus;
+  challanDate: string;
+  customerId: string;
+  customerName?: string;
+  customerPhone?: string;
+  shipToAddress?: string;
+  shipToPincode?: string;
+  shipToStateCode?: string;
+  items: Array<{ productName: string; quantity: number; unit?: string; hsnCode?: string }>;
+  totalValue: number;
+  transport?: Record<string, any>;
+  invoiceNumber?: string;
+}
+
+const STATUS_STYLES: Record<ChallanStatus, string> = {
+  issued: 'text-sky-300',
+  invoiced: 'text-emerald-300',
+  cancelled: 'text-gray-500',
+};
+
+const emptyLine = { productId: '', quantity: '1', unitPrice: '', discountPercentage: '' };
+
+const emptyForm = {
+  customerId: '',
+  shipToAddress: '',
+  shipToPincode: '',
+  shipToStateCode: '',
+  vehicleNumber: '',
+  transporterName: '',
+  distanceKm: '',
+  approvePriceOverride: false,
+  notes: '',
+  items: [{ ...emptyLine }],
+};
+
+export const DeliveryChallans: React.FC = () => {
+  const [rows, setRows] = useState<ChallanRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [statusFilter, setStatusFilter] = useState('issued');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [ewayFor, setEwayFor] = useState<ChallanRow | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const load = async () => {
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (statusFilter) params.set('status', statusFilter);
+      if (search.trim()) params.set('q', search.trim());
+      const data = await fetchApiJson(apiUrl(`/api/delivery-challans?${params.toString()}`), { headers });
+      setRows(data.data || []);
+      setSelected([]);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load delivery challans');
+    }
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [productData, customerData] = await Promise.all([
+          fetchApiJson(apiUrl('/api/products?limit=500'), { headers }),
+          fetchApiJson(apiUrl('/api/customers'), { headers }),
+        ]);
+        setProducts(productData.data || []);
+        setCustomers(customerData.data || []);
+      } catch (e: any) {
+        setError(e.message || 'Failed to load products and customers');
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [statusFilter]);
+
+  const run = async (action: () => Promise<any>, fallback: string) => {
+    setError('');
+    setMessage('');
+    try {
+      const data = await action();
+      setMessage(data?.message || 'Done');
+      await load();
+      return data;
+    } catch (e: any) {
+      setError(e.message || fallback);
+      return null;
+    }
+  };
+
+  const issue = async () => {
+    if (!form.customerId) {
+      setError('Select the customer the goods are going to');
+      return;
+    }
+    const payload = {
+      customerId: form.customerId,
+      shipToAddress: form.shipToAddress || undefined,
+      shipToPincode: form.shipToPincode || undefined,
+      shipToStateCode: form.shipToStateCode || undefined,
+      approvePriceOverride: form.approvePriceOverride,
+      notes: form.notes || undefined,
+      transport: {
+        vehicleNumber: form.vehicleNumber || undefined,
+        transporterName: form.transporterName || undefined,
+        distanceKm: Number(form.distanceKm || 0) || undefined,
+      },
+      items: form.items
+        .filter((item) => item.productId)
+        .map((item) => ({
+          productId: item.productId,
+          quantity: Number(item.quantity || 0),
+          unitPrice: item.unitPrice === '' ? undefined : Number(item.unitPrice),
+          discountPercentage: Number(item.discountPercentage || 0),
+        })),
+    };
+    const saved = await run(
+      () =>
+        fetchApiJson(apiUrl('/api/delivery-challans'), {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
+          body: JSON.stringify(payload),
+        }),
+      'Failed to issue delivery challan'
+    );
+    if (saved) setForm(emptyForm);
+  };
+
+  const invoiceSelected = () => {
+    const picked = rows.filter((row) => selected.includes(row._id));
+    if (new Set(picked.map((row) => row.customerId)).size > 1) {
+      setError('Select challans of one customer to bill them together');
+      return;
+    }
+    run(
+      () =>
+        fetchApiJson(apiUrl('/api/delivery-challans/invoice'), {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
+          body: JSON.stringify({ challanIds: selected }),
+        }),
+      'Failed to invoice challans'
+    );
+  };
+
+  const cancel = (row: ChallanRow) => {
+    const reason = window.prompt(`Cancel ${row.challanNumber}? The goods come back into stock. Reason:`);
+    if (reason === null) return;
+    run(
+      () =>
+        fetchApiJson(apiUrl(`/api/delivery-challans/${row._id}/cancel`), {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ reason }),
+        }),
+      'Failed to cancel challan'
+    );
+  };
+
+  const updateLine = (index: number, patch: Partial<typeof emptyLine>) =>
+    setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...patch } : item)) });
+
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+  const buttonClass = 'rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20';
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-white sm:text-3xl">Delivery Challans</h1>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">New Challan</h2>
+          <select className={inputClass} value={form.customerId} onChange={(e) => setForm({ ...form, customerId: e.target.value })}>
+            <option value="">Select customer</option>
+            {customers.map((customer) => (
+              <option key={customer._id} value={customer._id}>{customer.name}{customer.phone ? ` (${customer.phone})` : ''}</option>
+            ))}
+          </select>
+          <input className={inputClass} placeholder="Ship-to address (defaults to customer address)" value={form.shipToAddress} onChange={(e) => setForm({ ...form, shipToAddress: e.target.value })} />
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder="Pincode" value={form.shipToPincode} onChange={(e) => setForm({ ...form, shipToPincode: e.target.value })} />
+            <input className={inputClass} placeholder="State code" value={form.shipToStateCode} onChange={(e) => setForm({ ...form, shipToStateCode: e.target.value })} />
+          </div>
+
+          {form.items.map((item, index) => (
+            <div key={index} className="grid grid-cols-[1fr_55px_75px_50px_auto] gap-1">
+              <select className={inputClass} value={item.productId} onChange={(e) => updateLine(index, { productId: e.target.value })}>
+                <option value="">Select product</option>
+                {products.map((product) => (
+                  <option key={product._id} value={product._id}>{product.name} ({formatCurrency(product.price)})</option>
+                ))}
+              </select>
+              <input className={inputClass} type="number" min="0" placeholder="Qty" value={item.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} />
+              <input className={inputClass} type="number" min="0" placeholder="Price" value={item.unitPrice} onChange={(e) => updateLine(index, { unitPrice: e.target.value })} />
+              <input className={inputClass} type="number" min="0" max="100" placeholder="%" value={item.discountPercentage} onChange={(e) => updateLine(index, { discountPercentage: e.target.value })} />
+              <button className="text-red-400" onClick={() => setForm({ ...form, items: form.items.filter((_row, i) => i !== index) })}>x</button>
+            </div>
+          ))}
+          <button className={buttonClass} onClick={() => setForm({ ...form, items: [...form.items, { ...emptyLine }] })}>+ Line</button>
+
+          <div className="grid grid-cols-3 gap-2">
+            <input className={inputClass} placeholder="Vehicle no." value={form.vehicleNumber} onChange={(e) => setForm({ ...form, vehicleNumber: e.target.value })} />
+            <input className={inputClass} placeholder="Transporter" value={form.transporterName} onChange={(e) => setForm({ ...form, transporterName: e.target.value })} />
+            <input className={inputClass} type="number" min="0" placeholder="Km" value={form.distanceKm} onChange={(e) => setForm({ ...form, distanceKm: e.target.value })} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={form.approvePriceOverride} onChange={(e) => setForm({ ...form, approvePriceOverride: e.target.checked })} />
+            Approve prices below list (admin/manager)
+          </label>
+          <input className={inputClass} placeholder="Notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+          <button className="w-full rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={issue}>
+            Issue Challan
+          </button>
+          <p className="text-xs text-gray-400">Stock leaves now; the tax invoice is raised later from the list.</p>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="mr-auto text-lg font-semibold text-white">Challans</h2>
+            <input
+              className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white"
+              placeholder="Number, customer or invoice"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && load()}
+            />
+            <select className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)}>
+              <option value="">All statuses</option>
+              {Object.keys(STATUS_STYLES).map((status) => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+            <button
+              className="rounded-md bg-indigo-500 px-3 py-1.5 text-xs font-semibold text-white hover:bg-indigo-400 disabled:opacity-50"
+              disabled={selected.length === 0}
+              onClick={invoiceSelected}
+            >
+              Invoice Selected ({selected.length})
+            </button>
+          </div>
+          <table className="mt-3 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['', 'Challan', 'Customer', 'Items', 'Value', 'Status', ''].map((h, index) => (
+                  <th key={index} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {rows.map((row) => (
+                <tr key={row._id}>
+                  <td className="px-2 py-2">
+                    {row.status === 'issued' && (
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(row._id)}
+                        onChange={(e) => setSelected(e.target.checked ? [...selected, row._id] : selected.filter((id) => id !== row._id))}
+                      />
+                    )}
+                  </td>
+                  <td className="px-2 py-2 text-sm text-white">
+                    {row.challanNumber}
+                    <div className="text-xs text-gray-400">{new Date(row.challanDate).toLocaleDateString('en-IN')}</div>
+                  </td>
+                  <td className="px-2 py-2 text-sm text-gray-300">
+                    {row.customerName || '-'}
+                    {row.shipToAddress && <div className="text-xs text-gray-400">{row.shipToAddress}</div>}
+                  </td>
+                  <td className="px-2 py-2 text-xs text-gray-300">
+                    {row.items.map((item, index) => (
+                      <div key={index}>{item.productName} x {item.quantity} {item.unit || ''}</div>
+                    ))}
+                  </td>
+                  <td className="px-2 py-2 text-sm text-white">{formatCurrency(row.totalValue)}</td>
+                  <td className="px-2 py-2 text-sm">
+                    <span className={STATUS_STYLES[row.status]}>{row.status}</span>
+                    {row.invoiceNumber && <div className="text-xs text-gray-400">{row.invoiceNumber}</div>}
+                  </td>
+                  <td className="px-2 py-2 text-sm">
+                    {row.status !== 'cancelled' && (
+                      <div className="flex flex-wrap gap-1">
+                        <button className={buttonClass} onClick={() => setEwayFor(row)}>E-way Bill</button>
+                        {row.status === 'issued' && (
+                          <button className="rounded-md bg-red-500/20 px-2 py-1 text-xs text-red-200 hover:bg-red-500/30" onClick={() => cancel(row)}>Cancel</button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr><td colSpan={7} className="px-2 py-3 text-center text-sm text-gray-400">No delivery challans found.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {ewayFor && (
+        <EwayBillDialog
+          endpoint={`/api/delivery-challans/${ewayFor._id}/eway-bill`}
+          docNo={ewayFor.challanNumber}
+          transport={ewayFor.transport}
+          shipTo={{ pincode: ewayFor.shipToPincode, stateCode: ewayFor.shipToStateCode }}
+          onClose={() => setEwayFor(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,494 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { apiUrl, fetchApiJson } from '../utils/api';
+import { PrintDocumentType } from '../utils/documentPdf';
+import { PrintProfile } from '../utils/generalSettings';
+
+type Align = 'left' | 'center' | 'right';
+
+interface TextLine {
+  text: string;
+  align?: Align;
+  size?: number;
+  bold?: boolean;
+}
+
+interface Field {
+  label: string;
+  value: string;
+  hideIfEmpty?: boolean;
+  bold?: boolean;
+}
+
+interface Column {
+  header: string;
+  value: string;
+  width: number;
+  align?: Align;
+}
+
+interface Layout {
+  header: TextLine[];
+  fields: Field[];
+  columns: Column[];
+  totals: Field[];
+  footer: TextLine[];
+  showQrCode: boolean;
+  fontSize?: number;
+}
+
+interface TemplateRow {
+  _id: string;
+  name: string;
+  documentType: PrintDocumentType;
+  paperSize: PrintProfile;
+  isDefault: boolean;
+  isActive: boolean;
+  isBuiltIn: boolean;
+  currentVersion: number;
+  versionCount: number;
+  layout: Layout;
+  updatedAt?: string;
+}
+
+interface TemplateVersion {
+  version: number;
+  layout: Layout;
+  note?: string;
+  createdAt: string;
+}
+
+const DOCUMENT_TYPES: Record<PrintDocumentType, string> = {
+  invoice: 'Tax Invoice',
+  receipt: 'Receipt',
+  credit_note: 'Credit Note',
+  booking_receipt: 'Booking Receipt',
+  voucher: 'Voucher',
+};
+
+const PAPER_SIZES: Record<PrintProfile, string> = {
+  a4: 'A4',
+  thermal80: 'Thermal 80mm',
+  thermal58: 'Thermal 58mm',
+};
+
+const ALIGNS: Align[] = ['left', 'center', 'right'];
+
+const moveRow = <T,>(rows: T[], index: number, step: number): T[] => {
+  const target = index + step;
+  if (target < 0 || target >= rows.length) return rows;
+  const next = [...rows];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const DocumentTemplates: React.FC = () => {
+  const [rows, setRows] = useState<TemplateRow[]>([]);
+  const [placeholders, setPlaceholders] = useState<Record<string, { fields: string[]; items: string[] }>>({});
+  const [filter, setFilter] = useState({ documentType: '', paperSize: '' });
+  const [selected, setSelected] = useState<TemplateRow | null>(null);
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [layout, setLayout] = useState<Layout | null>(null);
+  const [details, setDetails] = useState({ name: '', isDefault: false, isActive: true, note: '' });
+  const [copy, setCopy] = useState({ name: '', documentType: 'invoice' as PrintDocumentType, paperSize: 'a4' as PrintProfile });
+  const [previewDocumentId, setPreviewDocumentId] = useState('');
+  const [previewUrl, setPreviewUrl] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const load = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (filter.documentType) params.set('documentType', filter.documentType);
+      if (filter.paperSize) params.set('paperSize', filter.paperSize);
+      const data = await fetchApiJson(apiUrl(`/api/document-templates?${params.toString()}`), { headers });
+      setRows(data.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load templates');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [filter.documentType, filter.paperSize]);
+
+  useEffect(() => {
+    fetchApiJson(apiUrl('/api/document-templates/placeholders'), { headers })
+      .then((data) => setPlaceholders(data.data || {}))
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const open = async (row: TemplateRow) => {
+    setError('');
+    setMessage('');
+    try {
+      const data = await fetchApiJson(apiUrl(`/api/document-templates/${row._id}`), { headers });
+      setSelected(row);
+      setVersions([...(data.data?.versions || [])].reverse());
+      setLayout(data.data?.layout || row.layout);
+      setDetails({ name: row.name, isDefault: row.isDefault, isActive: row.isActive, note: '' });
+      setCopy({ name: `${row.name} (copy)`, documentType: row.documentType, paperSize: row.paperSize });
+      setPreviewUrl('');
+    } catch (e: any) {
+      setError(e.message || 'Failed to load template');
+    }
+  };
+
+  const save = async () => {
+    if (!selected || !layout) return;
+    setError('');
+    setMessage('');
+    try {
+      const data = await fetchApiJson(apiUrl(`/api/document-templates/${selected._id}`), {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ ...details, layout }),
+      });
+      setMessage(data.message || 'Template saved');
+      await load();
+      await open(data.data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to save template');
+    }
+  };
+
+  const saveDetailsOnly = async () => {
+    if (!selected) return;
+    setError('');
+    setMessage('');
+    try {
+      const { note: _note, ...rest } = details;
+      await fetchApiJson(apiUrl(`/api/document-templates/${selected._id}`), { method: 'PUT', headers, body: JSON.stringify(rest) });
+      setMessage('Template details updated');
+      await load();
+    } catch (e: any) {
+      setError(e.message || 'Failed to update template');
+    }
+  };
+
+  const createCopy = async () => {
+    if (!layout) return;
+    setError('');
+    setMessage('');
+    try {
+      const data = await fetchApiJson(apiUrl('/api/document-templates'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...copy, layout }),
+      });
+      setMessage(data.message || 'Template created');
+      await load();
+      await open(data.data);
+    } catch (e: any) {
+      setError(e.message || 'Failed to create template');
+    }
+  };
+
+  // Renders the layout on screen as it is, saved or not.
+  const preview = async () => {
+    if (!selected || !layout) return;
+    setError('');
+    try {
+      const response = await fetch(apiUrl(`/api/document-templates/${selected._id}/preview`), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ layout, documentId: previewDocumentId.trim() || undefined }),
+      });
+      if (!response.ok) {
+        const text = await response.text();
+        let reason = text;
+        try {
+          reason = JSON.parse(text).error || text;
+        } catch {
+          // plain-text error body
+        }
+        throw new Error(reason || 'Failed to render preview');
+      }
+      setPreviewUrl(URL.createObjectURL(await response.blob()));
+    } catch (e: any) {
+      setError(e.message || 'Failed to render preview');
+    }
+  };
+
+  const update = <K extends keyof Layout>(key: K, value: Layout[K]) => {
+    if (layout) setLayout({ ...layout, [key]: value });
+  };
+
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+  const smallButton = 'rounded bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20';
+
+  const rowActions = <T,>(key: 'header' | 'fields' | 'columns' | 'totals' | 'footer', list: T[], index: number) => (
+    <div className="flex gap-1">
+      <button className={smallButton} onClick={() => update(key, moveRow(list, index, -1) as any)}>↑</button>
+      <button className={smallButton} onClick={() => update(key, moveRow(list, index, 1) as any)}>↓</button>
+      <button className={smallButton} onClick={() => update(key, list.filter((_, i) => i !== index) as any)}>✕</button>
+    </div>
+  );
+
+  const lineEditor = (key: 'header' | 'footer', title: string) => {
+    if (!layout) return null;
+    const list = layout[key];
+    const set = (index: number, patch: Partial<TextLine>) => update(key, list.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-white">{title}</h3>
+          <button className={smallButton} onClick={() => update(key, [...list, { text: '', align: 'left' }])}>+ Line</button>
+        </div>
+        {list.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 items-center gap-1">
+            <input className={`${inputClass} col-span-6`} value={row.text} onChange={(e) => set(index, { text: e.target.value })} />
+            <select className={`${inputClass} col-span-2`} value={row.align || 'left'} onChange={(e) => set(index, { align: e.target.value as Align })}>
+              {ALIGNS.map((align) => <option key={align} value={align}>{align}</option>)}
+            </select>
+            <input
+              className={`${inputClass} col-span-1`}
+              type="number"
+              min="5"
+              max="24"
+              placeholder="pt"
+              value={row.size ?? ''}
+              onChange={(e) => set(index, { size: e.target.value ? Number(e.target.value) : undefined })}
+            />
+            <label className="col-span-1 flex items-center gap-1 text-xs text-gray-300">
+              <input type="checkbox" checked={Boolean(row.bold)} onChange={(e) => set(index, { bold: e.target.checked })} />B
+            </label>
+            <div className="col-span-2">{rowActions(key, list, index)}</div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const fieldEditor = (key: 'fields' | 'totals', title: string) => {
+    if (!layout) return null;
+    const list = layout[key];
+    const set = (index: number, patch: Partial<Field>) => update(key, list.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-white">{title}</h3>
+          <button className={smallButton} onClick={() => update(key, [...list, { label: '', value: '' }])}>+ Row</button>
+        </div>
+        {list.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 items-center gap-1">
+            <input className={`${inputClass} col-span-3`} placeholder="Label" value={row.label} onChange={(e) => set(index, { label: e.target.value })} />
+            <input className={`${inputClass} col-span-5`} placeholder="{{placeholder}}" value={row.value} onChange={(e) => set(index, { value: e.target.value })} />
+            <label className="col-span-1 flex items-center gap-1 text-xs text-gray-300" title="Hide when empty">
+              <input type="checkbox" checked={Boolean(row.hideIfEmpty)} onChange={(e) => set(index, { hideIfEmpty: e.target.checked })} />H
+            </label>
+            <label className="col-span-1 flex items-center gap-1 text-xs text-gray-300">
+              <input type="checkbox" checked={Boolean(row.bold)} onChange={(e) => set(index, { bold: e.target.checked })} />B
+            </label>
+            <div className="col-span-2">{rowActions(key, list, index)}</div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const columnEditor = () => {
+    if (!layout) return null;
+    const list = layout.columns;
+    const set = (index: number, patch: Partial<Column>) => update('columns', list.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-white">Item Columns</h3>
+          <button className={smallButton} onClick={() => update('columns', [...list, { header: '', value: '', width: 1, align: 'left' }])}>+ Column</button>
+        </div>
+        {list.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 items-center gap-1">
+            <input className={`${inputClass} col-span-3`} placeholder="Heading" value={row.header} onChange={(e) => set(index, { header: e.target.value })} />
+            <input className={`${inputClass} col-span-4`} placeholder="{{item.placeholder}}" value={row.value} onChange={(e) => set(index, { value: e.target.value })} />
+            <input
+              className={`${inputClass} col-span-1`}
+              type="number"
+              min="1"
+              title="Relative width"
+              value={row.width}
+              onChange={(e) => set(index, { width: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <select className={`${inputClass} col-span-2`} value={row.align || 'left'} onChange={(e) => set(index, { align: e.target.value as Align })}>
+              {ALIGNS.map((align) => <option key={align} value={align}>{align}</option>)}
+            </select>
+            <div className="col-span-2">{rowActions('columns', list, index)}</div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const reference = selected ? placeholders[selected.documentType] : undefined;
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <div>
+        <h1 className="text-2xl font-bold text-white sm:text-3xl">Print Templates</h1>
+        <p className="text-sm text-gray-300">
+          Layouts the server uses to render invoices, receipts, credit notes, booking receipts and vouchers to PDF. Every save is a new version;
+          documents already printed keep reprinting with the version they were first printed with.
+        </p>
+      </div>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">Templates</h2>
+          <div className="grid grid-cols-2 gap-2">
+            <select className={inputClass} value={filter.documentType} onChange={(e) => setFilter({ ...filter, documentType: e.target.value })}>
+              <option value="">All documents</option>
+              {Object.entries(DOCUMENT_TYPES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <select className={inputClass} value={filter.paperSize} onChange={(e) => setFilter({ ...filter, paperSize: e.target.value })}>
+              <option value="">All paper</option>
+              {Object.entries(PAPER_SIZES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <div className="max-h-[32rem] divide-y divide-white/10 overflow-y-auto">
+            {rows.map((row) => (
+              <button
+                key={row._id}
+                className={`block w-full px-2 py-2 text-left text-sm hover:bg-white/10 ${selected?._id === row._id ? 'bg-indigo-500/20' : ''}`}
+                onClick={() => open(row)}
+              >
+                <div className="text-white">{row.name}</div>
+                <div className="text-xs text-gray-400">
+                  {DOCUMENT_TYPES[row.documentType]} · {PAPER_SIZES[row.paperSize]} · v{row.currentVersion}
+                  {row.isDefault && <span className="ml-1 text-emerald-300">default</span>}
+                  {!row.isActive && <span className="ml-1 text-gray-500">inactive</span>}
+                </div>
+              </button>
+            ))}
+            {rows.length === 0 && <p className="px-2 py-3 text-center text-sm text-gray-400">No templates.</p>}
+          </div>
+        </div>
+
+        <div className="space-y-4 rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          {!selected || !layout ? (
+            <p className="text-sm text-gray-400">Pick a template to edit its layout.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="flex-1 text-xs text-gray-400">
+                  Name
+                  <input className={`${inputClass} mt-1`} value={details.name} onChange={(e) => setDetails({ ...details, name: e.target.value })} />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input type="checkbox" checked={details.isDefault} onChange={(e) => setDetails({ ...details, isDefault: e.target.checked })} />
+                  Default
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input type="checkbox" checked={details.isActive} onChange={(e) => setDetails({ ...details, isActive: e.target.checked })} />
+                  Active
+                </label>
+                <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={saveDetailsOnly}>
+                  Update Details
+                </button>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                <span>{DOCUMENT_TYPES[selected.documentType]} · {PAPER_SIZES[selected.paperSize]}</span>
+                <label className="flex items-center gap-2">
+                  Base font
+                  <input
+                    className="w-16 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+                    type="number"
+                    min="5"
+                    max="14"
+                    value={layout.fontSize ?? ''}
+                    placeholder="auto"
+                    onChange={(e) => update('fontSize', e.target.value ? Number(e.target.value) : undefined)}
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={layout.showQrCode} onChange={(e) => update('showQrCode', e.target.checked)} />
+                  Print e-invoice QR
+                </label>
+              </div>
+
+              {lineEditor('header', 'Header')}
+              {fieldEditor('fields', 'Details')}
+              {columnEditor()}
+              {fieldEditor('totals', 'Totals')}
+              {lineEditor('footer', 'Footer')}
+
+              {reference && (
+                <details className="rounded-md border border-white/10 bg-black/20 p-3 text-xs text-gray-300">
+                  <summary className="cursor-pointer text-sm text-white">Placeholders</summary>
+                  <p className="mt-2">
+                    Write <code>{'{{customer.name}}'}</code>, optionally with a format: <code>{'{{totals.total|currency}}'}</code>. Formats:
+                    currency, amount, number, date, datetime, upper, words. Item columns use <code>{'{{item.*}}'}</code>.
+                  </p>
+                  <p className="mt-2 font-semibold text-gray-200">Document</p>
+                  <p className="break-words">{reference.fields.join(', ')}</p>
+                  <p className="mt-2 font-semibold text-gray-200">Items</p>
+                  <p className="break-words">{reference.items.join(', ')}</p>
+                </details>
+              )}
+
+              <div className="flex flex-wrap items-end gap-2 border-t border-white/10 pt-4">
+                <label className="flex-1 text-xs text-gray-400">
+                  Version note
+                  <input className={`${inputClass} mt-1`} value={details.note} onChange={(e) => setDetails({ ...details, note: e.target.value })} />
+                </label>
+                <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={save}>
+                  Save as v{Math.max(selected.currentVersion, ...versions.map((row) => row.version)) + 1}
+                </button>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="flex-1 text-xs text-gray-400">
+                  Preview with document id (blank for sample data)
+                  <input className={`${inputClass} mt-1`} value={previewDocumentId} onChange={(e) => setPreviewDocumentId(e.target.value)} />
+                </label>
+                <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={preview}>
+                  Preview
+                </button>
+              </div>
+              {previewUrl && <iframe title="Template preview" src={previewUrl} className="h-[36rem] w-full rounded-md border border-white/10 bg-white" />}
+
+              <div className="grid grid-cols-1 gap-4 border-t border-white/10 pt-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-white">Versions</h3>
+                  {versions.map((row) => (
+                    <div key={row.version} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                      <span>
+                        v{row.version}
+                        {row.version === selected.currentVersion && <span className="ml-1 text-emerald-300">current</span>}
+                        <span className="ml-2 text-gray-500">{new Date(row.createdAt).toLocaleString('en-IN')}</span>
+                        {row.note && <span className="ml-2">{row.note}</span>}
+                      </span>
+                      <button className={smallButton} onClick={() => setLayout(row.layout)}>Load</button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-400">Loading an older version and saving it makes it the current one as a new version.</p>
+                </div>
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-white">Save as New Template</h3>
+                  <input className={inputClass} value={copy.name} onChange={(e) => setCopy({ ...copy, name: e.target.value })} />
+                  <select className={inputClass} value={copy.paperSize} onChange={(e) => setCopy({ ...copy, paperSize: e.target.value as PrintProfile })}>
+                    {Object.entries(PAPER_SIZES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                  <button className="w-full rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={createCopy}>
+                    Create Copy
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
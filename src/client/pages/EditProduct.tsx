@@ -8,6 +8,11 @@ export const EditProduct: React.FC = () => {
   const { categories, loading: categoriesLoading } = useCategories();
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [suppliers, setSuppliers] = useState<Array<{ _id: string; name: string }>>([]);
+  const [variants, setVariants] = useState<any[]>([]);
+  const [alternateUnits, setAlternateUnits] = useState<Array<{ unit: string; conversionFactor: string; price: string }>>([]);
+  const [isVariant, setIsVariant] = useState(false);
+  const [variantForm, setVariantForm] = useState({ size: '', colour: '', sku: '', barcode: '', price: '', stock: '' });
   
   const [formData, setFormData] = useState({
     name: '',
@@ -18,6 +23,11 @@ export const EditProduct: React.FC = () => {
     gstRate: '18',
     stock: '',
     minStock: '5',
+    preferredSupplierId: '',
+    leadTimeDays: '0',
+    reorderQuantity: '0',
+    barcodes: '',
+    weighedItemCode: '',
     unit: 'piece'
   });
 
@@ -40,8 +50,19 @@ export const EditProduct: React.FC = () => {
             gstRate: data.gstRate.toString(),
             stock: data.stock.toString(),
             minStock: data.minStock.toString(),
+            preferredSupplierId: data.preferredSupplierId || '',
+            leadTimeDays: String(data.leadTimeDays || 0),
+            reorderQuantity: String(data.reorderQuantity || 0),
+            barcodes: (data.barcodes || []).join(', '),
+            weighedItemCode: data.weighedItemCode || '',
             unit: data.unit
           });
+          setIsVariant(Boolean(data.parentProductId));
+          setAlternateUnits((data.alternateUnits || []).map((row: any) => ({
+            unit: row.unit,
+            conversionFactor: String(row.conversionFactor),
+            price: row.price ? String(row.price) : ''
+          })));
         } else {
           alert('Failed to fetch product details');
           navigate('/products');
@@ -57,6 +78,72 @@ export const EditProduct: React.FC = () => {
     if (id) fetchProduct();
   }, [id, navigate]);
 
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    fetch('http://localhost:3000/api/purchases/suppliers', { headers: { 'Authorization': `Bearer ${token}` } })
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then((data) => setSuppliers(data.data || []))
+      .catch(() => setSuppliers([]));
+  }, []);
+
+  const loadVariants = async () => {
+    const token = localStorage.getItem('token');
+    const response = await fetch(`http://localhost:3000/api/products/${id}/variants`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (response.ok) {
+      const data = await response.json();
+      setVariants(data.data?.variants || []);
+    }
+  };
+
+  useEffect(() => {
+    if (id) loadVariants().catch(() => setVariants([]));
+  }, [id]);
+
+  const handleAddVariant = async () => {
+    const attributes: Record<string, string> = {};
+    if (variantForm.size.trim()) attributes.Size = variantForm.size.trim();
+    if (variantForm.colour.trim()) attributes.Colour = variantForm.colour.trim();
+    if (!Object.keys(attributes).length) {
+      alert('Enter a size or colour for the variant');
+      return;
+    }
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`http://localhost:3000/api/products/${id}/variants`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          variants: [{
+            attributes,
+            sku: variantForm.sku || undefined,
+            barcodes: variantForm.barcode ? [variantForm.barcode] : [],
+            price: variantForm.price ? Number(variantForm.price) : undefined,
+            stock: variantForm.stock ? Number(variantForm.stock) : 0
+          }]
+        })
+      });
+      if (response.ok) {
+        setVariantForm({ size: '', colour: '', sku: '', barcode: '', price: '', stock: '' });
+        await loadVariants();
+      } else {
+        const data = await response.json();
+        alert(data.error || 'Failed to add variant');
+      }
+    } catch (error) {
+      console.error('Error adding variant:', error);
+      alert('Error adding variant');
+    }
+  };
+
+  const updateAlternateUnit = (index: number, field: 'unit' | 'conversionFactor' | 'price', value: string) => {
+    setAlternateUnits(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -79,7 +166,16 @@ export const EditProduct: React.FC = () => {
           cost: Number(formData.cost),
           stock: Number(formData.stock),
           minStock: Number(formData.minStock),
-          gstRate: Number(formData.gstRate)
+          leadTimeDays: Number(formData.leadTimeDays),
+          reorderQuantity: Number(formData.reorderQuantity),
+          gstRate: Number(formData.gstRate),
+          alternateUnits: alternateUnits
+            .filter((row) => row.unit.trim())
+            .map((row) => ({
+              unit: row.unit.trim(),
+              conversionFactor: Number(row.conversionFactor),
+              price: row.price ? Number(row.price) : undefined
+            }))
         })
       });
 
@@ -123,6 +219,61 @@ export const EditProduct: React.FC = () => {
                 ))}
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium leading-6 text-white">Barcodes (comma separated)</label>
+              <input type="text" name="barcodes" value={formData.barcodes} onChange={handleChange} placeholder="EAN-13, UPC or internal codes" className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6" />
+            </div>
+            {formData.unit === 'kg' && (
+              <div>
+                <label className="block text-sm font-medium leading-6 text-white">Scale Item Code</label>
+                <input type="text" name="weighedItemCode" maxLength={5} value={formData.weighedItemCode} onChange={handleChange} className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6" />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium leading-6 text-white">Preferred Supplier</label>
+              <select name="preferredSupplierId" value={formData.preferredSupplierId} onChange={handleChange} className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6 [&>option]:bg-gray-900">
+                <option value="">None</option>
+                {suppliers.map(supplier => (
+                  <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium leading-6 text-white">Lead Time (days)</label>
+              <input type="number" min="0" name="leadTimeDays" value={formData.leadTimeDays} onChange={handleChange} className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium leading-6 text-white">Reorder Quantity</label>
+              <input type="number" min="0" name="reorderQuantity" value={formData.reorderQuantity} onChange={handleChange} className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium leading-6 text-white">Base Unit</label>
+              <select name="unit" value={formData.unit} onChange={handleChange} className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-base text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-500 sm:text-sm/6 [&>option]:bg-gray-900">
+                {['piece', 'kg', 'gram', 'liter', 'ml', 'meter', 'box', 'carton', 'pack', 'dozen'].map(unit => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-400">Stock and cost are kept in this unit.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium leading-6 text-white">Alternate Units</label>
+              <div className="space-y-2">
+                {alternateUnits.map((row, index) => (
+                  <div key={index} className="grid grid-cols-7 gap-2">
+                    <input type="text" placeholder="Unit (e.g. carton)" value={row.unit} onChange={(e) => updateAlternateUnit(index, 'unit', e.target.value)} className="col-span-2 rounded-md bg-white/5 px-2 py-1.5 text-sm text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500" />
+                    <input type="number" min="0" step="any" placeholder={`${formData.unit} per unit`} value={row.conversionFactor} onChange={(e) => updateAlternateUnit(index, 'conversionFactor', e.target.value)} className="col-span-2 rounded-md bg-white/5 px-2 py-1.5 text-sm text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500" />
+                    <input type="number" min="0" step="any" placeholder="Price (optional)" value={row.price} onChange={(e) => updateAlternateUnit(index, 'price', e.target.value)} className="col-span-2 rounded-md bg-white/5 px-2 py-1.5 text-sm text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500" />
+                    <button type="button" onClick={() => setAlternateUnits(prev => prev.filter((_, i) => i !== index))} className="rounded-md bg-white/10 text-sm text-red-300 hover:bg-white/20">x</button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => setAlternateUnits(prev => [...prev, { unit: '', conversionFactor: '', price: '' }])} className="rounded-md bg-white/10 px-3 py-1.5 text-xs font-semibold text-white hover:bg-white/20">
+                  + Add Unit
+                </button>
+              </div>
+            </div>
           </div>
           
           <div className="pt-4 border-t border-white/10 flex gap-4">
@@ -135,6 +286,63 @@ export const EditProduct: React.FC = () => {
           </div>
         </div>
       </form>
+
+      {!isVariant && (
+        <div className="mt-10 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">Variants</h2>
+          <p className="mt-1 text-xs text-gray-400">Each variant has its own SKU, barcode, price and stock. Category and tax settings follow this product.</p>
+          <div className="mt-4 grid grid-cols-2 gap-2 md:grid-cols-6">
+            {([
+              ['size', 'Size'],
+              ['colour', 'Colour'],
+              ['sku', 'SKU (optional)'],
+              ['barcode', 'Barcode'],
+              ['price', 'Price'],
+              ['stock', 'Opening Stock']
+            ] as const).map(([field, placeholder]) => (
+              <input
+                key={field}
+                type={field === 'price' || field === 'stock' ? 'number' : 'text'}
+                placeholder={placeholder}
+                value={variantForm[field]}
+                onChange={(e) => setVariantForm(prev => ({ ...prev, [field]: e.target.value }))}
+                className="block w-full rounded-md bg-white/5 px-3 py-1.5 text-sm text-white outline-1 -outline-offset-1 outline-white/10 placeholder:text-gray-500"
+              />
+            ))}
+          </div>
+          <button type="button" onClick={handleAddVariant} className="mt-3 rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400">
+            Add Variant
+          </button>
+          <table className="mt-4 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Variant', 'SKU', 'Barcode', 'Price', 'Stock', ''].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {variants.map((variant) => (
+                <tr key={variant._id}>
+                  <td className="px-2 py-2 text-sm text-white">{Object.values(variant.variantAttributes || {}).join(' / ')}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{variant.sku}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{(variant.barcodes || []).join(', ') || '-'}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{variant.price}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{variant.stock}</td>
+                  <td className="px-2 py-2 text-sm">
+                    <button type="button" onClick={() => navigate(`/products/edit/${variant._id}`)} className="rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20">
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {variants.length === 0 && (
+                <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No variants yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
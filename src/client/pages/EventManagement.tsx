@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { formatCurrency } from '../config';
-import { apiUrl, fetchApiJson } from '../utils/api';
+import { apiUrl, fetchApiJson, newIdempotencyKey } from '../utils/api';
+import { openDocumentPdf } from '../utils/documentPdf';
 
 interface Facility {
   _id: string;
@@ -208,7 +209,7 @@ export const EventManagement: React.FC = () => {
 
       await fetchApiJson(apiUrl('/api/events/bookings'), {
         method: 'POST',
-        headers,
+        headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
         body: JSON.stringify({
           eventName: form.eventName,
           organizerName: form.organizerName,
@@ -274,7 +275,7 @@ export const EventManagement: React.FC = () => {
     try {
       await fetchApiJson(apiUrl(`/api/events/bookings/${id}/payments`), {
         method: 'POST',
-        headers,
+        headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
         body: JSON.stringify({ amount }),
       });
       setPaymentDrafts((prev) => ({ ...prev, [id]: '' }));
@@ -331,6 +332,15 @@ export const EventManagement: React.FC = () => {
     }
   };
 
+  const openReceiptPdf = async (id: string) => {
+    setError('');
+    try {
+      await openDocumentPdf('booking_receipt', id);
+    } catch (e: any) {
+      setError(e.message || 'Failed to render receipt PDF');
+    }
+  };
+
   const printReceipt = async (id: string) => {
     setError('');
     try {
@@ -525,6 +535,7 @@ export const EventManagement: React.FC = () => {
                         {booking.status !== 'cancelled' && <button onClick={() => cancelEvent(booking._id)} className="rounded bg-rose-500/20 px-2 py-1 text-rose-200">Cancel</button>}
                         {['pending', 'confirmed'].includes(booking.status) && <button onClick={() => rescheduleEvent(booking)} className="rounded bg-amber-500/20 px-2 py-1 text-amber-200">Reschedule</button>}
                         <button onClick={() => printReceipt(booking._id)} className="rounded bg-cyan-500/20 px-2 py-1 text-cyan-200">Receipt</button>
+                        <button onClick={() => openReceiptPdf(booking._id)} className="rounded bg-cyan-500/20 px-2 py-1 text-cyan-200">PDF</button>
                       </div>
                       {booking.status !== 'cancelled' && Number(booking.balanceAmount || 0) > 0 && (
                         <div className="flex gap-1">
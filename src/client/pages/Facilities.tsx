@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { formatCurrency } from '../config';
-import { apiUrl, fetchApiJson } from '../utils/api';
+import { apiUrl, fetchApiJson, newIdempotencyKey } from '../utils/api';
 
 interface Facility {
   _id: string;
@@ -281,7 +281,7 @@ export const Facilities: React.FC = () => {
     try {
       await fetchApiJson(apiUrl('/api/facilities/bookings'), {
         method: 'POST',
-        headers,
+        headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
         body: JSON.stringify({
           facilityId: bookingForm.facilityId,
           customerName: bookingForm.customerName,
@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { apiUrl, fetchApiJson } from '../utils/api';
+
+interface GstValidationError {
+  section: string;
+  documentNumber?: string;
+  message: string;
+}
+
+interface SectionTotals {
+  count: number;
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+const CSV_SECTIONS: Array<{ key: string; label: string }> = [
+  { key: 'b2b', label: 'B2B' },
+  { key: 'b2cl', label: 'B2CL' },
+  { key: 'b2cs', label: 'B2CS' },
+  { key: 'cdnr', label: 'CDNR' },
+  { key: 'cdnur', label: 'CDNUR' },
+  { key: 'exemp', label: 'Nil / Non-GST' },
+  { key: 'hsn_b2b', label: 'HSN (B2B)' },
+  { key: 'hsn_b2c', label: 'HSN (B2C)' },
+  { key: 'docs', label: 'Documents' },
+];
+
+const SECTION_LABELS: Record<string, string> = {
+  b2b: 'B2B invoices',
+  b2cl: 'B2C large invoices',
+  b2cs: 'B2C small invoices',
+  cdnr: 'Credit notes (registered)',
+  cdnur: 'Credit notes (unregistered)',
+};
+
+export const GstReturns: React.FC = () => {
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [gstr1, setGstr1] = useState<any>(null);
+  const [gstr3b, setGstr3b] = useState<any>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { Authorization: `Bearer ${token}` };
+  }, []);
+
+  const prepare = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      const [one, threeB] = await Promise.all([
+        fetchApiJson(apiUrl(`/api/gst-returns/gstr-1?month=${month}`), { headers }),
+        fetchApiJson(apiUrl(`/api/gst-returns/gstr-3b?month=${month}`), { headers }),
+      ]);
+      setGstr1(one.data || null);
+      setGstr3b(threeB.data || null);
+    } catch (e: any) {
+      setError(e.message || 'Failed to prepare GST returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const download = async (path: string, fileName: string) => {
+    setError('');
+    try {
+      const response = await fetch(apiUrl(path), { headers });
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(text || 'Failed to export');
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = fileName;
+      anchor.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setError(e.message || 'Failed to export');
+    }
+  };
+
+  const errors: GstValidationError[] = gstr1?.errors || [];
+  const itcErrors: GstValidationError[] = (gstr3b?.errors || []).filter((row: GstValidationError) => row.section === 'itc');
+  const outward = gstr3b?.payload?.sup_details?.osup_det;
+  const itc = gstr3b?.payload?.itc_elg?.itc_net;
+  const inputClass = 'rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white';
+  const buttonClass = 'rounded-md bg-white/10 px-3 py-1.5 text-xs font-semibold text-white hover:bg-white/20';
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-white sm:text-3xl">GST Returns</h1>
+          <p className="text-sm text-gray-300">Prepare GSTR-1 and GSTR-3B for a month and export them for the GST offline tool.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="mb-1 block text-xs text-gray-400">Return period</label>
+            <input type="month" className={inputClass} value={month} onChange={(e) => setMonth(e.target.value)} />
+          </div>
+          <button onClick={prepare} disabled={loading} className="rounded-md bg-indigo-500 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-400 disabled:opacity-70">
+            {loading ? 'Preparing...' : 'Prepare'}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      {gstr1 && (
+        <div className="rounded-xl border border-white/10 bg-white/5 p-4">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold text-white">GSTR-1 {gstr1.gstin ? `· ${gstr1.gstin}` : ''}</h2>
+            <button className={buttonClass} onClick={() => download(`/api/gst-returns/gstr-1/export?month=${month}&format=json`, `gstr1_${month}.json`)}>
+              Download JSON
+            </button>
+          </div>
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Section', 'Documents', 'Taxable', 'IGST', 'CGST', 'SGST', 'Cess'].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {Object.entries(gstr1.summary as Record<string, SectionTotals>).map(([key, row]) => (
+                <tr key={key}>
+                  <td className="px-2 py-2 text-sm text-white">{SECTION_LABELS[key] || key}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{row.count}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(row.taxableValue)}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(row.igst)}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(row.cgst)}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(row.sgst)}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(row.cess)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <span className="self-center text-xs text-gray-400">CSV:</span>
+            {CSV_SECTIONS.map((section) => (
+              <button
+                key={section.key}
+                className={buttonClass}
+                onClick={() => download(`/api/gst-returns/gstr-1/export?month=${month}&format=csv&section=${section.key}`, `gstr1_${section.key}_${month}.csv`)}
+              >
+                {section.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {gstr3b && (
+        <div className="rounded-xl border border-white/10 bg-white/5 p-4">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold text-white">GSTR-3B</h2>
+            <div className="flex gap-2">
+              <button className={buttonClass} onClick={() => download(`/api/gst-returns/gstr-3b/export?month=${month}&format=json`, `gstr3b_${month}.json`)}>
+                Download JSON
+              </button>
+              <button className={buttonClass} onClick={() => download(`/api/gst-returns/gstr-3b/export?month=${month}&format=csv`, `gstr3b_${month}.csv`)}>
+                Download CSV
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 gap-2 text-sm sm:grid-cols-3">
+            <div className="rounded border border-white/10 p-2 text-gray-300">
+              Outward taxable: {formatCurrency(Number(outward?.txval || 0))}
+              <div className="text-xs text-gray-400">
+                IGST {formatCurrency(Number(outward?.iamt || 0))} · CGST {formatCurrency(Number(outward?.camt || 0))} · SGST {formatCurrency(Number(outward?.samt || 0))} · Cess {formatCurrency(Number(outward?.csamt || 0))}
+              </div>
+            </div>
+            <div className="rounded border border-white/10 p-2 text-gray-300">
+              Input tax credit
+              <div className="text-xs text-gray-400">
+                IGST {formatCurrency(Number(itc?.iamt || 0))} · CGST {formatCurrency(Number(itc?.camt || 0))} · SGST {formatCurrency(Number(itc?.samt || 0))}
+              </div>
+            </div>
+            <div className="rounded border border-white/10 p-2 text-gray-300">
+              Tax payable
+              <div className="text-xs text-gray-400">
+                IGST {formatCurrency(Number(gstr3b.taxPayable?.iamt || 0))} · CGST {formatCurrency(Number(gstr3b.taxPayable?.camt || 0))} · SGST {formatCurrency(Number(gstr3b.taxPayable?.samt || 0))} · Cess {formatCurrency(Number(gstr3b.taxPayable?.csamt || 0))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {(errors.length > 0 || itcErrors.length > 0) && (
+        <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 p-4">
+          <h2 className="mb-2 text-lg font-semibold text-amber-200">Validation ({errors.length + itcErrors.length})</h2>
+          <p className="mb-2 text-xs text-amber-100/80">Fix these before uploading; the offline tool rejects documents missing GSTIN, HSN or place of supply.</p>
+          <ul className="space-y-1 text-sm text-amber-100">
+            {[...errors, ...itcErrors].map((row, index) => (
+              <li key={`${row.section}-${row.documentNumber}-${index}`}>
+                <span className="font-semibold uppercase">{row.section}</span>
+                {row.documentNumber ? ` · ${row.documentNumber}` : ''} — {row.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,11 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { formatCurrency } from '../config';
 import { Table, Column } from '../components/Table';
 import { apiUrl, fetchApiJson } from '../utils/api';
+import { EwayBillDialog } from '../components/EwayBillDialog';
+import { EInvoiceDialog } from '../components/EInvoiceDialog';
+import { printInvoice } from '../utils/invoicePrint';
+import { openDocumentPdf } from '../utils/documentPdf';
+import { getGeneralSettings } from '../utils/generalSettings';
 
 interface HistoryItem {
   productId?: string;
@@ -19,6 +24,8 @@ interface HistoryRow {
   customerName?: string;
   customerPhone?: string;
   customerEmail?: string;
+  customerGstin?: string;
+  irn?: string; // set once the invoice is registered as an e-invoice
   invoiceType?: 'cash' | 'credit';
   invoiceStatus?: 'draft' | 'posted' | 'cancelled';
   outstandingAmount?: number;
@@ -31,7 +38,7 @@ interface HistoryRow {
   paymentMethod: string;
   paymentStatus: string;
   status: string;
-  source: 'sales' | 'orders';
+  source: 'sales';
 }
 
 interface ProductOption {
@@ -70,6 +77,8 @@ const normalizeSalesRows = (rows: any[]): HistoryRow[] =>
     customerName: sale.customerName,
     customerPhone: sale.customerPhone,
     customerEmail: sale.customerEmail,
+    customerGstin: sale.customerGstin,
+    irn: sale.eInvoice?.irn,
     invoiceType: sale.invoiceType || 'cash',
     invoiceStatus: sale.invoiceStatus || 'posted',
     outstandingAmount: Number(sale.outstandingAmount || 0),
@@ -92,27 +101,6 @@ const normalizeSalesRows = (rows: any[]): HistoryRow[] =>
     source: 'sales',
   }));
 
-const normalizeOrdersRows = (rows: any[]): HistoryRow[] =>
-  rows.map((order) => ({
-    _id: order._id,
-    number: order.orderNumber || order._id?.slice(-6)?.toUpperCase() || '-',
-    createdAt: order.createdAt,
-    items: (order.items || []).map((item: any) => {
-      const product = item.productId;
-      const productName = typeof product === 'object' ? product?.name : '';
-      return {
-        name: productName || 'Item',
-        quantity: Number(item.quantity || 0),
-        amount: Number(item.price || 0),
-      };
-    }),
-    totalAmount: Number(order.totalAmount || 0),
-    paymentMethod: order.paymentMethod || '-',
-    paymentStatus: order.paymentStatus || '-',
-    status: order.orderStatus || '-',
-    source: 'orders',
-  }));
-
 const emptyEditForm = (): EditFormState => ({
   customerName: '',
   customerPhone: '',
@@ -138,6 +126,8 @@ export const Orders: React.FC = () => {
   const [addProductId, setAddProductId] = useState('');
   const [savingEdit, setSavingEdit] = useState(false);
   const [editError, setEditError] = useState('');
+  const [ewayRow, setEwayRow] = useState<HistoryRow | null>(null);
+  const [eInvoiceRow, setEInvoiceRow] = useState<HistoryRow | null>(null);
 
   const getAuthHeaders = () => {
     const token = localStorage.getItem('token');
@@ -149,18 +139,8 @@ export const Orders: React.FC = () => {
       setError('');
       const headers = getAuthHeaders();
 
-      try {
-        const salesResp = await fetchApiJson(apiUrl('/api/sales?limit=200'), { headers });
-        const salesRows = normalizeSalesRows(salesResp.data || []);
-        setRows(salesRows);
-        return;
-      } catch {
-        // fallback below
-      }
-
-      const ordersResp = await fetchApiJson(apiUrl('/api/orders?limit=200'), { headers });
-      const orderRows = normalizeOrdersRows(ordersResp.data || []);
-      setRows(orderRows);
+      const salesResp = await fetchApiJson(apiUrl('/api/sales?limit=200'), { headers });
+      setRows(normalizeSalesRows(salesResp.data || []));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch sales history');
     } finally {
@@ -178,6 +158,25 @@ export const Orders: React.FC = () => {
     }
   };
 
+  const printSale = async (row: HistoryRow) => {
+    try {
+      const response = await fetchApiJson(apiUrl(`/api/sales/${row._id}`), { headers: getAuthHeaders() });
+      if (!printInvoice(response.data, getGeneralSettings())) {
+        alert('Unable to open print window. Please allow popups and try again.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invoice');
+    }
+  };
+
+  const openSalePdf = async (row: HistoryRow) => {
+    try {
+      await openDocumentPdf('invoice', row._id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to render invoice PDF');
+    }
+  };
+
   useEffect(() => {
     void fetchHistory();
     void fetchProducts();
@@ -431,13 +430,55 @@ export const Orders: React.FC = () => {
       header: 'Action',
       render: (row) => (
         row.source === 'sales' ? (
-          <button
-            type="button"
-            className="rounded-md bg-indigo-500/20 px-2 py-1 text-xs font-semibold text-indigo-200 hover:bg-indigo-500/30"
-            onClick={() => openEditModal(row)}
-          >
-            Edit Invoice
-          </button>
+          <div className="flex flex-wrap gap-1">
+            {row.irn ? (
+              <span className="rounded-md bg-emerald-500/10 px-2 py-1 text-xs font-semibold text-emerald-300" title={row.irn}>
+                IRN {row.irn.slice(0, 8)}...
+              </span>
+            ) : (
+              <button
+                type="button"
+                className="rounded-md bg-indigo-500/20 px-2 py-1 text-xs font-semibold text-indigo-200 hover:bg-indigo-500/30"
+                onClick={() => openEditModal(row)}
+              >
+                Edit Invoice
+              </button>
+            )}
+            {row.invoiceStatus === 'posted' && row.customerGstin && !row.irn && (
+              <button
+                type="button"
+                className="rounded-md bg-white/10 px-2 py-1 text-xs font-semibold text-gray-200 hover:bg-white/20"
+                onClick={() => setEInvoiceRow(row)}
+              >
+                E-Invoice
+              </button>
+            )}
+            {row.irn && (
+              <button
+                type="button"
+                className="rounded-md bg-white/10 px-2 py-1 text-xs font-semibold text-gray-200 hover:bg-white/20"
+                onClick={() => printSale(row)}
+              >
+                Print
+              </button>
+            )}
+            <button
+              type="button"
+              className="rounded-md bg-white/10 px-2 py-1 text-xs font-semibold text-gray-200 hover:bg-white/20"
+              onClick={() => openSalePdf(row)}
+            >
+              PDF
+            </button>
+            {row.invoiceStatus === 'posted' && (
+              <button
+                type="button"
+                className="rounded-md bg-white/10 px-2 py-1 text-xs font-semibold text-gray-200 hover:bg-white/20"
+                onClick={() => setEwayRow(row)}
+              >
+                E-way Bill
+              </button>
+            )}
+          </div>
         ) : (
           <span className="text-xs text-gray-500">-</span>
         )
@@ -468,6 +509,26 @@ export const Orders: React.FC = () => {
         <Table data={filteredRows} columns={columns} emptyMessage="No sales history found" />
       </div>
 
+      {ewayRow && (
+        <EwayBillDialog endpoint={`/api/sales/${ewayRow._id}/eway-bill`} docNo={ewayRow.number} onClose={() => setEwayRow(null)} />
+      )}
+
+      {eInvoiceRow && (
+        <EInvoiceDialog
+          saleId={eInvoiceRow._id}
+          docNo={eInvoiceRow.number}
+          onClose={() => setEInvoiceRow(null)}
+          onRegistered={(sale) => {
+            setEInvoiceRow(null);
+            setSuccessMessage(`IRN recorded for ${eInvoiceRow.number}`);
+            setTimeout(() => setSuccessMessage(''), 3000);
+            if (sale?.eInvoice?.irn) {
+              setRows((prev) => prev.map((row) => (row._id === eInvoiceRow._id ? { ...row, irn: sale.eInvoice.irn } : row)));
+            }
+          }}
+        />
+      )}
+
       {editingRow && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
           <div className="max-h-[90vh] w-full max-w-5xl overflow-y-auto rounded-xl border border-white/10 bg-gray-900 p-5">
@@ -423,10 +423,12 @@ const ProductForm: React.FC<ProductFormProps> = ({ token, productId, onClose })
             <label>GST Rate (%)</label>
             <select name="gstRate" value={formData.gstRate} onChange={handleChange}>
               <option value="0">0%</option>
+              <option value="3">3%</option>
               <option value="5">5%</option>
               <option value="12">12%</option>
               <option value="18">18%</option>
               <option value="28">28%</option>
+              <option value="40">40%</option>
             </select>
           </div>
         </div>
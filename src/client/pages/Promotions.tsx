@@ -0,0 +1,404 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { useCategories } from '../hooks/useCategories';
+import { apiUrl, fetchApiJson } from '../utils/api';
+
+type PromotionType = 'buy_x_get_y' | 'mix_and_match' | 'bundle_price' | 'percent_off' | 'min_bill';
+
+interface ProductOption {
+  _id: string;
+  name: string;
+  sku: string;
+}
+
+interface PromotionRow {
+  _id: string;
+  name: string;
+  code?: string;
+  type: PromotionType;
+  productIds: string[];
+  categories: string[];
+  buyQuantity: number;
+  getQuantity: number;
+  getDiscountPercent: number;
+  mixQuantity: number;
+  mixPrice: number;
+  bundleItems: Array<{ productId: string; quantity: number }>;
+  bundlePrice: number;
+  discountPercent: number;
+  discountAmount: number;
+  minBillAmount: number;
+  maxDiscountAmount: number;
+  priority: number;
+  schedule?: { startDate?: string; endDate?: string; daysOfWeek?: number[]; startTime?: string; endTime?: string };
+  isActive: boolean;
+  isRunning?: boolean;
+}
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: 'Buy X Get Y',
+  mix_and_match: 'Mix & Match (N for price)',
+  bundle_price: 'Bundle Price',
+  percent_off: 'Percent / Amount Off',
+  min_bill: 'Minimum Bill Discount',
+};
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyForm = {
+  _id: '',
+  name: '',
+  code: '',
+  type: 'buy_x_get_y' as PromotionType,
+  productIds: [] as string[],
+  categories: [] as string[],
+  buyQuantity: '1',
+  getQuantity: '1',
+  getDiscountPercent: '100',
+  mixQuantity: '3',
+  mixPrice: '',
+  bundleItems: [] as Array<{ productId: string; quantity: string }>,
+  bundlePrice: '',
+  discountPercent: '',
+  discountAmount: '',
+  minBillAmount: '',
+  maxDiscountAmount: '',
+  priority: '0',
+  startDate: '',
+  endDate: '',
+  daysOfWeek: [] as number[],
+  startTime: '',
+  endTime: '',
+  isActive: true,
+};
+
+const describe = (row: PromotionRow) => {
+  switch (row.type) {
+    case 'buy_x_get_y':
+      return `Buy ${row.buyQuantity} get ${row.getQuantity} at ${row.getDiscountPercent}% off`;
+    case 'mix_and_match':
+      return `Any ${row.mixQuantity} for ${formatCurrency(row.mixPrice)}`;
+    case 'bundle_price':
+      return `${row.bundleItems.length} item bundle for ${formatCurrency(row.bundlePrice)}`;
+    case 'percent_off':
+      return row.discountPercent > 0 ? `${row.discountPercent}% off` : `${formatCurrency(row.discountAmount)} off per unit`;
+    case 'min_bill':
+      return `${row.discountPercent > 0 ? `${row.discountPercent}%` : formatCurrency(row.discountAmount)} off bills over ${formatCurrency(row.minBillAmount)}`;
+    default:
+      return '';
+  }
+};
+
+export const Promotions: React.FC = () => {
+  const { categories } = useCategories();
+  const [rows, setRows] = useState<PromotionRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const load = async () => {
+    try {
+      const [promotionData, productData] = await Promise.all([
+        fetchApiJson(apiUrl('/api/promotions'), { headers }),
+        fetchApiJson(apiUrl('/api/products?limit=500'), { headers }),
+      ]);
+      setRows(promotionData.data || []);
+      setProducts(productData.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load promotions');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const productName = (id: string) => products.find((product) => product._id === id)?.name || id;
+
+  const edit = (row: PromotionRow) => {
+    setForm({
+      _id: row._id,
+      name: row.name,
+      code: row.code || '',
+      type: row.type,
+      productIds: row.productIds || [],
+      categories: row.categories || [],
+      buyQuantity: String(row.buyQuantity || ''),
+      getQuantity: String(row.getQuantity || ''),
+      getDiscountPercent: String(row.getDiscountPercent ?? 100),
+      mixQuantity: String(row.mixQuantity || ''),
+      mixPrice: String(row.mixPrice || ''),
+      bundleItems: (row.bundleItems || []).map((item) => ({ productId: item.productId, quantity: String(item.quantity) })),
+      bundlePrice: String(row.bundlePrice || ''),
+      discountPercent: String(row.discountPercent || ''),
+      discountAmount: String(row.discountAmount || ''),
+      minBillAmount: String(row.minBillAmount || ''),
+      maxDiscountAmount: String(row.maxDiscountAmount || ''),
+      priority: String(row.priority || 0),
+      startDate: row.schedule?.startDate ? row.schedule.startDate.slice(0, 10) : '',
+      endDate: row.schedule?.endDate ? row.schedule.endDate.slice(0, 10) : '',
+      daysOfWeek: row.schedule?.daysOfWeek || [],
+      startTime: row.schedule?.startTime || '',
+      endTime: row.schedule?.endTime || '',
+      isActive: row.isActive,
+    });
+  };
+
+  const save = async () => {
+    setError('');
+    setMessage('');
+    try {
+      const payload = {
+        ...form,
+        bundleItems: form.bundleItems.filter((item) => item.productId).map((item) => ({ productId: item.productId, quantity: Number(item.quantity || 1) })),
+        schedule: {
+          startDate: form.startDate || undefined,
+          endDate: form.endDate ? `${form.endDate}T23:59:59` : undefined,
+          daysOfWeek: form.daysOfWeek,
+          startTime: form.startTime || undefined,
+          endTime: form.endTime || undefined,
+        },
+      };
+      const data = await fetchApiJson(apiUrl(form._id ? `/api/promotions/${form._id}` : '/api/promotions'), {
+        method: form._id ? 'PUT' : 'POST',
+        headers,
+        body: JSON.stringify(payload),
+      });
+      setMessage(data.message || 'Promotion saved');
+      setForm(emptyForm);
+      await load();
+    } catch (e: any) {
+      setError(e.message || 'Failed to save promotion');
+    }
+  };
+
+  const remove = async (row: PromotionRow) => {
+    if (!window.confirm(`Remove promotion ${row.name}?`)) return;
+    setError('');
+    setMessage('');
+    try {
+      const data = await fetchApiJson(apiUrl(`/api/promotions/${row._id}`), { method: 'DELETE', headers });
+      setMessage(data.message || 'Promotion removed');
+      await load();
+    } catch (e: any) {
+      setError(e.message || 'Failed to remove promotion');
+    }
+  };
+
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+  const usesScope = ['buy_x_get_y', 'mix_and_match', 'percent_off'].includes(form.type);
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-white sm:text-3xl">Promotions</h1>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">{form._id ? 'Edit Promotion' : 'New Promotion'}</h2>
+          <input className={inputClass} placeholder="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder="Code (optional)" value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} />
+            <input className={inputClass} type="number" placeholder="Priority" value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })} />
+          </div>
+          <select className={inputClass} value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as PromotionType })}>
+            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+
+          {form.type === 'buy_x_get_y' && (
+            <div className="grid grid-cols-3 gap-2">
+              <input className={inputClass} type="number" min="1" placeholder="Buy" value={form.buyQuantity} onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })} />
+              <input className={inputClass} type="number" min="1" placeholder="Get" value={form.getQuantity} onChange={(e) => setForm({ ...form, getQuantity: e.target.value })} />
+              <input className={inputClass} type="number" min="1" max="100" placeholder="% off" value={form.getDiscountPercent} onChange={(e) => setForm({ ...form, getDiscountPercent: e.target.value })} />
+            </div>
+          )}
+          {form.type === 'mix_and_match' && (
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} type="number" min="2" placeholder="Quantity" value={form.mixQuantity} onChange={(e) => setForm({ ...form, mixQuantity: e.target.value })} />
+              <input className={inputClass} type="number" min="0" placeholder="For price" value={form.mixPrice} onChange={(e) => setForm({ ...form, mixPrice: e.target.value })} />
+            </div>
+          )}
+          {form.type === 'bundle_price' && (
+            <div className="space-y-2">
+              {form.bundleItems.map((item, index) => (
+                <div key={index} className="grid grid-cols-[1fr_70px_auto] gap-2">
+                  <select
+                    className={inputClass}
+                    value={item.productId}
+                    onChange={(e) => setForm({ ...form, bundleItems: form.bundleItems.map((row, i) => (i === index ? { ...row, productId: e.target.value } : row)) })}
+                  >
+                    <option value="">Select product</option>
+                    {products.map((product) => (
+                      <option key={product._id} value={product._id}>{product.name} ({product.sku})</option>
+                    ))}
+                  </select>
+                  <input
+                    className={inputClass}
+                    type="number"
+                    min="1"
+                    value={item.quantity}
+                    onChange={(e) => setForm({ ...form, bundleItems: form.bundleItems.map((row, i) => (i === index ? { ...row, quantity: e.target.value } : row)) })}
+                  />
+                  <button className="text-red-400" onClick={() => setForm({ ...form, bundleItems: form.bundleItems.filter((_row, i) => i !== index) })}>x</button>
+                </div>
+              ))}
+              <button
+                className="rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20"
+                onClick={() => setForm({ ...form, bundleItems: [...form.bundleItems, { productId: '', quantity: '1' }] })}
+              >
+                + Bundle Item
+              </button>
+              <input className={inputClass} type="number" min="0" placeholder="Bundle price" value={form.bundlePrice} onChange={(e) => setForm({ ...form, bundlePrice: e.target.value })} />
+            </div>
+          )}
+          {['percent_off', 'min_bill'].includes(form.type) && (
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} type="number" min="0" max="100" placeholder="Discount %" value={form.discountPercent} onChange={(e) => setForm({ ...form, discountPercent: e.target.value })} />
+              <input
+                className={inputClass}
+                type="number"
+                min="0"
+                placeholder={form.type === 'min_bill' ? 'or flat amount' : 'or amount per unit'}
+                value={form.discountAmount}
+                onChange={(e) => setForm({ ...form, discountAmount: e.target.value })}
+              />
+            </div>
+          )}
+          {form.type === 'min_bill' && (
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} type="number" min="0" placeholder="Minimum bill" value={form.minBillAmount} onChange={(e) => setForm({ ...form, minBillAmount: e.target.value })} />
+              <input className={inputClass} type="number" min="0" placeholder="Max discount" value={form.maxDiscountAmount} onChange={(e) => setForm({ ...form, maxDiscountAmount: e.target.value })} />
+            </div>
+          )}
+
+          {usesScope && (
+            <>
+              <select
+                multiple
+                className={`${inputClass} h-24`}
+                value={form.productIds}
+                onChange={(e) => setForm({ ...form, productIds: Array.from(e.target.selectedOptions).map((option) => option.value) })}
+              >
+                {products.map((product) => (
+                  <option key={product._id} value={product._id}>{product.name} ({product.sku})</option>
+                ))}
+              </select>
+              <select
+                multiple
+                className={`${inputClass} h-20`}
+                value={form.categories}
+                onChange={(e) => setForm({ ...form, categories: Array.from(e.target.selectedOptions).map((option) => option.value) })}
+              >
+                {categories.map((category) => (
+                  <option key={category._id} value={category.name}>{category.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400">Leave products and categories empty to apply to every item.</p>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+            <input className={inputClass} type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
+            <input className={inputClass} type="time" value={form.startTime} onChange={(e) => setForm({ ...form, startTime: e.target.value })} />
+            <input className={inputClass} type="time" value={form.endTime} onChange={(e) => setForm({ ...form, endTime: e.target.value })} />
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {DAYS.map((day, index) => (
+              <button
+                key={day}
+                type="button"
+                className={`rounded px-2 py-1 text-xs ${form.daysOfWeek.includes(index) ? 'bg-indigo-500 text-white' : 'bg-white/10 text-gray-300'}`}
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    daysOfWeek: form.daysOfWeek.includes(index) ? form.daysOfWeek.filter((d) => d !== index) : [...form.daysOfWeek, index],
+                  })
+                }
+              >
+                {day}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">Time window is optional (happy hour). An end time before the start runs past midnight.</p>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+            Active
+          </label>
+          <div className="flex gap-2">
+            <button className="flex-1 rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={save}>
+              {form._id ? 'Update' : 'Create'}
+            </button>
+            {form._id && (
+              <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => setForm(emptyForm)}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-white">Rules</h2>
+          <table className="mt-3 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Promotion', 'Rule', 'Applies To', 'Schedule', 'Status', ''].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {rows.map((row) => (
+                <tr key={row._id}>
+                  <td className="px-2 py-2 text-sm text-white">
+                    {row.name}
+                    {row.code && <span className="ml-1 text-xs text-gray-400">{row.code}</span>}
+                    <div className="text-xs text-gray-400">Priority {row.priority}</div>
+                  </td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{describe(row)}</td>
+                  <td className="px-2 py-2 text-xs text-gray-300">
+                    {row.type === 'bundle_price'
+                      ? row.bundleItems.map((item) => `${item.quantity} x ${productName(item.productId)}`).join(', ')
+                      : row.type === 'min_bill'
+                        ? 'Whole bill'
+                        : [...row.productIds.map(productName), ...row.categories].join(', ') || 'All items'}
+                  </td>
+                  <td className="px-2 py-2 text-xs text-gray-300">
+                    {row.schedule?.startDate ? new Date(row.schedule.startDate).toLocaleDateString('en-IN') : 'Any date'}
+                    {row.schedule?.endDate ? ` - ${new Date(row.schedule.endDate).toLocaleDateString('en-IN')}` : ''}
+                    {row.schedule?.startTime && row.schedule?.endTime ? ` | ${row.schedule.startTime}-${row.schedule.endTime}` : ''}
+                    {row.schedule?.daysOfWeek?.length ? ` | ${row.schedule.daysOfWeek.map((d) => DAYS[d]).join(', ')}` : ''}
+                  </td>
+                  <td className="px-2 py-2 text-sm">
+                    <span className={row.isRunning ? 'text-emerald-300' : row.isActive ? 'text-amber-300' : 'text-gray-500'}>
+                      {row.isRunning ? 'Running' : row.isActive ? 'Scheduled' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-2 py-2 text-sm">
+                    <div className="flex gap-2">
+                      <button className="rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20" onClick={() => edit(row)}>Edit</button>
+                      <button className="rounded-md bg-red-500/20 px-2 py-1 text-xs text-red-200 hover:bg-red-500/30" onClick={() => remove(row)}>Remove</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No promotions configured.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
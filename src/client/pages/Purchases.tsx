@@ -0,0 +1,607 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { apiUrl, fetchApiJson } from '../utils/api';
+
+interface Supplier {
+  _id: string;
+  supplierCode: string;
+  name: string;
+  phone?: string;
+  gstin?: string;
+  outstandingBalance: number;
+  isActive: boolean;
+}
+
+interface ProductOption {
+  _id: string;
+  name: string;
+  sku: string;
+  cost?: number;
+  gstRate?: number;
+}
+
+interface PurchaseLine {
+  productId: string;
+  productName: string;
+  sku?: string;
+  quantity: number;
+  receivedQuantity?: number;
+  unitCost: number;
+  gstRate: number;
+  lineTotal?: number;
+}
+
+interface PurchaseOrder {
+  _id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string;
+  orderDate: string;
+  status: 'draft' | 'posted' | 'partially_received' | 'received' | 'cancelled';
+  isLocked: boolean;
+  items: PurchaseLine[];
+  totalAmount: number;
+}
+
+interface GoodsReceipt {
+  _id: string;
+  grnNumber: string;
+  poNumber?: string;
+  supplierName: string;
+  supplierInvoiceNumber?: string;
+  receiptDate: string;
+  status: 'draft' | 'posted' | 'cancelled';
+  isLocked: boolean;
+  totalAmount: number;
+  voucherNumber?: string;
+}
+
+interface ReorderItem {
+  productId: string;
+  productName: string;
+  sku: string;
+  onHand: number;
+  onOrder: number;
+  dailyVelocity: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  unitCost: number;
+  daysOfCover: number | null;
+}
+
+interface ReorderGroup {
+  supplierId: string | null;
+  supplierName: string;
+  items: ReorderItem[];
+  totalValue: number;
+}
+
+type PurchaseTab = 'orders' | 'receipts' | 'suppliers' | 'reorder';
+
+const emptyLine = (): PurchaseLine => ({ productId: '', productName: '', quantity: 1, unitCost: 0, gstRate: 0 });
+
+export const Purchases: React.FC = () => {
+  const [tab, setTab] = useState<PurchaseTab>('orders');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const [supplierForm, setSupplierForm] = useState({ name: '', contactPerson: '', phone: '', gstin: '', paymentTermsDays: '0', leadTimeDays: '7' });
+  const [reorderGroups, setReorderGroups] = useState<ReorderGroup[]>([]);
+  const [reorderWindow, setReorderWindow] = useState({ windowDays: '30', coverDays: '30' });
+  const [reorderEdits, setReorderEdits] = useState<Record<string, { quantity: string; supplierId: string }>>({});
+  const [orderSupplierId, setOrderSupplierId] = useState('');
+  const [orderLines, setOrderLines] = useState<PurchaseLine[]>([emptyLine()]);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receiveQty, setReceiveQty] = useState<Record<string, string>>({});
+  const [receiveBatch, setReceiveBatch] = useState<Record<string, { batchNo: string; expiryDate: string }>>({});
+  const [supplierInvoiceNumber, setSupplierInvoiceNumber] = useState('');
+  const [paymentForm, setPaymentForm] = useState({ supplierId: '', amount: '', paymentMode: 'cash' });
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const loadAll = async () => {
+    setError('');
+    try {
+      const [supplierData, productData, orderData, receiptData] = await Promise.all([
+        fetchApiJson(apiUrl('/api/purchases/suppliers'), { headers }),
+        fetchApiJson(apiUrl('/api/products?limit=500'), { headers }),
+        fetchApiJson(apiUrl('/api/purchases/orders?limit=100'), { headers }),
+        fetchApiJson(apiUrl('/api/purchases/receipts?limit=100'), { headers }),
+      ]);
+      setSuppliers(supplierData.data || []);
+      setProducts(productData.data || []);
+      setOrders(orderData.data || []);
+      setReceipts(receiptData.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load purchases');
+    }
+  };
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const run = async (action: () => Promise<any>, successMessage: string) => {
+    setError('');
+    setMessage('');
+    try {
+      await action();
+      setMessage(successMessage);
+      await loadAll();
+    } catch (e: any) {
+      setError(e.message || 'Request failed');
+    }
+  };
+
+  const createSupplier = () =>
+    run(async () => {
+      await fetchApiJson(apiUrl('/api/purchases/suppliers'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          ...supplierForm,
+          paymentTermsDays: Number(supplierForm.paymentTermsDays || 0),
+          leadTimeDays: Number(supplierForm.leadTimeDays || 0),
+        }),
+      });
+      setSupplierForm({ name: '', contactPerson: '', phone: '', gstin: '', paymentTermsDays: '0', leadTimeDays: '7' });
+    }, 'Supplier created');
+
+  const updateLine = (index: number, patch: Partial<PurchaseLine>) => {
+    setOrderLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((row) => row._id === productId);
+    updateLine(index, {
+      productId,
+      productName: product?.name || '',
+      unitCost: Number(product?.cost || 0),
+      gstRate: Number(product?.gstRate || 0),
+    });
+  };
+
+  const orderTotal = orderLines.reduce(
+    (sum, line) => sum + line.quantity * line.unitCost * (1 + line.gstRate / 100),
+    0
+  );
+
+  const createOrder = (status: 'draft' | 'posted') =>
+    run(async () => {
+      const items = orderLines.filter((line) => line.productId && line.quantity > 0);
+      if (!orderSupplierId) throw new Error('Select a supplier');
+      if (!items.length) throw new Error('Add at least one product');
+      await fetchApiJson(apiUrl('/api/purchases/orders'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ supplierId: orderSupplierId, items, status }),
+      });
+      setOrderLines([emptyLine()]);
+    }, status === 'posted' ? 'Purchase order posted' : 'Draft purchase order saved');
+
+  const postOrder = (id: string) =>
+    run(() => fetchApiJson(apiUrl(`/api/purchases/orders/${id}/post`), { method: 'POST', headers }), 'Purchase order posted and locked');
+
+  const cancelOrder = (id: string) =>
+    run(() => fetchApiJson(apiUrl(`/api/purchases/orders/${id}/cancel`), { method: 'POST', headers, body: JSON.stringify({}) }), 'Purchase order cancelled');
+
+  const deleteOrder = (id: string) =>
+    run(() => fetchApiJson(apiUrl(`/api/purchases/orders/${id}`), { method: 'DELETE', headers }), 'Draft purchase order deleted');
+
+  const startReceiving = (order: PurchaseOrder) => {
+    setReceivingOrder(order);
+    setSupplierInvoiceNumber('');
+    setReceiveBatch({});
+    setReceiveQty(
+      order.items.reduce((acc, item) => {
+        acc[item.productId] = String(Math.max(0, item.quantity - Number(item.receivedQuantity || 0)));
+        return acc;
+      }, {} as Record<string, string>)
+    );
+  };
+
+  const receiveOrder = (status: 'draft' | 'posted') => {
+    if (!receivingOrder) return;
+    return run(async () => {
+      const items = receivingOrder.items
+        .map((item) => ({
+          productId: item.productId,
+          quantity: Number(receiveQty[item.productId] || 0),
+          batchNo: receiveBatch[item.productId]?.batchNo || undefined,
+          expiryDate: receiveBatch[item.productId]?.expiryDate || undefined,
+        }))
+        .filter((item) => item.quantity > 0);
+      if (!items.length) throw new Error('Enter received quantity');
+      await fetchApiJson(apiUrl('/api/purchases/receipts'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ purchaseOrderId: receivingOrder._id, supplierInvoiceNumber, items, status }),
+      });
+      setReceivingOrder(null);
+    }, status === 'posted' ? 'Goods received and stock updated' : 'Draft goods receipt saved');
+  };
+
+  const postReceipt = (id: string) =>
+    run(() => fetchApiJson(apiUrl(`/api/purchases/receipts/${id}/post`), { method: 'POST', headers }), 'Goods receipt posted and locked');
+
+  const deleteReceipt = (id: string) =>
+    run(() => fetchApiJson(apiUrl(`/api/purchases/receipts/${id}`), { method: 'DELETE', headers }), 'Draft goods receipt deleted');
+
+  const paySupplier = () =>
+    run(async () => {
+      if (!paymentForm.supplierId) throw new Error('Select a supplier');
+      await fetchApiJson(apiUrl(`/api/purchases/suppliers/${paymentForm.supplierId}/payments`), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ amount: Number(paymentForm.amount || 0), paymentMode: paymentForm.paymentMode }),
+      });
+      setPaymentForm({ supplierId: '', amount: '', paymentMode: 'cash' });
+    }, 'Supplier payment recorded');
+
+  const loadReorder = async () => {
+    setError('');
+    try {
+      const query = `windowDays=${Number(reorderWindow.windowDays || 30)}&coverDays=${Number(reorderWindow.coverDays || 0)}`;
+      const data = await fetchApiJson(apiUrl(`/api/purchases/reorder-suggestions?${query}`), { headers });
+      setReorderGroups(data.data || []);
+      setReorderEdits({});
+    } catch (e: any) {
+      setError(e.message || 'Failed to load reorder suggestions');
+    }
+  };
+
+  useEffect(() => {
+    if (tab === 'reorder') loadReorder();
+  }, [tab]);
+
+  const convertReorder = () =>
+    run(async () => {
+      const lines = reorderGroups.flatMap((group) =>
+        group.items.map((item) => {
+          const edit = reorderEdits[item.productId];
+          return {
+            productId: item.productId,
+            supplierId: edit?.supplierId ?? group.supplierId ?? '',
+            quantity: Number(edit?.quantity ?? item.suggestedQuantity),
+            unitCost: item.unitCost,
+          };
+        })
+      ).filter((line) => line.supplierId && line.quantity > 0);
+      if (!lines.length) throw new Error('Select a supplier and quantity for at least one line');
+      await fetchApiJson(apiUrl('/api/purchases/reorder-suggestions/convert'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ lines }),
+      });
+      await loadReorder();
+    }, 'Draft purchase orders created from reorder suggestions');
+
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+  const buttonClass = 'rounded-md bg-indigo-500 px-3 py-1.5 text-xs font-semibold text-white hover:bg-indigo-400';
+  const secondaryButtonClass = 'rounded-md border border-white/10 px-3 py-1.5 text-xs font-semibold text-gray-200 hover:bg-white/10';
+  const activeSuppliers = suppliers.filter((row) => row.isActive);
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-4 px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-white sm:text-3xl">Purchases</h1>
+        <div className="flex gap-2">
+          {(['orders', 'receipts', 'suppliers', 'reorder'] as PurchaseTab[]).map((key) => (
+            <button
+              key={key}
+              className={tab === key ? buttonClass : secondaryButtonClass}
+              onClick={() => setTab(key)}
+            >
+              {key === 'orders' ? 'Purchase Orders' : key === 'receipts' ? 'Goods Receipts' : key === 'suppliers' ? 'Suppliers' : 'Reorder'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      {tab === 'orders' && (
+        <>
+          <div className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-4">
+            <h2 className="text-lg font-semibold text-white">New Purchase Order</h2>
+            <select className={inputClass} value={orderSupplierId} onChange={(e) => setOrderSupplierId(e.target.value)}>
+              <option value="">Select supplier</option>
+              {activeSuppliers.map((row) => (
+                <option key={row._id} value={row._id}>{row.supplierCode} - {row.name}</option>
+              ))}
+            </select>
+            {orderLines.map((line, index) => (
+              <div key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-5">
+                <select className={`${inputClass} sm:col-span-2`} value={line.productId} onChange={(e) => selectProduct(index, e.target.value)}>
+                  <option value="">Select product</option>
+                  {products.map((row) => (
+                    <option key={row._id} value={row._id}>{row.name} ({row.sku})</option>
+                  ))}
+                </select>
+                <input type="number" min="1" className={inputClass} placeholder="Qty" value={line.quantity} onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })} />
+                <input type="number" min="0" step="0.01" className={inputClass} placeholder="Unit cost" value={line.unitCost} onChange={(e) => updateLine(index, { unitCost: Number(e.target.value) })} />
+                <button className={secondaryButtonClass} onClick={() => setOrderLines((prev) => prev.filter((_, i) => i !== index))}>Remove</button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <button className={secondaryButtonClass} onClick={() => setOrderLines((prev) => [...prev, emptyLine()])}>Add Line</button>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-300">Total {formatCurrency(orderTotal)}</span>
+                <button className={secondaryButtonClass} onClick={() => createOrder('draft')}>Save Draft</button>
+                <button className={buttonClass} onClick={() => createOrder('posted')}>Post Order</button>
+              </div>
+            </div>
+          </div>
+
+          {receivingOrder && (
+            <div className="space-y-3 rounded-xl border border-indigo-500/30 bg-white/5 p-4">
+              <h2 className="text-lg font-semibold text-white">Receive {receivingOrder.poNumber}</h2>
+              <input className={inputClass} placeholder="Supplier invoice number" value={supplierInvoiceNumber} onChange={(e) => setSupplierInvoiceNumber(e.target.value)} />
+              {receivingOrder.items.map((item) => (
+                <div key={item.productId} className="grid grid-cols-1 items-center gap-2 sm:grid-cols-5">
+                  <span className="text-sm text-white">{item.productName}</span>
+                  <span className="text-xs text-gray-400">Ordered {item.quantity} / Received {item.receivedQuantity || 0}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    className={inputClass}
+                    value={receiveQty[item.productId] || ''}
+                    onChange={(e) => setReceiveQty({ ...receiveQty, [item.productId]: e.target.value })}
+                  />
+                  <input
+                    className={inputClass}
+                    placeholder="Batch no"
+                    value={receiveBatch[item.productId]?.batchNo || ''}
+                    onChange={(e) =>
+                      setReceiveBatch({
+                        ...receiveBatch,
+                        [item.productId]: { batchNo: e.target.value, expiryDate: receiveBatch[item.productId]?.expiryDate || '' },
+                      })
+                    }
+                  />
+                  <input
+                    type="date"
+                    className={inputClass}
+                    value={receiveBatch[item.productId]?.expiryDate || ''}
+                    onChange={(e) =>
+                      setReceiveBatch({
+                        ...receiveBatch,
+                        [item.productId]: { batchNo: receiveBatch[item.productId]?.batchNo || '', expiryDate: e.target.value },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                <button className={secondaryButtonClass} onClick={() => setReceivingOrder(null)}>Close</button>
+                <button className={secondaryButtonClass} onClick={() => receiveOrder('draft')}>Save Draft GRN</button>
+                <button className={buttonClass} onClick={() => receiveOrder('posted')}>Post GRN</button>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-4">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead>
+                <tr>
+                  {['PO No', 'Date', 'Supplier', 'Status', 'Amount', 'Action'].map((header) => (
+                    <th key={header} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {orders.map((order) => (
+                  <tr key={order._id}>
+                    <td className="px-2 py-2 text-sm text-white">{order.poNumber}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{new Date(order.orderDate).toLocaleDateString()}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{order.supplierName}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{order.status}{order.isLocked ? ' (locked)' : ''}</td>
+                    <td className="px-2 py-2 text-sm text-white">{formatCurrency(order.totalAmount)}</td>
+                    <td className="px-2 py-2">
+                      <div className="flex gap-2">
+                        {order.status === 'draft' && <button className={buttonClass} onClick={() => postOrder(order._id)}>Post</button>}
+                        {order.status === 'draft' && <button className={secondaryButtonClass} onClick={() => deleteOrder(order._id)}>Delete</button>}
+                        {['posted', 'partially_received'].includes(order.status) && (
+                          <button className={buttonClass} onClick={() => startReceiving(order)}>Receive</button>
+                        )}
+                        {['draft', 'posted'].includes(order.status) && (
+                          <button className={secondaryButtonClass} onClick={() => cancelOrder(order._id)}>Cancel</button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {orders.length === 0 && (
+                  <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No purchase orders yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {tab === 'receipts' && (
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-4">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['GRN No', 'Date', 'PO No', 'Supplier', 'Supplier Inv', 'Status', 'Voucher', 'Amount', 'Action'].map((header) => (
+                  <th key={header} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {receipts.map((receipt) => (
+                <tr key={receipt._id}>
+                  <td className="px-2 py-2 text-sm text-white">{receipt.grnNumber}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{new Date(receipt.receiptDate).toLocaleDateString()}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{receipt.poNumber || '-'}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{receipt.supplierName}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{receipt.supplierInvoiceNumber || '-'}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{receipt.status}{receipt.isLocked ? ' (locked)' : ''}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{receipt.voucherNumber || '-'}</td>
+                  <td className="px-2 py-2 text-sm text-white">{formatCurrency(receipt.totalAmount)}</td>
+                  <td className="px-2 py-2">
+                    {receipt.status === 'draft' && (
+                      <div className="flex gap-2">
+                        <button className={buttonClass} onClick={() => postReceipt(receipt._id)}>Post</button>
+                        <button className={secondaryButtonClass} onClick={() => deleteReceipt(receipt._id)}>Delete</button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {receipts.length === 0 && (
+                <tr><td colSpan={9} className="px-2 py-3 text-center text-sm text-gray-400">No goods receipts yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {tab === 'suppliers' && (
+        <>
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-4">
+              <h2 className="text-lg font-semibold text-white">Add Supplier</h2>
+              <input className={inputClass} placeholder="Name" value={supplierForm.name} onChange={(e) => setSupplierForm({ ...supplierForm, name: e.target.value })} />
+              <input className={inputClass} placeholder="Contact person" value={supplierForm.contactPerson} onChange={(e) => setSupplierForm({ ...supplierForm, contactPerson: e.target.value })} />
+              <input className={inputClass} placeholder="Phone" value={supplierForm.phone} onChange={(e) => setSupplierForm({ ...supplierForm, phone: e.target.value })} />
+              <input className={inputClass} placeholder="GSTIN" value={supplierForm.gstin} onChange={(e) => setSupplierForm({ ...supplierForm, gstin: e.target.value })} />
+              <input type="number" min="0" className={inputClass} placeholder="Payment terms (days)" value={supplierForm.paymentTermsDays} onChange={(e) => setSupplierForm({ ...supplierForm, paymentTermsDays: e.target.value })} />
+              <input type="number" min="0" className={inputClass} placeholder="Lead time (days)" value={supplierForm.leadTimeDays} onChange={(e) => setSupplierForm({ ...supplierForm, leadTimeDays: e.target.value })} />
+              <button className={buttonClass} onClick={createSupplier}>Save Supplier</button>
+            </div>
+            <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-4">
+              <h2 className="text-lg font-semibold text-white">Pay Supplier</h2>
+              <select className={inputClass} value={paymentForm.supplierId} onChange={(e) => setPaymentForm({ ...paymentForm, supplierId: e.target.value })}>
+                <option value="">Select supplier</option>
+                {suppliers.map((row) => (
+                  <option key={row._id} value={row._id}>{row.name} ({formatCurrency(row.outstandingBalance)})</option>
+                ))}
+              </select>
+              <input type="number" min="0" step="0.01" className={inputClass} placeholder="Amount" value={paymentForm.amount} onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })} />
+              <select className={inputClass} value={paymentForm.paymentMode} onChange={(e) => setPaymentForm({ ...paymentForm, paymentMode: e.target.value })}>
+                {['cash', 'bank', 'upi', 'card', 'cheque'].map((mode) => (
+                  <option key={mode} value={mode}>{mode.toUpperCase()}</option>
+                ))}
+              </select>
+              <button className={buttonClass} onClick={paySupplier}>Record Payment</button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-4">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead>
+                <tr>
+                  {['Code', 'Name', 'Phone', 'GSTIN', 'Outstanding', 'Status'].map((header) => (
+                    <th key={header} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {suppliers.map((row) => (
+                  <tr key={row._id}>
+                    <td className="px-2 py-2 text-sm text-gray-300">{row.supplierCode}</td>
+                    <td className="px-2 py-2 text-sm text-white">{row.name}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{row.phone || '-'}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{row.gstin || '-'}</td>
+                    <td className="px-2 py-2 text-sm text-white">{formatCurrency(row.outstandingBalance)}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{row.isActive ? 'Active' : 'Inactive'}</td>
+                  </tr>
+                ))}
+                {suppliers.length === 0 && (
+                  <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No suppliers yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {tab === 'reorder' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+            <label className="text-xs text-gray-300">
+              Sales window (days)
+              <input type="number" min="1" className={inputClass} value={reorderWindow.windowDays} onChange={(e) => setReorderWindow({ ...reorderWindow, windowDays: e.target.value })} />
+            </label>
+            <label className="text-xs text-gray-300">
+              Cover after lead time (days)
+              <input type="number" min="0" className={inputClass} value={reorderWindow.coverDays} onChange={(e) => setReorderWindow({ ...reorderWindow, coverDays: e.target.value })} />
+            </label>
+            <button className={secondaryButtonClass} onClick={loadReorder}>Recalculate</button>
+            <button className={buttonClass} onClick={convertReorder} disabled={!reorderGroups.length}>Create Draft POs</button>
+          </div>
+
+          {reorderGroups.map((group) => (
+            <div key={group.supplierId || 'unassigned'} className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-4">
+              <div className="mb-2 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-white">{group.supplierName}</h2>
+                <span className="text-sm text-gray-300">{formatCurrency(group.totalValue)}</span>
+              </div>
+              <table className="min-w-full divide-y divide-white/10">
+                <thead>
+                  <tr>
+                    {['Product', 'On Hand', 'On Order', 'Daily Sales', 'Lead Time', 'Reorder Point', 'Cover (days)', 'Order Qty', 'Supplier'].map((header) => (
+                      <th key={header} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {group.items.map((item) => {
+                    const edit = reorderEdits[item.productId];
+                    return (
+                      <tr key={item.productId}>
+                        <td className="px-2 py-2 text-sm text-white">{item.productName} <span className="text-xs text-gray-400">{item.sku}</span></td>
+                        <td className="px-2 py-2 text-sm text-gray-300">{item.onHand}</td>
+                        <td className="px-2 py-2 text-sm text-gray-300">{item.onOrder}</td>
+                        <td className="px-2 py-2 text-sm text-gray-300">{item.dailyVelocity}</td>
+                        <td className="px-2 py-2 text-sm text-gray-300">{item.leadTimeDays}</td>
+                        <td className="px-2 py-2 text-sm text-gray-300">{item.reorderPoint}</td>
+                        <td className="px-2 py-2 text-sm text-gray-300">{item.daysOfCover ?? '-'}</td>
+                        <td className="px-2 py-2 text-sm">
+                          <input
+                            type="number"
+                            min="0"
+                            className="w-20 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+                            value={edit?.quantity ?? String(item.suggestedQuantity)}
+                            onChange={(e) => setReorderEdits({ ...reorderEdits, [item.productId]: { supplierId: edit?.supplierId ?? group.supplierId ?? '', quantity: e.target.value } })}
+                          />
+                        </td>
+                        <td className="px-2 py-2 text-sm">
+                          <select
+                            className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+                            value={edit?.supplierId ?? group.supplierId ?? ''}
+                            onChange={(e) => setReorderEdits({ ...reorderEdits, [item.productId]: { quantity: edit?.quantity ?? String(item.suggestedQuantity), supplierId: e.target.value } })}
+                          >
+                            <option value="">Select supplier</option>
+                            {activeSuppliers.map((row) => (
+                              <option key={row._id} value={row._id}>{row.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))}
+          {reorderGroups.length === 0 && (
+            <div className="rounded-xl border border-white/10 bg-white/5 p-4 text-center text-sm text-gray-400">Nothing needs reordering right now.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,444 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { apiUrl, fetchApiJson, newIdempotencyKey } from '../utils/api';
+import { getGeneralSettings } from '../utils/generalSettings';
+import { printQuotation } from '../utils/invoicePrint';
+
+type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired' | 'converted' | 'cancelled';
+
+interface ProductOption {
+  _id: string;
+  name: string;
+  sku: string;
+  price: number;
+  unit?: string;
+}
+
+interface CustomerOption {
+  _id: string;
+  name: string;
+  phone?: string;
+}
+
+interface QuotationLine {
+  productId: string;
+  productName: string;
+  sku?: string;
+  hsnCode?: string;
+  quantity: number;
+  unit?: string;
+  listPrice?: number;
+  unitPrice: number;
+  quotedUnitPrice?: number;
+  discountPercentage?: number;
+  gstRate?: number;
+  gstAmount?: number;
+  lineTotal?: number;
+}
+
+interface QuotationRow {
+  _id: string;
+  quotationNumber: string;
+  status: QuotationStatus;
+  validUntil: string;
+  pricingMode: 'retail' | 'wholesale' | 'customer';
+  taxMode: 'inclusive' | 'exclusive';
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  items: QuotationLine[];
+  subtotal: number;
+  totalGst: number;
+  discountAmount?: number;
+  discountPercentage?: number;
+  totalAmount: number;
+  terms?: string;
+  notes?: string;
+  convertedInvoiceNumber?: string;
+  createdAt?: string;
+}
+
+const STATUS_STYLES: Record<QuotationStatus, string> = {
+  draft: 'text-gray-300',
+  sent: 'text-sky-300',
+  accepted: 'text-emerald-300',
+  rejected: 'text-red-300',
+  expired: 'text-amber-300',
+  converted: 'text-indigo-300',
+  cancelled: 'text-gray-500',
+};
+
+const OPEN_STATUSES: QuotationStatus[] = ['draft', 'sent', 'accepted'];
+
+const emptyLine = { productId: '', quantity: '1', unitPrice: '', discountPercentage: '' };
+
+const emptyForm = {
+  _id: '',
+  customerId: '',
+  customerName: '',
+  customerPhone: '',
+  customerEmail: '',
+  pricingMode: 'retail' as QuotationRow['pricingMode'],
+  taxMode: 'exclusive' as QuotationRow['taxMode'],
+  validUntil: '',
+  discountPercentage: '',
+  terms: '',
+  notes: '',
+  items: [{ ...emptyLine }],
+};
+
+export const Quotations: React.FC = () => {
+  const [rows, setRows] = useState<QuotationRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [converting, setConverting] = useState<QuotationRow | null>(null);
+  const [convertOptions, setConvertOptions] = useState({ invoiceType: 'cash', paymentMethod: 'cash', approvePriceOverride: false });
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const load = async () => {
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (statusFilter) params.set('status', statusFilter);
+      if (search.trim()) params.set('q', search.trim());
+      const data = await fetchApiJson(apiUrl(`/api/quotations?${params.toString()}`), { headers });
+      setRows(data.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load quotations');
+    }
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [productData, customerData] = await Promise.all([
+          fetchApiJson(apiUrl('/api/products?limit=500'), { headers }),
+          fetchApiJson(apiUrl('/api/customers'), { headers }),
+        ]);
+        setProducts(productData.data || []);
+        setCustomers(customerData.data || []);
+      } catch (e: any) {
+        setError(e.message || 'Failed to load products and customers');
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [statusFilter]);
+
+  const run = async (action: () => Promise<any>, fallback: string) => {
+    setError('');
+    setMessage('');
+    try {
+      const data = await action();
+      setMessage(data?.message || 'Done');
+      await load();
+      return data;
+    } catch (e: any) {
+      setError(e.message || fallback);
+      return null;
+    }
+  };
+
+  const edit = (row: QuotationRow) => {
+    setForm({
+      _id: row._id,
+      customerId: row.customerId || '',
+      customerName: row.customerName || '',
+      customerPhone: row.customerPhone || '',
+      customerEmail: row.customerEmail || '',
+      pricingMode: row.pricingMode,
+      taxMode: row.taxMode,
+      validUntil: row.validUntil ? row.validUntil.slice(0, 10) : '',
+      discountPercentage: row.discountPercentage ? String(row.discountPercentage) : '',
+      terms: row.terms || '',
+      notes: row.notes || '',
+      items: row.items.map((item) => ({
+        productId: item.productId,
+        quantity: String(item.quantity),
+        unitPrice: String(item.quotedUnitPrice ?? item.unitPrice),
+        discountPercentage: item.discountPercentage ? String(item.discountPercentage) : '',
+      })),
+    });
+  };
+
+  const save = async () => {
+    const payload = {
+      customerId: form.customerId || undefined,
+      customerName: form.customerName || undefined,
+      customerPhone: form.customerPhone || undefined,
+      customerEmail: form.customerEmail || undefined,
+      pricingMode: form.pricingMode,
+      taxMode: form.taxMode,
+      validUntil: form.validUntil || undefined,
+      discountPercentage: Number(form.discountPercentage || 0),
+      terms: form.terms,
+      notes: form.notes,
+      items: form.items
+        .filter((item) => item.productId)
+        .map((item) => ({
+          productId: item.productId,
+          quantity: Number(item.quantity || 0),
+          unitPrice: item.unitPrice === '' ? undefined : Number(item.unitPrice),
+          discountPercentage: Number(item.discountPercentage || 0),
+        })),
+    };
+    const saved = await run(
+      () =>
+        fetchApiJson(apiUrl(form._id ? `/api/quotations/${form._id}` : '/api/quotations'), {
+          method: form._id ? 'PUT' : 'POST',
+          headers,
+          body: JSON.stringify(payload),
+        }),
+      'Failed to save quotation'
+    );
+    if (saved) setForm(emptyForm);
+  };
+
+  const setStatus = (row: QuotationRow, status: QuotationStatus) => {
+    if (status === 'cancelled' && !window.confirm(`Cancel quotation ${row.quotationNumber}?`)) return;
+    run(
+      () =>
+        fetchApiJson(apiUrl(`/api/quotations/${row._id}/status`), {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ status }),
+        }),
+      'Failed to update quotation'
+    );
+  };
+
+  const print = (row: QuotationRow) => {
+    if (!printQuotation(row, getGeneralSettings())) setError('Allow pop-ups to print the quotation');
+  };
+
+  // Conversion goes through the normal sale endpoint so stock and price-override rules are checked again.
+  const convert = async () => {
+    if (!converting) return;
+    const data = await run(
+      () =>
+        fetchApiJson(apiUrl('/api/sales'), {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
+          body: JSON.stringify({
+            quotationId: converting._id,
+            invoiceType: convertOptions.invoiceType,
+            paymentMethod: convertOptions.paymentMethod,
+            approvePriceOverride: convertOptions.approvePriceOverride,
+          }),
+        }),
+      'Failed to convert quotation'
+    );
+    if (data?.data) {
+      setMessage(`Quotation ${converting.quotationNumber} billed as ${data.data.invoiceNumber || data.data.saleNumber}`);
+      setConverting(null);
+    }
+  };
+
+  const updateLine = (index: number, patch: Partial<typeof emptyLine>) =>
+    setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...patch } : item)) });
+
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+  const buttonClass = 'rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20';
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-white sm:text-3xl">Quotations</h1>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">{form._id ? 'Revise Quotation' : 'New Quotation'}</h2>
+          <select
+            className={inputClass}
+            value={form.customerId}
+            onChange={(e) => {
+              const customer = customers.find((row) => row._id === e.target.value);
+              setForm({ ...form, customerId: e.target.value, customerName: customer?.name || form.customerName, customerPhone: customer?.phone || form.customerPhone });
+            }}
+          >
+            <option value="">Walk-in / new customer</option>
+            {customers.map((customer) => (
+              <option key={customer._id} value={customer._id}>{customer.name}{customer.phone ? ` (${customer.phone})` : ''}</option>
+            ))}
+          </select>
+          {!form.customerId && (
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} placeholder="Customer name" value={form.customerName} onChange={(e) => setForm({ ...form, customerName: e.target.value })} />
+              <input className={inputClass} placeholder="Phone" value={form.customerPhone} onChange={(e) => setForm({ ...form, customerPhone: e.target.value })} />
+              <input className={`${inputClass} col-span-2`} placeholder="Email" value={form.customerEmail} onChange={(e) => setForm({ ...form, customerEmail: e.target.value })} />
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <select className={inputClass} value={form.pricingMode} onChange={(e) => setForm({ ...form, pricingMode: e.target.value as QuotationRow['pricingMode'] })}>
+              <option value="retail">Retail price</option>
+              <option value="wholesale">Wholesale price</option>
+              <option value="customer">Customer price</option>
+            </select>
+            <select className={inputClass} value={form.taxMode} onChange={(e) => setForm({ ...form, taxMode: e.target.value as QuotationRow['taxMode'] })}>
+              <option value="exclusive">Tax exclusive</option>
+              <option value="inclusive">Tax inclusive</option>
+            </select>
+          </div>
+
+          {form.items.map((item, index) => (
+            <div key={index} className="grid grid-cols-[1fr_55px_75px_50px_auto] gap-1">
+              <select className={inputClass} value={item.productId} onChange={(e) => updateLine(index, { productId: e.target.value })}>
+                <option value="">Select product</option>
+                {products.map((product) => (
+                  <option key={product._id} value={product._id}>{product.name} ({formatCurrency(product.price)})</option>
+                ))}
+              </select>
+              <input className={inputClass} type="number" min="0" placeholder="Qty" value={item.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} />
+              <input className={inputClass} type="number" min="0" placeholder="Price" value={item.unitPrice} onChange={(e) => updateLine(index, { unitPrice: e.target.value })} />
+              <input className={inputClass} type="number" min="0" max="100" placeholder="%" value={item.discountPercentage} onChange={(e) => updateLine(index, { discountPercentage: e.target.value })} />
+              <button className="text-red-400" onClick={() => setForm({ ...form, items: form.items.filter((_row, i) => i !== index) })}>x</button>
+            </div>
+          ))}
+          <button className={buttonClass} onClick={() => setForm({ ...form, items: [...form.items, { ...emptyLine }] })}>+ Line</button>
+          <p className="text-xs text-gray-400">Leave price empty to quote the current list price. The last box is a line discount %.</p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-400">
+              Valid until
+              <input className={inputClass} type="date" value={form.validUntil} onChange={(e) => setForm({ ...form, validUntil: e.target.value })} />
+            </label>
+            <label className="text-xs text-gray-400">
+              Bill discount %
+              <input className={inputClass} type="number" min="0" max="100" value={form.discountPercentage} onChange={(e) => setForm({ ...form, discountPercentage: e.target.value })} />
+            </label>
+          </div>
+          <textarea className={inputClass} rows={3} placeholder="Terms & conditions" value={form.terms} onChange={(e) => setForm({ ...form, terms: e.target.value })} />
+          <input className={inputClass} placeholder="Internal notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+          <div className="flex gap-2">
+            <button className="flex-1 rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={save}>
+              {form._id ? 'Save Revision' : 'Create Quotation'}
+            </button>
+            {form._id && (
+              <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => setForm(emptyForm)}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="mr-auto text-lg font-semibold text-white">Quotations</h2>
+            <input
+              className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white"
+              placeholder="Number, customer or phone"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && load()}
+            />
+            <select className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)}>
+              <option value="">All statuses</option>
+              {Object.keys(STATUS_STYLES).map((status) => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </div>
+          <table className="mt-3 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Quotation', 'Customer', 'Valid Until', 'Total', 'Status', ''].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {rows.map((row) => {
+                const open = OPEN_STATUSES.includes(row.status);
+                return (
+                  <tr key={row._id}>
+                    <td className="px-2 py-2 text-sm text-white">
+                      {row.quotationNumber}
+                      <div className="text-xs text-gray-400">{row.items.length} line(s)</div>
+                    </td>
+                    <td className="px-2 py-2 text-sm text-gray-300">
+                      {row.customerName || 'Walk-in'}
+                      {row.customerPhone && <div className="text-xs text-gray-400">{row.customerPhone}</div>}
+                    </td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{new Date(row.validUntil).toLocaleDateString('en-IN')}</td>
+                    <td className="px-2 py-2 text-sm text-white">{formatCurrency(row.totalAmount)}</td>
+                    <td className="px-2 py-2 text-sm">
+                      <span className={STATUS_STYLES[row.status]}>{row.status}</span>
+                      {row.convertedInvoiceNumber && <div className="text-xs text-gray-400">{row.convertedInvoiceNumber}</div>}
+                    </td>
+                    <td className="px-2 py-2 text-sm">
+                      <div className="flex flex-wrap gap-1">
+                        <button className={buttonClass} onClick={() => print(row)}>Print</button>
+                        {!['converted', 'cancelled'].includes(row.status) && <button className={buttonClass} onClick={() => edit(row)}>Revise</button>}
+                        {row.status === 'draft' && <button className={buttonClass} onClick={() => setStatus(row, 'sent')}>Mark Sent</button>}
+                        {['draft', 'sent'].includes(row.status) && <button className={buttonClass} onClick={() => setStatus(row, 'accepted')}>Accepted</button>}
+                        {row.status === 'sent' && <button className={buttonClass} onClick={() => setStatus(row, 'rejected')}>Rejected</button>}
+                        {open && (
+                          <button className="rounded-md bg-indigo-500/30 px-2 py-1 text-xs text-indigo-100 hover:bg-indigo-500/40" onClick={() => setConverting(row)}>
+                            Convert to Sale
+                          </button>
+                        )}
+                        {!['converted', 'cancelled'].includes(row.status) && (
+                          <button className="rounded-md bg-red-500/20 px-2 py-1 text-xs text-red-200 hover:bg-red-500/30" onClick={() => setStatus(row, 'cancelled')}>Cancel</button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No quotations found.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {converting && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+          <div className="w-full max-w-md space-y-3 rounded-xl border border-white/10 bg-gray-900 p-5">
+            <h2 className="text-lg font-semibold text-white">Convert {converting.quotationNumber}</h2>
+            <p className="text-sm text-gray-300">
+              Quoted at {formatCurrency(converting.totalAmount)}. Stock and prices are checked again, so the invoice total can differ.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <select className={inputClass} value={convertOptions.invoiceType} onChange={(e) => setConvertOptions({ ...convertOptions, invoiceType: e.target.value })}>
+                <option value="cash">Cash invoice</option>
+                <option value="credit">Credit invoice</option>
+              </select>
+              <select className={inputClass} value={convertOptions.paymentMethod} onChange={(e) => setConvertOptions({ ...convertOptions, paymentMethod: e.target.value })}>
+                {['cash', 'card', 'upi', 'cheque', 'online', 'bank_transfer'].map((method) => (
+                  <option key={method} value={method}>{method.replace('_', ' ')}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={convertOptions.approvePriceOverride}
+                onChange={(e) => setConvertOptions({ ...convertOptions, approvePriceOverride: e.target.checked })}
+              />
+              Approve quoted prices below current list (admin/manager)
+            </label>
+            <div className="flex justify-end gap-2">
+              <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => setConverting(null)}>Close</button>
+              <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={convert}>Create Invoice</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
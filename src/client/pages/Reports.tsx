@@ -13,7 +13,9 @@ type ReportTabKey =
   | 'outstanding-receivables-report'
   | 'attendance-report'
   | 'cash-vs-credit-sales-report'
-  | 'user-wise-sales-report';
+  | 'user-wise-sales-report'
+  | 'gst-tax-summary'
+  | 'near-expiry-report';
 
 interface ExportDataset {
   title: string;
@@ -52,6 +54,7 @@ export const Reports: React.FC = () => {
 
   const [dailySales, setDailySales] = useState<any[]>([]);
   const [itemSales, setItemSales] = useState<any[]>([]);
+  const [itemLevel, setItemLevel] = useState<'variant' | 'parent' | 'promotion'>('variant');
   const [customerSales, setCustomerSales] = useState<any[]>([]);
   const [returnsReport, setReturnsReport] = useState<{ summary: any; rows: any[] } | null>(null);
   const [grossProfit, setGrossProfit] = useState<any>(null);
@@ -59,6 +62,8 @@ export const Reports: React.FC = () => {
   const [attendanceSummary, setAttendanceSummary] = useState<any[]>([]);
   const [cashVsCredit, setCashVsCredit] = useState<{ cash: any; credit: any } | null>(null);
   const [userSales, setUserSales] = useState<any[]>([]);
+  const [nearExpiry, setNearExpiry] = useState<{ days: number; summary: any; rows: any[] } | null>(null);
+  const [taxSummary, setTaxSummary] = useState<{ salesTax: any[]; returnTax: any[]; salesTotals: any; returnTotals: any; netTax: any; supplyTypes?: any[] } | null>(null);
   const [activeTab, setActiveTab] = useState<ReportTabKey>('daily-sales-summary');
 
   const headers = useMemo(() => {
@@ -77,6 +82,8 @@ export const Reports: React.FC = () => {
     { key: 'attendance-report', label: 'Attendance Report' },
     { key: 'cash-vs-credit-sales-report', label: 'Cash vs Credit Sales Report' },
     { key: 'user-wise-sales-report', label: 'User-wise Sales Report' },
+    { key: 'gst-tax-summary', label: 'GST Tax Summary' },
+    { key: 'near-expiry-report', label: 'Near-Expiry Stock Report' },
   ];
 
   const activeReportExport = useMemo<ExportDataset>(() => {
@@ -97,11 +104,12 @@ export const Reports: React.FC = () => {
     if (activeTab === 'item-wise-sales') {
       return {
         title: 'Item-wise Sales Report',
-        columns: ['Item', 'Qty', 'Taxable', 'Tax', 'Total'],
+        columns: [itemLevel === 'promotion' ? 'Promotion' : 'Item', 'Qty', 'Taxable', 'Promo Discount', 'Tax', 'Total'],
         rows: itemSales.map((row) => [
-          String(row.productName || ''),
+          String((itemLevel === 'promotion' ? row.promotionName : row.productName) || ''),
           toNumber(row.quantity),
           toFixed2(row.taxableValue),
+          toFixed2(row.promotionDiscount),
           toFixed2(row.tax),
           toFixed2(row.amount),
         ]),
@@ -151,6 +159,11 @@ export const Reports: React.FC = () => {
           ['Cost of Goods', toFixed2(grossProfit?.costOfGoods)],
           ['Gross Profit', toFixed2(grossProfit?.grossProfit)],
           ['Margin %', Number(toNumber(grossProfit?.marginPercent).toFixed(2))],
+          ['Promotion Discount', toFixed2(grossProfit?.promotionDiscount)],
+          ...(grossProfit?.byPromotion || []).map((row: any) => [
+            `${row.promotionName} - profit (margin ${Number(toNumber(row.marginPercent).toFixed(2))}%)`,
+            toFixed2(row.grossProfit),
+          ]),
         ],
       };
     }
@@ -195,6 +208,54 @@ export const Reports: React.FC = () => {
       };
     }
 
+    if (activeTab === 'gst-tax-summary') {
+      const taxRows = (label: string, rows: any[] = []) => rows.map((row: any) => [
+        label,
+        `${toNumber(row._id)}%`,
+        toFixed2(row.taxableValue),
+        toFixed2(row.cgstAmount),
+        toFixed2(row.sgstAmount),
+        toFixed2(row.igstAmount),
+        toFixed2(row.cessAmount),
+        toFixed2(row.taxAmount),
+      ]);
+      return {
+        title: 'GST Tax Summary',
+        columns: ['Type', 'Rate', 'Taxable', 'CGST', 'SGST', 'IGST', 'Cess', 'Total Tax'],
+        summary: [
+          ['Net CGST', toFixed2(taxSummary?.netTax?.cgstAmount)],
+          ['Net SGST', toFixed2(taxSummary?.netTax?.sgstAmount)],
+          ['Net IGST', toFixed2(taxSummary?.netTax?.igstAmount)],
+          ['Net Cess', toFixed2(taxSummary?.netTax?.cessAmount)],
+          ['TCS Collected', toFixed2(taxSummary?.salesTotals?.tcsAmount)],
+          ...(taxSummary?.supplyTypes || []).map((row: any): [string, string | number] => [`Sales (${String(row._id).replace('_', '-')})`, toFixed2(row.taxableValue)]),
+        ],
+        rows: [...taxRows('Sales', taxSummary?.salesTax), ...taxRows('Returns', taxSummary?.returnTax)],
+      };
+    }
+
+    if (activeTab === 'near-expiry-report') {
+      return {
+        title: 'Near-Expiry Stock Report',
+        columns: ['Item', 'SKU', 'Batch', 'Expiry', 'Days Left', 'Qty', 'Unit Cost', 'Value'],
+        summary: [
+          ['Batches', toNumber(nearExpiry?.summary?.batches || 0)],
+          ['Stock Value', toFixed2(nearExpiry?.summary?.stockValue || 0)],
+          ['Expired Value', toFixed2(nearExpiry?.summary?.expiredValue || 0)],
+        ],
+        rows: (nearExpiry?.rows || []).map((row: any) => [
+          String(row.productName || ''),
+          String(row.sku || ''),
+          String(row.batchNo || ''),
+          row.expiryDate ? String(row.expiryDate).slice(0, 10) : '-',
+          toNumber(row.daysToExpiry),
+          toNumber(row.quantity),
+          toFixed2(row.unitCost),
+          toFixed2(row.stockValue),
+        ]),
+      };
+    }
+
     return {
       title: 'User-wise Sales Report',
       columns: ['User', 'Invoices', 'Total', 'Cash', 'UPI', 'Card'],
@@ -215,6 +276,8 @@ export const Reports: React.FC = () => {
     dailySales,
     grossProfit,
     itemSales,
+    nearExpiry,
+    taxSummary,
     receivables,
     returnsReport,
     userSales,
@@ -513,6 +576,19 @@ export const Reports: React.FC = () => {
     doc.save(`${fileSafe(activeReportExport.title)}_${startDate}_to_${endDate}.pdf`);
   };
 
+  const itemWiseQuery = (level: 'variant' | 'parent' | 'promotion') =>
+    level === 'promotion' ? `${queryRange}&groupBy=promotion` : `${queryRange}&level=${level}`;
+
+  const changeItemLevel = async (level: 'variant' | 'parent' | 'promotion') => {
+    setItemLevel(level);
+    try {
+      const data = await fetchApiJson(apiUrl(`/api/reports/item-wise-sales?${itemWiseQuery(level)}`), { headers });
+      setItemSales(data.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load item-wise sales');
+    }
+  };
+
   const loadReports = async () => {
     if (startDate > endDate) {
       setError('Start date should be before or equal to end date');
@@ -524,7 +600,7 @@ export const Reports: React.FC = () => {
     try {
       const results = await Promise.allSettled([
         fetchApiJson(apiUrl(`/api/reports/daily-sales-summary?${queryRange}`), { headers }),
-        fetchApiJson(apiUrl(`/api/reports/item-wise-sales?${queryRange}`), { headers }),
+        fetchApiJson(apiUrl(`/api/reports/item-wise-sales?${itemWiseQuery(itemLevel)}`), { headers }),
         fetchApiJson(apiUrl(`/api/reports/customer-wise-sales?${queryRange}`), { headers }),
         fetchApiJson(apiUrl(`/api/reports/sales-returns?${queryRange}`), { headers }),
         fetchApiJson(apiUrl(`/api/reports/gross-profit?${queryRange}`), { headers }),
@@ -532,6 +608,8 @@ export const Reports: React.FC = () => {
         fetchApiJson(apiUrl(`/api/reports/attendance-summary?${queryRange}`), { headers }),
         fetchApiJson(apiUrl(`/api/reports/cash-vs-credit?${queryRange}`), { headers }),
         fetchApiJson(apiUrl(`/api/reports/user-wise-sales?${queryRange}`), { headers }),
+        fetchApiJson(apiUrl('/api/reports/near-expiry?days=30'), { headers }),
+        fetchApiJson(apiUrl(`/api/reports/tax-summary?${queryRange}`), { headers }),
       ]);
 
       const readData = (index: number) => {
@@ -549,6 +627,8 @@ export const Reports: React.FC = () => {
       setAttendanceSummary(readData(6) || []);
       setCashVsCredit(readData(7) || null);
       setUserSales(readData(8) || []);
+      setNearExpiry(readData(9) || null);
+      setTaxSummary(readData(10) || null);
 
       const failedCount = results.filter((item) => item.status === 'rejected').length;
       if (failedCount > 0) {
@@ -598,11 +678,22 @@ export const Reports: React.FC = () => {
     if (activeTab === 'item-wise-sales') {
       return (
         <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-4">
-          <h2 className="mb-2 text-lg font-semibold text-white">Item-wise Sales Report</h2>
+          <div className="mb-2 flex items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-white">Item-wise Sales Report</h2>
+            <select
+              className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+              value={itemLevel}
+              onChange={(e) => changeItemLevel(e.target.value as 'variant' | 'parent' | 'promotion')}
+            >
+              <option value="variant">By Variant</option>
+              <option value="parent">By Parent Product</option>
+              <option value="promotion">By Promotion</option>
+            </select>
+          </div>
           <table className="min-w-full divide-y divide-white/10">
             <thead>
               <tr>
-                {['Item', 'Qty', 'Taxable', 'Tax', 'Total'].map((h) => (
+                {[itemLevel === 'promotion' ? 'Promotion' : 'Item', 'Qty', 'Taxable', 'Promo Discount', 'Tax', 'Total'].map((h) => (
                   <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
                 ))}
               </tr>
@@ -610,14 +701,20 @@ export const Reports: React.FC = () => {
             <tbody className="divide-y divide-white/10">
               {itemSales.slice(0, 80).map((row, idx) => (
                 <tr key={idx}>
-                  <td className="px-2 py-2 text-sm text-white">{row.productName}</td>
+                  <td className="px-2 py-2 text-sm text-white">
+                    {itemLevel === 'promotion' ? row.promotionName : row.productName}
+                    {itemLevel === 'parent' && Array.isArray(row.variants) && row.variants.length > 0 && (
+                      <span className="ml-2 text-xs text-gray-400">({row.variants.length} variants)</span>
+                    )}
+                  </td>
                   <td className="px-2 py-2 text-sm text-gray-300">{row.quantity}</td>
                   <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.taxableValue || 0))}</td>
+                  <td className="px-2 py-2 text-sm text-amber-300">{formatCurrency(Number(row.promotionDiscount || 0))}</td>
                   <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.tax || 0))}</td>
                   <td className="px-2 py-2 text-sm text-emerald-300">{formatCurrency(Number(row.amount || 0))}</td>
                 </tr>
               ))}
-              {!itemSales.length && <tr><td colSpan={5} className="px-2 py-3 text-center text-sm text-gray-400">No data</td></tr>}
+              {!itemSales.length && <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No data</td></tr>}
             </tbody>
           </table>
         </div>
@@ -706,6 +803,29 @@ export const Reports: React.FC = () => {
               <p className="mt-1 text-lg font-semibold text-indigo-200">{Number(grossProfit?.marginPercent || 0).toFixed(2)}%</p>
             </div>
           </div>
+          {Array.isArray(grossProfit?.byPromotion) && grossProfit.byPromotion.length > 0 && (
+            <table className="mt-4 min-w-full divide-y divide-white/10">
+              <thead>
+                <tr>
+                  {['Promotion', 'Revenue', 'Cost', 'Promo Discount', 'Gross Profit', 'Margin %'].map((h) => (
+                    <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {grossProfit.byPromotion.map((row: any) => (
+                  <tr key={row.promotionId || 'none'}>
+                    <td className="px-2 py-2 text-sm text-white">{row.promotionName}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.revenue || 0))}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.costOfGoods || 0))}</td>
+                    <td className="px-2 py-2 text-sm text-amber-300">{formatCurrency(Number(row.promotionDiscount || 0))}</td>
+                    <td className="px-2 py-2 text-sm text-emerald-300">{formatCurrency(Number(row.grossProfit || 0))}</td>
+                    <td className="px-2 py-2 text-sm text-indigo-200">{Number(row.marginPercent || 0).toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
         </div>
       );
     }
@@ -797,6 +917,88 @@ export const Reports: React.FC = () => {
       );
     }
 
+    if (activeTab === 'gst-tax-summary') {
+      const rows = [
+        ...(taxSummary?.salesTax || []).map((row: any) => ({ ...row, type: 'Sales' })),
+        ...(taxSummary?.returnTax || []).map((row: any) => ({ ...row, type: 'Returns' })),
+      ];
+      return (
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-4">
+          <h2 className="mb-2 text-lg font-semibold text-white">GST Tax Summary</h2>
+          <div className="mb-3 grid grid-cols-2 gap-2 text-sm sm:grid-cols-5">
+            <div className="rounded border border-white/10 p-2 text-gray-300">Net CGST: {formatCurrency(Number(taxSummary?.netTax?.cgstAmount || 0))}</div>
+            <div className="rounded border border-white/10 p-2 text-gray-300">Net SGST: {formatCurrency(Number(taxSummary?.netTax?.sgstAmount || 0))}</div>
+            <div className="rounded border border-white/10 p-2 text-gray-300">Net IGST: {formatCurrency(Number(taxSummary?.netTax?.igstAmount || 0))}</div>
+            <div className="rounded border border-white/10 p-2 text-gray-300">Net Cess: {formatCurrency(Number(taxSummary?.netTax?.cessAmount || 0))}</div>
+            <div className="rounded border border-white/10 p-2 text-gray-300">TCS Collected: {formatCurrency(Number(taxSummary?.salesTotals?.tcsAmount || 0))}</div>
+          </div>
+          {(taxSummary?.supplyTypes || []).length > 1 && (
+            <p className="mb-3 text-xs text-gray-400">
+              Sales by supply type: {(taxSummary?.supplyTypes || []).map((row: any) => `${String(row._id).replace('_', '-')} ${formatCurrency(Number(row.taxableValue || 0))}`).join(' · ')}
+            </p>
+          )}
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Type', 'Rate', 'Taxable', 'CGST', 'SGST', 'IGST', 'Cess', 'Total Tax'].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {rows.map((row: any) => (
+                <tr key={`${row.type}-${row._id}`}>
+                  <td className="px-2 py-2 text-sm text-white">{row.type}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{Number(row._id || 0)}%</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.taxableValue || 0))}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.cgstAmount || 0))}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.sgstAmount || 0))}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.igstAmount || 0))}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(Number(row.cessAmount || 0))}</td>
+                  <td className="px-2 py-2 text-sm text-white">{formatCurrency(Number(row.taxAmount || 0))}</td>
+                </tr>
+              ))}
+              {!rows.length && <tr><td colSpan={8} className="px-2 py-3 text-center text-sm text-gray-400">No data</td></tr>}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    if (activeTab === 'near-expiry-report') {
+      return (
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-4">
+          <h2 className="mb-2 text-lg font-semibold text-white">Near-Expiry Stock Report (next {nearExpiry?.days ?? 30} days)</h2>
+          <div className="mb-3 grid grid-cols-2 gap-2 text-sm">
+            <div className="rounded border border-white/10 p-2 text-gray-300">Stock Value: {formatCurrency(Number(nearExpiry?.summary?.stockValue || 0))}</div>
+            <div className="rounded border border-white/10 p-2 text-gray-300">Expired Value: {formatCurrency(Number(nearExpiry?.summary?.expiredValue || 0))}</div>
+          </div>
+          <table className="min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Item', 'Batch', 'Expiry', 'Days Left', 'Qty', 'Value'].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {(nearExpiry?.rows || []).map((row: any) => (
+                <tr key={row.batchId}>
+                  <td className="px-2 py-2 text-sm text-white">{row.productName} <span className="text-xs text-gray-400">{row.sku}</span></td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{row.batchNo}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{String(row.expiryDate || '').slice(0, 10)}</td>
+                  <td className={`px-2 py-2 text-sm ${row.status === 'expired' ? 'text-red-300' : 'text-amber-300'}`}>{row.daysToExpiry}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{row.quantity}</td>
+                  <td className="px-2 py-2 text-sm text-white">{formatCurrency(Number(row.stockValue || 0))}</td>
+                </tr>
+              ))}
+              {!nearExpiry?.rows?.length && <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No data</td></tr>}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
     if (activeTab !== 'user-wise-sales-report') {
       return null;
     }
@@ -7,6 +7,7 @@ interface ReturnItem {
   sku: string;
   returnQuantity?: number;
   quantity?: number;
+  unit?: string;
   lineSubtotal?: number;
   lineTax?: number;
   lineTotal?: number;
@@ -452,7 +453,7 @@ const ReturnDetailsView: React.FC<ReturnDetailsViewProps> = ({ returnData, onClo
                   <tr key={index}>
                     <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-white sm:pl-6">{item.productName}</td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-300">{item.sku}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-300">{item.returnQuantity ?? item.quantity ?? 0}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-300">{item.returnQuantity ?? item.quantity ?? 0} {item.unit || ''}</td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-right text-gray-300">{formatCurrency(item.lineSubtotal ?? 0)}</td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-right text-gray-300">{formatCurrency(item.lineTax ?? 0)}</td>
                     <td className="whitespace-nowrap px-3 py-4 text-sm text-right font-bold text-white">{formatCurrency(item.lineTotal ?? 0)}</td>
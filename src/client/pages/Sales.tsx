@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { formatCurrency } from '../config';
 import { IProduct } from '@shared/types';
 import {
@@ -6,20 +6,84 @@ import {
   getGeneralSettings,
 } from '../utils/generalSettings';
 import { printInvoice, PrintableSale } from '../utils/invoicePrint';
+import { newIdempotencyKey } from '../utils/api';
+import {
+  OfflineSale,
+  cacheCatalog,
+  cacheCustomers,
+  enqueueOfflineSale,
+  getCachedCatalog,
+  getCachedCustomers,
+  getOfflineQueue,
+  getTerminalId,
+  isNetworkError,
+  resolveOfflineConflict,
+  syncOfflineQueue,
+} from '../utils/offlinePos';
+
+type SaleProduct = IProduct & {
+  parentProductId?: string;
+  hasVariants?: boolean;
+  variantAttributes?: Record<string, string>;
+  barcodes?: string[];
+  alternateUnits?: Array<{ unit: string; conversionFactor: number; price?: number }>;
+};
 
-interface CartItem extends IProduct {
+interface CartItem extends SaleProduct {
   quantity: number;
   cartId: string;
+  saleUnit: string;
+  conversionFactor: number;
+  unitPrice: number;
+}
+
+interface TenderRow {
+  method: string;
+  amount: string;
+  reference: string;
+}
+
+const TENDER_METHODS = ['cash', 'card', 'upi', 'bank_transfer', 'cheque'];
+
+interface PromotionPreviewLine {
+  productId: string;
+  promotionDiscount: number;
+  appliedPromotions: Array<{ promotionId: string; promotionName: string; discount: number }>;
 }
 
 interface CompletedSale extends PrintableSale {
   _id?: string;
 }
 
+interface HeldBillRow {
+  _id: string;
+  holdNumber: string;
+  name: string;
+  terminalId: string;
+  items: Array<{ productId: string; productName: string; sku?: string; quantity: number; unit?: string; conversionFactor: number; unitPrice: number }>;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  notes?: string;
+  totalAmount: number;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface CachedCustomer {
+  _id: string;
+  customerCode?: string;
+  name: string;
+  phone?: string;
+  email?: string;
+}
+
 export const Sales = () => {
-  const [products, setProducts] = useState<IProduct[]>([]);
+  const [products, setProducts] = useState<SaleProduct[]>([]);
+  const [variantParent, setVariantParent] = useState<SaleProduct | null>(null);
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [scanMessage, setScanMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [paymentMethod, setPaymentMethod] = useState('cash');
   const [processing, setProcessing] = useState(false);
@@ -28,6 +92,9 @@ export const Sales = () => {
   const [invoiceNumberMode, setInvoiceNumberMode] = useState<'auto' | 'manual'>('auto');
   const [manualInvoiceNumber, setManualInvoiceNumber] = useState('');
   const [paidAmount, setPaidAmount] = useState('');
+  const [cashReceived, setCashReceived] = useState('');
+  const [splitTender, setSplitTender] = useState(false);
+  const [tenders, setTenders] = useState<TenderRow[]>([{ method: 'cash', amount: '', reference: '' }]);
   const [applyRoundOff, setApplyRoundOff] = useState(true);
   const [discountType, setDiscountType] = useState<'amount' | 'percentage'>('amount');
   const [discountValue, setDiscountValue] = useState('');
@@ -35,6 +102,20 @@ export const Sales = () => {
   const [completedSale, setCompletedSale] = useState<CompletedSale | null>(null);
   const [showInvoicePrompt, setShowInvoicePrompt] = useState(false);
   const [checkoutMessage, setCheckoutMessage] = useState('');
+  const [promotionLines, setPromotionLines] = useState<PromotionPreviewLine[]>([]);
+  const [heldBills, setHeldBills] = useState<HeldBillRow[]>([]);
+  const [showHeldBills, setShowHeldBills] = useState(false);
+  const [holdName, setHoldName] = useState('');
+  const terminalId = useMemo(() => getTerminalId(), []);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [catalogCachedAt, setCatalogCachedAt] = useState('');
+  const [customers, setCustomers] = useState<CachedCustomer[]>([]);
+  const [customerId, setCustomerId] = useState('');
+  const [offlineQueue, setOfflineQueue] = useState<OfflineSale[]>(() => getOfflineQueue());
+  const [showOfflineQueue, setShowOfflineQueue] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  // Kept across retries of the same bill so a resend after a timeout cannot post it twice.
+  const checkoutKeyRef = useRef(newIdempotencyKey());
 
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
@@ -43,27 +124,252 @@ export const Sales = () => {
 
   useEffect(() => {
     fetchProducts();
+    fetchCustomers();
+    fetchHeldBills();
     setSettings(getGeneralSettings());
+    if (navigator.onLine) runOfflineSync();
   }, []);
 
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      runOfflineSync();
+      fetchProducts();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // The last catalog the server returned is kept so billing can continue when the network drops.
   const fetchProducts = async () => {
     try {
       const token = localStorage.getItem('token');
-      const response = await fetch('/api/products?limit=100', {
+      const response = await fetch('/api/products?limit=500', {
         headers: { Authorization: `Bearer ${token}` },
       });
       const data = await response.json();
       if (data.success) {
         setProducts(data.data);
+        setCatalogCachedAt('');
+        cacheCatalog(data.data);
       }
     } catch (error) {
       console.error('Error fetching products:', error);
+      const cached = getCachedCatalog<SaleProduct>();
+      if (cached) {
+        setProducts(cached.rows);
+        setCatalogCachedAt(cached.cachedAt);
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const addToCart = (product: IProduct) => {
+  const fetchCustomers = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/customers', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        const rows: CachedCustomer[] = data.data.map((row: any) => ({
+          _id: row._id,
+          customerCode: row.customerCode,
+          name: row.name,
+          phone: row.phone,
+          email: row.email,
+        }));
+        setCustomers(rows);
+        cacheCustomers(rows);
+      }
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+      setCustomers(getCachedCustomers<CachedCustomer>()?.rows || []);
+    }
+  };
+
+  const runOfflineSync = async () => {
+    if (getOfflineQueue().every((row) => row.status === 'synced' || row.status === 'conflict')) {
+      setOfflineQueue(getOfflineQueue());
+      return;
+    }
+    setSyncing(true);
+    try {
+      const result = await syncOfflineQueue(localStorage.getItem('token'));
+      if (result.synced || result.conflicts || result.failed) {
+        const parts = [`${result.synced} offline sale(s) synced`];
+        if (result.conflicts) parts.push(`${result.conflicts} need review`);
+        if (result.failed) parts.push(`${result.failed} failed`);
+        setCheckoutMessage(`${parts.join(', ')}.`);
+        if (result.conflicts || result.failed) setShowOfflineQueue(true);
+        fetchProducts();
+      }
+    } catch (error) {
+      console.error('Offline sync error:', error);
+    } finally {
+      setOfflineQueue(getOfflineQueue());
+      setSyncing(false);
+    }
+  };
+
+  const resolveConflict = (entry: OfflineSale, action: 'accept' | 'discard') => {
+    if (action === 'discard' && !window.confirm(`Discard offline sale ${entry.provisionalNumber}? It will not be recorded.`)) return;
+    resolveOfflineConflict(entry.offlineId, action);
+    setOfflineQueue(getOfflineQueue());
+    if (action === 'accept') runOfflineSync();
+  };
+
+  // Picking a cached customer by phone links the sale to the account even while offline.
+  const selectCustomerByPhone = (phone: string) => {
+    setCustomerPhone(phone);
+    const match = customers.find((row) => row.phone && row.phone === phone.trim());
+    if (match) {
+      setCustomerId(match._id);
+      setCustomerName(match.name);
+      setCustomerEmail(match.email || '');
+    } else {
+      setCustomerId('');
+    }
+  };
+
+  const fetchHeldBills = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/held-bills?terminalId=${encodeURIComponent(terminalId)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setHeldBills(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching held bills:', error);
+    }
+  };
+
+  const clearCurrentSale = () => {
+    setCart([]);
+    setCustomerId('');
+    setCustomerName('');
+    setCustomerPhone('');
+    setCustomerEmail('');
+    setSaleNotes('');
+  };
+
+  const holdBill = async () => {
+    if (cart.length === 0) return;
+    const name = holdName.trim() || customerName.trim() || `Bill ${heldBills.length + 1}`;
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/held-bills', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          name,
+          terminalId,
+          items: cart.map((item) => ({
+            productId: item._id,
+            quantity: item.quantity,
+            unit: item.saleUnit,
+            unitPrice: item.unitPrice,
+            gstRate: item.gstRate,
+          })),
+          customerName,
+          customerPhone,
+          customerEmail,
+          notes: saleNotes,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.error || 'Failed to hold bill');
+        return;
+      }
+      clearCurrentSale();
+      setHoldName('');
+      setCheckoutMessage(`${name} held as ${data.data.holdNumber}. Stock is reserved until it is resumed.`);
+      fetchHeldBills();
+    } catch (error) {
+      console.error('Hold bill error:', error);
+      alert('Failed to hold bill');
+    }
+  };
+
+  const resumeHeldBill = async (bill: HeldBillRow) => {
+    if (cart.length > 0 && !window.confirm('The current cart will be replaced. Continue?')) return;
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/held-bills/${bill._id}/resume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ terminalId }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        alert(data.error || 'Failed to resume bill');
+        fetchHeldBills();
+        return;
+      }
+      const resumed: HeldBillRow = data.data;
+      const productById = new Map(products.map((product) => [product._id, product]));
+      setCart(
+        resumed.items
+          .filter((item) => productById.has(item.productId))
+          .map((item, index) => ({
+            ...productById.get(item.productId)!,
+            quantity: item.quantity,
+            cartId: `${Date.now()}-${index}`,
+            saleUnit: item.unit || productById.get(item.productId)!.unit,
+            conversionFactor: Number(item.conversionFactor || 1),
+            unitPrice: item.unitPrice,
+          }))
+      );
+      setCustomerName(resumed.customerName || '');
+      setCustomerPhone(resumed.customerPhone || '');
+      setCustomerEmail(resumed.customerEmail || '');
+      setSaleNotes(resumed.notes || '');
+      setShowHeldBills(false);
+      const missing = resumed.items.filter((item) => !productById.has(item.productId)).length;
+      setCheckoutMessage(
+        `Resumed ${resumed.name} (${resumed.holdNumber}).${missing ? ` ${missing} item(s) are no longer in the catalog and were skipped.` : ''}`
+      );
+      fetchHeldBills();
+      fetchProducts();
+    } catch (error) {
+      console.error('Resume bill error:', error);
+      alert('Failed to resume bill');
+    }
+  };
+
+  const cancelHeldBill = async (bill: HeldBillRow) => {
+    if (!window.confirm(`Discard held bill ${bill.name}? Reserved stock will be released.`)) return;
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/held-bills/${bill._id}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ terminalId }),
+      });
+      const data = await response.json();
+      if (!data.success) alert(data.error || 'Failed to cancel held bill');
+      fetchHeldBills();
+    } catch (error) {
+      console.error('Cancel held bill error:', error);
+      alert('Failed to cancel held bill');
+    }
+  };
+
+  const addToCart = (product: SaleProduct, quantity = 1) => {
+    if (product.hasVariants) {
+      setVariantParent(product);
+      return;
+    }
     if (product.stock <= 0) {
       alert('Out of stock!');
       return;
@@ -72,25 +378,88 @@ export const Sales = () => {
     setCart((prev) => {
       const existing = prev.find((item) => item._id === product._id);
       if (existing) {
-        if (existing.quantity >= product.stock) {
+        const nextQuantity = Number((existing.quantity + quantity).toFixed(3));
+        if (nextQuantity * existing.conversionFactor > product.stock) {
           alert('Cannot add more than available stock');
           return prev;
         }
         return prev.map((item) =>
-          item._id === product._id ? { ...item, quantity: item.quantity + 1 } : item
+          item._id === product._id ? { ...item, quantity: nextQuantity } : item
         );
       }
-      return [...prev, { ...product, quantity: 1, cartId: Date.now().toString() }];
+      if (quantity > product.stock) {
+        alert('Cannot add more than available stock');
+        return prev;
+      }
+      return [
+        ...prev,
+        { ...product, quantity, cartId: Date.now().toString(), saleUnit: product.unit, conversionFactor: 1, unitPrice: product.price },
+      ];
     });
   };
 
+  // Exact matches come from the loaded catalog; weighed labels and anything not loaded go to the server.
+  const scanBarcode = async (rawCode: string) => {
+    const code = rawCode.trim();
+    if (!code) return false;
+    const local = products.find((p) => (p.barcodes || []).includes(code));
+    if (local) {
+      addToCart(local);
+      setScanMessage(`Added ${local.name}`);
+      return true;
+    }
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/products/barcode/${encodeURIComponent(code)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setScanMessage(`No product found for barcode ${code}`);
+        return false;
+      }
+      const quantity = Number(data.data.quantity || 1);
+      addToCart(data.data.product, quantity);
+      setScanMessage(`Added ${data.data.product.name}${data.data.weighed ? ` (${quantity} ${data.data.product.unit})` : ''}`);
+      return true;
+    } catch (error) {
+      console.error('Barcode lookup error:', error);
+      setScanMessage(`Barcode lookup failed for ${code}`);
+      return false;
+    }
+  };
+
+  // Keyboard-wedge scanners type the code in a fast burst followed by Enter.
+  useEffect(() => {
+    let buffer = '';
+    let lastKeyAt = 0;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const now = Date.now();
+      if (now - lastKeyAt > 50) buffer = '';
+      lastKeyAt = now;
+      if (event.key === 'Enter') {
+        if (buffer.length >= 4) {
+          event.preventDefault();
+          scanBarcode(buffer);
+        }
+        buffer = '';
+        return;
+      }
+      if (event.key.length === 1) buffer += event.key;
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [products]);
+
   const updateQuantity = (productId: string, delta: number) => {
     setCart((prev) =>
       prev.map((item) => {
         if (item._id === productId) {
           const newQty = item.quantity + delta;
           if (newQty < 1) return item;
-          if (newQty > item.stock) {
+          if (newQty * item.conversionFactor > item.stock) {
             alert('Stock limit reached');
             return item;
           }
@@ -101,14 +470,68 @@ export const Sales = () => {
     );
   };
 
+  // Unit prices come from the alternate unit when it has one, otherwise the base price scaled by the factor.
+  const changeUnit = (productId: string, unit: string) => {
+    setCart((prev) =>
+      prev.map((item) => {
+        if (item._id !== productId) return item;
+        const alternate = (item.alternateUnits || []).find((row) => row.unit === unit);
+        const conversionFactor = alternate ? Number(alternate.conversionFactor || 1) : 1;
+        if (item.quantity * conversionFactor > item.stock) {
+          alert('Stock limit reached');
+          return item;
+        }
+        return {
+          ...item,
+          saleUnit: alternate ? alternate.unit : item.unit,
+          conversionFactor,
+          unitPrice: alternate ? Number(alternate.price || 0) || item.price * conversionFactor : item.price,
+        };
+      })
+    );
+  };
+
+  // The server re-evaluates promotions when the sale is posted; this preview only keeps the cart totals honest.
+  useEffect(() => {
+    if (cart.length === 0) {
+      setPromotionLines([]);
+      return;
+    }
+    let cancelled = false;
+    const token = localStorage.getItem('token');
+    fetch('/api/promotions/evaluate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({
+        items: cart.map((item) => ({ productId: item._id, quantity: item.quantity, unit: item.saleUnit, unitPrice: item.unitPrice })),
+      }),
+    })
+      .then((response) => response.json())
+      .then((data) => {
+        if (!cancelled) setPromotionLines(data.success ? data.data.lines || [] : []);
+      })
+      .catch(() => {
+        if (!cancelled) setPromotionLines([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cart]);
+
+  const promotionFor = (index: number) => {
+    const line = promotionLines[index];
+    return line && line.productId === cart[index]?._id ? line : undefined;
+  };
+
   const removeFromCart = (productId: string) => {
     setCart((prev) => prev.filter((item) => item._id !== productId));
   };
 
   const calculateTotals = () => {
-    const subtotal = cart.reduce((acc, item) => acc + item.price * item.quantity, 0);
-    const gst = cart.reduce((acc, item) => {
-      const itemTotal = item.price * item.quantity;
+    const promotionDiscount = cart.reduce((acc, _item, index) => acc + Number(promotionFor(index)?.promotionDiscount || 0), 0);
+    const subtotal = cart.reduce((acc, item) => acc + item.unitPrice * item.quantity, 0) - promotionDiscount;
+    const gst = cart.reduce((acc, item, index) => {
+      const itemTotal = Math.max(0, item.unitPrice * item.quantity - Number(promotionFor(index)?.promotionDiscount || 0));
       return acc + (itemTotal * (item.gstRate || 18)) / 100;
     }, 0);
     const grossTotal = subtotal + gst;
@@ -129,6 +552,7 @@ export const Sales = () => {
     const roundOffAmount = roundedTotal - netTotal;
     return {
       subtotal,
+      promotionDiscount,
       gst,
       grossTotal,
       discountAmount,
@@ -139,6 +563,31 @@ export const Sales = () => {
     };
   };
 
+  // Card rows take the last 4 digits and UPI rows the transaction reference; the server works out change.
+  const buildPayments = () => {
+    if (splitTender) {
+      return tenders
+        .filter((row) => Number(row.amount || 0) > 0)
+        .map((row) => ({
+          method: row.method,
+          amount: Number(row.amount),
+          cardLast4: row.method === 'card' ? row.reference.trim() || undefined : undefined,
+          upiRef: row.method === 'upi' ? row.reference.trim() || undefined : undefined,
+          reference: ['card', 'upi'].includes(row.method) ? undefined : row.reference.trim() || undefined,
+        }));
+    }
+    if (invoiceType === 'credit') {
+      return Number(paidAmount || 0) > 0 ? [{ method: paymentMethod, amount: Number(paidAmount) }] : undefined;
+    }
+    // Without cash received the server settles the full bill in the selected method.
+    if (paymentMethod === 'cash' && Number(cashReceived || 0) > 0) return [{ method: 'cash', amount: Number(cashReceived) }];
+    return undefined;
+  };
+
+  const updateTender = (index: number, patch: Partial<TenderRow>) => {
+    setTenders((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
   const doPrintInvoice = (sale: CompletedSale) => {
     const latestSettings = getGeneralSettings();
     const ok = printInvoice(sale, latestSettings);
@@ -149,45 +598,120 @@ export const Sales = () => {
     setShowInvoicePrompt(false);
   };
 
+  const resetAfterCheckout = () => {
+    checkoutKeyRef.current = newIdempotencyKey();
+    clearCurrentSale();
+    setInvoiceType('cash');
+    setInvoiceStatus('posted');
+    setInvoiceNumberMode('auto');
+    setManualInvoiceNumber('');
+    setPaidAmount('');
+    setCashReceived('');
+    setSplitTender(false);
+    setTenders([{ method: 'cash', amount: '', reference: '' }]);
+    setDiscountType('amount');
+    setDiscountValue('');
+  };
+
+  // Offline receipts carry the provisional number; the invoice number is assigned when the queue syncs.
+  const completeOffline = (saleData: Record<string, any>, totals: ReturnType<typeof calculateTotals>, offlineId?: string) => {
+    if (invoiceStatus === 'draft') {
+      alert('Draft invoices need a server connection. Post the invoice or try again when online.');
+      return;
+    }
+    let entry: OfflineSale;
+    try {
+      entry = enqueueOfflineSale(saleData, { totalAmount: Number(totals.total.toFixed(2)), customerName }, offlineId);
+    } catch (error) {
+      console.error('Offline queue error:', error);
+      alert('This device could not store the sale offline. Do not hand over a receipt.');
+      return;
+    }
+
+    const completed: CompletedSale = {
+      saleNumber: entry.provisionalNumber,
+      invoiceNumber: entry.provisionalNumber,
+      createdAt: entry.createdAt,
+      paymentMethod,
+      customerName,
+      customerPhone,
+      customerEmail,
+      notes: saleNotes ? `${saleNotes}\nProvisional receipt - billed offline` : 'Provisional receipt - billed offline',
+      subtotal: totals.subtotal,
+      totalGst: totals.gst,
+      totalAmount: totals.total,
+      discountAmount: totals.discountAmount,
+      changeDue: Math.max(0, tenderedTotal - totals.total),
+      items: cart.map((item) => ({
+        productName: item.name,
+        sku: item.sku,
+        quantity: item.quantity,
+        unit: item.saleUnit,
+        unitPrice: item.unitPrice,
+        gstRate: item.gstRate,
+        lineTotal: item.unitPrice * item.quantity,
+      })),
+    };
+    setCompletedSale(completed);
+    setOfflineQueue(getOfflineQueue());
+    resetAfterCheckout();
+
+    const message = `Offline: sale saved as ${entry.provisionalNumber} and will sync when the connection returns.`;
+    if (settings.printing.autoPrintAfterSale) {
+      doPrintInvoice(completed);
+    } else if (settings.printing.promptAfterSale) {
+      setShowInvoicePrompt(true);
+    }
+    setCheckoutMessage(message);
+  };
+
   const handleCheckout = async () => {
     if (cart.length === 0) return;
     setProcessing(true);
     setCheckoutMessage('');
 
+    const token = localStorage.getItem('token');
+    const totals = calculateTotals();
+    const saleData = {
+      customerId: customerId || undefined,
+      payments: buildPayments(),
+      items: cart.map((item) => ({
+        productId: item._id,
+        quantity: item.quantity,
+        unit: item.saleUnit,
+        unitPrice: item.unitPrice,
+        gstRate: item.gstRate,
+      })),
+      paymentMethod,
+      invoiceType,
+      invoiceStatus,
+      invoiceNumber: invoiceNumberMode === 'manual' ? manualInvoiceNumber.trim() : undefined,
+      autoInvoiceNumber: invoiceNumberMode === 'auto',
+      applyRoundOff,
+      paidAmount: paidAmount ? Number(paidAmount) : undefined,
+      customerName,
+      customerPhone,
+      customerEmail,
+      notes: saleNotes,
+      subtotal: totals.subtotal,
+      totalGst: totals.gst,
+      discountAmount: totals.discountAmount,
+      discountPercentage: totals.discountPercentage,
+      totalAmount: totals.total,
+    };
+
     try {
-      const token = localStorage.getItem('token');
-      const totals = calculateTotals();
-
-      const saleData = {
-        items: cart.map((item) => ({
-          productId: item._id,
-          quantity: item.quantity,
-          unitPrice: item.price,
-          gstRate: item.gstRate,
-        })),
-        paymentMethod,
-        invoiceType,
-        invoiceStatus,
-        invoiceNumber: invoiceNumberMode === 'manual' ? manualInvoiceNumber.trim() : undefined,
-        autoInvoiceNumber: invoiceNumberMode === 'auto',
-        applyRoundOff,
-        paidAmount: paidAmount ? Number(paidAmount) : undefined,
-        customerName,
-        customerPhone,
-        customerEmail,
-        notes: saleNotes,
-        subtotal: totals.subtotal,
-        totalGst: totals.gst,
-        discountAmount: totals.discountAmount,
-        discountPercentage: totals.discountPercentage,
-        totalAmount: totals.total,
-      };
+      if (!navigator.onLine) {
+        completeOffline(saleData, totals);
+        return;
+      }
 
       const response = await fetch('/api/sales', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${token}`,
+          'Idempotency-Key': checkoutKeyRef.current,
         },
         body: JSON.stringify(saleData),
       });
@@ -209,18 +733,7 @@ export const Sales = () => {
 
       setCompletedSale(completed);
 
-      setCart([]);
-      setCustomerName('');
-      setCustomerPhone('');
-      setCustomerEmail('');
-      setSaleNotes('');
-      setInvoiceType('cash');
-      setInvoiceStatus('posted');
-      setInvoiceNumberMode('auto');
-      setManualInvoiceNumber('');
-      setPaidAmount('');
-      setDiscountType('amount');
-      setDiscountValue('');
+      resetAfterCheckout();
       fetchProducts();
 
       if (invoiceStatus === 'draft') {
@@ -228,16 +741,24 @@ export const Sales = () => {
         return;
       }
 
+      const changeNote = Number(completed.changeDue || 0) > 0 ? ` Change due: ${formatCurrency(Number(completed.changeDue))}.` : '';
       if (settings.printing.autoPrintAfterSale) {
         doPrintInvoice(completed);
-        setCheckoutMessage(`Sale completed. Invoice ${completed.invoiceNumber} sent to print.`);
+        setCheckoutMessage(`Sale completed. Invoice ${completed.invoiceNumber} sent to print.${changeNote}`);
       } else if (settings.printing.promptAfterSale) {
         setShowInvoicePrompt(true);
-        setCheckoutMessage(`Sale completed. Invoice ${completed.invoiceNumber} is ready.`);
+        setCheckoutMessage(`Sale completed. Invoice ${completed.invoiceNumber} is ready.${changeNote}`);
       } else {
-        setCheckoutMessage(`Sale completed successfully. Invoice ${completed.invoiceNumber} generated.`);
+        setCheckoutMessage(`Sale completed successfully. Invoice ${completed.invoiceNumber} generated.${changeNote}`);
       }
     } catch (error) {
+      // The request may have reached the server before the connection dropped; queueing under the same key
+      // lets the sync find that sale instead of posting the bill again.
+      if (isNetworkError(error)) {
+        setIsOnline(false);
+        completeOffline(saleData, totals, checkoutKeyRef.current);
+        return;
+      }
       console.error('Checkout error:', error);
       alert('Failed to process sale');
     } finally {
@@ -245,18 +766,29 @@ export const Sales = () => {
     }
   };
 
-  const filteredProducts = useMemo(
-    () =>
-      products.filter(
-        (p) =>
-          p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          p.sku.toLowerCase().includes(searchTerm.toLowerCase())
-      ),
-    [products, searchTerm]
-  );
+  // Variants stay behind their parent card unless the search hits the variant's own SKU or barcode.
+  const filteredProducts = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return products.filter((p) => {
+      if (p.parentProductId) {
+        return Boolean(term) && (p.sku.toLowerCase().includes(term) || (p.barcodes || []).some((code) => code.toLowerCase() === term));
+      }
+      return p.name.toLowerCase().includes(term)
+        || p.sku.toLowerCase().includes(term)
+        || (p.barcodes || []).some((code) => code.toLowerCase() === term);
+    });
+  }, [products, searchTerm]);
+
+  const variantsOf = (parentId?: string) => products.filter((p) => parentId && p.parentProductId === parentId);
 
-  const { subtotal, gst, grossTotal, discountAmount, netTotal, roundOffAmount, total } = calculateTotals();
-  const outstandingAmount = Math.max(0, total - Number(paidAmount || 0));
+  const { subtotal, promotionDiscount, gst, grossTotal, discountAmount, netTotal, roundOffAmount, total } = calculateTotals();
+  const tenderedTotal = splitTender
+    ? tenders.reduce((sum, row) => sum + Number(row.amount || 0), 0)
+    : invoiceType === 'credit'
+      ? Number(paidAmount || 0)
+      : paymentMethod === 'cash' && Number(cashReceived || 0) > 0 ? Number(cashReceived) : total;
+  const outstandingAmount = Math.max(0, total - tenderedTotal);
+  const changeDue = Math.max(0, tenderedTotal - total);
 
   return (
     <>
@@ -264,11 +796,17 @@ export const Sales = () => {
         <div className="rounded-lg border border-white/10 bg-white/5 p-5 lg:col-span-2">
           <input
             type="text"
-            placeholder="Search products by name or SKU..."
+            placeholder="Search by name or SKU, or scan a barcode..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            className="mb-5 w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-white placeholder-gray-500 outline-none focus:border-indigo-400"
+            onKeyDown={async (e) => {
+              if (e.key !== 'Enter' || !searchTerm.trim()) return;
+              e.preventDefault();
+              if (await scanBarcode(searchTerm)) setSearchTerm('');
+            }}
+            className="mb-2 w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-white placeholder-gray-500 outline-none focus:border-indigo-400"
           />
+          <p className="mb-5 min-h-4 text-xs text-gray-400">{scanMessage}</p>
 
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
             {loading ? (
@@ -285,7 +823,11 @@ export const Sales = () => {
                   <p className="text-sm text-gray-400">{product.sku}</p>
                   <div className="mt-3 flex items-center justify-between">
                     <span className="font-bold text-indigo-300">{formatCurrency(product.price)}</span>
-                    <span className="rounded bg-white/10 px-2 py-1 text-xs text-gray-300">Stock: {product.stock}</span>
+                    <span className="rounded bg-white/10 px-2 py-1 text-xs text-gray-300">
+                      {product.hasVariants
+                        ? `${variantsOf(product._id).length} variants`
+                        : `Stock: ${product.stock}`}
+                    </span>
                   </div>
                 </button>
               ))
@@ -294,20 +836,152 @@ export const Sales = () => {
         </div>
 
         <div className="rounded-lg border border-white/10 bg-white/5 p-5">
-          <h2 className="text-xl font-semibold text-white">Current Sale</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-white">Current Sale</h2>
+            <button
+              type="button"
+              className="rounded-md bg-white/10 px-3 py-1.5 text-xs font-semibold text-white hover:bg-white/20"
+              onClick={() => {
+                setShowHeldBills((prev) => !prev);
+                fetchHeldBills();
+              }}
+            >
+              Held Bills ({heldBills.length})
+            </button>
+          </div>
+
+          {(!isOnline || catalogCachedAt || offlineQueue.some((row) => row.status !== 'synced')) && (
+            <div className={`mt-3 rounded border px-3 py-2 text-xs ${isOnline ? 'border-amber-400/30 bg-amber-500/10 text-amber-200' : 'border-red-500/30 bg-red-500/10 text-red-200'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  {isOnline ? 'Online' : 'Offline - sales are queued on this device'}
+                  {catalogCachedAt ? ` · catalog from ${new Date(catalogCachedAt).toLocaleString()}` : ''}
+                  {` · ${offlineQueue.filter((row) => row.status === 'pending' || row.status === 'failed').length} to sync`}
+                  {offlineQueue.some((row) => row.status === 'conflict')
+                    ? ` · ${offlineQueue.filter((row) => row.status === 'conflict').length} need review`
+                    : ''}
+                </span>
+                <div className="flex gap-2">
+                  <button type="button" className="underline" onClick={() => setShowOfflineQueue((prev) => !prev)}>
+                    {showOfflineQueue ? 'Hide' : 'Queue'}
+                  </button>
+                  <button type="button" className="underline disabled:opacity-50" disabled={!isOnline || syncing} onClick={runOfflineSync}>
+                    {syncing ? 'Syncing...' : 'Sync now'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {showOfflineQueue && (
+            <div className="mt-2 max-h-[28vh] space-y-2 overflow-y-auto rounded-md border border-white/10 bg-black/20 p-2">
+              {offlineQueue.length === 0 ? (
+                <p className="text-center text-xs text-gray-400">No offline sales on this device</p>
+              ) : (
+                [...offlineQueue].reverse().map((entry) => (
+                  <div key={entry.offlineId} className="rounded border border-white/10 px-3 py-2 text-xs">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-white">{entry.provisionalNumber}</span>
+                      <span className={entry.status === 'synced' ? 'text-emerald-300' : entry.status === 'conflict' ? 'text-amber-300' : entry.status === 'failed' ? 'text-red-300' : 'text-gray-300'}>
+                        {entry.status === 'synced' ? `Synced as ${entry.invoiceNumber}` : entry.status}
+                      </span>
+                    </div>
+                    <p className="text-gray-400">
+                      {new Date(entry.createdAt).toLocaleString()} · {entry.customerName || 'Walk-in Customer'} · {formatCurrency(entry.totalAmount)}
+                    </p>
+                    {entry.status === 'failed' && entry.lastError && <p className="text-red-300">{entry.lastError}</p>}
+                    {entry.status === 'conflict' && (
+                      <>
+                        <ul className="mt-1 list-disc pl-4 text-amber-200">
+                          {(entry.conflicts || []).map((conflict, index) => (
+                            <li key={index}>
+                              {conflict.productName ? `${conflict.productName}: ` : ''}{conflict.message}
+                            </li>
+                          ))}
+                        </ul>
+                        <div className="mt-2 flex justify-end gap-2">
+                          <button
+                            type="button"
+                            className="rounded bg-amber-500 px-2 py-1 font-semibold text-white hover:bg-amber-400 disabled:opacity-40"
+                            disabled={(entry.conflicts || []).some((conflict) => conflict.type === 'product')}
+                            onClick={() => resolveConflict(entry, 'accept')}
+                          >
+                            Post Anyway
+                          </button>
+                          <button type="button" className="text-red-400" onClick={() => resolveConflict(entry, 'discard')}>
+                            Discard
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
+          {showHeldBills && (
+            <div className="mt-3 max-h-[28vh] space-y-2 overflow-y-auto rounded-md border border-amber-400/30 bg-amber-500/5 p-2">
+              {heldBills.length === 0 ? (
+                <p className="text-center text-xs text-gray-400">No bills on hold</p>
+              ) : (
+                heldBills.map((bill) => (
+                  <div key={bill._id} className="flex items-center justify-between gap-2 rounded border border-white/10 bg-black/20 px-3 py-2">
+                    <div>
+                      <p className="text-sm font-medium text-white">{bill.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {bill.holdNumber} · {bill.items.length} items · {formatCurrency(bill.totalAmount)}
+                        {bill.terminalId !== terminalId ? ` · ${bill.terminalId}` : ''}
+                      </p>
+                      <p className="text-xs text-amber-300">Expires {new Date(bill.expiresAt).toLocaleTimeString()}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        className="rounded bg-indigo-500 px-2 py-1 text-xs font-semibold text-white hover:bg-indigo-400"
+                        onClick={() => resumeHeldBill(bill)}
+                      >
+                        Resume
+                      </button>
+                      <button type="button" className="text-xs text-red-400" onClick={() => cancelHeldBill(bill)}>
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
 
           <div className="mt-4 max-h-[32vh] space-y-3 overflow-y-auto">
             {cart.length === 0 ? (
               <p className="text-center text-gray-400">Cart is empty</p>
             ) : (
-              cart.map((item) => (
+              cart.map((item, index) => (
                 <div key={item.cartId} className="rounded-md border border-white/10 bg-black/20 p-3">
                   <div className="flex items-center justify-between gap-3">
                     <div>
                       <h4 className="text-sm font-medium text-white">{item.name}</h4>
                       <p className="text-xs text-gray-400">
-                        {formatCurrency(item.price)} x {item.quantity}
+                        {formatCurrency(item.unitPrice)} x {item.quantity} {item.saleUnit}
                       </p>
+                      {promotionFor(index)?.appliedPromotions.map((promotion) => (
+                        <p key={promotion.promotionId} className="text-xs text-emerald-300">
+                          {promotion.promotionName}: - {formatCurrency(promotion.discount)}
+                        </p>
+                      ))}
+                      {Boolean(item.alternateUnits?.length) && (
+                        <select
+                          value={item.saleUnit}
+                          onChange={(e) => changeUnit(item._id!, e.target.value)}
+                          className="mt-1 rounded border border-white/10 bg-white/5 px-1 py-0.5 text-xs text-white"
+                        >
+                          <option value={item.unit}>{item.unit}</option>
+                          {(item.alternateUnits || []).map((row) => (
+                            <option key={row.unit} value={row.unit}>{row.unit} ({row.conversionFactor} {item.unit})</option>
+                          ))}
+                        </select>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <button
@@ -333,6 +1007,25 @@ export const Sales = () => {
             )}
           </div>
 
+          {cart.length > 0 && (
+            <div className="mt-3 grid grid-cols-[1fr_auto] gap-2">
+              <input
+                type="text"
+                placeholder="Hold as (e.g. table 4, blue shirt)"
+                value={holdName}
+                onChange={(e) => setHoldName(e.target.value)}
+                className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white placeholder-gray-500"
+              />
+              <button
+                type="button"
+                className="rounded-md bg-amber-500 px-3 py-1.5 text-xs font-semibold text-white hover:bg-amber-400"
+                onClick={holdBill}
+              >
+                Hold Bill
+              </button>
+            </div>
+          )}
+
           <div className="mt-4 space-y-2 border-t border-white/10 pt-4">
             <input
               type="text"
@@ -345,9 +1038,15 @@ export const Sales = () => {
               type="text"
               placeholder="Customer Phone (optional)"
               value={customerPhone}
-              onChange={(e) => setCustomerPhone(e.target.value)}
+              list="pos-customer-phones"
+              onChange={(e) => selectCustomerByPhone(e.target.value)}
               className="w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder-gray-500"
             />
+            <datalist id="pos-customer-phones">
+              {customers.filter((row) => row.phone).map((row) => (
+                <option key={row._id} value={row.phone}>{row.name}</option>
+              ))}
+            </datalist>
             <input
               type="email"
               placeholder="Customer Email (optional)"
@@ -394,6 +1093,12 @@ export const Sales = () => {
               <span>Subtotal</span>
               <span>{formatCurrency(subtotal)}</span>
             </div>
+            {promotionDiscount > 0 && (
+              <div className="mb-2 flex items-center justify-between text-sm text-emerald-300">
+                <span>Promotions (included above)</span>
+                <span>- {formatCurrency(promotionDiscount)}</span>
+              </div>
+            )}
             <div className="mb-2 flex items-center justify-between text-sm text-gray-300">
               <span>GST</span>
               <span>{formatCurrency(gst)}</span>
@@ -439,12 +1144,13 @@ export const Sales = () => {
               <span>{formatCurrency(total)}</span>
             </div>
 
-            <div className="mb-4 flex gap-2">
+            <div className="mb-2 flex flex-wrap gap-2">
               {['cash', 'card', 'upi', 'bank_transfer'].map((method) => (
                 <button
                   key={method}
                   type="button"
-                  className={`rounded-md px-3 py-1.5 text-xs font-semibold uppercase ${
+                  disabled={splitTender}
+                  className={`rounded-md px-3 py-1.5 text-xs font-semibold uppercase disabled:opacity-40 ${
                     paymentMethod === method ? 'bg-indigo-500 text-white' : 'bg-white/10 text-gray-300'
                   }`}
                   onClick={() => setPaymentMethod(method)}
@@ -452,7 +1158,88 @@ export const Sales = () => {
                   {method}
                 </button>
               ))}
+              <button
+                type="button"
+                className={`rounded-md px-3 py-1.5 text-xs font-semibold uppercase ${splitTender ? 'bg-amber-500 text-white' : 'bg-white/10 text-gray-300'}`}
+                onClick={() => setSplitTender((prev) => !prev)}
+              >
+                Split
+              </button>
             </div>
+            {splitTender ? (
+              <div className="mb-3 space-y-2">
+                {tenders.map((row, index) => (
+                  <div key={index} className="grid grid-cols-[110px_1fr_1fr_auto] gap-2">
+                    <select
+                      value={row.method}
+                      onChange={(e) => updateTender(index, { method: e.target.value })}
+                      className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white"
+                    >
+                      {TENDER_METHODS.map((method) => (
+                        <option key={method} value={method}>{method.replace('_', ' ').toUpperCase()}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Amount"
+                      value={row.amount}
+                      onChange={(e) => updateTender(index, { amount: e.target.value })}
+                      className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white placeholder-gray-500"
+                    />
+                    <input
+                      type="text"
+                      placeholder={row.method === 'card' ? 'Card last 4' : row.method === 'upi' ? 'UPI ref' : row.method === 'cash' ? '-' : 'Reference'}
+                      disabled={row.method === 'cash'}
+                      maxLength={row.method === 'card' ? 4 : undefined}
+                      value={row.reference}
+                      onChange={(e) => updateTender(index, { reference: e.target.value })}
+                      className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white placeholder-gray-500 disabled:opacity-40"
+                    />
+                    <button
+                      type="button"
+                      className="text-red-400 disabled:opacity-30"
+                      disabled={tenders.length === 1}
+                      onClick={() => setTenders((prev) => prev.filter((_row, i) => i !== index))}
+                    >
+                      x
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20"
+                  onClick={() =>
+                    setTenders((prev) => [
+                      ...prev,
+                      { method: 'upi', amount: String(Math.max(0, Number((total - tenderedTotal).toFixed(2))) || ''), reference: '' },
+                    ])
+                  }
+                >
+                  + Add Tender
+                </button>
+                <div className="flex justify-between text-xs text-gray-300">
+                  <span>Tendered {formatCurrency(tenderedTotal)}</span>
+                  <span>{outstandingAmount > 0 ? `Balance ${formatCurrency(outstandingAmount)}` : `Change ${formatCurrency(changeDue)}`}</span>
+                </div>
+              </div>
+            ) : (
+              invoiceType === 'cash' && paymentMethod === 'cash' && (
+                <div className="mb-3 grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Cash received"
+                    value={cashReceived}
+                    onChange={(e) => setCashReceived(e.target.value)}
+                    className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs text-white placeholder-gray-500"
+                  />
+                  <div className="flex items-center justify-end text-sm text-emerald-300">Change: {formatCurrency(changeDue)}</div>
+                </div>
+              )
+            )}
             <div className="mb-3 grid grid-cols-2 gap-2">
               <button
                 type="button"
@@ -485,15 +1272,17 @@ export const Sales = () => {
             </div>
             {invoiceType === 'credit' && (
               <>
-                <input
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  placeholder="Paid Amount (optional)"
-                  value={paidAmount}
-                  onChange={(e) => setPaidAmount(e.target.value)}
-                  className="mb-3 w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder-gray-500"
-                />
+                {!splitTender && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Paid Amount (optional)"
+                    value={paidAmount}
+                    onChange={(e) => setPaidAmount(e.target.value)}
+                    className="mb-3 w-full rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder-gray-500"
+                  />
+                )}
                 <div className="mb-3 rounded border border-amber-400/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
                   Outstanding: <span className="font-semibold">{formatCurrency(outstandingAmount)}</span>
                 </div>
@@ -560,6 +1349,49 @@ export const Sales = () => {
           </div>
         </div>
       )}
+
+      {variantParent && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+          <div className="w-full max-w-lg rounded-xl border border-white/10 bg-gray-900 p-6">
+            <h3 className="text-xl font-semibold text-white">Select Variant: {variantParent.name}</h3>
+            <div className="mt-4 grid max-h-[50vh] grid-cols-1 gap-2 overflow-y-auto sm:grid-cols-2">
+              {variantsOf(variantParent._id).map((variant) => (
+                <button
+                  key={variant._id}
+                  type="button"
+                  disabled={variant.stock <= 0}
+                  className="rounded-md border border-white/10 bg-black/20 p-3 text-left hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => {
+                    addToCart(variant);
+                    setVariantParent(null);
+                  }}
+                >
+                  <p className="text-sm font-semibold text-white">
+                    {Object.values(variant.variantAttributes || {}).join(' / ') || variant.name}
+                  </p>
+                  <p className="text-xs text-gray-400">{variant.sku}</p>
+                  <div className="mt-2 flex items-center justify-between text-xs">
+                    <span className="font-bold text-indigo-300">{formatCurrency(variant.price)}</span>
+                    <span className="text-gray-300">Stock: {variant.stock}</span>
+                  </div>
+                </button>
+              ))}
+              {variantsOf(variantParent._id).length === 0 && (
+                <p className="text-sm text-gray-400">No active variants for this product.</p>
+              )}
+            </div>
+            <div className="mt-5 flex justify-end">
+              <button
+                type="button"
+                className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20"
+                onClick={() => setVariantParent(null)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 };
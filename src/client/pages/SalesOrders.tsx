@@ -0,0 +1,422 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { apiUrl, fetchApiJson, newIdempotencyKey } from '../utils/api';
+
+type SalesOrderStatus = 'booked' | 'partially_delivered' | 'delivered' | 'cancelled';
+
+interface ProductOption {
+  _id: string;
+  name: string;
+  sku: string;
+  price: number;
+  unit?: string;
+}
+
+interface CustomerOption {
+  _id: string;
+  name: string;
+  phone?: string;
+}
+
+interface SalesOrderLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unit?: string;
+  deliveredQuantity: number;
+  reservedBaseQuantity: number;
+  unitPrice: number;
+  discountPercentage?: number;
+  lineTotal?: number;
+}
+
+interface SalesOrderRow {
+  _id: string;
+  orderNumber: string;
+  orderStatus: SalesOrderStatus;
+  customerName?: string;
+  customerPhone?: string;
+  items: SalesOrderLine[];
+  totalAmount: number;
+  advanceAmount: number;
+  advanceAppliedAmount: number;
+  advanceRefundedAmount: number;
+  invoicedAmount: number;
+  deliveries: Array<{ saleId: string; invoiceNumber: string; deliveredAt: string; invoiceAmount: number; advanceApplied: number }>;
+  expectedDeliveryDate?: string;
+  notes?: string;
+  createdAt?: string;
+}
+
+const STATUS_STYLES: Record<SalesOrderStatus, string> = {
+  booked: 'text-sky-300',
+  partially_delivered: 'text-amber-300',
+  delivered: 'text-emerald-300',
+  cancelled: 'text-gray-500',
+};
+
+const PAYMENT_METHODS = ['cash', 'card', 'upi', 'cheque', 'online', 'bank_transfer'];
+
+const emptyLine = { productId: '', quantity: '1', unitPrice: '', discountPercentage: '' };
+
+const emptyForm = {
+  customerId: '',
+  expectedDeliveryDate: '',
+  advanceAmount: '',
+  advanceMethod: 'cash',
+  approvePriceOverride: false,
+  notes: '',
+  items: [{ ...emptyLine }],
+};
+
+const pendingOf = (line: SalesOrderLine) => Math.max(0, Number(line.quantity || 0) - Number(line.deliveredQuantity || 0));
+const advanceBalanceOf = (row: SalesOrderRow) =>
+  Number(row.advanceAmount || 0) - Number(row.advanceAppliedAmount || 0) - Number(row.advanceRefundedAmount || 0);
+
+export const SalesOrders: React.FC = () => {
+  const [rows, setRows] = useState<SalesOrderRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [delivering, setDelivering] = useState<SalesOrderRow | null>(null);
+  const [deliverQty, setDeliverQty] = useState<string[]>([]);
+  const [deliverPayment, setDeliverPayment] = useState({ amount: '', method: 'cash' });
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const load = async () => {
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (statusFilter) params.set('orderStatus', statusFilter);
+      if (search.trim()) params.set('q', search.trim());
+      const data = await fetchApiJson(apiUrl(`/api/orders?${params.toString()}`), { headers });
+      setRows(data.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load sales orders');
+    }
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [productData, customerData] = await Promise.all([
+          fetchApiJson(apiUrl('/api/products?limit=500'), { headers }),
+          fetchApiJson(apiUrl('/api/customers'), { headers }),
+        ]);
+        setProducts(productData.data || []);
+        setCustomers(customerData.data || []);
+      } catch (e: any) {
+        setError(e.message || 'Failed to load products and customers');
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [statusFilter]);
+
+  const run = async (action: () => Promise<any>, fallback: string) => {
+    setError('');
+    setMessage('');
+    try {
+      const data = await action();
+      setMessage(data?.message || 'Done');
+      await load();
+      return data;
+    } catch (e: any) {
+      setError(e.message || fallback);
+      return null;
+    }
+  };
+
+  const book = async () => {
+    if (!form.customerId) {
+      setError('Select the customer the order is booked for');
+      return;
+    }
+    const payload = {
+      customerId: form.customerId,
+      expectedDeliveryDate: form.expectedDeliveryDate || undefined,
+      approvePriceOverride: form.approvePriceOverride,
+      notes: form.notes || undefined,
+      advance: Number(form.advanceAmount || 0) > 0 ? { amount: Number(form.advanceAmount), method: form.advanceMethod } : undefined,
+      items: form.items
+        .filter((item) => item.productId)
+        .map((item) => ({
+          productId: item.productId,
+          quantity: Number(item.quantity || 0),
+          unitPrice: item.unitPrice === '' ? undefined : Number(item.unitPrice),
+          discountPercentage: Number(item.discountPercentage || 0),
+        })),
+    };
+    const saved = await run(
+      () =>
+        fetchApiJson(apiUrl('/api/orders'), {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
+          body: JSON.stringify(payload),
+        }),
+      'Failed to book sales order'
+    );
+    if (saved) setForm(emptyForm);
+  };
+
+  const addAdvance = (row: SalesOrderRow) => {
+    const amount = Number(window.prompt(`Advance amount for ${row.orderNumber}`) || 0);
+    if (amount <= 0) return;
+    const method = (window.prompt('Payment method (cash, card, upi, cheque, online, bank_transfer)', 'cash') || 'cash').trim();
+    run(
+      () =>
+        fetchApiJson(apiUrl(`/api/orders/${row._id}/advances`), {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
+          body: JSON.stringify({ amount, method }),
+        }),
+      'Failed to record advance'
+    );
+  };
+
+  const openDelivery = (row: SalesOrderRow) => {
+    setDelivering(row);
+    setDeliverQty(row.items.map((line) => String(pendingOf(line))));
+    setDeliverPayment({ amount: '', method: 'cash' });
+  };
+
+  const deliver = async () => {
+    if (!delivering) return;
+    const items = delivering.items
+      .map((_line, lineIndex) => ({ lineIndex, quantity: Number(deliverQty[lineIndex] || 0) }))
+      .filter((row) => row.quantity > 0);
+    const amount = Number(deliverPayment.amount || 0);
+    const data = await run(
+      () =>
+        fetchApiJson(apiUrl(`/api/orders/${delivering._id}/deliveries`), {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': newIdempotencyKey() },
+          body: JSON.stringify({ items, payments: amount > 0 ? [{ method: deliverPayment.method, amount }] : [] }),
+        }),
+      'Failed to deliver order'
+    );
+    if (data) setDelivering(null);
+  };
+
+  const cancel = (row: SalesOrderRow) => {
+    const balance = advanceBalanceOf(row);
+    const reason = window.prompt(
+      balance > 0
+        ? `Cancel ${row.orderNumber}? Unused advance of ${formatCurrency(balance)} will be refunded. Reason:`
+        : `Cancel ${row.orderNumber}? Reason:`
+    );
+    if (reason === null) return;
+    const refundMethod = balance > 0
+      ? (window.prompt('Refund method (leave blank to refund the way it was paid)', '') || '').trim() || undefined
+      : undefined;
+    run(
+      () =>
+        fetchApiJson(apiUrl(`/api/orders/${row._id}/cancel`), {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ reason, refundMethod }),
+        }),
+      'Failed to cancel order'
+    );
+  };
+
+  const updateLine = (index: number, patch: Partial<typeof emptyLine>) =>
+    setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...patch } : item)) });
+
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+  const buttonClass = 'rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20';
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-white sm:text-3xl">Sales Orders</h1>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">Book Order</h2>
+          <select className={inputClass} value={form.customerId} onChange={(e) => setForm({ ...form, customerId: e.target.value })}>
+            <option value="">Select customer</option>
+            {customers.map((customer) => (
+              <option key={customer._id} value={customer._id}>{customer.name}{customer.phone ? ` (${customer.phone})` : ''}</option>
+            ))}
+          </select>
+
+          {form.items.map((item, index) => (
+            <div key={index} className="grid grid-cols-[1fr_55px_75px_50px_auto] gap-1">
+              <select className={inputClass} value={item.productId} onChange={(e) => updateLine(index, { productId: e.target.value })}>
+                <option value="">Select product</option>
+                {products.map((product) => (
+                  <option key={product._id} value={product._id}>{product.name} ({formatCurrency(product.price)})</option>
+                ))}
+              </select>
+              <input className={inputClass} type="number" min="0" placeholder="Qty" value={item.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} />
+              <input className={inputClass} type="number" min="0" placeholder="Price" value={item.unitPrice} onChange={(e) => updateLine(index, { unitPrice: e.target.value })} />
+              <input className={inputClass} type="number" min="0" max="100" placeholder="%" value={item.discountPercentage} onChange={(e) => updateLine(index, { discountPercentage: e.target.value })} />
+              <button className="text-red-400" onClick={() => setForm({ ...form, items: form.items.filter((_row, i) => i !== index) })}>x</button>
+            </div>
+          ))}
+          <button className={buttonClass} onClick={() => setForm({ ...form, items: [...form.items, { ...emptyLine }] })}>+ Line</button>
+          <p className="text-xs text-gray-400">Booked quantities are reserved and billed at these prices on every delivery.</p>
+
+          <label className="block text-xs text-gray-400">
+            Expected delivery
+            <input className={inputClass} type="date" value={form.expectedDeliveryDate} onChange={(e) => setForm({ ...form, expectedDeliveryDate: e.target.value })} />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} type="number" min="0" placeholder="Advance" value={form.advanceAmount} onChange={(e) => setForm({ ...form, advanceAmount: e.target.value })} />
+            <select className={inputClass} value={form.advanceMethod} onChange={(e) => setForm({ ...form, advanceMethod: e.target.value })}>
+              {PAYMENT_METHODS.map((method) => (
+                <option key={method} value={method}>{method.replace('_', ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={form.approvePriceOverride} onChange={(e) => setForm({ ...form, approvePriceOverride: e.target.checked })} />
+            Approve prices below list (admin/manager)
+          </label>
+          <input className={inputClass} placeholder="Notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+          <button className="w-full rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={book}>
+            Book Order
+          </button>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="mr-auto text-lg font-semibold text-white">Orders</h2>
+            <input
+              className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white"
+              placeholder="Number, customer or phone"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && load()}
+            />
+            <select className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)}>
+              <option value="">All statuses</option>
+              {Object.keys(STATUS_STYLES).map((status) => (
+                <option key={status} value={status}>{status.replace('_', ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <table className="mt-3 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Order', 'Customer', 'Pending', 'Value', 'Advance', 'Status', ''].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {rows.map((row) => {
+                const open = ['booked', 'partially_delivered'].includes(row.orderStatus);
+                return (
+                  <tr key={row._id}>
+                    <td className="px-2 py-2 text-sm text-white">
+                      {row.orderNumber}
+                      {row.expectedDeliveryDate && (
+                        <div className="text-xs text-gray-400">Due {new Date(row.expectedDeliveryDate).toLocaleDateString('en-IN')}</div>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-sm text-gray-300">
+                      {row.customerName || '-'}
+                      {row.customerPhone && <div className="text-xs text-gray-400">{row.customerPhone}</div>}
+                    </td>
+                    <td className="px-2 py-2 text-xs text-gray-300">
+                      {row.items.map((line, index) => (
+                        <div key={index}>
+                          {line.productName}: {pendingOf(line)} / {line.quantity} {line.unit || ''}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-2 py-2 text-sm text-white">
+                      {formatCurrency(row.totalAmount)}
+                      {row.invoicedAmount > 0 && <div className="text-xs text-gray-400">Invoiced {formatCurrency(row.invoicedAmount)}</div>}
+                    </td>
+                    <td className="px-2 py-2 text-sm text-gray-300">
+                      {formatCurrency(row.advanceAmount || 0)}
+                      {advanceBalanceOf(row) > 0 && <div className="text-xs text-gray-400">Unused {formatCurrency(advanceBalanceOf(row))}</div>}
+                      {row.advanceRefundedAmount > 0 && <div className="text-xs text-gray-400">Refunded {formatCurrency(row.advanceRefundedAmount)}</div>}
+                    </td>
+                    <td className="px-2 py-2 text-sm">
+                      <span className={STATUS_STYLES[row.orderStatus]}>{row.orderStatus.replace('_', ' ')}</span>
+                      {row.deliveries.map((delivery) => (
+                        <div key={delivery.saleId} className="text-xs text-gray-400">{delivery.invoiceNumber}</div>
+                      ))}
+                    </td>
+                    <td className="px-2 py-2 text-sm">
+                      {open && (
+                        <div className="flex flex-wrap gap-1">
+                          <button className="rounded-md bg-indigo-500/30 px-2 py-1 text-xs text-indigo-100 hover:bg-indigo-500/40" onClick={() => openDelivery(row)}>
+                            Deliver
+                          </button>
+                          <button className={buttonClass} onClick={() => addAdvance(row)}>Advance</button>
+                          <button className="rounded-md bg-red-500/20 px-2 py-1 text-xs text-red-200 hover:bg-red-500/30" onClick={() => cancel(row)}>Cancel</button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr><td colSpan={7} className="px-2 py-3 text-center text-sm text-gray-400">No sales orders found.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {delivering && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4">
+          <div className="w-full max-w-lg space-y-3 rounded-xl border border-white/10 bg-gray-900 p-5">
+            <h2 className="text-lg font-semibold text-white">Deliver {delivering.orderNumber}</h2>
+            <p className="text-sm text-gray-300">
+              Each delivery is billed on its own credit invoice. Unused advance of {formatCurrency(advanceBalanceOf(delivering))} is applied first.
+            </p>
+            {delivering.items.map((line, index) => (
+              <div key={index} className="grid grid-cols-[1fr_90px] items-center gap-2">
+                <span className="text-sm text-gray-300">{line.productName} ({pendingOf(line)} pending)</span>
+                <input
+                  className={inputClass}
+                  type="number"
+                  min="0"
+                  max={pendingOf(line)}
+                  value={deliverQty[index] || ''}
+                  onChange={(e) => setDeliverQty(deliverQty.map((qty, i) => (i === index ? e.target.value : qty)))}
+                />
+              </div>
+            ))}
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                className={inputClass}
+                type="number"
+                min="0"
+                placeholder="Collected now"
+                value={deliverPayment.amount}
+                onChange={(e) => setDeliverPayment({ ...deliverPayment, amount: e.target.value })}
+              />
+              <select className={inputClass} value={deliverPayment.method} onChange={(e) => setDeliverPayment({ ...deliverPayment, method: e.target.value })}>
+                {PAYMENT_METHODS.map((method) => (
+                  <option key={method} value={method}>{method.replace('_', ' ')}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => setDelivering(null)}>Close</button>
+              <button className="rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={deliver}>Deliver &amp; Invoice</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
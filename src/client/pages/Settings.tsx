@@ -1,10 +1,14 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   DEFAULT_GENERAL_SETTINGS,
+  GENERAL_SETTINGS_KEY,
   GeneralSettings,
+  fetchGeneralSettings,
   getGeneralSettings,
+  previewInvoiceNumber,
   resetGeneralSettings,
   saveGeneralSettings,
+  savePrintingSettings,
 } from '../utils/generalSettings';
 import { printInvoice } from '../utils/invoicePrint';
 import { apiUrl, fetchApiJson } from '../utils/api';
@@ -22,6 +26,8 @@ interface BackupRestoreHistoryItem {
 export const Settings: React.FC = () => {
   const [settings, setSettings] = useState<GeneralSettings>(() => getGeneralSettings());
   const [savedMessage, setSavedMessage] = useState('');
+  const [settingsError, setSettingsError] = useState('');
+  const [settingsNotice, setSettingsNotice] = useState('');
   const [currentUserRole, setCurrentUserRole] = useState('');
   const [backupInProgress, setBackupInProgress] = useState(false);
   const [restoreInProgress, setRestoreInProgress] = useState(false);
@@ -51,6 +57,22 @@ export const Settings: React.FC = () => {
     void loadCurrentUserRole();
   }, []);
 
+  useEffect(() => {
+    const loadSharedSettings = async () => {
+      try {
+        const hadLocalCopy = Boolean(localStorage.getItem(GENERAL_SETTINGS_KEY));
+        const { settings: loaded, configured } = await fetchGeneralSettings();
+        setSettings(loaded);
+        if (!configured && hadLocalCopy) {
+          setSettingsNotice('These settings are saved on this terminal only. Save them once to share them with every terminal.');
+        }
+      } catch (error: any) {
+        setSettingsError(error?.message || 'Failed to load settings from the server; showing this terminal\'s copy.');
+      }
+    };
+    void loadSharedSettings();
+  }, []);
+
   const updateBusiness = (field: keyof GeneralSettings['business'], value: string) => {
     setSettings((prev) => ({ ...prev, business: { ...prev.business, [field]: value } }));
   };
@@ -76,35 +98,25 @@ export const Settings: React.FC = () => {
     setSettings((prev) => ({ ...prev, printing: { ...prev.printing, [field]: value } }));
   };
 
-  const saveSettings = async () => {
-    const before = getGeneralSettings();
-    saveGeneralSettings(settings);
-    window.dispatchEvent(new Event('sarva-settings-updated'));
+  const isSuperAdmin = currentUserRole === 'super_admin';
+  const canEditShared = isSuperAdmin || currentUserRole === 'admin';
 
-    const token = localStorage.getItem('token');
-    if (token) {
-      try {
-        await fetchApiJson(apiUrl('/api/settings/audit-change'), {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            before,
-            after: settings,
-          }),
-        });
-      } catch (error) {
-        console.error('Failed to submit settings audit log:', error);
-      }
+  const saveSettings = async () => {
+    setSettingsError('');
+    try {
+      // Only admins change what every terminal prints; anyone may set this terminal's printer profile.
+      const saved = canEditShared ? await saveGeneralSettings(settings) : savePrintingSettings(settings.printing);
+      setSettings(saved);
+      setSettingsNotice('');
+    } catch (error: any) {
+      setSettingsError(error?.message || 'Failed to save settings');
+      return;
     }
 
-    setSavedMessage('Settings saved successfully.');
+    setSavedMessage(canEditShared ? 'Settings saved for all terminals.' : 'Printing preferences saved for this terminal.');
     setTimeout(() => setSavedMessage(''), 2400);
   };
 
-  const isSuperAdmin = currentUserRole === 'super_admin';
 
   const loadBackupRestoreHistory = async () => {
     if (!isSuperAdmin) {
@@ -247,18 +259,19 @@ export const Settings: React.FC = () => {
     }
   };
 
-  const resetSettings = () => {
-    const defaults = resetGeneralSettings();
-    setSettings(defaults);
-    window.dispatchEvent(new Event('sarva-settings-updated'));
+  const resetSettings = async () => {
+    setSettingsError('');
+    try {
+      setSettings(await resetGeneralSettings());
+    } catch (error: any) {
+      setSettingsError(error?.message || 'Failed to reset settings');
+      return;
+    }
     setSavedMessage('Settings reset to default values.');
     setTimeout(() => setSavedMessage(''), 2400);
   };
 
-  const nextInvoicePreview = useMemo(() => {
-    const number = String(settings.invoice.nextNumber).padStart(6, '0');
-    return `${settings.invoice.prefix}${number}`;
-  }, [settings.invoice.nextNumber, settings.invoice.prefix]);
+  const nextInvoicePreview = useMemo(() => previewInvoiceNumber(settings.invoice), [settings.invoice]);
 
   const handleLogoSelect = (
     event: React.ChangeEvent<HTMLInputElement>,
@@ -372,7 +385,8 @@ export const Settings: React.FC = () => {
           <button
             type="button"
             onClick={resetSettings}
-            className="rounded-md bg-red-500/20 px-3 py-2 text-sm font-semibold text-red-200 hover:bg-red-500/30"
+            disabled={!canEditShared}
+            className="rounded-md bg-red-500/20 px-3 py-2 text-sm font-semibold text-red-200 hover:bg-red-500/30 disabled:opacity-50"
           >
             Reset Defaults
           </button>
@@ -391,6 +405,15 @@ export const Settings: React.FC = () => {
           {savedMessage}
         </div>
       )}
+      {settingsError && (
+        <div className="rounded-md border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{settingsError}</div>
+      )}
+      {settingsNotice && (
+        <div className="rounded-md border border-amber-400/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">{settingsNotice}</div>
+      )}
+      {currentUserRole && !canEditShared && (
+        <p className="text-sm text-gray-400">Business and invoice settings are shared by every terminal and can only be changed by an admin. Printing preferences are saved for this terminal.</p>
+      )}
 
       <section className={sectionCard}>
         <h2 className="mb-4 text-lg font-semibold text-white">Business Details</h2>
@@ -525,7 +548,8 @@ export const Settings: React.FC = () => {
         </label>
 
         <p className="mt-3 text-xs text-gray-400">
-          Printing uses your system print dialog, so it supports all installed printers and drivers.
+          Printing uses your system print dialog, so it supports all installed printers and drivers. These preferences are kept
+          on this terminal, since each terminal may have a different printer.
         </p>
       </section>
 
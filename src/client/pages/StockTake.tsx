@@ -0,0 +1,281 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatCurrency } from '../config';
+import { useCategories } from '../hooks/useCategories';
+import { apiUrl, fetchApiJson } from '../utils/api';
+
+interface LocationOption {
+  _id: string;
+  name: string;
+}
+
+interface StockTakeLine {
+  productId: string;
+  productName: string;
+  sku?: string;
+  category?: string;
+  batchNo?: string;
+  systemQuantity: number;
+  countedQuantity?: number;
+  varianceQuantity: number;
+  unitCost: number;
+  varianceValue: number;
+}
+
+interface StockTakeSession {
+  _id: string;
+  sessionNumber: string;
+  name?: string;
+  status: 'counting' | 'submitted' | 'approving' | 'approved' | 'cancelled';
+  locationName?: string;
+  categories: string[];
+  snapshotAt: string;
+  items?: StockTakeLine[];
+  totalShortageValue: number;
+  totalExcessValue: number;
+  netVarianceValue: number;
+  voucherNumber?: string;
+}
+
+const lineKey = (line: { productId: string; batchNo?: string }) => `${line.productId}::${line.batchNo || ''}`;
+
+export const StockTake: React.FC = () => {
+  const { categories } = useCategories();
+  const [sessions, setSessions] = useState<StockTakeSession[]>([]);
+  const [locations, setLocations] = useState<LocationOption[]>([]);
+  const [active, setActive] = useState<StockTakeSession | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [form, setForm] = useState({ name: '', locationId: '', categories: [] as string[] });
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      const [sessionData, locationData] = await Promise.all([
+        fetchApiJson(apiUrl('/api/stock-takes?limit=50'), { headers }),
+        fetchApiJson(apiUrl('/api/locations?isActive=true'), { headers }),
+      ]);
+      setSessions(sessionData.data || []);
+      setLocations(locationData.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load stock-take sessions');
+    }
+  };
+
+  const openSession = async (id: string) => {
+    try {
+      const data = await fetchApiJson(apiUrl(`/api/stock-takes/${id}`), { headers });
+      setActive(data.data);
+      setCounts({});
+    } catch (e: any) {
+      setError(e.message || 'Failed to load stock-take session');
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const run = async (action: () => Promise<any>, successMessage: string) => {
+    setError('');
+    setMessage('');
+    try {
+      await action();
+      setMessage(successMessage);
+      await loadSessions();
+    } catch (e: any) {
+      setError(e.message || 'Request failed');
+    }
+  };
+
+  const startSession = () =>
+    run(async () => {
+      const data = await fetchApiJson(apiUrl('/api/stock-takes'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...form, locationId: form.locationId || undefined }),
+      });
+      setForm({ name: '', locationId: '', categories: [] });
+      setActive(data.data);
+    }, 'Stock-take started. System quantities are frozen.');
+
+  const saveCounts = () =>
+    run(async () => {
+      if (!active) return;
+      const rows = Object.entries(counts).map(([key, quantity]) => {
+        const [productId, batchNo] = key.split('::');
+        return { productId, batchNo, quantity };
+      });
+      const data = await fetchApiJson(apiUrl(`/api/stock-takes/${active._id}/counts`), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ counts: rows }),
+      });
+      setActive(data.data);
+      setCounts({});
+    }, 'Counts saved');
+
+  const sessionAction = (action: 'submit' | 'reopen' | 'approve' | 'cancel', successMessage: string) =>
+    run(async () => {
+      if (!active) return;
+      const data = await fetchApiJson(apiUrl(`/api/stock-takes/${active._id}/${action}`), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({}),
+      });
+      setActive(data.data);
+    }, successMessage);
+
+  const visibleLines = (active?.items || []).filter((line) => !categoryFilter || line.category === categoryFilter);
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-bold text-white sm:text-3xl">Stock Take</h1>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-5">
+          <h2 className="text-lg font-semibold text-white">New Session</h2>
+          <input className={inputClass} placeholder="Session name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          <select className={inputClass} value={form.locationId} onChange={(e) => setForm({ ...form, locationId: e.target.value })}>
+            <option value="">Default Location</option>
+            {locations.map((location) => (
+              <option key={location._id} value={location._id}>{location.name}</option>
+            ))}
+          </select>
+          <select
+            multiple
+            className={`${inputClass} h-28`}
+            value={form.categories}
+            onChange={(e) => setForm({ ...form, categories: Array.from(e.target.selectedOptions).map((option) => option.value) })}
+          >
+            {categories.map((category) => (
+              <option key={category._id} value={category.name}>{category.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400">Leave categories empty to count the full catalog.</p>
+          <button className="w-full rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={startSession}>
+            Freeze Snapshot &amp; Start
+          </button>
+        </div>
+
+        <div className="rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-white">Sessions</h2>
+          <table className="mt-3 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Session', 'Location', 'Status', 'Shortage', 'Excess', ''].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {sessions.map((session) => (
+                <tr key={session._id}>
+                  <td className="px-2 py-2 text-sm text-white">{session.sessionNumber}{session.name ? ` - ${session.name}` : ''}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{session.locationName}</td>
+                  <td className="px-2 py-2 text-sm uppercase text-gray-300">{session.status}</td>
+                  <td className="px-2 py-2 text-sm text-red-300">{formatCurrency(session.totalShortageValue || 0)}</td>
+                  <td className="px-2 py-2 text-sm text-emerald-300">{formatCurrency(session.totalExcessValue || 0)}</td>
+                  <td className="px-2 py-2 text-sm">
+                    <button className="rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20" onClick={() => openSession(session._id)}>
+                      Open
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {sessions.length === 0 && (
+                <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No stock-take sessions yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {active && (
+        <div className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-5">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-white">{active.sessionNumber} ({active.status})</h2>
+              <p className="text-xs text-gray-400">
+                Snapshot {new Date(active.snapshotAt).toLocaleString('en-IN')} at {active.locationName} | Net variance {formatCurrency(active.netVarianceValue || 0)}
+                {active.voucherNumber ? ` | Journal ${active.voucherNumber}` : ''}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <select className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white" value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)}>
+                <option value="">All Categories</option>
+                {Array.from(new Set((active.items || []).map((line) => line.category).filter(Boolean))).map((category) => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+              {active.status === 'counting' && (
+                <>
+                  <button className="rounded-md bg-indigo-500 px-3 py-1.5 text-sm font-semibold text-white hover:bg-indigo-400" onClick={saveCounts}>Save Counts</button>
+                  <button className="rounded-md bg-amber-500 px-3 py-1.5 text-sm font-semibold text-white hover:bg-amber-400" onClick={() => sessionAction('submit', 'Submitted for approval')}>Submit</button>
+                </>
+              )}
+              {active.status === 'submitted' && (
+                <>
+                  <button className="rounded-md bg-emerald-500 px-3 py-1.5 text-sm font-semibold text-white hover:bg-emerald-400" onClick={() => sessionAction('approve', 'Variances posted')}>Approve &amp; Post</button>
+                  <button className="rounded-md bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/20" onClick={() => sessionAction('reopen', 'Session reopened')}>Reopen</button>
+                </>
+              )}
+              {['counting', 'submitted'].includes(active.status) && (
+                <button className="rounded-md bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/20" onClick={() => sessionAction('cancel', 'Session cancelled')}>Cancel</button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead>
+                <tr>
+                  {['Product', 'Category', 'Batch', 'System', 'Counted', 'Variance', 'Value'].map((h) => (
+                    <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {visibleLines.map((line) => (
+                  <tr key={lineKey(line)}>
+                    <td className="px-2 py-2 text-sm text-white">{line.productName} <span className="text-xs text-gray-400">{line.sku}</span></td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{line.category || '-'}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{line.batchNo || '-'}</td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{line.systemQuantity}</td>
+                    <td className="px-2 py-2 text-sm">
+                      {active.status === 'counting' ? (
+                        <input
+                          type="number"
+                          min="0"
+                          className="w-24 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white"
+                          placeholder={line.countedQuantity !== undefined ? String(line.countedQuantity) : ''}
+                          value={counts[lineKey(line)] ?? ''}
+                          onChange={(e) => setCounts({ ...counts, [lineKey(line)]: e.target.value })}
+                        />
+                      ) : (
+                        <span className="text-gray-300">{line.countedQuantity ?? '-'}</span>
+                      )}
+                    </td>
+                    <td className={`px-2 py-2 text-sm ${line.varianceQuantity < 0 ? 'text-red-300' : line.varianceQuantity > 0 ? 'text-emerald-300' : 'text-gray-300'}`}>
+                      {line.varianceQuantity}
+                    </td>
+                    <td className="px-2 py-2 text-sm text-gray-300">{formatCurrency(line.varianceValue || 0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { apiUrl, fetchApiJson } from '../utils/api';
+
+type SupplyType = 'taxable' | 'nil_rated' | 'exempt' | 'non_gst';
+
+interface TaxComponent {
+  type: 'cgst' | 'sgst' | 'igst' | 'cess' | 'tcs';
+  rate: number;
+  perUnitAmount?: number;
+}
+
+interface TaxGroupRow {
+  _id: string;
+  code: string;
+  name: string;
+  description?: string;
+  supplyType: SupplyType;
+  components: TaxComponent[];
+  isActive: boolean;
+  productCount: number;
+}
+
+interface ProductOption {
+  _id: string;
+  name: string;
+  sku: string;
+}
+
+const SUPPLY_LABELS: Record<SupplyType, string> = {
+  taxable: 'Taxable',
+  nil_rated: 'Nil rated (0%)',
+  exempt: 'Exempt',
+  non_gst: 'Non-GST',
+};
+
+const GST_RATES = [0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+const emptyForm = {
+  _id: '',
+  code: '',
+  name: '',
+  description: '',
+  supplyType: 'taxable' as SupplyType,
+  gstRate: '18',
+  cessRate: '',
+  cessPerUnit: '',
+  tcsRate: '',
+  isActive: true,
+};
+
+const rateOf = (row: TaxGroupRow, type: TaxComponent['type']) => row.components.find((c) => c.type === type);
+
+const describe = (row: TaxGroupRow) => {
+  const parts: string[] = [];
+  const igst = Number(rateOf(row, 'igst')?.rate || 0);
+  if (igst) parts.push(`GST ${igst}% (CGST ${igst / 2}% + SGST ${igst / 2}%)`);
+  const cess = rateOf(row, 'cess');
+  if (Number(cess?.rate || 0)) parts.push(`Cess ${cess?.rate}%`);
+  if (Number(cess?.perUnitAmount || 0)) parts.push(`Cess ${cess?.perUnitAmount}/unit`);
+  const tcs = Number(rateOf(row, 'tcs')?.rate || 0);
+  if (tcs) parts.push(`TCS ${tcs}%`);
+  return parts.join(' + ') || 'No tax';
+};
+
+export const TaxGroups: React.FC = () => {
+  const [rows, setRows] = useState<TaxGroupRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [mapping, setMapping] = useState({ taxGroupId: '', productIds: [] as string[], effectiveFrom: new Date().toISOString().slice(0, 10) });
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const headers = useMemo(() => {
+    const token = localStorage.getItem('token');
+    return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  }, []);
+
+  const load = async () => {
+    try {
+      const [groupData, productData] = await Promise.all([
+        fetchApiJson(apiUrl('/api/tax-groups'), { headers }),
+        fetchApiJson(apiUrl('/api/products?limit=500'), { headers }),
+      ]);
+      setRows(groupData.data || []);
+      setProducts(productData.data || []);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load tax groups');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const edit = (row: TaxGroupRow) => {
+    const cess = rateOf(row, 'cess');
+    setForm({
+      _id: row._id,
+      code: row.code,
+      name: row.name,
+      description: row.description || '',
+      supplyType: row.supplyType,
+      gstRate: String(rateOf(row, 'igst')?.rate || ''),
+      cessRate: String(cess?.rate || ''),
+      cessPerUnit: String(cess?.perUnitAmount || ''),
+      tcsRate: String(rateOf(row, 'tcs')?.rate || ''),
+      isActive: row.isActive,
+    });
+  };
+
+  const save = async () => {
+    setError('');
+    setMessage('');
+    try {
+      const taxable = form.supplyType === 'taxable';
+      // IGST alone is enough; the server adds the matching CGST and SGST halves.
+      const components = [
+        ...(taxable ? [{ type: 'igst', rate: Number(form.gstRate || 0) }] : []),
+        ...(taxable && (form.cessRate || form.cessPerUnit)
+          ? [{ type: 'cess', rate: Number(form.cessRate || 0), perUnitAmount: Number(form.cessPerUnit || 0) }]
+          : []),
+        ...(form.tcsRate ? [{ type: 'tcs', rate: Number(form.tcsRate) }] : []),
+      ];
+      const data = await fetchApiJson(apiUrl(form._id ? `/api/tax-groups/${form._id}` : '/api/tax-groups'), {
+        method: form._id ? 'PUT' : 'POST',
+        headers,
+        body: JSON.stringify({
+          code: form.code,
+          name: form.name,
+          description: form.description,
+          supplyType: form.supplyType,
+          components,
+          isActive: form.isActive,
+        }),
+      });
+      setMessage(data.message || 'Tax group saved');
+      setForm(emptyForm);
+      await load();
+    } catch (e: any) {
+      setError(e.message || 'Failed to save tax group');
+    }
+  };
+
+  const assign = async () => {
+    setError('');
+    setMessage('');
+    try {
+      const data = await fetchApiJson(apiUrl(`/api/tax-groups/${mapping.taxGroupId}/products`), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ productIds: mapping.productIds, effectiveFrom: mapping.effectiveFrom }),
+      });
+      setMessage(data.message || 'Products mapped');
+      setMapping({ ...mapping, productIds: [] });
+      await load();
+    } catch (e: any) {
+      setError(e.message || 'Failed to map products');
+    }
+  };
+
+  const inputClass = 'w-full rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-sm text-white';
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-5 px-4 py-8 sm:px-6 lg:px-8">
+      <div>
+        <h1 className="text-2xl font-bold text-white sm:text-3xl">Tax Master</h1>
+        <p className="text-sm text-gray-300">Tax groups with GST, cess and TCS. Products without a group keep billing at their own GST rate.</p>
+      </div>
+
+      {message && <div className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">{message}</div>}
+      {error && <div className="rounded border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>}
+
+      <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="space-y-4">
+          <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-5">
+            <h2 className="text-lg font-semibold text-white">{form._id ? 'Edit Tax Group' : 'New Tax Group'}</h2>
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} placeholder="Code (e.g. GST28C12)" value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} />
+              <select className={inputClass} value={form.supplyType} onChange={(e) => setForm({ ...form, supplyType: e.target.value as SupplyType })}>
+                {Object.entries(SUPPLY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <input className={inputClass} placeholder="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            <input className={inputClass} placeholder="Description (optional)" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            {form.supplyType === 'taxable' && (
+              <div className="grid grid-cols-3 gap-2">
+                <select className={inputClass} value={form.gstRate} onChange={(e) => setForm({ ...form, gstRate: e.target.value })}>
+                  {GST_RATES.map((rate) => (
+                    <option key={rate} value={String(rate)}>GST {rate}%</option>
+                  ))}
+                </select>
+                <input className={inputClass} type="number" min="0" max="100" placeholder="Cess %" value={form.cessRate} onChange={(e) => setForm({ ...form, cessRate: e.target.value })} />
+                <input className={inputClass} type="number" min="0" placeholder="Cess / unit" value={form.cessPerUnit} onChange={(e) => setForm({ ...form, cessPerUnit: e.target.value })} />
+              </div>
+            )}
+            <input className={inputClass} type="number" min="0" max="100" placeholder="TCS % (optional)" value={form.tcsRate} onChange={(e) => setForm({ ...form, tcsRate: e.target.value })} />
+            <p className="text-xs text-gray-400">
+              Per-unit cess is charged per base unit on top of any cess %. TCS is collected on the line value including GST and cess.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+              Active
+            </label>
+            <div className="flex gap-2">
+              <button className="flex-1 rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400" onClick={save}>
+                {form._id ? 'Update' : 'Create'}
+              </button>
+              {form._id && (
+                <button className="rounded-md bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/20" onClick={() => setForm(emptyForm)}>
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-5">
+            <h2 className="text-lg font-semibold text-white">Assign Products</h2>
+            <select className={inputClass} value={mapping.taxGroupId} onChange={(e) => setMapping({ ...mapping, taxGroupId: e.target.value })}>
+              <option value="">Select tax group</option>
+              {rows.filter((row) => row.isActive).map((row) => (
+                <option key={row._id} value={row._id}>{row.code} - {row.name}</option>
+              ))}
+            </select>
+            <select
+              multiple
+              className={`${inputClass} h-32`}
+              value={mapping.productIds}
+              onChange={(e) => setMapping({ ...mapping, productIds: Array.from(e.target.selectedOptions).map((option) => option.value) })}
+            >
+              {products.map((product) => (
+                <option key={product._id} value={product._id}>{product.name} ({product.sku})</option>
+              ))}
+            </select>
+            <label className="block text-xs text-gray-400">
+              Effective from
+              <input className={`${inputClass} mt-1`} type="date" value={mapping.effectiveFrom} onChange={(e) => setMapping({ ...mapping, effectiveFrom: e.target.value })} />
+            </label>
+            <p className="text-xs text-gray-400">Bills dated before this day keep the group the product had then.</p>
+            <button
+              className="w-full rounded-md bg-indigo-500 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-400 disabled:opacity-50"
+              disabled={!mapping.taxGroupId || !mapping.productIds.length}
+              onClick={assign}
+            >
+              Assign
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5 p-5 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-white">Tax Groups</h2>
+          <table className="mt-3 min-w-full divide-y divide-white/10">
+            <thead>
+              <tr>
+                {['Group', 'Supply', 'Components', 'Products', 'Status', ''].map((h) => (
+                  <th key={h} className="px-2 py-2 text-left text-xs font-semibold text-gray-300">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {rows.map((row) => (
+                <tr key={row._id}>
+                  <td className="px-2 py-2 text-sm text-white">
+                    {row.code}
+                    <div className="text-xs text-gray-400">{row.name}</div>
+                  </td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{SUPPLY_LABELS[row.supplyType]}</td>
+                  <td className="px-2 py-2 text-xs text-gray-300">{describe(row)}</td>
+                  <td className="px-2 py-2 text-sm text-gray-300">{row.productCount}</td>
+                  <td className="px-2 py-2 text-sm">
+                    <span className={row.isActive ? 'text-emerald-300' : 'text-gray-500'}>{row.isActive ? 'Active' : 'Inactive'}</span>
+                  </td>
+                  <td className="px-2 py-2 text-sm">
+                    <button className="rounded-md bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/20" onClick={() => edit(row)}>Edit</button>
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr><td colSpan={6} className="px-2 py-3 text-center text-sm text-gray-400">No tax groups yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
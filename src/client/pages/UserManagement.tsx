@@ -10,9 +10,15 @@ interface ManagedUser {
   phoneNumber?: string;
   role: string;
   businessName?: string;
+  assignedLocationId?: string;
   isActive: boolean;
 }
 
+interface StockLocationOption {
+  _id: string;
+  name: string;
+}
+
 interface ManagedRole {
   role: string;
   isSystemRole: boolean;
@@ -31,6 +37,7 @@ export const UserManagement: React.FC<{ onReloadMe: () => Promise<void> }> = ({
   const [users, setUsers] = useState<ManagedUser[]>([]);
   const [roles, setRoles] = useState<ManagedRole[]>([]);
   const [pages, setPages] = useState<ManagedPage[]>([]);
+  const [locations, setLocations] = useState<StockLocationOption[]>([]);
   const [roleDrafts, setRoleDrafts] = useState<Record<string, PermissionMatrix>>({});
   const [editingUserId, setEditingUserId] = useState('');
   const [newRoleName, setNewRoleName] = useState('');
@@ -44,6 +51,7 @@ export const UserManagement: React.FC<{ onReloadMe: () => Promise<void> }> = ({
     lastName: '',
     phoneNumber: '',
     businessName: '',
+    assignedLocationId: '',
     role: 'receptionist',
     isActive: true,
   });
@@ -74,6 +82,11 @@ export const UserManagement: React.FC<{ onReloadMe: () => Promise<void> }> = ({
       setRoles(nextRoles);
       setPages(nextPages);
 
+      // Location list needs inventory access; the selector is simply hidden without it.
+      fetchApiJson(apiUrl('/api/locations?isActive=true'), { headers })
+        .then((resp) => setLocations(resp.data || []))
+        .catch(() => setLocations([]));
+
       setRoleDrafts(
         nextRoles.reduce(
           (acc, item) => {
@@ -109,6 +122,7 @@ export const UserManagement: React.FC<{ onReloadMe: () => Promise<void> }> = ({
       lastName: '',
       phoneNumber: '',
       businessName: '',
+      assignedLocationId: '',
       role: roles[0]?.role || 'receptionist',
       isActive: true,
     });
@@ -124,6 +138,7 @@ export const UserManagement: React.FC<{ onReloadMe: () => Promise<void> }> = ({
         lastName: form.lastName,
         phoneNumber: form.phoneNumber,
         businessName: form.businessName,
+        assignedLocationId: form.assignedLocationId || null,
         role: form.role,
         isActive: form.isActive,
         ...(form.password ? { password: form.password } : {}),
@@ -167,6 +182,7 @@ export const UserManagement: React.FC<{ onReloadMe: () => Promise<void> }> = ({
       lastName: user.lastName || '',
       phoneNumber: user.phoneNumber || '',
       businessName: user.businessName || '',
+      assignedLocationId: user.assignedLocationId || '',
       role: user.role || roles[0]?.role || 'receptionist',
       isActive: Boolean(user.isActive),
     });
@@ -281,6 +297,15 @@ export const UserManagement: React.FC<{ onReloadMe: () => Promise<void> }> = ({
             ))}
           </select>
 
+          {locations.length > 0 && (
+            <select className={inputClass} value={form.assignedLocationId} onChange={(e) => setForm({ ...form, assignedLocationId: e.target.value })}>
+              <option value="">Default Location</option>
+              {locations.map((location) => (
+                <option key={location._id} value={location._id}>{location.name}</option>
+              ))}
+            </select>
+          )}
+
           <label className="flex items-center gap-2 text-sm text-gray-300">
             <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
             Active
@@ -70,3 +70,9 @@ export const fetchApiJson = async (input: RequestInfo | URL, init?: RequestInit)
   const response = await fetch(input, init);
   return parseApiResponse(response);
 };
+
+// One key per logical submission; resending the same key lets the server replay the first result.
+export const newIdempotencyKey = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
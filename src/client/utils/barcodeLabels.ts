@@ -0,0 +1,180 @@
+import { formatCurrency } from '../config';
+
+export type LabelLayout = 'a4' | 'thermal';
+
+export interface LabelItem {
+  name: string;
+  sku: string;
+  barcode?: string;
+  price: number;
+  copies: number;
+}
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Bar/space widths for Code 128 symbol values 0-106 (106 is the stop pattern).
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+
+const eanCheckDigit = (digits: string): number => {
+  const sum = digits.split('').reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+const isEan13 = (code: string) => /^\d{13}$/.test(code) && eanCheckDigit(code.slice(0, 12)) === Number(code[12]);
+
+// UPC-A is EAN-13 with a leading zero.
+const asEan13 = (code: string): string | null => {
+  if (isEan13(code)) return code;
+  if (/^\d{12}$/.test(code) && isEan13(`0${code}`)) return `0${code}`;
+  return null;
+};
+
+const ean13Modules = (code: string): string => {
+  const parity = EAN_PARITY[Number(code[0])];
+  const left = code
+    .slice(1, 7)
+    .split('')
+    .map((digit, index) => (parity[index] === 'L' ? EAN_L : EAN_G)[Number(digit)])
+    .join('');
+  const right = code
+    .slice(7)
+    .split('')
+    .map((digit) => EAN_R[Number(digit)])
+    .join('');
+  return `101${left}01010${right}101`;
+};
+
+// Code 128 set B covers printable ASCII, which is enough for SKUs and internal codes.
+const code128Modules = (text: string): string => {
+  const values = text
+    .split('')
+    .map((char) => char.charCodeAt(0) - 32)
+    .filter((value) => value >= 0 && value < 95);
+  const checksum = values.reduce((acc, value, index) => acc + value * (index + 1), CODE128_START_B) % 103;
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .map((value) =>
+      CODE128_WIDTHS[value]
+        .split('')
+        .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+        .join('')
+    )
+    .join('');
+};
+
+/** Renders a barcode as inline SVG: EAN-13/UPC-A when the code is a valid retail number, otherwise Code 128. */
+export const renderBarcodeSvg = (code: string, options: { height?: number; moduleWidth?: number } = {}): string => {
+  const height = options.height ?? 40;
+  const moduleWidth = options.moduleWidth ?? 1;
+  const ean = asEan13(code);
+  const modules = ean ? ean13Modules(ean) : code128Modules(code);
+  const quietZone = 10;
+  const width = (modules.length + quietZone * 2) * moduleWidth;
+
+  const bars: string[] = [];
+  let index = 0;
+  while (index < modules.length) {
+    if (modules[index] !== '1') {
+      index += 1;
+      continue;
+    }
+    let run = 1;
+    while (modules[index + run] === '1') run += 1;
+    bars.push(`<rect x="${(index + quietZone) * moduleWidth}" y="0" width="${run * moduleWidth}" height="${height}"/>`);
+    index += run;
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height + 12}" preserveAspectRatio="none">`
+    + `<rect width="100%" height="100%" fill="#fff"/><g fill="#000">${bars.join('')}</g>`
+    + `<text x="${width / 2}" y="${height + 10}" font-family="monospace" font-size="10" text-anchor="middle">${escapeHtml(ean || code)}</text>`
+    + '</svg>';
+};
+
+const layoutStyles = (layout: LabelLayout) => {
+  if (layout === 'thermal') {
+    return `
+    @page { size: 50mm 25mm; margin: 0; }
+    .sheet { display: block; }
+    .label { width: 50mm; height: 25mm; padding: 1.5mm 2mm; page-break-after: always; }`;
+  }
+
+  return `
+    @page { size: A4; margin: 10mm 7mm; }
+    .sheet { display: grid; grid-template-columns: repeat(3, 1fr); grid-auto-rows: 34mm; gap: 0 2mm; }
+    .label { padding: 2mm 3mm; border: 1px dashed #ccc; page-break-inside: avoid; }`;
+};
+
+export const buildLabelSheetHtml = (items: LabelItem[], layout: LabelLayout): string => {
+  const labels = items
+    .flatMap((item) => Array.from({ length: Math.max(0, Math.floor(item.copies)) }, () => item))
+    .map((item) => `
+      <div class="label">
+        <div class="name">${escapeHtml(item.name)}</div>
+        <div class="code">${renderBarcodeSvg(item.barcode || item.sku)}</div>
+        <div class="price">${formatCurrency(item.price || 0)}</div>
+      </div>`)
+    .join('');
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Barcode Labels</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: Arial, sans-serif; color: #000; }
+    .label { display: flex; flex-direction: column; justify-content: space-between; overflow: hidden; }
+    .name { font-size: 9px; font-weight: bold; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .code { flex: 1; min-height: 0; }
+    .code svg { width: 100%; height: 100%; }
+    .price { font-size: 10px; font-weight: bold; text-align: right; }
+    ${layoutStyles(layout)}
+  </style>
+</head>
+<body>
+  <div class="sheet">${labels}</div>
+</body>
+</html>`;
+};
+
+export const printLabelSheet = (items: LabelItem[], layout: LabelLayout): boolean => {
+  const printWindow = window.open('', '_blank', 'width=900,height=700');
+  if (!printWindow) {
+    return false;
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(buildLabelSheetHtml(items, layout));
+  printWindow.document.close();
+
+  setTimeout(() => {
+    printWindow.focus();
+    printWindow.print();
+  }, 250);
+
+  return true;
+};
@@ -0,0 +1,42 @@
+import { apiUrl } from './api';
+import { getGeneralSettings, PrintProfile } from './generalSettings';
+
+export type PrintDocumentType = 'invoice' | 'receipt' | 'credit_note' | 'booking_receipt' | 'voucher';
+
+/**
+ * Fetches the server-rendered PDF of a document and opens it in a new tab. The tab is opened before the request
+ * so popup blockers treat it as part of the click. Paper defaults to the terminal's print profile.
+ */
+export const openDocumentPdf = async (
+  documentType: PrintDocumentType,
+  id: string,
+  paper: PrintProfile = getGeneralSettings().printing.profile
+): Promise<void> => {
+  const popup = window.open('', '_blank');
+  try {
+    const token = localStorage.getItem('token');
+    const response = await fetch(apiUrl(`/api/documents/${documentType}/${id}/pdf?paper=${paper}`), {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        message = JSON.parse(text).error || text;
+      } catch {
+        // plain-text error body
+      }
+      throw new Error(message || 'Failed to render PDF');
+    }
+    const url = URL.createObjectURL(await response.blob());
+    if (popup) {
+      popup.location.href = url;
+    } else {
+      window.open(url, '_blank');
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  } catch (error) {
+    popup?.close();
+    throw error;
+  }
+};
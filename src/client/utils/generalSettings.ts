@@ -1,3 +1,5 @@
+import { apiUrl, fetchApiJson } from './api';
+
 export type PrintProfile = 'a4' | 'thermal80' | 'thermal58';
 
 export interface BusinessSettings {
@@ -44,6 +46,8 @@ export interface GeneralSettings {
   printing: PrintingSettings;
 }
 
+// Business and invoice settings live on the server; this is the terminal's copy of them, plus its own printing
+// preferences, so printing keeps working offline.
 export const GENERAL_SETTINGS_KEY = 'pos_general_settings_v1';
 
 export const DEFAULT_GENERAL_SETTINGS: GeneralSettings = {
@@ -112,38 +116,65 @@ export const getGeneralSettings = (): GeneralSettings => {
   };
 };
 
-export const saveGeneralSettings = (settings: GeneralSettings): void => {
+const authHeaders = () => {
+  const token = localStorage.getItem('token');
+  return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+};
+
+const cacheGeneralSettings = (settings: GeneralSettings): GeneralSettings => {
   localStorage.setItem(GENERAL_SETTINGS_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event('sarva-settings-updated'));
+  return settings;
 };
 
-export const resetGeneralSettings = (): GeneralSettings => {
-  localStorage.setItem(GENERAL_SETTINGS_KEY, JSON.stringify(DEFAULT_GENERAL_SETTINGS));
-  return { ...DEFAULT_GENERAL_SETTINGS };
+const fromServer = (data: any, printing: PrintingSettings): GeneralSettings => ({
+  business: { ...DEFAULT_GENERAL_SETTINGS.business, ...(data?.business || {}) },
+  invoice: { ...DEFAULT_GENERAL_SETTINGS.invoice, ...(data?.invoice || {}) },
+  printing,
+});
+
+/**
+ * Refreshes this terminal's copy from the server. `configured` is false until the settings have been saved
+ * once, when the terminal's own copy may still be the only one.
+ */
+export const fetchGeneralSettings = async (): Promise<{ settings: GeneralSettings; configured: boolean }> => {
+  const response = await fetchApiJson(apiUrl('/api/settings/general'), { headers: authHeaders() });
+  const configured = Boolean(response.data?.configured);
+  const local = getGeneralSettings();
+  if (!configured) {
+    const nextNumber = Number(response.data?.invoice?.nextNumber || 1);
+    return { settings: { ...local, invoice: { ...local.invoice, nextNumber } }, configured };
+  }
+  return { settings: cacheGeneralSettings(fromServer(response.data, local.printing)), configured };
 };
 
-export const formatCustomInvoiceNumber = (prefix: string, nextNumber: number): string => {
-  return `${prefix}${String(nextNumber).padStart(6, '0')}`;
+/** Saves business and invoice settings for every terminal; printing preferences stay with this one. */
+export const saveGeneralSettings = async (settings: GeneralSettings): Promise<GeneralSettings> => {
+  const response = await fetchApiJson(apiUrl('/api/settings/general'), {
+    method: 'PUT',
+    headers: authHeaders(),
+    body: JSON.stringify({ business: settings.business, invoice: settings.invoice }),
+  });
+  return cacheGeneralSettings(fromServer(response.data, settings.printing));
 };
 
-export const reserveInvoiceNumber = (
-  settings: GeneralSettings,
-  saleNumber?: string
-): { invoiceNumber: string; updatedSettings: GeneralSettings } => {
-  if (!settings.invoice.useCustomInvoiceNumber) {
-    return {
-      invoiceNumber: saleNumber || '-',
-      updatedSettings: settings,
-    };
-  }
+/** Printing preferences belong to the terminal and its printer, so they are only kept here. */
+export const savePrintingSettings = (printing: PrintingSettings): GeneralSettings =>
+  cacheGeneralSettings({ ...getGeneralSettings(), printing });
 
-  const invoiceNumber = formatCustomInvoiceNumber(settings.invoice.prefix, settings.invoice.nextNumber);
-  const updatedSettings: GeneralSettings = {
-    ...settings,
-    invoice: {
-      ...settings.invoice,
-      nextNumber: settings.invoice.nextNumber + 1,
-    },
-  };
+// Numbering is left where it is; resetting the layout must not reuse invoice numbers.
+export const resetGeneralSettings = async (): Promise<GeneralSettings> => {
+  const { nextNumber: _nextNumber, ...invoice } = DEFAULT_GENERAL_SETTINGS.invoice;
+  const response = await fetchApiJson(apiUrl('/api/settings/general'), {
+    method: 'PUT',
+    headers: authHeaders(),
+    body: JSON.stringify({ business: DEFAULT_GENERAL_SETTINGS.business, invoice }),
+  });
+  return cacheGeneralSettings(fromServer(response.data, DEFAULT_GENERAL_SETTINGS.printing));
+};
 
-  return { invoiceNumber, updatedSettings };
+/** How the server will number the next invoice, for display only. */
+export const previewInvoiceNumber = (invoice: InvoiceSettings): string => {
+  const prefix = invoice.useCustomInvoiceNumber && invoice.prefix ? invoice.prefix.toUpperCase() : 'INV-';
+  return `${prefix}${String(invoice.nextNumber).padStart(6, '0')}`;
 };
@@ -1,3 +1,4 @@
+import QRCode from 'qrcode';
 import { formatCurrency } from '../config';
 import { GeneralSettings, PrintProfile } from './generalSettings';
 
@@ -6,11 +7,14 @@ export interface InvoiceLineItem {
   sku?: string;
   hsnCode?: string;
   quantity: number;
+  unit?: string;
   unitPrice: number;
   gstRate?: number;
   gstAmount?: number;
   cgstAmount?: number;
   sgstAmount?: number;
+  igstAmount?: number;
+  cessAmount?: number;
   lineTotal?: number;
 }
 
@@ -19,17 +23,51 @@ export interface PrintableSale {
   invoiceNumber?: string;
   createdAt?: string;
   paymentMethod?: string;
+  payments?: Array<{ method: string; amount: number; tenderedAmount?: number; cardLast4?: string; upiRef?: string; reference?: string }>;
+  changeDue?: number;
   customerName?: string;
   customerPhone?: string;
   customerEmail?: string;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  placeOfSupplyCode?: string;
+  isInterstate?: boolean;
   notes?: string;
   subtotal: number;
-  totalGst: number;
+  totalGst: number; // includes cess
+  totalCess?: number;
+  tcsAmount?: number;
   totalAmount: number;
   discountAmount?: number;
   items: InvoiceLineItem[];
+  eInvoice?: { irn: string; ackNo: string; ackDate?: string; signedQrCode: string };
 }
 
+export interface PrintableQuotation extends Omit<PrintableSale, 'paymentMethod' | 'payments' | 'changeDue'> {
+  quotationNumber: string;
+  validUntil?: string;
+  terms?: string;
+}
+
+// Wording that differs between an invoice and the other documents printed from the same template.
+interface PrintDocumentLabels {
+  title?: string;
+  infoHeading: string;
+  numberLabel: string;
+  notesHeading: string;
+  footerLine: string;
+  showPayment: boolean;
+  extraInfo?: Array<[string, string]>;
+}
+
+const INVOICE_LABELS: PrintDocumentLabels = {
+  infoHeading: 'Invoice Info',
+  numberLabel: 'Invoice No',
+  notesHeading: 'Invoice Notes',
+  footerLine: 'This is a computer-generated invoice.',
+  showPayment: true,
+};
+
 const escapeHtml = (value: string): string =>
   value
     .replace(/&/g, '&amp;')
@@ -62,6 +100,20 @@ const profileStyles = (profile: PrintProfile) => {
   };
 };
 
+// The IRP's signed QR is a long JWT; drawn as inline SVG so the print window needs no image loading.
+const qrSvg = (text: string): string => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'L' });
+  const quiet = 2;
+  const size = modules.size + quiet * 2;
+  let path = '';
+  for (let row = 0; row < modules.size; row += 1) {
+    for (let col = 0; col < modules.size; col += 1) {
+      if (modules.get(row, col)) path += `M${col + quiet} ${row + quiet}h1v1h-1z`;
+    }
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" class="irn-qr" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
+
 const businessAddress = (settings: GeneralSettings) => {
   const b = settings.business;
   return [b.addressLine1, b.addressLine2, `${b.city} ${b.state} ${b.pincode}`.trim(), b.country]
@@ -69,10 +121,26 @@ const businessAddress = (settings: GeneralSettings) => {
     .join(', ');
 };
 
-export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings): string => {
+export const buildInvoiceHtml = (
+  sale: PrintableSale,
+  settings: GeneralSettings,
+  labels: PrintDocumentLabels = INVOICE_LABELS
+): string => {
   const css = profileStyles(settings.printing.profile);
   const invoiceDate = sale.createdAt ? new Date(sale.createdAt) : new Date();
   const invoiceNumber = sale.invoiceNumber || sale.saleNumber || '-';
+  const tenders = sale.payments || [];
+  const paymentLabel = tenders.length > 1 ? 'SPLIT' : (tenders[0]?.method || sale.paymentMethod || '-').toUpperCase();
+  const tenderRows = [
+    ...(tenders.length > 1 || Number(sale.changeDue || 0) > 0
+      ? tenders.map((tender) => {
+        const detail = tender.cardLast4 ? ` xx${tender.cardLast4}` : tender.upiRef ? ` ${tender.upiRef}` : '';
+        const paid = tender.tenderedAmount ?? tender.amount;
+        return `<tr><td>${escapeHtml(`${tender.method.replace('_', ' ').toUpperCase()}${detail}`)}</td><td class="num">${formatCurrency(paid || 0)}</td></tr>`;
+      })
+      : []),
+    ...(Number(sale.changeDue || 0) > 0 ? [`<tr><td>Change</td><td class="num">${formatCurrency(Number(sale.changeDue))}</td></tr>`] : []),
+  ].join('');
 
   const rows = sale.items
     .map((item, idx) => {
@@ -88,7 +156,7 @@ export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings)
           <td>${escapeHtml(item.productName)}</td>
           <td>${escapeHtml(item.sku || '-')}</td>
           ${hsnCol}
-          <td class="num">${item.quantity}</td>
+          <td class="num">${item.quantity}${item.unit ? ` ${escapeHtml(item.unit)}` : ''}</td>
           <td class="num">${formatCurrency(item.unitPrice)}</td>
           ${gstCol}
           <td class="num">${formatCurrency(lineTotal)}</td>
@@ -110,14 +178,44 @@ export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings)
         <p><strong>Name:</strong> ${escapeHtml(sale.customerName || '-')}</p>
         <p><strong>Phone:</strong> ${escapeHtml(sale.customerPhone || '-')}</p>
         <p><strong>Email:</strong> ${escapeHtml(sale.customerEmail || '-')}</p>
+        ${sale.customerGstin ? `<p><strong>GSTIN:</strong> ${escapeHtml(sale.customerGstin)}</p>` : ''}
+        ${sale.placeOfSupply ? `<p><strong>Place of Supply:</strong> ${escapeHtml(`${sale.placeOfSupplyCode || ''}-${sale.placeOfSupply}`)}</p>` : ''}
       </div>
     `
     : '';
 
+  const sumOf = (key: 'cgstAmount' | 'sgstAmount' | 'igstAmount') =>
+    sale.items.reduce((sum, item) => sum + Number(item[key] || 0), 0);
+  const taxRows = settings.invoice.showGstBreakup
+    ? sale.isInterstate
+      ? `<tr><td>IGST</td><td class="num">${formatCurrency(sumOf('igstAmount'))}</td></tr>`
+      : `<tr><td>CGST</td><td class="num">${formatCurrency(sumOf('cgstAmount'))}</td></tr>
+        <tr><td>SGST</td><td class="num">${formatCurrency(sumOf('sgstAmount'))}</td></tr>`
+    : '';
+  const cessRow = settings.invoice.showGstBreakup && Number(sale.totalCess || 0) > 0
+    ? `<tr><td>Cess</td><td class="num">${formatCurrency(Number(sale.totalCess))}</td></tr>`
+    : '';
+  const tcsRow = Number(sale.tcsAmount || 0) > 0
+    ? `<tr><td>TCS</td><td class="num">${formatCurrency(Number(sale.tcsAmount))}</td></tr>`
+    : '';
+
   const gstLine = settings.invoice.showBusinessGstin && settings.business.gstin
     ? `<p><strong>GSTIN:</strong> ${escapeHtml(settings.business.gstin)}</p>`
     : '';
 
+  const eInvoiceBlock = sale.eInvoice?.irn
+    ? `
+    <div class="irn">
+      <div>
+        <p><strong>IRN:</strong> <span class="irn-no">${escapeHtml(sale.eInvoice.irn)}</span></p>
+        <p><strong>Ack No:</strong> ${escapeHtml(String(sale.eInvoice.ackNo))}</p>
+        ${sale.eInvoice.ackDate ? `<p><strong>Ack Date:</strong> ${new Date(sale.eInvoice.ackDate).toLocaleString('en-IN')}</p>` : ''}
+      </div>
+      ${qrSvg(sale.eInvoice.signedQrCode)}
+    </div>
+  `
+    : '';
+
   const invoiceLogo = settings.business.invoiceLogoDataUrl
     ? `<img src="${settings.business.invoiceLogoDataUrl}" alt="Business Logo" class="logo-img" />`
     : '';
@@ -127,7 +225,7 @@ export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings)
 <html>
 <head>
   <meta charset="utf-8" />
-  <title>Invoice ${escapeHtml(invoiceNumber)}</title>
+  <title>${escapeHtml(labels.title || 'Invoice')} ${escapeHtml(invoiceNumber)}</title>
   <style>
     @page { size: ${css.page}; margin: 10mm; }
     * { box-sizing: border-box; }
@@ -151,6 +249,9 @@ export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings)
     .totals table td { border: 1px solid #666; }
     .foot { margin-top: 10px; border-top: 1px dashed #888; padding-top: 8px; }
     .center { text-align: center; }
+    .irn { display: flex; justify-content: space-between; align-items: center; gap: 12px; flex-wrap: wrap; border: 1px solid #aaa; padding: 8px; margin-bottom: 8px; }
+    .irn-no { word-break: break-all; }
+    .irn-qr { width: 130px; height: 130px; }
   </style>
 </head>
 <body>
@@ -159,7 +260,7 @@ export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings)
       <div class="brandline">
         ${invoiceLogo ? `<div class="logo-box">${invoiceLogo}</div>` : ''}
         <div>
-          <h1>${escapeHtml(settings.invoice.title)}</h1>
+          <h1>${escapeHtml(labels.title || settings.invoice.title)}</h1>
           <p>${escapeHtml(settings.invoice.subtitle)}</p>
           <h2>${escapeHtml(settings.business.tradeName || settings.business.legalName)}</h2>
           <p>${escapeHtml(settings.business.legalName)}</p>
@@ -169,17 +270,20 @@ export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings)
         </div>
       </div>
       <div>
-        <h3>Invoice Info</h3>
-        <p><strong>Invoice No:</strong> ${escapeHtml(invoiceNumber)}</p>
+        <h3>${escapeHtml(labels.infoHeading)}</h3>
+        <p><strong>${escapeHtml(labels.numberLabel)}:</strong> ${escapeHtml(invoiceNumber)}</p>
         <p><strong>Date:</strong> ${invoiceDate.toLocaleDateString('en-IN')} ${invoiceDate.toLocaleTimeString('en-IN')}</p>
-        <p><strong>Payment:</strong> ${escapeHtml((sale.paymentMethod || '-').toUpperCase())}</p>
+        ${labels.showPayment ? `<p><strong>Payment:</strong> ${escapeHtml(paymentLabel)}</p>` : ''}
+        ${(labels.extraInfo || []).map(([label, value]) => `<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`).join('')}
       </div>
     </div>
 
+    ${eInvoiceBlock}
+
     <div class="meta">
       ${customerBlock}
       <div class="meta-group">
-        <h4>Invoice Notes</h4>
+        <h4>${escapeHtml(labels.notesHeading)}</h4>
         <p>${escapeHtml(sale.notes || settings.invoice.terms || '-')}</p>
       </div>
     </div>
@@ -205,23 +309,48 @@ export const buildInvoiceHtml = (sale: PrintableSale, settings: GeneralSettings)
     <div class="totals">
       <table>
         <tr><td>Subtotal</td><td class="num">${formatCurrency(sale.subtotal || 0)}</td></tr>
-        <tr><td>Total GST</td><td class="num">${formatCurrency(sale.totalGst || 0)}</td></tr>
+        ${taxRows}
+        ${cessRow}
+        <tr><td>${Number(sale.totalCess || 0) > 0 ? 'Total GST + Cess' : 'Total GST'}</td><td class="num">${formatCurrency(sale.totalGst || 0)}</td></tr>
         <tr><td>Discount</td><td class="num">${formatCurrency(sale.discountAmount || 0)}</td></tr>
+        ${tcsRow}
         <tr><td><strong>Grand Total</strong></td><td class="num"><strong>${formatCurrency(sale.totalAmount || 0)}</strong></td></tr>
+        ${tenderRows}
       </table>
     </div>
 
     <div class="foot">
       <p>${escapeHtml(settings.invoice.footerNote)}</p>
-      <p class="center">This is a computer-generated invoice.</p>
+      <p class="center">${escapeHtml(labels.footerLine)}</p>
     </div>
   </div>
 </body>
 </html>`;
 };
 
-export const printInvoice = (sale: PrintableSale, settings: GeneralSettings): boolean => {
-  const invoiceHtml = buildInvoiceHtml(sale, settings);
+/** Quotations reuse the invoice layout with their own heading, validity date and terms in place of payment details. */
+export const buildQuotationHtml = (quotation: PrintableQuotation, settings: GeneralSettings): string =>
+  buildInvoiceHtml(
+    {
+      ...quotation,
+      invoiceNumber: quotation.quotationNumber,
+      notes: quotation.terms || quotation.notes,
+    },
+    settings,
+    {
+      title: 'Quotation',
+      infoHeading: 'Quotation Info',
+      numberLabel: 'Quotation No',
+      notesHeading: 'Terms & Conditions',
+      footerLine: 'This is a quotation, not a tax invoice. Prices and availability are confirmed at billing.',
+      showPayment: false,
+      extraInfo: quotation.validUntil
+        ? [['Valid Until', new Date(quotation.validUntil).toLocaleDateString('en-IN')]]
+        : [],
+    }
+  );
+
+const openPrintWindow = (html: string): boolean => {
   const printWindow = window.open('', '_blank', 'width=900,height=700');
 
   if (!printWindow) {
@@ -229,7 +358,7 @@ export const printInvoice = (sale: PrintableSale, settings: GeneralSettings): bo
   }
 
   printWindow.document.open();
-  printWindow.document.write(invoiceHtml);
+  printWindow.document.write(html);
   printWindow.document.close();
 
   setTimeout(() => {
@@ -239,3 +368,9 @@ export const printInvoice = (sale: PrintableSale, settings: GeneralSettings): bo
 
   return true;
 };
+
+export const printInvoice = (sale: PrintableSale, settings: GeneralSettings): boolean =>
+  openPrintWindow(buildInvoiceHtml(sale, settings));
+
+export const printQuotation = (quotation: PrintableQuotation, settings: GeneralSettings): boolean =>
+  openPrintWindow(buildQuotationHtml(quotation, settings));
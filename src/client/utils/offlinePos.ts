@@ -0,0 +1,217 @@
+import { apiUrl, newIdempotencyKey } from './api';
+
+export const OFFLINE_CATALOG_KEY = 'pos_offline_catalog_v1';
+export const OFFLINE_CUSTOMERS_KEY = 'pos_offline_customers_v1';
+export const OFFLINE_QUEUE_KEY = 'pos_offline_queue_v1';
+const OFFLINE_SEQUENCE_KEY = 'pos_offline_sequence_v1';
+const TERMINAL_ID_KEY = 'pos_terminal_id';
+
+// Synced entries are kept for a week so the cashier can still match provisional receipts to invoice numbers.
+const SYNCED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type OfflineSaleStatus = 'pending' | 'synced' | 'conflict' | 'failed';
+
+export interface OfflineConflict {
+  type: 'product' | 'stock' | 'price' | 'total';
+  productId?: string;
+  productName?: string;
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface OfflineSale {
+  offlineId: string;
+  provisionalNumber: string;
+  terminalId: string;
+  createdAt: string;
+  totalAmount: number;
+  customerName?: string;
+  payload: Record<string, any>;
+  status: OfflineSaleStatus;
+  attempts: number;
+  acceptConflicts?: boolean;
+  conflicts?: OfflineConflict[];
+  lastError?: string;
+  invoiceNumber?: string;
+  syncedAt?: string;
+}
+
+export interface CachedList<T> {
+  rows: T[];
+  cachedAt: string;
+}
+
+const safeParse = <T>(raw: string | null): T | null => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+// A full localStorage must not break billing; the cache simply stays at its previous snapshot.
+const safeStore = (key: string, value: unknown): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getTerminalId = (): string => {
+  const existing = localStorage.getItem(TERMINAL_ID_KEY);
+  if (existing) return existing;
+  const generated = `T-${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+  localStorage.setItem(TERMINAL_ID_KEY, generated);
+  return generated;
+};
+
+export const cacheCatalog = <T>(rows: T[]) => safeStore(OFFLINE_CATALOG_KEY, { rows, cachedAt: new Date().toISOString() });
+
+export const getCachedCatalog = <T>(): CachedList<T> | null => safeParse<CachedList<T>>(localStorage.getItem(OFFLINE_CATALOG_KEY));
+
+export const cacheCustomers = <T>(rows: T[]) => safeStore(OFFLINE_CUSTOMERS_KEY, { rows, cachedAt: new Date().toISOString() });
+
+export const getCachedCustomers = <T>(): CachedList<T> | null => safeParse<CachedList<T>>(localStorage.getItem(OFFLINE_CUSTOMERS_KEY));
+
+export const getOfflineQueue = (): OfflineSale[] => safeParse<OfflineSale[]>(localStorage.getItem(OFFLINE_QUEUE_KEY)) || [];
+
+const saveOfflineQueue = (queue: OfflineSale[]) => {
+  const cutoff = Date.now() - SYNCED_RETENTION_MS;
+  const kept = queue.filter((row) => row.status !== 'synced' || new Date(row.syncedAt || row.createdAt).getTime() > cutoff);
+  localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(kept));
+};
+
+const updateOfflineSale = (offlineId: string, patch: Partial<OfflineSale>) => {
+  saveOfflineQueue(getOfflineQueue().map((row) => (row.offlineId === offlineId ? { ...row, ...patch } : row)));
+};
+
+/** Provisional numbers carry the terminal id so receipts printed on two offline tills never collide. */
+export const nextProvisionalNumber = (terminalId: string): string => {
+  const next = Number(localStorage.getItem(OFFLINE_SEQUENCE_KEY) || 0) + 1;
+  localStorage.setItem(OFFLINE_SEQUENCE_KEY, String(next));
+  return `OFF-${terminalId}-${String(next).padStart(5, '0')}`;
+};
+
+/**
+ * Writes the sale to the queue before anything is printed. The queue is written without the quota guard on
+ * purpose: if the browser cannot store the sale, the cashier must be told rather than hand over a receipt.
+ */
+export const enqueueOfflineSale = (
+  payload: Record<string, any>,
+  summary: { totalAmount: number; customerName?: string },
+  offlineId: string = newIdempotencyKey()
+): OfflineSale => {
+  const terminalId = getTerminalId();
+  const entry: OfflineSale = {
+    offlineId,
+    provisionalNumber: nextProvisionalNumber(terminalId),
+    terminalId,
+    createdAt: new Date().toISOString(),
+    totalAmount: summary.totalAmount,
+    customerName: summary.customerName,
+    payload,
+    status: 'pending',
+    attempts: 0,
+  };
+  localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify([...getOfflineQueue(), entry]));
+  return entry;
+};
+
+/** Manager decision on a conflict report: post it anyway on the next sync, or drop it from the queue. */
+export const resolveOfflineConflict = (offlineId: string, action: 'accept' | 'discard') => {
+  if (action === 'discard') {
+    saveOfflineQueue(getOfflineQueue().filter((row) => row.offlineId !== offlineId));
+    return;
+  }
+  updateOfflineSale(offlineId, { status: 'pending', acceptConflicts: true, lastError: undefined });
+};
+
+// fetch rejects with a TypeError only when the request never reached a server.
+export const isNetworkError = (error: unknown): boolean => error instanceof TypeError;
+
+export interface OfflineSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  offline: boolean;
+}
+
+let syncInFlight: Promise<OfflineSyncResult> | null = null;
+
+/**
+ * Replays queued sales in billing order. The server deduplicates on offlineId, so a sale whose response was
+ * lost is simply reported as synced on the next attempt. A network failure stops the run and keeps the rest pending.
+ */
+export const syncOfflineQueue = (token: string | null): Promise<OfflineSyncResult> => {
+  if (syncInFlight) return syncInFlight;
+  syncInFlight = (async () => {
+    const result: OfflineSyncResult = { synced: 0, conflicts: 0, failed: 0, offline: false };
+    const pending = getOfflineQueue().filter((row) => row.status === 'pending' || row.status === 'failed');
+    for (const entry of pending) {
+      let response: Response;
+      try {
+        response = await fetch(apiUrl('/api/sales'), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+            'Idempotency-Key': `offline-${entry.offlineId}-${entry.acceptConflicts ? 'accepted' : 'initial'}`,
+          },
+          body: JSON.stringify({
+            ...entry.payload,
+            offline: {
+              offlineId: entry.offlineId,
+              provisionalNumber: entry.provisionalNumber,
+              terminalId: entry.terminalId,
+              createdAt: entry.createdAt,
+              clientTotal: entry.totalAmount,
+              acceptConflicts: Boolean(entry.acceptConflicts),
+            },
+          }),
+        });
+      } catch (error) {
+        if (isNetworkError(error)) {
+          result.offline = true;
+          break;
+        }
+        throw error;
+      }
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok && data.success) {
+        updateOfflineSale(entry.offlineId, {
+          status: 'synced',
+          attempts: entry.attempts + 1,
+          invoiceNumber: data.data?.invoiceNumber || data.data?.saleNumber,
+          syncedAt: new Date().toISOString(),
+          conflicts: undefined,
+          lastError: undefined,
+        });
+        result.synced += 1;
+      } else if (response.status === 409 && Array.isArray(data.data?.conflicts)) {
+        updateOfflineSale(entry.offlineId, {
+          status: 'conflict',
+          attempts: entry.attempts + 1,
+          conflicts: data.data.conflicts,
+          lastError: data.error,
+        });
+        result.conflicts += 1;
+      } else {
+        updateOfflineSale(entry.offlineId, {
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          lastError: data.error || `Sync failed with status ${response.status}`,
+        });
+        result.failed += 1;
+      }
+    }
+    return result;
+  })().finally(() => {
+    syncInFlight = null;
+  });
+  return syncInFlight;
+};
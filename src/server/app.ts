@@ -26,12 +26,28 @@ import creditNoteRoutes from './routes/creditNotes.js';
 import reportsRoutes from './routes/reports.js';
 import settlementRoutes from './routes/settlements.js';
 import settingsRoutes from './routes/settings.js';
+import purchaseRoutes from './routes/purchases.js';
+import locationRoutes from './routes/locations.js';
+import stockTakeRoutes from './routes/stockTakes.js';
+import catalogRoutes from './routes/catalog.js';
+import promotionRoutes from './routes/promotions.js';
+import heldBillRoutes from './routes/heldBills.js';
+import quotationRoutes from './routes/quotations.js';
+import deliveryChallanRoutes from './routes/deliveryChallans.js';
+import gstReturnRoutes from './routes/gstReturns.js';
+import taxGroupRoutes from './routes/taxGroups.js';
+import documentTemplateRoutes from './routes/documentTemplates.js';
+import documentRoutes from './routes/documents.js';
+import generalSettingsRoutes from './routes/generalSettings.js';
 import { authMiddleware } from './middleware/auth.js';
 import { requirePageAccess } from './middleware/authorization.js';
 import { ensureDefaultRolesAndPermissions } from './services/rbac.js';
 
 dotenv.config();
 
+// Lets runInTransaction hand its session to every model call made inside it.
+mongoose.set('transactionAsyncLocalStorage', true);
+
 const app: Express = express();
 const PORT: number = Number(process.env.PORT) || 3000;
 const __filename = fileURLToPath(import.meta.url);
@@ -84,7 +100,22 @@ app.use('/api/customers', authMiddleware, requirePageAccess('sales'), customerRo
 app.use('/api/credit-notes', authMiddleware, requirePageAccess('accounting'), creditNoteRoutes);
 app.use('/api/reports', authMiddleware, requirePageAccess('reports'), reportsRoutes);
 app.use('/api/settlements', authMiddleware, requirePageAccess('accounting'), settlementRoutes);
+// Read by every terminal, so it sits ahead of the settings page guard; saving is limited to admins.
+app.use('/api/settings/general', authMiddleware, generalSettingsRoutes);
 app.use('/api/settings', authMiddleware, requirePageAccess('settings'), settingsRoutes);
+app.use('/api/purchases', authMiddleware, requirePageAccess('purchases'), purchaseRoutes);
+app.use('/api/locations', authMiddleware, requirePageAccess('inventory'), locationRoutes);
+app.use('/api/stock-takes', authMiddleware, requirePageAccess('inventory'), stockTakeRoutes);
+app.use('/api/catalog', authMiddleware, requirePageAccess('products'), catalogRoutes);
+app.use('/api/promotions', authMiddleware, requirePageAccess('sales'), promotionRoutes);
+app.use('/api/held-bills', authMiddleware, requirePageAccess('sales'), heldBillRoutes);
+app.use('/api/quotations', authMiddleware, requirePageAccess('sales'), quotationRoutes);
+app.use('/api/delivery-challans', authMiddleware, requirePageAccess('sales'), deliveryChallanRoutes);
+app.use('/api/gst-returns', authMiddleware, requirePageAccess('reports'), gstReturnRoutes);
+app.use('/api/tax-groups', authMiddleware, requirePageAccess('settings'), taxGroupRoutes);
+app.use('/api/document-templates', authMiddleware, requirePageAccess('settings'), documentTemplateRoutes);
+// Page access depends on the document type, so it is checked inside the router.
+app.use('/api/documents', authMiddleware, documentRoutes);
 
 // Serve built frontend (Vite output in dist/client) from the same server.
 app.use(express.static(clientDistPath));
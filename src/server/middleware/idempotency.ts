@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { IdempotencyKey } from '../models/IdempotencyKey.js';
+
+const DEFAULT_WINDOW_HOURS = 24;
+// A request still marked processing after this long died with its process; a retry may take the key over.
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+const hashRequest = (req: AuthenticatedRequest) =>
+  createHash('sha256').update(JSON.stringify(req.body ?? {})).digest('hex');
+
+/**
+ * Honours the `Idempotency-Key` header on a POST route. The first successful response is stored per user and
+ * key and replayed for repeats inside the window; a repeat while the first is still running gets 409.
+ * Failed requests release the key so the terminal can retry once the cause is fixed.
+ */
+export const idempotency = (options: { windowHours?: number } = {}) => {
+  const windowMs = Number(options.windowHours || DEFAULT_WINDOW_HOURS) * 60 * 60 * 1000;
+
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const key = String(req.get('Idempotency-Key') || '').trim();
+    if (!key) return next();
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ success: false, error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+    }
+
+    try {
+      const userId = String(req.userId || '');
+      const path = String(req.originalUrl || '').split('?')[0];
+      const requestHash = hashRequest(req);
+
+      let record;
+      try {
+        record = await IdempotencyKey.create({
+          key,
+          userId,
+          method: req.method,
+          path,
+          requestHash,
+          expiresAt: new Date(Date.now() + windowMs),
+        });
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+        const existing = await IdempotencyKey.findOne({ userId, key });
+        if (!existing) {
+          return res.status(409).json({ success: false, error: 'Request with this Idempotency-Key is being retried, try again' });
+        }
+
+        if (existing.method !== req.method || existing.path !== path || existing.requestHash !== requestHash) {
+          return res.status(422).json({
+            success: false,
+            error: 'Idempotency-Key was already used for a different request',
+          });
+        }
+        if (existing.status === 'completed' && existing.expiresAt.getTime() > Date.now()) {
+          res.set('Idempotent-Replayed', 'true');
+          return res.status(Number(existing.responseStatus || 200)).json(existing.responseBody);
+        }
+        const stale = existing.status === 'processing'
+          && Date.now() - new Date(existing.updatedAt || existing.createdAt || 0).getTime() > STALE_PROCESSING_MS;
+        if (existing.status === 'processing' && !stale) {
+          return res.status(409).json({ success: false, error: 'A request with this Idempotency-Key is still being processed' });
+        }
+
+        // Expired or abandoned: restart the window for this attempt.
+        const claimed = await IdempotencyKey.findOneAndUpdate(
+          { _id: existing._id, updatedAt: existing.updatedAt },
+          { $set: { status: 'processing', expiresAt: new Date(Date.now() + windowMs) }, $unset: { responseStatus: 1, responseBody: 1 } },
+          { new: true }
+        );
+        if (!claimed) {
+          return res.status(409).json({ success: false, error: 'A request with this Idempotency-Key is still being processed' });
+        }
+        record = claimed;
+      }
+
+      const recordId = record._id;
+      let settled = false;
+      const originalJson = res.json.bind(res);
+      // The response waits for the record so a retry sent right after it always finds the stored result.
+      res.json = (body: any) => {
+        if (settled) return originalJson(body);
+        settled = true;
+        const statusCode = res.statusCode;
+        const save = statusCode >= 200 && statusCode < 300
+          ? IdempotencyKey.updateOne(
+              { _id: recordId },
+              { $set: { status: 'completed', responseStatus: statusCode, responseBody: JSON.parse(JSON.stringify(body ?? null)) } }
+            )
+          : IdempotencyKey.deleteOne({ _id: recordId });
+        save
+          .catch((error: any) => console.error('Idempotency record update failed:', error))
+          .finally(() => originalJson(body));
+        return res;
+      };
+      // Responses sent without res.json are not replayable. A client that disconnects does not release the key:
+      // the handler keeps running and its result is what the retry should see.
+      res.on('finish', () => {
+        if (!settled) {
+          settled = true;
+          IdempotencyKey.deleteOne({ _id: recordId }).catch(() => undefined);
+        }
+      });
+
+      next();
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message || 'Failed to check Idempotency-Key' });
+    }
+  };
+};
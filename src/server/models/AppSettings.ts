@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IBusinessSettings {
+  legalName: string;
+  tradeName: string;
+  gstin: string;
+  pan: string;
+  phone: string;
+  email: string;
+  addressLine1: string;
+  addressLine2: string;
+  city: string;
+  state: string;
+  pincode: string;
+  country: string;
+  invoiceLogoDataUrl: string;
+  reportLogoDataUrl: string;
+}
+
+// The next invoice number is not stored here; it is the invoice_number sequence.
+export interface IInvoiceSettings {
+  title: string;
+  subtitle: string;
+  prefix: string;
+  showGstBreakup: boolean;
+  showHsnCode: boolean;
+  showCustomerDetails: boolean;
+  showBusinessGstin: boolean;
+  useCustomInvoiceNumber: boolean; // prefix + serial instead of INV-<date>-<serial>
+  terms: string;
+  footerNote: string;
+}
+
+// One document per settings group; 'general' holds what every terminal must agree on.
+export interface IAppSettings extends Document {
+  key: string;
+  business: IBusinessSettings;
+  invoice: IInvoiceSettings;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const BusinessSettingsSchema = new Schema<IBusinessSettings>(
+  {
+    legalName: { type: String, trim: true, default: '' },
+    tradeName: { type: String, trim: true, default: '' },
+    gstin: { type: String, trim: true, uppercase: true, default: '' },
+    pan: { type: String, trim: true, uppercase: true, default: '' },
+    phone: { type: String, trim: true, default: '' },
+    email: { type: String, trim: true, lowercase: true, default: '' },
+    addressLine1: { type: String, trim: true, default: '' },
+    addressLine2: { type: String, trim: true, default: '' },
+    city: { type: String, trim: true, default: '' },
+    state: { type: String, trim: true, default: '' },
+    pincode: { type: String, trim: true, default: '' },
+    country: { type: String, trim: true, default: 'India' },
+    invoiceLogoDataUrl: { type: String, default: '' },
+    reportLogoDataUrl: { type: String, default: '' },
+  },
+  { _id: false }
+);
+
+const InvoiceSettingsSchema = new Schema<IInvoiceSettings>(
+  {
+    title: { type: String, trim: true, default: 'TAX INVOICE' },
+    subtitle: { type: String, trim: true, default: 'Original for Recipient' },
+    prefix: { type: String, trim: true, uppercase: true, default: 'INV-' },
+    showGstBreakup: { type: Boolean, default: true },
+    showHsnCode: { type: Boolean, default: true },
+    showCustomerDetails: { type: Boolean, default: true },
+    showBusinessGstin: { type: Boolean, default: true },
+    useCustomInvoiceNumber: { type: Boolean, default: false },
+    terms: { type: String, default: 'Goods once sold will not be taken back without valid reason.' },
+    footerNote: { type: String, default: 'Thank you for your business.' },
+  },
+  { _id: false }
+);
+
+const AppSettingsSchema = new Schema<IAppSettings>(
+  {
+    key: { type: String, required: true, unique: true, trim: true, lowercase: true },
+    business: { type: BusinessSettingsSchema, default: () => ({}) },
+    invoice: { type: InvoiceSettingsSchema, default: () => ({}) },
+    updatedBy: String,
+  },
+  { timestamps: true }
+);
+
+export const AppSettings = mongoose.model<IAppSettings>('AppSettings', AppSettingsSchema);
@@ -12,6 +12,7 @@ export interface ICustomer extends Document {
   phone?: string;
   email?: string;
   gstin?: string;
+  stateCode?: string; // place of supply when the customer has no GSTIN
   address?: string;
   accountType: 'cash' | 'credit';
   creditLimit: number;
@@ -46,6 +47,7 @@ const CustomerSchema = new Schema<ICustomer>(
     phone: { type: String, trim: true, index: true },
     email: { type: String, trim: true, lowercase: true, index: true },
     gstin: { type: String, trim: true, uppercase: true },
+    stateCode: { type: String, trim: true },
     address: { type: String, trim: true },
     accountType: {
       type: String,
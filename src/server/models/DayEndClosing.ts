@@ -5,6 +5,7 @@ export interface IDayEndClosing extends Document {
   businessDate: Date;
   openingCash: number;
   cashSales: number;
+  tenderTotals: Array<{ method: string; invoices: number; amount: number }>;
   cashReceipts: number;
   cashExpenses: number;
   systemClosingCash: number;
@@ -22,6 +23,16 @@ const DayEndClosingSchema = new Schema<IDayEndClosing>(
     businessDate: { type: Date, required: true, index: true },
     openingCash: { type: Number, default: 0 },
     cashSales: { type: Number, default: 0 },
+    tenderTotals: [
+      new Schema(
+        {
+          method: { type: String, required: true },
+          invoices: { type: Number, default: 0 },
+          amount: { type: Number, default: 0 },
+        },
+        { _id: false }
+      ),
+    ],
     cashReceipts: { type: Number, default: 0 },
     cashExpenses: { type: Number, default: 0 },
     systemClosingCash: { type: Number, default: 0 },
@@ -0,0 +1,153 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DeliveryChallanStatus = 'issued' | 'invoiced' | 'cancelled';
+
+export interface IDeliveryChallanItem {
+  productId: string;
+  productName: string;
+  sku?: string;
+  hsnCode?: string;
+  batchNo?: string;
+  batchAllocations?: Array<{ batchNo: string; expiryDate?: Date; quantity: number }>;
+  quantity: number;
+  unit?: string;
+  conversionFactor: number;
+  baseQuantity: number;
+  unitPrice: number; // agreed price before line discount, billed when the challan is invoiced
+  discountAmount?: number; // per unit, taken before discountPercentage
+  discountPercentage?: number;
+  gstRate?: number;
+  taxableValue?: number;
+  gstAmount?: number;
+  lineTotal?: number;
+}
+
+// Part-B of the e-way bill; the same fields are accepted when preparing one for an invoice.
+export interface ITransportDetails {
+  transporterName?: string;
+  transporterId?: string; // transporter GSTIN or TRANSIN
+  transportMode?: 'road' | 'rail' | 'air' | 'ship';
+  vehicleNumber?: string;
+  vehicleType?: 'regular' | 'odc';
+  transportDocNo?: string;
+  transportDocDate?: Date;
+  distanceKm?: number;
+}
+
+export interface IDeliveryChallan extends Document {
+  challanNumber: string;
+  status: DeliveryChallanStatus;
+  challanDate: Date;
+  customerId: string;
+  customerCode?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerGstin?: string;
+  shipToAddress?: string;
+  shipToPincode?: string;
+  shipToStateCode?: string;
+  placeOfSupplyCode?: string;
+  placeOfSupply?: string;
+  isInterstate?: boolean;
+  pricingMode: 'retail' | 'wholesale' | 'customer';
+  taxMode: 'inclusive' | 'exclusive';
+  locationId?: string;
+  locationName?: string;
+  items: IDeliveryChallanItem[];
+  subtotal: number;
+  totalGst: number;
+  totalValue: number; // estimate for the e-way bill; the invoice is priced when raised
+  transport: ITransportDetails;
+  notes?: string;
+  invoicedSaleId?: string;
+  invoiceNumber?: string;
+  invoicedAt?: Date;
+  invoicedBy?: string;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  cancelReason?: string;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const DeliveryChallanItemSchema = new Schema<IDeliveryChallanItem>(
+  {
+    productId: { type: String, required: true, index: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    hsnCode: { type: String, trim: true },
+    batchNo: { type: String, trim: true },
+    batchAllocations: [
+      new Schema({ batchNo: String, expiryDate: Date, quantity: Number }, { _id: false }),
+    ],
+    quantity: { type: Number, required: true, min: 0 },
+    unit: { type: String, trim: true },
+    conversionFactor: { type: Number, min: 0, default: 1 },
+    baseQuantity: { type: Number, required: true, min: 0 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    discountAmount: { type: Number, min: 0, default: 0 },
+    discountPercentage: { type: Number, default: 0 },
+    gstRate: { type: Number, default: 0 },
+    taxableValue: Number,
+    gstAmount: Number,
+    lineTotal: Number,
+  },
+  { _id: false }
+);
+
+export const TransportDetailsSchema = new Schema<ITransportDetails>(
+  {
+    transporterName: { type: String, trim: true },
+    transporterId: { type: String, trim: true, uppercase: true },
+    transportMode: { type: String, enum: ['road', 'rail', 'air', 'ship'], default: 'road' },
+    vehicleNumber: { type: String, trim: true, uppercase: true },
+    vehicleType: { type: String, enum: ['regular', 'odc'], default: 'regular' },
+    transportDocNo: { type: String, trim: true },
+    transportDocDate: Date,
+    distanceKm: { type: Number, min: 0 },
+  },
+  { _id: false }
+);
+
+const DeliveryChallanSchema = new Schema<IDeliveryChallan>(
+  {
+    challanNumber: { type: String, required: true, unique: true, index: true },
+    status: { type: String, enum: ['issued', 'invoiced', 'cancelled'], default: 'issued', index: true },
+    challanDate: { type: Date, default: Date.now, index: true },
+    customerId: { type: String, required: true, index: true },
+    customerCode: String,
+    customerName: { type: String, trim: true },
+    customerPhone: { type: String, trim: true },
+    customerGstin: { type: String, trim: true, uppercase: true },
+    shipToAddress: { type: String, trim: true },
+    shipToPincode: { type: String, trim: true },
+    shipToStateCode: { type: String, trim: true },
+    placeOfSupplyCode: String,
+    placeOfSupply: String,
+    isInterstate: { type: Boolean, default: false },
+    pricingMode: { type: String, enum: ['retail', 'wholesale', 'customer'], default: 'retail' },
+    taxMode: { type: String, enum: ['inclusive', 'exclusive'], default: 'exclusive' },
+    locationId: { type: String, index: true },
+    locationName: String,
+    items: { type: [DeliveryChallanItemSchema], default: [] },
+    subtotal: { type: Number, default: 0 },
+    totalGst: { type: Number, default: 0 },
+    totalValue: { type: Number, default: 0 },
+    transport: { type: TransportDetailsSchema, default: () => ({}) },
+    notes: { type: String, trim: true },
+    invoicedSaleId: { type: String, index: true },
+    invoiceNumber: String,
+    invoicedAt: Date,
+    invoicedBy: String,
+    cancelledAt: Date,
+    cancelledBy: String,
+    cancelReason: String,
+    createdBy: { type: String, index: true },
+  },
+  { timestamps: true }
+);
+
+DeliveryChallanSchema.index({ customerId: 1, status: 1, challanDate: -1 });
+
+export const DeliveryChallan = mongoose.model<IDeliveryChallan>('DeliveryChallan', DeliveryChallanSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PrintDocumentType, PrintPaperSize } from './DocumentTemplate.js';
+
+// The template version a document was first rendered with on each paper size; reprints reuse it.
+export interface IDocumentPrint extends Document {
+  documentType: PrintDocumentType;
+  documentId: string;
+  documentNumber?: string;
+  paperSize: PrintPaperSize;
+  templateId: string;
+  templateVersion: number;
+  printCount: number;
+  firstPrintedAt: Date;
+  lastPrintedAt: Date;
+  lastPrintedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const DocumentPrintSchema = new Schema<IDocumentPrint>(
+  {
+    documentType: {
+      type: String,
+      enum: ['invoice', 'receipt', 'credit_note', 'booking_receipt', 'voucher'],
+      required: true,
+    },
+    documentId: { type: String, required: true },
+    documentNumber: { type: String, trim: true, index: true },
+    paperSize: { type: String, enum: ['a4', 'thermal80', 'thermal58'], required: true },
+    templateId: { type: String, required: true, index: true },
+    templateVersion: { type: Number, required: true },
+    printCount: { type: Number, default: 0 },
+    firstPrintedAt: { type: Date, default: Date.now },
+    lastPrintedAt: { type: Date, default: Date.now },
+    lastPrintedBy: String,
+  },
+  { timestamps: true }
+);
+
+DocumentPrintSchema.index({ documentType: 1, documentId: 1, paperSize: 1 }, { unique: true });
+
+export const DocumentPrint = mongoose.model<IDocumentPrint>('DocumentPrint', DocumentPrintSchema);
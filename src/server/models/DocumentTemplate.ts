@@ -0,0 +1,138 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type PrintDocumentType = 'invoice' | 'receipt' | 'credit_note' | 'booking_receipt' | 'voucher';
+export type PrintPaperSize = 'a4' | 'thermal80' | 'thermal58';
+
+export interface ITemplateTextLine {
+  text: string; // may carry {{placeholders}}
+  align?: 'left' | 'center' | 'right';
+  size?: number; // font size in points; the paper's base size when absent
+  bold?: boolean;
+}
+
+export interface ITemplateField {
+  label: string;
+  value: string;
+  hideIfEmpty?: boolean; // skipped when every placeholder in value is blank or zero
+  bold?: boolean;
+}
+
+export interface ITemplateColumn {
+  header: string;
+  value: string; // placeholders are resolved against each row as {{item.*}}
+  width: number; // share of the table width, relative to the other columns
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface ITemplateLayout {
+  header: ITemplateTextLine[];
+  fields: ITemplateField[];
+  columns: ITemplateColumn[];
+  totals: ITemplateField[];
+  footer: ITemplateTextLine[];
+  showQrCode: boolean; // the e-invoice QR, when the document has one
+  fontSize?: number;
+}
+
+export interface ITemplateVersion {
+  version: number;
+  layout: ITemplateLayout;
+  note?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface IDocumentTemplate extends Document {
+  name: string;
+  documentType: PrintDocumentType;
+  paperSize: PrintPaperSize;
+  isDefault: boolean; // the one used for this document type and paper when none is asked for
+  isActive: boolean;
+  isBuiltIn: boolean;
+  currentVersion: number;
+  versions: ITemplateVersion[];
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const TextLineSchema = new Schema<ITemplateTextLine>(
+  {
+    text: { type: String, default: '' },
+    align: { type: String, enum: ['left', 'center', 'right'], default: 'left' },
+    size: Number,
+    bold: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const FieldSchema = new Schema<ITemplateField>(
+  {
+    label: { type: String, default: '' },
+    value: { type: String, default: '' },
+    hideIfEmpty: { type: Boolean, default: false },
+    bold: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const ColumnSchema = new Schema<ITemplateColumn>(
+  {
+    header: { type: String, default: '' },
+    value: { type: String, default: '' },
+    width: { type: Number, min: 1, default: 1 },
+    align: { type: String, enum: ['left', 'center', 'right'], default: 'left' },
+  },
+  { _id: false }
+);
+
+const LayoutSchema = new Schema<ITemplateLayout>(
+  {
+    header: { type: [TextLineSchema], default: [] },
+    fields: { type: [FieldSchema], default: [] },
+    columns: { type: [ColumnSchema], default: [] },
+    totals: { type: [FieldSchema], default: [] },
+    footer: { type: [TextLineSchema], default: [] },
+    showQrCode: { type: Boolean, default: false },
+    fontSize: Number,
+  },
+  { _id: false }
+);
+
+// Versions are never changed once saved, so a document pinned to one prints the same every time.
+const VersionSchema = new Schema<ITemplateVersion>(
+  {
+    version: { type: Number, required: true },
+    layout: { type: LayoutSchema, required: true },
+    note: { type: String, trim: true },
+    createdBy: String,
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const DocumentTemplateSchema = new Schema<IDocumentTemplate>(
+  {
+    name: { type: String, required: true, trim: true },
+    documentType: {
+      type: String,
+      enum: ['invoice', 'receipt', 'credit_note', 'booking_receipt', 'voucher'],
+      required: true,
+      index: true,
+    },
+    paperSize: { type: String, enum: ['a4', 'thermal80', 'thermal58'], required: true, index: true },
+    isDefault: { type: Boolean, default: false },
+    isActive: { type: Boolean, default: true, index: true },
+    isBuiltIn: { type: Boolean, default: false },
+    currentVersion: { type: Number, default: 1 },
+    versions: { type: [VersionSchema], default: [] },
+    createdBy: String,
+    updatedBy: String,
+  },
+  { timestamps: true }
+);
+
+DocumentTemplateSchema.index({ documentType: 1, paperSize: 1, isDefault: 1 });
+
+export const DocumentTemplate = mongoose.model<IDocumentTemplate>('DocumentTemplate', DocumentTemplateSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IGoodsReceiptItem {
+  productId: string;
+  productName: string;
+  sku?: string;
+  batchNo?: string;
+  expiryDate?: Date;
+  quantity: number;
+  unitCost: number;
+  gstRate: number;
+  taxableValue: number;
+  taxAmount: number;
+  lineTotal: number;
+}
+
+export interface IGoodsReceipt extends Document {
+  grnNumber: string;
+  purchaseOrderId?: mongoose.Types.ObjectId;
+  poNumber?: string;
+  supplierId: mongoose.Types.ObjectId;
+  supplierName: string;
+  supplierInvoiceNumber?: string;
+  receiptDate: Date;
+  status: 'draft' | 'posted' | 'cancelled';
+  isLocked: boolean;
+  items: IGoodsReceiptItem[];
+  subtotal: number;
+  totalTax: number;
+  totalAmount: number;
+  voucherNumber?: string;
+  notes?: string;
+  createdBy?: string;
+  postedAt?: Date;
+  postedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const GoodsReceiptItemSchema = new Schema<IGoodsReceiptItem>(
+  {
+    productId: { type: String, required: true, index: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    batchNo: { type: String, trim: true, uppercase: true },
+    expiryDate: { type: Date },
+    quantity: { type: Number, required: true, min: 0 },
+    unitCost: { type: Number, required: true, min: 0 },
+    gstRate: { type: Number, default: 0 },
+    taxableValue: { type: Number, default: 0 },
+    taxAmount: { type: Number, default: 0 },
+    lineTotal: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const GoodsReceiptSchema = new Schema<IGoodsReceipt>(
+  {
+    grnNumber: { type: String, required: true, unique: true, trim: true, index: true },
+    purchaseOrderId: { type: mongoose.Schema.Types.ObjectId, ref: 'PurchaseOrder', index: true },
+    poNumber: { type: String, trim: true },
+    supplierId: { type: mongoose.Schema.Types.ObjectId, ref: 'Supplier', required: true, index: true },
+    supplierName: { type: String, required: true, trim: true },
+    supplierInvoiceNumber: { type: String, trim: true, index: true },
+    receiptDate: { type: Date, default: Date.now, index: true },
+    status: {
+      type: String,
+      enum: ['draft', 'posted', 'cancelled'],
+      default: 'draft',
+      index: true,
+    },
+    isLocked: { type: Boolean, default: false, index: true },
+    items: { type: [GoodsReceiptItemSchema], default: [] },
+    subtotal: { type: Number, default: 0 },
+    totalTax: { type: Number, default: 0 },
+    totalAmount: { type: Number, default: 0 },
+    voucherNumber: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    createdBy: { type: String, index: true },
+    postedAt: { type: Date },
+    postedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+GoodsReceiptSchema.index({ supplierId: 1, receiptDate: -1 });
+
+export const GoodsReceipt = mongoose.model<IGoodsReceipt>('GoodsReceipt', GoodsReceiptSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type HeldBillStatus = 'held' | 'resumed' | 'expired' | 'cancelled';
+
+export interface IHeldBillItem {
+  productId: mongoose.Types.ObjectId | string;
+  productName: string;
+  sku?: string;
+  quantity: number;
+  unit?: string;
+  conversionFactor: number;
+  baseQuantity: number;
+  unitPrice: number;
+  gstRate?: number;
+}
+
+export interface IHeldBill extends Document {
+  holdNumber: string;
+  name: string;
+  terminalId: string;
+  userId: string;
+  status: HeldBillStatus;
+  items: IHeldBillItem[];
+  customerId?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  notes?: string;
+  totalAmount: number;
+  reservedStock: boolean;
+  expiresAt: Date;
+  resumedAt?: Date;
+  resumedBy?: string;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const HeldBillItemSchema = new Schema<IHeldBillItem>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    unit: { type: String, trim: true },
+    conversionFactor: { type: Number, min: 0, default: 1 },
+    baseQuantity: { type: Number, required: true, min: 0 },
+    unitPrice: { type: Number, min: 0, default: 0 },
+    gstRate: { type: Number, min: 0, default: 0 },
+  },
+  { _id: false }
+);
+
+const HeldBillSchema = new Schema<IHeldBill>(
+  {
+    holdNumber: { type: String, required: true, unique: true, trim: true, index: true },
+    name: { type: String, required: true, trim: true },
+    terminalId: { type: String, required: true, trim: true, index: true },
+    userId: { type: String, required: true, index: true },
+    status: {
+      type: String,
+      enum: ['held', 'resumed', 'expired', 'cancelled'],
+      default: 'held',
+      index: true,
+    },
+    items: { type: [HeldBillItemSchema], default: [] },
+    customerId: { type: String, trim: true },
+    customerName: { type: String, trim: true },
+    customerPhone: { type: String, trim: true },
+    customerEmail: { type: String, trim: true, lowercase: true },
+    notes: { type: String, trim: true },
+    totalAmount: { type: Number, min: 0, default: 0 },
+    reservedStock: { type: Boolean, default: false },
+    expiresAt: { type: Date, required: true, index: true },
+    resumedAt: Date,
+    resumedBy: String,
+    cancelledAt: Date,
+    cancelledBy: String,
+  },
+  { timestamps: true }
+);
+
+HeldBillSchema.index({ status: 1, terminalId: 1, createdAt: -1 });
+
+export const HeldBill = mongoose.model<IHeldBill>('HeldBill', HeldBillSchema);
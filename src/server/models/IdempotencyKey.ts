@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+  key: string;
+  userId: string;
+  method: string;
+  path: string;
+  requestHash: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number;
+  responseBody?: any;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    key: { type: String, required: true, trim: true },
+    userId: { type: String, required: true, default: '' },
+    method: { type: String, required: true, uppercase: true },
+    path: { type: String, required: true },
+    requestHash: { type: String, required: true },
+    status: { type: String, enum: ['processing', 'completed'], default: 'processing' },
+    responseStatus: Number,
+    responseBody: Schema.Types.Mixed,
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+IdempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
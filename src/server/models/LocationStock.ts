@@ -0,0 +1,22 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILocationStock extends Document {
+  productId: mongoose.Types.ObjectId | string;
+  locationId: mongoose.Types.ObjectId | string;
+  quantity: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const LocationStockSchema = new Schema<ILocationStock>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true, index: true },
+    locationId: { type: Schema.Types.ObjectId, ref: 'StockLocation', required: true, index: true },
+    quantity: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+LocationStockSchema.index({ productId: 1, locationId: 1 }, { unique: true });
+
+export const LocationStock = mongoose.model<ILocationStock>('LocationStock', LocationStockSchema);
@@ -1,28 +1,105 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IOrder } from '@shared/types';
 
-// Mongoose document interfaces (use ObjectId for relational fields)
-interface IOrderItemDoc {
-  productId: mongoose.Types.ObjectId | string;
-  quantity: number;
-  price: number;
-  gstAmount: number;
+export type SalesOrderStatus = 'booked' | 'partially_delivered' | 'delivered' | 'cancelled';
+
+export interface IOrderItemDoc {
+  productId: string;
+  productName: string;
+  sku?: string;
+  hsnCode?: string;
+  quantity: number; // ordered, in the order unit
+  unit?: string;
+  conversionFactor: number;
+  baseQuantity: number;
+  deliveredQuantity: number; // in the order unit
+  reservedBaseQuantity: number; // still held back from sale for this line
+  listPrice?: number;
+  unitPrice: number; // agreed price before line discount, billed on every delivery
+  discountAmount?: number; // per unit, taken before discountPercentage
+  discountPercentage?: number;
+  promotionId?: string; // promotion in force at booking; deliveries are priced as of the booking date
+  promotionName?: string;
+  promotionDiscount?: number; // estimate at booking for the full quantity
+  gstRate?: number;
+  lineTotal?: number; // estimate at booking
+}
+
+export interface IOrderAdvance {
+  receiptVoucherId: string;
+  voucherNumber: string;
+  amount: number;
+  mode: string;
+  paidAt: Date;
+}
+
+export interface IOrderDelivery {
+  saleId: string;
+  invoiceNumber: string;
+  deliveredAt: Date;
+  deliveredBy?: string;
+  items: Array<{ productId: string; productName: string; quantity: number; unit?: string }>;
+  invoiceAmount: number;
+  advanceApplied: number;
 }
 
 interface IOrderDocument extends Document {
   orderNumber: string;
-  userId: mongoose.Types.ObjectId | string;
+  userId: string;
+  orderStatus: SalesOrderStatus;
+  customerId: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  placeOfSupplyCode?: string; // every delivery is invoiced to this state
+  placeOfSupply?: string;
+  isInterstate?: boolean;
+  pricingMode: 'retail' | 'wholesale' | 'customer';
+  taxMode: 'inclusive' | 'exclusive';
   items: IOrderItemDoc[];
-  totalAmount: number;
+  subtotal: number;
   gstAmount: number;
-  paymentMethod: 'cash' | 'card' | 'upi' | 'check';
-  paymentStatus: 'pending' | 'completed' | 'failed';
-  orderStatus: 'pending' | 'processing' | 'completed' | 'cancelled';
+  totalAmount: number; // estimate at booking; invoices are priced per delivery
+  advanceAmount: number;
+  advanceAppliedAmount: number;
+  advanceRefundedAmount: number;
+  advances: IOrderAdvance[];
+  deliveries: IOrderDelivery[];
+  invoicedAmount: number;
+  expectedDeliveryDate?: Date;
+  priceOverrideApprovedBy?: string;
   notes?: string;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  cancelReason?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+const orderItemSchema = new Schema<IOrderItemDoc>(
+  {
+    productId: { type: String, required: true, index: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    hsnCode: { type: String, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    unit: { type: String, trim: true },
+    conversionFactor: { type: Number, min: 0, default: 1 },
+    baseQuantity: { type: Number, required: true, min: 0 },
+    deliveredQuantity: { type: Number, min: 0, default: 0 },
+    reservedBaseQuantity: { type: Number, min: 0, default: 0 },
+    listPrice: Number,
+    unitPrice: { type: Number, required: true, min: 0 },
+    discountAmount: { type: Number, min: 0, default: 0 },
+    discountPercentage: { type: Number, default: 0 },
+    promotionId: String,
+    promotionName: { type: String, trim: true },
+    promotionDiscount: { type: Number, min: 0, default: 0 },
+    gstRate: { type: Number, default: 0 },
+    lineTotal: Number,
+  },
+  { _id: false }
+);
+
 const orderSchema = new Schema<IOrderDocument>(
   {
     orderNumber: {
@@ -30,63 +107,72 @@ const orderSchema = new Schema<IOrderDocument>(
       required: true,
       unique: true,
     },
-    userId: {
-      type: mongoose.Schema.Types.ObjectId,
-      ref: 'User',
-      required: true,
+    userId: { type: String, required: true, index: true },
+    orderStatus: {
+      type: String,
+      enum: ['booked', 'partially_delivered', 'delivered', 'cancelled'],
+      default: 'booked',
+      index: true,
     },
-
-    items: [
-      {
-        productId: {
-          type: mongoose.Schema.Types.ObjectId,
-          ref: 'Product',
-          required: true,
-        },
-        quantity: {
-          type: Number,
-          required: true,
-          min: 1,
+    customerId: { type: String, required: true, index: true },
+    customerName: { type: String, trim: true },
+    customerPhone: { type: String, trim: true },
+    customerEmail: { type: String, trim: true, lowercase: true },
+    placeOfSupplyCode: String,
+    placeOfSupply: String,
+    isInterstate: { type: Boolean, default: false },
+    pricingMode: { type: String, enum: ['retail', 'wholesale', 'customer'], default: 'retail' },
+    taxMode: { type: String, enum: ['inclusive', 'exclusive'], default: 'exclusive' },
+    items: { type: [orderItemSchema], default: [] },
+    subtotal: { type: Number, default: 0 },
+    gstAmount: { type: Number, default: 0 },
+    totalAmount: { type: Number, default: 0, min: 0 },
+    advanceAmount: { type: Number, default: 0, min: 0 },
+    advanceAppliedAmount: { type: Number, default: 0, min: 0 },
+    advanceRefundedAmount: { type: Number, default: 0, min: 0 },
+    advances: [
+      new Schema(
+        {
+          receiptVoucherId: { type: String, required: true },
+          voucherNumber: String,
+          amount: { type: Number, required: true, min: 0 },
+          mode: String,
+          paidAt: { type: Date, default: Date.now },
         },
-        price: {
-          type: Number,
-          required: true,
-        },
-        gstAmount: {
-          type: Number,
-          required: true,
+        { _id: false }
+      ),
+    ],
+    deliveries: [
+      new Schema(
+        {
+          saleId: { type: String, required: true, index: true },
+          invoiceNumber: String,
+          deliveredAt: { type: Date, default: Date.now },
+          deliveredBy: String,
+          items: [
+            new Schema(
+              { productId: String, productName: String, quantity: Number, unit: String },
+              { _id: false }
+            ),
+          ],
+          invoiceAmount: { type: Number, default: 0 },
+          advanceApplied: { type: Number, default: 0 },
         },
-      },
+        { _id: false }
+      ),
     ],
-    totalAmount: {
-      type: Number,
-      required: true,
-      min: 0,
-    },
-    gstAmount: {
-      type: Number,
-      required: true,
-      min: 0,
-    },
-    paymentMethod: {
-      type: String,
-      enum: ['cash', 'card', 'upi', 'check'],
-      required: true,
-    },
-    paymentStatus: {
-      type: String,
-      enum: ['pending', 'completed', 'failed'],
-      default: 'pending',
-    },
-    orderStatus: {
-      type: String,
-      enum: ['pending', 'processing', 'completed', 'cancelled'],
-      default: 'pending',
-    },
+    invoicedAmount: { type: Number, default: 0 },
+    expectedDeliveryDate: Date,
+    priceOverrideApprovedBy: String,
     notes: String,
+    cancelledAt: Date,
+    cancelledBy: String,
+    cancelReason: String,
   },
   { timestamps: true }
 );
 
+orderSchema.index({ orderStatus: 1, createdAt: -1 });
+
 export const Order = mongoose.model<IOrderDocument>('Order', orderSchema);
 export type { IOrderDocument };
@@ -42,9 +42,19 @@ const productSchema = new Schema<IProductDocument>(
     },
     gstRate: {
       type: Number,
-      enum: [0, 5, 12, 18, 28],
+      enum: [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40],
       default: 18,
     },
+    // Tax master groups by date; the latest one effective on the invoice date overrides gstRate and taxType.
+    taxGroups: [
+      new Schema(
+        {
+          taxGroupId: { type: String, required: true, index: true },
+          effectiveFrom: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+    ],
     hsnCode: {
       type: String,
       default: '',
@@ -80,11 +90,71 @@ const productSchema = new Schema<IProductDocument>(
       type: Number,
       default: 10,
     },
+    // EAN-13, UPC-A or internal codes; a product can carry several (e.g. supplier and in-house labels).
+    barcodes: {
+      type: [{ type: String, trim: true }],
+      default: [],
+      index: true,
+    },
+    // Item code embedded in weighed (price/weight) barcodes printed by scales, for kg products.
+    weighedItemCode: {
+      type: String,
+      trim: true,
+      index: true,
+      sparse: true,
+    },
+    // Variants are full products linked to a parent, so stock, batches and locations work per variant.
+    parentProductId: {
+      type: String,
+      index: true,
+    },
+    hasVariants: {
+      type: Boolean,
+      default: false,
+    },
+    variantOptions: [
+      new Schema(
+        {
+          name: { type: String, required: true, trim: true },
+          values: [{ type: String, trim: true }],
+        },
+        { _id: false }
+      ),
+    ],
+    variantAttributes: {
+      type: Schema.Types.Mixed,
+    },
+    preferredSupplierId: {
+      type: String,
+      index: true,
+    },
+    leadTimeDays: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    reorderQuantity: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    // Base unit: stock, batches, cost and the stock journal are always in this unit.
     unit: {
       type: String,
-      enum: ['piece', 'kg', 'liter', 'meter'],
+      enum: ['piece', 'kg', 'gram', 'liter', 'ml', 'meter', 'box', 'carton', 'pack', 'dozen'],
       default: 'piece',
     },
+    alternateUnits: [
+      new Schema(
+        {
+          unit: { type: String, required: true, trim: true, lowercase: true },
+          conversionFactor: { type: Number, required: true, min: 0 },
+          price: { type: Number, min: 0 },
+          wholesalePrice: { type: Number, min: 0 },
+        },
+        { _id: false }
+      ),
+    ],
     imageUrl: String,
     isActive: {
       type: Boolean,
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type PromotionType = 'buy_x_get_y' | 'mix_and_match' | 'bundle_price' | 'percent_off' | 'min_bill';
+
+export interface IPromotionBundleItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface IPromotionSchedule {
+  startDate?: Date;
+  endDate?: Date;
+  daysOfWeek?: number[]; // 0 = Sunday
+  startTime?: string; // HH:mm, happy-hour window start
+  endTime?: string; // HH:mm, may be earlier than startTime for overnight windows
+}
+
+export interface IPromotion extends Document {
+  name: string;
+  code?: string;
+  description?: string;
+  type: PromotionType;
+  productIds: string[];
+  categories: string[];
+  buyQuantity: number;
+  getQuantity: number;
+  getDiscountPercent: number;
+  mixQuantity: number;
+  mixPrice: number;
+  bundleItems: IPromotionBundleItem[];
+  bundlePrice: number;
+  discountPercent: number;
+  discountAmount: number;
+  minBillAmount: number;
+  maxDiscountAmount: number;
+  priority: number;
+  schedule: IPromotionSchedule;
+  isActive: boolean;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const PromotionSchema = new Schema<IPromotion>(
+  {
+    name: { type: String, required: true, trim: true, index: true },
+    code: { type: String, trim: true, uppercase: true, unique: true, sparse: true },
+    description: { type: String, trim: true },
+    type: {
+      type: String,
+      enum: ['buy_x_get_y', 'mix_and_match', 'bundle_price', 'percent_off', 'min_bill'],
+      required: true,
+      index: true,
+    },
+    productIds: { type: [String], default: [] },
+    categories: { type: [String], default: [] },
+    buyQuantity: { type: Number, min: 0, default: 0 },
+    getQuantity: { type: Number, min: 0, default: 0 },
+    getDiscountPercent: { type: Number, min: 0, max: 100, default: 100 },
+    mixQuantity: { type: Number, min: 0, default: 0 },
+    mixPrice: { type: Number, min: 0, default: 0 },
+    bundleItems: [
+      new Schema(
+        {
+          productId: { type: String, required: true },
+          quantity: { type: Number, min: 1, default: 1 },
+        },
+        { _id: false }
+      ),
+    ],
+    bundlePrice: { type: Number, min: 0, default: 0 },
+    discountPercent: { type: Number, min: 0, max: 100, default: 0 },
+    discountAmount: { type: Number, min: 0, default: 0 },
+    minBillAmount: { type: Number, min: 0, default: 0 },
+    maxDiscountAmount: { type: Number, min: 0, default: 0 },
+    priority: { type: Number, default: 0, index: true },
+    schedule: {
+      startDate: Date,
+      endDate: Date,
+      daysOfWeek: { type: [Number], default: [] },
+      startTime: String,
+      endTime: String,
+    },
+    isActive: { type: Boolean, default: true, index: true },
+    createdBy: { type: String, index: true },
+    updatedBy: String,
+  },
+  { timestamps: true }
+);
+
+export const Promotion = mongoose.model<IPromotion>('Promotion', PromotionSchema);
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPurchaseOrderItem {
+  productId: string;
+  productName: string;
+  sku?: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+  gstRate: number;
+  taxableValue: number;
+  taxAmount: number;
+  lineTotal: number;
+}
+
+export interface IPurchaseOrder extends Document {
+  poNumber: string;
+  supplierId: mongoose.Types.ObjectId;
+  supplierName: string;
+  orderDate: Date;
+  expectedDate?: Date;
+  status: 'draft' | 'posted' | 'partially_received' | 'received' | 'cancelled';
+  isLocked: boolean;
+  items: IPurchaseOrderItem[];
+  subtotal: number;
+  totalTax: number;
+  totalAmount: number;
+  notes?: string;
+  createdBy?: string;
+  postedAt?: Date;
+  postedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const PurchaseOrderItemSchema = new Schema<IPurchaseOrderItem>(
+  {
+    productId: { type: String, required: true, index: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    receivedQuantity: { type: Number, default: 0, min: 0 },
+    unitCost: { type: Number, required: true, min: 0 },
+    gstRate: { type: Number, default: 0 },
+    taxableValue: { type: Number, default: 0 },
+    taxAmount: { type: Number, default: 0 },
+    lineTotal: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
+  {
+    poNumber: { type: String, required: true, unique: true, trim: true, index: true },
+    supplierId: { type: mongoose.Schema.Types.ObjectId, ref: 'Supplier', required: true, index: true },
+    supplierName: { type: String, required: true, trim: true },
+    orderDate: { type: Date, default: Date.now, index: true },
+    expectedDate: { type: Date },
+    status: {
+      type: String,
+      enum: ['draft', 'posted', 'partially_received', 'received', 'cancelled'],
+      default: 'draft',
+      index: true,
+    },
+    isLocked: { type: Boolean, default: false, index: true },
+    items: { type: [PurchaseOrderItemSchema], default: [] },
+    subtotal: { type: Number, default: 0 },
+    totalTax: { type: Number, default: 0 },
+    totalAmount: { type: Number, default: 0 },
+    notes: { type: String, trim: true },
+    createdBy: { type: String, index: true },
+    postedAt: { type: Date },
+    postedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+PurchaseOrderSchema.index({ supplierId: 1, orderDate: -1 });
+
+export const PurchaseOrder = mongoose.model<IPurchaseOrder>('PurchaseOrder', PurchaseOrderSchema);
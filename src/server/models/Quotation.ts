@@ -0,0 +1,154 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired' | 'converted' | 'cancelled';
+
+export interface IQuotationItem {
+  productId: string;
+  productName: string;
+  sku?: string;
+  hsnCode?: string;
+  quantity: number; // in the quoted unit
+  unit?: string;
+  conversionFactor?: number;
+  baseQuantity?: number;
+  listPrice?: number;
+  unitPrice: number; // net of line discount, as priced by processItems
+  quotedUnitPrice?: number; // price the line was entered at, carried to the invoice on conversion
+  discountAmount?: number;
+  discountPercentage?: number;
+  promotionDiscount?: number;
+  taxGroupCode?: string;
+  supplyType?: 'taxable' | 'nil_rated' | 'exempt' | 'non_gst';
+  taxableValue?: number;
+  gstRate?: number;
+  gstAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  taxType?: 'gst' | 'vat';
+  vatAmount?: number;
+  cessAmount?: number;
+  tcsAmount?: number;
+  lineTotal?: number;
+}
+
+export interface IQuotation extends Document {
+  quotationNumber: string;
+  status: QuotationStatus;
+  validUntil: Date;
+  pricingMode: 'retail' | 'wholesale' | 'customer';
+  taxMode: 'inclusive' | 'exclusive';
+  customerId?: string;
+  customerCode?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  placeOfSupplyCode?: string;
+  placeOfSupply?: string;
+  isInterstate?: boolean;
+  items: IQuotationItem[];
+  subtotal: number;
+  totalGst: number; // cess included
+  totalCess: number;
+  tcsAmount: number;
+  promotionDiscount: number;
+  discountAmount: number;
+  discountPercentage: number;
+  applyRoundOff: boolean;
+  grossTotal: number;
+  roundOffAmount: number;
+  totalAmount: number;
+  terms?: string;
+  notes?: string;
+  createdBy?: string;
+  sentAt?: Date;
+  respondedAt?: Date;
+  convertedSaleId?: string;
+  convertedInvoiceNumber?: string;
+  convertedAt?: Date;
+  convertedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const QuotationItemSchema = new Schema<IQuotationItem>(
+  {
+    productId: { type: String, required: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    hsnCode: { type: String, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    unit: { type: String, trim: true },
+    conversionFactor: { type: Number, min: 0, default: 1 },
+    baseQuantity: { type: Number, min: 0 },
+    listPrice: Number,
+    unitPrice: { type: Number, required: true, min: 0 },
+    quotedUnitPrice: Number,
+    discountAmount: { type: Number, default: 0 },
+    discountPercentage: { type: Number, default: 0 },
+    promotionDiscount: { type: Number, default: 0 },
+    taxGroupCode: String,
+    supplyType: { type: String, enum: ['taxable', 'nil_rated', 'exempt', 'non_gst'] },
+    taxableValue: Number,
+    gstRate: { type: Number, default: 0 },
+    gstAmount: Number,
+    cgstAmount: Number,
+    sgstAmount: Number,
+    igstAmount: Number,
+    taxType: { type: String, enum: ['gst', 'vat'], default: 'gst' },
+    vatAmount: Number,
+    cessAmount: Number,
+    tcsAmount: Number,
+    lineTotal: Number,
+  },
+  { _id: false }
+);
+
+const QuotationSchema = new Schema<IQuotation>(
+  {
+    quotationNumber: { type: String, required: true, unique: true, trim: true, index: true },
+    status: {
+      type: String,
+      enum: ['draft', 'sent', 'accepted', 'rejected', 'expired', 'converted', 'cancelled'],
+      default: 'draft',
+      index: true,
+    },
+    validUntil: { type: Date, required: true, index: true },
+    pricingMode: { type: String, enum: ['retail', 'wholesale', 'customer'], default: 'retail' },
+    taxMode: { type: String, enum: ['inclusive', 'exclusive'], default: 'exclusive' },
+    customerId: { type: String, index: true },
+    customerCode: { type: String, trim: true },
+    customerName: { type: String, trim: true },
+    customerPhone: { type: String, trim: true },
+    customerEmail: { type: String, trim: true, lowercase: true },
+    placeOfSupplyCode: String,
+    placeOfSupply: String,
+    isInterstate: { type: Boolean, default: false },
+    items: { type: [QuotationItemSchema], default: [] },
+    subtotal: { type: Number, default: 0 },
+    totalGst: { type: Number, default: 0 },
+    totalCess: { type: Number, default: 0 },
+    tcsAmount: { type: Number, default: 0 },
+    promotionDiscount: { type: Number, default: 0 },
+    discountAmount: { type: Number, default: 0 },
+    discountPercentage: { type: Number, default: 0 },
+    applyRoundOff: { type: Boolean, default: false },
+    grossTotal: { type: Number, default: 0 },
+    roundOffAmount: { type: Number, default: 0 },
+    totalAmount: { type: Number, default: 0 },
+    terms: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    createdBy: { type: String, index: true },
+    sentAt: Date,
+    respondedAt: Date,
+    convertedSaleId: { type: String, index: true },
+    convertedInvoiceNumber: String,
+    convertedAt: Date,
+    convertedBy: String,
+  },
+  { timestamps: true }
+);
+
+QuotationSchema.index({ status: 1, validUntil: 1 });
+
+export const Quotation = mongoose.model<IQuotation>('Quotation', QuotationSchema);
@@ -6,6 +6,15 @@ export interface IReceiptAllocation {
   amount: number;
 }
 
+export interface IReceiptRefund {
+  amount: number;
+  mode: 'cash' | 'card' | 'upi' | 'bank_transfer' | 'cheque' | 'online';
+  reference?: string;
+  reason?: string;
+  refundedAt: Date;
+  refundedBy?: string;
+}
+
 export interface IReceiptVoucher extends Document {
   voucherNumber: string;
   customerId?: mongoose.Types.ObjectId;
@@ -13,9 +22,13 @@ export interface IReceiptVoucher extends Document {
   entryDate: Date;
   amount: number;
   unappliedAmount: number;
-  mode: 'cash' | 'card' | 'upi' | 'bank_transfer' | 'cheque';
+  mode: 'cash' | 'card' | 'upi' | 'bank_transfer' | 'cheque' | 'online';
+  sourceType: 'settlement' | 'sale_tender';
   isAdvance: boolean;
   allocations: IReceiptAllocation[];
+  salesOrderId?: string; // advance booked against a sales order
+  refundedAmount: number;
+  refunds: IReceiptRefund[];
   notes?: string;
   createdBy?: string;
   createdAt?: Date;
@@ -31,6 +44,22 @@ const ReceiptAllocationSchema = new Schema<IReceiptAllocation>(
   { _id: false }
 );
 
+const ReceiptRefundSchema = new Schema<IReceiptRefund>(
+  {
+    amount: { type: Number, required: true, min: 0 },
+    mode: {
+      type: String,
+      enum: ['cash', 'card', 'upi', 'bank_transfer', 'cheque', 'online'],
+      default: 'cash',
+    },
+    reference: { type: String, trim: true },
+    reason: { type: String, trim: true },
+    refundedAt: { type: Date, default: Date.now, index: true },
+    refundedBy: String,
+  },
+  { _id: false }
+);
+
 const ReceiptVoucherSchema = new Schema<IReceiptVoucher>(
   {
     voucherNumber: { type: String, required: true, unique: true, index: true },
@@ -45,12 +74,18 @@ const ReceiptVoucherSchema = new Schema<IReceiptVoucher>(
     unappliedAmount: { type: Number, required: true, min: 0 },
     mode: {
       type: String,
-      enum: ['cash', 'card', 'upi', 'bank_transfer', 'cheque'],
+      enum: ['cash', 'card', 'upi', 'bank_transfer', 'cheque', 'online'],
       default: 'cash',
       index: true,
     },
+    // Sale tenders are already counted from Sale.payments in cash/bank books and day-end closing.
+    sourceType: { type: String, enum: ['settlement', 'sale_tender'], default: 'settlement', index: true },
     isAdvance: { type: Boolean, default: false, index: true },
     allocations: [ReceiptAllocationSchema],
+    salesOrderId: { type: String, index: true },
+    // Unapplied advance paid back to the customer; these are cash/bank outflows on their own dates.
+    refundedAmount: { type: Number, default: 0, min: 0 },
+    refunds: { type: [ReceiptRefundSchema], default: [] },
     notes: { type: String, trim: true },
     createdBy: { type: String, index: true },
   },
@@ -5,13 +5,22 @@ export interface IReturnItem {
   productId: string;
   productName: string;
   sku: string;
+  batchNo?: string;
+  expiryDate?: Date;
   originalQuantity?: number;
-  returnQuantity: number;
+  returnQuantity: number; // in the selected unit
+  unit?: string;
+  conversionFactor?: number;
+  baseQuantity?: number; // returnQuantity x conversionFactor, used for restocking
   unitPrice: number;
   gstRate: number;
   returnReason: string;
   lineSubtotal?: number;
-  lineTax?: number;
+  lineTax?: number; // GST plus cess
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  cessAmount?: number;
   lineTotal?: number;
   qualityStatus?: 'pending' | 'passed' | 'failed';
 }
@@ -27,6 +36,8 @@ export interface IReturn {
   customerPhone?: string;
   customerEmail?: string;
   isManualReturn?: boolean;
+  placeOfSupplyCode?: string;
+  isInterstate?: boolean; // reverses IGST rather than CGST + SGST, as on the original invoice
   items: IReturnItem[];
   returnedAmount: number; // Total amount to refund
   returnedGst: number; // GST portion refunded
@@ -76,19 +87,30 @@ const ReturnSchema = new Schema<IReturnDocument>(
     customerPhone: { type: String, index: true },
     customerEmail: { type: String, index: true },
     isManualReturn: { type: Boolean, default: false },
+    placeOfSupplyCode: String,
+    isInterstate: { type: Boolean, default: false },
     items: [
       {
         saleId: String,
         productId: String,
         productName: String,
         sku: String,
+        batchNo: String,
+        expiryDate: Date,
         originalQuantity: Number,
         returnQuantity: { type: Number, required: true },
+        unit: String,
+        conversionFactor: { type: Number, default: 1 },
+        baseQuantity: Number,
         unitPrice: Number,
         gstRate: Number,
         returnReason: { type: String, required: true },
         lineSubtotal: Number,
         lineTax: Number,
+        cgstAmount: Number,
+        sgstAmount: Number,
+        igstAmount: Number,
+        cessAmount: Number,
         lineTotal: Number,
         qualityStatus: {
           type: String,
@@ -1,25 +1,82 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface ISaleBatchAllocation {
+  batchNo: string;
+  expiryDate?: Date | string;
+  quantity: number;
+}
+
+export interface ISaleAppliedPromotion {
+  promotionId: string;
+  promotionName: string;
+  type: string;
+  discount: number;
+}
+
 export interface ISaleItem {
   productId: string;
   productName: string;
   sku?: string;
+  parentProductId?: string;
+  variantAttributes?: Record<string, string>;
   hsnCode?: string;
   batchNo?: string;
   expiryDate?: Date | string;
-  quantity: number;
+  batchAllocations?: ISaleBatchAllocation[];
+  quantity: number; // in the selected unit
+  unit?: string;
+  conversionFactor?: number; // base units per selected unit
+  baseQuantity?: number; // quantity x conversionFactor, used for stock
   unitPrice: number;
   listPrice?: number;
   discountAmount?: number;
   discountPercentage?: number;
+  promotionId?: string; // first promotion applied to the line
+  promotionName?: string;
+  promotionDiscount?: number; // total promotion discount on the line, before tax
+  appliedPromotions?: ISaleAppliedPromotion[];
+  taxGroupId?: string; // tax master group in force on the invoice date
+  taxGroupCode?: string;
+  supplyType?: 'taxable' | 'nil_rated' | 'exempt' | 'non_gst';
   taxableValue?: number;
   gstRate?: number;
   gstAmount?: number;
   cgstAmount?: number;
   sgstAmount?: number;
+  igstAmount?: number; // interstate supply: the whole GST is IGST
   taxType?: 'gst' | 'vat';
   vatAmount?: number;
-  lineTotal?: number; // quantity * unitPrice + gstAmount
+  cessRate?: number;
+  cessPerUnit?: number; // specific cess per base unit
+  cessAmount?: number;
+  tcsRate?: number;
+  tcsAmount?: number; // collected on top of lineTotal
+  lineTotal?: number; // taxable value + GST + cess
+}
+
+export interface ISalePayment {
+  method: 'cash' | 'card' | 'upi' | 'cheque' | 'online' | 'bank_transfer';
+  amount: number; // applied to the invoice, net of change
+  tenderedAmount?: number; // cash handed over before change
+  reference?: string;
+  cardLast4?: string;
+  upiRef?: string;
+  receiptVoucherId?: string;
+  receiptNumber?: string;
+  paidAt?: Date;
+}
+
+export interface ISaleEInvoice {
+  irn: string; // 64-character invoice reference number from the IRP
+  ackNo: string;
+  ackDate?: Date;
+  signedQrCode: string; // JWT signed by the IRP, printed as the invoice QR
+  signedInvoice?: string;
+  ewbNo?: string;
+  ewbDate?: Date;
+  source: 'file' | 'mock'; // imported response file, or the local stand-in IRP
+  importedAt: Date;
+  importedBy?: string;
 }
 
 export interface ISale {
@@ -33,13 +90,20 @@ export interface ISale {
   pricingMode?: 'retail' | 'wholesale' | 'customer';
   taxMode?: 'inclusive' | 'exclusive';
   isGstBill?: boolean;
+  locationId?: string;
+  locationName?: string;
   items: ISaleItem[];
   subtotal: number; // Sum of all line totals before GST
-  totalGst: number; // Total GST amount
+  totalGst: number; // Total GST amount, cess included
+  totalCess?: number;
+  tcsAmount?: number; // TCS collected, included in totalAmount
+  promotionDiscount?: number; // Sum of line promotion discounts
   grossTotal?: number; // Total before round-off
   roundOffAmount?: number;
   totalAmount: number; // Final amount including GST
-  paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'online' | 'bank_transfer';
+  paymentMethod: 'cash' | 'card' | 'upi' | 'cheque' | 'online' | 'bank_transfer'; // largest tender when split
+  payments?: ISalePayment[]; // absent on sales recorded before split tender
+  changeDue?: number;
   paymentStatus: 'pending' | 'completed' | 'failed';
   saleStatus: 'draft' | 'completed' | 'cancelled' | 'returned';
   outstandingAmount?: number;
@@ -50,6 +114,10 @@ export interface ISale {
   customerName?: string;
   customerPhone?: string;
   customerEmail?: string;
+  customerGstin?: string;
+  placeOfSupplyCode?: string; // two-digit GST state code
+  placeOfSupply?: string;
+  isInterstate?: boolean;
   notes?: string;
   discountAmount?: number;
   discountPercentage?: number;
@@ -57,6 +125,19 @@ export interface ISale {
   priceOverrideApprovedBy?: string;
   postedAt?: Date;
   postedBy?: string;
+  offlineId?: string; // client-generated id of a sale billed while the POS was offline
+  provisionalNumber?: string; // number printed on the offline receipt
+  offlineCreatedAt?: Date;
+  offlineTerminalId?: string;
+  clientRequestId?: string; // Idempotency-Key the sale was created with
+  quotationId?: string; // quotation this invoice was converted from
+  quotationNumber?: string;
+  salesOrderId?: string; // sales order this invoice delivered against
+  salesOrderNumber?: string;
+  advanceAppliedAmount?: number; // order advance drawn down on this invoice
+  deliveryChallanIds?: string[]; // challans billed on this invoice; their stock already moved
+  deliveryChallanNumbers?: string[];
+  eInvoice?: ISaleEInvoice; // set once an IRN is registered; the invoice can no longer be edited
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -107,31 +188,74 @@ const SaleSchema = new Schema<ISale>(
       default: 'exclusive',
     },
     isGstBill: { type: Boolean, default: true },
+    locationId: { type: String, index: true },
+    locationName: String,
     items: [
       {
         productId: String,
         productName: String,
         sku: String,
+        parentProductId: String,
+        variantAttributes: Schema.Types.Mixed,
         hsnCode: String,
         batchNo: String,
         expiryDate: Date,
+        batchAllocations: [
+          new Schema(
+            {
+              batchNo: String,
+              expiryDate: Date,
+              quantity: Number,
+            },
+            { _id: false }
+          ),
+        ],
         quantity: { type: Number, required: true },
+        unit: String,
+        conversionFactor: { type: Number, default: 1 },
+        baseQuantity: Number,
         unitPrice: { type: Number, required: true },
         listPrice: Number,
         discountAmount: Number,
         discountPercentage: Number,
+        promotionId: { type: String, index: true },
+        promotionName: String,
+        promotionDiscount: { type: Number, default: 0 },
+        appliedPromotions: [
+          new Schema(
+            {
+              promotionId: String,
+              promotionName: String,
+              type: { type: String },
+              discount: Number,
+            },
+            { _id: false }
+          ),
+        ],
+        taxGroupId: String,
+        taxGroupCode: String,
+        supplyType: { type: String, enum: ['taxable', 'nil_rated', 'exempt', 'non_gst'] },
         taxableValue: Number,
         gstRate: { type: Number, default: 18 },
         gstAmount: Number,
         cgstAmount: Number,
         sgstAmount: Number,
+        igstAmount: Number,
         taxType: { type: String, enum: ['gst', 'vat'], default: 'gst' },
         vatAmount: Number,
+        cessRate: Number,
+        cessPerUnit: Number,
+        cessAmount: Number,
+        tcsRate: Number,
+        tcsAmount: Number,
         lineTotal: Number,
       },
     ],
     subtotal: { type: Number, default: 0 },
     totalGst: { type: Number, default: 0 },
+    totalCess: { type: Number, default: 0 },
+    tcsAmount: { type: Number, default: 0 },
+    promotionDiscount: { type: Number, default: 0 },
     grossTotal: { type: Number, default: 0 },
     roundOffAmount: { type: Number, default: 0 },
     totalAmount: { type: Number, default: 0 },
@@ -140,6 +264,30 @@ const SaleSchema = new Schema<ISale>(
       enum: ['cash', 'card', 'upi', 'cheque', 'online', 'bank_transfer'],
       default: 'cash',
     },
+    payments: {
+      type: [
+        new Schema(
+          {
+            method: {
+              type: String,
+              enum: ['cash', 'card', 'upi', 'cheque', 'online', 'bank_transfer'],
+              required: true,
+            },
+            amount: { type: Number, required: true, min: 0 },
+            tenderedAmount: Number,
+            reference: { type: String, trim: true },
+            cardLast4: { type: String, trim: true },
+            upiRef: { type: String, trim: true },
+            receiptVoucherId: String,
+            receiptNumber: String,
+            paidAt: { type: Date, index: true },
+          },
+          { _id: false }
+        ),
+      ],
+      default: undefined,
+    },
+    changeDue: { type: Number, default: 0 },
     paymentStatus: {
       type: String,
       enum: ['pending', 'completed', 'failed'],
@@ -158,6 +306,10 @@ const SaleSchema = new Schema<ISale>(
     customerName: String,
     customerPhone: String,
     customerEmail: String,
+    customerGstin: { type: String, trim: true, uppercase: true },
+    placeOfSupplyCode: { type: String, index: true },
+    placeOfSupply: String,
+    isInterstate: { type: Boolean, default: false },
     notes: String,
     discountAmount: { type: Number, default: 0 },
     discountPercentage: { type: Number, default: 0 },
@@ -165,8 +317,40 @@ const SaleSchema = new Schema<ISale>(
     priceOverrideApprovedBy: { type: String, index: true },
     postedAt: { type: Date, index: true },
     postedBy: { type: String, index: true },
+    offlineId: { type: String, trim: true, unique: true, sparse: true },
+    provisionalNumber: { type: String, trim: true, index: true },
+    offlineCreatedAt: Date,
+    offlineTerminalId: { type: String, trim: true },
+    clientRequestId: { type: String, trim: true, index: true, sparse: true },
+    quotationId: { type: String, index: true, sparse: true },
+    quotationNumber: String,
+    salesOrderId: { type: String, index: true, sparse: true },
+    salesOrderNumber: String,
+    advanceAppliedAmount: { type: Number, default: 0 },
+    deliveryChallanIds: { type: [String], default: undefined, index: true },
+    deliveryChallanNumbers: { type: [String], default: undefined },
+    eInvoice: {
+      type: new Schema(
+        {
+          irn: { type: String, required: true },
+          ackNo: { type: String, required: true },
+          ackDate: Date,
+          signedQrCode: { type: String, required: true },
+          signedInvoice: String,
+          ewbNo: String,
+          ewbDate: Date,
+          source: { type: String, enum: ['file', 'mock'], default: 'file' },
+          importedAt: { type: Date, default: Date.now },
+          importedBy: String,
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
   },
   { timestamps: true }
 );
 
+SaleSchema.index({ 'eInvoice.irn': 1 }, { unique: true, sparse: true });
+
 export const Sale = mongoose.model<ISale>('Sale', SaleSchema);
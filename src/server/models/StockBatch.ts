@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IStockBatch extends Document {
+  productId: mongoose.Types.ObjectId | string;
+  productName?: string;
+  sku?: string;
+  batchNo: string;
+  expiryDate?: Date;
+  quantity: number;
+  unitCost: number;
+  receivedDate: Date;
+  sourceType: 'opening' | 'purchase' | 'return' | 'adjustment';
+  sourceRef?: string;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StockBatchSchema = new Schema<IStockBatch>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true, index: true },
+    productName: { type: String, trim: true },
+    sku: { type: String, trim: true },
+    batchNo: { type: String, required: true, trim: true, uppercase: true },
+    expiryDate: { type: Date, index: true },
+    quantity: { type: Number, default: 0 },
+    unitCost: { type: Number, min: 0, default: 0 },
+    receivedDate: { type: Date, default: Date.now },
+    sourceType: {
+      type: String,
+      enum: ['opening', 'purchase', 'return', 'adjustment'],
+      default: 'purchase',
+    },
+    sourceRef: { type: String, trim: true },
+    createdBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+StockBatchSchema.index({ productId: 1, batchNo: 1 }, { unique: true });
+StockBatchSchema.index({ productId: 1, expiryDate: 1 });
+
+export const StockBatch = mongoose.model<IStockBatch>('StockBatch', StockBatchSchema);
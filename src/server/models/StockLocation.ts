@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IStockLocation extends Document {
+  locationCode: string;
+  name: string;
+  locationType: 'store' | 'warehouse' | 'outlet';
+  address?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StockLocationSchema = new Schema<IStockLocation>(
+  {
+    locationCode: { type: String, required: true, unique: true, uppercase: true, trim: true, index: true },
+    name: { type: String, required: true, trim: true },
+    locationType: {
+      type: String,
+      enum: ['store', 'warehouse', 'outlet'],
+      default: 'store',
+    },
+    address: { type: String, trim: true },
+    isDefault: { type: Boolean, default: false, index: true },
+    isActive: { type: Boolean, default: true, index: true },
+    createdBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+export const StockLocation = mongoose.model<IStockLocation>('StockLocation', StockLocationSchema);
@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type StockMovementType =
+  | 'opening'
+  | 'purchase'
+  | 'sale'
+  | 'sale_edit'
+  | 'return'
+  | 'order'
+  | 'adjustment'
+  | 'product_edit'
+  | 'transfer_out'
+  | 'transfer_in'
+  | 'stock_take'
+  | 'challan';
+
+export interface IStockMovement extends Document {
+  productId: mongoose.Types.ObjectId | string;
+  productName?: string;
+  sku?: string;
+  movementType: StockMovementType;
+  quantity: number;
+  quantityBefore: number;
+  quantityAfter: number;
+  locationId?: string;
+  locationName?: string;
+  referenceType?: string;
+  referenceId?: string;
+  referenceNo?: string;
+  batchNo?: string;
+  reason?: string;
+  userId?: string;
+  metadata?: Record<string, any>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StockMovementSchema = new Schema<IStockMovement>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true, index: true },
+    productName: { type: String, trim: true },
+    sku: { type: String, trim: true },
+    movementType: {
+      type: String,
+      enum: ['opening', 'purchase', 'sale', 'sale_edit', 'return', 'order', 'adjustment', 'product_edit', 'transfer_out', 'transfer_in', 'stock_take', 'challan'],
+      required: true,
+      index: true,
+    },
+    quantity: { type: Number, required: true },
+    quantityBefore: { type: Number, default: 0 },
+    quantityAfter: { type: Number, default: 0 },
+    locationId: { type: String, trim: true, index: true },
+    locationName: { type: String, trim: true },
+    referenceType: { type: String, trim: true },
+    referenceId: { type: String, trim: true, index: true },
+    referenceNo: { type: String, trim: true, index: true },
+    batchNo: { type: String, trim: true, uppercase: true },
+    reason: { type: String, trim: true },
+    userId: { type: String, trim: true, index: true },
+    metadata: { type: Schema.Types.Mixed },
+  },
+  { timestamps: true }
+);
+
+StockMovementSchema.index({ productId: 1, createdAt: 1 });
+
+const immutableError = () => new Error('Stock movements are immutable and cannot be modified or deleted');
+
+StockMovementSchema.pre('save', function () {
+  if (!this.isNew) {
+    throw immutableError();
+  }
+});
+
+StockMovementSchema.pre('updateOne', function () {
+  throw immutableError();
+});
+
+StockMovementSchema.pre('updateMany', function () {
+  throw immutableError();
+});
+
+StockMovementSchema.pre('findOneAndUpdate', function () {
+  throw immutableError();
+});
+
+StockMovementSchema.pre('replaceOne', function () {
+  throw immutableError();
+});
+
+StockMovementSchema.pre('deleteOne', { document: false, query: true }, function () {
+  throw immutableError();
+});
+
+StockMovementSchema.pre('deleteMany', function () {
+  throw immutableError();
+});
+
+StockMovementSchema.pre('findOneAndDelete', function () {
+  throw immutableError();
+});
+
+StockMovementSchema.pre('deleteOne', { document: true, query: false }, function () {
+  throw immutableError();
+});
+
+export const StockMovement = mongoose.model<IStockMovement>('StockMovement', StockMovementSchema);
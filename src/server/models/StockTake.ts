@@ -0,0 +1,109 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IStockTakeCount {
+  userId: string;
+  quantity: number;
+  countedAt: Date;
+}
+
+export interface IStockTakeItem {
+  productId: mongoose.Types.ObjectId | string;
+  productName: string;
+  sku?: string;
+  category?: string;
+  batchNo?: string;
+  expiryDate?: Date;
+  systemQuantity: number;
+  countedQuantity?: number;
+  varianceQuantity: number;
+  unitCost: number;
+  varianceValue: number;
+  counts: IStockTakeCount[];
+}
+
+export interface IStockTake extends Document {
+  sessionNumber: string;
+  name?: string;
+  status: 'counting' | 'submitted' | 'approving' | 'approved' | 'cancelled'; // approving: adjustments being posted
+  locationId?: string;
+  locationName?: string;
+  categories: string[];
+  snapshotAt: Date;
+  items: IStockTakeItem[];
+  uncountedAsZero: boolean;
+  totalShortageValue: number;
+  totalExcessValue: number;
+  netVarianceValue: number;
+  voucherNumber?: string;
+  notes?: string;
+  createdBy?: string;
+  submittedAt?: Date;
+  submittedBy?: string;
+  approvedAt?: Date;
+  approvedBy?: string;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StockTakeCountSchema = new Schema<IStockTakeCount>(
+  {
+    userId: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 0 },
+    countedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const StockTakeItemSchema = new Schema<IStockTakeItem>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    category: { type: String, trim: true },
+    batchNo: { type: String, trim: true, uppercase: true, default: '' },
+    expiryDate: { type: Date },
+    systemQuantity: { type: Number, default: 0 },
+    countedQuantity: { type: Number, min: 0 },
+    varianceQuantity: { type: Number, default: 0 },
+    unitCost: { type: Number, min: 0, default: 0 },
+    varianceValue: { type: Number, default: 0 },
+    counts: { type: [StockTakeCountSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const StockTakeSchema = new Schema<IStockTake>(
+  {
+    sessionNumber: { type: String, required: true, unique: true, trim: true, index: true },
+    name: { type: String, trim: true },
+    status: {
+      type: String,
+      enum: ['counting', 'submitted', 'approving', 'approved', 'cancelled'],
+      default: 'counting',
+      index: true,
+    },
+    locationId: { type: String, trim: true, index: true },
+    locationName: { type: String, trim: true },
+    categories: { type: [String], default: [] },
+    snapshotAt: { type: Date, default: Date.now },
+    items: { type: [StockTakeItemSchema], default: [] },
+    uncountedAsZero: { type: Boolean, default: false },
+    totalShortageValue: { type: Number, default: 0 },
+    totalExcessValue: { type: Number, default: 0 },
+    netVarianceValue: { type: Number, default: 0 },
+    voucherNumber: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    createdBy: { type: String },
+    submittedAt: { type: Date },
+    submittedBy: { type: String },
+    approvedAt: { type: Date },
+    approvedBy: { type: String },
+    cancelledAt: { type: Date },
+    cancelledBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+export const StockTake = mongoose.model<IStockTake>('StockTake', StockTakeSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IStockTransferItem {
+  productId: mongoose.Types.ObjectId | string;
+  productName: string;
+  sku?: string;
+  quantity: number;
+  receivedQuantity: number;
+}
+
+export interface IStockTransfer extends Document {
+  transferNumber: string;
+  fromLocationId: mongoose.Types.ObjectId | string;
+  fromLocationName: string;
+  toLocationId: mongoose.Types.ObjectId | string;
+  toLocationName: string;
+  status: 'draft' | 'in_transit' | 'received' | 'cancelled';
+  items: IStockTransferItem[];
+  notes?: string;
+  createdBy?: string;
+  dispatchedAt?: Date;
+  dispatchedBy?: string;
+  receivedAt?: Date;
+  receivedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StockTransferItemSchema = new Schema<IStockTransferItem>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+    productName: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    receivedQuantity: { type: Number, min: 0, default: 0 },
+  },
+  { _id: false }
+);
+
+const StockTransferSchema = new Schema<IStockTransfer>(
+  {
+    transferNumber: { type: String, required: true, unique: true, trim: true, index: true },
+    fromLocationId: { type: Schema.Types.ObjectId, ref: 'StockLocation', required: true, index: true },
+    fromLocationName: { type: String, required: true, trim: true },
+    toLocationId: { type: Schema.Types.ObjectId, ref: 'StockLocation', required: true, index: true },
+    toLocationName: { type: String, required: true, trim: true },
+    status: {
+      type: String,
+      enum: ['draft', 'in_transit', 'received', 'cancelled'],
+      default: 'draft',
+      index: true,
+    },
+    items: { type: [StockTransferItemSchema], default: [] },
+    notes: { type: String, trim: true },
+    createdBy: { type: String },
+    dispatchedAt: { type: Date },
+    dispatchedBy: { type: String },
+    receivedAt: { type: Date },
+    receivedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+export const StockTransfer = mongoose.model<IStockTransfer>('StockTransfer', StockTransferSchema);
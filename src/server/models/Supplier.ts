@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISupplier extends Document {
+  supplierCode: string;
+  name: string;
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  gstin?: string;
+  address?: string;
+  paymentTermsDays: number;
+  leadTimeDays: number;
+  outstandingBalance: number;
+  isActive: boolean;
+  notes?: string;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const SupplierSchema = new Schema<ISupplier>(
+  {
+    supplierCode: { type: String, required: true, unique: true, uppercase: true, trim: true, index: true },
+    name: { type: String, required: true, trim: true, index: true },
+    contactPerson: { type: String, trim: true },
+    phone: { type: String, trim: true, index: true },
+    email: { type: String, trim: true, lowercase: true },
+    gstin: { type: String, trim: true, uppercase: true },
+    address: { type: String, trim: true },
+    paymentTermsDays: { type: Number, min: 0, default: 0 },
+    leadTimeDays: { type: Number, min: 0, default: 7 },
+    outstandingBalance: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true, index: true },
+    notes: { type: String, trim: true },
+    createdBy: { type: String, index: true },
+  },
+  { timestamps: true }
+);
+
+export const Supplier = mongoose.model<ISupplier>('Supplier', SupplierSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TaxSupplyType = 'taxable' | 'nil_rated' | 'exempt' | 'non_gst';
+export type TaxComponentType = 'cgst' | 'sgst' | 'igst' | 'cess' | 'tcs';
+
+export interface ITaxComponent {
+  type: TaxComponentType;
+  rate: number; // percent of the taxable value (of the line value including GST and cess, for TCS)
+  perUnitAmount?: number; // specific cess per base unit, charged on top of any ad-valorem rate
+}
+
+export interface ITaxGroup extends Document {
+  code: string;
+  name: string;
+  description?: string;
+  supplyType: TaxSupplyType;
+  components: ITaxComponent[];
+  isActive: boolean;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const TaxComponentSchema = new Schema<ITaxComponent>(
+  {
+    type: { type: String, enum: ['cgst', 'sgst', 'igst', 'cess', 'tcs'], required: true },
+    rate: { type: Number, min: 0, max: 100, default: 0 },
+    perUnitAmount: { type: Number, min: 0, default: 0 },
+  },
+  { _id: false }
+);
+
+const TaxGroupSchema = new Schema<ITaxGroup>(
+  {
+    code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    supplyType: {
+      type: String,
+      enum: ['taxable', 'nil_rated', 'exempt', 'non_gst'],
+      default: 'taxable',
+      index: true,
+    },
+    components: { type: [TaxComponentSchema], default: [] },
+    isActive: { type: Boolean, default: true, index: true },
+    createdBy: String,
+    updatedBy: String,
+  },
+  { timestamps: true }
+);
+
+export const TaxGroup = mongoose.model<ITaxGroup>('TaxGroup', TaxGroupSchema);
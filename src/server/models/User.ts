@@ -44,6 +44,7 @@ const userSchema = new Schema<IUserDocument>(
       type: String,
       match: [/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/, 'Invalid GSTIN format'],
     },
+    assignedLocationId: { type: String, index: true },
     address: {
       street: String,
       city: String,
@@ -12,11 +12,22 @@ import { AccountLedgerEntry, LedgerVoucherType } from '../models/AccountLedgerEn
 import { AccountingVoucher, VoucherType } from '../models/AccountingVoucher.js';
 import { OpeningBalanceSetup } from '../models/OpeningBalanceSetup.js';
 import { generateNumber } from '../services/numbering.js';
+import {
+  PaymentMode,
+  createVoucherAndLedger,
+  ensureDefaultChartAccounts,
+  getAccountClosing,
+  getCoreAccount,
+  getOrCreateAccount,
+  normalizePaymentMode,
+  postLedger,
+  round2,
+} from '../services/accounting.js';
+import { saleTenders } from '../services/salePayments.js';
 import { Employee } from '../models/Employee.js';
 
 const router = Router();
 
-type PaymentMode = 'cash' | 'bank' | 'card' | 'upi' | 'cheque' | 'online' | 'bank_transfer' | 'adjustment';
 type DayBookPaymentMode = 'cash' | 'card' | 'upi' | 'bank' | 'cheque' | 'online';
 type BookType = 'cash' | 'bank';
 
@@ -37,8 +48,6 @@ const toDateRange = (startDate?: string, endDate?: string) => {
   return { start, end };
 };
 
-const round2 = (value: number) => Number(Number(value || 0).toFixed(2));
-
 const aggregateSum = async (
   model: any,
   field: string,
@@ -54,18 +63,6 @@ const aggregateSum = async (
   return result[0]?.total || 0;
 };
 
-const normalizePaymentMode = (input?: string): PaymentMode => {
-  const value = String(input || 'cash').toLowerCase();
-  if (value === 'cash') return 'cash';
-  if (value === 'bank') return 'bank';
-  if (value === 'card') return 'card';
-  if (value === 'upi') return 'upi';
-  if (value === 'cheque') return 'cheque';
-  if (value === 'online') return 'online';
-  if (value === 'bank_transfer') return 'bank_transfer';
-  return 'cash';
-};
-
 const toDayBookPaymentMode = (mode: PaymentMode): DayBookPaymentMode => {
   if (mode === 'cash') return 'cash';
   if (mode === 'card') return 'card';
@@ -82,78 +79,6 @@ const isPrivileged = (req: AuthenticatedRequest) => {
   return role === 'admin' || role === 'super_admin' || role === 'manager';
 };
 
-const CORE_ACCOUNTS: Array<{ accountCode: string; accountName: string; accountType: AccountType; subType: AccountSubType }> = [
-  { accountCode: '1000', accountName: 'Cash Account', accountType: 'asset', subType: 'cash' },
-  { accountCode: '1010', accountName: 'Bank Account', accountType: 'asset', subType: 'bank' },
-  { accountCode: '1200', accountName: 'Opening Stock', accountType: 'asset', subType: 'stock' },
-  { accountCode: '1100', accountName: 'Customer Control', accountType: 'asset', subType: 'customer' },
-  { accountCode: '2000', accountName: 'Supplier Control', accountType: 'liability', subType: 'supplier' },
-  { accountCode: '3000', accountName: 'Sales Income', accountType: 'income', subType: 'general' },
-  { accountCode: '3100', accountName: 'Other Income', accountType: 'income', subType: 'general' },
-  { accountCode: '4000', accountName: 'Expense', accountType: 'expense', subType: 'general' },
-  { accountCode: '4010', accountName: 'Salary Expense', accountType: 'expense', subType: 'general' },
-  { accountCode: '4020', accountName: 'Contract Expense', accountType: 'expense', subType: 'general' },
-];
-
-const ensureDefaultChartAccounts = async () => {
-  for (const row of CORE_ACCOUNTS) {
-    await ChartAccount.findOneAndUpdate(
-      { accountCode: row.accountCode },
-      {
-        $setOnInsert: {
-          ...row,
-          openingBalance: 0,
-          openingSide: 'debit',
-          isSystem: true,
-          isActive: true,
-        },
-      },
-      { upsert: true, new: true }
-    );
-  }
-};
-
-const getCoreAccount = async (subType: 'cash' | 'bank' | 'stock') => {
-  await ensureDefaultChartAccounts();
-  const account = await ChartAccount.findOne({ subType, isActive: true }).sort({ isSystem: -1, accountCode: 1 });
-  if (!account) {
-    throw new Error(`${subType} account is not configured`);
-  }
-  return account;
-};
-
-const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-const getOrCreateAccount = async (params: {
-  accountName: string;
-  accountType: AccountType;
-  subType?: AccountSubType;
-  createdBy?: string;
-  isSystem?: boolean;
-}) => {
-  const accountName = String(params.accountName || '').trim();
-  if (!accountName) throw new Error('accountName is required');
-
-  const existing = await ChartAccount.findOne({
-    accountType: params.accountType,
-    accountName: { $regex: `^${escapeRegex(accountName)}$`, $options: 'i' },
-  });
-  if (existing) return existing;
-
-  const accountCode = await generateNumber('chart_account', { prefix: 'AC-', padTo: 5 });
-  return ChartAccount.create({
-    accountCode,
-    accountName,
-    accountType: params.accountType,
-    subType: params.subType || 'general',
-    openingBalance: 0,
-    openingSide: 'debit',
-    isSystem: Boolean(params.isSystem),
-    isActive: true,
-    createdBy: params.createdBy,
-  });
-};
-
 const getOpeningSetup = async () =>
   OpeningBalanceSetup.findOneAndUpdate(
     { setupKey: 'primary' },
@@ -161,140 +86,6 @@ const getOpeningSetup = async () =>
     { new: true, upsert: true }
   );
 
-const getAccountClosing = async (accountId: any, endDate?: Date) => {
-  const filter: Record<string, any> = { accountId };
-  if (endDate) filter.entryDate = { $lte: endDate };
-  const last = await AccountLedgerEntry.findOne(filter).sort({ entryDate: -1, createdAt: -1, _id: -1 });
-  return Number(last?.runningBalance || 0);
-};
-
-const postLedger = async (params: {
-  accountId: any;
-  entryDate: Date;
-  voucherType: LedgerVoucherType;
-  voucherNumber?: string;
-  referenceNo?: string;
-  narration?: string;
-  debit?: number;
-  credit?: number;
-  paymentMode?: PaymentMode;
-  createdBy?: string;
-  metadata?: Record<string, any>;
-}) => {
-  const debit = round2(Number(params.debit || 0));
-  const credit = round2(Number(params.credit || 0));
-  if (debit <= 0 && credit <= 0) throw new Error('Either debit or credit must be greater than 0');
-
-  const runningBalance = round2((await getAccountClosing(params.accountId, params.entryDate)) + debit - credit);
-  return AccountLedgerEntry.create({
-    accountId: params.accountId,
-    entryDate: params.entryDate,
-    voucherType: params.voucherType,
-    voucherNumber: params.voucherNumber,
-    referenceNo: params.referenceNo,
-    narration: params.narration,
-    debit,
-    credit,
-    paymentMode: params.paymentMode,
-    runningBalance,
-    createdBy: params.createdBy,
-    metadata: params.metadata,
-  });
-};
-
-const createVoucherAndLedger = async (params: {
-  voucherType: VoucherType;
-  voucherDate: Date;
-  paymentMode?: PaymentMode;
-  referenceNo?: string;
-  counterpartyName?: string;
-  notes?: string;
-  lines: Array<{ accountId: string; debit: number; credit: number; narration?: string }>;
-  createdBy?: string;
-}) => {
-  const lines = params.lines
-    .map((line) => ({
-      accountId: String(line.accountId || '').trim(),
-      debit: round2(Number(line.debit || 0)),
-      credit: round2(Number(line.credit || 0)),
-      narration: line.narration,
-    }))
-    .filter((line) => line.accountId && (line.debit > 0 || line.credit > 0));
-
-  if (lines.length < 2) throw new Error('Voucher requires at least two valid lines');
-  const totalDebit = round2(lines.reduce((sum, line) => sum + line.debit, 0));
-  const totalCredit = round2(lines.reduce((sum, line) => sum + line.credit, 0));
-  if (totalDebit <= 0 || totalDebit !== totalCredit) {
-    throw new Error('Voucher debit and credit totals must match');
-  }
-
-  const key =
-    params.voucherType === 'receipt'
-      ? 'receipt_voucher_manual'
-      : params.voucherType === 'payment'
-        ? 'payment_voucher'
-        : params.voucherType === 'journal'
-          ? 'journal_voucher'
-          : 'transfer_voucher';
-  const prefix =
-    params.voucherType === 'receipt'
-      ? 'RV-'
-      : params.voucherType === 'payment'
-        ? 'PV-'
-        : params.voucherType === 'journal'
-          ? 'JV-'
-          : 'TV-';
-  const voucherNumber = await generateNumber(key, { prefix, datePart: true, padTo: 5 });
-
-  const accountMap = new Map<string, any>();
-  for (const line of lines) {
-    const account = await ChartAccount.findById(line.accountId);
-    if (!account) throw new Error(`Account not found: ${line.accountId}`);
-    accountMap.set(line.accountId, account);
-  }
-
-  const voucher = await AccountingVoucher.create({
-    voucherNumber,
-    voucherType: params.voucherType,
-    voucherDate: params.voucherDate,
-    paymentMode: params.paymentMode,
-    referenceNo: params.referenceNo,
-    counterpartyName: params.counterpartyName,
-    notes: params.notes,
-    totalAmount: totalDebit,
-    lines: lines.map((line) => {
-      const account = accountMap.get(line.accountId);
-      return {
-        accountId: account._id,
-        accountCode: account.accountCode,
-        accountName: account.accountName,
-        debit: line.debit,
-        credit: line.credit,
-        narration: line.narration,
-      };
-    }),
-    createdBy: params.createdBy,
-  });
-
-  for (const line of lines) {
-    await postLedger({
-      accountId: line.accountId,
-      entryDate: params.voucherDate,
-      voucherType: params.voucherType,
-      voucherNumber: voucher.voucherNumber,
-      referenceNo: params.referenceNo,
-      narration: line.narration || params.notes,
-      debit: line.debit,
-      credit: line.credit,
-      paymentMode: params.paymentMode,
-      createdBy: params.createdBy,
-      metadata: { source: 'voucher', sourceId: voucher._id.toString() },
-    });
-  }
-
-  return voucher;
-};
-
 // Salary payments
 router.get('/employees/master', authMiddleware, async (_req: AuthenticatedRequest, res: Response) => {
   try {
@@ -1227,13 +1018,18 @@ const collectBookEvents = async (book: BookType, start: Date, end: Date): Promis
   const cashAccount = await getCoreAccount('cash');
   const bankAccount = await getCoreAccount('bank');
 
-  const [sales, returns, salaries, contracts, daybookRows, receiptRows, transferRows] = await Promise.all([
-    Sale.find({ createdAt: { $gte: start, $lte: end }, saleStatus: 'completed', invoiceStatus: 'posted' }).sort({ createdAt: 1 }),
+  const [sales, returns, salaries, contracts, daybookRows, receiptRows, refundRows, transferRows] = await Promise.all([
+    Sale.find({
+      saleStatus: 'completed',
+      invoiceStatus: 'posted',
+      $or: [{ createdAt: { $gte: start, $lte: end } }, { 'payments.paidAt': { $gte: start, $lte: end } }],
+    }).sort({ createdAt: 1 }),
     Return.find({ createdAt: { $gte: start, $lte: end }, returnStatus: { $ne: 'rejected' } }).sort({ createdAt: 1 }),
     SalaryPayment.find({ payDate: { $gte: start, $lte: end } }).sort({ payDate: 1 }),
     ContractPayment.find({ paymentDate: { $gte: start, $lte: end }, status: { $in: ['paid', 'partial'] } }).sort({ paymentDate: 1 }),
     DayBookEntry.find({ entryDate: { $gte: start, $lte: end } }).sort({ entryDate: 1 }),
-    ReceiptVoucher.find({ entryDate: { $gte: start, $lte: end } }).sort({ entryDate: 1 }),
+    ReceiptVoucher.find({ entryDate: { $gte: start, $lte: end }, sourceType: { $ne: 'sale_tender' } }).sort({ entryDate: 1 }),
+    ReceiptVoucher.find({ 'refunds.refundedAt': { $gte: start, $lte: end } }),
     AccountLedgerEntry.find({
       voucherType: 'transfer',
       accountId: { $in: [cashAccount._id, bankAccount._id] },
@@ -1243,17 +1039,21 @@ const collectBookEvents = async (book: BookType, start: Date, end: Date): Promis
 
   const events: BookEvent[] = [];
 
+  // Each tender goes to its own book; a cash + UPI bill appears in both.
   for (const row of sales) {
-    if (toBookType(row.paymentMethod) !== book) continue;
-    events.push({
-      time: row.createdAt || new Date(),
-      source: 'sale',
-      type: 'inflow',
-      amount: round2(Number(row.totalAmount || 0)),
-      narration: `Sale ${row.invoiceNumber || row.saleNumber}`,
-      reference: row.invoiceNumber || row.saleNumber,
-      paymentMethod: row.paymentMethod,
-    });
+    for (const tender of saleTenders(row)) {
+      const paidAt = new Date(tender.paidAt || row.createdAt || new Date());
+      if (toBookType(tender.method) !== book || paidAt < start || paidAt > end) continue;
+      events.push({
+        time: paidAt,
+        source: 'sale',
+        type: 'inflow',
+        amount: round2(Number(tender.amount || 0)),
+        narration: `Sale ${row.invoiceNumber || row.saleNumber}${tender.receiptNumber ? ` (${tender.receiptNumber})` : ''}`,
+        reference: row.invoiceNumber || row.saleNumber,
+        paymentMethod: tender.method,
+      });
+    }
   }
 
   for (const row of returns) {
@@ -1321,6 +1121,23 @@ const collectBookEvents = async (book: BookType, start: Date, end: Date): Promis
     });
   }
 
+  // Advances paid back on cancelled sales orders leave the book the refund was paid from.
+  for (const row of refundRows) {
+    for (const refund of row.refunds || []) {
+      const refundedAt = new Date(refund.refundedAt);
+      if (toBookType(refund.mode) !== book || refundedAt < start || refundedAt > end) continue;
+      events.push({
+        time: refundedAt,
+        source: 'receipt_refund',
+        type: 'outflow',
+        amount: round2(Number(refund.amount || 0)),
+        narration: `Advance refund ${row.voucherNumber}${refund.reason ? ` - ${refund.reason}` : ''}`,
+        reference: row.voucherNumber,
+        paymentMethod: refund.mode,
+      });
+    }
+  }
+
   for (const row of transferRows) {
     const isCashAccount = row.accountId.toString() === cashAccount._id.toString();
     const match = (book === 'cash' && isCashAccount) || (book === 'bank' && !isCashAccount);
@@ -0,0 +1,107 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { writeAuditLog } from '../services/audit.js';
+import {
+  buildCatalogExport,
+  CATALOG_IMPORT_COLUMNS,
+  CATALOG_IMPORT_ENTITIES,
+  CatalogImportEntity,
+  commitCatalogImport,
+  readImportRows,
+  validateCatalogImport,
+} from '../services/catalogImport.js';
+import { toCsv, writeXlsx } from '../utils/spreadsheet.js';
+
+const router = Router();
+
+const normalizeEntity = (value: any): CatalogImportEntity | null => {
+  const entity = String(value || '').trim().toLowerCase() as CatalogImportEntity;
+  return CATALOG_IMPORT_ENTITIES.includes(entity) ? entity : null;
+};
+
+// Validate (dryRun) or commit a CSV/XLSX import. XLSX content is sent base64 encoded.
+router.post('/import', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { format = 'csv', content, dryRun = true } = req.body;
+    const entity = normalizeEntity(req.body.entity);
+    if (!entity) {
+      return res.status(400).json({
+        success: false,
+        error: `entity must be one of ${CATALOG_IMPORT_ENTITIES.join(', ')}`,
+      });
+    }
+    if (!content) {
+      return res.status(400).json({ success: false, error: 'content is required' });
+    }
+
+    let rows: string[][];
+    try {
+      rows = readImportRows(String(format), String(content));
+    } catch (parseError: any) {
+      return res.status(400).json({ success: false, error: parseError.message || 'Unable to read file' });
+    }
+    if (rows.length < 2) {
+      return res.status(400).json({ success: false, error: 'File needs a header row and at least one data row' });
+    }
+
+    const validation = await validateCatalogImport(entity, rows);
+    if (dryRun !== false && String(dryRun) !== 'false') {
+      return res.json({ success: true, message: 'Dry run completed', data: validation });
+    }
+    if (validation.errorRows > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Import has ${validation.errorRows} invalid rows. Nothing was imported.`,
+        data: validation,
+      });
+    }
+
+    const imported = await commitCatalogImport(validation, req.userId);
+
+    await writeAuditLog({
+      module: 'catalog',
+      action: 'bulk_import',
+      entityType: entity,
+      userId: req.userId,
+      metadata: { format, imported },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${imported} rows imported`,
+      data: { ...validation, imported },
+    });
+  } catch (error: any) {
+    console.error('Catalog import error:', error);
+    res.status(500).json({ success: false, error: error.message || 'Failed to import catalog' });
+  }
+});
+
+router.get('/template', async (req: AuthenticatedRequest, res: Response) => {
+  const entity = normalizeEntity(req.query.entity) || 'products';
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${entity}_template.csv"`);
+  res.send(toCsv([CATALOG_IMPORT_COLUMNS[entity]]));
+});
+
+router.get('/export', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const entity = String(req.query.entity || 'products') === 'categories' ? 'categories' : 'products';
+    const format = String(req.query.format || 'csv').toLowerCase() === 'xlsx' ? 'xlsx' : 'csv';
+    const rows = await buildCatalogExport(entity);
+    const fileName = `${entity}_${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      return res.send(writeXlsx(rows, entity));
+    }
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.send(`\ufeff${toCsv(rows)}`);
+  } catch (error: any) {
+    console.error('Catalog export error:', error);
+    res.status(500).json({ success: false, error: error.message || 'Failed to export catalog' });
+  }
+});
+
+export default router;
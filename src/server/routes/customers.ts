@@ -5,6 +5,7 @@ import { CustomerLedgerEntry } from '../models/CustomerLedgerEntry.js';
 import { Sale } from '../models/Sale.js';
 import { generateNumber } from '../services/numbering.js';
 import { writeAuditLog } from '../services/audit.js';
+import { normalizeStateCode } from '../utils/gst.js';
 
 const router = Router();
 
@@ -39,6 +40,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       phone,
       email,
       gstin,
+      stateCode,
       address,
       accountType = 'cash',
       creditLimit = 0,
@@ -51,6 +53,9 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
     if (!name) {
       return res.status(400).json({ success: false, error: 'name is required' });
     }
+    if (stateCode && !normalizeStateCode(stateCode)) {
+      return res.status(400).json({ success: false, error: 'stateCode is not a valid GST state code' });
+    }
 
     const finalCode = String(customerCode || '').trim().toUpperCase()
       || await generateNumber('customer_code', { prefix: 'CUST-', padTo: 5 });
@@ -66,6 +71,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       phone,
       email,
       gstin,
+      stateCode: normalizeStateCode(stateCode) || undefined,
       address,
       accountType: String(accountType) === 'credit' ? 'credit' : 'cash',
       creditLimit: Number(creditLimit || 0),
@@ -194,6 +200,9 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
   try {
     const current = await Customer.findById(req.params.id);
     if (!current) return res.status(404).json({ success: false, error: 'Customer not found' });
+    if (req.body.stateCode && !normalizeStateCode(req.body.stateCode)) {
+      return res.status(400).json({ success: false, error: 'stateCode is not a valid GST state code' });
+    }
 
     const updates = {
       ...req.body,
@@ -202,6 +211,7 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       creditLimit: req.body.creditLimit !== undefined ? Number(req.body.creditLimit) : current.creditLimit,
       creditDays: req.body.creditDays !== undefined ? Number(req.body.creditDays) : current.creditDays,
       priceOverrides: Array.isArray(req.body.priceOverrides) ? req.body.priceOverrides : current.priceOverrides,
+      stateCode: req.body.stateCode !== undefined ? normalizeStateCode(req.body.stateCode) || undefined : current.stateCode,
     };
 
     const customer = await Customer.findByIdAndUpdate(req.params.id, updates, { new: true, runValidators: true });
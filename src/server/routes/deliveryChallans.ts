@@ -0,0 +1,408 @@
+import { Router, Response } from 'express';
+import { DeliveryChallan } from '../models/DeliveryChallan.js';
+import { Sale } from '../models/Sale.js';
+import { Customer } from '../models/Customer.js';
+import { User } from '../models/User.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { generateNumber } from '../services/numbering.js';
+import { generateInvoiceNumber } from '../services/appSettings.js';
+import { writeAuditLog } from '../services/audit.js';
+import { maxDiscountForRole } from '../services/discountPolicy.js';
+import { resolveLocation, resolveUserLocation } from '../services/stockLocations.js';
+import { applyRoundOffIfNeeded, processItems } from '../services/salePricing.js';
+import { postSaleFinancials } from '../services/salePosting.js';
+import { challanLinesForInvoice, issueChallanStock, returnChallanStock } from '../services/deliveryChallans.js';
+import { resolvePlaceOfSupply } from '../services/placeOfSupply.js';
+import { EWAY_BILL_THRESHOLD, buildEwayBillPayload, normalizeTransport, resolveEwaySeller } from '../services/ewayBill.js';
+import { runInTransaction } from '../services/transactions.js';
+import { normalizeStateCode } from '../utils/gst.js';
+
+const router = Router();
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+const getRequestUserRole = async (userId?: string): Promise<string> => {
+  if (!userId) return 'receptionist';
+  const user = await User.findById(userId);
+  return String(user?.role || 'receptionist');
+};
+
+const errorStatus = (message: string) => {
+  if (message.includes('not found')) return 404;
+  if (message.includes('already invoiced') || message.includes('already cancelled')) return 409;
+  return message.includes('Insufficient')
+    || message.includes('Invalid quantity')
+    || message.includes('required')
+    || message.includes('same customer')
+    || message.includes('tax mode')
+    || message.includes('place of supply')
+    ? 400
+    : 500;
+};
+
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { status, customerId, q, skip = 0, limit = 20 } = req.query;
+    const filter: any = {};
+    if (status) filter.status = String(status);
+    if (customerId) filter.customerId = String(customerId);
+    if (q) {
+      const pattern = { $regex: String(q).trim(), $options: 'i' };
+      filter.$or = [{ challanNumber: pattern }, { customerName: pattern }, { customerPhone: pattern }, { invoiceNumber: pattern }];
+    }
+
+    const rows = await DeliveryChallan.find(filter).sort({ challanDate: -1 }).skip(Number(skip)).limit(Number(limit));
+    const total = await DeliveryChallan.countDocuments(filter);
+    res.json({ success: true, data: rows, pagination: { total, skip: Number(skip), limit: Number(limit) } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch delivery challans' });
+  }
+});
+
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const challan = await DeliveryChallan.findById(req.params.id);
+    if (!challan) return res.status(404).json({ success: false, error: 'Delivery challan not found' });
+    res.json({ success: true, data: challan });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch delivery challan' });
+  }
+});
+
+// A challan moves stock out to the customer's site now and is billed later, alone or with other challans.
+router.post('/', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { items, customerId, pricingMode, taxMode, approvePriceOverride } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'Delivery challan must have at least one item' });
+    }
+    if (!customerId) return res.status(400).json({ success: false, error: 'customerId is required for a delivery challan' });
+
+    const customer = await Customer.findById(customerId);
+    if (!customer) return res.status(404).json({ success: false, error: 'Customer not found' });
+    if (customer.isBlocked) return res.status(403).json({ success: false, error: 'Customer account is blocked for billing' });
+
+    const finalPricingMode = ['wholesale', 'customer'].includes(String(pricingMode)) ? String(pricingMode) : 'retail';
+    const finalTaxMode = String(taxMode) === 'inclusive' ? 'inclusive' : 'exclusive';
+    const location = await resolveUserLocation(req.userId);
+    // Goods are supplied where they are delivered, so the ship-to state wins over the customer's own.
+    const shipToStateCode = normalizeStateCode(req.body.shipToStateCode) || undefined;
+    if (req.body.shipToStateCode && !shipToStateCode) {
+      return res.status(400).json({ success: false, error: 'shipToStateCode is not a valid GST state code' });
+    }
+    const supply = await resolvePlaceOfSupply({ customer, stateCode: shipToStateCode, userId: req.userId });
+    const challanDate = req.body.challanDate ? new Date(req.body.challanDate) : new Date();
+    const { processedItems, subtotal, totalTax, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
+      validateStock: true,
+      allowNegativeStock: false,
+      pricingMode: finalPricingMode as any,
+      taxMode: finalTaxMode,
+      customer,
+      location,
+      isInterstate: supply.isInterstate,
+      promotionAt: challanDate,
+    });
+
+    const userRole = await getRequestUserRole(req.userId);
+    const needsApproval = priceOverrideRequired || Math.max(0, ...itemDiscountPercentages) > maxDiscountForRole(userRole);
+    if (needsApproval && !(approvePriceOverride && ['admin', 'manager'].includes(userRole))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Price override approval by admin/manager is required for this challan',
+        data: { requiresApproval: true },
+      });
+    }
+
+    const challan = await runInTransaction(async () => {
+      const challan = new DeliveryChallan({
+        challanNumber: await generateNumber('delivery_challan', { prefix: 'DC-', datePart: true, padTo: 5 }),
+        challanDate,
+        customerId: customer._id.toString(),
+        customerCode: customer.customerCode,
+        customerName: customer.name,
+        customerPhone: customer.phone,
+        customerGstin: customer.gstin,
+        shipToAddress: String(req.body.shipToAddress || customer.address || '').trim() || undefined,
+        shipToPincode: String(req.body.shipToPincode || '').trim() || undefined,
+        shipToStateCode,
+        ...supply,
+        pricingMode: finalPricingMode,
+        taxMode: finalTaxMode,
+        locationId: location._id.toString(),
+        locationName: location.name,
+        items: processedItems.map((line: any, index: number) => ({
+          productId: String(line.productId),
+          productName: line.productName,
+          sku: line.sku,
+          hsnCode: line.hsnCode,
+          batchNo: line.batchNo || undefined,
+          batchAllocations: line.batchAllocations,
+          quantity: line.quantity,
+          unit: line.unit,
+          conversionFactor: line.conversionFactor,
+          baseQuantity: line.baseQuantity,
+          unitPrice: round2(Number(items[index]?.unitPrice ?? line.listPrice)),
+          discountAmount: line.discountAmount,
+          discountPercentage: line.discountPercentage,
+          gstRate: line.gstRate,
+          taxableValue: line.taxableValue,
+          gstAmount: line.gstAmount,
+          lineTotal: line.lineTotal,
+        })),
+        subtotal,
+        totalGst: totalTax,
+        totalValue: round2(subtotal + totalTax),
+        transport: normalizeTransport(req.body.transport),
+        notes: req.body.notes,
+        createdBy: req.userId,
+      });
+      await issueChallanStock(challan, location, req.userId);
+      await challan.save();
+      return challan;
+    });
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'delivery_challan_issued',
+      entityType: 'delivery_challan',
+      entityId: challan._id.toString(),
+      referenceNo: challan.challanNumber,
+      userId: req.userId,
+      metadata: { totalValue: challan.totalValue, priceOverrideApproved: needsApproval },
+      after: challan.toObject(),
+    });
+
+    res.status(201).json({ success: true, message: `Delivery challan ${challan.challanNumber} issued`, data: challan });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to issue delivery challan';
+    res.status(errorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+/**
+ * Bills one or more issued challans of the same customer on a single posted credit invoice. The stock left
+ * with the challans, so the invoice only carries their batches and posts the customer ledger.
+ */
+router.post('/invoice', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const challanIds: string[] = Array.isArray(req.body?.challanIds) ? req.body.challanIds.map(String) : [];
+    if (challanIds.length === 0) return res.status(400).json({ success: false, error: 'challanIds are required' });
+
+    const { sale, challans } = await runInTransaction(async () => {
+      const challans = await DeliveryChallan.find({ _id: { $in: challanIds } }).sort({ challanDate: 1 });
+      if (challans.length !== new Set(challanIds).size) throw new Error('Delivery challan not found');
+      const closed = challans.find((row) => row.status !== 'issued');
+      if (closed) throw new Error(`Challan ${closed.challanNumber} is already ${closed.status}`);
+      if (new Set(challans.map((row) => row.customerId)).size > 1) {
+        throw new Error('Challans billed together must belong to the same customer');
+      }
+      if (new Set(challans.map((row) => row.taxMode)).size > 1) {
+        throw new Error('Challans billed together must use the same tax mode');
+      }
+      if (new Set(challans.map((row) => row.placeOfSupplyCode || '')).size > 1) {
+        throw new Error('Challans billed together must have the same place of supply');
+      }
+
+      const invoicedAt = new Date();
+      const claimed = await DeliveryChallan.updateMany(
+        { _id: { $in: challans.map((row) => row._id) }, status: 'issued' },
+        { $set: { status: 'invoiced', invoicedAt, invoicedBy: req.userId } }
+      );
+      if (claimed.modifiedCount !== challans.length) throw new Error('One or more challans were already invoiced');
+
+      const first = challans[0];
+      const customer = await Customer.findById(first.customerId);
+      // Each challan is priced with the promotions of its own date; tax is charged as on the invoice date.
+      const processedItems: any[] = [];
+      let subtotal = 0;
+      let totalTax = 0;
+      let totalCess = 0;
+      let totalTcs = 0;
+      let promotionDiscount = 0;
+      for (const challan of challans) {
+        const priced = await processItems(challanLinesForInvoice(challan), {
+          validateStock: false,
+          allowNegativeStock: true,
+          pricingMode: challan.pricingMode,
+          taxMode: challan.taxMode,
+          customer,
+          isInterstate: Boolean(challan.isInterstate),
+          promotionAt: challan.challanDate,
+          taxDate: invoicedAt,
+          stockIssued: true,
+        });
+        processedItems.push(...priced.processedItems);
+        subtotal = round2(subtotal + priced.subtotal);
+        totalTax = round2(totalTax + priced.totalTax);
+        totalCess = round2(totalCess + priced.totalCess);
+        totalTcs = round2(totalTcs + priced.totalTcs);
+        promotionDiscount = round2(promotionDiscount + priced.promotionDiscount);
+      }
+      const totals = applyRoundOffIfNeeded(subtotal + totalTax + totalTcs, req.body?.applyRoundOff !== false);
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + Math.max(0, Number(customer?.creditDays || 0)));
+      const challanNumbers = challans.map((row) => row.challanNumber);
+
+      const sale = new Sale({
+        saleNumber: await generateNumber('sale_number', { prefix: 'S7SA/', padTo: 6 }),
+        invoiceNumber: await generateInvoiceNumber(),
+        userId: req.userId,
+        invoiceType: 'credit',
+        invoiceStatus: 'posted',
+        isLocked: true,
+        pricingMode: first.pricingMode,
+        taxMode: first.taxMode,
+        locationId: first.locationId,
+        locationName: first.locationName,
+        items: processedItems,
+        subtotal,
+        totalGst: totalTax,
+        totalCess,
+        tcsAmount: totalTcs,
+        promotionDiscount,
+        grossTotal: totals.grossTotal,
+        roundOffAmount: totals.roundOffAmount,
+        totalAmount: totals.totalAmount,
+        paymentMethod: 'cash',
+        payments: [],
+        paymentStatus: 'pending',
+        saleStatus: 'completed',
+        outstandingAmount: totals.totalAmount,
+        creditAppliedAmount: 0,
+        dueDate,
+        customerId: first.customerId,
+        customerCode: first.customerCode,
+        customerName: first.customerName,
+        customerPhone: first.customerPhone,
+        customerEmail: customer?.email,
+        customerGstin: first.customerGstin,
+        placeOfSupplyCode: first.placeOfSupplyCode,
+        placeOfSupply: first.placeOfSupply,
+        isInterstate: Boolean(first.isInterstate),
+        notes: [`Against delivery challan ${challanNumbers.join(', ')}`, req.body?.notes].filter(Boolean).join(' - '),
+        postedAt: invoicedAt,
+        postedBy: req.userId,
+        clientRequestId: String(req.get('Idempotency-Key') || '').trim() || undefined,
+        deliveryChallanIds: challans.map((row) => row._id.toString()),
+        deliveryChallanNumbers: challanNumbers,
+      });
+      await sale.save();
+      await postSaleFinancials(sale, { userId: req.userId, paidAmount: 0 });
+      await sale.save();
+
+      await DeliveryChallan.updateMany(
+        { _id: { $in: challans.map((row) => row._id) } },
+        { $set: { invoicedSaleId: sale._id.toString(), invoiceNumber: sale.invoiceNumber } }
+      );
+      return { sale, challans };
+    });
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'delivery_challans_invoiced',
+      entityType: 'sale',
+      entityId: sale._id.toString(),
+      referenceNo: sale.invoiceNumber,
+      userId: req.userId,
+      metadata: { challans: challans.map((row) => row.challanNumber), totalAmount: sale.totalAmount },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${challans.length} challan(s) billed on invoice ${sale.invoiceNumber}`,
+      data: sale,
+    });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to invoice delivery challans';
+    res.status(errorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+// Cancelling brings the goods back into the location they left from; invoiced challans go through returns.
+router.post('/:id/cancel', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const challan = await runInTransaction(async () => {
+      const challan = await DeliveryChallan.findOneAndUpdate(
+        { _id: req.params.id, status: 'issued' },
+        { $set: { status: 'cancelled', cancelledAt: new Date(), cancelledBy: req.userId, cancelReason: req.body?.reason } },
+        { new: true }
+      );
+      if (!challan) {
+        const existing = await DeliveryChallan.findById(req.params.id).select('status');
+        throw new Error(existing ? `Challan is already ${existing.status}` : 'Delivery challan not found');
+      }
+      const location = challan.locationId ? await resolveLocation(challan.locationId) : null;
+      await returnChallanStock(challan, location, req.userId, req.body?.reason);
+      return challan;
+    });
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'delivery_challan_cancelled',
+      entityType: 'delivery_challan',
+      entityId: challan._id.toString(),
+      referenceNo: challan.challanNumber,
+      userId: req.userId,
+      metadata: { reason: challan.cancelReason },
+    });
+    res.json({ success: true, message: `Delivery challan ${challan.challanNumber} cancelled`, data: challan });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to cancel delivery challan';
+    res.status(errorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+router.post('/:id/eway-bill', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const challan = await DeliveryChallan.findById(req.params.id);
+    if (!challan) return res.status(404).json({ success: false, error: 'Delivery challan not found' });
+    if (challan.status === 'cancelled') return res.status(400).json({ success: false, error: 'Challan is cancelled' });
+    if (challan.totalValue < EWAY_BILL_THRESHOLD && !req.body?.force) {
+      return res.status(400).json({
+        success: false,
+        error: `Consignment value is below the e-way bill threshold of ${EWAY_BILL_THRESHOLD}`,
+        data: { belowThreshold: true },
+      });
+    }
+
+    const transport = normalizeTransport(req.body?.transport, challan.transport || {});
+    const { payload, hsnSummary, errors } = buildEwayBillPayload({
+      docType: 'CHL',
+      docNo: challan.challanNumber,
+      docDate: challan.challanDate,
+      seller: await resolveEwaySeller(req.body?.seller, req.userId),
+      recipient: {
+        gstin: challan.customerGstin,
+        name: challan.customerName,
+        address1: req.body?.shipTo?.address || challan.shipToAddress,
+        place: req.body?.shipTo?.place,
+        pincode: req.body?.shipTo?.pincode || challan.shipToPincode,
+        dispatchStateCode: req.body?.shipTo?.stateCode || challan.shipToStateCode,
+      },
+      items: challan.items,
+      totalValue: challan.totalValue,
+      transport,
+    });
+    if (errors.length) {
+      return res.status(400).json({ success: false, error: 'E-way bill data is incomplete', data: { errors, hsnSummary } });
+    }
+
+    challan.transport = transport as any;
+    await challan.save();
+    await writeAuditLog({
+      module: 'sales',
+      action: 'eway_bill_prepared',
+      entityType: 'delivery_challan',
+      entityId: challan._id.toString(),
+      referenceNo: challan.challanNumber,
+      userId: req.userId,
+      metadata: { transport: payload.billLists[0].vehicleNo || payload.billLists[0].transporterId },
+    });
+    res.json({ success: true, data: { payload, hsnSummary } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to prepare e-way bill' });
+  }
+});
+
+export default router;
@@ -0,0 +1,222 @@
+import { NextFunction, Router, Response } from 'express';
+import { DocumentTemplate, ITemplateLayout, PrintDocumentType, PrintPaperSize } from '../models/DocumentTemplate.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { requirePageAccess } from '../middleware/authorization.js';
+import { writeAuditLog } from '../services/audit.js';
+import {
+  DOCUMENT_PAGES,
+  PRINT_DOCUMENT_TYPES,
+  PRINT_PAPER_SIZES,
+  TEMPLATE_PLACEHOLDERS,
+  documentLabel,
+  ensureDefaultTemplates,
+  normalizeTemplateLayout,
+  templateVersion,
+} from '../services/documentTemplates.js';
+import { loadPrintContext, samplePrintContext } from '../services/documentContexts.js';
+import { renderDocumentPdf } from '../services/documentPdf.js';
+
+const router = Router();
+
+const isDocumentType = (value: any): value is PrintDocumentType => PRINT_DOCUMENT_TYPES.includes(value);
+const isPaperSize = (value: any): value is PrintPaperSize => PRINT_PAPER_SIZES.includes(value);
+
+const summarize = (template: any) => {
+  const row = template.toObject();
+  const current = templateVersion(template);
+  delete row.versions;
+  return { ...row, layout: current?.layout, versionCount: template.versions.length };
+};
+
+// Only one default per document type and paper, so documents without a pinned template have a single choice.
+const clearOtherDefaults = async (template: any) => {
+  await DocumentTemplate.updateMany(
+    { _id: { $ne: template._id }, documentType: template.documentType, paperSize: template.paperSize, isDefault: true },
+    { $set: { isDefault: false } }
+  );
+};
+
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await ensureDefaultTemplates();
+    const filter: any = {};
+    if (req.query.documentType) filter.documentType = String(req.query.documentType);
+    if (req.query.paperSize) filter.paperSize = String(req.query.paperSize);
+    if (req.query.isActive !== undefined) filter.isActive = String(req.query.isActive) === 'true';
+    const rows = await DocumentTemplate.find(filter).sort({ documentType: 1, paperSize: 1, isDefault: -1, name: 1 });
+    res.json({ success: true, data: rows.map(summarize) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch templates' });
+  }
+});
+
+router.get('/placeholders', authMiddleware, async (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ success: true, data: TEMPLATE_PLACEHOLDERS });
+});
+
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const template = await DocumentTemplate.findById(req.params.id);
+    if (!template) return res.status(404).json({ success: false, error: 'Template not found' });
+    res.json({ success: true, data: { ...template.toObject(), layout: templateVersion(template)?.layout } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch template' });
+  }
+});
+
+router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const name = String(req.body?.name || '').trim();
+    const { documentType, paperSize } = req.body || {};
+    if (!name) return res.status(400).json({ success: false, error: 'Template name is required' });
+    if (!isDocumentType(documentType)) return res.status(400).json({ success: false, error: 'Invalid document type' });
+    if (!isPaperSize(paperSize)) return res.status(400).json({ success: false, error: 'Invalid paper size' });
+
+    let layout: ITemplateLayout;
+    try {
+      layout = normalizeTemplateLayout(documentType, req.body?.layout);
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const template = await DocumentTemplate.create({
+      name,
+      documentType,
+      paperSize,
+      isDefault: Boolean(req.body?.isDefault),
+      currentVersion: 1,
+      versions: [{ version: 1, layout, note: String(req.body?.note || '').trim() || undefined, createdBy: req.userId, createdAt: new Date() }],
+      createdBy: req.userId,
+    });
+    if (template.isDefault) await clearOtherDefaults(template);
+
+    await writeAuditLog({
+      module: 'settings',
+      action: 'document_template_created',
+      entityType: 'document_template',
+      entityId: template._id.toString(),
+      referenceNo: template.name,
+      userId: req.userId,
+      after: summarize(template),
+    });
+    res.status(201).json({ success: true, data: summarize(template), message: 'Template created' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to create template' });
+  }
+});
+
+/**
+ * A changed layout is saved as a new version; older versions stay as they were, so documents already printed
+ * with them reprint unchanged.
+ */
+router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const template = await DocumentTemplate.findById(req.params.id);
+    if (!template) return res.status(404).json({ success: false, error: 'Template not found' });
+
+    const before = summarize(template);
+    if (req.body?.name !== undefined) {
+      const name = String(req.body.name || '').trim();
+      if (!name) return res.status(400).json({ success: false, error: 'Template name is required' });
+      template.name = name;
+    }
+    if (req.body?.isActive !== undefined) template.isActive = Boolean(req.body.isActive);
+    if (req.body?.isDefault !== undefined) template.isDefault = Boolean(req.body.isDefault);
+    if (template.isDefault && !template.isActive) {
+      return res.status(400).json({ success: false, error: 'An inactive template cannot be the default' });
+    }
+
+    if (req.body?.layout !== undefined) {
+      let layout: ITemplateLayout;
+      try {
+        layout = normalizeTemplateLayout(template.documentType, req.body.layout);
+      } catch (error: any) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      const version = Math.max(0, ...template.versions.map((row) => row.version)) + 1;
+      template.versions.push({
+        version,
+        layout,
+        note: String(req.body?.note || '').trim() || undefined,
+        createdBy: req.userId,
+        createdAt: new Date(),
+      });
+      template.currentVersion = version;
+    }
+
+    template.updatedBy = req.userId;
+    await template.save();
+    if (template.isDefault) await clearOtherDefaults(template);
+
+    await writeAuditLog({
+      module: 'settings',
+      action: 'document_template_updated',
+      entityType: 'document_template',
+      entityId: template._id.toString(),
+      referenceNo: template.name,
+      userId: req.userId,
+      before,
+      after: summarize(template),
+    });
+    res.json({ success: true, data: summarize(template), message: `Template saved as version ${template.currentVersion}` });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to update template' });
+  }
+});
+
+// Renders an unsaved layout, or a saved version, against a real document or sample data.
+// Previewing against a real document shows its contents, so it needs the same page access as printing it.
+const requirePreviewDocumentAccess = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!String(req.body?.documentId || '').trim()) return next();
+  try {
+    const template = await DocumentTemplate.findById(req.params.id).select('documentType');
+    if (!template) return res.status(404).json({ success: false, error: 'Template not found' });
+    return requirePageAccess(DOCUMENT_PAGES[template.documentType])(req, res, next);
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Authorization failed' });
+  }
+};
+
+router.post('/:id/preview', authMiddleware, requirePreviewDocumentAccess, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const template = await DocumentTemplate.findById(req.params.id);
+    if (!template) return res.status(404).json({ success: false, error: 'Template not found' });
+
+    let layout: ITemplateLayout | undefined;
+    if (req.body?.layout !== undefined) {
+      try {
+        layout = normalizeTemplateLayout(template.documentType, req.body.layout);
+      } catch (error: any) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+    } else {
+      layout = templateVersion(template, req.body?.version ? Number(req.body.version) : undefined)?.layout;
+      if (!layout) return res.status(404).json({ success: false, error: 'Template version not found' });
+    }
+
+    const documentId = String(req.body?.documentId || '').trim();
+    const printContext = documentId
+      ? await loadPrintContext(template.documentType, documentId)
+      : samplePrintContext(template.documentType);
+    if (!printContext) {
+      return res.status(404).json({ success: false, error: `${documentLabel(template.documentType)} not found` });
+    }
+
+    const pdf = await renderDocumentPdf({
+      layout,
+      paperSize: template.paperSize,
+      context: printContext.context,
+      qrCode: printContext.qrCode,
+      title: `${documentLabel(template.documentType)} ${printContext.documentNumber}`,
+      documentDate: printContext.documentDate,
+      fileKey: `preview:${template._id.toString()}:${documentId}`,
+    });
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'inline; filename="template-preview.pdf"');
+    res.send(pdf);
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to render preview' });
+  }
+});
+
+export default router;
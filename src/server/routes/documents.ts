@@ -0,0 +1,133 @@
+import { NextFunction, Router, Response } from 'express';
+import { DocumentTemplate, IDocumentTemplate, PrintDocumentType } from '../models/DocumentTemplate.js';
+import { DocumentPrint } from '../models/DocumentPrint.js';
+import { AccountingVoucher } from '../models/AccountingVoucher.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { requirePageAccess } from '../middleware/authorization.js';
+import { writeAuditLog } from '../services/audit.js';
+import {
+  DOCUMENT_PAGES,
+  PRINT_DOCUMENT_TYPES,
+  PRINT_PAPER_SIZES,
+  documentLabel,
+  findDefaultTemplate,
+  templateVersion,
+} from '../services/documentTemplates.js';
+import { loadPrintContext } from '../services/documentContexts.js';
+import { renderDocumentPdf } from '../services/documentPdf.js';
+
+const router = Router();
+
+const requireDocumentAccess = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const documentType = req.params.documentType as PrintDocumentType;
+  if (!PRINT_DOCUMENT_TYPES.includes(documentType)) {
+    return res.status(400).json({ success: false, error: 'Invalid document type' });
+  }
+  return requirePageAccess(DOCUMENT_PAGES[documentType])(req, res, next);
+};
+
+const safeFileName = (value: string) => value.replace(/[^A-Za-z0-9._-]+/g, '_');
+
+/**
+ * Renders a document to PDF. The first print on each paper size pins the template version used, and later
+ * prints reuse it unless a template or version is asked for, so a reprint matches the original.
+ */
+router.get('/:documentType/:id/pdf', authMiddleware, requireDocumentAccess, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const documentType = req.params.documentType as PrintDocumentType;
+    const id = String(req.params.id);
+    const paperSize = String(req.query.paper || 'a4') as any;
+    if (!PRINT_PAPER_SIZES.includes(paperSize)) {
+      return res.status(400).json({ success: false, error: 'Invalid paper size' });
+    }
+
+    const printContext = await loadPrintContext(documentType, id);
+    if (!printContext) return res.status(404).json({ success: false, error: `${documentLabel(documentType)} not found` });
+
+    const pinned = await DocumentPrint.findOne({ documentType, documentId: id, paperSize });
+    const requestedTemplateId = req.query.templateId ? String(req.query.templateId) : '';
+    const requestedVersion = req.query.version ? Number(req.query.version) : undefined;
+
+    let template: IDocumentTemplate | null;
+    let version: number | undefined;
+    if (requestedTemplateId) {
+      template = await DocumentTemplate.findById(requestedTemplateId).catch(() => null);
+      if (!template || template.documentType !== documentType) {
+        return res.status(404).json({ success: false, error: 'Template not found for this document type' });
+      }
+      version = requestedVersion;
+    } else if (pinned) {
+      template = await DocumentTemplate.findById(pinned.templateId);
+      version = requestedVersion || pinned.templateVersion;
+    } else {
+      template = await findDefaultTemplate(documentType, paperSize);
+      version = requestedVersion;
+    }
+    if (!template) return res.status(404).json({ success: false, error: 'No print template is set up for this document' });
+    if (template.paperSize !== paperSize) {
+      return res.status(400).json({ success: false, error: `Template is for ${template.paperSize} paper` });
+    }
+
+    const selected = templateVersion(template, version);
+    if (!selected) return res.status(404).json({ success: false, error: 'Template version not found' });
+
+    const templateId = template._id.toString();
+    const title = `${documentLabel(documentType)} ${printContext.documentNumber}`;
+    const pdf = await renderDocumentPdf({
+      layout: selected.layout,
+      paperSize,
+      context: printContext.context,
+      qrCode: printContext.qrCode,
+      title,
+      documentDate: printContext.documentDate,
+      fileKey: `${documentType}:${id}:${templateId}:${selected.version}:${paperSize}`,
+    });
+
+    const now = new Date();
+    const print = await DocumentPrint.findOneAndUpdate(
+      { documentType, documentId: id, paperSize },
+      {
+        $set: {
+          documentNumber: printContext.documentNumber,
+          templateId,
+          templateVersion: selected.version,
+          lastPrintedAt: now,
+          lastPrintedBy: req.userId,
+        },
+        $setOnInsert: { firstPrintedAt: now },
+        $inc: { printCount: 1 },
+      },
+      { upsert: true, new: true }
+    );
+    if (documentType === 'voucher') await AccountingVoucher.updateOne({ _id: id }, { isPrinted: true });
+
+    await writeAuditLog({
+      module: DOCUMENT_PAGES[documentType],
+      action: 'document_printed',
+      entityType: documentType,
+      entityId: id,
+      referenceNo: printContext.documentNumber,
+      userId: req.userId,
+      metadata: { paperSize, templateId, templateVersion: selected.version, printCount: print?.printCount },
+    });
+
+    const fileName = `${safeFileName(printContext.documentNumber || documentType)}-${paperSize}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `${String(req.query.download) === '1' ? 'attachment' : 'inline'}; filename="${fileName}"`);
+    res.send(pdf);
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to render document' });
+  }
+});
+
+// When and how a document was last printed, per paper size.
+router.get('/:documentType/:id/prints', authMiddleware, requireDocumentAccess, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const rows = await DocumentPrint.find({ documentType: req.params.documentType, documentId: String(req.params.id) }).sort({ paperSize: 1 });
+    res.json({ success: true, data: rows });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch print history' });
+  }
+});
+
+export default router;
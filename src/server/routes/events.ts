@@ -1,5 +1,6 @@
 import { Router, Response } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import { EventBooking } from '../models/EventBooking.js';
 import { Facility } from '../models/Facility.js';
 import { FacilityBooking } from '../models/FacilityBooking.js';
@@ -91,7 +92,7 @@ router.get('/bookings/list', authMiddleware, async (req: AuthenticatedRequest, r
   }
 });
 
-router.post('/bookings', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/bookings', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const {
       eventName,
@@ -190,7 +191,7 @@ router.put('/bookings/:id/status', authMiddleware, async (req: AuthenticatedRequ
   }
 });
 
-router.post('/bookings/:id/payments', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/bookings/:id/payments', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const amount = Number(req.body?.amount || 0);
     if (amount <= 0) return res.status(400).json({ success: false, error: 'amount must be greater than zero' });
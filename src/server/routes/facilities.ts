@@ -1,5 +1,6 @@
 import { Router, Response } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import { Facility } from '../models/Facility.js';
 import { FacilityBooking } from '../models/FacilityBooking.js';
 import { MemberSubscription } from '../models/MemberSubscription.js';
@@ -203,7 +204,7 @@ router.get('/bookings/list', authMiddleware, async (req: AuthenticatedRequest, r
   }
 });
 
-router.post('/bookings', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/bookings', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const {
       facilityId,
@@ -367,7 +368,7 @@ router.put('/bookings/:id/status', authMiddleware, async (req: AuthenticatedRequ
   }
 });
 
-router.post('/bookings/:id/payments', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/bookings/:id/payments', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { amount, remarks } = req.body;
     const payAmount = Number(amount || 0);
@@ -0,0 +1,89 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { User } from '../models/User.js';
+import { writeAuditLog } from '../services/audit.js';
+import { runInTransaction } from '../services/transactions.js';
+import {
+  assertInvoiceNumbersFree,
+  getGeneralSettingsView,
+  loadGeneralSettings,
+  normalizeGeneralSettingsInput,
+  setNextInvoiceNumber,
+} from '../services/appSettings.js';
+
+const router = Router();
+const EDITOR_ROLES = ['admin', 'super_admin'];
+
+// Logos are stored as data URLs; the audit trail only needs to know they changed.
+const forAudit = (view: any) => ({
+  ...view,
+  business: {
+    ...view.business,
+    invoiceLogoDataUrl: view.business?.invoiceLogoDataUrl ? `<image ${view.business.invoiceLogoDataUrl.length} chars>` : '',
+    reportLogoDataUrl: view.business?.reportLogoDataUrl ? `<image ${view.business.reportLogoDataUrl.length} chars>` : '',
+  },
+});
+
+const changedKeys = (before: Record<string, any>, after: Record<string, any>) =>
+  ['business', 'invoice'].flatMap((section) =>
+    Array.from(new Set([...Object.keys(before[section] || {}), ...Object.keys(after[section] || {})]))
+      .filter((key) => JSON.stringify(before[section]?.[key]) !== JSON.stringify(after[section]?.[key]))
+      .map((key) => `${section}.${key}`)
+  );
+
+// Every terminal reads these to print the same header and to know the numbering in use.
+router.get('/', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ success: true, data: await getGeneralSettingsView() });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to load settings' });
+  }
+});
+
+router.put('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.userId ? await User.findById(req.userId).select('role') : null;
+    if (!user) return res.status(401).json({ success: false, error: 'Unauthorized' });
+    if (!EDITOR_ROLES.includes(String(user.role || '').toLowerCase())) {
+      return res.status(403).json({ success: false, error: 'Only an admin can change business and invoice settings' });
+    }
+
+    const settings = await loadGeneralSettings();
+    const before = await getGeneralSettingsView();
+    let value: ReturnType<typeof normalizeGeneralSettingsInput>;
+    try {
+      value = normalizeGeneralSettingsInput(req.body, before);
+      await assertInvoiceNumbersFree(before, value);
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // The sequence and the prefix it is printed with change together or not at all.
+    await runInTransaction(async () => {
+      if (value.nextNumber !== undefined) await setNextInvoiceNumber(value.nextNumber);
+      settings.set({ business: value.business, invoice: value.invoice, updatedBy: req.userId });
+      await settings.save();
+    });
+
+    const after = await getGeneralSettingsView();
+    const keys = changedKeys(before, after);
+    if (keys.length) {
+      await writeAuditLog({
+        module: 'settings',
+        action: 'general_settings_updated',
+        entityType: 'app_settings',
+        entityId: settings._id.toString(),
+        referenceNo: 'general',
+        userId: req.userId,
+        before: forAudit(before),
+        after: forAudit(after),
+        metadata: { changedKeys: keys },
+      });
+    }
+    res.json({ success: true, data: after, message: 'Settings saved' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to save settings' });
+  }
+});
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router, Response } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { writeAuditLog } from '../services/audit.js';
+import { GSTR1_CSV_SECTIONS, Gstr1CsvSection, buildGstr1, buildGstr3b, gstr1SectionCsv, gstr3bCsv } from '../services/gstReturns.js';
+import { zonedDateKey } from '../utils/businessTime.js';
+
+const router = Router();
+
+const parseMonth = (raw: unknown): string | null => {
+  const month = String(raw || zonedDateKey(new Date()).slice(0, 7));
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(month) ? month : null;
+};
+
+const sendFile = (res: Response, fileName: string, contentType: string, body: string) => {
+  res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(body);
+};
+
+// Sections, offline-tool payload and validation errors for review before exporting.
+router.get('/gstr-1', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const month = parseMonth(req.query.month);
+    if (!month) return res.status(400).json({ success: false, error: 'month must be YYYY-MM format' });
+    res.json({ success: true, data: await buildGstr1(month, req.userId) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to prepare GSTR-1' });
+  }
+});
+
+router.get('/gstr-1/export', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const month = parseMonth(req.query.month);
+    if (!month) return res.status(400).json({ success: false, error: 'month must be YYYY-MM format' });
+    const format = String(req.query.format || 'json') === 'csv' ? 'csv' : 'json';
+    const section = String(req.query.section || 'b2b') as Gstr1CsvSection;
+    if (format === 'csv' && !GSTR1_CSV_SECTIONS.includes(section)) {
+      return res.status(400).json({ success: false, error: `section must be one of ${GSTR1_CSV_SECTIONS.join(', ')}` });
+    }
+
+    const report = await buildGstr1(month, req.userId);
+    await writeAuditLog({
+      module: 'reports',
+      action: 'gstr1_exported',
+      entityType: 'gst_return',
+      referenceNo: `GSTR1-${month}`,
+      userId: req.userId,
+      metadata: { format, section: format === 'csv' ? section : undefined, errors: report.errors.length },
+    });
+    if (format === 'csv') {
+      return sendFile(res, `gstr1_${section}_${month}.csv`, 'text/csv', gstr1SectionCsv(report, section));
+    }
+    sendFile(res, `gstr1_${month}.json`, 'application/json', JSON.stringify(report.payload, null, 2));
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to export GSTR-1' });
+  }
+});
+
+router.get('/gstr-3b', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const month = parseMonth(req.query.month);
+    if (!month) return res.status(400).json({ success: false, error: 'month must be YYYY-MM format' });
+    res.json({ success: true, data: await buildGstr3b(month, req.userId) });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to prepare GSTR-3B' });
+  }
+});
+
+router.get('/gstr-3b/export', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const month = parseMonth(req.query.month);
+    if (!month) return res.status(400).json({ success: false, error: 'month must be YYYY-MM format' });
+    const format = String(req.query.format || 'json') === 'csv' ? 'csv' : 'json';
+
+    const report = await buildGstr3b(month, req.userId);
+    await writeAuditLog({
+      module: 'reports',
+      action: 'gstr3b_exported',
+      entityType: 'gst_return',
+      referenceNo: `GSTR3B-${month}`,
+      userId: req.userId,
+      metadata: { format, errors: report.errors.length },
+    });
+    if (format === 'csv') return sendFile(res, `gstr3b_${month}.csv`, 'text/csv', gstr3bCsv(report));
+    sendFile(res, `gstr3b_${month}.json`, 'application/json', JSON.stringify(report.payload, null, 2));
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to export GSTR-3B' });
+  }
+});
+
+export default router;
@@ -0,0 +1,157 @@
+import { Router, Response } from 'express';
+import { HeldBill } from '../models/HeldBill.js';
+import { User } from '../models/User.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { generateNumber } from '../services/numbering.js';
+import { writeAuditLog } from '../services/audit.js';
+import { buildHeldBillItems, closeHeldBill, expireHeldBills, holdExpiry, placeHold } from '../services/heldBills.js';
+
+const router = Router();
+
+const getRequestUserRole = async (userId?: string): Promise<string> => {
+  if (!userId) return 'receptionist';
+  const user = await User.findById(userId);
+  return String(user?.role || 'receptionist');
+};
+
+// Cashiers see their own holds and those parked on their terminal; admin/manager can pick up any hold.
+const canAccessHold = async (bill: any, userId?: string, terminalId?: string) => {
+  if (String(bill.userId) === String(userId || '')) return true;
+  if (terminalId && bill.terminalId === terminalId) return true;
+  return ['admin', 'manager'].includes(await getRequestUserRole(userId));
+};
+
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await expireHeldBills();
+    const status = String(req.query.status || 'held');
+    const terminalId = String(req.query.terminalId || '').trim();
+    const filter: any = { status };
+
+    const role = await getRequestUserRole(req.userId);
+    const everyone = String(req.query.scope || '') === 'all' && ['admin', 'manager'].includes(role);
+    if (!everyone) {
+      filter.$or = [{ userId: req.userId }, ...(terminalId ? [{ terminalId }] : [])];
+    }
+
+    const rows = await HeldBill.find(filter).sort({ createdAt: -1 }).limit(100);
+    res.json({ success: true, data: rows });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch held bills' });
+  }
+});
+
+router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const name = String(req.body?.name || '').trim();
+    const terminalId = String(req.body?.terminalId || '').trim();
+    if (!name) return res.status(400).json({ success: false, error: 'A name is required to hold a bill' });
+    if (!terminalId) return res.status(400).json({ success: false, error: 'terminalId is required' });
+
+    await expireHeldBills();
+    const { items, totalAmount, error } = await buildHeldBillItems(req.body?.items);
+    if (error) return res.status(400).json({ success: false, error });
+
+    const bill = await HeldBill.create({
+      holdNumber: await generateNumber('held_bill', { prefix: 'HLD-', datePart: true, padTo: 4 }),
+      name,
+      terminalId,
+      userId: req.userId,
+      items,
+      customerId: req.body?.customerId || undefined,
+      customerName: req.body?.customerName || undefined,
+      customerPhone: req.body?.customerPhone || undefined,
+      customerEmail: req.body?.customerEmail || undefined,
+      notes: req.body?.notes || undefined,
+      totalAmount,
+      reservedStock: req.body?.reserveStock !== false,
+      expiresAt: holdExpiry(req.body?.expiresInMinutes),
+    });
+    await placeHold(bill);
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'held_bill_created',
+      entityType: 'held_bill',
+      entityId: bill._id.toString(),
+      referenceNo: bill.holdNumber,
+      userId: req.userId,
+      metadata: { name, terminalId, items: items.length, totalAmount, reservedStock: bill.reservedStock },
+    });
+    res.status(201).json({ success: true, data: bill, message: `Bill held as ${bill.holdNumber}` });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to hold bill' });
+  }
+});
+
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const bill = await HeldBill.findById(req.params.id);
+    if (!bill) return res.status(404).json({ success: false, error: 'Held bill not found' });
+    if (!(await canAccessHold(bill, req.userId, String(req.query.terminalId || '')))) {
+      return res.status(403).json({ success: false, error: 'This bill was held by another user or terminal' });
+    }
+    res.json({ success: true, data: bill });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch held bill' });
+  }
+});
+
+// Resuming gives the reservation back; the sale then goes through the normal stock checks in POST /api/sales.
+router.post('/:id/resume', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await expireHeldBills();
+    const existing = await HeldBill.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Held bill not found' });
+    if (!(await canAccessHold(existing, req.userId, String(req.body?.terminalId || '')))) {
+      return res.status(403).json({ success: false, error: 'This bill was held by another user or terminal' });
+    }
+
+    const bill = await closeHeldBill(existing._id.toString(), 'resumed', req.userId);
+    if (!bill) {
+      const current = await HeldBill.findById(existing._id).select('status');
+      return res.status(409).json({ success: false, error: `Held bill is already ${current?.status || existing.status}` });
+    }
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'held_bill_resumed',
+      entityType: 'held_bill',
+      entityId: bill._id.toString(),
+      referenceNo: bill.holdNumber,
+      userId: req.userId,
+      metadata: { name: bill.name, terminalId: req.body?.terminalId || bill.terminalId, heldBy: bill.userId },
+    });
+    res.json({ success: true, data: bill, message: `Resumed ${bill.name}` });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to resume held bill' });
+  }
+});
+
+router.post('/:id/cancel', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await HeldBill.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Held bill not found' });
+    if (!(await canAccessHold(existing, req.userId, String(req.body?.terminalId || '')))) {
+      return res.status(403).json({ success: false, error: 'This bill was held by another user or terminal' });
+    }
+
+    const bill = await closeHeldBill(existing._id.toString(), 'cancelled', req.userId);
+    if (!bill) return res.status(409).json({ success: false, error: `Held bill is already ${existing.status}` });
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'held_bill_cancelled',
+      entityType: 'held_bill',
+      entityId: bill._id.toString(),
+      referenceNo: bill.holdNumber,
+      userId: req.userId,
+      metadata: { name: bill.name, terminalId: bill.terminalId, reason: req.body?.reason || undefined },
+    });
+    res.json({ success: true, data: bill, message: 'Held bill cancelled' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to cancel held bill' });
+  }
+});
+
+export default router;
@@ -1,13 +1,24 @@
 import { Router, Response } from 'express';
 import { Inventory } from '../models/Inventory.js';
 import { Product } from '../models/Product.js';
+import { StockBatch } from '../models/StockBatch.js';
+import { StockLocation } from '../models/StockLocation.js';
+import { StockMovement } from '../models/StockMovement.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { restockBatch } from '../services/stockBatches.js';
+import { applyStockMovement, recordStockMovement } from '../services/stockMovements.js';
+import {
+  inTransitQuantities,
+  locationQuantities,
+  locationQuantity,
+  resolveLocation,
+} from '../services/stockLocations.js';
 
 const router = Router();
 
 const toNumber = (value: any): number => Number(value || 0);
 
-const buildInventoryRow = (product: any, inventoryDoc?: any) => ({
+const buildInventoryRow = (product: any, inventoryDoc?: any, location?: { _id: any; name: string; quantity: number }) => ({
   _id: inventoryDoc?._id?.toString?.() || `product-${product._id.toString()}`,
   productId: {
     _id: product._id.toString(),
@@ -17,8 +28,12 @@ const buildInventoryRow = (product: any, inventoryDoc?: any) => ({
     unit: product.unit || 'piece',
     stock: toNumber(product.stock),
   },
-  quantity: toNumber(product.stock),
-  warehouseLocation: inventoryDoc?.warehouseLocation || 'Main Store',
+  quantity: location ? toNumber(location.quantity) : toNumber(product.stock),
+  // Held bills reserve against the product as a whole, not a location.
+  reservedQuantity: toNumber(inventoryDoc?.reservedQuantity),
+  availableQuantity: toNumber(product.stock) - toNumber(inventoryDoc?.reservedQuantity),
+  locationId: location ? String(location._id) : undefined,
+  warehouseLocation: location?.name || inventoryDoc?.warehouseLocation || 'Main Store',
   batchNumber: inventoryDoc?.batchNumber || '',
   lastRestockDate: inventoryDoc?.lastRestockDate || product.updatedAt || product.createdAt || new Date(),
 });
@@ -28,6 +43,7 @@ const listInventoryRows = async (args: {
   limit?: number;
   includeInactive?: boolean;
   onlyLowStock?: boolean;
+  locationId?: string;
 }) => {
   const skip = Math.max(0, Number(args.skip || 0));
   const limit = Math.max(1, Number(args.limit || 50));
@@ -48,8 +64,17 @@ const listInventoryRows = async (args: {
     inventoryDocs.map((doc: any) => [String(doc.productId), doc])
   );
 
+  const location = args.locationId ? await resolveLocation(args.locationId) : null;
+  const quantities = location ? await locationQuantities(products, location) : null;
+
   let rows = products.map((product: any) =>
-    buildInventoryRow(product, inventoryByProductId.get(String(product._id)))
+    buildInventoryRow(
+      product,
+      inventoryByProductId.get(String(product._id)),
+      location && quantities
+        ? { _id: location._id, name: location.name, quantity: Number(quantities.get(String(product._id)) || 0) }
+        : undefined
+    )
   );
 
   if (onlyLowStock) {
@@ -63,12 +88,13 @@ const listInventoryRows = async (args: {
 // Get inventory for all products (source of truth: Product.stock)
 router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { skip = 0, limit = 1000, includeInactive = false } = req.query;
+    const { skip = 0, limit = 1000, includeInactive = false, locationId } = req.query;
     const result = await listInventoryRows({
       skip: Number(skip),
       limit: Number(limit),
       includeInactive: String(includeInactive) === 'true',
       onlyLowStock: false,
+      locationId: locationId ? String(locationId) : undefined,
     });
 
     res.status(200).json({
@@ -92,12 +118,13 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
 // Get low stock items
 router.get('/status/low-stock', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { skip = 0, limit = 1000, includeInactive = false } = req.query;
+    const { skip = 0, limit = 1000, includeInactive = false, locationId } = req.query;
     const result = await listInventoryRows({
       skip: Number(skip),
       limit: Number(limit),
       includeInactive: String(includeInactive) === 'true',
       onlyLowStock: true,
+      locationId: locationId ? String(locationId) : undefined,
     });
 
     res.status(200).json({
@@ -119,6 +146,115 @@ router.get('/status/low-stock', async (req: AuthenticatedRequest, res: Response)
   }
 });
 
+// Batch-level stock (product, batch, expiry, qty, cost)
+router.get('/batches', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { productId, includeEmpty = false } = req.query;
+    const filter: any = {};
+    if (productId) filter.productId = String(productId);
+    if (String(includeEmpty) !== 'true') filter.quantity = { $gt: 0 };
+
+    const rows = await StockBatch.find(filter).sort({ productId: 1, expiryDate: 1, receivedDate: 1 });
+    res.status(200).json({ success: true, data: rows });
+  } catch (error: any) {
+    console.error('Get stock batches error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get stock batches',
+    });
+  }
+});
+
+// Add opening / adjustment stock into a batch and sync Product.stock
+router.post('/batches', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { productId, batchNo, expiryDate, quantity, unitCost, sourceType = 'opening' } = req.body;
+    const product = await Product.findById(productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const qty = toNumber(quantity);
+    if (!batchNo || qty <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'batchNo and a positive quantity are required',
+      });
+    }
+    if ((product as any).expiryRequired && !expiryDate) {
+      return res.status(400).json({
+        success: false,
+        error: `Expiry date is required for product ${product.name}`,
+      });
+    }
+
+    const batch = await restockBatch({
+      productId: product._id.toString(),
+      productName: product.name,
+      sku: product.sku,
+      batchNo,
+      expiryDate,
+      quantity: qty,
+      unitCost: unitCost !== undefined ? toNumber(unitCost) : toNumber(product.cost),
+      sourceType: String(sourceType) === 'adjustment' ? 'adjustment' : 'opening',
+      createdBy: req.userId,
+    });
+    await applyStockMovement(product._id.toString(), qty, {
+      movementType: String(sourceType) === 'adjustment' ? 'adjustment' : 'opening',
+      referenceType: 'stock_batch',
+      referenceId: batch._id.toString(),
+      referenceNo: batch.batchNo,
+      batchNo: batch.batchNo,
+      userId: req.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Batch stock added',
+      data: batch,
+    });
+  } catch (error: any) {
+    console.error('Add stock batch error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to add batch stock',
+    });
+  }
+});
+
+// Stock movement journal, newest first
+router.get('/movements', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { productId, movementType, referenceNo, locationId, skip = 0, limit = 100 } = req.query;
+    const filter: any = {};
+    if (productId) filter.productId = String(productId);
+    if (movementType) filter.movementType = String(movementType);
+    if (referenceNo) filter.referenceNo = String(referenceNo);
+    if (locationId) filter.locationId = String(locationId);
+
+    const rows = await StockMovement.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(Number(skip))
+      .limit(Number(limit));
+    const total = await StockMovement.countDocuments(filter);
+
+    res.status(200).json({
+      success: true,
+      data: rows,
+      pagination: { total, skip: Number(skip), limit: Number(limit) },
+    });
+  } catch (error: any) {
+    console.error('Get stock movements error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get stock movements',
+    });
+  }
+});
+
 // Get inventory for specific product
 router.get('/:productId', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -133,9 +269,25 @@ router.get('/:productId', async (req: AuthenticatedRequest, res: Response) => {
     const inventoryDoc = await Inventory.findOne({ productId: req.params.productId });
     const row = buildInventoryRow(product, inventoryDoc || undefined);
 
+    const locations = await StockLocation.find({ isActive: true }).sort({ isDefault: -1, name: 1 });
+    const locationRows = [];
+    for (const location of locations) {
+      locationRows.push({
+        locationId: location._id.toString(),
+        locationCode: location.locationCode,
+        name: location.name,
+        quantity: await locationQuantity(product, location),
+      });
+    }
+    const inTransit = await inTransitQuantities([product._id.toString()]);
+
     res.status(200).json({
       success: true,
-      data: row,
+      data: {
+        ...row,
+        locations: locationRows,
+        inTransitQuantity: toNumber(inTransit.get(product._id.toString())),
+      },
     });
   } catch (error: any) {
     console.error('Get inventory error:', error);
@@ -146,6 +298,101 @@ router.get('/:productId', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Item-wise stock card: opening balance, each movement with running balance, closing balance.
+// The opening is derived backwards from the current quantity so stock held before the journal existed still reconciles.
+router.get('/:productId/stock-card', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const product = await Product.findById(req.params.productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const { startDate, endDate, locationId } = req.query;
+    const start = startDate ? new Date(String(startDate)) : new Date(0);
+    const end = endDate ? new Date(String(endDate)) : new Date();
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid startDate or endDate',
+      });
+    }
+    if (endDate && /^\d{4}-\d{2}-\d{2}$/.test(String(endDate))) end.setHours(23, 59, 59, 999);
+
+    const location = locationId ? await resolveLocation(String(locationId)) : null;
+    const filter: any = { productId: product._id };
+    if (location) {
+      filter.locationId = location._id.toString();
+    } else {
+      // Transfers only move stock between locations; the product total is unchanged.
+      filter.movementType = { $nin: ['transfer_out', 'transfer_in'] };
+    }
+
+    const currentQuantity = location ? await locationQuantity(product, location) : toNumber(product.stock);
+    const [since] = await StockMovement.aggregate([
+      { $match: { ...filter, createdAt: { $gte: start } } },
+      { $group: { _id: null, qty: { $sum: '$quantity' } } },
+    ]);
+    const openingQuantity = Number((currentQuantity - toNumber(since?.qty)).toFixed(4));
+
+    const movements = await StockMovement.find({ ...filter, createdAt: { $gte: start, $lte: end } }).sort({ createdAt: 1, _id: 1 });
+    let balance = openingQuantity;
+    let inward = 0;
+    let outward = 0;
+    const rows = movements.map((movement) => {
+      const qty = toNumber(movement.quantity);
+      balance = Number((balance + qty).toFixed(4));
+      if (qty >= 0) inward += qty;
+      else outward += Math.abs(qty);
+      return {
+        _id: movement._id,
+        date: movement.createdAt,
+        movementType: movement.movementType,
+        referenceType: movement.referenceType,
+        referenceId: movement.referenceId,
+        referenceNo: movement.referenceNo,
+        locationName: movement.locationName,
+        batchNo: movement.batchNo,
+        reason: movement.reason,
+        userId: movement.userId,
+        inward: qty >= 0 ? qty : 0,
+        outward: qty < 0 ? Math.abs(qty) : 0,
+        balance,
+        quantityBefore: movement.quantityBefore,
+        quantityAfter: movement.quantityAfter,
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        productId: product._id.toString(),
+        productName: product.name,
+        sku: product.sku,
+        unit: product.unit,
+        locationId: location?._id.toString(),
+        locationName: location?.name,
+        startDate: start,
+        endDate: end,
+        openingQuantity,
+        inwardQuantity: Number(inward.toFixed(4)),
+        outwardQuantity: Number(outward.toFixed(4)),
+        closingQuantity: balance,
+        currentQuantity,
+        rows,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get stock card error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get stock card',
+    });
+  }
+});
+
 // Initialize inventory for product and sync Product.stock
 router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -174,8 +421,22 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       });
     }
 
+    const previousStock = toNumber(product.stock);
     product.stock = qty;
     await product.save();
+    if (qty !== previousStock) {
+      await recordStockMovement({
+        productId: product._id.toString(),
+        productName: product.name,
+        sku: product.sku,
+        movementType: 'opening',
+        quantity: qty - previousStock,
+        quantityBefore: previousStock,
+        quantityAfter: qty,
+        referenceType: 'inventory',
+        userId: req.userId,
+      });
+    }
 
     const inventory = await Inventory.findOneAndUpdate(
       { productId },
@@ -206,7 +467,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
 // Update inventory quantity and sync Product.stock
 router.put('/:productId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { quantity, action = 'set', warehouseLocation, expiryDate, batchNumber } = req.body;
+    const { quantity, action = 'set', warehouseLocation, expiryDate, batchNumber, locationId } = req.body;
 
     if (quantity === undefined) {
       return res.status(400).json({
@@ -231,7 +492,8 @@ router.put('/:productId', authMiddleware, async (req: AuthenticatedRequest, res:
       });
     }
 
-    const current = toNumber(product.stock);
+    const location = locationId ? await resolveLocation(String(locationId)) : null;
+    const current = location ? await locationQuantity(product, location) : toNumber(product.stock);
     let next = current;
     const normalizedAction = String(action || 'set').toLowerCase();
 
@@ -256,14 +518,29 @@ router.put('/:productId', authMiddleware, async (req: AuthenticatedRequest, res:
       });
     }
 
-    product.stock = next;
-    await product.save();
+    // Location quantities move by the same delta as the product total.
+    const updatedProduct = next !== current
+      ? await applyStockMovement(product._id.toString(), next - current, {
+          movementType: 'adjustment',
+          location,
+          referenceType: 'inventory',
+          reason: req.body.reason ? String(req.body.reason) : undefined,
+          userId: req.userId,
+          metadata: { action: normalizedAction, quantity: qty },
+        })
+      : product;
+    if (!updatedProduct) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
 
     const inventory = await Inventory.findOneAndUpdate(
       { productId: req.params.productId },
       {
         productId: req.params.productId,
-        quantity: next,
+        quantity: updatedProduct.stock,
         ...(warehouseLocation !== undefined && { warehouseLocation }),
         ...(expiryDate !== undefined && { expiryDate }),
         ...(batchNumber !== undefined && { batchNumber }),
@@ -275,7 +552,11 @@ router.put('/:productId', authMiddleware, async (req: AuthenticatedRequest, res:
     res.status(200).json({
       success: true,
       message: 'Inventory updated successfully',
-      data: buildInventoryRow(product, inventory),
+      data: buildInventoryRow(
+        updatedProduct,
+        inventory,
+        location ? { _id: location._id, name: location.name, quantity: next } : undefined
+      ),
     });
   } catch (error: any) {
     console.error('Update inventory error:', error);
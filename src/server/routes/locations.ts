@@ -0,0 +1,386 @@
+import { Router, Response } from 'express';
+import { StockLocation } from '../models/StockLocation.js';
+import { StockTransfer } from '../models/StockTransfer.js';
+import { Product } from '../models/Product.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { generateNumber } from '../services/numbering.js';
+import { writeAuditLog } from '../services/audit.js';
+import {
+  adjustLocationStock,
+  ensureDefaultLocation,
+  locationQuantities,
+  resolveLocation,
+} from '../services/stockLocations.js';
+import { recordStockMovement } from '../services/stockMovements.js';
+import { runInTransaction } from '../services/transactions.js';
+
+const router = Router();
+
+// Transfers are claimed by moving their status before any stock moves, so a repeated click gets 409 instead.
+const transferErrorStatus = (message: string) => {
+  if (message.includes('changed while')) return 409;
+  return message.includes('Insufficient') ? 400 : 500;
+};
+
+const normalizeLocationType = (value: any): 'store' | 'warehouse' | 'outlet' => {
+  const type = String(value || 'store').toLowerCase();
+  return type === 'warehouse' || type === 'outlet' ? type : 'store';
+};
+
+// Transfers move stock between locations without changing Product.stock, so before/after are equal.
+const recordTransferMovement = async (
+  transfer: any,
+  item: any,
+  location: any,
+  movementType: 'transfer_out' | 'transfer_in',
+  userId: string | undefined,
+  products: any[],
+  reason?: string
+) => {
+  const product = products.find((row) => String(row._id) === String(item.productId));
+  const onHand = Number(product?.stock || 0);
+  await recordStockMovement({
+    productId: String(item.productId),
+    productName: item.productName,
+    sku: item.sku,
+    movementType,
+    quantity: movementType === 'transfer_out' ? -Number(item.quantity || 0) : Number(item.quantity || 0),
+    quantityBefore: onHand,
+    quantityAfter: onHand,
+    location,
+    referenceType: 'stock_transfer',
+    referenceId: transfer._id.toString(),
+    referenceNo: transfer.transferNumber,
+    reason,
+    userId,
+  });
+};
+
+// Locations
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await ensureDefaultLocation();
+    const filter: any = {};
+    if (req.query.isActive !== undefined) filter.isActive = String(req.query.isActive) === 'true';
+    const rows = await StockLocation.find(filter).sort({ isDefault: -1, name: 1 });
+    res.json({ success: true, data: rows });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch locations' });
+  }
+});
+
+router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { locationCode, name, locationType, address } = req.body;
+    if (!locationCode || !name) {
+      return res.status(400).json({ success: false, error: 'locationCode and name are required' });
+    }
+
+    const code = String(locationCode).trim().toUpperCase();
+    const existing = await StockLocation.findOne({ locationCode: code });
+    if (existing) {
+      return res.status(409).json({ success: false, error: 'Location code already exists' });
+    }
+
+    await ensureDefaultLocation();
+    const location = await StockLocation.create({
+      locationCode: code,
+      name: String(name).trim(),
+      locationType: normalizeLocationType(locationType),
+      address,
+      isDefault: false,
+      createdBy: req.userId,
+    });
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'location_create',
+      entityType: 'stock_location',
+      entityId: location._id.toString(),
+      referenceNo: location.locationCode,
+      userId: req.userId,
+      after: location.toObject(),
+    });
+
+    res.status(201).json({ success: true, data: location, message: 'Location created' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to create location' });
+  }
+});
+
+// Stock transfers
+router.get('/transfers', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { status, locationId, skip = 0, limit = 50 } = req.query;
+    const filter: any = {};
+    if (status) filter.status = String(status);
+    if (locationId) filter.$or = [{ fromLocationId: String(locationId) }, { toLocationId: String(locationId) }];
+
+    const rows = await StockTransfer.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(Number(skip))
+      .limit(Number(limit));
+    const total = await StockTransfer.countDocuments(filter);
+
+    res.json({ success: true, data: rows, pagination: { total, skip: Number(skip), limit: Number(limit) } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch stock transfers' });
+  }
+});
+
+router.get('/transfers/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transfer = await StockTransfer.findById(req.params.id);
+    if (!transfer) return res.status(404).json({ success: false, error: 'Stock transfer not found' });
+    res.json({ success: true, data: transfer });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch stock transfer' });
+  }
+});
+
+router.post('/transfers', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { fromLocationId, toLocationId, items, notes } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'Transfer must have at least one item' });
+    }
+
+    const fromLocation = await resolveLocation(fromLocationId);
+    const toLocation = await resolveLocation(toLocationId);
+    if (String(fromLocation._id) === String(toLocation._id)) {
+      return res.status(400).json({ success: false, error: 'Source and destination locations must be different' });
+    }
+    if (!toLocation.isActive) {
+      return res.status(400).json({ success: false, error: 'Destination location is inactive' });
+    }
+
+    const processedItems: any[] = [];
+    for (const item of items) {
+      const product = await Product.findById(item.productId);
+      if (!product) return res.status(404).json({ success: false, error: `Product not found: ${item.productId}` });
+      const quantity = Number(item.quantity || 0);
+      if (quantity <= 0) {
+        return res.status(400).json({ success: false, error: `Invalid quantity for product ${product.name}` });
+      }
+      processedItems.push({
+        productId: product._id,
+        productName: product.name,
+        sku: product.sku,
+        quantity,
+        receivedQuantity: 0,
+      });
+    }
+
+    const transferNumber = await generateNumber('stock_transfer', { prefix: 'TRF-', datePart: true, padTo: 5 });
+    const transfer = await StockTransfer.create({
+      transferNumber,
+      fromLocationId: fromLocation._id,
+      fromLocationName: fromLocation.name,
+      toLocationId: toLocation._id,
+      toLocationName: toLocation.name,
+      status: 'draft',
+      items: processedItems,
+      notes,
+      createdBy: req.userId,
+    });
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_transfer_created',
+      entityType: 'stock_transfer',
+      entityId: transfer._id.toString(),
+      referenceNo: transfer.transferNumber,
+      userId: req.userId,
+      after: transfer.toObject(),
+    });
+
+    res.status(201).json({ success: true, data: transfer, message: 'Stock transfer created' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to create stock transfer' });
+  }
+});
+
+router.post('/transfers/:id/dispatch', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await StockTransfer.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Stock transfer not found' });
+    if (existing.status !== 'draft') {
+      return res.status(400).json({ success: false, error: `Transfer in ${existing.status} status cannot be dispatched` });
+    }
+
+    const transfer = await runInTransaction(async () => {
+      const fromLocation = await resolveLocation(String(existing.fromLocationId));
+      const products = await Product.find({ _id: { $in: existing.items.map((item) => String(item.productId)) } });
+      // Checked before the claim: once in transit, the default location's residual already excludes this transfer.
+      const available = await locationQuantities(products, fromLocation);
+      for (const item of existing.items) {
+        const qty = Number(available.get(String(item.productId)) || 0);
+        if (qty < Number(item.quantity || 0)) {
+          throw new Error(`Insufficient stock for ${item.productName} at ${fromLocation.name} (Available: ${qty})`);
+        }
+      }
+
+      const transfer = await StockTransfer.findOneAndUpdate(
+        { _id: existing._id, status: 'draft' },
+        { $set: { status: 'in_transit', dispatchedAt: new Date(), dispatchedBy: req.userId } },
+        { new: true }
+      );
+      if (!transfer) throw new Error('Stock transfer changed while dispatching; reload and try again');
+
+      // Stock leaves the source now; it is counted as in transit until received.
+      for (const item of transfer.items) {
+        await adjustLocationStock(String(item.productId), fromLocation, -Number(item.quantity || 0));
+        await recordTransferMovement(transfer, item, fromLocation, 'transfer_out', req.userId, products);
+      }
+      return transfer;
+    });
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_transfer_dispatched',
+      entityType: 'stock_transfer',
+      entityId: transfer._id.toString(),
+      referenceNo: transfer.transferNumber,
+      userId: req.userId,
+      after: transfer.toObject(),
+    });
+
+    res.json({ success: true, data: transfer, message: 'Stock dispatched and marked in transit' });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to dispatch stock transfer';
+    res.status(transferErrorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+router.post('/transfers/:id/receive', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await StockTransfer.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Stock transfer not found' });
+    if (existing.status !== 'in_transit') {
+      return res.status(400).json({ success: false, error: 'Only in-transit transfers can be received' });
+    }
+
+    const transfer = await runInTransaction(async () => {
+      // Clear the in-transit state first so the default location's residual is correct.
+      const transfer = await StockTransfer.findOneAndUpdate(
+        { _id: existing._id, status: 'in_transit' },
+        { $set: { status: 'received', receivedAt: new Date(), receivedBy: req.userId } },
+        { new: true }
+      );
+      if (!transfer) throw new Error('Stock transfer changed while receiving; reload and try again');
+      for (const item of transfer.items) {
+        item.receivedQuantity = Number(item.quantity || 0);
+      }
+      transfer.markModified('items');
+      await transfer.save();
+
+      const toLocation = await resolveLocation(String(transfer.toLocationId));
+      const products = await Product.find({ _id: { $in: transfer.items.map((item) => String(item.productId)) } });
+      for (const item of transfer.items) {
+        await adjustLocationStock(String(item.productId), toLocation, Number(item.quantity || 0));
+        await recordTransferMovement(transfer, item, toLocation, 'transfer_in', req.userId, products);
+      }
+      return transfer;
+    });
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_transfer_received',
+      entityType: 'stock_transfer',
+      entityId: transfer._id.toString(),
+      referenceNo: transfer.transferNumber,
+      userId: req.userId,
+      after: transfer.toObject(),
+    });
+
+    res.json({ success: true, data: transfer, message: 'Stock received at destination' });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to receive stock transfer';
+    res.status(transferErrorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+router.post('/transfers/:id/cancel', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await StockTransfer.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Stock transfer not found' });
+    if (!['draft', 'in_transit'].includes(existing.status)) {
+      return res.status(400).json({ success: false, error: `Transfer in ${existing.status} status cannot be cancelled` });
+    }
+
+    const { before, transfer } = await runInTransaction(async () => {
+      // The claim returns the transfer as it was, which says whether its stock has left the source.
+      const before = await StockTransfer.findOneAndUpdate(
+        { _id: existing._id, status: { $in: ['draft', 'in_transit'] } },
+        { $set: { status: 'cancelled' } }
+      );
+      if (!before) throw new Error('Stock transfer changed while cancelling; reload and try again');
+      const transfer = (await StockTransfer.findById(existing._id))!;
+
+      if (before.status === 'in_transit') {
+        const fromLocation = await resolveLocation(String(transfer.fromLocationId));
+        const products = await Product.find({ _id: { $in: transfer.items.map((item) => String(item.productId)) } });
+        for (const item of transfer.items) {
+          await adjustLocationStock(String(item.productId), fromLocation, Number(item.quantity || 0));
+          await recordTransferMovement(transfer, item, fromLocation, 'transfer_in', req.userId, products, 'Transfer cancelled');
+        }
+      }
+      return { before: before.toObject(), transfer };
+    });
+    const wasInTransit = before.status === 'in_transit';
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_transfer_cancelled',
+      entityType: 'stock_transfer',
+      entityId: transfer._id.toString(),
+      referenceNo: transfer.transferNumber,
+      userId: req.userId,
+      metadata: { reason: req.body?.reason, returnedToSource: wasInTransit },
+      before,
+      after: transfer.toObject(),
+    });
+
+    res.json({ success: true, data: transfer, message: 'Stock transfer cancelled' });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to cancel stock transfer';
+    res.status(transferErrorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const location = await StockLocation.findById(req.params.id);
+    if (!location) return res.status(404).json({ success: false, error: 'Location not found' });
+    const before = location.toObject();
+
+    const { name, locationType, address, isActive } = req.body;
+    if (name !== undefined) location.name = String(name).trim();
+    if (locationType !== undefined) location.locationType = normalizeLocationType(locationType);
+    if (address !== undefined) location.address = address;
+    if (isActive !== undefined) {
+      if (location.isDefault && !isActive) {
+        return res.status(400).json({ success: false, error: 'Default location cannot be deactivated' });
+      }
+      location.isActive = Boolean(isActive);
+    }
+    await location.save();
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'location_update',
+      entityType: 'stock_location',
+      entityId: location._id.toString(),
+      referenceNo: location.locationCode,
+      userId: req.userId,
+      before,
+      after: location.toObject(),
+    });
+
+    res.json({ success: true, data: location, message: 'Location updated' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to update location' });
+  }
+});
+
+export default router;
@@ -1,216 +1,481 @@
 import { Router, Response } from 'express';
 import { Order } from '../models/Order.js';
-import { Product } from '../models/Product.js';
+import { Sale } from '../models/Sale.js';
+import { Customer } from '../models/Customer.js';
+import { User } from '../models/User.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { generateNumber } from '../services/numbering.js';
+import { generateInvoiceNumber } from '../services/appSettings.js';
+import { writeAuditLog } from '../services/audit.js';
+import { maxDiscountForRole } from '../services/discountPolicy.js';
+import { resolveUserLocation } from '../services/stockLocations.js';
+import { toBaseQuantity } from '../services/units.js';
+import { applyRoundOffIfNeeded, processItems } from '../services/salePricing.js';
+import { SALE_PAYMENT_METHODS, SalePaymentMethod, normalizeSaleTenders, primaryTenderMethod } from '../services/salePayments.js';
+import { decrementStockForItems, postSaleFinancials } from '../services/salePosting.js';
+import { releaseStock, reserveStock } from '../services/heldBills.js';
+import { advanceBalance, applyOrderAdvance, pendingQuantity, recordOrderAdvance, refundOrderAdvance } from '../services/salesOrders.js';
+import { runInTransaction } from '../services/transactions.js';
+import { resolvePlaceOfSupply } from '../services/placeOfSupply.js';
 
 const router = Router();
 
-// Generate order number
-const generateOrderNumber = (): string => {
-  const date = new Date();
-  const timestamp = date.getTime();
-  return `ORD-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}-${timestamp.toString().slice(-6)}`;
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+const round4 = (value: number) => Number(Number(value || 0).toFixed(4));
+
+const openStatuses = ['booked', 'partially_delivered'];
+
+const getRequestUserRole = async (userId?: string): Promise<string> => {
+  if (!userId) return 'receptionist';
+  const user = await User.findById(userId);
+  return String(user?.role || 'receptionist');
 };
 
-// Create order
-router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    const { items, paymentMethod, notes } = req.body;
+const parseAdvance = (input: any): { amount: number; mode: SalePaymentMethod; reference?: string; error?: string } | null => {
+  const amount = round2(Number(input?.amount || 0));
+  if (!input || amount <= 0) return null;
+  const mode = String(input.method || input.mode || 'cash').toLowerCase() as SalePaymentMethod;
+  if (!SALE_PAYMENT_METHODS.includes(mode)) return { amount, mode: 'cash', error: `Unsupported payment method: ${input.method}` };
+  return { amount, mode, reference: String(input.reference || '').trim() || undefined };
+};
 
-    // Validation
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Items array is required and must not be empty',
-      });
-    }
+const errorStatus = (message: string) => {
+  if (message.includes('not found')) return 404;
+  if (message.includes('changed while')) return 409;
+  return message.includes('Insufficient')
+    || message.includes('Cannot deliver')
+    || message.includes('Sales order is')
+    || message.includes('Invalid quantity')
+    || message.includes('required')
+    || message.includes('exceeds')
+    ? 400
+    : 500;
+};
 
-    if (!paymentMethod) {
-      return res.status(400).json({
-        success: false,
-        error: 'Payment method is required',
-      });
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { orderStatus, customerId, q, skip = 0, limit = 20 } = req.query;
+    const filter: any = {};
+    if (orderStatus) filter.orderStatus = String(orderStatus);
+    if (customerId) filter.customerId = String(customerId);
+    if (q) {
+      const pattern = { $regex: String(q).trim(), $options: 'i' };
+      filter.$or = [{ orderNumber: pattern }, { customerName: pattern }, { customerPhone: pattern }];
     }
 
-    let totalAmount = 0;
-    let totalGstAmount = 0;
-    const orderItems = [];
+    const orders = await Order.find(filter).skip(Number(skip)).limit(Number(limit)).sort({ createdAt: -1 });
+    const total = await Order.countDocuments(filter);
+    res.status(200).json({
+      success: true,
+      data: orders,
+      pagination: { total, skip: Number(skip), limit: Number(limit) },
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to get sales orders' });
+  }
+});
 
-    // Process items
-    for (const item of items) {
-      const product = await Product.findById(item.productId);
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const order = await Order.findById(req.params.id);
+    if (!order) return res.status(404).json({ success: false, error: 'Sales order not found' });
+    res.status(200).json({ success: true, data: order });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to get sales order' });
+  }
+});
 
-      if (!product) {
-        return res.status(404).json({
-          success: false,
-          error: `Product with ID ${item.productId} not found`,
-        });
-      }
+// Booking prices the order like an invoice, reserves the stock so POS cannot sell it, and takes any advance.
+router.post('/', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { items, customerId, pricingMode, taxMode, expectedDeliveryDate, notes, approvePriceOverride, placeOfSupplyCode } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'Sales order must have at least one item' });
+    }
+    if (!customerId) return res.status(400).json({ success: false, error: 'customerId is required for a sales order' });
+
+    const customer = await Customer.findById(customerId);
+    if (!customer) return res.status(404).json({ success: false, error: 'Customer not found' });
+    if (customer.isBlocked) return res.status(403).json({ success: false, error: 'Customer account is blocked for billing' });
+
+    const advance = parseAdvance(req.body.advance);
+    if (advance?.error) return res.status(400).json({ success: false, error: advance.error });
+
+    const finalPricingMode = ['wholesale', 'customer'].includes(String(pricingMode)) ? String(pricingMode) : 'retail';
+    const finalTaxMode = String(taxMode) === 'inclusive' ? 'inclusive' : 'exclusive';
+    const location = await resolveUserLocation(req.userId);
+    const supply = await resolvePlaceOfSupply({ customer, stateCode: placeOfSupplyCode, userId: req.userId });
+    const { processedItems, subtotal, totalTax, totalTcs, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
+      validateStock: true,
+      allowNegativeStock: false,
+      pricingMode: finalPricingMode as any,
+      taxMode: finalTaxMode,
+      customer,
+      location,
+      isInterstate: supply.isInterstate,
+    });
 
-      if (product.stock < item.quantity) {
-        return res.status(400).json({
-          success: false,
-          error: `Insufficient stock for product ${product.name}`,
-        });
-      }
+    // The agreed prices are billed on every delivery, so overrides are approved once here.
+    const userRole = await getRequestUserRole(req.userId);
+    const needsApproval = priceOverrideRequired || Math.max(0, ...itemDiscountPercentages) > maxDiscountForRole(userRole);
+    if (needsApproval && !(approvePriceOverride && ['admin', 'manager'].includes(userRole))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Price override approval by admin/manager is required to book this order',
+        data: { requiresApproval: true },
+      });
+    }
 
-      const itemPrice = product.price * item.quantity;
-      const gstAmount = (itemPrice * product.gstRate) / 100;
+    const totals = applyRoundOffIfNeeded(subtotal + totalTax + totalTcs, false);
+    if (advance && advance.amount > totals.totalAmount) {
+      return res.status(400).json({ success: false, error: 'Advance exceeds the order value' });
+    }
 
-      orderItems.push({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: itemPrice,
-        gstAmount,
+    const order = await runInTransaction(async () => {
+      const order = new Order({
+        orderNumber: await generateNumber('sales_order', { prefix: 'SO-', datePart: true, padTo: 5 }),
+        userId: req.userId,
+        customerId: customer._id.toString(),
+        customerName: customer.name,
+        customerPhone: customer.phone,
+        customerEmail: customer.email,
+        ...supply,
+        pricingMode: finalPricingMode,
+        taxMode: finalTaxMode,
+        items: processedItems.map((line: any, index: number) => ({
+          productId: String(line.productId),
+          productName: line.productName,
+          sku: line.sku,
+          hsnCode: line.hsnCode,
+          quantity: line.quantity,
+          unit: line.unit,
+          conversionFactor: line.conversionFactor,
+          baseQuantity: line.baseQuantity,
+          deliveredQuantity: 0,
+          reservedBaseQuantity: line.baseQuantity,
+          listPrice: line.listPrice,
+          unitPrice: round2(Number(items[index]?.unitPrice ?? line.listPrice)),
+          discountAmount: line.discountAmount,
+          discountPercentage: line.discountPercentage,
+          promotionId: line.promotionId ? String(line.promotionId) : undefined,
+          promotionName: line.promotionName,
+          promotionDiscount: line.promotionDiscount,
+          gstRate: line.gstRate,
+          lineTotal: line.lineTotal,
+        })),
+        subtotal,
+        gstAmount: totalTax,
+        totalAmount: totals.totalAmount,
+        expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : undefined,
+        priceOverrideApprovedBy: needsApproval ? req.userId : undefined,
+        notes,
       });
 
-      totalAmount += itemPrice;
-      totalGstAmount += gstAmount;
-    }
+      await reserveStock(order.items.map((item) => ({ productId: item.productId, baseQuantity: item.reservedBaseQuantity })));
+      if (advance) await recordOrderAdvance(order, advance, req.userId);
+      await order.save();
+      return order;
+    });
 
-    // Create order
-    const order = new Order({
-      orderNumber: generateOrderNumber(),
+    await writeAuditLog({
+      module: 'sales',
+      action: 'sales_order_booked',
+      entityType: 'sales_order',
+      entityId: order._id.toString(),
+      referenceNo: order.orderNumber,
       userId: req.userId,
-      items: orderItems,
-      totalAmount,
-      gstAmount: totalGstAmount,
-      paymentMethod,
-      notes,
+      metadata: { advanceAmount: order.advanceAmount, priceOverrideApprovedBy: order.priceOverrideApprovedBy },
+      after: order.toObject(),
     });
 
-    await order.save();
-
-    // Deduct from stock
-    for (const item of items) {
-      await Product.findByIdAndUpdate(
-        item.productId,
-        { $inc: { stock: -item.quantity } }
-      );
-    }
-
-    res.status(201).json({
-      success: true,
-      message: 'Order created successfully',
-      data: order,
-    });
+    res.status(201).json({ success: true, message: `Sales order ${order.orderNumber} booked`, data: order });
   } catch (error: any) {
-    console.error('Create order error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to create order',
-    });
+    const msg = error?.message || 'Failed to book sales order';
+    res.status(errorStatus(msg)).json({ success: false, error: msg });
   }
 });
 
-// Get orders for current user
-router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/:id/advances', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { orderStatus, paymentStatus, skip = 0, limit = 20 } = req.query;
-
-    const filter: any = { userId: req.userId };
-    if (orderStatus) filter.orderStatus = orderStatus;
-    if (paymentStatus) filter.paymentStatus = paymentStatus;
-
-    const orders = await Order.find(filter)
-      .populate('items.productId', 'name sku price')
-      .skip(Number(skip))
-      .limit(Number(limit))
-      .sort({ createdAt: -1 });
-
-    const total = await Order.countDocuments(filter);
+    const advance = parseAdvance(req.body);
+    if (!advance) return res.status(400).json({ success: false, error: 'amount must be greater than 0' });
+    if (advance.error) return res.status(400).json({ success: false, error: advance.error });
+
+    const { order, receipt } = await runInTransaction(async () => {
+      const order = await Order.findById(req.params.id);
+      if (!order) throw new Error('Sales order not found');
+      if (!openStatuses.includes(order.orderStatus)) throw new Error(`Sales order is ${order.orderStatus}`);
+      const receipt = await recordOrderAdvance(order, advance, req.userId);
+      await order.save();
+      return { order, receipt };
+    });
 
-    res.status(200).json({
-      success: true,
-      data: orders,
-      pagination: {
-        total,
-        skip: Number(skip),
-        limit: Number(limit),
-      },
+    await writeAuditLog({
+      module: 'sales',
+      action: 'sales_order_advance',
+      entityType: 'sales_order',
+      entityId: order._id.toString(),
+      referenceNo: order.orderNumber,
+      userId: req.userId,
+      metadata: { voucherNumber: receipt.voucherNumber, amount: receipt.amount, mode: receipt.mode },
     });
+    res.status(201).json({ success: true, message: `Advance ${receipt.voucherNumber} recorded`, data: order });
   } catch (error: any) {
-    console.error('Get orders error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to get orders',
-    });
+    const msg = error?.message || 'Failed to record advance';
+    res.status(errorStatus(msg)).json({ success: false, error: msg });
   }
 });
 
-// Get order by ID
-router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+/**
+ * Delivers some or all of the pending quantity as a posted credit invoice. The delivered lines give up their
+ * reservation, go through the normal stock checks at the agreed prices, and the order's advance is applied first.
+ */
+router.post('/:id/deliveries', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const order = await Order.findById(req.params.id)
-      .populate('userId', 'email firstName lastName businessName')
-      .populate('items.productId', 'name sku price');
+    const { order, sale } = await runInTransaction(async () => {
+      const order = await Order.findById(req.params.id);
+      if (!order) throw new Error('Sales order not found');
+      if (!openStatuses.includes(order.orderStatus)) throw new Error(`Sales order is ${order.orderStatus}`);
+
+      const requested: any[] = Array.isArray(req.body?.items) && req.body.items.length > 0
+        ? req.body.items
+        : order.items.map((item, lineIndex) => ({ lineIndex, quantity: pendingQuantity(item) }));
+      const lines: Array<{ item: any; quantity: number }> = [];
+      for (const row of requested) {
+        const quantity = round4(Number(row?.quantity || 0));
+        if (quantity <= 0) continue;
+        const item = row?.lineIndex !== undefined
+          ? order.items[Number(row.lineIndex)]
+          : order.items.find((line) => line.productId === String(row?.productId) && pendingQuantity(line) > 0);
+        if (!item) throw new Error(`Order line not found for ${row?.productId ?? row?.lineIndex}`);
+        const alreadyPicked = lines.filter((line) => line.item === item).reduce((sum, line) => sum + line.quantity, 0);
+        if (alreadyPicked + quantity > pendingQuantity(item)) {
+          throw new Error(`Cannot deliver ${quantity} ${item.unit || ''} of ${item.productName}; only ${pendingQuantity(item)} pending`);
+        }
+        lines.push({ item, quantity });
+      }
+      if (lines.length === 0) throw new Error('Nothing to deliver: quantities are required');
 
-    if (!order) {
-      return res.status(404).json({
-        success: false,
-        error: 'Order not found',
+      const released = lines.map(({ item, quantity }) => ({
+        productId: item.productId,
+        baseQuantity: Math.min(Number(item.reservedBaseQuantity || 0), toBaseQuantity(quantity, item.conversionFactor)),
+      }));
+      // The stock check counts this order's own reservation as available; it is only released once the invoice exists.
+      const ownReservations = new Map<string, number>();
+      released.forEach(({ productId, baseQuantity }) => {
+        ownReservations.set(productId, round4((ownReservations.get(productId) || 0) + baseQuantity));
       });
-    }
 
-    // Check if user owns this order
-    if (order.userId.toString() !== req.userId) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized to view this order',
+      const customer = await Customer.findById(order.customerId);
+      const location = await resolveUserLocation(req.userId);
+      const { processedItems, subtotal, totalTax, totalCess, totalTcs, promotionDiscount } = await processItems(
+        lines.map(({ item, quantity }) => ({
+          productId: item.productId,
+          quantity,
+          unit: item.unit,
+          unitPrice: item.unitPrice,
+          discountAmount: item.discountAmount || 0,
+          discountPercentage: item.discountPercentage || 0,
+        })),
+        {
+          validateStock: true,
+          allowNegativeStock: false,
+          pricingMode: order.pricingMode,
+          taxMode: order.taxMode,
+          customer,
+          location,
+          isInterstate: Boolean(order.isInterstate),
+          // The promotions the customer was quoted at booking still apply; tax is charged as on the invoice date.
+          promotionAt: order.createdAt ? new Date(order.createdAt) : undefined,
+          taxDate: new Date(),
+          ownReservations,
+        }
+      );
+      const totals = applyRoundOffIfNeeded(subtotal + totalTax + totalTcs, false);
+      const advanceShare = round2(Math.min(advanceBalance(order), totals.totalAmount));
+
+      let tenders: any[] = [];
+      let changeDue = 0;
+      let paid = 0;
+      if (Array.isArray(req.body?.payments) && req.body.payments.length > 0) {
+        const tender = normalizeSaleTenders(req.body.payments, round2(totals.totalAmount - advanceShare), { requireFullPayment: false });
+        if (tender.error) throw new Error(tender.error);
+        const paidAt = new Date();
+        tenders = tender.payments.map((row) => ({ ...row, paidAt }));
+        changeDue = tender.changeDue;
+        paid = tender.paidAmount;
+      }
+      const outstandingAmount = round2(Math.max(0, totals.totalAmount - advanceShare - paid));
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + Math.max(0, Number(customer?.creditDays || 0)));
+
+      const sale = new Sale({
+        saleNumber: await generateNumber('sale_number', { prefix: 'S7SA/', padTo: 6 }),
+        invoiceNumber: await generateInvoiceNumber(),
+        userId: req.userId,
+        invoiceType: 'credit',
+        invoiceStatus: 'posted',
+        isLocked: true,
+        pricingMode: order.pricingMode,
+        taxMode: order.taxMode,
+        locationId: location._id.toString(),
+        locationName: location.name,
+        items: processedItems,
+        subtotal,
+        totalGst: totalTax,
+        totalCess,
+        tcsAmount: totalTcs,
+        promotionDiscount,
+        grossTotal: totals.grossTotal,
+        roundOffAmount: totals.roundOffAmount,
+        totalAmount: totals.totalAmount,
+        paymentMethod: primaryTenderMethod(tenders, 'cash'),
+        // An explicit empty list keeps advance-settled invoices out of the cash book; the advance was counted when taken.
+        payments: tenders,
+        changeDue,
+        paymentStatus: outstandingAmount > 0 ? 'pending' : 'completed',
+        saleStatus: 'completed',
+        outstandingAmount,
+        creditAppliedAmount: 0,
+        dueDate,
+        customerId: order.customerId,
+        customerCode: customer?.customerCode,
+        customerName: order.customerName,
+        customerPhone: order.customerPhone,
+        customerEmail: order.customerEmail,
+        customerGstin: customer?.gstin,
+        placeOfSupplyCode: order.placeOfSupplyCode,
+        placeOfSupply: order.placeOfSupply,
+        isInterstate: Boolean(order.isInterstate),
+        notes: [`Delivery against sales order ${order.orderNumber}`, req.body?.notes].filter(Boolean).join(' - '),
+        priceOverrideApprovedBy: order.priceOverrideApprovedBy,
+        postedAt: new Date(),
+        postedBy: req.userId,
+        clientRequestId: String(req.get('Idempotency-Key') || '').trim() || undefined,
+        salesOrderId: order._id.toString(),
+        salesOrderNumber: order.orderNumber,
+        advanceAppliedAmount: 0,
       });
-    }
+      await sale.save();
 
-    res.status(200).json({
+      await releaseStock(released);
+      lines.forEach(({ item }, index) => {
+        item.reservedBaseQuantity = round4(Math.max(0, Number(item.reservedBaseQuantity || 0) - released[index].baseQuantity));
+      });
+      sale.advanceAppliedAmount = await applyOrderAdvance(order, sale, advanceShare);
+      await decrementStockForItems(processedItems, location, sale, req.userId);
+      await postSaleFinancials(sale, { userId: req.userId, paidAmount: paid });
+      await sale.save();
+
+      lines.forEach(({ item, quantity }) => {
+        item.deliveredQuantity = round4(Number(item.deliveredQuantity || 0) + quantity);
+      });
+      order.deliveries.push({
+        saleId: sale._id.toString(),
+        invoiceNumber: sale.invoiceNumber || sale.saleNumber,
+        deliveredAt: new Date(),
+        deliveredBy: req.userId,
+        items: lines.map(({ item, quantity }) => ({ productId: item.productId, productName: item.productName, quantity, unit: item.unit })),
+        invoiceAmount: sale.totalAmount,
+        advanceApplied: sale.advanceAppliedAmount || 0,
+      });
+      order.invoicedAmount = round2(Number(order.invoicedAmount || 0) + sale.totalAmount);
+      order.orderStatus = order.items.every((item) => pendingQuantity(item) <= 0) ? 'delivered' : 'partially_delivered';
+      order.markModified('items');
+
+      // Guard against a concurrent delivery of the same order committing first.
+      const claimed = await Order.updateOne({ _id: order._id, updatedAt: order.updatedAt }, { $set: { updatedAt: new Date() } });
+      if (!claimed.modifiedCount) throw new Error('Sales order changed while delivering; reload and try again');
+      await order.save();
+      return { order, sale };
+    });
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'sales_order_delivered',
+      entityType: 'sales_order',
+      entityId: order._id.toString(),
+      referenceNo: order.orderNumber,
+      userId: req.userId,
+      metadata: {
+        saleId: sale._id.toString(),
+        invoiceNumber: sale.invoiceNumber,
+        invoiceAmount: sale.totalAmount,
+        advanceApplied: sale.advanceAppliedAmount,
+        orderStatus: order.orderStatus,
+      },
+    });
+
+    res.status(201).json({
       success: true,
-      data: order,
+      message: `Delivered on invoice ${sale.invoiceNumber}`,
+      data: { order, sale },
     });
   } catch (error: any) {
-    console.error('Get order error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to get order',
-    });
+    const msg = error?.message || 'Failed to deliver sales order';
+    res.status(errorStatus(msg)).json({ success: false, error: msg });
   }
 });
 
-// Update order status
-router.put('/:id/status', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+// Cancelling stops further deliveries; invoices already raised stand and are returned through the returns flow.
+router.post('/:id/cancel', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { orderStatus, paymentStatus } = req.body;
+    const existing = await Order.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Sales order not found' });
+    if (!openStatuses.includes(existing.orderStatus)) {
+      return res.status(400).json({ success: false, error: `Sales order is ${existing.orderStatus}` });
+    }
+    if (advanceBalance(existing) > 0 && !['admin', 'manager'].includes(await getRequestUserRole(req.userId))) {
+      return res.status(403).json({ success: false, error: 'Only admin/manager can cancel an order with an advance to refund' });
+    }
+    const refundMode = req.body?.refundMethod ? String(req.body.refundMethod).toLowerCase() as SalePaymentMethod : undefined;
+    if (refundMode && !SALE_PAYMENT_METHODS.includes(refundMode)) {
+      return res.status(400).json({ success: false, error: `Unsupported refund method: ${req.body.refundMethod}` });
+    }
 
-    const order = await Order.findById(req.params.id);
+    const { order, refunded } = await runInTransaction(async () => {
+      const order = await Order.findById(req.params.id);
+      if (!order || !openStatuses.includes(order.orderStatus)) throw new Error(`Sales order is ${order?.orderStatus || 'missing'}`);
 
-    if (!order) {
-      return res.status(404).json({
-        success: false,
-        error: 'Order not found',
+      await releaseStock(order.items.map((item) => ({ productId: item.productId, baseQuantity: item.reservedBaseQuantity })));
+      order.items.forEach((item) => {
+        item.reservedBaseQuantity = 0;
       });
-    }
-
-    // Check if user owns this order
-    if (order.userId.toString() !== req.userId) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized to update this order',
+      const refunded = await refundOrderAdvance(order, {
+        mode: refundMode,
+        reference: String(req.body?.refundReference || '').trim() || undefined,
+        reason: req.body?.reason,
+        userId: req.userId,
       });
-    }
 
-    if (orderStatus) order.orderStatus = orderStatus;
-    if (paymentStatus) order.paymentStatus = paymentStatus;
+      order.orderStatus = 'cancelled';
+      order.cancelledAt = new Date();
+      order.cancelledBy = req.userId;
+      order.cancelReason = req.body?.reason;
+      order.markModified('items');
+      await order.save();
+      return { order, refunded };
+    });
 
-    await order.save();
+    await writeAuditLog({
+      module: 'sales',
+      action: 'sales_order_cancelled',
+      entityType: 'sales_order',
+      entityId: order._id.toString(),
+      referenceNo: order.orderNumber,
+      userId: req.userId,
+      metadata: { reason: order.cancelReason, advanceRefunded: refunded, deliveries: order.deliveries.length },
+    });
 
-    res.status(200).json({
+    res.json({
       success: true,
-      message: 'Order status updated successfully',
+      message: refunded > 0 ? `Sales order cancelled; advance of ${refunded} refunded` : 'Sales order cancelled',
       data: order,
     });
   } catch (error: any) {
-    console.error('Update order status error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to update order status',
-    });
+    const msg = error?.message || 'Failed to cancel sales order';
+    res.status(errorStatus(msg)).json({ success: false, error: msg });
   }
 });
 
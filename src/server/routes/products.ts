@@ -1,16 +1,21 @@
 import { Router, Response } from 'express';
 import { Product } from '../models/Product.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { recordStockMovement } from '../services/stockMovements.js';
+import { findBarcodeConflict, findProductByBarcode, normalizeBarcodes } from '../services/barcodes.js';
+import { normalizeAlternateUnits } from '../services/units.js';
 
 const router = Router();
 
 // Get all products
 router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { category, isActive = true, skip = 0, limit = 20 } = req.query;
+    const { category, isActive = true, parentProductId, topLevel, skip = 0, limit = 20 } = req.query;
 
     const filter: any = { isActive: String(isActive) !== 'false' };
     if (category) filter.category = category;
+    if (parentProductId) filter.parentProductId = String(parentProductId);
+    if (String(topLevel || '') === 'true') filter.parentProductId = { $in: [null, ''] };
 
     const products = await Product.find(filter)
       .skip(Number(skip))
@@ -37,6 +42,216 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+const variantLabel = (attributes: Record<string, string>) => Object.values(attributes).filter(Boolean).join(' / ');
+
+const normalizeVariantAttributes = (input: any): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  if (!input || typeof input !== 'object') return attributes;
+  for (const [key, value] of Object.entries(input)) {
+    const name = String(key || '').trim();
+    const text = String(value ?? '').trim();
+    if (name && text) attributes[name] = text;
+  }
+  return attributes;
+};
+
+// Exact barcode lookup for scanners. Weighed-item labels resolve to the product with the embedded quantity.
+router.get('/barcode/:code', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const match = await findProductByBarcode(String(req.params.code || ''));
+    if (!match) {
+      return res.status(404).json({
+        success: false,
+        error: 'No product found for this barcode',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        product: match.product,
+        quantity: match.quantity,
+        weighed: match.weighed || null,
+      },
+    });
+  } catch (error: any) {
+    console.error('Barcode lookup error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to look up barcode',
+    });
+  }
+});
+
+// List variants of a parent product
+router.get('/:id/variants', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parent = await Product.findById(req.params.id);
+    if (!parent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const variants = await Product.find({ parentProductId: parent._id.toString() }).sort({ sku: 1 });
+    res.status(200).json({
+      success: true,
+      data: {
+        parent,
+        variants,
+        totalStock: variants.reduce((sum, variant) => sum + Number(variant.stock || 0), 0),
+      },
+    });
+  } catch (error: any) {
+    console.error('Get product variants error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get product variants',
+    });
+  }
+});
+
+// Create variants under a parent product. Each variant inherits catalog and tax fields from the parent
+// and carries its own SKU, barcode, prices and stock.
+router.post('/:id/variants', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parent = await Product.findById(req.params.id);
+    if (!parent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+    if ((parent as any).parentProductId) {
+      return res.status(400).json({
+        success: false,
+        error: 'A variant cannot have its own variants',
+      });
+    }
+
+    const { variants } = req.body;
+    if (!Array.isArray(variants) || variants.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'variants array is required',
+      });
+    }
+
+    const existing = await Product.find({ parentProductId: parent._id.toString() }).select('variantAttributes');
+    const existingLabels = new Set(existing.map((row: any) => variantLabel(row.variantAttributes || {}).toLowerCase()));
+    const prepared: any[] = [];
+    for (const input of variants) {
+      const attributes = normalizeVariantAttributes(input.attributes);
+      const label = variantLabel(attributes);
+      if (!label) {
+        return res.status(400).json({
+          success: false,
+          error: 'Each variant needs at least one attribute value',
+        });
+      }
+      if (existingLabels.has(label.toLowerCase())) {
+        return res.status(409).json({
+          success: false,
+          error: `Variant ${label} already exists`,
+        });
+      }
+      existingLabels.add(label.toLowerCase());
+
+      const sku = String(input.sku || `${parent.sku}-${Object.values(attributes).join('-')}`)
+        .toUpperCase()
+        .replace(/\s+/g, '-');
+      if (await Product.findOne({ sku })) {
+        return res.status(409).json({
+          success: false,
+          error: `Product with SKU ${sku} already exists`,
+        });
+      }
+
+      const barcodes = normalizeBarcodes(input.barcodes ?? input.barcode);
+      const taken = prepared.flatMap((row) => row.barcodes).find((code: string) => barcodes.includes(code));
+      const conflict = taken ? null : await findBarcodeConflict(barcodes);
+      if (taken || conflict) {
+        return res.status(409).json({
+          success: false,
+          error: `Barcode ${taken || conflict?.barcode} is already assigned${conflict ? ` to ${conflict.product.sku}` : ''}`,
+        });
+      }
+
+      prepared.push({
+        name: `${parent.name} (${label})`,
+        sku,
+        barcodes,
+        description: parent.description,
+        category: parent.category,
+        price: input.price !== undefined ? Number(input.price) : parent.price,
+        wholesalePrice: input.wholesalePrice !== undefined ? Number(input.wholesalePrice) : (parent as any).wholesalePrice || 0,
+        cost: input.cost !== undefined ? Number(input.cost) : parent.cost,
+        gstRate: parent.gstRate,
+        taxType: (parent as any).taxType || 'gst',
+        hsnCode: parent.hsnCode || '',
+        stock: Number(input.stock || 0),
+        minStock: input.minStock !== undefined ? Number(input.minStock) : parent.minStock,
+        unit: parent.unit,
+        alternateUnits: (parent as any).alternateUnits || [],
+        allowNegativeStock: Boolean((parent as any).allowNegativeStock),
+        batchTracking: Boolean((parent as any).batchTracking),
+        expiryRequired: Boolean((parent as any).expiryRequired),
+        preferredSupplierId: (parent as any).preferredSupplierId,
+        leadTimeDays: (parent as any).leadTimeDays || 0,
+        reorderQuantity: (parent as any).reorderQuantity || 0,
+        parentProductId: parent._id.toString(),
+        variantAttributes: attributes,
+      });
+    }
+
+    const created = await Product.insertMany(prepared);
+    for (const variant of created) {
+      if (Number(variant.stock || 0) === 0) continue;
+      await recordStockMovement({
+        productId: variant._id.toString(),
+        productName: variant.name,
+        sku: variant.sku,
+        movementType: 'opening',
+        quantity: Number(variant.stock || 0),
+        quantityBefore: 0,
+        quantityAfter: Number(variant.stock || 0),
+        referenceType: 'product',
+        referenceId: variant._id.toString(),
+        userId: req.userId,
+      });
+    }
+
+    // Record the option values offered so the catalog can show the variant matrix.
+    const options = new Map<string, Set<string>>(
+      ((parent as any).variantOptions || []).map((row: any) => [row.name, new Set<string>(row.values || [])])
+    );
+    for (const variant of prepared) {
+      for (const [name, value] of Object.entries(variant.variantAttributes as Record<string, string>)) {
+        options.set(name, (options.get(name) || new Set<string>()).add(value));
+      }
+    }
+    await Product.findByIdAndUpdate(parent._id, {
+      $set: {
+        hasVariants: true,
+        variantOptions: Array.from(options.entries()).map(([name, values]) => ({ name, values: Array.from(values) })),
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${created.length} variant(s) created`,
+      data: created,
+    });
+  } catch (error: any) {
+    console.error('Create product variants error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create product variants',
+    });
+  }
+});
+
 // Get product by ID
 router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -77,7 +292,13 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       taxType,
       stock,
       minStock,
+      preferredSupplierId,
+      leadTimeDays,
+      reorderQuantity,
+      barcodes,
+      weighedItemCode,
       unit,
+      alternateUnits,
       hsnCode,
       allowNegativeStock,
       batchTracking,
@@ -103,6 +324,23 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       });
     }
 
+    const units = normalizeAlternateUnits(alternateUnits, unit || 'piece');
+    if (units.error) {
+      return res.status(400).json({
+        success: false,
+        error: units.error,
+      });
+    }
+
+    const productBarcodes = normalizeBarcodes(barcodes);
+    const barcodeConflict = await findBarcodeConflict(productBarcodes);
+    if (barcodeConflict) {
+      return res.status(409).json({
+        success: false,
+        error: `Barcode ${barcodeConflict.barcode} is already assigned to ${barcodeConflict.product.sku}`,
+      });
+    }
+
     const product = new Product({
       name,
       sku: sku.toUpperCase(),
@@ -117,7 +355,13 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       returnStock: returnStock || 0,
       damagedStock: damagedStock || 0,
       minStock: minStock || 10,
+      preferredSupplierId: preferredSupplierId || undefined,
+      leadTimeDays: Number(leadTimeDays || 0),
+      reorderQuantity: Number(reorderQuantity || 0),
+      barcodes: productBarcodes,
+      weighedItemCode: weighedItemCode ? String(weighedItemCode).trim() : undefined,
       unit: unit || 'piece',
+      alternateUnits: units.alternateUnits,
       hsnCode: hsnCode || '',
       allowNegativeStock: Boolean(allowNegativeStock),
       batchTracking: Boolean(batchTracking),
@@ -126,6 +370,21 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
 
     await product.save();
 
+    if (Number(product.stock || 0) !== 0) {
+      await recordStockMovement({
+        productId: product._id.toString(),
+        productName: product.name,
+        sku: product.sku,
+        movementType: 'opening',
+        quantity: Number(product.stock || 0),
+        quantityBefore: 0,
+        quantityAfter: Number(product.stock || 0),
+        referenceType: 'product',
+        referenceId: product._id.toString(),
+        userId: req.userId,
+      });
+    }
+
     res.status(201).json({
       success: true,
       message: 'Product created successfully',
@@ -156,7 +415,13 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       returnStock,
       damagedStock,
       minStock,
+      preferredSupplierId,
+      leadTimeDays,
+      reorderQuantity,
+      barcodes,
+      weighedItemCode,
       unit,
+      alternateUnits,
       isActive,
       hsnCode,
       allowNegativeStock,
@@ -164,6 +429,28 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       expiryRequired,
     } = req.body;
 
+    const productBarcodes = barcodes !== undefined ? normalizeBarcodes(barcodes) : undefined;
+    const barcodeConflict = productBarcodes ? await findBarcodeConflict(productBarcodes, String(req.params.id)) : null;
+    if (barcodeConflict) {
+      return res.status(409).json({
+        success: false,
+        error: `Barcode ${barcodeConflict.barcode} is already assigned to ${barcodeConflict.product.sku}`,
+      });
+    }
+
+    let units: ReturnType<typeof normalizeAlternateUnits> | null = null;
+    if (alternateUnits !== undefined) {
+      const baseUnit = unit || (await Product.findById(req.params.id).select('unit'))?.unit || 'piece';
+      units = normalizeAlternateUnits(alternateUnits, baseUnit);
+      if (units.error) {
+        return res.status(400).json({
+          success: false,
+          error: units.error,
+        });
+      }
+    }
+
+    const previous = stock !== undefined ? await Product.findById(req.params.id).select('stock') : null;
     const product = await Product.findByIdAndUpdate(
       req.params.id,
       {
@@ -179,7 +466,13 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
         ...(returnStock !== undefined && { returnStock }),
         ...(damagedStock !== undefined && { damagedStock }),
         ...(minStock !== undefined && { minStock }),
+        ...(preferredSupplierId !== undefined && { preferredSupplierId: preferredSupplierId || null }),
+        ...(leadTimeDays !== undefined && { leadTimeDays: Number(leadTimeDays || 0) }),
+        ...(reorderQuantity !== undefined && { reorderQuantity: Number(reorderQuantity || 0) }),
+        ...(productBarcodes && { barcodes: productBarcodes }),
+        ...(weighedItemCode !== undefined && { weighedItemCode: String(weighedItemCode || '').trim() || null }),
         ...(unit && { unit }),
+        ...(units && { alternateUnits: units.alternateUnits }),
         ...(isActive !== undefined && { isActive }),
         ...(hsnCode !== undefined && { hsnCode }),
         ...(allowNegativeStock !== undefined && { allowNegativeStock: Boolean(allowNegativeStock) }),
@@ -196,6 +489,33 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       });
     }
 
+    // Catalog and tax fields are shared by every variant of a parent product.
+    const sharedFields = {
+      ...(category && { category }),
+      ...(gstRate && { gstRate }),
+      ...(taxType && { taxType }),
+      ...(hsnCode !== undefined && { hsnCode }),
+      ...(unit && { unit }),
+    };
+    if ((product as any).hasVariants && Object.keys(sharedFields).length) {
+      await Product.updateMany({ parentProductId: product._id.toString() }, { $set: sharedFields });
+    }
+
+    if (previous && Number(previous.stock || 0) !== Number(product.stock || 0)) {
+      await recordStockMovement({
+        productId: product._id.toString(),
+        productName: product.name,
+        sku: product.sku,
+        movementType: 'product_edit',
+        quantity: Number(product.stock || 0) - Number(previous.stock || 0),
+        quantityBefore: Number(previous.stock || 0),
+        quantityAfter: Number(product.stock || 0),
+        referenceType: 'product',
+        referenceId: product._id.toString(),
+        userId: req.userId,
+      });
+    }
+
     res.status(200).json({
       success: true,
       message: 'Product updated successfully',
@@ -213,6 +533,14 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
 // Delete product (requires authentication)
 router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    const variantCount = await Product.countDocuments({ parentProductId: req.params.id });
+    if (variantCount > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Delete or deactivate the variants of this product first',
+      });
+    }
+
     const product = await Product.findByIdAndDelete(req.params.id);
 
     if (!product) {
@@ -0,0 +1,184 @@
+import { Router, Response } from 'express';
+import { Promotion } from '../models/Promotion.js';
+import { Product } from '../models/Product.js';
+import { Sale } from '../models/Sale.js';
+import { User } from '../models/User.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { writeAuditLog } from '../services/audit.js';
+import { applyPromotions, isPromotionActive, normalizePromotionInput } from '../services/promotions.js';
+import { resolveProductUnit } from '../services/units.js';
+
+const router = Router();
+
+const getRequestUserRole = async (userId?: string): Promise<string> => {
+  if (!userId) return 'receptionist';
+  const user = await User.findById(userId);
+  return String(user?.role || 'receptionist');
+};
+
+const canManagePromotions = async (userId?: string) => ['admin', 'manager'].includes(await getRequestUserRole(userId));
+
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const filter: any = {};
+    if (req.query.isActive !== undefined) filter.isActive = String(req.query.isActive) === 'true';
+    if (req.query.type) filter.type = String(req.query.type);
+    const rows = await Promotion.find(filter).sort({ priority: -1, createdAt: -1 });
+    const now = new Date();
+    res.json({
+      success: true,
+      data: rows.map((row) => ({ ...row.toObject(), isRunning: isPromotionActive(row, now) })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch promotions' });
+  }
+});
+
+// Cart preview for the POS; posting re-evaluates promotions in processItems.
+router.post('/evaluate', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const items = Array.isArray(req.body?.items) ? req.body.items : [];
+    const productIds = items.map((item: any) => String(item.productId || '')).filter(Boolean);
+    const products = await Product.find({ _id: { $in: productIds } });
+    const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+    const lines = items
+      .filter((item: any) => productMap.has(String(item.productId)))
+      .map((item: any) => {
+        const product: any = productMap.get(String(item.productId));
+        let unitPrice = Number(item.unitPrice ?? 0);
+        if (!(unitPrice > 0)) {
+          try {
+            const unit = resolveProductUnit(product, item.unit);
+            unitPrice = Number(unit.price || 0) || Number(product.price || 0) * unit.conversionFactor;
+          } catch {
+            unitPrice = Number(product.price || 0);
+          }
+        }
+        return {
+          productId: String(product._id),
+          parentProductId: product.parentProductId ? String(product.parentProductId) : undefined,
+          category: product.category || undefined,
+          quantity: Number(item.quantity || 0),
+          unitPrice,
+        };
+      });
+
+    const result = await applyPromotions(lines);
+    res.json({
+      success: true,
+      data: {
+        lines: lines.map((line: any, index: number) => ({ productId: line.productId, ...result.lines[index] })),
+        totalDiscount: result.totalDiscount,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to evaluate promotions' });
+  }
+});
+
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const promotion = await Promotion.findById(req.params.id);
+    if (!promotion) return res.status(404).json({ success: false, error: 'Promotion not found' });
+    res.json({ success: true, data: promotion });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch promotion' });
+  }
+});
+
+router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!(await canManagePromotions(req.userId))) {
+      return res.status(403).json({ success: false, error: 'Only admin/manager can manage promotions' });
+    }
+    const { value, error } = normalizePromotionInput(req.body);
+    if (error) return res.status(400).json({ success: false, error });
+    if (value.code && (await Promotion.findOne({ code: value.code.toUpperCase() }))) {
+      return res.status(409).json({ success: false, error: 'Promotion code already exists' });
+    }
+
+    const promotion = await Promotion.create({ ...value, createdBy: req.userId });
+    await writeAuditLog({
+      module: 'promotions',
+      action: 'promotion_created',
+      entityType: 'promotion',
+      entityId: promotion._id.toString(),
+      referenceNo: promotion.code || promotion.name,
+      userId: req.userId,
+      after: promotion.toObject(),
+    });
+    res.status(201).json({ success: true, data: promotion, message: 'Promotion created' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to create promotion' });
+  }
+});
+
+router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!(await canManagePromotions(req.userId))) {
+      return res.status(403).json({ success: false, error: 'Only admin/manager can manage promotions' });
+    }
+    const promotion = await Promotion.findById(req.params.id);
+    if (!promotion) return res.status(404).json({ success: false, error: 'Promotion not found' });
+
+    const { value, error } = normalizePromotionInput({ ...promotion.toObject(), ...req.body });
+    if (error) return res.status(400).json({ success: false, error });
+    if (value.code) {
+      const duplicate = await Promotion.findOne({ code: value.code.toUpperCase(), _id: { $ne: promotion._id } });
+      if (duplicate) return res.status(409).json({ success: false, error: 'Promotion code already exists' });
+    }
+
+    const before = promotion.toObject();
+    promotion.set({ ...value, updatedBy: req.userId });
+    await promotion.save();
+    await writeAuditLog({
+      module: 'promotions',
+      action: 'promotion_updated',
+      entityType: 'promotion',
+      entityId: promotion._id.toString(),
+      referenceNo: promotion.code || promotion.name,
+      userId: req.userId,
+      before,
+      after: promotion.toObject(),
+    });
+    res.json({ success: true, data: promotion, message: 'Promotion updated' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to update promotion' });
+  }
+});
+
+// Promotions already used on invoices are deactivated rather than deleted so reports keep their names.
+router.delete('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!(await canManagePromotions(req.userId))) {
+      return res.status(403).json({ success: false, error: 'Only admin/manager can manage promotions' });
+    }
+    const promotion = await Promotion.findById(req.params.id);
+    if (!promotion) return res.status(404).json({ success: false, error: 'Promotion not found' });
+
+    const used = await Sale.exists({ 'items.appliedPromotions.promotionId': promotion._id.toString() });
+    const before = promotion.toObject();
+    if (used) {
+      promotion.isActive = false;
+      promotion.updatedBy = req.userId;
+      await promotion.save();
+    } else {
+      await promotion.deleteOne();
+    }
+    await writeAuditLog({
+      module: 'promotions',
+      action: used ? 'promotion_deactivated' : 'promotion_deleted',
+      entityType: 'promotion',
+      entityId: promotion._id.toString(),
+      referenceNo: promotion.code || promotion.name,
+      userId: req.userId,
+      before,
+    });
+    res.json({ success: true, message: used ? 'Promotion has been used and was deactivated' : 'Promotion deleted' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to delete promotion' });
+  }
+});
+
+export default router;
@@ -0,0 +1,905 @@
+import { Router, Response } from 'express';
+import { Supplier } from '../models/Supplier.js';
+import { PurchaseOrder } from '../models/PurchaseOrder.js';
+import { GoodsReceipt } from '../models/GoodsReceipt.js';
+import { Product } from '../models/Product.js';
+import { DayBookEntry } from '../models/DayBookEntry.js';
+import { User } from '../models/User.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { generateNumber } from '../services/numbering.js';
+import { writeAuditLog } from '../services/audit.js';
+import {
+  createVoucherAndLedger,
+  getCoreAccount,
+  getOrCreateAccount,
+  normalizePaymentMode,
+  round2,
+} from '../services/accounting.js';
+import { normalizeBatchNo, restockBatch } from '../services/stockBatches.js';
+import { applyStockMovement } from '../services/stockMovements.js';
+import { buildReorderSuggestions } from '../services/reorder.js';
+import { runInTransaction } from '../services/transactions.js';
+
+const router = Router();
+
+const processPurchaseItems = async (items: any[], options: { requireBatch?: boolean } = {}) => {
+  let subtotal = 0;
+  let totalTax = 0;
+  const processedItems: any[] = [];
+
+  for (const item of items) {
+    const product = await Product.findById(item.productId);
+    if (!product) {
+      throw new Error(`Product not found: ${item.productId}`);
+    }
+    // A variant parent carries no stock of its own; the variants are bought and received.
+    if ((product as any).hasVariants) {
+      throw new Error(`Variant selection is required for product ${product.name}`);
+    }
+
+    const quantity = Number(item.quantity || 0);
+    if (quantity <= 0) {
+      throw new Error(`Invalid quantity for product ${product.name}`);
+    }
+
+    const unitCost = Number(item.unitCost ?? product.cost ?? 0);
+    if (unitCost < 0) {
+      throw new Error(`Invalid unit cost for product ${product.name}`);
+    }
+
+    const batchNo = normalizeBatchNo(item.batchNo);
+    if (options.requireBatch && (product as any).batchTracking && !batchNo) {
+      throw new Error(`Batch number is required for product ${product.name}`);
+    }
+    if (options.requireBatch && (product as any).expiryRequired && !item.expiryDate) {
+      throw new Error(`Expiry date is required for product ${product.name}`);
+    }
+
+    const gstRate = typeof item.gstRate === 'number' ? Number(item.gstRate) : Number(product.gstRate || 0);
+    const taxableValue = round2(unitCost * quantity);
+    const taxAmount = round2((taxableValue * gstRate) / 100);
+
+    processedItems.push({
+      productId: product._id.toString(),
+      productName: product.name,
+      sku: product.sku,
+      batchNo: batchNo || undefined,
+      expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined,
+      quantity,
+      receivedQuantity: Number(item.receivedQuantity || 0),
+      unitCost: round2(unitCost),
+      gstRate,
+      taxableValue,
+      taxAmount,
+      lineTotal: round2(taxableValue + taxAmount),
+    });
+
+    subtotal += taxableValue;
+    totalTax += taxAmount;
+  }
+
+  return {
+    processedItems,
+    subtotal: round2(subtotal),
+    totalTax: round2(totalTax),
+    totalAmount: round2(subtotal + totalTax),
+  };
+};
+
+// Weighted average: existing stock valued at current cost plus the received lot at its unit cost.
+const receiveStockForItems = async (items: any[], sourceRef: string, userId?: string) => {
+  for (const item of items) {
+    const product = await Product.findById(item.productId);
+    if (!product) continue;
+
+    const qty = Number(item.quantity || 0);
+    const onHand = Math.max(0, Number(product.stock || 0));
+    const currentCost = Number(product.cost || 0);
+    const nextCost = onHand + qty > 0
+      ? (onHand * currentCost + qty * Number(item.unitCost || 0)) / (onHand + qty)
+      : Number(item.unitCost || 0);
+
+    await applyStockMovement(
+      product._id.toString(),
+      qty,
+      {
+        movementType: 'purchase',
+        referenceType: 'goods_receipt',
+        referenceNo: sourceRef,
+        batchNo: item.batchNo || undefined,
+        userId,
+        metadata: { unitCost: Number(item.unitCost || 0) },
+      },
+      { $set: { cost: round2(nextCost) } }
+    );
+
+    if (item.batchNo) {
+      await restockBatch({
+        productId: product._id.toString(),
+        productName: product.name,
+        sku: product.sku,
+        batchNo: item.batchNo,
+        expiryDate: item.expiryDate,
+        quantity: qty,
+        unitCost: Number(item.unitCost || 0),
+        sourceType: 'purchase',
+        sourceRef,
+        createdBy: userId,
+      });
+    }
+  }
+};
+
+const RECEIVABLE_ORDER_STATUSES = ['posted', 'partially_received'];
+
+/**
+ * Checks receipt lines against what is still pending on the purchase order. A product may arrive over several
+ * lines (one per batch), so pending quantity is checked on the product's total; the same product and batch twice
+ * is rejected as a duplicate line.
+ */
+const checkReceiptAgainstOrder = (order: any, items: any[]) => {
+  if (!RECEIVABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new Error(`Cannot receive against purchase order ${order.poNumber}: it is ${order.status}`);
+  }
+  const seen = new Set<string>();
+  const receiving = new Map<string, number>();
+  for (const item of items) {
+    const productId = String(item.productId);
+    const key = `${productId}|${normalizeBatchNo(item.batchNo)}`;
+    if (seen.has(key)) throw new Error(`Cannot receive: duplicate line for product ${item.productName || productId}`);
+    seen.add(key);
+    if (!order.items.some((row: any) => String(row.productId) === productId)) {
+      throw new Error(`Cannot receive: product ${productId} is not on purchase order ${order.poNumber}`);
+    }
+    receiving.set(productId, Number(receiving.get(productId) || 0) + Number(item.quantity || 0));
+  }
+  for (const [productId, quantity] of receiving) {
+    const line = order.items.find((row: any) => String(row.productId) === productId);
+    const pending = Number(line.quantity || 0) - Number(line.receivedQuantity || 0);
+    if (quantity > pending) {
+      throw new Error(`Cannot receive: received qty exceeds pending qty for ${line.productName}. Pending: ${pending}`);
+    }
+  }
+};
+
+// Runs before stock moves, so a purchase order received, cancelled or closed since the draft was saved stops the posting.
+const applyReceiptToPurchaseOrder = async (receipt: any) => {
+  if (!receipt.purchaseOrderId) return;
+  const order = await PurchaseOrder.findById(receipt.purchaseOrderId);
+  if (!order) throw new Error(`Cannot receive: purchase order ${receipt.poNumber || receipt.purchaseOrderId} not found`);
+  checkReceiptAgainstOrder(order, receipt.items as any[]);
+
+  for (const item of receipt.items as any[]) {
+    const line = order.items.find((row) => String(row.productId) === String(item.productId));
+    if (line) {
+      line.receivedQuantity = Number(line.receivedQuantity || 0) + Number(item.quantity || 0);
+    }
+  }
+
+  const fullyReceived = order.items.every((row) => Number(row.receivedQuantity || 0) >= Number(row.quantity || 0));
+  order.status = fullyReceived ? 'received' : 'partially_received';
+  order.markModified('items');
+  // Another receipt against the same order may have committed since it was read.
+  const claimed = await PurchaseOrder.updateOne({ _id: order._id, updatedAt: order.updatedAt }, { $set: { updatedAt: new Date() } });
+  if (!claimed.modifiedCount) throw new Error(`Purchase order ${order.poNumber} changed while posting; reload and try again`);
+  await order.save();
+};
+
+const postGoodsReceiptFinancials = async (receipt: any, userId?: string) => {
+  const stockAccount = await getCoreAccount('stock');
+  const supplierAccount = await getCoreAccount('supplier');
+  const lines: Array<{ accountId: string; debit: number; credit: number; narration?: string }> = [
+    { accountId: stockAccount._id.toString(), debit: receipt.subtotal, credit: 0, narration: `Stock received ${receipt.grnNumber}` },
+  ];
+
+  if (Number(receipt.totalTax || 0) > 0) {
+    const inputTaxAccount = await getOrCreateAccount({
+      accountName: 'Input GST',
+      accountType: 'asset',
+      createdBy: userId,
+      isSystem: true,
+    });
+    lines.push({ accountId: inputTaxAccount._id.toString(), debit: receipt.totalTax, credit: 0, narration: 'Input tax on purchase' });
+  }
+
+  lines.push({
+    accountId: supplierAccount._id.toString(),
+    debit: 0,
+    credit: receipt.totalAmount,
+    narration: `Payable to ${receipt.supplierName}`,
+  });
+
+  const voucher = await createVoucherAndLedger({
+    voucherType: 'journal',
+    voucherDate: receipt.receiptDate || new Date(),
+    paymentMode: 'adjustment',
+    referenceNo: receipt.supplierInvoiceNumber || receipt.grnNumber,
+    counterpartyName: receipt.supplierName,
+    notes: `Goods receipt ${receipt.grnNumber}`,
+    createdBy: userId,
+    lines,
+  });
+
+  await Supplier.findByIdAndUpdate(receipt.supplierId, { $inc: { outstandingBalance: receipt.totalAmount } });
+  return voucher;
+};
+
+const postGoodsReceipt = async (receipt: any, userId?: string) => {
+  await applyReceiptToPurchaseOrder(receipt);
+  await receiveStockForItems(receipt.items as any[], receipt.grnNumber, userId);
+  const voucher = await postGoodsReceiptFinancials(receipt, userId);
+
+  receipt.status = 'posted';
+  receipt.isLocked = true;
+  receipt.postedAt = new Date();
+  receipt.postedBy = userId;
+  receipt.voucherNumber = voucher.voucherNumber;
+  await receipt.save();
+};
+
+// Suppliers
+router.get('/suppliers', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { q, isActive } = req.query;
+    const filter: any = {};
+    if (isActive !== undefined) filter.isActive = String(isActive) === 'true';
+    if (q) {
+      filter.$or = [
+        { supplierCode: { $regex: String(q), $options: 'i' } },
+        { name: { $regex: String(q), $options: 'i' } },
+        { phone: { $regex: String(q), $options: 'i' } },
+        { gstin: { $regex: String(q), $options: 'i' } },
+      ];
+    }
+
+    const rows = await Supplier.find(filter).sort({ name: 1 });
+    res.json({ success: true, data: rows });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch suppliers' });
+  }
+});
+
+router.post('/suppliers', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { supplierCode, name, contactPerson, phone, email, gstin, address, paymentTermsDays = 0, leadTimeDays = 7, notes } = req.body;
+    if (!name) {
+      return res.status(400).json({ success: false, error: 'name is required' });
+    }
+
+    const finalCode = String(supplierCode || '').trim().toUpperCase()
+      || await generateNumber('supplier_code', { prefix: 'SUP-', padTo: 5 });
+
+    const existing = await Supplier.findOne({ supplierCode: finalCode });
+    if (existing) {
+      return res.status(409).json({ success: false, error: 'Supplier code already exists' });
+    }
+
+    const supplier = await Supplier.create({
+      supplierCode: finalCode,
+      name,
+      contactPerson,
+      phone,
+      email,
+      gstin,
+      address,
+      paymentTermsDays: Number(paymentTermsDays || 0),
+      leadTimeDays: Number(leadTimeDays || 0),
+      notes,
+      createdBy: req.userId,
+    });
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: 'supplier_create',
+      entityType: 'supplier',
+      entityId: supplier._id.toString(),
+      referenceNo: supplier.supplierCode,
+      userId: req.userId,
+      after: supplier.toObject(),
+    });
+
+    res.status(201).json({ success: true, data: supplier, message: 'Supplier created' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to create supplier' });
+  }
+});
+
+router.put('/suppliers/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const supplier = await Supplier.findById(req.params.id);
+    if (!supplier) return res.status(404).json({ success: false, error: 'Supplier not found' });
+    const before = supplier.toObject();
+
+    const { name, contactPerson, phone, email, gstin, address, paymentTermsDays, leadTimeDays, isActive, notes } = req.body;
+    if (name !== undefined) supplier.name = name;
+    if (contactPerson !== undefined) supplier.contactPerson = contactPerson;
+    if (phone !== undefined) supplier.phone = phone;
+    if (email !== undefined) supplier.email = email;
+    if (gstin !== undefined) supplier.gstin = gstin;
+    if (address !== undefined) supplier.address = address;
+    if (paymentTermsDays !== undefined) supplier.paymentTermsDays = Number(paymentTermsDays || 0);
+    if (leadTimeDays !== undefined) supplier.leadTimeDays = Number(leadTimeDays || 0);
+    if (isActive !== undefined) supplier.isActive = Boolean(isActive);
+    if (notes !== undefined) supplier.notes = notes;
+    await supplier.save();
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: 'supplier_update',
+      entityType: 'supplier',
+      entityId: supplier._id.toString(),
+      referenceNo: supplier.supplierCode,
+      userId: req.userId,
+      before,
+      after: supplier.toObject(),
+    });
+
+    res.json({ success: true, data: supplier, message: 'Supplier updated' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to update supplier' });
+  }
+});
+
+router.post('/suppliers/:id/payments', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const supplier = await Supplier.findById(req.params.id);
+    if (!supplier) return res.status(404).json({ success: false, error: 'Supplier not found' });
+
+    const { amount, paymentMode = 'cash', paymentDate, referenceNo, notes } = req.body;
+    const amountNum = round2(Number(amount || 0));
+    if (amountNum <= 0) return res.status(400).json({ success: false, error: 'amount must be greater than 0' });
+
+    const mode = normalizePaymentMode(paymentMode);
+    const cashBankAccount = await getCoreAccount(mode === 'cash' ? 'cash' : 'bank');
+    const supplierAccount = await getCoreAccount('supplier');
+
+    const voucher = await createVoucherAndLedger({
+      voucherType: 'payment',
+      voucherDate: paymentDate ? new Date(paymentDate) : new Date(),
+      paymentMode: mode,
+      referenceNo,
+      counterpartyName: supplier.name,
+      notes,
+      createdBy: req.userId,
+      lines: [
+        { accountId: supplierAccount._id.toString(), debit: amountNum, credit: 0, narration: `Payment to ${supplier.name}` },
+        { accountId: cashBankAccount._id.toString(), debit: 0, credit: amountNum, narration: 'Payment outflow' },
+      ],
+    });
+
+    await DayBookEntry.create({
+      entryType: 'expense',
+      category: 'Supplier Payment',
+      amount: amountNum,
+      paymentMethod: ['cash', 'card', 'upi', 'cheque', 'online'].includes(mode) ? mode : 'bank',
+      narration: notes || supplier.name,
+      referenceNo: voucher.voucherNumber,
+      entryDate: voucher.voucherDate,
+      createdBy: req.userId,
+    });
+
+    supplier.outstandingBalance = round2(Number(supplier.outstandingBalance || 0) - amountNum);
+    await supplier.save();
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: 'supplier_payment',
+      entityType: 'supplier',
+      entityId: supplier._id.toString(),
+      referenceNo: voucher.voucherNumber,
+      userId: req.userId,
+      metadata: { amount: amountNum, paymentMode: mode, outstandingBalance: supplier.outstandingBalance },
+    });
+
+    res.status(201).json({ success: true, data: { supplier, voucher }, message: 'Supplier payment recorded' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to record supplier payment' });
+  }
+});
+
+// Purchase orders
+router.get('/orders', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { supplierId, status, skip = 0, limit = 50 } = req.query;
+    const filter: any = {};
+    if (supplierId) filter.supplierId = String(supplierId);
+    if (status) filter.status = String(status);
+
+    const rows = await PurchaseOrder.find(filter)
+      .sort({ orderDate: -1, createdAt: -1 })
+      .skip(Number(skip))
+      .limit(Number(limit));
+    const total = await PurchaseOrder.countDocuments(filter);
+
+    res.json({ success: true, data: rows, pagination: { total, skip: Number(skip), limit: Number(limit) } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch purchase orders' });
+  }
+});
+
+router.get('/orders/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+    if (!order) return res.status(404).json({ success: false, error: 'Purchase order not found' });
+    res.json({ success: true, data: order });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch purchase order' });
+  }
+});
+
+router.post('/orders', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { supplierId, items, orderDate, expectedDate, notes, status = 'draft' } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'Purchase order must have at least one item' });
+    }
+
+    const supplier = await Supplier.findById(supplierId);
+    if (!supplier) return res.status(404).json({ success: false, error: 'Supplier not found' });
+    if (!supplier.isActive) return res.status(400).json({ success: false, error: 'Supplier is inactive' });
+
+    const { processedItems, subtotal, totalTax, totalAmount } = await processPurchaseItems(items);
+    const shouldPost = String(status).toLowerCase() === 'posted';
+    const poNumber = await generateNumber('purchase_order', { prefix: 'PO-', datePart: true, padTo: 5 });
+
+    const order = await PurchaseOrder.create({
+      poNumber,
+      supplierId: supplier._id,
+      supplierName: supplier.name,
+      orderDate: orderDate ? new Date(orderDate) : new Date(),
+      expectedDate: expectedDate ? new Date(expectedDate) : undefined,
+      status: shouldPost ? 'posted' : 'draft',
+      isLocked: shouldPost,
+      items: processedItems.map((item) => ({ ...item, receivedQuantity: 0 })),
+      subtotal,
+      totalTax,
+      totalAmount,
+      notes,
+      createdBy: req.userId,
+      postedAt: shouldPost ? new Date() : undefined,
+      postedBy: shouldPost ? req.userId : undefined,
+    });
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: shouldPost ? 'purchase_order_posted' : 'purchase_order_draft_created',
+      entityType: 'purchase_order',
+      entityId: order._id.toString(),
+      referenceNo: order.poNumber,
+      userId: req.userId,
+      after: order.toObject(),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: order,
+      message: shouldPost ? 'Purchase order posted' : 'Draft purchase order created',
+    });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to create purchase order';
+    const status = msg.includes('Product not found') || msg.includes('Invalid') || msg.includes('Variant selection') ? 400 : 500;
+    res.status(status).json({ success: false, error: msg });
+  }
+});
+
+router.put('/orders/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+    if (!order) return res.status(404).json({ success: false, error: 'Purchase order not found' });
+    if (order.isLocked || order.status !== 'draft') {
+      return res.status(400).json({ success: false, error: 'Purchase order is locked after posting and cannot be modified' });
+    }
+    const before = order.toObject();
+
+    const { items, expectedDate, notes } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'items are required to update purchase order' });
+    }
+
+    const { processedItems, subtotal, totalTax, totalAmount } = await processPurchaseItems(items);
+    order.items = processedItems.map((item) => ({ ...item, receivedQuantity: 0 }));
+    order.subtotal = subtotal;
+    order.totalTax = totalTax;
+    order.totalAmount = totalAmount;
+    if (expectedDate !== undefined) order.expectedDate = expectedDate ? new Date(expectedDate) : undefined;
+    if (notes !== undefined) order.notes = notes;
+    await order.save();
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: 'purchase_order_draft_updated',
+      entityType: 'purchase_order',
+      entityId: order._id.toString(),
+      referenceNo: order.poNumber,
+      userId: req.userId,
+      before,
+      after: order.toObject(),
+    });
+
+    res.json({ success: true, data: order, message: 'Draft purchase order updated' });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to update purchase order';
+    const status = msg.includes('Product not found') || msg.includes('Invalid') || msg.includes('Variant selection') ? 400 : 500;
+    res.status(status).json({ success: false, error: msg });
+  }
+});
+
+router.post('/orders/:id/post', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+    if (!order) return res.status(404).json({ success: false, error: 'Purchase order not found' });
+    if (order.isLocked || order.status !== 'draft') {
+      return res.status(400).json({ success: false, error: 'Purchase order already posted/locked' });
+    }
+
+    order.status = 'posted';
+    order.isLocked = true;
+    order.postedAt = new Date();
+    order.postedBy = req.userId;
+    await order.save();
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: 'purchase_order_posted',
+      entityType: 'purchase_order',
+      entityId: order._id.toString(),
+      referenceNo: order.poNumber,
+      userId: req.userId,
+      after: order.toObject(),
+    });
+
+    res.json({ success: true, data: order, message: 'Purchase order posted and locked' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to post purchase order' });
+  }
+});
+
+router.post('/orders/:id/cancel', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+    if (!order) return res.status(404).json({ success: false, error: 'Purchase order not found' });
+    if (['received', 'partially_received', 'cancelled'].includes(order.status)) {
+      return res.status(400).json({ success: false, error: `Purchase order in ${order.status} status cannot be cancelled` });
+    }
+    const before = order.toObject();
+
+    order.status = 'cancelled';
+    order.isLocked = true;
+    await order.save();
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: 'purchase_order_cancelled',
+      entityType: 'purchase_order',
+      entityId: order._id.toString(),
+      referenceNo: order.poNumber,
+      userId: req.userId,
+      metadata: { reason: req.body?.reason },
+      before,
+      after: order.toObject(),
+    });
+
+    res.json({ success: true, data: order, message: 'Purchase order cancelled' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to cancel purchase order' });
+  }
+});
+
+router.delete('/orders/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const order = await PurchaseOrder.findById(req.params.id);
+    if (!order) return res.status(404).json({ success: false, error: 'Purchase order not found' });
+    if (order.isLocked || order.status !== 'draft') {
+      return res.status(400).json({ success: false, error: 'Posted purchase orders cannot be deleted' });
+    }
+
+    await PurchaseOrder.findByIdAndDelete(req.params.id);
+    res.json({ success: true, message: 'Draft purchase order deleted' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to delete purchase order' });
+  }
+});
+
+// Reorder suggestions
+router.get('/reorder-suggestions', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { windowDays, coverDays, supplierId, category, includeAll } = req.query;
+    const groups = await buildReorderSuggestions({
+      windowDays: windowDays !== undefined ? Number(windowDays) : undefined,
+      coverDays: coverDays !== undefined ? Number(coverDays) : undefined,
+      supplierId: supplierId ? String(supplierId) : undefined,
+      category: category ? String(category) : undefined,
+      includeAll: String(includeAll || '') === 'true',
+    });
+
+    res.json({
+      success: true,
+      data: groups,
+      summary: {
+        suppliers: groups.length,
+        items: groups.reduce((sum, group) => sum + group.items.length, 0),
+        totalValue: round2(groups.reduce((sum, group) => sum + group.totalValue, 0)),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to build reorder suggestions' });
+  }
+});
+
+// Creates one draft purchase order per supplier. Lines may override quantity or supplier;
+// without lines, every suggestion that has a preferred supplier is converted.
+router.post('/reorder-suggestions/convert', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.userId ? await User.findById(req.userId).select('role') : null;
+    if (!['admin', 'manager'].includes(String(user?.role || ''))) {
+      return res.status(403).json({ success: false, error: 'Only admin/manager can convert reorder suggestions' });
+    }
+
+    const { lines, windowDays, coverDays, expectedDate, notes } = req.body;
+    let selected: Array<{ productId: string; supplierId: string; quantity: number; unitCost?: number }> = [];
+    if (Array.isArray(lines) && lines.length) {
+      selected = lines.map((line: any) => ({
+        productId: String(line.productId || ''),
+        supplierId: String(line.supplierId || ''),
+        quantity: Number(line.quantity || 0),
+        unitCost: line.unitCost !== undefined ? Number(line.unitCost) : undefined,
+      }));
+    } else {
+      const groups = await buildReorderSuggestions({ windowDays, coverDays });
+      for (const group of groups) {
+        if (!group.supplierId) continue;
+        for (const item of group.items) {
+          selected.push({ productId: item.productId, supplierId: group.supplierId, quantity: item.suggestedQuantity, unitCost: item.unitCost });
+        }
+      }
+    }
+
+    selected = selected.filter((line) => line.productId && line.quantity > 0);
+    const missingSupplier = selected.find((line) => !line.supplierId);
+    if (missingSupplier) {
+      return res.status(400).json({ success: false, error: `Supplier is required for product ${missingSupplier.productId}` });
+    }
+    if (!selected.length) {
+      return res.status(400).json({ success: false, error: 'No reorder lines to convert' });
+    }
+
+    const bySupplier = new Map<string, typeof selected>();
+    for (const line of selected) {
+      bySupplier.set(line.supplierId, [...(bySupplier.get(line.supplierId) || []), line]);
+    }
+
+    // Every supplier and line is checked and priced before the first order is written.
+    const drafts: Array<{ supplier: any; priced: Awaited<ReturnType<typeof processPurchaseItems>> }> = [];
+    for (const [supplierId, supplierLines] of bySupplier.entries()) {
+      const supplier = await Supplier.findById(supplierId);
+      if (!supplier) return res.status(404).json({ success: false, error: `Supplier not found: ${supplierId}` });
+      if (!supplier.isActive) return res.status(400).json({ success: false, error: `Supplier ${supplier.name} is inactive` });
+      drafts.push({ supplier, priced: await processPurchaseItems(supplierLines) });
+    }
+
+    const orders = await runInTransaction(async () => {
+      const created: any[] = [];
+      for (const { supplier, priced } of drafts) {
+        const { processedItems, subtotal, totalTax, totalAmount } = priced;
+        const leadTime = Number(supplier.leadTimeDays || 0);
+        const poNumber = await generateNumber('purchase_order', { prefix: 'PO-', datePart: true, padTo: 5 });
+        const order = await PurchaseOrder.create({
+          poNumber,
+          supplierId: supplier._id,
+          supplierName: supplier.name,
+          orderDate: new Date(),
+          expectedDate: expectedDate
+            ? new Date(expectedDate)
+            : leadTime > 0
+              ? new Date(Date.now() + leadTime * 24 * 60 * 60 * 1000)
+              : undefined,
+          status: 'draft',
+          isLocked: false,
+          items: processedItems.map((item) => ({ ...item, receivedQuantity: 0 })),
+          subtotal,
+          totalTax,
+          totalAmount,
+          notes: notes || 'Generated from reorder suggestions',
+          createdBy: req.userId,
+        });
+        created.push(order);
+      }
+      return created;
+    });
+
+    for (const order of orders) {
+      await writeAuditLog({
+        module: 'purchases',
+        action: 'purchase_order_draft_created',
+        entityType: 'purchase_order',
+        entityId: order._id.toString(),
+        referenceNo: order.poNumber,
+        userId: req.userId,
+        metadata: { source: 'reorder_suggestions' },
+        after: order.toObject(),
+      });
+    }
+
+    res.status(201).json({ success: true, data: orders, message: `${orders.length} draft purchase order(s) created` });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to convert reorder suggestions';
+    const status = msg.includes('Product not found') || msg.includes('Invalid') || msg.includes('Variant selection') ? 400 : 500;
+    res.status(status).json({ success: false, error: msg });
+  }
+});
+
+// Goods receipt notes
+router.get('/receipts', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { supplierId, purchaseOrderId, status, skip = 0, limit = 50 } = req.query;
+    const filter: any = {};
+    if (supplierId) filter.supplierId = String(supplierId);
+    if (purchaseOrderId) filter.purchaseOrderId = String(purchaseOrderId);
+    if (status) filter.status = String(status);
+
+    const rows = await GoodsReceipt.find(filter)
+      .sort({ receiptDate: -1, createdAt: -1 })
+      .skip(Number(skip))
+      .limit(Number(limit));
+    const total = await GoodsReceipt.countDocuments(filter);
+
+    res.json({ success: true, data: rows, pagination: { total, skip: Number(skip), limit: Number(limit) } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch goods receipts' });
+  }
+});
+
+router.get('/receipts/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const receipt = await GoodsReceipt.findById(req.params.id);
+    if (!receipt) return res.status(404).json({ success: false, error: 'Goods receipt not found' });
+    res.json({ success: true, data: receipt });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch goods receipt' });
+  }
+});
+
+router.post('/receipts', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { purchaseOrderId, supplierId, supplierInvoiceNumber, receiptDate, items, notes, status = 'posted' } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: 'Goods receipt must have at least one item' });
+    }
+
+    const order = purchaseOrderId ? await PurchaseOrder.findById(purchaseOrderId) : null;
+    if (purchaseOrderId && !order) {
+      return res.status(404).json({ success: false, error: 'Purchase order not found' });
+    }
+    if (order && !RECEIVABLE_ORDER_STATUSES.includes(order.status)) {
+      return res.status(400).json({ success: false, error: 'Only posted purchase orders can be received' });
+    }
+
+    const supplier = await Supplier.findById(order?.supplierId || supplierId);
+    if (!supplier) return res.status(404).json({ success: false, error: 'Supplier not found' });
+
+    if (order) {
+      for (const item of items) {
+        const line = order.items.find((row) => String(row.productId) === String(item.productId));
+        if (!line) continue;
+        if (item.unitCost === undefined) item.unitCost = line.unitCost;
+        if (item.gstRate === undefined) item.gstRate = line.gstRate;
+      }
+      try {
+        checkReceiptAgainstOrder(order, items);
+      } catch (error: any) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+    }
+
+    const { processedItems, subtotal, totalTax, totalAmount } = await processPurchaseItems(items, { requireBatch: true });
+    const shouldPost = String(status).toLowerCase() !== 'draft';
+    const grnNumber = await generateNumber('goods_receipt', { prefix: 'GRN-', datePart: true, padTo: 5 });
+
+    const receipt = new GoodsReceipt({
+      grnNumber,
+      purchaseOrderId: order?._id,
+      poNumber: order?.poNumber,
+      supplierId: supplier._id,
+      supplierName: supplier.name,
+      supplierInvoiceNumber,
+      receiptDate: receiptDate ? new Date(receiptDate) : new Date(),
+      status: 'draft',
+      isLocked: false,
+      items: processedItems.map(({ receivedQuantity, ...item }) => item),
+      subtotal,
+      totalTax,
+      totalAmount,
+      notes,
+      createdBy: req.userId,
+    });
+    await runInTransaction(async () => {
+      await receipt.save();
+      if (shouldPost) await postGoodsReceipt(receipt, req.userId);
+    });
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: shouldPost ? 'goods_receipt_posted' : 'goods_receipt_draft_created',
+      entityType: 'goods_receipt',
+      entityId: receipt._id.toString(),
+      referenceNo: receipt.grnNumber,
+      userId: req.userId,
+      after: receipt.toObject(),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: receipt,
+      message: shouldPost ? 'Goods receipt posted and stock updated' : 'Draft goods receipt created',
+    });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to create goods receipt';
+    const status = msg.includes('changed while')
+      ? 409
+      : msg.includes('Product not found') || msg.includes('Invalid') || msg.includes('Variant selection') || msg.includes('Cannot receive')
+        ? 400
+        : 500;
+    res.status(status).json({ success: false, error: msg });
+  }
+});
+
+router.post('/receipts/:id/post', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await GoodsReceipt.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Goods receipt not found' });
+    if (existing.isLocked || existing.status !== 'draft') {
+      return res.status(400).json({ success: false, error: 'Goods receipt already posted/locked' });
+    }
+
+    // The purchase order is re-checked here: it may have been received, cancelled or closed since the draft was saved.
+    const receipt = await runInTransaction(async () => {
+      const receipt = await GoodsReceipt.findOneAndUpdate(
+        { _id: existing._id, status: 'draft', isLocked: false },
+        { $set: { isLocked: true } },
+        { new: true }
+      );
+      if (!receipt) throw new Error('Goods receipt already posted/locked');
+      try {
+        await postGoodsReceipt(receipt, req.userId);
+      } catch (error) {
+        // Without a replica set nothing rolls back, so the draft is unlocked by hand to be posted again.
+        await GoodsReceipt.updateOne({ _id: receipt._id, status: 'draft' }, { $set: { isLocked: false } }).catch(() => undefined);
+        throw error;
+      }
+      return receipt;
+    });
+
+    await writeAuditLog({
+      module: 'purchases',
+      action: 'goods_receipt_posted',
+      entityType: 'goods_receipt',
+      entityId: receipt._id.toString(),
+      referenceNo: receipt.grnNumber,
+      userId: req.userId,
+      after: receipt.toObject(),
+    });
+
+    res.json({ success: true, data: receipt, message: 'Goods receipt posted and locked' });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to post goods receipt';
+    const status = msg.includes('already posted') || msg.includes('changed while') ? 409 : msg.includes('Cannot receive') ? 400 : 500;
+    res.status(status).json({ success: false, error: msg });
+  }
+});
+
+router.delete('/receipts/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const receipt = await GoodsReceipt.findById(req.params.id);
+    if (!receipt) return res.status(404).json({ success: false, error: 'Goods receipt not found' });
+    if (receipt.isLocked || receipt.status !== 'draft') {
+      return res.status(400).json({ success: false, error: 'Posted goods receipts cannot be deleted' });
+    }
+
+    await GoodsReceipt.findByIdAndDelete(req.params.id);
+    res.json({ success: true, message: 'Draft goods receipt deleted' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to delete goods receipt' });
+  }
+});
+
+export default router;
@@ -0,0 +1,268 @@
+import { Router, Response } from 'express';
+import { Quotation, QuotationStatus } from '../models/Quotation.js';
+import { Customer } from '../models/Customer.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { generateNumber } from '../services/numbering.js';
+import { writeAuditLog } from '../services/audit.js';
+import { applyRoundOffIfNeeded, processItems } from '../services/salePricing.js';
+import { resolvePlaceOfSupply } from '../services/placeOfSupply.js';
+import { expireQuotations, quotationLinesForSale, quotationValidUntil } from '../services/quotations.js';
+
+const router = Router();
+
+const roundTo2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const closedStatuses: QuotationStatus[] = ['converted', 'cancelled'];
+
+// Quotes are priced exactly like an invoice but never check or reserve stock.
+const priceQuotation = async (body: any, userId?: string) => {
+  const items = Array.isArray(body.items) ? body.items : [];
+  if (items.length === 0) throw new Error('Quotation must have at least one item');
+
+  let customer: any = null;
+  if (body.customerId) {
+    customer = await Customer.findById(body.customerId);
+    if (!customer) throw new Error('Customer not found');
+  }
+
+  const pricingMode = ['wholesale', 'customer'].includes(String(body.pricingMode)) ? String(body.pricingMode) : 'retail';
+  const taxMode = String(body.taxMode) === 'inclusive' ? 'inclusive' : 'exclusive';
+  const supply = await resolvePlaceOfSupply({ customer, stateCode: body.placeOfSupplyCode, userId });
+  const { processedItems, subtotal, totalTax, totalCess, totalTcs, promotionDiscount } = await processItems(items, {
+    validateStock: false,
+    allowNegativeStock: true,
+    pricingMode: pricingMode as any,
+    taxMode,
+    customer,
+    isInterstate: supply.isInterstate,
+  });
+
+  const discountAmount = Math.max(0, Number(body.discountAmount || 0));
+  const discountPercentage = Math.max(0, Number(body.discountPercentage || 0));
+  let grossTotal = subtotal + totalTax;
+  if (discountAmount > 0) {
+    grossTotal -= discountAmount;
+  } else if (discountPercentage > 0) {
+    grossTotal -= (grossTotal * discountPercentage) / 100;
+  }
+  const applyRoundOff = Boolean(body.applyRoundOff);
+  const totals = applyRoundOffIfNeeded(Math.max(0, grossTotal) + totalTcs, applyRoundOff);
+
+  return {
+    pricingMode,
+    taxMode,
+    customerId: customer?._id?.toString() || undefined,
+    customerCode: customer?.customerCode || undefined,
+    customerName: customer?.name || String(body.customerName || '').trim() || undefined,
+    customerPhone: customer?.phone || String(body.customerPhone || '').trim() || undefined,
+    customerEmail: customer?.email || String(body.customerEmail || '').trim() || undefined,
+    ...supply,
+    items: processedItems.map((line: any, index: number) => ({
+      productId: String(line.productId),
+      productName: line.productName,
+      sku: line.sku,
+      hsnCode: line.hsnCode,
+      quantity: line.quantity,
+      unit: line.unit,
+      conversionFactor: line.conversionFactor,
+      baseQuantity: line.baseQuantity,
+      listPrice: line.listPrice,
+      unitPrice: line.unitPrice,
+      quotedUnitPrice: roundTo2(Number(items[index]?.unitPrice ?? line.listPrice)),
+      discountAmount: line.discountAmount,
+      discountPercentage: line.discountPercentage,
+      promotionDiscount: line.promotionDiscount,
+      taxGroupCode: line.taxGroupCode,
+      supplyType: line.supplyType,
+      taxableValue: line.taxableValue,
+      gstRate: line.gstRate,
+      gstAmount: line.gstAmount,
+      cgstAmount: line.cgstAmount,
+      sgstAmount: line.sgstAmount,
+      igstAmount: line.igstAmount,
+      taxType: line.taxType,
+      vatAmount: line.vatAmount,
+      cessAmount: line.cessAmount,
+      tcsAmount: line.tcsAmount,
+      lineTotal: line.lineTotal,
+    })),
+    subtotal,
+    totalGst: totalTax,
+    totalCess,
+    tcsAmount: totalTcs,
+    promotionDiscount,
+    discountAmount: roundTo2(discountAmount),
+    discountPercentage: roundTo2(discountPercentage),
+    applyRoundOff,
+    grossTotal: totals.grossTotal,
+    roundOffAmount: totals.roundOffAmount,
+    totalAmount: totals.totalAmount,
+  };
+};
+
+const pricingErrorStatus = (message: string) =>
+  message.includes('not found')
+  || message.includes('Invalid quantity')
+  || message.includes('required')
+  || message.includes('at least one item')
+  || message.includes('is not configured')
+    ? 400
+    : 500;
+
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await expireQuotations();
+    const { status, customerId, q, skip = 0, limit = 20 } = req.query;
+    const filter: any = {};
+    if (status) filter.status = String(status);
+    if (customerId) filter.customerId = String(customerId);
+    if (q) {
+      const pattern = { $regex: String(q).trim(), $options: 'i' };
+      filter.$or = [{ quotationNumber: pattern }, { customerName: pattern }, { customerPhone: pattern }];
+    }
+
+    const rows = await Quotation.find(filter).sort({ createdAt: -1 }).skip(Number(skip)).limit(Number(limit));
+    const total = await Quotation.countDocuments(filter);
+    res.json({ success: true, data: rows, pagination: { total, skip: Number(skip), limit: Number(limit) } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch quotations' });
+  }
+});
+
+router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const priced = await priceQuotation(req.body || {}, req.userId);
+    const quotation = await Quotation.create({
+      ...priced,
+      quotationNumber: await generateNumber('quotation', { prefix: 'QTN-', datePart: true, padTo: 5 }),
+      status: String(req.body?.status) === 'sent' ? 'sent' : 'draft',
+      sentAt: String(req.body?.status) === 'sent' ? new Date() : undefined,
+      validUntil: quotationValidUntil(req.body?.validUntil, req.body?.validityDays),
+      terms: req.body?.terms || undefined,
+      notes: req.body?.notes || undefined,
+      createdBy: req.userId,
+    });
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'quotation_created',
+      entityType: 'quotation',
+      entityId: quotation._id.toString(),
+      referenceNo: quotation.quotationNumber,
+      userId: req.userId,
+      after: quotation.toObject(),
+    });
+    res.status(201).json({ success: true, data: quotation, message: `Quotation ${quotation.quotationNumber} created` });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to create quotation';
+    res.status(pricingErrorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await expireQuotations();
+    const quotation = await Quotation.findById(req.params.id);
+    if (!quotation) return res.status(404).json({ success: false, error: 'Quotation not found' });
+    res.json({ success: true, data: quotation });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch quotation' });
+  }
+});
+
+router.get('/:id/print', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const quotation = await Quotation.findById(req.params.id);
+    if (!quotation) return res.status(404).json({ success: false, error: 'Quotation not found' });
+
+    const format = String(req.query.format || 'a4').toLowerCase() === 'thermal' ? 'thermal' : 'a4';
+    res.json({ success: true, data: { format, quotation, printableAt: new Date() } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to prepare printable quotation' });
+  }
+});
+
+// Revising a quote reprices it and sends it back to draft; the customer has not seen the new figures yet.
+router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const quotation = await Quotation.findById(req.params.id);
+    if (!quotation) return res.status(404).json({ success: false, error: 'Quotation not found' });
+    if (closedStatuses.includes(quotation.status)) {
+      return res.status(400).json({ success: false, error: `A ${quotation.status} quotation cannot be edited` });
+    }
+    const before = quotation.toObject();
+
+    const body = { ...before, ...req.body, items: req.body?.items ?? quotationLinesForSale(quotation) };
+    const priced = await priceQuotation(body, req.userId);
+    Object.assign(quotation, priced, {
+      status: 'draft',
+      validUntil: (req.body?.validUntil || req.body?.validityDays !== undefined)
+        ? quotationValidUntil(req.body?.validUntil, req.body?.validityDays)
+        : quotation.validUntil,
+      terms: req.body?.terms ?? quotation.terms,
+      notes: req.body?.notes ?? quotation.notes,
+      sentAt: undefined,
+      respondedAt: undefined,
+    });
+    if (quotation.validUntil.getTime() < Date.now()) {
+      return res.status(400).json({ success: false, error: 'Validity date is in the past; extend it to revise this quotation' });
+    }
+    await quotation.save();
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'quotation_updated',
+      entityType: 'quotation',
+      entityId: quotation._id.toString(),
+      referenceNo: quotation.quotationNumber,
+      userId: req.userId,
+      before,
+      after: quotation.toObject(),
+    });
+    res.json({ success: true, data: quotation, message: 'Quotation updated' });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to update quotation';
+    res.status(pricingErrorStatus(msg)).json({ success: false, error: msg });
+  }
+});
+
+// Conversion is not a status change here: it happens through POST /api/sales with quotationId.
+router.post('/:id/status', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const next = String(req.body?.status || '') as QuotationStatus;
+    if (!['sent', 'accepted', 'rejected', 'cancelled'].includes(next)) {
+      return res.status(400).json({ success: false, error: 'Status must be sent, accepted, rejected or cancelled' });
+    }
+
+    await expireQuotations();
+    const quotation = await Quotation.findById(req.params.id);
+    if (!quotation) return res.status(404).json({ success: false, error: 'Quotation not found' });
+    if (closedStatuses.includes(quotation.status)) {
+      return res.status(400).json({ success: false, error: `Quotation is already ${quotation.status}` });
+    }
+    if (quotation.status === 'expired' && next !== 'cancelled') {
+      return res.status(400).json({ success: false, error: 'Quotation has expired; revise its validity date first' });
+    }
+
+    const previous = quotation.status;
+    quotation.status = next;
+    if (next === 'sent') quotation.sentAt = new Date();
+    if (next === 'accepted' || next === 'rejected') quotation.respondedAt = new Date();
+    await quotation.save();
+
+    await writeAuditLog({
+      module: 'sales',
+      action: `quotation_${next}`,
+      entityType: 'quotation',
+      entityId: quotation._id.toString(),
+      referenceNo: quotation.quotationNumber,
+      userId: req.userId,
+      metadata: { from: previous, to: next, reason: req.body?.reason || undefined },
+    });
+    res.json({ success: true, data: quotation, message: `Quotation marked ${next}` });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to update quotation status' });
+  }
+});
+
+export default router;
@@ -3,13 +3,17 @@ import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { Sale } from '../models/Sale.js';
 import { Return } from '../models/Return.js';
 import { Product } from '../models/Product.js';
+import { StockBatch } from '../models/StockBatch.js';
 import { AuditLog } from '../models/AuditLog.js';
 import { Attendance } from '../models/Attendance.js';
 import { User } from '../models/User.js';
 import { deriveStoreScope, isAdminAuditViewerRole } from '../services/audit.js';
+import { baseQuantityOf } from '../services/units.js';
 
 const router = Router();
 
+const roundTo2 = (value: number): number => Number(value.toFixed(2));
+
 const parseDateParam = (raw: string | undefined, fallback: Date, endOfDay = false): Date => {
   const value = String(raw || '').trim();
   let date: Date;
@@ -88,9 +92,35 @@ router.get('/daily-sales-summary', authMiddleware, async (req: AuthenticatedRequ
 
 router.get('/item-wise-sales', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { startDate, endDate } = req.query;
+    const { startDate, endDate, level = 'variant', groupBy } = req.query;
     const { start, end } = parseRange(startDate as string, endDate as string);
 
+    // Each line is attributed to the first promotion applied to it; unpromoted lines group under an empty id.
+    if (String(groupBy) === 'promotion') {
+      const promotionRows = await Sale.aggregate([
+        { $match: saleMatch(start, end) },
+        { $unwind: '$items' },
+        {
+          $group: {
+            _id: { $ifNull: ['$items.promotionId', ''] },
+            promotionName: { $first: { $ifNull: ['$items.promotionName', 'No promotion'] } },
+            lines: { $sum: 1 },
+            quantity: { $sum: { $ifNull: ['$items.baseQuantity', '$items.quantity'] } },
+            amount: { $sum: '$items.lineTotal' },
+            taxableValue: {
+              $sum: {
+                $subtract: [{ $multiply: ['$items.quantity', '$items.unitPrice'] }, { $ifNull: ['$items.promotionDiscount', 0] }],
+              },
+            },
+            promotionDiscount: { $sum: { $ifNull: ['$items.promotionDiscount', 0] } },
+            tax: { $sum: '$items.gstAmount' },
+          },
+        },
+        { $sort: { promotionDiscount: -1 } },
+      ]);
+      return res.json({ success: true, data: promotionRows });
+    }
+
     const rows = await Sale.aggregate([
       { $match: saleMatch(start, end) },
       { $unwind: '$items' },
@@ -99,16 +129,59 @@ router.get('/item-wise-sales', authMiddleware, async (req: AuthenticatedRequest,
           _id: '$items.productId',
           productName: { $first: '$items.productName' },
           sku: { $first: '$items.sku' },
-          quantity: { $sum: '$items.quantity' },
+          parentProductId: { $first: '$items.parentProductId' },
+          variantAttributes: { $first: '$items.variantAttributes' },
+          // Lines sold in different units are summed in the product's base unit.
+          quantity: { $sum: { $ifNull: ['$items.baseQuantity', '$items.quantity'] } },
           amount: { $sum: '$items.lineTotal' },
-          taxableValue: { $sum: { $multiply: ['$items.quantity', '$items.unitPrice'] } },
+          taxableValue: {
+            $sum: {
+              $subtract: [{ $multiply: ['$items.quantity', '$items.unitPrice'] }, { $ifNull: ['$items.promotionDiscount', 0] }],
+            },
+          },
+          promotionDiscount: { $sum: { $ifNull: ['$items.promotionDiscount', 0] } },
           tax: { $sum: '$items.gstAmount' },
         },
       },
       { $sort: { amount: -1 } },
     ]);
 
-    res.json({ success: true, data: rows });
+    if (String(level) !== 'parent') {
+      return res.json({ success: true, data: rows });
+    }
+
+    // Roll variant rows up to their parent product; products without variants are their own parent.
+    const parentIds = Array.from(new Set(rows.map((row: any) => row.parentProductId).filter(Boolean)));
+    const parents = parentIds.length ? await Product.find({ _id: { $in: parentIds } }).select('name sku') : [];
+    const parentMap = new Map(parents.map((parent) => [parent._id.toString(), parent]));
+    const grouped = new Map<string, any>();
+    for (const row of rows as any[]) {
+      const key = String(row.parentProductId || row._id);
+      const parent = row.parentProductId ? parentMap.get(String(row.parentProductId)) : null;
+      const current = grouped.get(key) || {
+        _id: key,
+        productName: parent?.name || row.productName,
+        sku: parent?.sku || row.sku,
+        quantity: 0,
+        amount: 0,
+        taxableValue: 0,
+        promotionDiscount: 0,
+        tax: 0,
+        variants: [],
+      };
+      current.quantity += Number(row.quantity || 0);
+      current.amount = Number((current.amount + Number(row.amount || 0)).toFixed(2));
+      current.taxableValue = Number((current.taxableValue + Number(row.taxableValue || 0)).toFixed(2));
+      current.promotionDiscount = Number((current.promotionDiscount + Number(row.promotionDiscount || 0)).toFixed(2));
+      current.tax = Number((current.tax + Number(row.tax || 0)).toFixed(2));
+      if (row.parentProductId) current.variants.push(row);
+      grouped.set(key, current);
+    }
+
+    res.json({
+      success: true,
+      data: Array.from(grouped.values()).sort((a, b) => b.amount - a.amount),
+    });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message || 'Failed to generate item-wise sales report' });
   }
@@ -182,18 +255,49 @@ router.get('/gross-profit', authMiddleware, async (req: AuthenticatedRequest, re
 
     let revenue = 0;
     let costOfGoods = 0;
+    let promotionDiscount = 0;
+    // Promotion rows use line totals (before bill discount and round-off), attributed to the line's first promotion.
+    const promotionMap = new Map<string, any>();
 
     for (const sale of sales) {
       revenue += Number(sale.totalAmount || 0);
       for (const item of sale.items as any[]) {
-        const qty = Number(item.quantity || 0);
+        const qty = baseQuantityOf(item);
         const unitCost = Number(item.costPrice ?? costMap.get(String(item.productId)) ?? 0);
         costOfGoods += qty * unitCost;
+
+        const key = String(item.promotionId || '');
+        const row = promotionMap.get(key) || {
+          promotionId: key || null,
+          promotionName: item.promotionName || 'No promotion',
+          revenue: 0,
+          costOfGoods: 0,
+          promotionDiscount: 0,
+        };
+        row.revenue += Number(item.lineTotal || 0);
+        row.costOfGoods += qty * unitCost;
+        row.promotionDiscount += Number(item.promotionDiscount || 0);
+        promotionDiscount += Number(item.promotionDiscount || 0);
+        promotionMap.set(key, row);
       }
     }
 
     const grossProfit = revenue - costOfGoods;
     const marginPercent = revenue > 0 ? (grossProfit / revenue) * 100 : 0;
+    const byPromotion = Array.from(promotionMap.values())
+      .map((row) => {
+        const profit = row.revenue - row.costOfGoods;
+        return {
+          promotionId: row.promotionId,
+          promotionName: row.promotionName,
+          revenue: Number(row.revenue.toFixed(2)),
+          costOfGoods: Number(row.costOfGoods.toFixed(2)),
+          promotionDiscount: Number(row.promotionDiscount.toFixed(2)),
+          grossProfit: Number(profit.toFixed(2)),
+          marginPercent: Number((row.revenue > 0 ? (profit / row.revenue) * 100 : 0).toFixed(2)),
+        };
+      })
+      .sort((a, b) => b.promotionDiscount - a.promotionDiscount);
 
     res.json({
       success: true,
@@ -202,6 +306,8 @@ router.get('/gross-profit', authMiddleware, async (req: AuthenticatedRequest, re
         costOfGoods: Number(costOfGoods.toFixed(2)),
         grossProfit: Number(grossProfit.toFixed(2)),
         marginPercent: Number(marginPercent.toFixed(2)),
+        promotionDiscount: Number(promotionDiscount.toFixed(2)),
+        byPromotion,
       },
     });
   } catch (error: any) {
@@ -361,16 +467,37 @@ router.get('/tax-summary', authMiddleware, async (req: AuthenticatedRequest, res
     const { startDate, endDate } = req.query;
     const { start, end } = parseRange(startDate as string, endDate as string);
 
+    // Older lines carry no taxableValue or igstAmount; they were billed intrastate at quantity x unitPrice.
     const salesTax = await Sale.aggregate([
       { $match: saleMatch(start, end) },
       { $unwind: '$items' },
       {
         $group: {
           _id: '$items.gstRate',
-          taxableValue: { $sum: { $multiply: ['$items.quantity', '$items.unitPrice'] } },
+          taxableValue: {
+            $sum: { $ifNull: ['$items.taxableValue', { $multiply: ['$items.quantity', '$items.unitPrice'] }] },
+          },
           taxAmount: { $sum: '$items.gstAmount' },
           cgstAmount: { $sum: '$items.cgstAmount' },
           sgstAmount: { $sum: '$items.sgstAmount' },
+          igstAmount: { $sum: { $ifNull: ['$items.igstAmount', 0] } },
+          cessAmount: { $sum: { $ifNull: ['$items.cessAmount', 0] } },
+          tcsAmount: { $sum: { $ifNull: ['$items.tcsAmount', 0] } },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]);
+
+    // Nil-rated, exempt and non-GST sales are reported apart from taxable ones; lines before the tax master are taxable.
+    const supplyTypes = await Sale.aggregate([
+      { $match: saleMatch(start, end) },
+      { $unwind: '$items' },
+      {
+        $group: {
+          _id: { $ifNull: ['$items.supplyType', 'taxable'] },
+          taxableValue: {
+            $sum: { $ifNull: ['$items.taxableValue', { $multiply: ['$items.quantity', '$items.unitPrice'] }] },
+          },
         },
       },
       { $sort: { _id: 1 } },
@@ -383,18 +510,100 @@ router.get('/tax-summary', authMiddleware, async (req: AuthenticatedRequest, res
         $group: {
           _id: '$items.gstRate',
           taxableValue: { $sum: '$items.lineSubtotal' },
-          taxAmount: { $sum: '$items.lineTax' },
+          taxAmount: { $sum: { $subtract: [{ $ifNull: ['$items.lineTax', 0] }, { $ifNull: ['$items.cessAmount', 0] }] } },
+          cgstAmount: { $sum: { $ifNull: ['$items.cgstAmount', { $divide: [{ $ifNull: ['$items.lineTax', 0] }, 2] }] } },
+          sgstAmount: { $sum: { $ifNull: ['$items.sgstAmount', { $divide: [{ $ifNull: ['$items.lineTax', 0] }, 2] }] } },
+          igstAmount: { $sum: { $ifNull: ['$items.igstAmount', 0] } },
+          cessAmount: { $sum: { $ifNull: ['$items.cessAmount', 0] } },
         },
       },
       { $sort: { _id: 1 } },
     ]);
 
-    res.json({ success: true, data: { salesTax, returnTax } });
+    const sumOf = (rows: any[]) => rows.reduce(
+      (acc, row) => ({
+        taxableValue: roundTo2(acc.taxableValue + Number(row.taxableValue || 0)),
+        taxAmount: roundTo2(acc.taxAmount + Number(row.taxAmount || 0)),
+        cgstAmount: roundTo2(acc.cgstAmount + Number(row.cgstAmount || 0)),
+        sgstAmount: roundTo2(acc.sgstAmount + Number(row.sgstAmount || 0)),
+        igstAmount: roundTo2(acc.igstAmount + Number(row.igstAmount || 0)),
+        cessAmount: roundTo2(acc.cessAmount + Number(row.cessAmount || 0)),
+        tcsAmount: roundTo2(acc.tcsAmount + Number(row.tcsAmount || 0)),
+      }),
+      { taxableValue: 0, taxAmount: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, cessAmount: 0, tcsAmount: 0 }
+    );
+    const salesTotals = sumOf(salesTax);
+    const returnTotals = sumOf(returnTax);
+    const netTax = {
+      cgstAmount: roundTo2(salesTotals.cgstAmount - returnTotals.cgstAmount),
+      sgstAmount: roundTo2(salesTotals.sgstAmount - returnTotals.sgstAmount),
+      igstAmount: roundTo2(salesTotals.igstAmount - returnTotals.igstAmount),
+      cessAmount: roundTo2(salesTotals.cessAmount - returnTotals.cessAmount),
+    };
+
+    res.json({ success: true, data: { salesTax, returnTax, salesTotals, returnTotals, netTax, supplyTypes } });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message || 'Failed to generate tax summary report' });
   }
 });
 
+router.get('/near-expiry', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const days = Math.max(0, Number(req.query.days ?? 30));
+    const includeExpired = String(req.query.includeExpired ?? 'true') !== 'false';
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const horizon = new Date(today);
+    horizon.setDate(horizon.getDate() + days);
+    horizon.setHours(23, 59, 59, 999);
+
+    const batches = await StockBatch.find({
+      quantity: { $gt: 0 },
+      expiryDate: includeExpired ? { $lte: horizon } : { $gte: today, $lte: horizon },
+    }).sort({ expiryDate: 1 });
+
+    const rows = batches.map((batch: any) => {
+      const expiryDate = new Date(batch.expiryDate);
+      const daysToExpiry = Math.floor((expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+      const quantity = Number(batch.quantity || 0);
+      const unitCost = Number(batch.unitCost || 0);
+      return {
+        batchId: batch._id,
+        productId: batch.productId,
+        productName: batch.productName || '',
+        sku: batch.sku || '',
+        batchNo: batch.batchNo,
+        expiryDate,
+        daysToExpiry,
+        status: daysToExpiry < 0 ? 'expired' : 'near_expiry',
+        quantity,
+        unitCost,
+        stockValue: Number((quantity * unitCost).toFixed(2)),
+      };
+    });
+
+    const summary = rows.reduce(
+      (acc, row) => {
+        acc.batches += 1;
+        acc.quantity += row.quantity;
+        acc.stockValue += row.stockValue;
+        if (row.status === 'expired') {
+          acc.expiredBatches += 1;
+          acc.expiredValue += row.stockValue;
+        }
+        return acc;
+      },
+      { batches: 0, quantity: 0, stockValue: 0, expiredBatches: 0, expiredValue: 0 }
+    );
+    summary.stockValue = Number(summary.stockValue.toFixed(2));
+    summary.expiredValue = Number(summary.expiredValue.toFixed(2));
+
+    res.json({ success: true, data: { days, asOnDate: today, summary, rows } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to generate near-expiry report' });
+  }
+});
+
 router.get('/audit-logs', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const currentUser = req.userId ? await User.findById(req.userId).select('role businessName gstin') : null;
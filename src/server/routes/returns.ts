@@ -2,10 +2,18 @@ import { Router, Response } from 'express';
 import { Return } from '../models/Return.js';
 import { Sale } from '../models/Sale.js';
 import { Product } from '../models/Product.js';
+import { Customer } from '../models/Customer.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { generateNumber } from '../services/numbering.js';
 import { createCreditNoteFromReturn } from '../services/creditNotes.js';
 import { writeAuditLog } from '../services/audit.js';
+import { BatchAllocation, normalizeBatchNo, restockReturnedQuantity } from '../services/stockBatches.js';
+import { resolveLocation } from '../services/stockLocations.js';
+import { applyStockMovement } from '../services/stockMovements.js';
+import { baseQuantityOf, resolveProductUnit, ResolvedUnit, toBaseQuantity } from '../services/units.js';
+import { runInTransaction } from '../services/transactions.js';
+import { resolvePlaceOfSupply } from '../services/placeOfSupply.js';
+import { resolveTaxProfiles } from '../services/taxGroups.js';
 
 const router = Router();
 
@@ -16,7 +24,7 @@ const approvedReturnedQtyForSaleItem = async (saleId: string, productId: string)
     { $match: { saleId, returnStatus: 'approved' } },
     { $unwind: '$items' },
     { $match: { 'items.productId': productId } },
-    { $group: { _id: null, qty: { $sum: '$items.returnQuantity' } } },
+    { $group: { _id: null, qty: { $sum: { $ifNull: ['$items.baseQuantity', '$items.returnQuantity'] } } } },
   ]);
   return Number(rows[0]?.qty || 0);
 };
@@ -36,6 +44,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       notes,
       refundMethod,
       qualityCheckRequired,
+      placeOfSupplyCode,
     } = req.body;
 
     if (!items || !Array.isArray(items) || items.length === 0) {
@@ -52,6 +61,15 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       return res.status(404).json({ success: false, error: 'Original sale not found' });
     }
 
+    // A linked return reverses tax the way the invoice charged it; a manual one is placed like a new sale.
+    const supply = linkedSale
+      ? { placeOfSupplyCode: linkedSale.placeOfSupplyCode, isInterstate: Boolean(linkedSale.isInterstate) }
+      : await resolvePlaceOfSupply({
+        customer: customerId ? await Customer.findById(customerId) : null,
+        stateCode: placeOfSupplyCode,
+        userId: req.userId,
+      });
+
     let returnedAmount = 0;
     let returnedGst = 0;
     const processedItems: any[] = [];
@@ -70,32 +88,59 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       let originalQuantity = Number(item.originalQuantity || 0);
       let unitPrice = Number(item.unitPrice ?? 0);
       let gstRate = Number(item.gstRate ?? 0);
+      let taxType = String((product as any).taxType || 'gst').toLowerCase() === 'vat' ? 'vat' : 'gst';
+      let cessRate = 0;
+      let cessPerUnit = 0;
+      let returnUnit: ResolvedUnit;
 
       if (linkedSale) {
-        const soldItem = linkedSale.items.find((s: any) => String(s.productId) === String(item.productId));
-        if (!soldItem) {
+        const soldLines = linkedSale.items.filter((s: any) => String(s.productId) === String(item.productId));
+        if (!soldLines.length) {
           return res.status(400).json({
             success: false,
             error: `Product ${product.name} not found in linked invoice`,
           });
         }
+        // Default to the unit the item was sold in; availability is compared in base units.
+        const soldItem: any = soldLines.find((s: any) => item.unit && s.unit === item.unit) || soldLines[0];
+        try {
+          returnUnit = resolveProductUnit(product, item.unit || soldItem.unit);
+        } catch (unitError: any) {
+          return res.status(400).json({ success: false, error: unitError.message });
+        }
 
         const alreadyReturned = await approvedReturnedQtyForSaleItem(linkedSale._id.toString(), String(item.productId));
-        const soldQty = Number(soldItem.quantity || 0);
-        const availableToReturn = Math.max(0, soldQty - alreadyReturned);
-        if (returnQuantity > availableToReturn) {
+        const soldBaseQty = soldLines.reduce((sum: number, line: any) => sum + baseQuantityOf(line), 0);
+        const availableToReturn = Math.max(0, soldBaseQty - alreadyReturned) / returnUnit.conversionFactor;
+        if (returnQuantity > availableToReturn + 1e-9) {
           return res.status(400).json({
             success: false,
-            error: `Return qty exceeds available for ${product.name}. Available: ${availableToReturn}`,
+            error: `Return qty exceeds available for ${product.name}. Available: ${Number(availableToReturn.toFixed(4))} ${returnUnit.unit}`,
           });
         }
 
-        originalQuantity = soldQty;
-        unitPrice = Number(item.unitPrice ?? soldItem.unitPrice ?? 0);
+        const soldFactor = Number(soldItem.conversionFactor || 1);
+        originalQuantity = Number(soldItem.quantity || 0);
+        // Promotion discounts are refunded pro rata so a free unit is never refunded at full price.
+        const soldNetPrice = Number(soldItem.unitPrice || 0)
+          - Number(soldItem.promotionDiscount || 0) / Math.max(Number(soldItem.quantity || 0), 1e-9);
+        unitPrice = Number(item.unitPrice ?? roundTo2((Math.max(0, soldNetPrice) / soldFactor) * returnUnit.conversionFactor));
         gstRate = Number(item.gstRate ?? soldItem.gstRate ?? 0);
+        taxType = soldItem.taxType === 'vat' ? 'vat' : 'gst';
+        // Cess is reversed as it was charged; per-unit cess follows the base quantity returned.
+        cessRate = Number(soldItem.cessRate || 0);
+        cessPerUnit = Number(soldItem.cessPerUnit || 0);
       } else {
-        if (unitPrice <= 0) unitPrice = Number(product.price || 0);
+        try {
+          returnUnit = resolveProductUnit(product, item.unit);
+        } catch (unitError: any) {
+          return res.status(400).json({ success: false, error: unitError.message });
+        }
+        if (unitPrice <= 0) unitPrice = Number(returnUnit.price || 0) || Number(product.price || 0) * returnUnit.conversionFactor;
         if (gstRate < 0) gstRate = Number(product.gstRate || 0);
+        const profile = (await resolveTaxProfiles([product])).get(String(product._id));
+        cessRate = Number(profile?.cessRate || 0);
+        cessPerUnit = Number(profile?.cessPerUnit || 0);
       }
 
       const itemReason = String(item.returnReason || overallReason).trim();
@@ -104,21 +149,37 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       }
 
       const lineSubtotal = roundTo2(unitPrice * returnQuantity);
-      const lineTax = roundTo2((lineSubtotal * gstRate) / 100);
+      const lineGst = roundTo2((lineSubtotal * gstRate) / 100);
+      const cessAmount = roundTo2((lineSubtotal * cessRate) / 100
+        + cessPerUnit * toBaseQuantity(returnQuantity, returnUnit.conversionFactor));
+      const lineTax = roundTo2(lineGst + cessAmount);
       const lineTotal = roundTo2(lineSubtotal + lineTax);
+      const intrastateGst = taxType === 'gst' && !supply.isInterstate;
+      const cgstAmount = intrastateGst ? roundTo2(lineGst / 2) : 0;
+      const sgstAmount = intrastateGst ? roundTo2(lineGst - cgstAmount) : 0;
+      const igstAmount = taxType === 'gst' && supply.isInterstate ? lineGst : 0;
 
       processedItems.push({
         saleId: saleId || undefined,
         productId: String(product._id),
         productName: product.name,
         sku: product.sku,
+        batchNo: normalizeBatchNo(item.batchNo) || undefined,
+        expiryDate: item.expiryDate || undefined,
         originalQuantity: originalQuantity || undefined,
         returnQuantity,
+        unit: returnUnit.unit,
+        conversionFactor: returnUnit.conversionFactor,
+        baseQuantity: toBaseQuantity(returnQuantity, returnUnit.conversionFactor),
         unitPrice,
         gstRate,
         returnReason: itemReason,
         lineSubtotal,
         lineTax,
+        cgstAmount,
+        sgstAmount,
+        igstAmount,
+        cessAmount,
         lineTotal,
         qualityStatus: 'pending',
       });
@@ -140,6 +201,8 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       customerPhone: customerPhone || linkedSale?.customerPhone || undefined,
       customerEmail: customerEmail || linkedSale?.customerEmail || undefined,
       isManualReturn: !saleId,
+      placeOfSupplyCode: supply.placeOfSupplyCode,
+      isInterstate: supply.isInterstate,
       items: processedItems,
       returnedAmount: roundTo2(returnedAmount),
       returnedGst: roundTo2(returnedGst),
@@ -229,48 +292,83 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
 router.put('/:id/approve', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { refundStatus, qualityCheck, processDirectRefund, generateCreditNote } = req.body;
-    const returnRecord = await Return.findById(req.params.id);
-    if (!returnRecord) return res.status(404).json({ success: false, error: 'Return not found' });
-    if (returnRecord.returnStatus === 'approved') {
+    const existing = await Return.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Return not found' });
+    if (existing.returnStatus === 'approved') {
       return res.status(400).json({ success: false, error: 'Return already approved' });
     }
-    const before = returnRecord.toObject();
+    const before = existing.toObject();
 
     const qualityStatus = String(qualityCheck?.status || 'pending').toLowerCase();
     const qualityFailed = qualityStatus === 'failed';
     const restockAllowed = !qualityFailed;
 
-    if (restockAllowed) {
-      for (const item of returnRecord.items) {
-        await Product.findByIdAndUpdate(item.productId, { $inc: { stock: Number(item.returnQuantity || 0) } });
+    // Restock, credit note and approval commit together; the status is re-read inside so a second approval
+    // racing this one cannot restock the same goods again.
+    const { returnRecord, restockedBatches } = await runInTransaction(async () => {
+      const returnRecord = await Return.findById(req.params.id);
+      if (!returnRecord || returnRecord.returnStatus === 'approved') throw new Error('Return already approved');
+
+      const restockedBatches: Array<{ productId: string; batches: BatchAllocation[] }> = [];
+      if (restockAllowed) {
+        const linkedSale = returnRecord.saleId ? await Sale.findById(returnRecord.saleId) : null;
+        const restockLocation = linkedSale?.locationId ? await resolveLocation(linkedSale.locationId) : null;
+        for (const item of returnRecord.items) {
+          const product = await applyStockMovement(String(item.productId), baseQuantityOf(item, 'returnQuantity'), {
+            movementType: 'return',
+            location: restockLocation,
+            referenceType: 'return',
+            referenceId: returnRecord._id.toString(),
+            referenceNo: returnRecord.returnNumber,
+            batchNo: item.batchNo,
+            userId: req.userId,
+          });
+          if (!(product as any)?.batchTracking) continue;
+
+          const soldItem: any = linkedSale?.items.find((s: any) => String(s.productId) === String(item.productId));
+          const batches = await restockReturnedQuantity({
+            productId: String(item.productId),
+            quantity: baseQuantityOf(item, 'returnQuantity'),
+            batchNo: item.batchNo,
+            saleAllocations: soldItem?.batchAllocations?.length
+              ? soldItem.batchAllocations
+              : soldItem?.batchNo
+                ? [{ batchNo: soldItem.batchNo, expiryDate: soldItem.expiryDate, quantity: baseQuantityOf(soldItem) }]
+                : [],
+            sourceRef: returnRecord.returnNumber,
+            createdBy: req.userId,
+          });
+          if (batches.length) restockedBatches.push({ productId: String(item.productId), batches });
+        }
       }
-    }
 
-    returnRecord.returnStatus = 'approved';
-    returnRecord.approvedBy = req.userId;
-    returnRecord.approvedAt = new Date();
-    returnRecord.qualityCheck = {
-      status: qualityStatus === 'passed' || qualityStatus === 'failed' ? (qualityStatus as any) : 'pending',
-      notes: qualityCheck?.notes,
-      checkedBy: req.userId,
-      checkedAt: new Date(),
-    };
-    returnRecord.items = returnRecord.items.map((item: any) => ({
-      ...item,
-      qualityStatus: returnRecord.qualityCheck?.status || 'pending',
-    })) as any;
-    returnRecord.restockStatus = restockAllowed ? 'completed' : 'skipped';
-
-    const needsCreditNote = returnRecord.refundMethod === 'credit_note' || Boolean(generateCreditNote);
-    if (needsCreditNote) {
-      const note = await createCreditNoteFromReturn(returnRecord, req.userId || 'system');
-      returnRecord.creditNoteId = note._id.toString();
-      returnRecord.refundStatus = 'completed';
-    } else {
-      returnRecord.refundStatus = processDirectRefund ? (refundStatus || 'completed') : (refundStatus || 'pending');
-    }
+      returnRecord.returnStatus = 'approved';
+      returnRecord.approvedBy = req.userId;
+      returnRecord.approvedAt = new Date();
+      returnRecord.qualityCheck = {
+        status: qualityStatus === 'passed' || qualityStatus === 'failed' ? (qualityStatus as any) : 'pending',
+        notes: qualityCheck?.notes,
+        checkedBy: req.userId,
+        checkedAt: new Date(),
+      };
+      returnRecord.items = returnRecord.items.map((item: any) => ({
+        ...item,
+        qualityStatus: returnRecord.qualityCheck?.status || 'pending',
+      })) as any;
+      returnRecord.restockStatus = restockAllowed ? 'completed' : 'skipped';
+
+      const needsCreditNote = returnRecord.refundMethod === 'credit_note' || Boolean(generateCreditNote);
+      if (needsCreditNote) {
+        const note = await createCreditNoteFromReturn(returnRecord, req.userId || 'system');
+        returnRecord.creditNoteId = note._id.toString();
+        returnRecord.refundStatus = 'completed';
+      } else {
+        returnRecord.refundStatus = processDirectRefund ? (refundStatus || 'completed') : (refundStatus || 'pending');
+      }
 
-    await returnRecord.save();
+      await returnRecord.save();
+      return { returnRecord, restockedBatches };
+    });
 
     await writeAuditLog({
       module: 'refunds',
@@ -283,6 +381,7 @@ router.put('/:id/approve', authMiddleware, async (req: AuthenticatedRequest, res
         qualityStatus: returnRecord.qualityCheck?.status,
         restockStatus: returnRecord.restockStatus,
         refundStatus: returnRecord.refundStatus,
+        restockedBatches,
       },
       before,
       after: returnRecord.toObject(),
@@ -294,7 +393,8 @@ router.put('/:id/approve', authMiddleware, async (req: AuthenticatedRequest, res
       data: returnRecord,
     });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message || 'Failed to approve return' });
+    const status = String(error?.message || '').includes('already approved') ? 400 : 500;
+    res.status(status).json({ success: false, error: error.message || 'Failed to approve return' });
   }
 });
 
@@ -3,53 +3,48 @@ import { Sale } from '../models/Sale.js';
 import { Product } from '../models/Product.js';
 import { Customer } from '../models/Customer.js';
 import { User } from '../models/User.js';
-import { ReceiptVoucher } from '../models/ReceiptVoucher.js';
 import { CreditNote } from '../models/CreditNote.js';
+import { IQuotation, Quotation } from '../models/Quotation.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import { generateNumber } from '../services/numbering.js';
+import { generateInvoiceNumber } from '../services/appSettings.js';
 import { recalculateCreditNoteStatus } from '../services/creditNotes.js';
 import { postCustomerLedgerEntry } from '../services/customerLedger.js';
 import { maxDiscountForRole } from '../services/discountPolicy.js';
 import { writeAuditLog } from '../services/audit.js';
+import {
+  BatchAllocation,
+  consumeBatchAllocations,
+  ensureBatchAllocations,
+  restockBatchAllocations,
+} from '../services/stockBatches.js';
+import { locationQuantity, resolveLocation, resolveUserLocation } from '../services/stockLocations.js';
+import { applyStockMovement } from '../services/stockMovements.js';
+import { baseQuantityOf } from '../services/units.js';
+import { applyRoundOffIfNeeded, processItems } from '../services/salePricing.js';
+import { SaleTender, normalizeSaleTenders, primaryTenderMethod } from '../services/salePayments.js';
+import { createReceipt, decrementStockForItems, normalizePaymentMethod, postSaleFinancials } from '../services/salePosting.js';
+import { expireHeldBills, reservedQuantityOf } from '../services/heldBills.js';
+import { OfflineSaleConflict, detectOfflineConflicts, normalizeOfflineMeta } from '../services/offlineSales.js';
+import { runInTransaction } from '../services/transactions.js';
+import { CONVERTIBLE_QUOTATION_STATUSES, expireQuotations, quotationSaleDefaults } from '../services/quotations.js';
+import { EWAY_BILL_THRESHOLD, buildEwayBillPayload, normalizeTransport, resolveEwaySeller } from '../services/ewayBill.js';
+import {
+  buildEInvoicePayload,
+  isMockIrpEnabled,
+  mockIrpRegister,
+  parseIrpResponse,
+  resolveEInvoiceBuyer,
+  resolveEInvoiceSeller,
+} from '../services/eInvoice.js';
+import { resolvePlaceOfSupply } from '../services/placeOfSupply.js';
+import { validateGSTIN } from '../utils/gst.js';
 
 const router = Router();
 
-const allowedPaymentMethods = ['cash', 'card', 'upi', 'cheque', 'online', 'bank_transfer'] as const;
-type AllowedPaymentMethod = (typeof allowedPaymentMethods)[number];
-
 const roundTo2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
 
-const normalizePaymentMethod = (value: any): AllowedPaymentMethod => {
-  const method = String(value || 'cash').toLowerCase().trim();
-  if (allowedPaymentMethods.includes(method as AllowedPaymentMethod)) return method as AllowedPaymentMethod;
-  return 'cash';
-};
-
-const applyRoundOffIfNeeded = (grossTotal: number, applyRoundOff: boolean) => {
-  if (!applyRoundOff) {
-    return {
-      grossTotal: roundTo2(grossTotal),
-      roundOffAmount: 0,
-      totalAmount: roundTo2(grossTotal),
-    };
-  }
-
-  const rounded = Math.round(grossTotal);
-  const roundOffAmount = roundTo2(rounded - grossTotal);
-  return {
-    grossTotal: roundTo2(grossTotal),
-    roundOffAmount,
-    totalAmount: roundTo2(rounded),
-  };
-};
-
-const customerPriceForProduct = (customer: any, productId: string): number | null => {
-  if (!customer?.priceOverrides || !Array.isArray(customer.priceOverrides)) return null;
-  const row = customer.priceOverrides.find((item: any) => String(item.productId) === String(productId));
-  if (!row) return null;
-  return Number(row.unitPrice || 0);
-};
-
 const enforceDiscountPolicy = (
   userRole: string,
   itemDiscountPercentages: number[],
@@ -85,193 +80,16 @@ const hasItemLevelPriceChange = (items: any[] = []): boolean =>
     return unitPrice !== listPrice || discountAmount > 0 || discountPercentage > 0;
   });
 
-const processItems = async (
-  items: any[],
-  options: {
-    validateStock: boolean;
-    allowNegativeStock: boolean;
-    pricingMode: 'retail' | 'wholesale' | 'customer';
-    taxMode: 'inclusive' | 'exclusive';
-    customer?: any;
-  }
-): Promise<{
-  processedItems: any[];
-  subtotal: number;
-  totalTax: number;
-  itemDiscountPercentages: number[];
-  priceOverrideRequired: boolean;
-}> => {
-  let subtotal = 0;
-  let totalTax = 0;
-  let priceOverrideRequired = false;
-  const itemDiscountPercentages: number[] = [];
-  const processedItems: any[] = [];
-
-  for (const item of items) {
-    const product = await Product.findById(item.productId);
-    if (!product) {
-      throw new Error(`Product not found: ${item.productId}`);
-    }
-
-    const quantity = Number(item.quantity || 0);
-    if (quantity <= 0) {
-      throw new Error(`Invalid quantity for product ${product.name}`);
-    }
-
-    const expiryRequired = Boolean((product as any).expiryRequired);
-    if (expiryRequired && !item.expiryDate) {
-      throw new Error(`Expiry date is required for product ${product.name}`);
-    }
-    if (item.expiryDate) {
-      const exp = new Date(item.expiryDate);
-      if (exp.getTime() < Date.now()) {
-        throw new Error(`Cannot sell expired stock for product ${product.name}`);
-      }
-    }
-
-    const listPrice = (() => {
-      if (options.pricingMode === 'customer') {
-        const customerPrice = customerPriceForProduct(options.customer, String(product._id));
-        if (customerPrice !== null && customerPrice > 0) return customerPrice;
-      }
-      if (options.pricingMode === 'wholesale') {
-        const wholesale = Number((product as any).wholesalePrice || 0);
-        if (wholesale > 0) return wholesale;
-      }
-      return Number(product.price || 0);
-    })();
-
-    let unitPrice = Number(item.unitPrice ?? listPrice);
-    if (unitPrice < listPrice) {
-      priceOverrideRequired = true;
-    }
-
-    const itemDiscountAmount = Number(item.discountAmount || 0);
-    const itemDiscountPercentage = Number(item.discountPercentage || 0);
-    itemDiscountPercentages.push(itemDiscountPercentage);
-
-    if (itemDiscountAmount > 0) {
-      unitPrice = Math.max(0, unitPrice - itemDiscountAmount);
-    } else if (itemDiscountPercentage > 0) {
-      unitPrice = Math.max(0, unitPrice - (unitPrice * itemDiscountPercentage) / 100);
-    }
-
-    if (options.validateStock) {
-      const available = Number(product.stock || 0);
-      const allowNegative = options.allowNegativeStock || Boolean((product as any).allowNegativeStock);
-      if (!allowNegative && available < quantity) {
-        throw new Error(`Insufficient stock for product ${product.name} (Available: ${available})`);
-      }
-    }
-
-    const gstRate = typeof item.gstRate === 'number' ? Number(item.gstRate) : Number(product.gstRate || 0);
-    const taxType = String((item.taxType || (product as any).taxType || 'gst')).toLowerCase() === 'vat' ? 'vat' : 'gst';
-    const lineBase = roundTo2(unitPrice * quantity);
-
-    let taxableValue = 0;
-    let taxAmount = 0;
-    let lineTotal = 0;
-
-    if (options.taxMode === 'inclusive') {
-      taxableValue = roundTo2(lineBase * (100 / (100 + gstRate)));
-      taxAmount = roundTo2(lineBase - taxableValue);
-      lineTotal = roundTo2(lineBase);
-    } else {
-      taxableValue = roundTo2(lineBase);
-      taxAmount = roundTo2((taxableValue * gstRate) / 100);
-      lineTotal = roundTo2(taxableValue + taxAmount);
-    }
-
-    const cgst = taxType === 'gst' ? roundTo2(taxAmount / 2) : 0;
-    const sgst = taxType === 'gst' ? roundTo2(taxAmount / 2) : 0;
-    const vatAmount = taxType === 'vat' ? taxAmount : 0;
-
-    processedItems.push({
-      productId: product._id,
-      productName: product.name,
-      sku: product.sku,
-      hsnCode: item.hsnCode || product.hsnCode || '',
-      batchNo: item.batchNo || '',
-      expiryDate: item.expiryDate || undefined,
-      quantity,
-      listPrice: roundTo2(listPrice),
-      unitPrice: roundTo2(unitPrice),
-      discountAmount: roundTo2(itemDiscountAmount),
-      discountPercentage: roundTo2(itemDiscountPercentage),
-      taxableValue: roundTo2(taxableValue),
-      gstRate: roundTo2(gstRate),
-      gstAmount: roundTo2(taxAmount),
-      cgstAmount: cgst,
-      sgstAmount: sgst,
-      taxType,
-      vatAmount: roundTo2(vatAmount),
-      lineTotal: roundTo2(lineTotal),
-    });
-
-    subtotal += taxableValue;
-    totalTax += taxAmount;
-  }
-
-  return {
-    processedItems,
-    subtotal: roundTo2(subtotal),
-    totalTax: roundTo2(totalTax),
-    itemDiscountPercentages,
-    priceOverrideRequired,
-  };
-};
-
-const decrementStockForItems = async (items: any[]) => {
-  for (const item of items) {
-    await Product.findByIdAndUpdate(item.productId, { $inc: { stock: -Number(item.quantity || 0) } });
-  }
-};
-
 const quantityMapFromItems = (items: any[] = []): Map<string, number> => {
   const map = new Map<string, number>();
   for (const item of items) {
     const productId = String(item.productId);
-    const qty = Number(item.quantity || 0);
+    const qty = baseQuantityOf(item);
     map.set(productId, Number((Number(map.get(productId) || 0) + qty).toFixed(4)));
   }
   return map;
 };
 
-const createReceipt = async (input: {
-  amount: number;
-  mode: AllowedPaymentMethod;
-  sale: any;
-  customerId?: string;
-  customerName?: string;
-  createdBy?: string;
-  notes?: string;
-}) => {
-  if (input.amount <= 0) return null;
-  const voucherNumber = await generateNumber('receipt_voucher', { prefix: 'RV-', datePart: true, padTo: 5 });
-
-  const receipt = await ReceiptVoucher.create({
-    voucherNumber,
-    customerId: input.customerId || undefined,
-    customerName: input.customerName,
-    entryDate: new Date(),
-    amount: roundTo2(input.amount),
-    unappliedAmount: 0,
-    mode: input.mode,
-    isAdvance: false,
-    allocations: [
-      {
-        saleId: input.sale._id.toString(),
-        saleNumber: input.sale.invoiceNumber || input.sale.saleNumber,
-        amount: roundTo2(input.amount),
-      },
-    ],
-    notes: input.notes,
-    createdBy: input.createdBy,
-  });
-
-  return receipt;
-};
-
 const applyCreditNoteToSale = async (args: {
   sale: any;
   creditNoteId?: string;
@@ -323,52 +141,6 @@ const applyCreditNoteToSale = async (args: {
   return { applied: applyOn, creditNote: note };
 };
 
-const postSaleFinancials = async (sale: any, opts: { userId?: string; paidAmount: number }) => {
-  const paidAmount = roundTo2(Number(opts.paidAmount || 0));
-  if (!sale.customerId) {
-    return;
-  }
-
-  if (sale.invoiceType === 'credit' && Number(sale.totalAmount || 0) > 0) {
-    await postCustomerLedgerEntry({
-      customerId: sale.customerId,
-      entryType: 'invoice',
-      referenceType: 'sale',
-      referenceId: sale._id.toString(),
-      referenceNo: sale.invoiceNumber || sale.saleNumber,
-      narration: 'Invoice posted',
-      debit: Number(sale.totalAmount || 0),
-      credit: 0,
-      dueDate: sale.dueDate || undefined,
-      createdBy: opts.userId,
-    });
-  }
-
-  if (paidAmount > 0) {
-    await createReceipt({
-      amount: paidAmount,
-      mode: normalizePaymentMethod(sale.paymentMethod),
-      sale,
-      customerId: sale.customerId || undefined,
-      customerName: sale.customerName,
-      createdBy: opts.userId,
-      notes: 'Invoice payment',
-    });
-
-    await postCustomerLedgerEntry({
-      customerId: sale.customerId,
-      entryType: 'payment',
-      referenceType: 'sale',
-      referenceId: sale._id.toString(),
-      referenceNo: sale.invoiceNumber || sale.saleNumber,
-      narration: 'Payment received against invoice',
-      debit: 0,
-      credit: paidAmount,
-      createdBy: opts.userId,
-    });
-  }
-};
-
 const getRequestUserRole = async (userId?: string): Promise<string> => {
   if (!userId) return 'receptionist';
   const user = await User.findById(userId);
@@ -386,14 +158,30 @@ const loadCustomer = async (body: any) => {
   return null;
 };
 
-router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
+    // Converting a quotation bills its lines, customer and pricing unless the request overrides them.
+    let quotation: IQuotation | null = null;
+    if (req.body?.quotationId) {
+      await expireQuotations();
+      quotation = await Quotation.findById(req.body.quotationId);
+      if (!quotation) return res.status(404).json({ success: false, error: 'Quotation not found' });
+      if (!(CONVERTIBLE_QUOTATION_STATUSES as readonly string[]).includes(quotation.status)) {
+        return res.status(400).json({
+          success: false,
+          error: `Quotation ${quotation.quotationNumber} is ${quotation.status} and cannot be converted`,
+        });
+      }
+    }
+
     const {
       items,
       paymentMethod,
       customerName,
       customerPhone,
       customerEmail,
+      customerGstin,
+      placeOfSupplyCode,
       notes,
       discountAmount,
       discountPercentage,
@@ -414,12 +202,28 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       overrideApprovedBy,
       creditNoteId,
       creditNoteAmount,
-    } = req.body;
+      payments,
+      offline,
+    } = quotation ? { ...quotationSaleDefaults(quotation), ...req.body } : req.body;
 
     if (!items || !Array.isArray(items) || items.length === 0) {
       return res.status(400).json({ success: false, error: 'Sales must have at least one item' });
     }
 
+    // Offline terminals retry until they see a response, so a replayed offlineId returns the sale already recorded.
+    // A terminal that lost the response to an online attempt queues the bill under that attempt's Idempotency-Key.
+    const offlineMeta = normalizeOfflineMeta(offline);
+    if (offlineMeta.error) return res.status(400).json({ success: false, error: offlineMeta.error });
+    const offlineSale = offlineMeta.value;
+    if (offlineSale) {
+      const synced = await Sale.findOne({
+        $or: [{ offlineId: offlineSale.offlineId }, { clientRequestId: offlineSale.offlineId }],
+      });
+      if (synced) {
+        return res.status(200).json({ success: true, duplicate: true, message: 'Offline sale already synced', data: synced });
+      }
+    }
+
     const userRole = await getRequestUserRole(req.userId);
     const normalizedInvoiceType = String(invoiceType || 'cash').toLowerCase() === 'credit' ? 'credit' : 'cash';
     const normalizedInvoiceStatus = String(invoiceStatus || 'posted').toLowerCase() === 'draft' ? 'draft' : 'posted';
@@ -442,20 +246,59 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       String(pricingMode) === 'wholesale' || String(pricingMode) === 'customer' ? String(pricingMode) : 'retail';
     const finalTaxMode = String(taxMode) === 'inclusive' ? 'inclusive' : 'exclusive';
 
-    const { processedItems, subtotal, totalTax, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
+    const saleLocation = await resolveUserLocation(req.userId);
+
+    let offlineConflicts: OfflineSaleConflict[] = [];
+    let offlineApprovedBy: string | undefined;
+    if (offlineSale && shouldPost) {
+      offlineConflicts = await detectOfflineConflicts(items, { location: saleLocation });
+      if (offlineConflicts.length > 0) {
+        if (!offlineSale.acceptConflicts || offlineConflicts.some((row) => row.type === 'product')) {
+          return res.status(409).json({
+            success: false,
+            error: 'Offline sale has conflicts that need review',
+            data: { offlineId: offlineSale.offlineId, conflicts: offlineConflicts },
+          });
+        }
+        if (!['admin', 'manager'].includes(userRole)) {
+          return res.status(403).json({ success: false, error: 'Only admin/manager can accept offline sale conflicts' });
+        }
+        offlineApprovedBy = req.userId;
+      }
+    }
+
+    const buyerGstin = String(customer?.gstin || customerGstin || '').trim().toUpperCase() || undefined;
+    if (buyerGstin && !validateGSTIN(buyerGstin)) {
+      return res.status(400).json({ success: false, error: `Customer GSTIN ${buyerGstin} is invalid` });
+    }
+    const supply = await resolvePlaceOfSupply({
+      customer: { gstin: buyerGstin, stateCode: customer?.stateCode },
+      stateCode: placeOfSupplyCode,
+      userId: req.userId,
+    });
+
+    const { processedItems, subtotal, totalTax, totalCess, totalTcs, promotionDiscount, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
       validateStock: shouldPost,
-      allowNegativeStock: Boolean(allowNegativeStock),
+      allowNegativeStock: Boolean(allowNegativeStock) || Boolean(offlineApprovedBy),
       pricingMode: finalPricingMode as any,
       taxMode: finalTaxMode as any,
       customer,
+      location: saleLocation,
+      isInterstate: supply.isInterstate,
     });
 
     const parsedDiscountAmount = Number(discountAmount || 0);
     const parsedDiscountPercentage = Number(discountPercentage || 0);
     const policy = enforceDiscountPolicy(userRole, itemDiscountPercentages, parsedDiscountPercentage);
     const requiresApproval = !policy.allowed || priceOverrideRequired;
+    // A quote priced below today's list, or with discounts beyond the converting user's limit, needs a manager.
+    const quotationApprovedBy = quotation && requiresApproval && req.body?.approvePriceOverride ? req.userId : undefined;
+    if (quotationApprovedBy && !['admin', 'manager'].includes(userRole)) {
+      return res.status(403).json({ success: false, error: 'Only admin/manager can approve price override' });
+    }
+    const approvedBy = overrideApprovedBy || offlineApprovedBy || quotationApprovedBy;
 
-    if (requiresApproval && !overrideApprovedBy) {
+    if (requiresApproval && !approvedBy) {
       return res.status(403).json({
         success: false,
         error: policy.message || 'Price override approval is required before posting this invoice',
@@ -470,10 +313,55 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       grossTotal -= (grossTotal * parsedDiscountPercentage) / 100;
     }
     if (grossTotal < 0) grossTotal = 0;
+    grossTotal += totalTcs;
 
     const totals = applyRoundOffIfNeeded(grossTotal, Boolean(applyRoundOff));
+    if (
+      offlineSale?.clientTotal !== undefined
+      && Math.abs(offlineSale.clientTotal - totals.totalAmount) > 0.01
+    ) {
+      const totalConflict: OfflineSaleConflict = {
+        type: 'total',
+        message: `Billed offline for ${offlineSale.clientTotal}, server total is ${totals.totalAmount}`,
+        expected: totals.totalAmount,
+        actual: offlineSale.clientTotal,
+      };
+      if (!offlineSale.acceptConflicts) {
+        return res.status(409).json({
+          success: false,
+          error: 'Offline sale has conflicts that need review',
+          data: { offlineId: offlineSale.offlineId, conflicts: [...offlineConflicts, totalConflict] },
+        });
+      }
+      if (!['admin', 'manager'].includes(userRole)) {
+        return res.status(403).json({ success: false, error: 'Only admin/manager can accept offline sale conflicts' });
+      }
+      offlineConflicts.push(totalConflict);
+    }
+
+    let tenders: SaleTender[] = [];
+    let changeDue = 0;
+    let paid = 0;
+    if (Array.isArray(payments) && payments.length > 0) {
+      const tender = normalizeSaleTenders(payments, totals.totalAmount, {
+        requireFullPayment: normalizedInvoiceType === 'cash',
+      });
+      if (tender.error) return res.status(400).json({ success: false, error: tender.error });
+      tenders = tender.payments;
+      changeDue = tender.changeDue;
+      paid = tender.paidAmount;
+    } else {
+      paid = Number(paidAmount ?? (normalizedInvoiceType === 'credit' ? 0 : totals.totalAmount));
+      const applied = roundTo2(Math.min(Math.max(0, paid), totals.totalAmount));
+      if (applied > 0) tenders = [{ method: normalizePaymentMethod(paymentMethod), amount: applied }];
+    }
+    if (shouldPost) {
+      const paidAt = new Date();
+      tenders.forEach((tender) => {
+        tender.paidAt = paidAt;
+      });
+    }
 
-    const paid = Number(paidAmount ?? (normalizedInvoiceType === 'credit' ? 0 : totals.totalAmount));
     let outstandingAmount = normalizedInvoiceType === 'credit'
       ? Math.max(0, totals.totalAmount - Math.max(0, paid))
       : 0;
@@ -502,72 +390,106 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       }
     }
 
-    const generatedSaleNumber = await generateNumber('sale_number', { prefix: 'S7SA/', padTo: 6 });
-    const generatedInvoiceNumber = manualInvoiceNumber
-      || (autoInvoiceNumber ? await generateNumber('invoice_number', { prefix: 'INV-', datePart: true, padTo: 5 }) : '');
-
-    const sale = new Sale({
-      saleNumber: generatedSaleNumber,
-      invoiceNumber: generatedInvoiceNumber || generatedSaleNumber,
-      userId: req.userId || req.body.userId,
-      invoiceType: normalizedInvoiceType,
-      invoiceStatus: normalizedInvoiceStatus,
-      isLocked: shouldPost,
-      pricingMode: finalPricingMode,
-      taxMode: finalTaxMode,
-      items: processedItems,
-      subtotal,
-      totalGst: totalTax,
-      grossTotal: totals.grossTotal,
-      roundOffAmount: totals.roundOffAmount,
-      totalAmount: totals.totalAmount,
-      paymentMethod: normalizePaymentMethod(paymentMethod),
-      paymentStatus: outstandingAmount > 0 ? 'pending' : 'completed',
-      saleStatus: shouldPost ? 'completed' : 'draft',
-      outstandingAmount,
-      creditAppliedAmount: 0,
-      dueDate: finalDueDate,
-      customerId: customer?._id?.toString() || customerId || undefined,
-      customerCode: customer?.customerCode || customerCode,
-      customerName: customer?.name || customerName || 'Walk-in Customer',
-      customerPhone: customer?.phone || customerPhone,
-      customerEmail: customer?.email || customerEmail,
-      notes,
-      discountAmount: parsedDiscountAmount || 0,
-      discountPercentage: parsedDiscountPercentage || 0,
-      priceOverrideRequired: requiresApproval && !overrideApprovedBy,
-      priceOverrideApprovedBy: overrideApprovedBy || undefined,
-      postedAt: shouldPost ? new Date() : undefined,
-      postedBy: shouldPost ? req.userId : undefined,
-    });
-
-    await sale.save();
+    // Numbers, stock, credit notes, receipts and ledger entries commit together or not at all.
+    const sale = await runInTransaction(async () => {
+      if (quotation) {
+        const claimed = await Quotation.updateOne(
+          { _id: quotation._id, status: { $in: CONVERTIBLE_QUOTATION_STATUSES } },
+          { $set: { status: 'converted', convertedAt: new Date(), convertedBy: req.userId } }
+        );
+        if (!claimed.modifiedCount) throw new Error('Quotation was already converted');
+      }
 
-    if (shouldPost) {
-      const creditApplied = await applyCreditNoteToSale({
-        sale,
-        creditNoteId: creditNoteId ? String(creditNoteId) : undefined,
-        requestedAmount: Number(creditNoteAmount || 0),
-        userId: req.userId,
+      const generatedSaleNumber = await generateNumber('sale_number', { prefix: 'S7SA/', padTo: 6 });
+      const generatedInvoiceNumber = manualInvoiceNumber
+        || (autoInvoiceNumber ? await generateInvoiceNumber() : '');
+
+      const sale = new Sale({
+        saleNumber: generatedSaleNumber,
+        invoiceNumber: generatedInvoiceNumber || generatedSaleNumber,
+        userId: req.userId || req.body.userId,
+        invoiceType: normalizedInvoiceType,
+        invoiceStatus: normalizedInvoiceStatus,
+        isLocked: shouldPost,
+        pricingMode: finalPricingMode,
+        taxMode: finalTaxMode,
+        locationId: saleLocation._id.toString(),
+        locationName: saleLocation.name,
+        items: processedItems,
+        subtotal,
+        totalGst: totalTax,
+        totalCess,
+        tcsAmount: totalTcs,
+        promotionDiscount,
+        grossTotal: totals.grossTotal,
+        roundOffAmount: totals.roundOffAmount,
+        totalAmount: totals.totalAmount,
+        paymentMethod: primaryTenderMethod(tenders, normalizePaymentMethod(paymentMethod)),
+        payments: tenders,
+        changeDue,
+        paymentStatus: outstandingAmount > 0 ? 'pending' : 'completed',
+        saleStatus: shouldPost ? 'completed' : 'draft',
+        outstandingAmount,
+        creditAppliedAmount: 0,
+        dueDate: finalDueDate,
+        customerId: customer?._id?.toString() || customerId || undefined,
+        customerCode: customer?.customerCode || customerCode,
+        customerName: customer?.name || customerName || 'Walk-in Customer',
+        customerPhone: customer?.phone || customerPhone,
+        customerEmail: customer?.email || customerEmail,
+        customerGstin: buyerGstin,
+        ...supply,
+        notes,
+        discountAmount: parsedDiscountAmount || 0,
+        discountPercentage: parsedDiscountPercentage || 0,
+        priceOverrideRequired: requiresApproval && !approvedBy,
+        priceOverrideApprovedBy: approvedBy || undefined,
+        postedAt: shouldPost ? new Date() : undefined,
+        postedBy: shouldPost ? req.userId : undefined,
+        offlineId: offlineSale?.offlineId,
+        provisionalNumber: offlineSale?.provisionalNumber,
+        offlineCreatedAt: offlineSale?.createdAt,
+        offlineTerminalId: offlineSale?.terminalId,
+        clientRequestId: String(req.get('Idempotency-Key') || '').trim() || undefined,
+        quotationId: quotation?._id?.toString(),
+        quotationNumber: quotation?.quotationNumber,
       });
 
-      await decrementStockForItems(processedItems);
-      await postSaleFinancials(sale, { userId: req.userId, paidAmount: paid });
-      if (creditApplied.applied > 0 && sale.customerId) {
-        await postCustomerLedgerEntry({
-          customerId: sale.customerId,
-          entryType: 'credit_note',
-          referenceType: 'credit_note',
-          referenceId: String(creditNoteId),
-          referenceNo: creditApplied.creditNote?.noteNumber,
-          narration: `Credit note adjusted against invoice ${sale.invoiceNumber || sale.saleNumber}`,
-          debit: 0,
-          credit: creditApplied.applied,
-          createdBy: req.userId,
+      await sale.save();
+      if (quotation) {
+        await Quotation.updateOne(
+          { _id: quotation._id },
+          { $set: { convertedSaleId: sale._id.toString(), convertedInvoiceNumber: sale.invoiceNumber || sale.saleNumber } }
+        );
+      }
+
+      if (shouldPost) {
+        const creditApplied = await applyCreditNoteToSale({
+          sale,
+          creditNoteId: creditNoteId ? String(creditNoteId) : undefined,
+          requestedAmount: Number(creditNoteAmount || 0),
+          userId: req.userId,
         });
+
+        await decrementStockForItems(processedItems, saleLocation, sale, req.userId);
+        await postSaleFinancials(sale, { userId: req.userId, paidAmount: paid });
+        if (creditApplied.applied > 0 && sale.customerId) {
+          await postCustomerLedgerEntry({
+            customerId: sale.customerId,
+            entryType: 'credit_note',
+            referenceType: 'credit_note',
+            referenceId: String(creditNoteId),
+            referenceNo: creditApplied.creditNote?.noteNumber,
+            narration: `Credit note adjusted against invoice ${sale.invoiceNumber || sale.saleNumber}`,
+            debit: 0,
+            credit: creditApplied.applied,
+            createdBy: req.userId,
+          });
+        }
+        await sale.save();
       }
-      await sale.save();
-    }
+      return sale;
+    });
 
     await writeAuditLog({
       module: 'sales',
@@ -584,7 +506,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       parsedDiscountAmount > 0 ||
       parsedDiscountPercentage > 0 ||
       requiresApproval ||
-      Boolean(overrideApprovedBy)
+      Boolean(approvedBy)
     ) {
       await writeAuditLog({
         module: 'price_changes',
@@ -598,7 +520,42 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
           billDiscountAmount: parsedDiscountAmount,
           billDiscountPercentage: parsedDiscountPercentage,
           requiresOverrideApproval: requiresApproval,
-          overrideApprovedBy: overrideApprovedBy || undefined,
+          overrideApprovedBy: approvedBy || undefined,
+        },
+      });
+    }
+
+    if (quotation) {
+      await writeAuditLog({
+        module: 'sales',
+        action: 'quotation_converted',
+        entityType: 'quotation',
+        entityId: quotation._id.toString(),
+        referenceNo: quotation.quotationNumber,
+        userId: req.userId,
+        metadata: {
+          saleId: sale._id.toString(),
+          invoiceNumber: sale.invoiceNumber || sale.saleNumber,
+          quotedTotal: quotation.totalAmount,
+          invoiceTotal: sale.totalAmount,
+        },
+      });
+    }
+
+    if (offlineSale) {
+      await writeAuditLog({
+        module: 'sales',
+        action: 'offline_sale_synced',
+        entityType: 'sale',
+        entityId: sale._id.toString(),
+        referenceNo: sale.invoiceNumber || sale.saleNumber,
+        userId: req.userId,
+        metadata: {
+          offlineId: offlineSale.offlineId,
+          provisionalNumber: offlineSale.provisionalNumber,
+          terminalId: offlineSale.terminalId,
+          offlineCreatedAt: offlineSale.createdAt,
+          acceptedConflicts: offlineConflicts,
         },
       });
     }
@@ -609,11 +566,19 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
       data: sale,
     });
   } catch (error: any) {
+    if (error?.code === 11000 && req.body?.offline?.offlineId) {
+      const synced = await Sale.findOne({ offlineId: String(req.body.offline.offlineId).trim() });
+      if (synced) {
+        return res.status(200).json({ success: true, duplicate: true, message: 'Offline sale already synced', data: synced });
+      }
+    }
     const msg = error?.message || 'Failed to create sale';
+    if (msg.includes('already converted')) return res.status(409).json({ success: false, error: msg });
     const status = msg.includes('Insufficient stock')
       || msg.includes('Product not found')
       || msg.includes('Invalid quantity')
       || msg.includes('required')
+      || msg.includes('is not configured')
       ? 400
       : 500;
     res.status(status).json({ success: false, error: msg });
@@ -665,37 +630,63 @@ router.post('/:id/post', authMiddleware, async (req: AuthenticatedRequest, res:
       return res.status(400).json({ success: false, error: 'Price override approval pending' });
     }
 
+    const saleLocation = sale.locationId ? await resolveLocation(sale.locationId) : await resolveUserLocation(req.userId);
+    await expireHeldBills();
     for (const item of sale.items as any[]) {
       const product = await Product.findById(item.productId);
       if (!product) return res.status(404).json({ success: false, error: `Product not found: ${item.productId}` });
 
       const allowNegative = Boolean((product as any).allowNegativeStock);
-      if (!allowNegative && Number(product.stock || 0) < Number(item.quantity || 0)) {
+      const available = (await locationQuantity(product, saleLocation)) - (await reservedQuantityOf(String(product._id)));
+      if (!allowNegative && available < baseQuantityOf(item)) {
         return res.status(400).json({
           success: false,
-          error: `Insufficient stock for product ${product.name} (Available: ${product.stock})`,
+          error: `Insufficient stock for product ${product.name} at ${saleLocation.name} (Available: ${available})`,
         });
       }
     }
 
-    await decrementStockForItems(sale.items as any[]);
-
-    sale.invoiceStatus = 'posted';
-    sale.saleStatus = 'completed';
-    sale.isLocked = true;
-    sale.postedAt = new Date();
-    sale.postedBy = req.userId;
+    await runInTransaction(async () => {
+      // Claimed inside the transaction so two terminals posting the same draft cannot both move stock.
+      const claimed = await Sale.updateOne(
+        { _id: sale._id, isLocked: { $ne: true }, invoiceStatus: { $ne: 'posted' } },
+        { $set: { isLocked: true } }
+      );
+      if (!claimed.modifiedCount) throw new Error('Invoice already posted/locked');
+
+      await decrementStockForItems(sale.items as any[], saleLocation, sale, req.userId);
+      sale.locationId = saleLocation._id.toString();
+      sale.locationName = saleLocation.name;
+      sale.markModified('items');
+
+      sale.invoiceStatus = 'posted';
+      sale.saleStatus = 'completed';
+      sale.isLocked = true;
+      sale.postedAt = new Date();
+      sale.postedBy = req.userId;
+
+      if (sale.invoiceType === 'cash') {
+        sale.paymentStatus = 'completed';
+        sale.outstandingAmount = 0;
+      } else {
+        sale.paymentStatus = Number(sale.outstandingAmount || 0) > 0 ? 'pending' : 'completed';
+      }
 
-    if (sale.invoiceType === 'cash') {
-      sale.paymentStatus = 'completed';
-      sale.outstandingAmount = 0;
-    } else {
-      sale.paymentStatus = Number(sale.outstandingAmount || 0) > 0 ? 'pending' : 'completed';
-    }
+      // Tenders kept on a draft are only trusted if they still add up to what is now being collected.
+      const paidAmount = Math.max(0, Number(sale.totalAmount || 0) - Number(sale.outstandingAmount || 0));
+      const draftTenders: any[] = Array.isArray(sale.payments) ? sale.payments : [];
+      const draftTenderTotal = draftTenders.reduce((sum, row) => sum + Number(row.amount || 0), 0);
+      if (Math.abs(draftTenderTotal - paidAmount) > 0.01) {
+        sale.payments = paidAmount > 0 ? [{ method: normalizePaymentMethod(sale.paymentMethod), amount: roundTo2(paidAmount) }] : [];
+      }
+      const paidAt = new Date();
+      for (const tender of sale.payments || []) tender.paidAt = paidAt;
+      sale.markModified('payments');
 
-    await sale.save();
-    const paidAmount = Math.max(0, Number(sale.totalAmount || 0) - Number(sale.outstandingAmount || 0));
-    await postSaleFinancials(sale, { userId: req.userId, paidAmount });
+      await sale.save();
+      await postSaleFinancials(sale, { userId: req.userId, paidAmount });
+      await sale.save();
+    });
 
     await writeAuditLog({
       module: 'sales',
@@ -709,57 +700,86 @@ router.post('/:id/post', authMiddleware, async (req: AuthenticatedRequest, res:
 
     res.json({ success: true, message: 'Draft posted and invoice locked', data: sale });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message || 'Failed to post draft' });
+    const status = String(error?.message || '').includes('already posted') ? 400 : 500;
+    res.status(status).json({ success: false, error: error.message || 'Failed to post draft' });
   }
 });
 
-router.post('/:id/payments', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/:id/payments', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const sale = await Sale.findById(req.params.id);
     if (!sale) return res.status(404).json({ success: false, error: 'Sale not found' });
     if (sale.invoiceStatus !== 'posted') return res.status(400).json({ success: false, error: 'Invoice is not posted' });
 
-    const { amount, paymentMethod = 'cash', notes } = req.body;
-    const payAmount = Number(amount || 0);
-    if (payAmount <= 0) return res.status(400).json({ success: false, error: 'amount must be greater than 0' });
-    if (Number(sale.outstandingAmount || 0) <= 0) {
+    const { amount, paymentMethod = 'cash', notes, payments } = req.body;
+    const outstanding = Number(sale.outstandingAmount || 0);
+    if (outstanding <= 0) {
       return res.status(400).json({ success: false, error: 'No outstanding balance for this invoice' });
     }
 
-    const usable = Math.min(payAmount, Number(sale.outstandingAmount || 0));
-    sale.outstandingAmount = roundTo2(Number(sale.outstandingAmount || 0) - usable);
+    const tenderInput = Array.isArray(payments) && payments.length > 0
+      ? payments
+      : [{ method: normalizePaymentMethod(paymentMethod), amount: Math.min(Number(amount || 0), outstanding) }];
+    const tender = normalizeSaleTenders(tenderInput, outstanding, { requireFullPayment: false });
+    if (tender.error) return res.status(400).json({ success: false, error: tender.error });
+    const usable = tender.paidAmount;
+    if (usable <= 0) return res.status(400).json({ success: false, error: 'amount must be greater than 0' });
+
+    sale.outstandingAmount = roundTo2(outstanding - usable);
     if (sale.outstandingAmount <= 0) {
       sale.outstandingAmount = 0;
       sale.paymentStatus = 'completed';
     } else {
       sale.paymentStatus = 'pending';
     }
-    sale.paymentMethod = normalizePaymentMethod(paymentMethod);
-    await sale.save();
-
-    const receipt = await createReceipt({
-      amount: usable,
-      mode: normalizePaymentMethod(paymentMethod),
-      sale,
-      customerId: sale.customerId || undefined,
-      customerName: sale.customerName,
-      createdBy: req.userId,
-      notes,
+    sale.paymentMethod = primaryTenderMethod(tender.payments, normalizePaymentMethod(paymentMethod));
+
+    // Sales recorded before split tender have no tender list; their collections stay ordinary receipts.
+    const tracksTenders = Array.isArray(sale.payments);
+    const earlierTenders = tracksTenders ? [...(sale.payments || [])] : [];
+    const paidAt = new Date();
+    tender.payments.forEach((row) => {
+      row.paidAt = paidAt;
     });
-
-    if (sale.customerId) {
-      await postCustomerLedgerEntry({
-        customerId: sale.customerId,
-        entryType: 'payment',
-        referenceType: 'receipt',
-        referenceId: receipt?._id?.toString(),
-        referenceNo: receipt?.voucherNumber,
-        narration: `Payment received against invoice ${sale.invoiceNumber || sale.saleNumber}`,
-        debit: 0,
-        credit: usable,
+    const receipts = await runInTransaction(async () => {
+      // The balance is claimed against the value read above so a concurrent payment cannot collect it twice.
+      const claimed = await Sale.updateOne(
+        { _id: sale._id, outstandingAmount: outstanding },
+        { $set: { outstandingAmount: sale.outstandingAmount } }
+      );
+      if (!claimed.modifiedCount) throw new Error('Invoice balance changed while recording payment, reload and retry');
+
+      const created = await createReceipt({
+        payments: tender.payments,
+        sale,
+        customerId: sale.customerId || undefined,
+        customerName: sale.customerName,
         createdBy: req.userId,
+        notes,
+        sourceType: tracksTenders ? 'sale_tender' : 'settlement',
       });
-    }
+      if (tracksTenders) {
+        sale.payments = [...earlierTenders, ...tender.payments];
+      }
+      await sale.save();
+
+      if (sale.customerId) {
+        for (const receipt of created) {
+          await postCustomerLedgerEntry({
+            customerId: sale.customerId,
+            entryType: 'payment',
+            referenceType: 'receipt',
+            referenceId: receipt._id.toString(),
+            referenceNo: receipt.voucherNumber,
+            narration: `Payment received against invoice ${sale.invoiceNumber || sale.saleNumber}`,
+            debit: 0,
+            credit: Number(receipt.amount || 0),
+            createdBy: req.userId,
+          });
+        }
+      }
+      return created;
+    });
 
     await writeAuditLog({
       module: 'sales',
@@ -768,12 +788,21 @@ router.post('/:id/payments', authMiddleware, async (req: AuthenticatedRequest, r
       entityId: sale._id.toString(),
       referenceNo: sale.invoiceNumber || sale.saleNumber,
       userId: req.userId,
-      metadata: { paymentAmount: usable, paymentMethod: sale.paymentMethod, receiptVoucher: receipt?.voucherNumber },
+      metadata: {
+        paymentAmount: usable,
+        changeDue: tender.changeDue,
+        tenders: tender.payments.map((row) => ({ method: row.method, amount: row.amount, receiptNumber: row.receiptNumber })),
+      },
     });
 
-    res.json({ success: true, data: { sale, receipt }, message: 'Payment recorded successfully' });
+    res.json({
+      success: true,
+      data: { sale, receipt: receipts[0] || null, receipts, changeDue: tender.changeDue },
+      message: 'Payment recorded successfully',
+    });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message || 'Failed to record payment' });
+    const status = String(error?.message || '').includes('balance changed') ? 409 : 500;
+    res.status(status).json({ success: false, error: error.message || 'Failed to record payment' });
   }
 });
 
@@ -784,6 +813,12 @@ router.put('/:id/edit-posted', authMiddleware, async (req: AuthenticatedRequest,
     if (sale.invoiceStatus !== 'posted' || !sale.isLocked) {
       return res.status(400).json({ success: false, error: 'Only posted invoices can be edited here' });
     }
+    if (sale.deliveryChallanIds?.length) {
+      return res.status(400).json({ success: false, error: 'Invoices billed from delivery challans cannot be edited; use a return instead' });
+    }
+    if (sale.eInvoice?.irn) {
+      return res.status(400).json({ success: false, error: 'Invoice has an IRN and cannot be edited; use a return instead' });
+    }
 
     const before = sale.toObject();
     const userRole = await getRequestUserRole(req.userId);
@@ -808,18 +843,24 @@ router.put('/:id/edit-posted', authMiddleware, async (req: AuthenticatedRequest,
     }
 
     const customer = sale.customerId ? await Customer.findById(sale.customerId) : null;
-    const { processedItems, subtotal, totalTax, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
+    const { processedItems, subtotal, totalTax, totalCess, totalTcs, promotionDiscount, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
       validateStock: false,
       allowNegativeStock: true,
       pricingMode: String(pricingMode) === 'customer' || String(pricingMode) === 'wholesale' ? String(pricingMode) as any : 'retail',
       taxMode: String(taxMode) === 'inclusive' ? 'inclusive' : 'exclusive',
       customer,
+      promotionAt: sale.createdAt ? new Date(sale.createdAt) : undefined,
+      // The place of supply was fixed when the invoice was posted.
+      isInterstate: Boolean(sale.isInterstate),
     });
 
     const oldQtyMap = quantityMapFromItems((sale.items as any[]) || []);
     const newQtyMap = quantityMapFromItems(processedItems);
     const allProductIds = Array.from(new Set([...oldQtyMap.keys(), ...newQtyMap.keys()]));
 
+    // The edit moves stock at the invoice's location, so that is where it must be available, net of reservations.
+    const saleLocation = sale.locationId ? await resolveLocation(sale.locationId) : null;
+    await expireHeldBills();
     for (const productId of allProductIds) {
       const product = await Product.findById(productId);
       if (!product) {
@@ -828,8 +869,9 @@ router.put('/:id/edit-posted', authMiddleware, async (req: AuthenticatedRequest,
       const oldQty = Number(oldQtyMap.get(productId) || 0);
       const newQty = Number(newQtyMap.get(productId) || 0);
       const allowNegative = Boolean(allowNegativeStock) || Boolean((product as any).allowNegativeStock);
-      const availableForEdit = Number(product.stock || 0) + oldQty;
-      if (!allowNegative && newQty > availableForEdit) {
+      const onHand = saleLocation ? await locationQuantity(product, saleLocation) : Number(product.stock || 0);
+      const availableForEdit = Number((onHand - (await reservedQuantityOf(productId)) + oldQty).toFixed(4));
+      if (!allowNegative && newQty > oldQty && newQty > availableForEdit) {
         return res.status(400).json({
           success: false,
           error: `Insufficient stock for product ${product.name} (Available for edit: ${availableForEdit})`,
@@ -852,6 +894,7 @@ router.put('/:id/edit-posted', authMiddleware, async (req: AuthenticatedRequest,
     if (parsedDiscountAmount > 0) grossTotal -= parsedDiscountAmount;
     else if (parsedDiscountPercentage > 0) grossTotal -= (grossTotal * parsedDiscountPercentage) / 100;
     if (grossTotal < 0) grossTotal = 0;
+    grossTotal += totalTcs;
     const totals = applyRoundOffIfNeeded(grossTotal, Boolean(applyRoundOff));
 
     for (const productId of allProductIds) {
@@ -859,10 +902,27 @@ router.put('/:id/edit-posted', authMiddleware, async (req: AuthenticatedRequest,
       const newQty = Number(newQtyMap.get(productId) || 0);
       const delta = newQty - oldQty;
       if (delta !== 0) {
-        await Product.findByIdAndUpdate(productId, { $inc: { stock: -delta } });
+        await applyStockMovement(productId, -delta, {
+          movementType: 'sale_edit',
+          location: saleLocation,
+          referenceType: 'sale',
+          referenceId: sale._id.toString(),
+          referenceNo: sale.invoiceNumber || sale.saleNumber,
+          userId: req.userId,
+          metadata: { oldQuantity: oldQty, newQuantity: newQty },
+        });
       }
     }
 
+    for (const item of (sale.items as any[]) || []) {
+      await restockBatchAllocations(String(item.productId), (item.batchAllocations || []) as BatchAllocation[]);
+    }
+    for (const item of processedItems) {
+      if (!item.batchAllocations?.length) continue;
+      item.batchAllocations = await ensureBatchAllocations(String(item.productId), baseQuantityOf(item), item.batchAllocations);
+      await consumeBatchAllocations(String(item.productId), item.batchAllocations);
+    }
+
     const oldOutstanding = Number(sale.outstandingAmount || 0);
     const oldTotal = Number(sale.totalAmount || 0);
     const paidSoFar = Math.max(0, oldTotal - oldOutstanding);
@@ -871,6 +931,9 @@ router.put('/:id/edit-posted', authMiddleware, async (req: AuthenticatedRequest,
     sale.items = processedItems;
     sale.subtotal = subtotal;
     sale.totalGst = totalTax;
+    sale.totalCess = totalCess;
+    sale.tcsAmount = totalTcs;
+    sale.promotionDiscount = promotionDiscount;
     sale.grossTotal = totals.grossTotal;
     sale.roundOffAmount = totals.roundOffAmount;
     sale.totalAmount = totals.totalAmount;
@@ -930,7 +993,13 @@ router.put('/:id/edit-posted', authMiddleware, async (req: AuthenticatedRequest,
     res.json({ success: true, message: 'Posted invoice updated successfully', data: sale });
   } catch (error: any) {
     const msg = error?.message || 'Failed to update posted invoice';
-    const status = msg.includes('Product not found') || msg.includes('Invalid quantity') || msg.includes('Insufficient stock') ? 400 : 500;
+    const status = msg.includes('Product not found')
+      || msg.includes('Invalid quantity')
+      || msg.includes('Insufficient stock')
+      || msg.includes('Variant selection')
+      || msg.includes('is not configured')
+      ? 400
+      : 500;
     res.status(status).json({ success: false, error: msg });
   }
 });
@@ -961,7 +1030,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     if (status) filter.saleStatus = status;
-    if (paymentMethod) filter.paymentMethod = paymentMethod;
+    if (paymentMethod) filter.$or = [{ paymentMethod }, { 'payments.method': paymentMethod }];
     if (invoiceType) filter.invoiceType = invoiceType;
     if (invoiceStatus) filter.invoiceStatus = invoiceStatus;
     if (customerName) filter.customerName = { $regex: String(customerName), $options: 'i' };
@@ -1094,6 +1163,201 @@ router.get('/:id/print', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// Prepares the e-way bill upload file for an invoice; the customer's GSTIN state is used unless a ship-to state is given.
+router.post('/:id/eway-bill', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sale = await Sale.findById(req.params.id);
+    if (!sale) return res.status(404).json({ success: false, error: 'Sale not found' });
+    if (sale.invoiceStatus !== 'posted') {
+      return res.status(400).json({ success: false, error: 'E-way bills can only be prepared for posted invoices' });
+    }
+    if (sale.deliveryChallanIds?.length) {
+      return res.status(400).json({
+        success: false,
+        error: `Goods moved on challan ${sale.deliveryChallanNumbers?.join(', ')}; prepare the e-way bill from the challan`,
+      });
+    }
+    if (sale.totalAmount < EWAY_BILL_THRESHOLD && !req.body?.force) {
+      return res.status(400).json({
+        success: false,
+        error: `Invoice value is below the e-way bill threshold of ${EWAY_BILL_THRESHOLD}`,
+        data: { belowThreshold: true },
+      });
+    }
+
+    const customer = sale.customerId ? await Customer.findById(sale.customerId) : null;
+    const shipTo = req.body?.shipTo || {};
+    const { payload, hsnSummary, errors } = buildEwayBillPayload({
+      docType: 'INV',
+      docNo: sale.invoiceNumber || sale.saleNumber,
+      docDate: sale.postedAt || sale.createdAt || new Date(),
+      seller: await resolveEwaySeller(req.body?.seller, req.userId),
+      recipient: {
+        gstin: sale.customerGstin || customer?.gstin,
+        name: sale.customerName || customer?.name,
+        address1: shipTo.address || customer?.address,
+        place: shipTo.place,
+        pincode: shipTo.pincode,
+        dispatchStateCode: shipTo.stateCode || sale.placeOfSupplyCode,
+      },
+      items: sale.items,
+      otherValue: Number(sale.roundOffAmount || 0),
+      totalValue: sale.totalAmount,
+      transport: normalizeTransport(req.body?.transport),
+    });
+    if (errors.length) {
+      return res.status(400).json({ success: false, error: 'E-way bill data is incomplete', data: { errors, hsnSummary } });
+    }
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'eway_bill_prepared',
+      entityType: 'sale',
+      entityId: sale._id.toString(),
+      referenceNo: sale.invoiceNumber,
+      userId: req.userId,
+      metadata: { transport: payload.billLists[0].vehicleNo || payload.billLists[0].transporterId },
+    });
+    res.json({ success: true, data: { payload, hsnSummary } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to prepare e-way bill' });
+  }
+});
+
+const eInvoiceContext = async (sale: any, body: any, userId?: string) => {
+  const customer = sale.customerId ? await Customer.findById(sale.customerId) : null;
+  const seller = await resolveEInvoiceSeller(body?.seller, userId);
+  const buyer = resolveEInvoiceBuyer(sale, customer, body?.buyer);
+  return { seller, buyer, ...buildEInvoicePayload({ sale, seller, buyer }) };
+};
+
+const eInvoiceBlocker = (sale: any): string | null => {
+  if (sale.invoiceStatus !== 'posted') return 'E-invoices can only be prepared for posted invoices';
+  if (sale.eInvoice?.irn) return `Invoice already has IRN ${sale.eInvoice.irn}`;
+  return null;
+};
+
+/**
+ * Records the IRN only if the invoice still has none, so two imports racing for the same invoice cannot both
+ * succeed. Returns an error for a 409 when another request got there first.
+ */
+const registerIrn = async (sale: any, eInvoice: any, req: AuthenticatedRequest): Promise<{ sale?: any; error?: string }> => {
+  let updated: any;
+  try {
+    updated = await Sale.findOneAndUpdate(
+      { _id: sale._id, 'eInvoice.irn': { $exists: false } },
+      { $set: { eInvoice: { ...eInvoice, importedAt: new Date(), importedBy: req.userId } } },
+      { new: true }
+    );
+  } catch (error: any) {
+    if (error?.code === 11000) return { error: `IRN ${eInvoice.irn} is already recorded on another invoice` };
+    throw error;
+  }
+  if (!updated) return { error: 'Invoice already has an IRN' };
+
+  await writeAuditLog({
+    module: 'sales',
+    action: 'e_invoice_registered',
+    entityType: 'sale',
+    entityId: updated._id.toString(),
+    referenceNo: updated.invoiceNumber,
+    userId: req.userId,
+    metadata: { irn: eInvoice.irn, ackNo: eInvoice.ackNo, source: eInvoice.source },
+  });
+  return { sale: updated };
+};
+
+// Builds the e-invoice JSON for upload on the IRP (or through a GSP); the IRN comes back in a response file.
+router.post('/:id/e-invoice', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sale = await Sale.findById(req.params.id);
+    if (!sale) return res.status(404).json({ success: false, error: 'Sale not found' });
+    const blocker = eInvoiceBlocker(sale);
+    if (blocker) return res.status(sale.eInvoice?.irn ? 409 : 400).json({ success: false, error: blocker });
+
+    const { payload, errors } = await eInvoiceContext(sale, req.body, req.userId);
+    if (errors.length) {
+      return res.status(400).json({ success: false, error: 'E-invoice data is incomplete', data: { errors } });
+    }
+
+    await writeAuditLog({
+      module: 'sales',
+      action: 'e_invoice_prepared',
+      entityType: 'sale',
+      entityId: sale._id.toString(),
+      referenceNo: sale.invoiceNumber,
+      userId: req.userId,
+    });
+    res.json({ success: true, data: { payload, mockIrp: isMockIrpEnabled() } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to prepare e-invoice' });
+  }
+});
+
+// Imports the IRP's response file and stores the IRN, acknowledgement and signed QR on the invoice.
+router.post('/:id/e-invoice/response', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sale = await Sale.findById(req.params.id);
+    if (!sale) return res.status(404).json({ success: false, error: 'Sale not found' });
+    const blocker = eInvoiceBlocker(sale);
+    if (blocker) return res.status(sale.eInvoice?.irn ? 409 : 400).json({ success: false, error: blocker });
+    if (!req.body?.response) return res.status(400).json({ success: false, error: 'response is required' });
+
+    const { seller, buyer } = await eInvoiceContext(sale, req.body, req.userId);
+    const { eInvoice, errors } = parseIrpResponse(req.body.response, {
+      docNo: String(sale.invoiceNumber || sale.saleNumber),
+      sellerGstin: seller.gstin,
+      buyerGstin: buyer.gstin,
+      totalValue: sale.totalAmount,
+    });
+    if (!eInvoice) {
+      return res.status(400).json({ success: false, error: 'IRP response does not match this invoice', data: { errors } });
+    }
+    if (await Sale.exists({ 'eInvoice.irn': eInvoice.irn, _id: { $ne: sale._id } })) {
+      return res.status(409).json({ success: false, error: `IRN ${eInvoice.irn} is already recorded on another invoice` });
+    }
+
+    const registered = await registerIrn(sale, eInvoice, req);
+    if (!registered.sale) return res.status(409).json({ success: false, error: registered.error });
+    res.json({ success: true, data: registered.sale, message: 'IRN recorded; the invoice is now locked' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to import IRP response' });
+  }
+});
+
+// Registers the invoice with the local stand-in IRP. Enabled only with EINVOICE_MOCK_IRP=true.
+router.post('/:id/e-invoice/mock-irp', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isMockIrpEnabled()) return res.status(404).json({ success: false, error: 'Mock IRP is not enabled' });
+    const sale = await Sale.findById(req.params.id);
+    if (!sale) return res.status(404).json({ success: false, error: 'Sale not found' });
+    const blocker = eInvoiceBlocker(sale);
+    if (blocker) return res.status(sale.eInvoice?.irn ? 409 : 400).json({ success: false, error: blocker });
+
+    const { seller, buyer, payload, errors } = await eInvoiceContext(sale, req.body, req.userId);
+    if (errors.length) {
+      return res.status(400).json({ success: false, error: 'E-invoice data is incomplete', data: { errors } });
+    }
+    const response = mockIrpRegister(payload);
+    const parsed = parseIrpResponse(response, {
+      docNo: String(sale.invoiceNumber || sale.saleNumber),
+      sellerGstin: seller.gstin,
+      buyerGstin: buyer.gstin,
+      totalValue: sale.totalAmount,
+      source: 'mock',
+    });
+    if (!parsed.eInvoice) {
+      return res.status(400).json({ success: false, error: 'Mock IRP response was rejected', data: { errors: parsed.errors } });
+    }
+
+    const registered = await registerIrn(sale, parsed.eInvoice, req);
+    if (!registered.sale) return res.status(409).json({ success: false, error: registered.error });
+    res.json({ success: true, data: { sale: registered.sale, response }, message: 'IRN generated by the mock IRP' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to register with mock IRP' });
+  }
+});
+
 router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const sale = await Sale.findById(req.params.id);
@@ -1119,6 +1383,8 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
       taxMode = sale.taxMode || 'exclusive',
       allowNegativeStock = false,
       overrideApprovedBy = sale.priceOverrideApprovedBy,
+      payments,
+      placeOfSupplyCode = sale.placeOfSupplyCode,
     } = req.body;
 
     if (!Array.isArray(items) || items.length === 0) {
@@ -1126,12 +1392,18 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
     }
 
     const customer = sale.customerId ? await Customer.findById(sale.customerId) : null;
-    const { processedItems, subtotal, totalTax, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
+    const supply = await resolvePlaceOfSupply({
+      customer: { gstin: customer?.gstin || sale.customerGstin, stateCode: customer?.stateCode },
+      stateCode: placeOfSupplyCode,
+      userId: req.userId,
+    });
+    const { processedItems, subtotal, totalTax, totalCess, totalTcs, promotionDiscount, itemDiscountPercentages, priceOverrideRequired } = await processItems(items, {
       validateStock: false,
       allowNegativeStock: Boolean(allowNegativeStock),
       pricingMode: String(pricingMode) === 'customer' || String(pricingMode) === 'wholesale' ? String(pricingMode) as any : 'retail',
       taxMode: String(taxMode) === 'inclusive' ? 'inclusive' : 'exclusive',
       customer,
+      isInterstate: supply.isInterstate,
     });
 
     let grossTotal = subtotal + totalTax;
@@ -1149,11 +1421,22 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
     if (parsedDiscountAmount > 0) grossTotal -= parsedDiscountAmount;
     else if (parsedDiscountPercentage > 0) grossTotal -= (grossTotal * parsedDiscountPercentage) / 100;
     if (grossTotal < 0) grossTotal = 0;
+    grossTotal += totalTcs;
     const totals = applyRoundOffIfNeeded(grossTotal, Boolean(applyRoundOff));
 
+    if (Array.isArray(payments)) {
+      const tender = normalizeSaleTenders(payments, totals.totalAmount, { requireFullPayment: false });
+      if (tender.error) return res.status(400).json({ success: false, error: tender.error });
+      sale.payments = tender.payments;
+      sale.changeDue = tender.changeDue;
+    }
+
     sale.items = processedItems;
     sale.subtotal = subtotal;
     sale.totalGst = totalTax;
+    sale.totalCess = totalCess;
+    sale.tcsAmount = totalTcs;
+    sale.promotionDiscount = promotionDiscount;
     sale.grossTotal = totals.grossTotal;
     sale.roundOffAmount = totals.roundOffAmount;
     sale.totalAmount = totals.totalAmount;
@@ -1161,7 +1444,10 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
     sale.customerName = customerName || sale.customerName || 'Walk-in Customer';
     sale.customerPhone = customerPhone;
     sale.customerEmail = customerEmail;
-    sale.paymentMethod = normalizePaymentMethod(paymentMethod || sale.paymentMethod);
+    sale.placeOfSupplyCode = supply.placeOfSupplyCode;
+    sale.placeOfSupply = supply.placeOfSupply;
+    sale.isInterstate = supply.isInterstate;
+    sale.paymentMethod = primaryTenderMethod((sale.payments || []) as SaleTender[], normalizePaymentMethod(paymentMethod || sale.paymentMethod));
     sale.discountAmount = parsedDiscountAmount || 0;
     sale.discountPercentage = parsedDiscountPercentage || 0;
     sale.outstandingAmount = sale.invoiceType === 'credit' ? totals.totalAmount : 0;
@@ -1219,7 +1505,7 @@ router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
     res.json({ success: true, message: 'Draft updated successfully', data: sale });
   } catch (error: any) {
     const msg = error?.message || 'Failed to update sale';
-    const status = msg.includes('Product not found') || msg.includes('Invalid quantity') ? 400 : 500;
+    const status = msg.includes('Product not found') || msg.includes('Invalid quantity') || msg.includes('is not configured') ? 400 : 500;
     res.status(status).json({ success: false, error: msg });
   }
 });
@@ -1,5 +1,6 @@
 import { Router, Response } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import { Sale } from '../models/Sale.js';
 import { ReceiptVoucher } from '../models/ReceiptVoucher.js';
 import { DayEndClosing } from '../models/DayEndClosing.js';
@@ -8,6 +9,8 @@ import { Customer } from '../models/Customer.js';
 import { generateNumber } from '../services/numbering.js';
 import { postCustomerLedgerEntry } from '../services/customerLedger.js';
 import { writeAuditLog } from '../services/audit.js';
+import { aggregateSaleTenders } from '../services/salePayments.js';
+import { runInTransaction } from '../services/transactions.js';
 
 const router = Router();
 
@@ -23,7 +26,16 @@ const dayRange = (input?: string) => {
   return { start, end };
 };
 
-router.post('/receipts', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+// Sales order advances refunded in cash leave the drawer, so they count against the day like cash expenses.
+const cashAdvanceRefunds = (start: Date, end: Date) =>
+  ReceiptVoucher.aggregate([
+    { $match: { 'refunds.refundedAt': { $gte: start, $lte: end } } },
+    { $unwind: '$refunds' },
+    { $match: { 'refunds.refundedAt': { $gte: start, $lte: end }, 'refunds.mode': 'cash' } },
+    { $group: { _id: null, total: { $sum: '$refunds.amount' } } },
+  ]);
+
+router.post('/receipts', authMiddleware, idempotency(), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { customerId, customerName, amount, mode = 'cash', notes, allocations = [], isAdvance } = req.body;
     const amountNum = Number(amount || 0);
@@ -32,77 +44,81 @@ router.post('/receipts', authMiddleware, async (req: AuthenticatedRequest, res:
       return res.status(400).json({ success: false, error: 'amount must be greater than 0' });
     }
 
-    const voucherNumber = await generateNumber('receipt_voucher', { prefix: 'RV-', datePart: true, padTo: 5 });
-    const cleanAllocations = Array.isArray(allocations)
-      ? allocations
-          .map((row: any) => ({
-            saleId: row.saleId ? String(row.saleId) : undefined,
-            amount: Number(row.amount || 0),
-          }))
-          .filter((row: any) => row.saleId && row.amount > 0)
-      : [];
-
-    let allocatedTotal = 0;
-    const finalizedAllocations: Array<{ saleId: string; saleNumber: string; amount: number }> = [];
-
-    for (const alloc of cleanAllocations) {
-      const sale = await Sale.findById(alloc.saleId);
-      if (!sale) continue;
-
-      const outstanding = Number(sale.outstandingAmount || 0);
-      if (outstanding <= 0) continue;
-
-      const usable = Math.min(Number(alloc.amount), outstanding, amountNum - allocatedTotal);
-      if (usable <= 0) continue;
-
-      sale.outstandingAmount = Number((outstanding - usable).toFixed(2));
-      if (sale.outstandingAmount <= 0) {
-        sale.outstandingAmount = 0;
-        sale.paymentStatus = 'completed';
-      } else {
-        sale.paymentStatus = 'pending';
+    // Allocations are read and reduced inside the transaction so a retry sees the balances as committed.
+    const receipt = await runInTransaction(async () => {
+      const voucherNumber = await generateNumber('receipt_voucher', { prefix: 'RV-', datePart: true, padTo: 5 });
+      const cleanAllocations = Array.isArray(allocations)
+        ? allocations
+            .map((row: any) => ({
+              saleId: row.saleId ? String(row.saleId) : undefined,
+              amount: Number(row.amount || 0),
+            }))
+            .filter((row: any) => row.saleId && row.amount > 0)
+        : [];
+
+      let allocatedTotal = 0;
+      const finalizedAllocations: Array<{ saleId: string; saleNumber: string; amount: number }> = [];
+
+      for (const alloc of cleanAllocations) {
+        const sale = await Sale.findById(alloc.saleId);
+        if (!sale) continue;
+
+        const outstanding = Number(sale.outstandingAmount || 0);
+        if (outstanding <= 0) continue;
+
+        const usable = Math.min(Number(alloc.amount), outstanding, amountNum - allocatedTotal);
+        if (usable <= 0) continue;
+
+        sale.outstandingAmount = Number((outstanding - usable).toFixed(2));
+        if (sale.outstandingAmount <= 0) {
+          sale.outstandingAmount = 0;
+          sale.paymentStatus = 'completed';
+        } else {
+          sale.paymentStatus = 'pending';
+        }
+        await sale.save();
+
+        allocatedTotal += usable;
+        finalizedAllocations.push({
+          saleId: sale._id.toString(),
+          saleNumber: sale.invoiceNumber || sale.saleNumber,
+          amount: Number(usable.toFixed(2)),
+        });
       }
-      await sale.save();
 
-      allocatedTotal += usable;
-      finalizedAllocations.push({
-        saleId: sale._id.toString(),
-        saleNumber: sale.invoiceNumber || sale.saleNumber,
-        amount: Number(usable.toFixed(2)),
+      const unapplied = Number((amountNum - allocatedTotal).toFixed(2));
+      const receipt = await ReceiptVoucher.create({
+        voucherNumber,
+        customerId: customerId || undefined,
+        customerName,
+        entryDate: new Date(),
+        amount: amountNum,
+        unappliedAmount: unapplied > 0 ? unapplied : 0,
+        mode,
+        isAdvance: Boolean(isAdvance) || unapplied > 0,
+        allocations: finalizedAllocations,
+        notes,
+        createdBy: req.userId,
       });
-    }
 
-    const unapplied = Number((amountNum - allocatedTotal).toFixed(2));
-    const receipt = await ReceiptVoucher.create({
-      voucherNumber,
-      customerId: customerId || undefined,
-      customerName,
-      entryDate: new Date(),
-      amount: amountNum,
-      unappliedAmount: unapplied > 0 ? unapplied : 0,
-      mode,
-      isAdvance: Boolean(isAdvance) || unapplied > 0,
-      allocations: finalizedAllocations,
-      notes,
-      createdBy: req.userId,
-    });
-
-    if (customerId) {
-      const customer = await Customer.findById(customerId);
-      if (customer) {
-        await postCustomerLedgerEntry({
-          customerId: customer._id,
-          entryType: unapplied > 0 ? 'advance' : 'payment',
-          referenceType: 'receipt',
-          referenceId: receipt._id.toString(),
-          referenceNo: receipt.voucherNumber,
-          narration: unapplied > 0 ? 'Advance receipt' : 'Receipt against invoices',
-          debit: 0,
-          credit: amountNum,
-          createdBy: req.userId,
-        });
+      if (customerId) {
+        const customer = await Customer.findById(customerId);
+        if (customer) {
+          await postCustomerLedgerEntry({
+            customerId: customer._id,
+            entryType: unapplied > 0 ? 'advance' : 'payment',
+            referenceType: 'receipt',
+            referenceId: receipt._id.toString(),
+            referenceNo: receipt.voucherNumber,
+            narration: unapplied > 0 ? 'Advance receipt' : 'Receipt against invoices',
+            debit: 0,
+            credit: amountNum,
+            createdBy: req.userId,
+          });
+        }
       }
-    }
+      return receipt;
+    });
 
     await writeAuditLog({
       module: 'settlement',
@@ -153,24 +169,22 @@ router.get('/collections/daily', authMiddleware, async (req: AuthenticatedReques
   try {
     const { start, end } = dayRange(req.query.date ? String(req.query.date) : undefined);
 
-    const [cashSalesAgg, receiptAgg, expenseAgg] = await Promise.all([
-      Sale.aggregate([
-        { $match: { createdAt: { $gte: start, $lte: end }, invoiceStatus: 'posted', paymentMethod: 'cash' } },
-        { $group: { _id: '$userId', invoices: { $sum: 1 }, total: { $sum: '$totalAmount' } } },
-      ]),
+    const [cashSalesAgg, receiptAgg, expenseAgg, refundAgg] = await Promise.all([
+      aggregateSaleTenders(start, end, { method: 'cash', groupBy: 'userId' }),
       ReceiptVoucher.aggregate([
-        { $match: { entryDate: { $gte: start, $lte: end }, mode: 'cash' } },
+        { $match: { entryDate: { $gte: start, $lte: end }, mode: 'cash', sourceType: { $ne: 'sale_tender' } } },
         { $group: { _id: '$createdBy', vouchers: { $sum: 1 }, total: { $sum: '$amount' } } },
       ]),
       DayBookEntry.aggregate([
         { $match: { entryDate: { $gte: start, $lte: end }, entryType: 'expense', paymentMethod: 'cash' } },
         { $group: { _id: null, total: { $sum: '$amount' } } },
       ]),
+      cashAdvanceRefunds(start, end),
     ]);
 
     const cashSalesTotal = cashSalesAgg.reduce((sum, row) => sum + Number(row.total || 0), 0);
     const cashReceiptTotal = receiptAgg.reduce((sum, row) => sum + Number(row.total || 0), 0);
-    const cashExpenseTotal = Number(expenseAgg[0]?.total || 0);
+    const cashExpenseTotal = Number(expenseAgg[0]?.total || 0) + Number(refundAgg[0]?.total || 0);
 
     res.json({
       success: true,
@@ -202,7 +216,7 @@ router.get('/collections/user-wise', authMiddleware, async (req: AuthenticatedRe
         { $group: { _id: '$userId', invoices: { $sum: 1 }, salesTotal: { $sum: '$totalAmount' } } },
       ]),
       ReceiptVoucher.aggregate([
-        { $match: { entryDate: { $gte: start, $lte: end } } },
+        { $match: { entryDate: { $gte: start, $lte: end }, sourceType: { $ne: 'sale_tender' } } },
         { $group: { _id: '$createdBy', receipts: { $sum: 1 }, receiptTotal: { $sum: '$amount' } } },
       ]),
     ]);
@@ -238,24 +252,23 @@ router.post('/day-end/close', authMiddleware, async (req: AuthenticatedRequest,
     const { start, end } = dayRange(day.toISOString());
     const key = dateKey(start);
 
-    const [cashSalesAgg, cashReceiptsAgg, cashExpensesAgg] = await Promise.all([
-      Sale.aggregate([
-        { $match: { createdAt: { $gte: start, $lte: end }, invoiceStatus: 'posted', paymentMethod: 'cash' } },
-        { $group: { _id: null, total: { $sum: '$totalAmount' } } },
-      ]),
+    const [tenderRows, cashReceiptsAgg, cashExpensesAgg, cashRefundsAgg] = await Promise.all([
+      aggregateSaleTenders(start, end, { groupBy: 'method' }),
       ReceiptVoucher.aggregate([
-        { $match: { entryDate: { $gte: start, $lte: end }, mode: 'cash' } },
+        { $match: { entryDate: { $gte: start, $lte: end }, mode: 'cash', sourceType: { $ne: 'sale_tender' } } },
         { $group: { _id: null, total: { $sum: '$amount' } } },
       ]),
       DayBookEntry.aggregate([
         { $match: { entryDate: { $gte: start, $lte: end }, entryType: 'expense', paymentMethod: 'cash' } },
         { $group: { _id: null, total: { $sum: '$amount' } } },
       ]),
+      cashAdvanceRefunds(start, end),
     ]);
 
-    const cashSales = Number(cashSalesAgg[0]?.total || 0);
+    const tenderTotals = tenderRows.map((row) => ({ method: String(row._id || 'cash'), invoices: row.invoices, amount: row.total }));
+    const cashSales = Number(tenderTotals.find((row) => row.method === 'cash')?.amount || 0);
     const cashReceipts = Number(cashReceiptsAgg[0]?.total || 0);
-    const cashExpenses = Number(cashExpensesAgg[0]?.total || 0);
+    const cashExpenses = Number(cashExpensesAgg[0]?.total || 0) + Number(cashRefundsAgg[0]?.total || 0);
     const systemClosingCash = Number((Number(openingCash || 0) + cashSales + cashReceipts - cashExpenses).toFixed(2));
     const physical = Number(physicalClosingCash || 0);
     const variance = Number((physical - systemClosingCash).toFixed(2));
@@ -268,6 +281,7 @@ router.post('/day-end/close', authMiddleware, async (req: AuthenticatedRequest,
         businessDate: start,
         openingCash: Number(openingCash || 0),
         cashSales,
+        tenderTotals,
         cashReceipts,
         cashExpenses,
         systemClosingCash,
@@ -0,0 +1,457 @@
+import { Router, Response } from 'express';
+import { StockTake } from '../models/StockTake.js';
+import { Product } from '../models/Product.js';
+import { StockBatch } from '../models/StockBatch.js';
+import { User } from '../models/User.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { generateNumber } from '../services/numbering.js';
+import { writeAuditLog } from '../services/audit.js';
+import { createVoucherAndLedger, getCoreAccount, getOrCreateAccount, round2 } from '../services/accounting.js';
+import { consumeBatchAllocations, normalizeBatchNo, restockBatchAllocations } from '../services/stockBatches.js';
+import { locationQuantities, resolveLocation } from '../services/stockLocations.js';
+import { applyStockMovement } from '../services/stockMovements.js';
+import { runInTransaction } from '../services/transactions.js';
+
+const router = Router();
+
+const round4 = (value: number): number => Number(Number(value || 0).toFixed(4));
+
+const lineKey = (productId: any, batchNo?: string) => `${String(productId)}::${normalizeBatchNo(batchNo)}`;
+
+// Counted quantity is the sum of every user's entry, so separate aisles or shelves can be counted in parallel.
+const recalculateStockTake = (session: any) => {
+  let shortage = 0;
+  let excess = 0;
+  for (const item of session.items as any[]) {
+    const counted = item.counts?.length
+      ? round4(item.counts.reduce((sum: number, row: any) => sum + Number(row.quantity || 0), 0))
+      : undefined;
+    item.countedQuantity = counted;
+    const effective = counted !== undefined ? counted : session.uncountedAsZero ? 0 : Number(item.systemQuantity || 0);
+    item.varianceQuantity = round4(effective - Number(item.systemQuantity || 0));
+    item.varianceValue = round2(item.varianceQuantity * Number(item.unitCost || 0));
+    if (item.varianceValue < 0) shortage += Math.abs(item.varianceValue);
+    else excess += item.varianceValue;
+  }
+  session.totalShortageValue = round2(shortage);
+  session.totalExcessValue = round2(excess);
+  session.netVarianceValue = round2(excess - shortage);
+  session.markModified('items');
+};
+
+const getRequestUserRole = async (userId?: string): Promise<string> => {
+  if (!userId) return 'receptionist';
+  const user = await User.findById(userId);
+  return String(user?.role || 'receptionist');
+};
+
+// Shortages: Dr Stock Adjustment / Cr Stock. Excess: Dr Stock / Cr Stock Adjustment.
+const postStockTakeJournal = async (session: any, userId?: string) => {
+  const shortage = Number(session.totalShortageValue || 0);
+  const excess = Number(session.totalExcessValue || 0);
+  if (shortage <= 0 && excess <= 0) return null;
+
+  const stockAccount = await getCoreAccount('stock');
+  const adjustmentAccount = await getOrCreateAccount({
+    accountName: 'Stock Adjustment',
+    accountType: 'expense',
+    isSystem: true,
+    createdBy: userId,
+  });
+
+  const lines: Array<{ accountId: string; debit: number; credit: number; narration?: string }> = [];
+  if (shortage > 0) {
+    lines.push({ accountId: adjustmentAccount._id.toString(), debit: shortage, credit: 0, narration: 'Stock-take shortage' });
+    lines.push({ accountId: stockAccount._id.toString(), debit: 0, credit: shortage, narration: 'Stock-take shortage' });
+  }
+  if (excess > 0) {
+    lines.push({ accountId: stockAccount._id.toString(), debit: excess, credit: 0, narration: 'Stock-take excess' });
+    lines.push({ accountId: adjustmentAccount._id.toString(), debit: 0, credit: excess, narration: 'Stock-take excess' });
+  }
+
+  return createVoucherAndLedger({
+    voucherType: 'journal',
+    voucherDate: new Date(),
+    paymentMode: 'adjustment',
+    referenceNo: session.sessionNumber,
+    notes: `Stock-take adjustment ${session.sessionNumber}`,
+    createdBy: userId,
+    lines,
+  });
+};
+
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { status, skip = 0, limit = 50 } = req.query;
+    const filter: any = {};
+    if (status) filter.status = String(status);
+
+    const rows = await StockTake.find(filter)
+      .select('-items')
+      .sort({ createdAt: -1 })
+      .skip(Number(skip))
+      .limit(Number(limit));
+    const total = await StockTake.countDocuments(filter);
+
+    res.json({ success: true, data: rows, pagination: { total, skip: Number(skip), limit: Number(limit) } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch stock-take sessions' });
+  }
+});
+
+// Freezes the system quantity of every product in scope; counts are compared against this snapshot.
+router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name, locationId, categories, notes, uncountedAsZero } = req.body;
+    const location = await resolveLocation(locationId ? String(locationId) : undefined);
+    const categoryList: string[] = Array.isArray(categories)
+      ? categories.map((value: any) => String(value || '').trim()).filter(Boolean)
+      : [];
+
+    const productFilter: any = { isActive: { $ne: false } };
+    if (categoryList.length) productFilter.category = { $in: categoryList };
+    const products = await Product.find(productFilter).sort({ category: 1, name: 1 });
+    if (!products.length) {
+      return res.status(400).json({ success: false, error: 'No products found for the selected scope' });
+    }
+
+    const quantities = await locationQuantities(products, location);
+    // Batch quantities are not tracked per location, so batch-wise lines are only used at the default location.
+    const batchProducts = location.isDefault ? products.filter((p: any) => p.batchTracking) : [];
+    const batches = batchProducts.length
+      ? await StockBatch.find({ productId: { $in: batchProducts.map((p) => p._id) }, quantity: { $gt: 0 } }).sort({ expiryDate: 1 })
+      : [];
+
+    const items: any[] = [];
+    for (const product of products) {
+      const base = {
+        productId: product._id,
+        productName: product.name,
+        sku: product.sku,
+        category: product.category,
+        unitCost: Number(product.cost || 0),
+        countedQuantity: undefined,
+        varianceQuantity: 0,
+        varianceValue: 0,
+        counts: [],
+      };
+      const productBatches = batches.filter((batch) => String(batch.productId) === String(product._id));
+      if (productBatches.length) {
+        let batchTotal = 0;
+        for (const batch of productBatches) {
+          batchTotal += Number(batch.quantity || 0);
+          items.push({ ...base, batchNo: batch.batchNo, expiryDate: batch.expiryDate, systemQuantity: round4(Number(batch.quantity || 0)) });
+        }
+        // Any stock not held in a batch is counted on its own line.
+        const unbatched = round4(Number(quantities.get(String(product._id)) || 0) - batchTotal);
+        if (unbatched !== 0) items.push({ ...base, batchNo: '', systemQuantity: unbatched });
+      } else {
+        items.push({ ...base, batchNo: '', systemQuantity: round4(Number(quantities.get(String(product._id)) || 0)) });
+      }
+    }
+
+    const sessionNumber = await generateNumber('stock_take', { prefix: 'STK-', datePart: true, padTo: 5 });
+    const session = await StockTake.create({
+      sessionNumber,
+      name: name ? String(name).trim() : undefined,
+      status: 'counting',
+      locationId: location._id.toString(),
+      locationName: location.name,
+      categories: categoryList,
+      snapshotAt: new Date(),
+      items,
+      uncountedAsZero: Boolean(uncountedAsZero),
+      notes,
+      createdBy: req.userId,
+    });
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_take_started',
+      entityType: 'stock_take',
+      entityId: session._id.toString(),
+      referenceNo: session.sessionNumber,
+      userId: req.userId,
+      metadata: { locationName: location.name, categories: categoryList, lines: items.length },
+    });
+
+    res.status(201).json({ success: true, data: session, message: 'Stock-take session started' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to start stock-take session' });
+  }
+});
+
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await StockTake.findById(req.params.id);
+    if (!session) return res.status(404).json({ success: false, error: 'Stock-take session not found' });
+
+    const data: any = session.toObject();
+    if (req.query.category) {
+      data.items = data.items.filter((item: any) => item.category === String(req.query.category));
+    }
+    res.json({ success: true, data });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch stock-take session' });
+  }
+});
+
+// Each user's entry for a line replaces that user's previous entry for the same line.
+router.post('/:id/counts', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await StockTake.findById(req.params.id);
+    if (!session) return res.status(404).json({ success: false, error: 'Stock-take session not found' });
+    if (session.status !== 'counting') {
+      return res.status(400).json({ success: false, error: 'Counts can only be entered while the session is counting' });
+    }
+
+    const { counts } = req.body;
+    if (!Array.isArray(counts) || counts.length === 0) {
+      return res.status(400).json({ success: false, error: 'counts array is required' });
+    }
+
+    const index = new Map((session.items as any[]).map((item) => [lineKey(item.productId, item.batchNo), item]));
+    const userId = String(req.userId || '');
+    for (const row of counts) {
+      const item: any = index.get(lineKey(row.productId, row.batchNo));
+      if (!item) {
+        return res.status(400).json({
+          success: false,
+          error: `Product ${row.productId}${row.batchNo ? ` batch ${row.batchNo}` : ''} is not part of this stock-take`,
+        });
+      }
+      item.counts = (item.counts || []).filter((entry: any) => entry.userId !== userId);
+      if (row.quantity === null || row.quantity === '' || row.quantity === undefined) continue;
+
+      const quantity = Number(row.quantity);
+      if (!Number.isFinite(quantity) || quantity < 0) {
+        return res.status(400).json({ success: false, error: `Invalid count for ${item.productName}` });
+      }
+      item.counts.push({ userId, quantity: round4(quantity), countedAt: new Date() });
+    }
+
+    recalculateStockTake(session);
+    await session.save();
+
+    res.json({ success: true, data: session, message: 'Counts saved' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to save counts' });
+  }
+});
+
+router.get('/:id/variance', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await StockTake.findById(req.params.id);
+    if (!session) return res.status(404).json({ success: false, error: 'Stock-take session not found' });
+
+    const includeZero = String(req.query.includeZero || '') === 'true';
+    const rows = (session.items as any[])
+      .filter((item) => includeZero || Number(item.varianceQuantity || 0) !== 0)
+      .filter((item) => !req.query.category || item.category === String(req.query.category))
+      .map((item) => ({
+        productId: String(item.productId),
+        productName: item.productName,
+        sku: item.sku,
+        category: item.category,
+        batchNo: item.batchNo || undefined,
+        systemQuantity: item.systemQuantity,
+        countedQuantity: item.countedQuantity,
+        varianceQuantity: item.varianceQuantity,
+        unitCost: item.unitCost,
+        varianceValue: item.varianceValue,
+        countedBy: (item.counts || []).map((entry: any) => entry.userId),
+      }));
+
+    const categoryTotals = new Map<string, { category: string; shortageValue: number; excessValue: number }>();
+    for (const row of rows) {
+      const key = row.category || 'Uncategorized';
+      const current = categoryTotals.get(key) || { category: key, shortageValue: 0, excessValue: 0 };
+      if (row.varianceValue < 0) current.shortageValue = round2(current.shortageValue + Math.abs(row.varianceValue));
+      else current.excessValue = round2(current.excessValue + row.varianceValue);
+      categoryTotals.set(key, current);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        sessionNumber: session.sessionNumber,
+        status: session.status,
+        locationName: session.locationName,
+        snapshotAt: session.snapshotAt,
+        totalLines: session.items.length,
+        countedLines: (session.items as any[]).filter((item) => item.counts?.length).length,
+        totalShortageValue: session.totalShortageValue,
+        totalExcessValue: session.totalExcessValue,
+        netVarianceValue: session.netVarianceValue,
+        categories: Array.from(categoryTotals.values()),
+        rows,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to build variance report' });
+  }
+});
+
+router.post('/:id/submit', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await StockTake.findById(req.params.id);
+    if (!session) return res.status(404).json({ success: false, error: 'Stock-take session not found' });
+    if (session.status !== 'counting') {
+      return res.status(400).json({ success: false, error: `Session in ${session.status} status cannot be submitted` });
+    }
+
+    if (req.body?.uncountedAsZero !== undefined) session.uncountedAsZero = Boolean(req.body.uncountedAsZero);
+    recalculateStockTake(session);
+    session.status = 'submitted';
+    session.submittedAt = new Date();
+    session.submittedBy = req.userId;
+    await session.save();
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_take_submitted',
+      entityType: 'stock_take',
+      entityId: session._id.toString(),
+      referenceNo: session.sessionNumber,
+      userId: req.userId,
+      metadata: {
+        totalShortageValue: session.totalShortageValue,
+        totalExcessValue: session.totalExcessValue,
+        uncountedAsZero: session.uncountedAsZero,
+      },
+    });
+
+    res.json({ success: true, data: session, message: 'Stock-take submitted for approval' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to submit stock-take' });
+  }
+});
+
+router.post('/:id/reopen', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await StockTake.findById(req.params.id);
+    if (!session) return res.status(404).json({ success: false, error: 'Stock-take session not found' });
+    if (session.status !== 'submitted') {
+      return res.status(400).json({ success: false, error: 'Only submitted sessions can be reopened' });
+    }
+
+    session.status = 'counting';
+    session.submittedAt = undefined;
+    session.submittedBy = undefined;
+    await session.save();
+
+    res.json({ success: true, data: session, message: 'Stock-take reopened for counting' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to reopen stock-take' });
+  }
+});
+
+// Variances are applied as deltas to current stock, so sales made after the snapshot are preserved.
+router.post('/:id/approve', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const approverRole = await getRequestUserRole(req.userId);
+    if (!['admin', 'manager'].includes(approverRole)) {
+      return res.status(403).json({ success: false, error: 'Only admin/manager can approve stock-take variances' });
+    }
+
+    const existing = await StockTake.findById(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Stock-take session not found' });
+    if (existing.status !== 'submitted') {
+      return res.status(400).json({ success: false, error: 'Only submitted sessions can be approved' });
+    }
+
+    const { session, adjustedLines } = await runInTransaction(async () => {
+      // Claimed first so a second approval of the same session cannot post the variances again.
+      const session = await StockTake.findOneAndUpdate(
+        { _id: existing._id, status: 'submitted' },
+        { $set: { status: 'approving' } },
+        { new: true }
+      );
+      if (!session) throw new Error('Stock-take is already being approved');
+
+      recalculateStockTake(session);
+      const location = await resolveLocation(session.locationId);
+      let adjustedLines = 0;
+      for (const item of session.items as any[]) {
+        const variance = Number(item.varianceQuantity || 0);
+        if (variance === 0) continue;
+
+        await applyStockMovement(String(item.productId), variance, {
+          movementType: 'stock_take',
+          location,
+          referenceType: 'stock_take',
+          referenceId: session._id.toString(),
+          referenceNo: session.sessionNumber,
+          batchNo: item.batchNo || undefined,
+          userId: req.userId,
+          metadata: { systemQuantity: item.systemQuantity, countedQuantity: item.countedQuantity },
+        });
+        if (item.batchNo) {
+          const allocation = [{ batchNo: item.batchNo, expiryDate: item.expiryDate, quantity: Math.abs(variance) }];
+          if (variance > 0) await restockBatchAllocations(String(item.productId), allocation);
+          else await consumeBatchAllocations(String(item.productId), allocation);
+        }
+        adjustedLines += 1;
+      }
+
+      const voucher = await postStockTakeJournal(session, req.userId);
+      session.status = 'approved';
+      session.approvedAt = new Date();
+      session.approvedBy = req.userId;
+      session.voucherNumber = voucher?.voucherNumber;
+      await session.save();
+      return { session, adjustedLines };
+    });
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_take_approved',
+      entityType: 'stock_take',
+      entityId: session._id.toString(),
+      referenceNo: session.sessionNumber,
+      userId: req.userId,
+      metadata: {
+        adjustedLines,
+        totalShortageValue: session.totalShortageValue,
+        totalExcessValue: session.totalExcessValue,
+        voucherNumber: session.voucherNumber,
+      },
+    });
+
+    res.json({ success: true, data: session, message: 'Stock-take approved and adjustments posted' });
+  } catch (error: any) {
+    const msg = error?.message || 'Failed to approve stock-take';
+    res.status(msg.includes('already being approved') ? 409 : 500).json({ success: false, error: msg });
+  }
+});
+
+router.post('/:id/cancel', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await StockTake.findById(req.params.id);
+    if (!session) return res.status(404).json({ success: false, error: 'Stock-take session not found' });
+    if (!['counting', 'submitted'].includes(session.status)) {
+      return res.status(400).json({ success: false, error: `Session in ${session.status} status cannot be cancelled` });
+    }
+
+    session.status = 'cancelled';
+    session.cancelledAt = new Date();
+    session.cancelledBy = req.userId;
+    await session.save();
+
+    await writeAuditLog({
+      module: 'inventory',
+      action: 'stock_take_cancelled',
+      entityType: 'stock_take',
+      entityId: session._id.toString(),
+      referenceNo: session.sessionNumber,
+      userId: req.userId,
+      metadata: { reason: req.body?.reason },
+    });
+
+    res.json({ success: true, data: session, message: 'Stock-take cancelled' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to cancel stock-take' });
+  }
+});
+
+export default router;
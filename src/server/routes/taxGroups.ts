@@ -0,0 +1,151 @@
+import { Router, Response } from 'express';
+import { TaxGroup } from '../models/TaxGroup.js';
+import { Product } from '../models/Product.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { writeAuditLog } from '../services/audit.js';
+import { effectiveTaxGroupId, normalizeTaxGroupInput } from '../services/taxGroups.js';
+
+const router = Router();
+
+const startOfDay = (value: any): Date | null => {
+  const date = value ? new Date(value) : new Date();
+  if (Number.isNaN(date.getTime())) return null;
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const filter: any = {};
+    if (req.query.isActive !== undefined) filter.isActive = String(req.query.isActive) === 'true';
+    if (req.query.supplyType) filter.supplyType = String(req.query.supplyType);
+    const rows = await TaxGroup.find(filter).sort({ code: 1 });
+
+    // How many products bill under each group today, so a group in use is not edited by accident.
+    const products = await Product.find({ 'taxGroups.0': { $exists: true } }).select('taxGroups');
+    const now = new Date();
+    const usage = new Map<string, number>();
+    for (const product of products) {
+      const groupId = effectiveTaxGroupId(product, now);
+      if (groupId) usage.set(String(groupId), (usage.get(String(groupId)) || 0) + 1);
+    }
+    res.json({
+      success: true,
+      data: rows.map((row) => ({ ...row.toObject(), productCount: usage.get(row._id.toString()) || 0 })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to fetch tax groups' });
+  }
+});
+
+router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    let value: ReturnType<typeof normalizeTaxGroupInput>;
+    try {
+      value = normalizeTaxGroupInput(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    if (await TaxGroup.findOne({ code: value.code })) {
+      return res.status(409).json({ success: false, error: 'Tax group code already exists' });
+    }
+
+    const group = await TaxGroup.create({ ...value, createdBy: req.userId });
+    await writeAuditLog({
+      module: 'settings',
+      action: 'tax_group_created',
+      entityType: 'tax_group',
+      entityId: group._id.toString(),
+      referenceNo: group.code,
+      userId: req.userId,
+      after: group.toObject(),
+    });
+    res.status(201).json({ success: true, data: group, message: 'Tax group created' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to create tax group' });
+  }
+});
+
+// Invoices keep the amounts they were billed with; a change here applies to bills raised after it.
+router.put('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const group = await TaxGroup.findById(req.params.id);
+    if (!group) return res.status(404).json({ success: false, error: 'Tax group not found' });
+
+    let value: ReturnType<typeof normalizeTaxGroupInput>;
+    try {
+      value = normalizeTaxGroupInput({ ...group.toObject(), ...req.body });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    const duplicate = await TaxGroup.findOne({ code: value.code, _id: { $ne: group._id } });
+    if (duplicate) return res.status(409).json({ success: false, error: 'Tax group code already exists' });
+
+    const before = group.toObject();
+    group.set({ ...value, updatedBy: req.userId });
+    await group.save();
+    await writeAuditLog({
+      module: 'settings',
+      action: 'tax_group_updated',
+      entityType: 'tax_group',
+      entityId: group._id.toString(),
+      referenceNo: group.code,
+      userId: req.userId,
+      before,
+      after: group.toObject(),
+    });
+    res.json({ success: true, data: group, message: 'Tax group updated' });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to update tax group' });
+  }
+});
+
+/**
+ * Maps products to this group from a date. A mapping already starting that day is replaced; earlier ones stay,
+ * so bills dated before the change are still taxed under the old group.
+ */
+router.post('/:id/products', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const group = await TaxGroup.findById(req.params.id);
+    if (!group) return res.status(404).json({ success: false, error: 'Tax group not found' });
+    if (!group.isActive) return res.status(400).json({ success: false, error: 'Tax group is inactive' });
+
+    const productIds: string[] = Array.isArray(req.body?.productIds) ? req.body.productIds.map(String) : [];
+    if (!productIds.length) return res.status(400).json({ success: false, error: 'productIds are required' });
+    const effectiveFrom = startOfDay(req.body?.effectiveFrom);
+    if (!effectiveFrom) return res.status(400).json({ success: false, error: 'effectiveFrom is not a valid date' });
+
+    const products = await Product.find({ _id: { $in: productIds } });
+    if (products.length !== new Set(productIds).size) {
+      return res.status(404).json({ success: false, error: 'One or more products were not found' });
+    }
+
+    for (const product of products) {
+      const rows: Array<{ taxGroupId: string; effectiveFrom: Date }> = (product.get('taxGroups') || []).filter(
+        (row: any) => new Date(row.effectiveFrom).getTime() !== effectiveFrom.getTime()
+      );
+      rows.push({ taxGroupId: group._id.toString(), effectiveFrom });
+      product.set('taxGroups', rows.sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime()));
+      await product.save();
+    }
+
+    await writeAuditLog({
+      module: 'settings',
+      action: 'tax_group_products_mapped',
+      entityType: 'tax_group',
+      entityId: group._id.toString(),
+      referenceNo: group.code,
+      userId: req.userId,
+      metadata: { effectiveFrom, productIds: products.map((row) => row._id.toString()) },
+    });
+    res.json({
+      success: true,
+      data: { taxGroupId: group._id, effectiveFrom, productCount: products.length },
+      message: `${products.length} product(s) mapped to ${group.code}`,
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message || 'Failed to map products' });
+  }
+});
+
+export default router;
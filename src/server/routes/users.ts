@@ -14,6 +14,7 @@ const sanitizeUser = (user: any) => ({
   phoneNumber: user.phoneNumber,
   role: user.role,
   businessName: user.businessName,
+  assignedLocationId: user.assignedLocationId,
   isActive: user.isActive,
   createdAt: user.createdAt,
   updatedAt: user.updatedAt,
@@ -43,6 +44,7 @@ router.post('/', async (req: AuthenticatedRequest, res: Response) => {
       gstin,
       role,
       isActive,
+      assignedLocationId,
     } = req.body;
 
     if (!email || !password || !firstName || !lastName || !role) {
@@ -72,6 +74,7 @@ router.post('/', async (req: AuthenticatedRequest, res: Response) => {
       gstin: gstin ? String(gstin).trim().toUpperCase() : undefined,
       role: normalizedRole,
       isActive: isActive !== undefined ? Boolean(isActive) : true,
+      assignedLocationId: assignedLocationId ? String(assignedLocationId) : undefined,
     });
 
     res.status(201).json({ success: true, data: sanitizeUser(user), message: 'User created successfully' });
@@ -93,6 +96,7 @@ router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
       gstin,
       role,
       isActive,
+      assignedLocationId,
     } = req.body;
 
     if (email !== undefined) updates.email = String(email).toLowerCase().trim();
@@ -112,6 +116,7 @@ router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     if (isActive !== undefined) updates.isActive = Boolean(isActive);
+    if (assignedLocationId !== undefined) updates.assignedLocationId = assignedLocationId ? String(assignedLocationId) : null;
 
     const current = await User.findById(req.params.id);
     if (!current) {
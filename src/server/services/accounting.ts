@@ -0,0 +1,226 @@
+import { ChartAccount, AccountType, AccountSubType } from '../models/ChartAccount.js';
+import { AccountLedgerEntry, LedgerVoucherType } from '../models/AccountLedgerEntry.js';
+import { AccountingVoucher, VoucherType } from '../models/AccountingVoucher.js';
+import { generateNumber } from './numbering.js';
+
+export type PaymentMode = 'cash' | 'bank' | 'card' | 'upi' | 'cheque' | 'online' | 'bank_transfer' | 'adjustment';
+
+export const round2 = (value: number) => Number(Number(value || 0).toFixed(2));
+
+export const normalizePaymentMode = (input?: string): PaymentMode => {
+  const value = String(input || 'cash').toLowerCase();
+  if (value === 'cash') return 'cash';
+  if (value === 'bank') return 'bank';
+  if (value === 'card') return 'card';
+  if (value === 'upi') return 'upi';
+  if (value === 'cheque') return 'cheque';
+  if (value === 'online') return 'online';
+  if (value === 'bank_transfer') return 'bank_transfer';
+  return 'cash';
+};
+
+export const CORE_ACCOUNTS: Array<{ accountCode: string; accountName: string; accountType: AccountType; subType: AccountSubType }> = [
+  { accountCode: '1000', accountName: 'Cash Account', accountType: 'asset', subType: 'cash' },
+  { accountCode: '1010', accountName: 'Bank Account', accountType: 'asset', subType: 'bank' },
+  { accountCode: '1200', accountName: 'Opening Stock', accountType: 'asset', subType: 'stock' },
+  { accountCode: '1100', accountName: 'Customer Control', accountType: 'asset', subType: 'customer' },
+  { accountCode: '2000', accountName: 'Supplier Control', accountType: 'liability', subType: 'supplier' },
+  { accountCode: '3000', accountName: 'Sales Income', accountType: 'income', subType: 'general' },
+  { accountCode: '3100', accountName: 'Other Income', accountType: 'income', subType: 'general' },
+  { accountCode: '4000', accountName: 'Expense', accountType: 'expense', subType: 'general' },
+  { accountCode: '4010', accountName: 'Salary Expense', accountType: 'expense', subType: 'general' },
+  { accountCode: '4020', accountName: 'Contract Expense', accountType: 'expense', subType: 'general' },
+];
+
+export const ensureDefaultChartAccounts = async () => {
+  for (const row of CORE_ACCOUNTS) {
+    await ChartAccount.findOneAndUpdate(
+      { accountCode: row.accountCode },
+      {
+        $setOnInsert: {
+          ...row,
+          openingBalance: 0,
+          openingSide: 'debit',
+          isSystem: true,
+          isActive: true,
+        },
+      },
+      { upsert: true, new: true }
+    );
+  }
+};
+
+export const getCoreAccount = async (subType: 'cash' | 'bank' | 'stock' | 'supplier') => {
+  await ensureDefaultChartAccounts();
+  const account = await ChartAccount.findOne({ subType, isActive: true }).sort({ isSystem: -1, accountCode: 1 });
+  if (!account) {
+    throw new Error(`${subType} account is not configured`);
+  }
+  return account;
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const getOrCreateAccount = async (params: {
+  accountName: string;
+  accountType: AccountType;
+  subType?: AccountSubType;
+  createdBy?: string;
+  isSystem?: boolean;
+}) => {
+  const accountName = String(params.accountName || '').trim();
+  if (!accountName) throw new Error('accountName is required');
+
+  const existing = await ChartAccount.findOne({
+    accountType: params.accountType,
+    accountName: { $regex: `^${escapeRegex(accountName)}$`, $options: 'i' },
+  });
+  if (existing) return existing;
+
+  const accountCode = await generateNumber('chart_account', { prefix: 'AC-', padTo: 5 });
+  return ChartAccount.create({
+    accountCode,
+    accountName,
+    accountType: params.accountType,
+    subType: params.subType || 'general',
+    openingBalance: 0,
+    openingSide: 'debit',
+    isSystem: Boolean(params.isSystem),
+    isActive: true,
+    createdBy: params.createdBy,
+  });
+};
+
+export const getAccountClosing = async (accountId: any, endDate?: Date) => {
+  const filter: Record<string, any> = { accountId };
+  if (endDate) filter.entryDate = { $lte: endDate };
+  const last = await AccountLedgerEntry.findOne(filter).sort({ entryDate: -1, createdAt: -1, _id: -1 });
+  return Number(last?.runningBalance || 0);
+};
+
+export const postLedger = async (params: {
+  accountId: any;
+  entryDate: Date;
+  voucherType: LedgerVoucherType;
+  voucherNumber?: string;
+  referenceNo?: string;
+  narration?: string;
+  debit?: number;
+  credit?: number;
+  paymentMode?: PaymentMode;
+  createdBy?: string;
+  metadata?: Record<string, any>;
+}) => {
+  const debit = round2(Number(params.debit || 0));
+  const credit = round2(Number(params.credit || 0));
+  if (debit <= 0 && credit <= 0) throw new Error('Either debit or credit must be greater than 0');
+
+  const runningBalance = round2((await getAccountClosing(params.accountId, params.entryDate)) + debit - credit);
+  return AccountLedgerEntry.create({
+    accountId: params.accountId,
+    entryDate: params.entryDate,
+    voucherType: params.voucherType,
+    voucherNumber: params.voucherNumber,
+    referenceNo: params.referenceNo,
+    narration: params.narration,
+    debit,
+    credit,
+    paymentMode: params.paymentMode,
+    runningBalance,
+    createdBy: params.createdBy,
+    metadata: params.metadata,
+  });
+};
+
+export const createVoucherAndLedger = async (params: {
+  voucherType: VoucherType;
+  voucherDate: Date;
+  paymentMode?: PaymentMode;
+  referenceNo?: string;
+  counterpartyName?: string;
+  notes?: string;
+  lines: Array<{ accountId: string; debit: number; credit: number; narration?: string }>;
+  createdBy?: string;
+}) => {
+  const lines = params.lines
+    .map((line) => ({
+      accountId: String(line.accountId || '').trim(),
+      debit: round2(Number(line.debit || 0)),
+      credit: round2(Number(line.credit || 0)),
+      narration: line.narration,
+    }))
+    .filter((line) => line.accountId && (line.debit > 0 || line.credit > 0));
+
+  if (lines.length < 2) throw new Error('Voucher requires at least two valid lines');
+  const totalDebit = round2(lines.reduce((sum, line) => sum + line.debit, 0));
+  const totalCredit = round2(lines.reduce((sum, line) => sum + line.credit, 0));
+  if (totalDebit <= 0 || totalDebit !== totalCredit) {
+    throw new Error('Voucher debit and credit totals must match');
+  }
+
+  const key =
+    params.voucherType === 'receipt'
+      ? 'receipt_voucher_manual'
+      : params.voucherType === 'payment'
+        ? 'payment_voucher'
+        : params.voucherType === 'journal'
+          ? 'journal_voucher'
+          : 'transfer_voucher';
+  const prefix =
+    params.voucherType === 'receipt'
+      ? 'RV-'
+      : params.voucherType === 'payment'
+        ? 'PV-'
+        : params.voucherType === 'journal'
+          ? 'JV-'
+          : 'TV-';
+  const voucherNumber = await generateNumber(key, { prefix, datePart: true, padTo: 5 });
+
+  const accountMap = new Map<string, any>();
+  for (const line of lines) {
+    const account = await ChartAccount.findById(line.accountId);
+    if (!account) throw new Error(`Account not found: ${line.accountId}`);
+    accountMap.set(line.accountId, account);
+  }
+
+  const voucher = await AccountingVoucher.create({
+    voucherNumber,
+    voucherType: params.voucherType,
+    voucherDate: params.voucherDate,
+    paymentMode: params.paymentMode,
+    referenceNo: params.referenceNo,
+    counterpartyName: params.counterpartyName,
+    notes: params.notes,
+    totalAmount: totalDebit,
+    lines: lines.map((line) => {
+      const account = accountMap.get(line.accountId);
+      return {
+        accountId: account._id,
+        accountCode: account.accountCode,
+        accountName: account.accountName,
+        debit: line.debit,
+        credit: line.credit,
+        narration: line.narration,
+      };
+    }),
+    createdBy: params.createdBy,
+  });
+
+  for (const line of lines) {
+    await postLedger({
+      accountId: line.accountId,
+      entryDate: params.voucherDate,
+      voucherType: params.voucherType,
+      voucherNumber: voucher.voucherNumber,
+      referenceNo: params.referenceNo,
+      narration: line.narration || params.notes,
+      debit: line.debit,
+      credit: line.credit,
+      paymentMode: params.paymentMode,
+      createdBy: params.createdBy,
+      metadata: { source: 'voucher', sourceId: voucher._id.toString() },
+    });
+  }
+
+  return voucher;
+};
@@ -0,0 +1,186 @@
+import { AppSettings, IBusinessSettings, IInvoiceSettings } from '../models/AppSettings.js';
+import { NumberSequence } from '../models/NumberSequence.js';
+import { Sale } from '../models/Sale.js';
+import { validateGSTIN } from '../utils/gst.js';
+import { generateNumber } from './numbering.js';
+
+const GENERAL_KEY = 'general';
+const INVOICE_SEQUENCE_KEY = 'invoice_number';
+const MAX_LOGO_LENGTH = 2 * 1024 * 1024;
+// The IRP and GSTR-1 take document numbers of at most 16 characters.
+const MAX_INVOICE_NUMBER_LENGTH = 16;
+const INVOICE_SERIAL_DIGITS = 6;
+const DEFAULT_INVOICE_PREFIX = 'INV-';
+
+const BUSINESS_TEXT_FIELDS: Array<keyof IBusinessSettings> = [
+  'legalName',
+  'tradeName',
+  'gstin',
+  'pan',
+  'phone',
+  'email',
+  'addressLine1',
+  'addressLine2',
+  'city',
+  'state',
+  'pincode',
+  'country',
+];
+const BUSINESS_LOGO_FIELDS: Array<keyof IBusinessSettings> = ['invoiceLogoDataUrl', 'reportLogoDataUrl'];
+const INVOICE_TEXT_FIELDS: Array<keyof IInvoiceSettings> = ['title', 'subtitle', 'prefix', 'terms', 'footerNote'];
+const INVOICE_FLAG_FIELDS: Array<keyof IInvoiceSettings> = [
+  'showGstBreakup',
+  'showHsnCode',
+  'showCustomerDetails',
+  'showBusinessGstin',
+  'useCustomInvoiceNumber',
+];
+
+export interface GeneralSettingsView {
+  business: IBusinessSettings;
+  invoice: IInvoiceSettings & { nextNumber: number };
+  configured: boolean; // false until someone saves; terminals may still hold settings from before the move
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// The prefix invoices are actually numbered with; the stored prefix is ignored while custom numbering is off.
+const printedInvoicePrefix = (invoice?: Pick<IInvoiceSettings, 'useCustomInvoiceNumber' | 'prefix'>) =>
+  invoice?.useCustomInvoiceNumber && invoice.prefix ? invoice.prefix : DEFAULT_INVOICE_PREFIX;
+
+/** The number the next invoice will be given, read from the shared invoice sequence. */
+export const peekNextInvoiceNumber = async (): Promise<number> => {
+  const sequence = await NumberSequence.findOne({ key: INVOICE_SEQUENCE_KEY });
+  return Number(sequence?.value || 0) + 1;
+};
+
+export const loadGeneralSettings = async () =>
+  (await AppSettings.findOne({ key: GENERAL_KEY })) || new AppSettings({ key: GENERAL_KEY });
+
+export const getGeneralSettingsView = async (): Promise<GeneralSettingsView> => {
+  const settings = await loadGeneralSettings();
+  const row = settings.toObject();
+  return {
+    business: row.business,
+    invoice: { ...row.invoice, nextNumber: await peekNextInvoiceNumber() },
+    configured: !settings.isNew,
+    updatedAt: row.updatedAt,
+    updatedBy: row.updatedBy,
+  };
+};
+
+/**
+ * Validates a settings update against the stored values. Sections and fields that are left out keep their
+ * current value; nextNumber is returned separately, and only when it changes, because it moves the invoice
+ * sequence.
+ */
+export const normalizeGeneralSettingsInput = (body: any, current: GeneralSettingsView) => {
+  const business: IBusinessSettings = { ...current.business };
+  const { nextNumber: currentNextNumber, ...currentInvoice } = current.invoice;
+  const invoice: IInvoiceSettings = { ...currentInvoice };
+  const businessInput = body?.business || {};
+  const invoiceInput = body?.invoice || {};
+
+  for (const field of BUSINESS_TEXT_FIELDS) {
+    if (businessInput[field] !== undefined) (business as any)[field] = String(businessInput[field] ?? '').trim();
+  }
+  for (const field of BUSINESS_LOGO_FIELDS) {
+    if (businessInput[field] === undefined) continue;
+    const value = String(businessInput[field] ?? '');
+    if (value && !/^data:image\/(png|jpe?g|gif|webp|svg\+xml);base64,/i.test(value)) {
+      throw new Error(`${field} must be an image data URL`);
+    }
+    if (value.length > MAX_LOGO_LENGTH) throw new Error(`${field} is larger than 2 MB`);
+    (business as any)[field] = value;
+  }
+  business.gstin = business.gstin.toUpperCase();
+  business.pan = business.pan.toUpperCase();
+  business.email = business.email.toLowerCase();
+  if (business.gstin && !validateGSTIN(business.gstin)) throw new Error('Business GSTIN is not valid');
+  if (business.pan && !/^[A-Z]{5}[0-9]{4}[A-Z]$/.test(business.pan)) throw new Error('Business PAN is not valid');
+  if (business.pincode && !/^[1-9][0-9]{5}$/.test(business.pincode)) throw new Error('Pincode must be 6 digits');
+  if (business.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(business.email)) throw new Error('Business email is not valid');
+
+  for (const field of INVOICE_TEXT_FIELDS) {
+    if (invoiceInput[field] !== undefined) (invoice as any)[field] = String(invoiceInput[field] ?? '').trim();
+  }
+  for (const field of INVOICE_FLAG_FIELDS) {
+    if (invoiceInput[field] !== undefined) (invoice as any)[field] = Boolean(invoiceInput[field]);
+  }
+  // Same characters generateNumber keeps, so the prefix shown is the prefix printed.
+  invoice.prefix = invoice.prefix.toUpperCase();
+  if (invoice.prefix && !/^[A-Z0-9/_-]+$/.test(invoice.prefix)) {
+    throw new Error('Invoice prefix may only use letters, digits, "/", "_" and "-"');
+  }
+  if (invoice.useCustomInvoiceNumber && !invoice.prefix) throw new Error('Invoice prefix is required for custom numbering');
+  if (invoice.prefix.length + INVOICE_SERIAL_DIGITS > MAX_INVOICE_NUMBER_LENGTH) {
+    throw new Error(
+      `Invoice prefix can be at most ${MAX_INVOICE_NUMBER_LENGTH - INVOICE_SERIAL_DIGITS} characters, so invoice numbers stay within ${MAX_INVOICE_NUMBER_LENGTH}`
+    );
+  }
+
+  let nextNumber: number | undefined;
+  if (invoiceInput.nextNumber !== undefined && invoiceInput.nextNumber !== null && invoiceInput.nextNumber !== '') {
+    nextNumber = Number(invoiceInput.nextNumber);
+    if (!Number.isInteger(nextNumber) || nextNumber < 1) throw new Error('Next invoice number must be a whole number from 1');
+    // Going backwards would hand out numbers already used, unless the printed prefix changes with it.
+    if (nextNumber < currentNextNumber && printedInvoicePrefix(invoice) === printedInvoicePrefix(current.invoice)) {
+      throw new Error(`Next invoice number cannot go below ${currentNextNumber} without changing the prefix`);
+    }
+    if (nextNumber === currentNextNumber) nextNumber = undefined;
+  }
+
+  return { business, invoice, nextNumber };
+};
+
+/**
+ * Refuses numbering that would run into invoices already issued: any invoice with the printed prefix and a serial
+ * from the next number up. Checked whenever the prefix in use or the next number changes, so switching back to a
+ * prefix used before is caught too.
+ */
+export const assertInvoiceNumbersFree = async (
+  current: GeneralSettingsView,
+  value: { invoice: IInvoiceSettings; nextNumber?: number }
+) => {
+  const prefix = printedInvoicePrefix(value.invoice);
+  if (value.nextNumber === undefined && prefix === printedInvoicePrefix(current.invoice)) return;
+  const nextNumber = value.nextNumber ?? current.invoice.nextNumber;
+  const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const [clash] = await Sale.aggregate([
+    { $match: { invoiceNumber: { $regex: `^${escaped}\\d+$` } } },
+    { $project: { invoiceNumber: 1, serial: { $toLong: { $substrCP: ['$invoiceNumber', prefix.length, 20] } } } },
+    { $match: { serial: { $gte: nextNumber } } },
+    { $sort: { serial: -1 } },
+    { $limit: 1 },
+  ]);
+  if (clash) {
+    throw new Error(`Invoice ${clash.invoiceNumber} already exists; the next invoice number must be at least ${Number(clash.serial) + 1}`);
+  }
+};
+
+/** Moves the invoice sequence so the next invoice gets nextNumber. */
+export const setNextInvoiceNumber = async (nextNumber: number) => {
+  await NumberSequence.findOneAndUpdate(
+    { key: INVOICE_SEQUENCE_KEY },
+    { $set: { value: nextNumber - 1 } },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+/**
+ * Numbers an invoice from the shared sequence, in the format chosen in the invoice settings. Neither format
+ * carries a date, so both fit the 16 characters an e-invoice and GSTR-1 allow.
+ */
+export const generateInvoiceNumber = async (): Promise<string> => {
+  const { invoice } = await loadGeneralSettings();
+  return generateNumber(INVOICE_SEQUENCE_KEY, { prefix: printedInvoicePrefix(invoice), padTo: INVOICE_SERIAL_DIGITS });
+};
+
+/** Fills blank fields of a seller given with a request from the stored business details. */
+export const withStoredBusiness = async (input: any): Promise<Partial<IBusinessSettings>> => {
+  const merged: Record<string, any> = { ...(await loadGeneralSettings()).toObject().business };
+  for (const [key, value] of Object.entries(input || {})) {
+    if (value !== undefined && value !== null && String(value).trim() !== '') merged[key] = value;
+  }
+  return merged;
+};
@@ -0,0 +1,92 @@
+import { Product } from '../models/Product.js';
+
+// Weighed-item barcodes printed by store scales: EAN-13 laid out as PP IIIII VVVVV C.
+// Prefix 21 embeds the weight in grams, prefix 22 embeds the line price in paise.
+const WEIGHED_PREFIXES: Record<string, 'weight' | 'price'> = {
+  '21': 'weight',
+  '22': 'price',
+};
+
+export interface WeighedBarcode {
+  itemCode: string;
+  mode: 'weight' | 'price';
+  weightKg?: number;
+  price?: number;
+}
+
+export interface BarcodeMatch {
+  product: any;
+  quantity: number;
+  weighed?: WeighedBarcode;
+}
+
+const round3 = (value: number) => Number(Number(value || 0).toFixed(3));
+
+export const ean13CheckDigit = (first12: string): number => {
+  const sum = first12
+    .split('')
+    .reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string): boolean =>
+  /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+
+export const normalizeBarcodes = (input: any): string[] => {
+  const values = Array.isArray(input) ? input : String(input ?? '').split(',');
+  const seen = new Set<string>();
+  const barcodes: string[] = [];
+  for (const value of values) {
+    const code = String(value ?? '').trim();
+    if (!code || seen.has(code)) continue;
+    seen.add(code);
+    barcodes.push(code);
+  }
+  return barcodes;
+};
+
+export const parseWeighedBarcode = (code: string): WeighedBarcode | null => {
+  if (!isValidEan13(code)) return null;
+  const mode = WEIGHED_PREFIXES[code.slice(0, 2)];
+  if (!mode) return null;
+  const itemCode = code.slice(2, 7);
+  const value = Number(code.slice(7, 12));
+  return mode === 'weight'
+    ? { itemCode, mode, weightKg: round3(value / 1000) }
+    : { itemCode, mode, price: Number((value / 100).toFixed(2)) };
+};
+
+// Returns the first other product already using any of the given barcodes.
+export const findBarcodeConflict = async (barcodes: string[], excludeProductId?: string) => {
+  if (!barcodes.length) return null;
+  const filter: any = { barcodes: { $in: barcodes } };
+  if (excludeProductId) filter._id = { $ne: excludeProductId };
+  const product = await Product.findOne(filter).select('name sku barcodes');
+  if (!product) return null;
+  const barcode = barcodes.find((code) => ((product as any).barcodes || []).includes(code));
+  return { product, barcode };
+};
+
+/**
+ * Exact barcode match first, then weighed-item decoding for kg products.
+ * Price-embedded labels are converted to a quantity using the product's selling price.
+ */
+export const findProductByBarcode = async (rawCode: string): Promise<BarcodeMatch | null> => {
+  const code = String(rawCode || '').trim();
+  if (!code) return null;
+
+  const product = await Product.findOne({ barcodes: code, isActive: true });
+  if (product) return { product, quantity: 1 };
+
+  const weighed = parseWeighedBarcode(code);
+  if (!weighed) return null;
+  const weighedProduct = await Product.findOne({ weighedItemCode: weighed.itemCode, unit: 'kg', isActive: true });
+  if (!weighedProduct) return null;
+
+  const unitPrice = Number(weighedProduct.price || 0);
+  const quantity = weighed.mode === 'weight'
+    ? Number(weighed.weightKg || 0)
+    : unitPrice > 0 ? round3(Number(weighed.price || 0) / unitPrice) : 0;
+  if (quantity <= 0) return null;
+  return { product: weighedProduct, quantity, weighed };
+};
@@ -0,0 +1,335 @@
+import { Product } from '../models/Product.js';
+import { Category } from '../models/Category.js';
+import { Customer } from '../models/Customer.js';
+import { parseCsv, readXlsx, SpreadsheetCell } from '../utils/spreadsheet.js';
+import { recordStockMovement } from './stockMovements.js';
+
+export type CatalogImportEntity = 'products' | 'categories' | 'opening_stock' | 'customer_prices';
+
+export const CATALOG_IMPORT_ENTITIES: CatalogImportEntity[] = ['products', 'categories', 'opening_stock', 'customer_prices'];
+
+export const CATALOG_IMPORT_COLUMNS: Record<CatalogImportEntity, string[]> = {
+  products: ['sku', 'name', 'category', 'price', 'cost', 'wholesalePrice', 'gstRate', 'hsnCode', 'unit', 'minStock', 'barcodes', 'stock', 'description'],
+  categories: ['name', 'description'],
+  opening_stock: ['sku', 'quantity'],
+  customer_prices: ['customerCode', 'sku', 'unitPrice', 'priceType'],
+};
+
+export interface ImportRowResult {
+  row: number;
+  data: Record<string, any>;
+  errors: string[];
+}
+
+export interface ImportValidation {
+  entity: CatalogImportEntity;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  rows: ImportRowResult[];
+}
+
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+const UNITS = ['piece', 'kg', 'gram', 'liter', 'ml', 'meter', 'box', 'carton', 'pack', 'dozen'];
+const PRICE_TYPES = ['retail', 'wholesale', 'custom'];
+
+const headerKey = (value: string) => String(value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const readImportRows = (format: string, content: string): string[][] => {
+  if (String(format).toLowerCase() === 'xlsx') {
+    return readXlsx(Buffer.from(String(content || ''), 'base64'));
+  }
+  return parseCsv(String(content || ''));
+};
+
+// Maps each data row to the entity's columns by header name, ignoring case, spaces and underscores.
+const toRecords = (entity: CatalogImportEntity, rows: string[][]): Array<Record<string, string>> => {
+  const [header = [], ...body] = rows;
+  const positions = new Map(header.map((name, index) => [headerKey(name), index]));
+  return body.map((cells) => {
+    const record: Record<string, string> = {};
+    for (const column of CATALOG_IMPORT_COLUMNS[entity]) {
+      const index = positions.get(headerKey(column));
+      record[column] = index === undefined ? '' : String(cells[index] ?? '').trim();
+    }
+    return record;
+  });
+};
+
+const parseNumber = (value: string, field: string, errors: string[], options: { required?: boolean; fallback?: number } = {}) => {
+  if (value === '') {
+    if (options.required) errors.push(`${field} is required`);
+    return options.fallback ?? 0;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    errors.push(`${field} must be a non-negative number`);
+    return 0;
+  }
+  return parsed;
+};
+
+const validateProducts = async (records: Array<Record<string, string>>): Promise<ImportRowResult[]> => {
+  const skus = records.map((record) => record.sku.toUpperCase()).filter(Boolean);
+  const [existingProducts, categories] = await Promise.all([
+    Product.find({ sku: { $in: skus } }).select('sku'),
+    Category.find({ isActive: true }).select('name'),
+  ]);
+  const existingSkus = new Set(existingProducts.map((product) => product.sku));
+  const categoryNames = new Map(categories.map((category) => [category.name.toLowerCase(), category.name]));
+
+  const allBarcodes = records.flatMap((record) => record.barcodes.split(/[,;|]/).map((code) => code.trim()).filter(Boolean));
+  const takenBarcodes = new Set<string>(
+    allBarcodes.length
+      ? (await Product.find({ barcodes: { $in: allBarcodes } }).select('barcodes')).flatMap((product: any) => product.barcodes || [])
+      : []
+  );
+
+  const seenSkus = new Set<string>();
+  const seenBarcodes = new Set<string>();
+  return records.map((record, index) => {
+    const errors: string[] = [];
+    const sku = record.sku.toUpperCase();
+    if (!record.name) errors.push('name is required');
+    if (!sku) errors.push('sku is required');
+    else if (existingSkus.has(sku)) errors.push(`Duplicate SKU ${sku}: already exists in the catalog`);
+    else if (seenSkus.has(sku)) errors.push(`Duplicate SKU ${sku}: repeated in this file`);
+    if (sku) seenSkus.add(sku);
+
+    const category = categoryNames.get(record.category.toLowerCase());
+    if (!record.category) errors.push('category is required');
+    else if (!category) errors.push(`Unknown category ${record.category}`);
+
+    const gstRate = parseNumber(record.gstRate, 'gstRate', errors, { fallback: 18 });
+    if (!GST_RATES.includes(gstRate)) errors.push(`Invalid gstRate ${record.gstRate}: must be one of ${GST_RATES.join(', ')}`);
+
+    const unit = (record.unit || 'piece').toLowerCase();
+    if (!UNITS.includes(unit)) errors.push(`Invalid unit ${record.unit}`);
+
+    const barcodes = Array.from(new Set(record.barcodes.split(/[,;|]/).map((code) => code.trim()).filter(Boolean)));
+    for (const code of barcodes) {
+      if (takenBarcodes.has(code)) errors.push(`Barcode ${code} is already assigned to another product`);
+      else if (seenBarcodes.has(code)) errors.push(`Barcode ${code} is repeated in this file`);
+      seenBarcodes.add(code);
+    }
+
+    const data = {
+      sku,
+      name: record.name,
+      category: category || record.category,
+      price: parseNumber(record.price, 'price', errors, { required: true }),
+      cost: parseNumber(record.cost, 'cost', errors, { required: true }),
+      wholesalePrice: parseNumber(record.wholesalePrice, 'wholesalePrice', errors),
+      gstRate,
+      hsnCode: record.hsnCode,
+      unit,
+      minStock: parseNumber(record.minStock, 'minStock', errors, { fallback: 10 }),
+      barcodes,
+      stock: parseNumber(record.stock, 'stock', errors),
+      description: record.description || undefined,
+    };
+    return { row: index + 2, data, errors };
+  });
+};
+
+const validateCategories = async (records: Array<Record<string, string>>): Promise<ImportRowResult[]> => {
+  const existing = await Category.find({}).select('name');
+  const existingNames = new Set(existing.map((category) => category.name.toLowerCase()));
+  const seen = new Set<string>();
+  return records.map((record, index) => {
+    const errors: string[] = [];
+    const key = record.name.toLowerCase();
+    if (!record.name) errors.push('name is required');
+    else if (existingNames.has(key)) errors.push(`Category ${record.name} already exists`);
+    else if (seen.has(key)) errors.push(`Category ${record.name} is repeated in this file`);
+    if (key) seen.add(key);
+    return { row: index + 2, data: { name: record.name, description: record.description || undefined }, errors };
+  });
+};
+
+const validateOpeningStock = async (records: Array<Record<string, string>>): Promise<ImportRowResult[]> => {
+  const skus = records.map((record) => record.sku.toUpperCase()).filter(Boolean);
+  const products = await Product.find({ sku: { $in: skus } }).select('sku name stock batchTracking hasVariants');
+  const productMap = new Map(products.map((product: any) => [product.sku, product]));
+  const seen = new Set<string>();
+  return records.map((record, index) => {
+    const errors: string[] = [];
+    const sku = record.sku.toUpperCase();
+    const product: any = productMap.get(sku);
+    if (!sku) errors.push('sku is required');
+    else if (!product) errors.push(`Unknown SKU ${sku}`);
+    else if (product.hasVariants) errors.push(`${sku} has variants; import stock against each variant SKU`);
+    else if (product.batchTracking) errors.push(`${sku} is batch tracked; enter opening stock per batch from Inventory`);
+    if (sku && seen.has(sku)) errors.push(`Duplicate SKU ${sku}: repeated in this file`);
+    if (sku) seen.add(sku);
+    const quantity = parseNumber(record.quantity, 'quantity', errors, { required: true });
+    return {
+      row: index + 2,
+      data: { sku, productId: product?._id?.toString(), quantity, quantityBefore: Number(product?.stock || 0) },
+      errors,
+    };
+  });
+};
+
+const validateCustomerPrices = async (records: Array<Record<string, string>>): Promise<ImportRowResult[]> => {
+  const codes = records.map((record) => record.customerCode.toUpperCase()).filter(Boolean);
+  const skus = records.map((record) => record.sku.toUpperCase()).filter(Boolean);
+  const [customers, products] = await Promise.all([
+    Customer.find({ customerCode: { $in: codes } }).select('customerCode'),
+    Product.find({ sku: { $in: skus } }).select('sku'),
+  ]);
+  const customerMap = new Map(customers.map((customer) => [customer.customerCode, customer._id.toString()]));
+  const productMap = new Map(products.map((product) => [product.sku, product._id.toString()]));
+  const seen = new Set<string>();
+  return records.map((record, index) => {
+    const errors: string[] = [];
+    const customerCode = record.customerCode.toUpperCase();
+    const sku = record.sku.toUpperCase();
+    const customerId = customerMap.get(customerCode);
+    const productId = productMap.get(sku);
+    if (!customerCode) errors.push('customerCode is required');
+    else if (!customerId) errors.push(`Unknown customer ${customerCode}`);
+    if (!sku) errors.push('sku is required');
+    else if (!productId) errors.push(`Unknown SKU ${sku}`);
+    const key = `${customerCode}::${sku}`;
+    if (customerCode && sku && seen.has(key)) errors.push(`Price for ${customerCode} / ${sku} is repeated in this file`);
+    seen.add(key);
+    const priceType = (record.priceType || 'custom').toLowerCase();
+    if (!PRICE_TYPES.includes(priceType)) errors.push(`Invalid priceType ${record.priceType}`);
+    const unitPrice = parseNumber(record.unitPrice, 'unitPrice', errors, { required: true });
+    return { row: index + 2, data: { customerCode, customerId, sku, productId, unitPrice, priceType }, errors };
+  });
+};
+
+export const validateCatalogImport = async (entity: CatalogImportEntity, rows: string[][]): Promise<ImportValidation> => {
+  const records = toRecords(entity, rows);
+  const results = entity === 'products'
+    ? await validateProducts(records)
+    : entity === 'categories'
+      ? await validateCategories(records)
+      : entity === 'opening_stock'
+        ? await validateOpeningStock(records)
+        : await validateCustomerPrices(records);
+  const errorRows = results.filter((row) => row.errors.length).length;
+  return {
+    entity,
+    totalRows: results.length,
+    validRows: results.length - errorRows,
+    errorRows,
+    rows: results,
+  };
+};
+
+/**
+ * Applies a validated import as a unit. Writes run first with an undo step for each; if any write fails
+ * the completed ones are reverted. Stock journal entries are immutable, so they are written only after
+ * every write has succeeded.
+ */
+export const commitCatalogImport = async (validation: ImportValidation, userId?: string): Promise<number> => {
+  if (validation.errorRows > 0) {
+    throw new Error(`Import has ${validation.errorRows} invalid rows`);
+  }
+  const rows = validation.rows.map((row) => row.data);
+  const undo: Array<() => Promise<unknown>> = [];
+  const journal: Array<() => Promise<unknown>> = [];
+
+  try {
+    if (validation.entity === 'products') {
+      const skus = rows.map((row) => row.sku);
+      undo.push(() => Product.deleteMany({ sku: { $in: skus } }));
+      const created = await Product.insertMany(rows.map((row) => ({ ...row, taxType: 'gst' })), { ordered: true });
+      for (const product of created) {
+        if (!Number(product.stock || 0)) continue;
+        journal.push(() =>
+          recordStockMovement({
+            productId: product._id.toString(),
+            productName: product.name,
+            sku: product.sku,
+            movementType: 'opening',
+            quantity: Number(product.stock || 0),
+            quantityBefore: 0,
+            quantityAfter: Number(product.stock || 0),
+            referenceType: 'import',
+            reason: 'Bulk import',
+            userId,
+          })
+        );
+      }
+    } else if (validation.entity === 'categories') {
+      const names = rows.map((row) => row.name);
+      undo.push(() => Category.deleteMany({ name: { $in: names } }));
+      await Category.insertMany(rows, { ordered: true });
+    } else if (validation.entity === 'opening_stock') {
+      undo.push(() =>
+        Product.bulkWrite(rows.map((row) => ({ updateOne: { filter: { _id: row.productId }, update: { $set: { stock: row.quantityBefore } } } })))
+      );
+      await Product.bulkWrite(rows.map((row) => ({ updateOne: { filter: { _id: row.productId }, update: { $set: { stock: row.quantity } } } })));
+      for (const row of rows) {
+        const delta = Number(row.quantity) - Number(row.quantityBefore);
+        if (!delta) continue;
+        journal.push(() =>
+          recordStockMovement({
+            productId: row.productId,
+            sku: row.sku,
+            movementType: 'opening',
+            quantity: delta,
+            quantityBefore: row.quantityBefore,
+            quantityAfter: row.quantity,
+            referenceType: 'import',
+            reason: 'Opening stock import',
+            userId,
+          })
+        );
+      }
+    } else {
+      const byCustomer = new Map<string, any[]>();
+      for (const row of rows) byCustomer.set(row.customerId, [...(byCustomer.get(row.customerId) || []), row]);
+      for (const [customerId, prices] of byCustomer.entries()) {
+        const customer = await Customer.findById(customerId);
+        if (!customer) throw new Error(`Customer not found: ${customerId}`);
+        const previous = (customer.priceOverrides || []).map((row: any) => ({ productId: row.productId, priceType: row.priceType, unitPrice: row.unitPrice }));
+        const next = new Map(previous.map((row) => [String(row.productId), row]));
+        for (const price of prices) {
+          next.set(price.productId, { productId: price.productId, priceType: price.priceType, unitPrice: price.unitPrice });
+        }
+        await Customer.updateOne({ _id: customerId }, { $set: { priceOverrides: Array.from(next.values()) } });
+        undo.push(() => Customer.updateOne({ _id: customerId }, { $set: { priceOverrides: previous } }));
+      }
+    }
+  } catch (error) {
+    for (const step of undo.reverse()) {
+      await step().catch((undoError) => console.error('Failed to roll back catalog import step:', undoError));
+    }
+    throw error;
+  }
+
+  for (const entry of journal) await entry();
+  return rows.length;
+};
+
+export const buildCatalogExport = async (entity: 'products' | 'categories'): Promise<SpreadsheetCell[][]> => {
+  if (entity === 'categories') {
+    const categories = await Category.find({}).sort({ name: 1 });
+    return [CATALOG_IMPORT_COLUMNS.categories, ...categories.map((category) => [category.name, category.description || ''])];
+  }
+
+  const products = await Product.find({}).sort({ sku: 1 });
+  return [
+    CATALOG_IMPORT_COLUMNS.products,
+    ...products.map((product: any) => [
+      product.sku,
+      product.name,
+      product.category,
+      Number(product.price || 0),
+      Number(product.cost || 0),
+      Number(product.wholesalePrice || 0),
+      Number(product.gstRate || 0),
+      product.hsnCode || '',
+      product.unit || 'piece',
+      Number(product.minStock || 0),
+      (product.barcodes || []).join(', '),
+      Number(product.stock || 0),
+      product.description || '',
+    ]),
+  ];
+};
@@ -0,0 +1,60 @@
+import { consumeBatchAllocations, ensureBatchAllocations, restockBatchAllocations } from './stockBatches.js';
+import { applyStockMovement } from './stockMovements.js';
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+// Goods leave on the challan, so stock moves here and never again when the challan is invoiced.
+export const issueChallanStock = async (challan: any, location: any, userId?: string) => {
+  for (const item of challan.items) {
+    await applyStockMovement(String(item.productId), -Number(item.baseQuantity || 0), {
+      movementType: 'challan',
+      location,
+      referenceType: 'delivery_challan',
+      referenceId: challan._id.toString(),
+      referenceNo: challan.challanNumber,
+      batchNo: item.batchNo,
+      userId,
+    });
+    if (Array.isArray(item.batchAllocations) && item.batchAllocations.length) {
+      item.batchAllocations = await ensureBatchAllocations(
+        String(item.productId),
+        Number(item.baseQuantity || 0),
+        item.batchAllocations.map((row: any) => ({ batchNo: row.batchNo, expiryDate: row.expiryDate, quantity: row.quantity }))
+      );
+      await consumeBatchAllocations(String(item.productId), item.batchAllocations);
+    }
+  }
+};
+
+export const returnChallanStock = async (challan: any, location: any, userId?: string, reason?: string) => {
+  for (const item of challan.items) {
+    await applyStockMovement(String(item.productId), Number(item.baseQuantity || 0), {
+      movementType: 'challan',
+      location,
+      referenceType: 'delivery_challan',
+      referenceId: challan._id.toString(),
+      referenceNo: challan.challanNumber,
+      batchNo: item.batchNo,
+      reason: reason || 'Challan cancelled',
+      userId,
+    });
+    await restockBatchAllocations(String(item.productId), item.batchAllocations || []);
+  }
+};
+
+/**
+ * Lines for billing a challan at the prices agreed when it was issued. They carry the batches that actually
+ * left, so the invoice does not re-run FEFO on current stock.
+ */
+export const challanLinesForInvoice = (challan: any) =>
+  challan.items.map((item: any) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    unit: item.unit,
+    unitPrice: round2(item.unitPrice),
+    discountAmount: item.discountAmount || 0,
+    discountPercentage: item.discountPercentage || 0,
+    batchNo: item.batchNo,
+    batchAllocations: item.batchAllocations || [],
+    expiryDate: item.batchAllocations?.[0]?.expiryDate,
+  }));
@@ -0,0 +1,331 @@
+import mongoose from 'mongoose';
+import { Sale } from '../models/Sale.js';
+import { Customer } from '../models/Customer.js';
+import { ReceiptVoucher } from '../models/ReceiptVoucher.js';
+import { CreditNote } from '../models/CreditNote.js';
+import { Return } from '../models/Return.js';
+import { FacilityBooking } from '../models/FacilityBooking.js';
+import { EventBooking } from '../models/EventBooking.js';
+import { AccountingVoucher } from '../models/AccountingVoucher.js';
+import { User } from '../models/User.js';
+import { PrintDocumentType } from '../models/DocumentTemplate.js';
+import { resolveBusinessGstin } from './placeOfSupply.js';
+import { documentLabel } from './documentTemplates.js';
+import { loadGeneralSettings } from './appSettings.js';
+
+export interface PrintContext {
+  documentNumber: string;
+  documentDate: Date;
+  ownerId?: string; // whose business profile heads the document
+  qrCode?: string; // signed e-invoice QR, printed when the template asks for it
+  context: Record<string, any>;
+}
+
+const round2 = (value: number): number => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+/**
+ * The business block comes from the general settings, with blanks filled from the profile of the user who
+ * raised the document rather than whoever prints it, so any terminal renders the same header.
+ */
+const resolveBusiness = async (ownerId?: string) => {
+  const stored = (await loadGeneralSettings()).toObject().business;
+  const user = ownerId && mongoose.isValidObjectId(ownerId)
+    ? await User.findById(ownerId).select('businessName address phoneNumber email')
+    : null;
+  const address = user?.address;
+  const storedAddress = [stored.addressLine1, stored.addressLine2, stored.city, stored.state, stored.pincode].filter(Boolean).join(', ');
+  return {
+    name: String(stored.tradeName || stored.legalName || user?.businessName || '').trim(),
+    legalName: String(stored.legalName || user?.businessName || '').trim(),
+    address: storedAddress || [address?.street, address?.city, address?.state, address?.zipCode].filter(Boolean).join(', '),
+    gstin: (await resolveBusinessGstin(ownerId)) || '',
+    pan: String(stored.pan || ''),
+    phone: String(stored.phone || user?.phoneNumber || ''),
+    email: String(stored.email || user?.email || ''),
+  };
+};
+
+const invoiceContext = async (id: string): Promise<PrintContext | null> => {
+  const sale: any = await Sale.findById(id);
+  if (!sale) return null;
+  const customer: any = sale.customerId && mongoose.isValidObjectId(sale.customerId)
+    ? await Customer.findById(sale.customerId).select('address gstin')
+    : null;
+  const items = (sale.items || []).map((item: any, index: number) => {
+    const taxable = round2(Number(item.taxableValue ?? Number(item.unitPrice || 0) * Number(item.quantity || 0)));
+    const gst = round2(Number(item.gstAmount || 0));
+    // The rate is the list price; the stored unit price is already net of the line discount.
+    const quantity = Number(item.quantity || 0);
+    const listPrice = Number(item.listPrice ?? item.unitPrice ?? 0);
+    const lineDiscount = Math.max(0, (listPrice - Number(item.unitPrice || 0)) * quantity);
+    return {
+      index: index + 1,
+      productName: item.productName,
+      sku: item.sku,
+      hsnCode: item.hsnCode,
+      batchNo: item.batchNo,
+      quantity,
+      unit: item.unit,
+      unitPrice: listPrice,
+      discount: round2(lineDiscount + Number(item.promotionDiscount || 0)),
+      taxable,
+      gstRate: `${Number(item.gstRate || 0)}%`,
+      gst,
+      cess: round2(Number(item.cessAmount || 0)),
+      total: round2(Number(item.lineTotal ?? taxable + gst)),
+    };
+  });
+  const sumOf = (key: string) => round2((sale.items || []).reduce((sum: number, item: any) => sum + Number(item[key] || 0), 0));
+  const irn = sale.eInvoice?.irn;
+  const documentDate = new Date(sale.postedAt || sale.createdAt || Date.now());
+
+  return {
+    documentNumber: sale.invoiceNumber || sale.saleNumber,
+    documentDate,
+    ownerId: sale.userId,
+    qrCode: sale.eInvoice?.signedQrCode || undefined,
+    context: {
+      document: { title: sale.isGstBill === false ? 'BILL OF SUPPLY' : 'TAX INVOICE', number: sale.invoiceNumber || sale.saleNumber, date: documentDate },
+      party: {
+        name: sale.customerName,
+        phone: sale.customerPhone,
+        email: sale.customerEmail,
+        gstin: sale.customerGstin || customer?.gstin,
+        address: customer?.address,
+      },
+      notes: sale.notes,
+      sale: {
+        saleNumber: sale.saleNumber,
+        invoiceType: sale.invoiceType,
+        paymentMethod: (sale.payments || []).length > 1 ? 'split' : sale.paymentMethod,
+        placeOfSupply: sale.placeOfSupply ? `${sale.placeOfSupplyCode || ''} ${sale.placeOfSupply}`.trim() : '',
+        placeOfSupplyCode: sale.placeOfSupplyCode,
+        salesOrderNumber: sale.salesOrderNumber,
+        changeDue: Number(sale.changeDue || 0),
+      },
+      totals: {
+        subtotal: round2(Number(sale.subtotal || 0)),
+        discount: round2(Number(sale.discountAmount || 0)),
+        taxable: round2(items.reduce((sum: number, item: any) => sum + item.taxable, 0)),
+        cgst: sumOf('cgstAmount'),
+        sgst: sumOf('sgstAmount'),
+        igst: sumOf('igstAmount'),
+        cess: round2(Number(sale.totalCess || 0)),
+        gst: round2(Number(sale.totalGst || 0)),
+        tcs: round2(Number(sale.tcsAmount || 0)),
+        roundOff: round2(Number(sale.roundOffAmount || 0)),
+        total: round2(Number(sale.totalAmount || 0)),
+        paid: round2(Number(sale.totalAmount || 0) - Number(sale.outstandingAmount || 0)),
+        outstanding: round2(Number(sale.outstandingAmount || 0)),
+      },
+      einvoice: irn ? { irn, ackNo: sale.eInvoice.ackNo, ackDate: sale.eInvoice.ackDate } : {},
+      items,
+    },
+  };
+};
+
+const receiptContext = async (id: string): Promise<PrintContext | null> => {
+  const receipt: any = await ReceiptVoucher.findById(id);
+  if (!receipt) return null;
+  const applied = round2((receipt.allocations || []).reduce((sum: number, row: any) => sum + Number(row.amount || 0), 0));
+  return {
+    documentNumber: receipt.voucherNumber,
+    documentDate: new Date(receipt.entryDate || receipt.createdAt || Date.now()),
+    ownerId: receipt.createdBy,
+    context: {
+      document: { title: receipt.isAdvance ? 'ADVANCE RECEIPT' : 'PAYMENT RECEIPT', number: receipt.voucherNumber, date: receipt.entryDate },
+      party: { name: receipt.customerName },
+      notes: receipt.notes,
+      receipt: { mode: receipt.mode, isAdvance: receipt.isAdvance ? 'Yes' : '', salesOrderId: receipt.salesOrderId },
+      totals: {
+        amount: round2(Number(receipt.amount || 0)),
+        applied,
+        unapplied: round2(Number(receipt.unappliedAmount || 0)),
+        refunded: round2(Number(receipt.refundedAmount || 0)),
+      },
+      items: (receipt.allocations || []).map((row: any, index: number) => ({
+        index: index + 1,
+        saleNumber: row.saleNumber || row.saleId,
+        amount: round2(Number(row.amount || 0)),
+      })),
+    },
+  };
+};
+
+const creditNoteContext = async (id: string): Promise<PrintContext | null> => {
+  const note: any = await CreditNote.findById(id);
+  if (!note) return null;
+  const ret: any = note.sourceReturnId && mongoose.isValidObjectId(note.sourceReturnId) ? await Return.findById(note.sourceReturnId) : null;
+  const sale: any = note.sourceSaleId && mongoose.isValidObjectId(note.sourceSaleId)
+    ? await Sale.findById(note.sourceSaleId).select('invoiceNumber saleNumber customerGstin')
+    : null;
+  // Manual notes have no lines of their own; they print as one line for the reason.
+  const items = ret
+    ? ret.items.map((item: any, index: number) => ({
+        index: index + 1,
+        productName: item.productName,
+        sku: item.sku,
+        quantity: Number(item.returnQuantity || 0),
+        unit: item.unit,
+        unitPrice: Number(item.unitPrice || 0),
+        taxable: round2(Number(item.lineSubtotal || 0)),
+        tax: round2(Number(item.lineTax || 0)),
+        total: round2(Number(item.lineTotal ?? Number(item.lineSubtotal || 0) + Number(item.lineTax || 0))),
+      }))
+    : [{ index: 1, productName: note.reason, quantity: 1, unitPrice: note.subtotal, taxable: note.subtotal, tax: note.taxAmount, total: note.totalAmount }];
+
+  return {
+    documentNumber: note.noteNumber,
+    documentDate: new Date(note.issuedAt || note.createdAt || Date.now()),
+    ownerId: note.issuedBy,
+    context: {
+      document: { title: 'CREDIT NOTE', number: note.noteNumber, date: note.issuedAt },
+      party: { name: note.customerName, phone: note.customerPhone, email: note.customerEmail, gstin: sale?.customerGstin },
+      notes: note.notes,
+      creditNote: {
+        reason: note.reason,
+        status: note.status,
+        invoiceNumber: sale?.invoiceNumber || sale?.saleNumber || ret?.sourceInvoiceNumber,
+        returnNumber: ret?.returnNumber,
+      },
+      totals: {
+        subtotal: round2(Number(note.subtotal || 0)),
+        tax: round2(Number(note.taxAmount || 0)),
+        total: round2(Number(note.totalAmount || 0)),
+        balance: round2(Number(note.balanceAmount || 0)),
+      },
+      items,
+    },
+  };
+};
+
+// Facility and event bookings share the booking receipt; the id tells which one it is.
+const bookingContext = async (id: string): Promise<PrintContext | null> => {
+  const facilityBooking: any = await FacilityBooking.findById(id)
+    .populate('facilityId', 'name location')
+    .populate('memberSubscriptionId', 'memberName memberCode');
+  const booking: any = facilityBooking || (await EventBooking.findById(id).populate('facilityIds', 'name location'));
+  if (!booking) return null;
+
+  const facilities = facilityBooking
+    ? [facilityBooking.facilityId].filter(Boolean)
+    : (booking.facilityIds || []);
+  const number = facilityBooking
+    ? booking.bookingNumber || `BK-${String(booking._id).slice(-6).toUpperCase()}`
+    : booking.eventNumber || `EV-${String(booking._id).slice(-6).toUpperCase()}`;
+  const member = facilityBooking?.memberSubscriptionId;
+  return {
+    documentNumber: number,
+    documentDate: new Date(booking.createdAt || Date.now()),
+    ownerId: booking.createdBy,
+    context: {
+      document: { title: facilityBooking ? 'BOOKING RECEIPT' : 'EVENT BOOKING CONFIRMATION', number, date: booking.createdAt },
+      party: facilityBooking
+        ? { name: booking.customerName, phone: booking.customerPhone, email: booking.customerEmail }
+        : {
+            name: [booking.organizerName, booking.organizationName].filter(Boolean).join(', '),
+            phone: booking.contactPhone,
+            email: booking.contactEmail,
+          },
+      notes: booking.remarks || booking.notes,
+      booking: {
+        description: facilityBooking ? facilities[0]?.name : booking.eventName,
+        venue: facilities.map((row: any) => row.name).join(', '),
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        units: Number(booking.bookedUnits || 1),
+        status: booking.status,
+        paymentStatus: booking.paymentStatus,
+        member: member ? `${member.memberName}${member.memberCode ? ` (${member.memberCode})` : ''}` : '',
+      },
+      totals: {
+        total: round2(Number(booking.totalAmount || booking.amount || 0)),
+        advance: round2(Number(booking.advanceAmount || 0)),
+        paid: round2(Number(booking.paidAmount || 0)),
+        balance: round2(Number(booking.balanceAmount || 0)),
+        cancellationCharge: round2(Number(booking.cancellationCharge || 0)),
+        refund: round2(Number(booking.refundAmount || 0)),
+      },
+      items: facilities.map((row: any, index: number) => ({ index: index + 1, name: row.name, location: row.location })),
+    },
+  };
+};
+
+const voucherContext = async (id: string): Promise<PrintContext | null> => {
+  const voucher: any = await AccountingVoucher.findById(id);
+  if (!voucher) return null;
+  const lines = voucher.lines || [];
+  return {
+    documentNumber: voucher.voucherNumber,
+    documentDate: new Date(voucher.voucherDate || voucher.createdAt || Date.now()),
+    ownerId: voucher.createdBy,
+    context: {
+      document: { title: `${String(voucher.voucherType).toUpperCase()} VOUCHER`, number: voucher.voucherNumber, date: voucher.voucherDate },
+      party: { name: voucher.counterpartyName },
+      notes: voucher.notes,
+      voucher: { type: voucher.voucherType, mode: voucher.paymentMode, reference: voucher.referenceNo },
+      totals: {
+        debit: round2(lines.reduce((sum: number, row: any) => sum + Number(row.debit || 0), 0)),
+        credit: round2(lines.reduce((sum: number, row: any) => sum + Number(row.credit || 0), 0)),
+        total: round2(Number(voucher.totalAmount || 0)),
+      },
+      items: lines.map((row: any, index: number) => ({
+        index: index + 1,
+        accountCode: row.accountCode,
+        accountName: row.accountName,
+        narration: row.narration,
+        debit: round2(Number(row.debit || 0)),
+        credit: round2(Number(row.credit || 0)),
+      })),
+    },
+  };
+};
+
+const LOADERS: Record<PrintDocumentType, (id: string) => Promise<PrintContext | null>> = {
+  invoice: invoiceContext,
+  receipt: receiptContext,
+  credit_note: creditNoteContext,
+  booking_receipt: bookingContext,
+  voucher: voucherContext,
+};
+
+/** Everything a template can print for one document, or null when there is no such document. */
+export const loadPrintContext = async (documentType: PrintDocumentType, id: string): Promise<PrintContext | null> => {
+  if (!mongoose.isValidObjectId(id)) return null;
+  const loaded = await LOADERS[documentType](id);
+  if (!loaded) return null;
+  loaded.context.business = await resolveBusiness(loaded.ownerId);
+  loaded.context.document = { title: documentLabel(documentType).toUpperCase(), ...loaded.context.document };
+  return loaded;
+};
+
+/** Placeholder data for previewing a template before any real document is picked. */
+export const samplePrintContext = (documentType: PrintDocumentType): PrintContext => {
+  const documentDate = new Date('2026-04-01T10:30:00+05:30');
+  const items = [
+    { index: 1, productName: 'Sample item A', sku: 'SKU-A', hsnCode: '1905', quantity: 2, unit: 'pcs', unitPrice: 100, discount: 0, taxable: 200, gstRate: '18%', gst: 36, cess: 0, total: 236, tax: 36, saleNumber: 'INV-0001', amount: 236, name: 'Court 1', location: 'Block A', accountCode: '1001', accountName: 'Cash', narration: 'Sample entry', debit: 236, credit: 0 },
+    { index: 2, productName: 'Sample item B', sku: 'SKU-B', hsnCode: '2202', quantity: 1, unit: 'pcs', unitPrice: 50, discount: 0, taxable: 50, gstRate: '5%', gst: 2.5, cess: 0, total: 52.5, tax: 2.5, saleNumber: 'INV-0002', amount: 52.5, name: 'Court 2', location: 'Block B', accountCode: '4001', accountName: 'Sales', narration: 'Sample entry', debit: 0, credit: 236 },
+  ];
+  return {
+    documentNumber: 'SAMPLE-0001',
+    documentDate,
+    context: {
+      business: { name: 'Your Business Name', legalName: 'Your Business Pvt Ltd', address: 'MG Road, Kochi, Kerala, 682016', gstin: '32ABCDE1234F1Z5', pan: 'ABCDE1234F', phone: '9876543210', email: 'billing@example.com' },
+      document: { title: documentLabel(documentType).toUpperCase(), number: 'SAMPLE-0001', date: documentDate },
+      party: { name: 'Sample Customer', phone: '9000000000', email: 'customer@example.com', gstin: '32AAAAA0000A1Z5', address: 'Kochi' },
+      notes: 'Sample notes',
+      sale: { saleNumber: 'S-0001', invoiceType: 'cash', paymentMethod: 'cash', placeOfSupply: '32 Kerala', placeOfSupplyCode: '32', changeDue: 0 },
+      receipt: { mode: 'upi', isAdvance: '', salesOrderId: '' },
+      creditNote: { reason: 'Damaged goods', status: 'open', invoiceNumber: 'INV-0001', returnNumber: 'RET-0001' },
+      booking: { description: 'Court 1', venue: 'Court 1', startTime: documentDate, endTime: new Date(documentDate.getTime() + 3600000), units: 1, status: 'confirmed', paymentStatus: 'partial', member: '' },
+      voucher: { type: 'receipt', mode: 'cash', reference: 'REF-1' },
+      einvoice: {},
+      totals: {
+        subtotal: 250, discount: 0, taxable: 250, cgst: 19.25, sgst: 19.25, igst: 0, cess: 0, gst: 38.5, tcs: 0, roundOff: 0.5, total: 289,
+        paid: 289, outstanding: 0, amount: 289, applied: 289, unapplied: 0, refunded: 0, tax: 38.5, balance: 0, advance: 100,
+        cancellationCharge: 0, refund: 0, debit: 236, credit: 236,
+      },
+      items,
+    },
+  };
+};
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { ITemplateField, ITemplateLayout, ITemplateTextLine, PrintPaperSize } from '../models/DocumentTemplate.js';
+import { fillPlaceholders } from './documentTemplates.js';
+
+// Widths in points; thermal rolls have no fixed height, so the page is cut to what was printed.
+const PAPER: Record<PrintPaperSize, { width: number; height?: number; margin: number; fontSize: number; qrSize: number }> = {
+  a4: { width: 595.28, height: 841.89, margin: 36, fontSize: 9, qrSize: 90 },
+  thermal80: { width: 226.77, margin: 8, fontSize: 8, qrSize: 110 },
+  thermal58: { width: 164.41, margin: 6, fontSize: 7, qrSize: 100 },
+};
+
+const LINE_SPACING = 1.3;
+const MEASURE_HEIGHT = 14400;
+
+interface RenderInput {
+  layout: ITemplateLayout;
+  paperSize: PrintPaperSize;
+  context: Record<string, any>;
+  qrCode?: string;
+  title: string;
+  documentDate: Date;
+  fileKey: string; // same key, same file id, so a reprint is byte-for-byte the same
+}
+
+const draw = (doc: jsPDF, input: RenderInput, qrImage: string | null): number => {
+  const paper = PAPER[input.paperSize];
+  const thermal = input.paperSize !== 'a4';
+  const baseSize = input.layout.fontSize || paper.fontSize;
+  const left = paper.margin;
+  const width = paper.width - paper.margin * 2;
+  const pageBottom = (paper.height || MEASURE_HEIGHT) - paper.margin;
+  let y = paper.margin;
+
+  const setFont = (size: number, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+  };
+  const lineHeight = (size: number) => size * LINE_SPACING;
+  const ensureSpace = (height: number) => {
+    if (paper.height && y + height > pageBottom) {
+      doc.addPage();
+      y = paper.margin;
+      return true;
+    }
+    return false;
+  };
+  const rule = () => {
+    doc.setLineWidth(0.5);
+    doc.line(left, y, left + width, y);
+    y += 4;
+  };
+  const textAt = (text: string, x: number, boxWidth: number, align: 'left' | 'center' | 'right' = 'left') => {
+    const anchor = align === 'right' ? x + boxWidth : align === 'center' ? x + boxWidth / 2 : x;
+    doc.text(text, anchor, y, { align, baseline: 'top' });
+  };
+
+  const drawLines = (lines: ITemplateTextLine[]) => {
+    for (const line of lines) {
+      const { text, empty } = fillPlaceholders(line.text, input.context);
+      if (empty || !text.trim()) continue;
+      const size = line.size || baseSize;
+      setFont(size, line.bold);
+      for (const part of doc.splitTextToSize(text, width) as string[]) {
+        ensureSpace(lineHeight(size));
+        textAt(part, left, width, line.align || 'left');
+        y += lineHeight(size);
+      }
+    }
+  };
+
+  // Label and value side by side; on thermal paper the label column is narrower.
+  const drawFields = (fields: ITemplateField[], areaWidth: number) => {
+    const labelWidth = thermal ? areaWidth * 0.38 : Math.min(110, areaWidth * 0.3);
+    for (const field of fields) {
+      const { text, empty } = fillPlaceholders(field.value, input.context);
+      if (field.hideIfEmpty && (empty || !text.trim())) continue;
+      setFont(baseSize, field.bold);
+      const parts = doc.splitTextToSize(text || '-', areaWidth - labelWidth) as string[];
+      ensureSpace(lineHeight(baseSize) * parts.length);
+      setFont(baseSize, true);
+      textAt(field.label, left, labelWidth);
+      setFont(baseSize, field.bold);
+      parts.forEach((part, index) => {
+        doc.text(part, left + labelWidth, y + index * lineHeight(baseSize), { baseline: 'top' });
+      });
+      y += lineHeight(baseSize) * parts.length;
+    }
+  };
+
+  const drawTable = () => {
+    const columns = input.layout.columns;
+    const items: any[] = Array.isArray(input.context.items) ? input.context.items : [];
+    if (!columns.length) return;
+    const totalWeight = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map((column) => (column.width / totalWeight) * width);
+    const padding = 2;
+
+    const drawRow = (cells: string[], bold: boolean, repeatHeader: boolean) => {
+      setFont(baseSize, bold);
+      const wrapped = cells.map((cell, index) => doc.splitTextToSize(cell, Math.max(4, widths[index] - padding * 2)) as string[]);
+      const height = Math.max(1, ...wrapped.map((parts) => parts.length)) * lineHeight(baseSize);
+      // A row that starts a new A4 page gets the column headings again above it.
+      if (ensureSpace(height + 2) && repeatHeader) {
+        drawHeader();
+        setFont(baseSize, bold);
+      }
+      let x = left;
+      wrapped.forEach((parts, index) => {
+        const align = columns[index].align || 'left';
+        parts.forEach((part, row) => {
+          const anchor = align === 'right' ? x + widths[index] - padding : align === 'center' ? x + widths[index] / 2 : x + padding;
+          doc.text(part, anchor, y + row * lineHeight(baseSize), { align, baseline: 'top' });
+        });
+        x += widths[index];
+      });
+      y += height + 2;
+    };
+    const drawHeader = () => {
+      drawRow(columns.map((column) => column.header), true, false);
+      rule();
+    };
+
+    drawHeader();
+    for (const item of items) {
+      drawRow(columns.map((column) => fillPlaceholders(column.value, { ...input.context, item }).text), false, true);
+    }
+    rule();
+  };
+
+  const drawTotals = () => {
+    const blockWidth = thermal ? width : Math.min(240, width);
+    const x = left + width - blockWidth;
+    for (const total of input.layout.totals) {
+      const { text, empty } = fillPlaceholders(total.value, input.context);
+      if (total.hideIfEmpty && (empty || !text.trim())) continue;
+      setFont(total.bold ? baseSize + 1 : baseSize, total.bold);
+      ensureSpace(lineHeight(baseSize + 1));
+      textAt(total.label, x, blockWidth * 0.55);
+      textAt(text, x + blockWidth * 0.55, blockWidth * 0.45, 'right');
+      y += lineHeight(total.bold ? baseSize + 1 : baseSize);
+    }
+  };
+
+  drawLines(input.layout.header);
+  y += 4;
+  rule();
+
+  const qrSize = paper.qrSize;
+  const qrBesideFields = Boolean(qrImage) && !thermal;
+  const fieldsTop = y;
+  drawFields(input.layout.fields, qrBesideFields ? width - qrSize - 10 : width);
+  if (qrBesideFields && qrImage) {
+    doc.addImage(qrImage, 'PNG', left + width - qrSize, fieldsTop, qrSize, qrSize);
+    y = Math.max(y, fieldsTop + qrSize + 4);
+  }
+  y += 4;
+  rule();
+  drawTable();
+  drawTotals();
+  y += 6;
+  drawLines(input.layout.footer);
+
+  if (qrImage && thermal) {
+    y += 4;
+    ensureSpace(qrSize);
+    doc.addImage(qrImage, 'PNG', left + (width - qrSize) / 2, y, qrSize, qrSize);
+    y += qrSize;
+  }
+
+  if (paper.height) {
+    const pages = doc.getNumberOfPages();
+    if (pages > 1) {
+      setFont(baseSize - 1);
+      for (let page = 1; page <= pages; page += 1) {
+        doc.setPage(page);
+        doc.text(`${input.title} - Page ${page} of ${pages}`, left + width, paper.height - paper.margin / 2, { align: 'right', baseline: 'bottom' });
+      }
+    }
+  }
+  return y + paper.margin;
+};
+
+const newDocument = (paperSize: PrintPaperSize, height?: number) => {
+  const paper = PAPER[paperSize];
+  return new jsPDF({ unit: 'pt', format: [paper.width, height || paper.height || MEASURE_HEIGHT], compress: true });
+};
+
+/**
+ * Renders a document to PDF. The creation date is the document's own date and the file id is derived from the
+ * document, template and version, so the same inputs always give the same bytes.
+ */
+export const renderDocumentPdf = async (input: RenderInput): Promise<Buffer> => {
+  const qrImage = input.layout.showQrCode && input.qrCode
+    ? await QRCode.toDataURL(input.qrCode, { margin: 0, errorCorrectionLevel: 'M', width: 360 })
+    : null;
+
+  let doc = newDocument(input.paperSize);
+  if (!PAPER[input.paperSize].height) {
+    // Lay the roll out once to find its length, then draw it for real on a page cut to fit.
+    const length = draw(doc, input, qrImage);
+    doc = newDocument(input.paperSize, Math.max(length, 120));
+  }
+  doc.setCreationDate(input.documentDate);
+  doc.setFileId(crypto.createHash('md5').update(input.fileKey).digest('hex').toUpperCase());
+  doc.setDocumentProperties({ title: input.title });
+  draw(doc, input, qrImage);
+  return Buffer.from(doc.output('arraybuffer'));
+};
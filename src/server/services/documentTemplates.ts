@@ -0,0 +1,520 @@
+import { PageKey } from '@shared/rbac';
+import {
+  DocumentTemplate,
+  IDocumentTemplate,
+  ITemplateColumn,
+  ITemplateField,
+  ITemplateLayout,
+  ITemplateTextLine,
+  PrintDocumentType,
+  PrintPaperSize,
+} from '../models/DocumentTemplate.js';
+import { zonedParts } from '../utils/businessTime.js';
+
+export const PRINT_DOCUMENT_TYPES: PrintDocumentType[] = ['invoice', 'receipt', 'credit_note', 'booking_receipt', 'voucher'];
+export const PRINT_PAPER_SIZES: PrintPaperSize[] = ['a4', 'thermal80', 'thermal58'];
+
+// Each document is guarded by the page its records live on, wherever it is printed or previewed from.
+export const DOCUMENT_PAGES: Record<PrintDocumentType, PageKey> = {
+  invoice: 'sales',
+  receipt: 'accounting',
+  credit_note: 'accounting',
+  booking_receipt: 'facilities',
+  voucher: 'accounting',
+};
+
+const DOCUMENT_LABELS: Record<PrintDocumentType, string> = {
+  invoice: 'Invoice',
+  receipt: 'Payment Receipt',
+  credit_note: 'Credit Note',
+  booking_receipt: 'Booking Receipt',
+  voucher: 'Voucher',
+};
+
+const PAPER_LABELS: Record<PrintPaperSize, string> = { a4: 'A4', thermal80: 'Thermal 80mm', thermal58: 'Thermal 58mm' };
+
+const COMMON_PLACEHOLDERS = [
+  'business.name',
+  'business.legalName',
+  'business.address',
+  'business.gstin',
+  'business.pan',
+  'business.phone',
+  'business.email',
+  'document.title',
+  'document.number',
+  'document.date',
+  'party.name',
+  'party.phone',
+  'party.email',
+  'party.gstin',
+  'party.address',
+  'notes',
+  'printedAt',
+  'copyLabel',
+];
+
+/** What each document type can print; columns resolve against a row as item.*. */
+export const TEMPLATE_PLACEHOLDERS: Record<PrintDocumentType, { fields: string[]; items: string[] }> = {
+  invoice: {
+    fields: [
+      ...COMMON_PLACEHOLDERS,
+      'sale.saleNumber',
+      'sale.invoiceType',
+      'sale.paymentMethod',
+      'sale.placeOfSupply',
+      'sale.placeOfSupplyCode',
+      'sale.salesOrderNumber',
+      'sale.changeDue',
+      'totals.subtotal',
+      'totals.discount',
+      'totals.taxable',
+      'totals.cgst',
+      'totals.sgst',
+      'totals.igst',
+      'totals.cess',
+      'totals.gst',
+      'totals.tcs',
+      'totals.roundOff',
+      'totals.total',
+      'totals.paid',
+      'totals.outstanding',
+      'einvoice.irn',
+      'einvoice.ackNo',
+      'einvoice.ackDate',
+    ],
+    items: [
+      'item.index',
+      'item.productName',
+      'item.sku',
+      'item.hsnCode',
+      'item.batchNo',
+      'item.quantity',
+      'item.unit',
+      'item.unitPrice',
+      'item.discount',
+      'item.taxable',
+      'item.gstRate',
+      'item.gst',
+      'item.cess',
+      'item.total',
+    ],
+  },
+  receipt: {
+    fields: [
+      ...COMMON_PLACEHOLDERS,
+      'receipt.mode',
+      'receipt.isAdvance',
+      'receipt.salesOrderId',
+      'totals.amount',
+      'totals.applied',
+      'totals.unapplied',
+      'totals.refunded',
+    ],
+    items: ['item.index', 'item.saleNumber', 'item.amount'],
+  },
+  credit_note: {
+    fields: [
+      ...COMMON_PLACEHOLDERS,
+      'creditNote.reason',
+      'creditNote.status',
+      'creditNote.invoiceNumber',
+      'creditNote.returnNumber',
+      'totals.subtotal',
+      'totals.tax',
+      'totals.total',
+      'totals.balance',
+    ],
+    items: ['item.index', 'item.productName', 'item.sku', 'item.quantity', 'item.unit', 'item.unitPrice', 'item.taxable', 'item.tax', 'item.total'],
+  },
+  booking_receipt: {
+    fields: [
+      ...COMMON_PLACEHOLDERS,
+      'booking.description',
+      'booking.venue',
+      'booking.startTime',
+      'booking.endTime',
+      'booking.units',
+      'booking.status',
+      'booking.paymentStatus',
+      'booking.member',
+      'totals.total',
+      'totals.advance',
+      'totals.paid',
+      'totals.balance',
+      'totals.cancellationCharge',
+      'totals.refund',
+    ],
+    items: ['item.index', 'item.name', 'item.location'],
+  },
+  voucher: {
+    fields: [
+      ...COMMON_PLACEHOLDERS,
+      'voucher.type',
+      'voucher.mode',
+      'voucher.reference',
+      'totals.debit',
+      'totals.credit',
+      'totals.total',
+    ],
+    items: ['item.index', 'item.accountCode', 'item.accountName', 'item.narration', 'item.debit', 'item.credit'],
+  },
+};
+
+const FORMATTERS = ['currency', 'amount', 'number', 'date', 'datetime', 'upper', 'words'];
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_.]+)\s*(?:\|\s*([a-z]+)\s*)?\}\}/g;
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve', 'Thirteen',
+  'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowThousand = (value: number): string => {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const restWords = rest < 20 ? ONES[rest] : `${TENS[Math.floor(rest / 10)]}${rest % 10 ? ` ${ONES[rest % 10]}` : ''}`;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', restWords].filter(Boolean).join(' ');
+};
+
+// Indian grouping: crore, lakh, thousand.
+const integerInWords = (value: number): string => {
+  if (value === 0) return 'Zero';
+  const parts: string[] = [];
+  const crore = Math.floor(value / 10000000);
+  const lakh = Math.floor((value % 10000000) / 100000);
+  const thousand = Math.floor((value % 100000) / 1000);
+  const rest = value % 1000;
+  if (crore) parts.push(`${integerInWords(crore)} Crore`);
+  if (lakh) parts.push(`${belowThousand(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowThousand(thousand)} Thousand`);
+  if (rest) parts.push(belowThousand(rest));
+  return parts.join(' ');
+};
+
+export const amountInWords = (value: number): string => {
+  const rupees = Math.floor(Math.abs(value));
+  const paise = Math.round((Math.abs(value) - rupees) * 100);
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${integerInWords(paise)} Paise` : ''} Only`;
+};
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+const formatValue = (raw: any, formatter?: string): string => {
+  if (raw === undefined || raw === null) return '';
+  if (formatter === 'currency' || formatter === 'amount') {
+    const amount = Number(raw || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return formatter === 'currency' ? `Rs. ${amount}` : amount;
+  }
+  if (formatter === 'number') return Number(raw || 0).toLocaleString('en-IN', { maximumFractionDigits: 3 });
+  if (formatter === 'date' || formatter === 'datetime') {
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) return '';
+    // The business's zone whatever the server's, so every terminal prints the same text.
+    const p = zonedParts(date);
+    const day = `${pad2(p.day)}-${pad2(p.month)}-${p.year}`;
+    return formatter === 'date' ? day : `${day} ${pad2(p.hour)}:${pad2(p.minute)}`;
+  }
+  if (formatter === 'upper') return String(raw).replace(/_/g, ' ').toUpperCase();
+  if (formatter === 'words') return amountInWords(Number(raw || 0));
+  return String(raw);
+};
+
+const lookup = (context: Record<string, any>, path: string) =>
+  path.split('.').reduce((value: any, key) => (value === undefined || value === null ? undefined : value[key]), context);
+
+/**
+ * Fills {{path}} and {{path|formatter}} from the context. `empty` is true when the text has placeholders and every
+ * one of them came out blank or zero, which is how optional lines and totals are dropped.
+ */
+export const fillPlaceholders = (text: string, context: Record<string, any>): { text: string; empty: boolean } => {
+  let placeholders = 0;
+  let filled = 0;
+  const result = String(text || '').replace(PLACEHOLDER, (_match, path: string, formatter?: string) => {
+    placeholders += 1;
+    const raw = lookup(context, path);
+    const blank = raw === undefined || raw === null || raw === '' || (typeof raw === 'number' && raw === 0);
+    if (!blank) filled += 1;
+    return formatValue(raw, formatter);
+  });
+  return { text: result, empty: placeholders > 0 && filled === 0 };
+};
+
+const textLine = (text: string, options: Partial<ITemplateTextLine> = {}): ITemplateTextLine => ({ text, align: 'left', bold: false, ...options });
+const field = (label: string, value: string, options: Partial<ITemplateField> = {}): ITemplateField => ({
+  label,
+  value,
+  hideIfEmpty: false,
+  bold: false,
+  ...options,
+});
+const column = (header: string, value: string, width: number, align: ITemplateColumn['align'] = 'left'): ITemplateColumn => ({
+  header,
+  value,
+  width,
+  align,
+});
+
+const businessHeader = (thermal: boolean): ITemplateTextLine[] => [
+  textLine('{{business.name}}', { align: 'center', bold: true, size: thermal ? 11 : 15 }),
+  textLine('{{business.address}}', { align: 'center' }),
+  textLine('Ph: {{business.phone}}', { align: 'center' }),
+  textLine('GSTIN: {{business.gstin}}', { align: 'center' }),
+  textLine('{{document.title}}', { align: 'center', bold: true, size: thermal ? 10 : 12 }),
+  textLine('{{copyLabel}}', { align: 'center' }),
+];
+
+const partyFields = (label: string) => [
+  field(label, '{{party.name}}', { hideIfEmpty: true }),
+  field('Phone', '{{party.phone}}', { hideIfEmpty: true }),
+  field('GSTIN', '{{party.gstin}}', { hideIfEmpty: true }),
+];
+
+/** The built-in layout for a document type and paper, used to seed the template store. */
+export const defaultTemplateLayout = (documentType: PrintDocumentType, paperSize: PrintPaperSize): ITemplateLayout => {
+  const thermal = paperSize !== 'a4';
+  const header = businessHeader(thermal);
+  const notes = textLine('{{notes}}');
+
+  switch (documentType) {
+    case 'invoice':
+      return {
+        header,
+        fields: [
+          field('Invoice No', '{{document.number}}', { bold: true }),
+          field('Date', '{{document.date|datetime}}'),
+          ...partyFields('Customer'),
+          field('Place of Supply', '{{sale.placeOfSupply}}', { hideIfEmpty: true }),
+          field('Payment', '{{sale.paymentMethod|upper}}'),
+          field('IRN', '{{einvoice.irn}}', { hideIfEmpty: true }),
+          field('Ack No', '{{einvoice.ackNo}}', { hideIfEmpty: true }),
+        ],
+        columns: thermal
+          ? [
+              column('Item', '{{item.productName}}', 5),
+              column('Qty', '{{item.quantity|number}}', 2, 'right'),
+              column('Amount', '{{item.total|amount}}', 3, 'right'),
+            ]
+          : [
+              column('#', '{{item.index}}', 1),
+              column('Item', '{{item.productName}}', 7),
+              column('HSN', '{{item.hsnCode}}', 2),
+              column('Qty', '{{item.quantity|number}} {{item.unit}}', 2, 'right'),
+              column('Rate', '{{item.unitPrice|amount}}', 2, 'right'),
+              column('Taxable', '{{item.taxable|amount}}', 2.5, 'right'),
+              column('GST %', '{{item.gstRate}}', 1.5, 'right'),
+              column('GST', '{{item.gst|amount}}', 2, 'right'),
+              column('Amount', '{{item.total|amount}}', 2.5, 'right'),
+            ],
+        totals: [
+          field('Subtotal', '{{totals.subtotal|currency}}'),
+          field('Discount', '{{totals.discount|currency}}', { hideIfEmpty: true }),
+          field('CGST', '{{totals.cgst|currency}}', { hideIfEmpty: true }),
+          field('SGST', '{{totals.sgst|currency}}', { hideIfEmpty: true }),
+          field('IGST', '{{totals.igst|currency}}', { hideIfEmpty: true }),
+          field('Cess', '{{totals.cess|currency}}', { hideIfEmpty: true }),
+          field('TCS', '{{totals.tcs|currency}}', { hideIfEmpty: true }),
+          field('Round Off', '{{totals.roundOff|amount}}', { hideIfEmpty: true }),
+          field('Grand Total', '{{totals.total|currency}}', { bold: true }),
+        ],
+        footer: [
+          textLine('{{totals.total|words}}'),
+          notes,
+          textLine('Thank you for your business.', { align: 'center' }),
+        ],
+        showQrCode: true,
+      };
+    case 'receipt':
+      return {
+        header,
+        fields: [
+          field('Receipt No', '{{document.number}}', { bold: true }),
+          field('Date', '{{document.date|date}}'),
+          field('Received From', '{{party.name}}'),
+          field('Mode', '{{receipt.mode|upper}}'),
+        ],
+        columns: [column('Against', '{{item.saleNumber}}', 3), column('Amount', '{{item.amount|amount}}', 2, 'right')],
+        totals: [
+          field('Amount Received', '{{totals.amount|currency}}', { bold: true }),
+          field('Unapplied', '{{totals.unapplied|currency}}', { hideIfEmpty: true }),
+          field('Refunded', '{{totals.refunded|currency}}', { hideIfEmpty: true }),
+        ],
+        footer: [textLine('{{totals.amount|words}}'), notes, textLine(thermal ? '' : 'Authorised Signatory', { align: 'right' })],
+        showQrCode: false,
+      };
+    case 'credit_note':
+      return {
+        header,
+        fields: [
+          field('Credit Note No', '{{document.number}}', { bold: true }),
+          field('Date', '{{document.date|date}}'),
+          ...partyFields('Customer'),
+          field('Against Invoice', '{{creditNote.invoiceNumber}}', { hideIfEmpty: true }),
+          field('Reason', '{{creditNote.reason}}'),
+        ],
+        columns: thermal
+          ? [column('Item', '{{item.productName}}', 5), column('Qty', '{{item.quantity|number}}', 2, 'right'), column('Amount', '{{item.total|amount}}', 3, 'right')]
+          : [
+              column('#', '{{item.index}}', 1),
+              column('Item', '{{item.productName}}', 7),
+              column('Qty', '{{item.quantity|number}} {{item.unit}}', 2, 'right'),
+              column('Rate', '{{item.unitPrice|amount}}', 2, 'right'),
+              column('Taxable', '{{item.taxable|amount}}', 2.5, 'right'),
+              column('Tax', '{{item.tax|amount}}', 2, 'right'),
+              column('Amount', '{{item.total|amount}}', 2.5, 'right'),
+            ],
+        totals: [
+          field('Subtotal', '{{totals.subtotal|currency}}'),
+          field('Tax', '{{totals.tax|currency}}', { hideIfEmpty: true }),
+          field('Total Credit', '{{totals.total|currency}}', { bold: true }),
+          field('Balance', '{{totals.balance|currency}}', { hideIfEmpty: true }),
+        ],
+        footer: [textLine('{{totals.total|words}}'), notes],
+        showQrCode: false,
+      };
+    case 'booking_receipt':
+      return {
+        header,
+        fields: [
+          field('Receipt No', '{{document.number}}', { bold: true }),
+          field('Date', '{{document.date|date}}'),
+          field('Booked By', '{{party.name}}'),
+          field('Phone', '{{party.phone}}', { hideIfEmpty: true }),
+          field('Booking', '{{booking.description}}'),
+          field('From', '{{booking.startTime|datetime}}'),
+          field('To', '{{booking.endTime|datetime}}'),
+          field('Member', '{{booking.member}}', { hideIfEmpty: true }),
+          field('Status', '{{booking.status|upper}} / {{booking.paymentStatus|upper}}'),
+        ],
+        columns: [column('Facility', '{{item.name}}', 3), column('Location', '{{item.location}}', 2)],
+        totals: [
+          field('Total', '{{totals.total|currency}}', { bold: true }),
+          field('Advance', '{{totals.advance|currency}}', { hideIfEmpty: true }),
+          field('Paid', '{{totals.paid|currency}}'),
+          field('Balance', '{{totals.balance|currency}}'),
+          field('Cancellation Charge', '{{totals.cancellationCharge|currency}}', { hideIfEmpty: true }),
+          field('Refund', '{{totals.refund|currency}}', { hideIfEmpty: true }),
+        ],
+        footer: [notes, textLine('Please carry this receipt at check-in.', { align: 'center' })],
+        showQrCode: false,
+      };
+    case 'voucher':
+    default:
+      return {
+        header,
+        fields: [
+          field('Voucher No', '{{document.number}}', { bold: true }),
+          field('Type', '{{voucher.type|upper}}'),
+          field('Date', '{{document.date|date}}'),
+          field('Mode', '{{voucher.mode|upper}}', { hideIfEmpty: true }),
+          field('Reference', '{{voucher.reference}}', { hideIfEmpty: true }),
+          field('Party', '{{party.name}}', { hideIfEmpty: true }),
+        ],
+        columns: thermal
+          ? [column('Account', '{{item.accountName}}', 4), column('Dr', '{{item.debit|amount}}', 2, 'right'), column('Cr', '{{item.credit|amount}}', 2, 'right')]
+          : [
+              column('Account', '{{item.accountName}}', 5),
+              column('Narration', '{{item.narration}}', 5),
+              column('Debit', '{{item.debit|amount}}', 2, 'right'),
+              column('Credit', '{{item.credit|amount}}', 2, 'right'),
+            ],
+        totals: [field('Total', '{{totals.total|currency}}', { bold: true })],
+        footer: [
+          textLine('{{totals.total|words}}'),
+          notes,
+          textLine(thermal ? '' : 'Prepared by                    Checked by                    Authorised by'),
+        ],
+        showQrCode: false,
+      };
+  }
+};
+
+const cleanAlign = (value: any): 'left' | 'center' | 'right' =>
+  value === 'center' || value === 'right' ? value : 'left';
+
+/**
+ * Validates a layout from the designer. Placeholders have to be ones the document type provides, and item.*
+ * only inside table columns, so a typo is caught when the template is saved rather than printed blank.
+ */
+export const normalizeTemplateLayout = (documentType: PrintDocumentType, input: any): ITemplateLayout => {
+  if (!input || typeof input !== 'object') throw new Error('layout is required');
+  const known = TEMPLATE_PLACEHOLDERS[documentType];
+  const check = (text: string, where: string, allowItems: boolean) => {
+    for (const [, path, formatter] of String(text || '').matchAll(PLACEHOLDER)) {
+      const allowed = known.fields.includes(path) || (allowItems && known.items.includes(path));
+      if (!allowed) throw new Error(`Unknown placeholder {{${path}}} in ${where}`);
+      if (formatter && !FORMATTERS.includes(formatter)) throw new Error(`Unknown format "${formatter}" in ${where}`);
+    }
+    return String(text || '');
+  };
+  const lines = (rows: any, where: string): ITemplateTextLine[] =>
+    (Array.isArray(rows) ? rows : []).slice(0, 30).map((row: any) => ({
+      text: check(row?.text, where, false),
+      align: cleanAlign(row?.align),
+      size: row?.size ? Math.min(24, Math.max(5, Number(row.size) || 0)) : undefined,
+      bold: Boolean(row?.bold),
+    }));
+  const fields = (rows: any, where: string): ITemplateField[] =>
+    (Array.isArray(rows) ? rows : []).slice(0, 30).map((row: any) => ({
+      label: String(row?.label || ''),
+      value: check(row?.value, `${where} "${row?.label || ''}"`, false),
+      hideIfEmpty: Boolean(row?.hideIfEmpty),
+      bold: Boolean(row?.bold),
+    }));
+  const columns: ITemplateColumn[] = (Array.isArray(input.columns) ? input.columns : []).slice(0, 12).map((row: any) => {
+    const width = Number(row?.width || 1);
+    if (!Number.isFinite(width) || width <= 0) throw new Error(`Column "${row?.header || ''}" needs a positive width`);
+    return {
+      header: String(row?.header || ''),
+      value: check(row?.value, `column "${row?.header || ''}"`, true),
+      width,
+      align: cleanAlign(row?.align),
+    };
+  });
+
+  return {
+    header: lines(input.header, 'header'),
+    fields: fields(input.fields, 'field'),
+    columns,
+    totals: fields(input.totals, 'total'),
+    footer: lines(input.footer, 'footer'),
+    showQrCode: Boolean(input.showQrCode),
+    fontSize: input.fontSize ? Math.min(14, Math.max(5, Number(input.fontSize) || 0)) : undefined,
+  };
+};
+
+export const templateName = (documentType: PrintDocumentType, paperSize: PrintPaperSize) =>
+  `${DOCUMENT_LABELS[documentType]} (${PAPER_LABELS[paperSize]})`;
+
+/** Seeds a built-in default for every document type and paper that has no template yet. */
+export const ensureDefaultTemplates = async () => {
+  const existing = await DocumentTemplate.find().select('documentType paperSize');
+  const seen = new Set(existing.map((row) => `${row.documentType}|${row.paperSize}`));
+  for (const documentType of PRINT_DOCUMENT_TYPES) {
+    for (const paperSize of PRINT_PAPER_SIZES) {
+      if (seen.has(`${documentType}|${paperSize}`)) continue;
+      await DocumentTemplate.create({
+        name: templateName(documentType, paperSize),
+        documentType,
+        paperSize,
+        isDefault: true,
+        isBuiltIn: true,
+        currentVersion: 1,
+        versions: [{ version: 1, layout: defaultTemplateLayout(documentType, paperSize), note: 'Built-in', createdAt: new Date() }],
+      });
+    }
+  }
+};
+
+export const templateVersion = (template: IDocumentTemplate, version?: number) =>
+  template.versions.find((row) => row.version === (version || template.currentVersion));
+
+/** The default active template for a document type and paper. */
+export const findDefaultTemplate = async (documentType: PrintDocumentType, paperSize: PrintPaperSize) => {
+  await ensureDefaultTemplates();
+  return (
+    (await DocumentTemplate.findOne({ documentType, paperSize, isDefault: true, isActive: true })) ||
+    (await DocumentTemplate.findOne({ documentType, paperSize, isActive: true }).sort({ createdAt: 1 }))
+  );
+};
+
+export const documentLabel = (documentType: PrintDocumentType) => DOCUMENT_LABELS[documentType];
@@ -0,0 +1,341 @@
+import { createHash, randomInt } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User } from '../models/User.js';
+import { ISale, ISaleEInvoice } from '../models/Sale.js';
+import { getStateCodeFromGSTIN, validateGSTIN, validateHSNCode } from '../utils/gst.js';
+import { toPortalDate, uqcOf } from './ewayBill.js';
+import { withStoredBusiness } from './appSettings.js';
+
+// Schema version of the e-invoice JSON accepted by the IRP and the offline utility.
+const EINVOICE_SCHEMA_VERSION = '1.1';
+
+// The IRP accepts a difference of up to one rupee between the invoice total and the sum of its parts.
+const TOTAL_TOLERANCE = 1;
+
+const MOCK_IRP_SECRET = process.env.EINVOICE_MOCK_SECRET || 'spark7-mock-irp';
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+const round3 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 1000) / 1000;
+
+export const isMockIrpEnabled = (): boolean => String(process.env.EINVOICE_MOCK_IRP || '').toLowerCase() === 'true';
+
+export interface EInvoiceParty {
+  gstin: string;
+  legalName: string;
+  tradeName?: string;
+  address1: string;
+  address2?: string;
+  location: string;
+  pincode: string;
+  stateCode: string;
+  phone?: string;
+  email?: string;
+}
+
+/** Seller details come from the request, then the stored business settings, then the user's profile. */
+export const resolveEInvoiceSeller = async (input: any, userId?: string): Promise<EInvoiceParty> => {
+  const seller: Record<string, any> = await withStoredBusiness(input);
+  const user = userId ? await User.findById(userId).select('businessName gstin address phoneNumber email') : null;
+  const gstin = String(seller.gstin || user?.gstin || '').trim().toUpperCase();
+  return {
+    gstin,
+    legalName: String(seller.legalName || seller.tradeName || user?.businessName || '').trim(),
+    tradeName: String(seller.tradeName || '').trim() || undefined,
+    address1: String(seller.addressLine1 || user?.address?.street || '').trim(),
+    address2: String(seller.addressLine2 || '').trim() || undefined,
+    location: String(seller.city || user?.address?.city || '').trim(),
+    pincode: String(seller.pincode || user?.address?.zipCode || '').trim(),
+    stateCode: getStateCodeFromGSTIN(gstin) || '',
+    phone: String(seller.phone || user?.phoneNumber || '').replace(/\D/g, '') || undefined,
+    email: String(seller.email || user?.email || '').trim() || undefined,
+  };
+};
+
+/**
+ * The buyer is the invoice's GSTIN holder. Customers keep a free-text address, so the pincode and place are
+ * taken from the request when given, else read out of the address.
+ */
+export const resolveEInvoiceBuyer = (sale: ISale, customer: any, input: any = {}): EInvoiceParty => {
+  const gstin = String(sale.customerGstin || customer?.gstin || '').trim().toUpperCase();
+  const address = String(input?.address || customer?.address || '').trim();
+  return {
+    gstin,
+    legalName: String(input?.legalName || customer?.name || sale.customerName || '').trim(),
+    address1: address,
+    location: String(input?.place || '').trim() || address.split(',').map((part) => part.trim()).filter(Boolean).pop() || '',
+    pincode: String(input?.pincode || address.match(/\b[1-9][0-9]{5}\b/)?.[0] || '').trim(),
+    stateCode: getStateCodeFromGSTIN(gstin) || '',
+    phone: String(customer?.phone || sale.customerPhone || '').replace(/\D/g, '') || undefined,
+    email: String(customer?.email || sale.customerEmail || '').trim() || undefined,
+  };
+};
+
+const partyBlock = (party: EInvoiceParty) => ({
+  Gstin: party.gstin,
+  LglNm: party.legalName.slice(0, 100),
+  TrdNm: party.tradeName?.slice(0, 100),
+  Addr1: party.address1.slice(0, 100),
+  Addr2: party.address2?.slice(0, 100),
+  Loc: party.location.slice(0, 50),
+  Pin: Number(party.pincode || 0),
+  Stcd: party.stateCode,
+  Ph: party.phone && party.phone.length >= 6 ? party.phone.slice(-12) : undefined,
+  Em: party.email,
+});
+
+/**
+ * Builds the e-invoice JSON for a posted B2B invoice, with the problems the IRP would reject it for. Lines
+ * keep the tax split the invoice was posted with; an invoice-level discount and round-off go in the totals.
+ */
+export const buildEInvoicePayload = (input: {
+  sale: ISale;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+}): { payload: any; errors: string[] } => {
+  const { sale, seller, buyer } = input;
+  const errors: string[] = [];
+  const docNo = String(sale.invoiceNumber || sale.saleNumber || '');
+
+  if (sale.isGstBill === false) errors.push('Only GST invoices can be reported as e-invoices');
+  if (!docNo || docNo.length > 16) errors.push('Invoice number must be 1 to 16 characters');
+  if (!validateGSTIN(seller.gstin)) errors.push('Business GSTIN is missing or invalid');
+  if (!/^[1-9][0-9]{5}$/.test(seller.pincode)) errors.push('Business pincode is missing or invalid');
+  if (!seller.address1 || !seller.location) errors.push('Business address and city are required');
+  if (!buyer.gstin) errors.push('Customer GSTIN is required for a B2B e-invoice');
+  else if (!validateGSTIN(buyer.gstin)) errors.push(`Customer GSTIN ${buyer.gstin} is invalid`);
+  else if (buyer.gstin === seller.gstin) errors.push('Customer GSTIN is the same as the business GSTIN');
+  if (!/^[1-9][0-9]{5}$/.test(buyer.pincode)) errors.push('Customer pincode is missing or invalid');
+  if (!buyer.address1 || !buyer.location) errors.push('Customer address and place are required');
+
+  const itemList = sale.items.map((item, index) => {
+    const quantity = Number(item.quantity || 0);
+    const assessable = round2(Number(item.taxableValue ?? Number(item.unitPrice || 0) * quantity));
+    const gross = sale.taxMode === 'inclusive'
+      ? round2(assessable + Number(item.promotionDiscount || 0))
+      : round2(Math.max(Number(item.unitPrice || 0) * quantity, assessable));
+    const igst = round2(Number(item.igstAmount || 0));
+    const cgst = round2(Number(item.cgstAmount || 0));
+    const sgst = round2(Number(item.sgstAmount || 0));
+    const cess = round2(Number(item.cessAmount || 0));
+    const cessNonAdvl = Math.min(cess, round2(Number(item.cessPerUnit || 0) * Number(item.baseQuantity ?? quantity)));
+    const hsnCode = String(item.hsnCode || '').trim();
+
+    if (item.taxType === 'vat') errors.push(`${item.productName} is billed under VAT and cannot be e-invoiced`);
+    if (item.supplyType === 'non_gst') errors.push(`${item.productName} is a non-GST supply and cannot be e-invoiced`);
+    if (!validateHSNCode(hsnCode)) errors.push(`HSN code missing or invalid for ${item.productName || 'an item'}`);
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: String(item.productName || '').slice(0, 300),
+      IsServc: hsnCode.startsWith('99') ? 'Y' : 'N',
+      HsnCd: hsnCode,
+      Qty: round3(quantity),
+      Unit: uqcOf(item.unit),
+      UnitPrice: round3(quantity ? gross / quantity : 0),
+      TotAmt: gross,
+      Discount: round2(gross - assessable),
+      AssAmt: assessable,
+      GstRt: Number(item.gstRate || 0),
+      IgstAmt: igst,
+      CgstAmt: cgst,
+      SgstAmt: sgst,
+      CesRt: Number(item.cessRate || 0),
+      CesAmt: round2(cess - cessNonAdvl),
+      CesNonAdvlAmt: cessNonAdvl,
+      StateCesRt: 0,
+      StateCesAmt: 0,
+      StateCesNonAdvlAmt: 0,
+      OthChrg: 0,
+      TotItemVal: round2(assessable + igst + cgst + sgst + cess),
+    };
+  });
+
+  const sum = (key: 'AssAmt' | 'CgstAmt' | 'SgstAmt' | 'IgstAmt' | 'CesAmt' | 'CesNonAdvlAmt' | 'TotItemVal') =>
+    round2(itemList.reduce((total, row) => total + row[key], 0));
+  const itemsTotal = sum('TotItemVal');
+  const roundOff = round2(Number(sale.roundOffAmount || 0));
+  // TCS is collected over the invoice value, so it goes in as another charge rather than on any line.
+  const tcs = round2(Number(sale.tcsAmount || 0));
+  const invoiceDiscount = round2(Math.max(0, itemsTotal + tcs - Number(sale.grossTotal || sale.totalAmount - roundOff)));
+  const totalValue = round2(sale.totalAmount);
+  if (Math.abs(itemsTotal + tcs - invoiceDiscount + roundOff - totalValue) > TOTAL_TOLERANCE) {
+    errors.push(`Line totals (${itemsTotal}) do not add up to the invoice value (${totalValue})`);
+  }
+
+  // Tax type has to follow the place of supply, or the IRP rejects the invoice.
+  const placeOfSupply = String(sale.placeOfSupplyCode || buyer.stateCode || '');
+  const interstate = sum('IgstAmt') > 0;
+  if (seller.stateCode && placeOfSupply && (seller.stateCode !== placeOfSupply) !== interstate && sum('AssAmt') > 0) {
+    errors.push(`Place of supply ${placeOfSupply} does not match the ${interstate ? 'IGST' : 'CGST/SGST'} charged`);
+  }
+
+  const payload = {
+    Version: EINVOICE_SCHEMA_VERSION,
+    TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+    DocDtls: { Typ: 'INV', No: docNo, Dt: toPortalDate(sale.postedAt || sale.createdAt) },
+    SellerDtls: partyBlock(seller),
+    BuyerDtls: { ...partyBlock(buyer), Pos: placeOfSupply },
+    ItemList: itemList,
+    ValDtls: {
+      AssVal: sum('AssAmt'),
+      CgstVal: sum('CgstAmt'),
+      SgstVal: sum('SgstAmt'),
+      IgstVal: sum('IgstAmt'),
+      CesVal: round2(sum('CesAmt') + sum('CesNonAdvlAmt')),
+      StCesVal: 0,
+      Discount: invoiceDiscount,
+      OthChrg: tcs,
+      RndOffAmt: roundOff,
+      TotInvVal: totalValue,
+    },
+  };
+
+  return { payload, errors };
+};
+
+// The IRP dates acknowledgements in IST as "YYYY-MM-DD HH:mm:ss".
+const parseIrpDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  const text = String(value).trim();
+  const date = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(text) ? new Date(`${text.replace(' ', 'T')}+05:30`) : new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const toIrpDate = (date: Date): string => {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000).toISOString();
+  return `${ist.slice(0, 10)} ${ist.slice(11, 19)}`;
+};
+
+const decodeSignedData = (token: string): any => {
+  const decoded: any = jwt.decode(token);
+  if (!decoded) return null;
+  if (typeof decoded.data === 'string') {
+    try {
+      return JSON.parse(decoded.data);
+    } catch {
+      return null;
+    }
+  }
+  return decoded.data || decoded;
+};
+
+// Response files come straight from the IRP, wrapped by a GSP as { Data } or { data }, or as a bulk list.
+const unwrapIrpResponse = (raw: any): any[] => {
+  if (Array.isArray(raw)) return raw.flatMap(unwrapIrpResponse);
+  if (!raw || typeof raw !== 'object') return [];
+  if (raw.Irn || raw.irn) return [raw];
+  for (const key of ['Data', 'data', 'result', 'Result']) {
+    const inner = raw[key];
+    if (typeof inner === 'string') {
+      try {
+        return unwrapIrpResponse(JSON.parse(inner));
+      } catch {
+        continue;
+      }
+    }
+    if (inner) return unwrapIrpResponse(inner);
+  }
+  return [];
+};
+
+/**
+ * Reads an IRP response for one invoice and checks that the signed QR was issued for it: same IRN, seller,
+ * buyer, invoice number and value. With EINVOICE_IRP_PUBLIC_KEY set, the QR signature is verified as well.
+ */
+export const parseIrpResponse = (
+  raw: any,
+  expected: { docNo: string; sellerGstin: string; buyerGstin: string; totalValue: number; source?: 'file' | 'mock' }
+): { eInvoice?: Omit<ISaleEInvoice, 'importedAt' | 'importedBy'>; errors: string[] } => {
+  const candidates = unwrapIrpResponse(raw).map((row) => {
+    const signedQrCode = String(row.SignedQRCode || row.signedQRCode || row.SignedQrCode || '').trim();
+    return { row, signedQrCode, qr: signedQrCode ? decodeSignedData(signedQrCode) : null };
+  });
+  if (!candidates.length) return { errors: ['No IRN found in the response file'] };
+
+  const match = candidates.find((row) => String(row.qr?.DocNo || '') === expected.docNo) || (candidates.length === 1 ? candidates[0] : null);
+  if (!match) return { errors: [`The response file has no IRN for invoice ${expected.docNo}`] };
+
+  const { row, signedQrCode, qr } = match;
+  const irn = String(row.Irn || row.irn || '').trim().toLowerCase();
+  const ackNo = String(row.AckNo ?? row.ackNo ?? '').trim();
+  const errors: string[] = [];
+  if (!/^[0-9a-f]{64}$/.test(irn)) errors.push('IRN must be 64 hexadecimal characters');
+  if (!/^[0-9]{10,20}$/.test(ackNo)) errors.push('Acknowledgement number is missing or invalid');
+  if (!signedQrCode || !qr) {
+    errors.push('Signed QR code is missing or unreadable');
+    return { errors };
+  }
+
+  if (String(qr.Irn || '').toLowerCase() !== irn) errors.push('Signed QR code was issued for a different IRN');
+  if (String(qr.DocNo || '') !== expected.docNo) errors.push(`Signed QR code is for invoice ${qr.DocNo}, not ${expected.docNo}`);
+  if (String(qr.SellerGstin || '').toUpperCase() !== expected.sellerGstin) errors.push('Seller GSTIN in the QR code does not match');
+  if (String(qr.BuyerGstin || '').toUpperCase() !== expected.buyerGstin) errors.push('Buyer GSTIN in the QR code does not match');
+  if (Math.abs(Number(qr.TotInvVal || 0) - expected.totalValue) > TOTAL_TOLERANCE) {
+    errors.push(`Invoice value in the QR code (${qr.TotInvVal}) does not match ${expected.totalValue}`);
+  }
+
+  const verifyKey = expected.source === 'mock' ? MOCK_IRP_SECRET : process.env.EINVOICE_IRP_PUBLIC_KEY;
+  if (verifyKey) {
+    try {
+      jwt.verify(signedQrCode, verifyKey, { algorithms: expected.source === 'mock' ? ['HS256'] : ['RS256'] });
+    } catch {
+      errors.push('Signed QR code signature could not be verified');
+    }
+  }
+  if (errors.length) return { errors };
+
+  return {
+    eInvoice: {
+      irn,
+      ackNo,
+      ackDate: parseIrpDate(row.AckDt || row.ackDt) || parseIrpDate(qr.IrnDt),
+      signedQrCode,
+      signedInvoice: String(row.SignedInvoice || row.signedInvoice || '').trim() || undefined,
+      ewbNo: row.EwbNo ? String(row.EwbNo) : undefined,
+      ewbDate: parseIrpDate(row.EwbDt),
+      source: expected.source || 'file',
+    },
+    errors,
+  };
+};
+
+// Financial year as the IRP writes it into the IRN hash, e.g. 2026-27.
+const financialYearOf = (date: Date): string => {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Local stand-in for the IRP: answers an e-invoice payload the way the portal does, with the QR and invoice
+ * signed by a local secret instead of the NIC key. Only for trials and tests; the IRN is not registered anywhere.
+ */
+export const mockIrpRegister = (payload: any, at = new Date()) => {
+  const docDate = String(payload.DocDtls.Dt).split('/').reverse().join('-');
+  const irn = createHash('sha256')
+    .update(`${payload.SellerDtls.Gstin}${financialYearOf(new Date(docDate))}${payload.DocDtls.Typ}${payload.DocDtls.No}`)
+    .digest('hex');
+  const ackDate = toIrpDate(at);
+  const ackNo = `${at.getFullYear() % 100}${String(randomInt(0, 10 ** 12)).padStart(13, '0')}`;
+  const qrData = {
+    SellerGstin: payload.SellerDtls.Gstin,
+    BuyerGstin: payload.BuyerDtls.Gstin,
+    DocNo: payload.DocDtls.No,
+    DocTyp: payload.DocDtls.Typ,
+    DocDt: payload.DocDtls.Dt,
+    TotInvVal: payload.ValDtls.TotInvVal,
+    ItemCnt: payload.ItemList.length,
+    MainHsnCode: payload.ItemList[0]?.HsnCd,
+    Irn: irn,
+    IrnDt: ackDate,
+  };
+  return {
+    AckNo: Number(ackNo),
+    AckDt: ackDate,
+    Irn: irn,
+    SignedInvoice: jwt.sign({ data: JSON.stringify({ ...payload, Irn: irn, AckNo: Number(ackNo), AckDt: ackDate }), iss: 'MOCK-IRP' }, MOCK_IRP_SECRET),
+    SignedQRCode: jwt.sign({ data: JSON.stringify(qrData), iss: 'MOCK-IRP' }, MOCK_IRP_SECRET),
+    Status: 'ACT',
+    EwbNo: null,
+    EwbDt: null,
+    EwbValidTill: null,
+  };
+};
@@ -0,0 +1,261 @@
+import { User } from '../models/User.js';
+import { calculateGSTComponents, validateGSTIN, validateHSNCode } from '../utils/gst.js';
+import { withStoredBusiness } from './appSettings.js';
+
+// Movements of goods above this consignment value need an e-way bill (Rule 138, CGST Rules).
+export const EWAY_BILL_THRESHOLD = Number(process.env.EWAY_BILL_THRESHOLD || 50000);
+
+// Layout version of the portal's bulk-upload JSON.
+const EWAY_JSON_VERSION = '1.0.0621';
+
+const TRANSPORT_MODES: Record<string, number> = { road: 1, rail: 2, air: 3, ship: 4 };
+
+// Unit Quantity Codes the portal accepts; anything unmapped goes as OTH.
+const UQC: Record<string, string> = {
+  pcs: 'PCS',
+  pc: 'PCS',
+  nos: 'NOS',
+  no: 'NOS',
+  kg: 'KGS',
+  kgs: 'KGS',
+  g: 'GMS',
+  gm: 'GMS',
+  gms: 'GMS',
+  l: 'LTR',
+  ltr: 'LTR',
+  litre: 'LTR',
+  ml: 'MLT',
+  m: 'MTR',
+  mtr: 'MTR',
+  box: 'BOX',
+  dozen: 'DOZ',
+  doz: 'DOZ',
+  pack: 'PAC',
+  pac: 'PAC',
+  set: 'SET',
+  pair: 'PRS',
+  bag: 'BAG',
+  bottle: 'BTL',
+  can: 'CAN',
+  roll: 'ROL',
+};
+
+export const uqcOf = (unit?: string): string => UQC[String(unit || 'pcs').trim().toLowerCase()] || 'OTH';
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+export const toPortalDate = (value: any): string => {
+  const date = value ? new Date(value) : new Date();
+  return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+};
+
+const stateCodeOf = (gstin?: string, fallback?: any): number => {
+  if (gstin && validateGSTIN(gstin)) return Number(gstin.substring(0, 2));
+  return Number(fallback || 0);
+};
+
+export interface EwayParty {
+  gstin?: string;
+  name?: string;
+  address1?: string;
+  address2?: string;
+  place?: string;
+  pincode?: string;
+  stateCode?: number | string;
+  dispatchStateCode?: number | string; // ship-to (or ship-from) state when it differs from the GSTIN state
+}
+
+export interface EwayTransport {
+  transporterName?: string;
+  transporterId?: string;
+  transportMode?: string;
+  vehicleNumber?: string;
+  vehicleType?: string;
+  transportDocNo?: string;
+  transportDocDate?: Date | string;
+  distanceKm?: number;
+}
+
+/**
+ * The seller block comes from the request, then the stored business settings, falling back to the business
+ * name, GSTIN and address on the user's profile.
+ */
+export const resolveEwaySeller = async (input: any, userId?: string): Promise<EwayParty> => {
+  const seller: Record<string, any> = await withStoredBusiness(input);
+  const user = userId ? await User.findById(userId).select('businessName gstin address') : null;
+  const gstin = String(seller.gstin || user?.gstin || '').trim().toUpperCase();
+  return {
+    gstin,
+    name: String(seller.tradeName || seller.legalName || user?.businessName || '').trim(),
+    address1: String(seller.addressLine1 || user?.address?.street || '').trim(),
+    address2: String(seller.addressLine2 || '').trim(),
+    place: String(seller.city || user?.address?.city || '').trim(),
+    pincode: String(seller.pincode || user?.address?.zipCode || '').trim(),
+    stateCode: stateCodeOf(gstin, seller.stateCode),
+  };
+};
+
+// Lines are summarised by HSN and rate, which is how the portal expects the item list for a document.
+const hsnSummary = (items: any[], interstate: boolean) => {
+  const groups = new Map<string, any>();
+  for (const item of items) {
+    const hsnCode = String(item.hsnCode || '').trim();
+    const gstRate = Number(item.gstRate || 0);
+    const cessRate = Number(item.cessRate || 0);
+    const unit = String(item.unit || 'pcs').trim().toLowerCase();
+    const key = `${hsnCode}|${gstRate}|${cessRate}|${unit}`;
+    const taxableValue = round2(Number(item.taxableValue ?? Number(item.unitPrice || 0) * Number(item.quantity || 0)));
+    const current = groups.get(key) || {
+      hsnCode,
+      productName: item.productName,
+      productNames: new Set<string>(),
+      qtyUnit: uqcOf(unit),
+      quantity: 0,
+      taxableValue: 0,
+      gstRate,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      cessRate,
+      cess: 0,
+      cessNonAdvol: 0,
+    };
+    const tax = calculateGSTComponents(taxableValue, gstRate, interstate);
+    current.productNames.add(item.productName);
+    current.quantity = round2(current.quantity + Number(item.quantity || 0));
+    current.taxableValue = round2(current.taxableValue + taxableValue);
+    current.cgst = round2(current.cgst + tax.cgst);
+    current.sgst = round2(current.sgst + tax.sgst);
+    current.igst = round2(current.igst + tax.igst);
+    current.cess = round2(current.cess + (taxableValue * cessRate) / 100);
+    current.cessNonAdvol = round2(current.cessNonAdvol + Number(item.cessPerUnit || 0) * Number(item.baseQuantity ?? item.quantity ?? 0));
+    groups.set(key, current);
+  }
+  return Array.from(groups.values()).map(({ productNames, ...row }) => ({
+    ...row,
+    productDesc: Array.from(productNames).join(', ').slice(0, 100),
+  }));
+};
+
+/**
+ * Builds the bulk-upload JSON for one document (an invoice or a delivery challan) plus the list of problems
+ * the portal would reject it for. Nothing is sent anywhere; the file is uploaded on the portal by hand.
+ */
+export const buildEwayBillPayload = (input: {
+  docType: 'INV' | 'CHL';
+  docNo: string;
+  docDate: Date | string;
+  seller: EwayParty;
+  recipient: EwayParty;
+  items: any[];
+  otherValue?: number;
+  totalValue: number;
+  transport: EwayTransport;
+}): { payload: any; hsnSummary: any[]; errors: string[] } => {
+  const { seller, transport } = input;
+  const toStateCode = stateCodeOf(input.recipient.gstin, input.recipient.stateCode || input.recipient.dispatchStateCode);
+  const recipient = { ...input.recipient, stateCode: toStateCode, dispatchStateCode: Number(input.recipient.dispatchStateCode || toStateCode) };
+  const errors: string[] = [];
+  // Goods are supplied where the movement ends, so the ship-to state decides IGST versus CGST + SGST.
+  const interstate = Boolean(seller.stateCode && recipient.dispatchStateCode && Number(seller.stateCode) !== recipient.dispatchStateCode);
+  const summary = hsnSummary(input.items, interstate);
+
+  if (!seller.gstin || !validateGSTIN(seller.gstin)) errors.push('Business GSTIN is missing or invalid');
+  if (!/^[1-9][0-9]{5}$/.test(String(seller.pincode || ''))) errors.push('Business pincode is missing or invalid');
+  if (recipient.gstin && !validateGSTIN(recipient.gstin)) errors.push(`Customer GSTIN ${recipient.gstin} is invalid`);
+  if (!/^[1-9][0-9]{5}$/.test(String(recipient.pincode || ''))) errors.push('Delivery pincode is missing or invalid');
+  if (!Number(recipient.stateCode)) errors.push('Delivery state code is required when the customer has no GSTIN');
+  for (const row of summary) {
+    if (!validateHSNCode(row.hsnCode) && !/^[0-9]{6}$/.test(row.hsnCode)) {
+      errors.push(`HSN code missing or invalid for ${row.productDesc || 'an item'}`);
+    }
+  }
+  const distance = Math.round(Number(transport.distanceKm || 0));
+  if (distance <= 0 || distance > 4000) errors.push('Approximate distance must be between 1 and 4000 km');
+  const mode = TRANSPORT_MODES[String(transport.transportMode || 'road')] || 1;
+  if (mode === 1 && !transport.vehicleNumber && !transport.transporterId) {
+    errors.push('Vehicle number or transporter ID is required for road transport');
+  }
+  if (mode !== 1 && !transport.transportDocNo) errors.push('Transport document number is required for rail, air or ship');
+  if (transport.transporterId && !validateGSTIN(String(transport.transporterId))) {
+    errors.push('Transporter ID must be a valid GSTIN or TRANSIN');
+  }
+
+  const cgstValue = round2(summary.reduce((sum, row) => sum + row.cgst, 0));
+  const sgstValue = round2(summary.reduce((sum, row) => sum + row.sgst, 0));
+  const igstValue = round2(summary.reduce((sum, row) => sum + row.igst, 0));
+  const taxable = round2(summary.reduce((sum, row) => sum + row.taxableValue, 0));
+  const otherValue = round2(Number(input.otherValue || 0));
+
+  const bill = {
+    userGstin: seller.gstin,
+    supplyType: 'O',
+    subSupplyType: input.docType === 'CHL' ? 8 : 1,
+    subSupplyDesc: input.docType === 'CHL' ? 'Delivery challan' : '',
+    docType: input.docType,
+    docNo: input.docNo,
+    docDate: toPortalDate(input.docDate),
+    transType: 1,
+    fromGstin: seller.gstin,
+    fromTrdName: seller.name,
+    fromAddr1: seller.address1,
+    fromAddr2: seller.address2,
+    fromPlace: seller.place,
+    fromPincode: Number(seller.pincode || 0),
+    fromStateCode: Number(seller.stateCode || 0),
+    actualFromStateCode: Number(seller.stateCode || 0),
+    toGstin: recipient.gstin || 'URP',
+    toTrdName: recipient.name,
+    toAddr1: recipient.address1,
+    toAddr2: recipient.address2,
+    toPlace: recipient.place,
+    toPincode: Number(recipient.pincode || 0),
+    toStateCode: Number(recipient.stateCode || 0),
+    actualToStateCode: recipient.dispatchStateCode,
+    totalValue: taxable,
+    cgstValue,
+    sgstValue,
+    igstValue,
+    cessValue: round2(summary.reduce((sum, row) => sum + row.cess, 0)),
+    cessNonAdvolValue: round2(summary.reduce((sum, row) => sum + row.cessNonAdvol, 0)),
+    otherValue,
+    totInvValue: round2(input.totalValue),
+    transMode: mode,
+    transDistance: String(distance),
+    transporterName: transport.transporterName || '',
+    transporterId: transport.transporterId || '',
+    transDocNo: transport.transportDocNo || '',
+    transDocDate: transport.transportDocDate ? toPortalDate(transport.transportDocDate) : '',
+    vehicleNo: String(transport.vehicleNumber || '').replace(/[^A-Z0-9]/gi, '').toUpperCase(),
+    vehicleType: transport.vehicleType === 'odc' ? 'O' : 'R',
+    itemList: summary.map((row, index) => ({
+      itemNo: index + 1,
+      productName: String(row.productName || '').slice(0, 100),
+      productDesc: row.productDesc,
+      hsnCode: Number(row.hsnCode || 0),
+      quantity: row.quantity,
+      qtyUnit: row.qtyUnit,
+      taxableAmount: row.taxableValue,
+      cgstRate: interstate ? 0 : row.gstRate / 2,
+      sgstRate: interstate ? 0 : row.gstRate / 2,
+      igstRate: interstate ? row.gstRate : 0,
+      cessRate: row.cessRate,
+      cessNonAdvol: row.cessNonAdvol,
+    })),
+  };
+
+  return { payload: { version: EWAY_JSON_VERSION, billLists: [bill] }, hsnSummary: summary, errors };
+};
+
+export const normalizeTransport = (input: any, fallback: any = {}): EwayTransport => ({
+  transporterName: String(input?.transporterName ?? fallback.transporterName ?? '').trim() || undefined,
+  transporterId: String(input?.transporterId ?? fallback.transporterId ?? '').trim().toUpperCase() || undefined,
+  transportMode: ['road', 'rail', 'air', 'ship'].includes(String(input?.transportMode))
+    ? String(input.transportMode)
+    : fallback.transportMode || 'road',
+  vehicleNumber: String(input?.vehicleNumber ?? fallback.vehicleNumber ?? '').trim().toUpperCase() || undefined,
+  vehicleType: String(input?.vehicleType ?? fallback.vehicleType) === 'odc' ? 'odc' : 'regular',
+  transportDocNo: String(input?.transportDocNo ?? fallback.transportDocNo ?? '').trim() || undefined,
+  transportDocDate: input?.transportDocDate || fallback.transportDocDate || undefined,
+  distanceKm: Number(input?.distanceKm ?? fallback.distanceKm ?? 0) || undefined,
+});
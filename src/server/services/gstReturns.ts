@@ -0,0 +1,760 @@
+import { Sale } from '../models/Sale.js';
+import { Return } from '../models/Return.js';
+import { CreditNote } from '../models/CreditNote.js';
+import { Customer } from '../models/Customer.js';
+import { Product } from '../models/Product.js';
+import { Supplier } from '../models/Supplier.js';
+import { GoodsReceipt } from '../models/GoodsReceipt.js';
+import { DeliveryChallan } from '../models/DeliveryChallan.js';
+import { NumberSequence } from '../models/NumberSequence.js';
+import { GST_STATE_CODES, getStateCodeFromGSTIN, validateGSTIN, validateHSNCode } from '../utils/gst.js';
+import { resolveBusinessGstin, resolveBusinessStateCode } from './placeOfSupply.js';
+import { uqcOf } from './ewayBill.js';
+import { zonedMonthRange, zonedParts } from '../utils/businessTime.js';
+
+// Interstate invoices to unregistered buyers above this value are reported invoice-wise in B2CL.
+export const B2CL_THRESHOLD = Number(process.env.B2CL_THRESHOLD || 100000);
+
+// Layout version of the offline tool's import JSON.
+const GSTR1_JSON_VERSION = 'GST3.1.6';
+
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+export interface GstValidationError {
+  section: string;
+  documentNumber?: string;
+  message: string;
+}
+
+interface TaxLine {
+  productId?: string;
+  productName?: string;
+  hsnCode: string;
+  unit?: string;
+  quantity: number;
+  rate: number;
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+  nonGst: boolean;
+  exempt: boolean;
+}
+
+interface TaxDocument {
+  number: string;
+  date: Date;
+  value: number;
+  gstin?: string;
+  name?: string;
+  pos?: string;
+  isInterstate: boolean;
+  lines: TaxLine[];
+}
+
+const isPosted = {
+  $or: [{ invoiceStatus: 'posted' }, { invoiceStatus: null }, { invoiceStatus: { $exists: false } }],
+  saleStatus: { $in: ['completed', 'returned'] },
+};
+
+// Filing months are the business's calendar months, whatever zone the server runs in.
+export const monthRange = (month: string) => zonedMonthRange(month);
+
+// An invoice belongs to the period it was posted in; drafts are often created days earlier.
+const postedBetween = (start: Date, end: Date) => ({
+  $or: [{ postedAt: { $gte: start, $lte: end } }, { postedAt: null, createdAt: { $gte: start, $lte: end } }],
+});
+
+const filingPeriod = (month: string) => `${month.slice(5, 7)}${month.slice(0, 4)}`;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const portalDate = (value: Date) => {
+  const { day, month, year } = zonedParts(value);
+  return `${String(day).padStart(2, '0')}-${String(month).padStart(2, '0')}-${year}`;
+};
+
+const posLabel = (code?: string) => (code ? `${code}-${GST_STATE_CODES[Number(code)] || ''}` : '');
+
+const itemNum = (rate: number) => Math.round(rate * 100) + 1;
+
+const sumLines = (lines: TaxLine[]) =>
+  lines.reduce(
+    (acc, line) => ({
+      taxableValue: round2(acc.taxableValue + line.taxableValue),
+      igst: round2(acc.igst + line.igst),
+      cgst: round2(acc.cgst + line.cgst),
+      sgst: round2(acc.sgst + line.sgst),
+      cess: round2(acc.cess + line.cess),
+    }),
+    { taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 }
+  );
+
+// One itm_det per rate, which is how the portal wants invoice and note lines. Nil-rated, exempt and non-GST lines
+// are reported only in the nil table (Table 8), as GSTR-3B does.
+const byRate = (lines: TaxLine[]) => {
+  const groups = new Map<number, TaxLine[]>();
+  lines.filter((line) => !line.nonGst && !line.exempt && line.rate !== 0).forEach((line) => groups.set(line.rate, [...(groups.get(line.rate) || []), line]));
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([rate, rows]) => ({ rate, ...sumLines(rows) }));
+};
+
+const saleLines = (sale: any): TaxLine[] =>
+  (sale.items || []).map((item: any) => {
+    const taxableValue = round2(Number(item.taxableValue ?? Number(item.quantity || 0) * Number(item.unitPrice || 0)));
+    const tax = round2(Number(item.gstAmount || 0));
+    const igst = round2(Number(item.igstAmount || 0));
+    return {
+      productId: String(item.productId || ''),
+      productName: item.productName,
+      hsnCode: String(item.hsnCode || '').trim(),
+      unit: item.unit,
+      quantity: Number(item.quantity || 0),
+      rate: Number(item.gstRate || 0),
+      taxableValue,
+      igst,
+      cgst: igst ? 0 : round2(Number(item.cgstAmount ?? tax / 2)),
+      sgst: igst ? 0 : round2(Number(item.sgstAmount ?? tax / 2)),
+      cess: round2(Number(item.cessAmount || 0)),
+      nonGst: item.taxType === 'vat' || item.supplyType === 'non_gst',
+      exempt: item.supplyType === 'exempt',
+    };
+  });
+
+/**
+ * Loads the month's outward documents with tax already split per line, plus everything the validation needs:
+ * the business GSTIN and state, and customers' current GSTINs for invoices billed before they registered.
+ */
+const loadOutwardSupplies = async (month: string, userId?: string) => {
+  const { start, end } = monthRange(month);
+  const errors: GstValidationError[] = [];
+  const gstin = await resolveBusinessGstin(userId);
+  const businessState = await resolveBusinessStateCode(userId);
+  if (!gstin) errors.push({ section: 'business', message: 'Business GSTIN is missing or invalid' });
+
+  // Lean, so invoices saved before place of supply was recorded show no isInterstate rather than the default.
+  const sales: any[] = await Sale.find({ $and: [postedBetween(start, end), isPosted] }).sort({ createdAt: 1 }).lean();
+  const customerIds = Array.from(new Set(sales.map((sale) => sale.customerId).filter(Boolean)));
+  const customers = new Map(
+    (await Customer.find({ _id: { $in: customerIds } }).select('gstin stateCode name')).map((row) => [row._id.toString(), row as any])
+  );
+
+  const invoiceParty = (sale: any) => {
+    const customer: any = sale.customerId ? customers.get(String(sale.customerId)) : null;
+    // Invoices from before place of supply was recorded take the customer's GSTIN as it stands.
+    const legacy = sale.isInterstate === undefined;
+    const partyGstin = String(sale.customerGstin || (legacy ? customer?.gstin : '') || '').trim().toUpperCase();
+    const pos = sale.placeOfSupplyCode
+      || (validateGSTIN(partyGstin) ? getStateCodeFromGSTIN(partyGstin) : null)
+      || (legacy ? customer?.stateCode : null)
+      || businessState
+      || undefined;
+    return { customer, partyGstin, pos };
+  };
+
+  const invoices: TaxDocument[] = [];
+  for (const sale of sales) {
+    const number = sale.invoiceNumber || sale.saleNumber;
+    const { customer, partyGstin, pos } = invoiceParty(sale);
+    const lines = saleLines(sale);
+    const isInterstate = Boolean(sale.isInterstate) || lines.some((line) => line.igst > 0);
+
+    if (partyGstin && !validateGSTIN(partyGstin)) {
+      errors.push({ section: 'b2b', documentNumber: number, message: `Customer GSTIN ${partyGstin} is invalid; reported as B2C` });
+    }
+    if (!partyGstin && customer?.gstin && validateGSTIN(customer.gstin)) {
+      errors.push({ section: 'b2b', documentNumber: number, message: `Invoice has no GSTIN but ${customer.name} is registered (${customer.gstin})` });
+    }
+    if (!pos) {
+      errors.push({ section: 'pos', documentNumber: number, message: 'Place of supply is missing and the business state is unknown' });
+    } else if (businessState && (pos !== businessState) !== isInterstate) {
+      errors.push({
+        section: 'pos',
+        documentNumber: number,
+        message: `Place of supply ${posLabel(pos)} does not match the ${isInterstate ? 'IGST' : 'CGST/SGST'} charged`,
+      });
+    }
+    lines.filter((line) => !line.nonGst && !line.exempt).forEach((line) => {
+      if (!validateHSNCode(line.hsnCode)) {
+        errors.push({ section: 'hsn', documentNumber: number, message: `HSN code missing or invalid for ${line.productName || 'an item'}` });
+      }
+      if (!GST_RATES.includes(line.rate)) {
+        errors.push({ section: 'rate', documentNumber: number, message: `${line.rate}% on ${line.productName || 'an item'} is not a GST rate` });
+      }
+    });
+
+    invoices.push({
+      number,
+      date: new Date(sale.postedAt || sale.createdAt || new Date()),
+      value: round2(Number(sale.totalAmount || 0)),
+      gstin: validateGSTIN(partyGstin) ? partyGstin : undefined,
+      name: sale.customerName,
+      pos: pos || undefined,
+      isInterstate,
+      lines,
+    });
+  }
+
+  const notes = await loadCreditNotes(start, end, businessState, errors);
+  return { gstin, businessState, invoices, notes, errors, start, end };
+};
+
+/**
+ * Credit notes are approved returns (numbered by their credit note when one was issued) and manual credit notes
+ * that carry tax. Each takes its party and place of supply from the invoice it reduces.
+ */
+const loadCreditNotes = async (start: Date, end: Date, businessState: string | null, errors: GstValidationError[]) => {
+  const returns = await Return.find({ returnStatus: 'approved', approvedAt: { $gte: start, $lte: end } }).sort({ approvedAt: 1 });
+  const manualNotes = await CreditNote.find({
+    issuedAt: { $gte: start, $lte: end },
+    status: { $ne: 'cancelled' },
+    taxAmount: { $gt: 0 },
+    $or: [{ sourceReturnId: null }, { sourceReturnId: { $exists: false } }],
+  });
+  const noteNumbers = new Map(
+    (await CreditNote.find({ _id: { $in: returns.map((row) => row.creditNoteId).filter((id): id is string => Boolean(id)) } }))
+      .map((row) => [row._id.toString(), row.noteNumber])
+  );
+  const saleIds = [...returns.map((row) => row.saleId), ...manualNotes.map((row) => row.sourceSaleId)]
+    .filter((id): id is string => Boolean(id));
+  const sales = new Map((await Sale.find({ _id: { $in: saleIds } })).map((row) => [row._id.toString(), row]));
+  const products = new Map(
+    (await Product.find({ _id: { $in: returns.flatMap((row) => row.items.map((item) => item.productId)) } }).select('hsnCode'))
+      .map((row) => [row._id.toString(), row])
+  );
+
+  const documents: Array<TaxDocument & { invoiceNumber?: string; invoiceValue: number }> = [];
+  for (const ret of returns) {
+    const sale: any = ret.saleId ? sales.get(String(ret.saleId)) : null;
+    const number = (ret.creditNoteId && noteNumbers.get(String(ret.creditNoteId))) || ret.returnNumber;
+    const isInterstate = Boolean(ret.isInterstate);
+    const lines: TaxLine[] = ret.items.map((item: any) => {
+      const soldLine = sale?.items?.find((row: any) => String(row.productId) === String(item.productId));
+      // lineTax carries cess too; the GST split below is on the rest.
+      const cess = round2(Number(item.cessAmount || 0));
+      const tax = round2(Number(item.lineTax || 0) - cess);
+      const igst = isInterstate ? round2(Number(item.igstAmount ?? tax)) : 0;
+      return {
+        productId: String(item.productId),
+        productName: item.productName,
+        hsnCode: String(soldLine?.hsnCode || (products.get(String(item.productId)) as any)?.hsnCode || '').trim(),
+        unit: item.unit,
+        quantity: Number(item.returnQuantity || 0),
+        rate: Number(item.gstRate || 0),
+        taxableValue: round2(Number(item.lineSubtotal || 0)),
+        igst,
+        cgst: isInterstate ? 0 : round2(Number(item.cgstAmount ?? tax / 2)),
+        sgst: isInterstate ? 0 : round2(Number(item.sgstAmount ?? tax / 2)),
+        cess,
+        nonGst: soldLine?.taxType === 'vat' || soldLine?.supplyType === 'non_gst',
+        exempt: soldLine?.supplyType === 'exempt',
+      };
+    });
+    const gstin = String(sale?.customerGstin || '').toUpperCase();
+    documents.push({
+      number,
+      date: new Date(ret.approvedAt || ret.createdAt || new Date()),
+      value: round2(Number(ret.refundAmount || 0)),
+      gstin: validateGSTIN(gstin) ? gstin : undefined,
+      name: ret.customerName,
+      pos: ret.placeOfSupplyCode || sale?.placeOfSupplyCode || businessState || undefined,
+      isInterstate,
+      lines,
+      invoiceNumber: sale?.invoiceNumber || ret.sourceInvoiceNumber,
+      invoiceValue: round2(Number(sale?.totalAmount || 0)),
+    });
+  }
+
+  for (const note of manualNotes) {
+    const sale: any = note.sourceSaleId ? sales.get(String(note.sourceSaleId)) : null;
+    if (!sale) {
+      errors.push({ section: 'cdn', documentNumber: note.noteNumber, message: 'Credit note carries tax but is not linked to an invoice' });
+      continue;
+    }
+    const subtotal = round2(Number(note.subtotal || 0));
+    const tax = round2(Number(note.taxAmount || 0));
+    const rate = subtotal > 0 ? Math.round((tax / subtotal) * 10000) / 100 : 0;
+    if (!GST_RATES.includes(rate)) {
+      errors.push({ section: 'cdn', documentNumber: note.noteNumber, message: `Tax of ${tax} on ${subtotal} is not a single GST rate` });
+      continue;
+    }
+    const isInterstate = Boolean(sale.isInterstate);
+    const gstin = String(sale.customerGstin || '').toUpperCase();
+    documents.push({
+      number: note.noteNumber,
+      date: new Date(note.issuedAt || note.createdAt || new Date()),
+      value: round2(Number(note.totalAmount || 0)),
+      gstin: validateGSTIN(gstin) ? gstin : undefined,
+      name: note.customerName,
+      pos: sale.placeOfSupplyCode || businessState || undefined,
+      isInterstate,
+      lines: [{
+        hsnCode: '',
+        quantity: 0,
+        rate,
+        taxableValue: subtotal,
+        igst: isInterstate ? tax : 0,
+        cgst: isInterstate ? 0 : round2(tax / 2),
+        sgst: isInterstate ? 0 : round2(tax - round2(tax / 2)),
+        cess: 0,
+        nonGst: false,
+        exempt: false,
+      }],
+      invoiceNumber: sale.invoiceNumber,
+      invoiceValue: round2(Number(sale.totalAmount || 0)),
+    });
+  }
+  return documents;
+};
+
+const isB2cl = (doc: { gstin?: string; isInterstate: boolean; value: number }, value = doc.value) =>
+  !doc.gstin && doc.isInterstate && value > B2CL_THRESHOLD;
+
+const hsnRows = (entries: Array<{ line: TaxLine; sign: number }>) => {
+  const groups = new Map<string, any>();
+  for (const { line, sign } of entries) {
+    if (line.nonGst || !line.hsnCode) continue;
+    const uqc = uqcOf(line.unit);
+    const key = `${line.hsnCode}|${uqc}|${line.rate}`;
+    const row = groups.get(key) || {
+      hsn_sc: line.hsnCode,
+      desc: String(line.productName || '').slice(0, 30),
+      uqc,
+      qty: 0,
+      rt: line.rate,
+      txval: 0,
+      iamt: 0,
+      camt: 0,
+      samt: 0,
+      csamt: 0,
+    };
+    row.qty = round2(row.qty + sign * line.quantity);
+    row.txval = round2(row.txval + sign * line.taxableValue);
+    row.iamt = round2(row.iamt + sign * line.igst);
+    row.camt = round2(row.camt + sign * line.cgst);
+    row.samt = round2(row.samt + sign * line.sgst);
+    row.csamt = round2(row.csamt + sign * line.cess);
+    groups.set(key, row);
+  }
+  return Array.from(groups.values()).map((row, index) => ({ num: index + 1, ...row }));
+};
+
+// Consecutive numbers share a series once the trailing serial (and any date part) is taken off.
+const documentSeries = (numbers: Array<{ number: string; cancelled: boolean }>) => {
+  const series = new Map<string, Array<{ number: string; serial: number; cancelled: boolean }>>();
+  for (const row of numbers) {
+    const match = String(row.number).match(/^(.*?)(\d{8}-)?(\d+)$/);
+    const prefix = match ? match[1] : row.number;
+    const serial = match ? Number(match[3]) : 0;
+    series.set(prefix, [...(series.get(prefix) || []), { ...row, serial }]);
+  }
+  return Array.from(series.entries()).map(([prefix, rows]) => {
+    const sorted = rows.sort((a, b) => a.serial - b.serial);
+    const cancel = sorted.filter((row) => row.cancelled).length;
+    return {
+      prefix,
+      from: sorted[0].number,
+      to: sorted[sorted.length - 1].number,
+      totnum: sorted.length,
+      cancel,
+      net_issue: sorted.length - cancel,
+      missing: Math.max(0, sorted[sorted.length - 1].serial - sorted[0].serial + 1 - sorted.length),
+    };
+  });
+};
+
+const DOCUMENT_TYPES: Array<{ docNum: number; nature: string; sequenceKey: string }> = [
+  { docNum: 1, nature: 'Invoices for outward supply', sequenceKey: 'invoice_number' },
+  { docNum: 5, nature: 'Credit Note', sequenceKey: 'credit_note' },
+  { docNum: 12, nature: 'Delivery Challan in cases other than by way of supply', sequenceKey: 'delivery_challan' },
+];
+
+const loadDocumentSummary = async (start: Date, end: Date, errors: GstValidationError[]) => {
+  const [sales, creditNotes, returns, challans, sequences] = await Promise.all([
+    Sale.find({ ...postedBetween(start, end), invoiceStatus: { $in: ['posted', 'cancelled'] } }).select('invoiceNumber saleNumber invoiceStatus saleStatus'),
+    CreditNote.find({ issuedAt: { $gte: start, $lte: end } }).select('noteNumber status'),
+    Return.find({ returnStatus: 'approved', approvedAt: { $gte: start, $lte: end }, creditNoteId: { $in: [null, ''] } }).select('returnNumber'),
+    DeliveryChallan.find({ challanDate: { $gte: start, $lte: end } }).select('challanNumber status'),
+    NumberSequence.find({ key: { $in: DOCUMENT_TYPES.map((row) => row.sequenceKey) } }),
+  ]);
+  const sequenceValues = new Map(sequences.map((row) => [row.key, row.value]));
+  const numbersByType: Record<number, Array<{ number: string; cancelled: boolean }>> = {
+    1: sales.map((row) => ({
+      number: row.invoiceNumber || row.saleNumber,
+      cancelled: row.invoiceStatus === 'cancelled' || row.saleStatus === 'cancelled',
+    })),
+    5: [
+      ...creditNotes.map((row) => ({ number: row.noteNumber, cancelled: row.status === 'cancelled' })),
+      ...returns.map((row) => ({ number: row.returnNumber, cancelled: false })),
+    ],
+    12: challans.map((row) => ({ number: row.challanNumber, cancelled: row.status === 'cancelled' })),
+  };
+
+  return DOCUMENT_TYPES.map((type) => {
+    const series = documentSeries(numbersByType[type.docNum]);
+    series.filter((row) => row.missing > 0).forEach((row) => {
+      errors.push({
+        section: 'docs',
+        documentNumber: `${row.from} to ${row.to}`,
+        message: `${row.missing} number(s) in this series were not issued this month; report them as cancelled if they are void`,
+      });
+    });
+    return { ...type, lastSequenceValue: Number(sequenceValues.get(type.sequenceKey) || 0), series };
+  });
+};
+
+/**
+ * GSTR-1 for a month: B2B, B2CL, B2CS, credit notes (registered and unregistered), nil/non-GST supplies, the HSN
+ * summary split B2B/B2C and the document summary, with everything the offline tool would reject listed in `errors`.
+ */
+export const buildGstr1 = async (month: string, userId?: string) => {
+  const { gstin, businessState, invoices, notes, errors, start, end } = await loadOutwardSupplies(month, userId);
+
+  const b2bInvoices = invoices.filter((doc) => doc.gstin);
+  const b2b = Array.from(new Set(b2bInvoices.map((doc) => doc.gstin as string))).map((ctin) => ({
+    ctin,
+    inv: b2bInvoices.filter((doc) => doc.gstin === ctin && byRate(doc.lines).length).map((doc) => ({
+      inum: doc.number,
+      idt: portalDate(doc.date),
+      val: doc.value,
+      pos: doc.pos,
+      rchrg: 'N',
+      inv_typ: 'R',
+      itms: byRate(doc.lines).map((row) => ({
+        num: itemNum(row.rate),
+        itm_det: { txval: row.taxableValue, rt: row.rate, iamt: row.igst, camt: row.cgst, samt: row.sgst, csamt: row.cess },
+      })),
+    })),
+  })).filter((row) => row.inv.length);
+
+  const b2clInvoices = invoices.filter((doc) => isB2cl(doc) && byRate(doc.lines).length);
+  const b2cl = Array.from(new Set(b2clInvoices.map((doc) => doc.pos as string))).map((pos) => ({
+    pos,
+    inv: b2clInvoices.filter((doc) => doc.pos === pos).map((doc) => ({
+      inum: doc.number,
+      idt: portalDate(doc.date),
+      val: doc.value,
+      itms: byRate(doc.lines).map((row) => ({
+        num: itemNum(row.rate),
+        itm_det: { txval: row.taxableValue, rt: row.rate, iamt: row.igst, csamt: row.cess },
+      })),
+    })),
+  }));
+
+  // B2C small is reported net: credit notes against small B2C invoices reduce the same rate and state.
+  const b2csGroups = new Map<string, any>();
+  const addB2cs = (doc: TaxDocument, sign: number) => {
+    for (const row of byRate(doc.lines)) {
+      const splyTy = doc.isInterstate ? 'INTER' : 'INTRA';
+      const key = `${splyTy}|${doc.pos}|${row.rate}`;
+      const current = b2csGroups.get(key) || { sply_ty: splyTy, pos: doc.pos, typ: 'OE', rt: row.rate, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+      current.txval = round2(current.txval + sign * row.taxableValue);
+      current.iamt = round2(current.iamt + sign * row.igst);
+      current.camt = round2(current.camt + sign * row.cgst);
+      current.samt = round2(current.samt + sign * row.sgst);
+      current.csamt = round2(current.csamt + sign * row.cess);
+      b2csGroups.set(key, current);
+    }
+  };
+  invoices.filter((doc) => !doc.gstin && !isB2cl(doc)).forEach((doc) => addB2cs(doc, 1));
+
+  const noteEntry = (doc: (typeof notes)[number]) => ({
+    ntty: 'C',
+    nt_num: doc.number,
+    nt_dt: portalDate(doc.date),
+    val: doc.value,
+    pos: doc.pos,
+    itms: byRate(doc.lines).map((row) => ({
+      num: itemNum(row.rate),
+      itm_det: { txval: row.taxableValue, rt: row.rate, iamt: row.igst, camt: row.cgst, samt: row.sgst, csamt: row.cess },
+    })),
+  });
+  const registeredNotes = notes.filter((doc) => doc.gstin && byRate(doc.lines).length);
+  const cdnr = Array.from(new Set(registeredNotes.map((doc) => doc.gstin as string))).map((ctin) => ({
+    ctin,
+    nt: registeredNotes.filter((doc) => doc.gstin === ctin).map((doc) => ({ ...noteEntry(doc), rchrg: 'N', inv_typ: 'R' })),
+  }));
+  const cdnur = notes
+    .filter((doc) => !doc.gstin && isB2cl(doc, doc.invoiceValue) && byRate(doc.lines).length)
+    .map((doc) => ({ typ: 'B2CL', ...noteEntry(doc) }));
+  notes.filter((doc) => !doc.gstin && !isB2cl(doc, doc.invoiceValue)).forEach((doc) => addB2cs(doc, -1));
+  const b2cs = Array.from(b2csGroups.values()).filter((row) => row.txval !== 0);
+
+  // Net of credit notes, like the taxable tables and GSTR-3B.
+  const nilGroups = new Map<string, any>();
+  const addNil = (doc: TaxDocument, sign: number) => {
+    const splyTy = `${doc.isInterstate ? 'INTR' : 'INTRA'}${doc.gstin ? 'B2B' : 'B2C'}`;
+    const current = nilGroups.get(splyTy) || { sply_ty: splyTy, nil_amt: 0, expt_amt: 0, ngsup_amt: 0 };
+    doc.lines.forEach((line) => {
+      if (line.nonGst) current.ngsup_amt = round2(current.ngsup_amt + sign * line.taxableValue);
+      else if (line.exempt) current.expt_amt = round2(current.expt_amt + sign * line.taxableValue);
+      else if (line.rate === 0) current.nil_amt = round2(current.nil_amt + sign * line.taxableValue);
+    });
+    nilGroups.set(splyTy, current);
+  };
+  invoices.forEach((doc) => addNil(doc, 1));
+  notes.forEach((doc) => addNil(doc, -1));
+  const nil = Array.from(nilGroups.values()).filter((row) => row.nil_amt || row.expt_amt || row.ngsup_amt);
+
+  const hsnEntries = (registered: boolean) => [
+    ...invoices.filter((doc) => Boolean(doc.gstin) === registered).flatMap((doc) => doc.lines.map((line) => ({ line, sign: 1 }))),
+    ...notes.filter((doc) => Boolean(doc.gstin) === registered).flatMap((doc) => doc.lines.map((line) => ({ line, sign: -1 }))),
+  ];
+  const hsn = { hsn_b2b: hsnRows(hsnEntries(true)), hsn_b2c: hsnRows(hsnEntries(false)) };
+
+  const documents = await loadDocumentSummary(start, end, errors);
+  const docIssue = {
+    doc_det: documents.filter((row) => row.series.length).map((row) => ({
+      doc_num: row.docNum,
+      docs: row.series.map(({ prefix, missing, ...series }, index) => ({ num: index + 1, ...series })),
+    })),
+  };
+
+  const payload: any = { gstin: gstin || '', fp: filingPeriod(month), version: GSTR1_JSON_VERSION, hash: 'hash' };
+  if (b2b.length) payload.b2b = b2b;
+  if (b2cl.length) payload.b2cl = b2cl;
+  if (b2cs.length) payload.b2cs = b2cs;
+  if (cdnr.length) payload.cdnr = cdnr;
+  if (cdnur.length) payload.cdnur = cdnur;
+  if (nil.length) payload.nil = { inv: nil };
+  if (hsn.hsn_b2b.length || hsn.hsn_b2c.length) payload.hsn = hsn;
+  if (docIssue.doc_det.length) payload.doc_issue = docIssue;
+
+  const totals = (docs: TaxDocument[]) => ({ count: docs.length, ...sumLines(docs.flatMap((doc) => doc.lines.filter((line) => !line.nonGst && !line.exempt))) });
+  return {
+    month,
+    gstin,
+    businessStateCode: businessState,
+    summary: {
+      b2b: totals(b2bInvoices),
+      b2cl: totals(b2clInvoices),
+      b2cs: totals(invoices.filter((doc) => !doc.gstin && !isB2cl(doc))),
+      cdnr: totals(registeredNotes),
+      cdnur: totals(notes.filter((doc) => !doc.gstin && isB2cl(doc, doc.invoiceValue))),
+    },
+    documents,
+    payload,
+    errors,
+  };
+};
+
+/**
+ * GSTR-3B for a month: outward supplies net of credit notes (3.1), interstate supplies to unregistered persons
+ * by state (3.2), and input tax credit from posted goods receipts of registered suppliers (4).
+ */
+export const buildGstr3b = async (month: string, userId?: string) => {
+  const { gstin, businessState, invoices, notes, errors, start, end } = await loadOutwardSupplies(month, userId);
+  const signed = [
+    ...invoices.flatMap((doc) => doc.lines.map((line) => ({ doc, line, sign: 1 }))),
+    ...notes.flatMap((doc) => doc.lines.map((line) => ({ doc, line, sign: -1 }))),
+  ];
+
+  const taxable = { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+  let nilValue = 0;
+  let nonGstValue = 0;
+  const unregistered = new Map<string, { pos: string; txval: number; iamt: number }>();
+  for (const { doc, line, sign } of signed) {
+    if (line.nonGst) {
+      nonGstValue = round2(nonGstValue + sign * line.taxableValue);
+      continue;
+    }
+    if (line.exempt || line.rate === 0) {
+      nilValue = round2(nilValue + sign * line.taxableValue);
+      continue;
+    }
+    taxable.txval = round2(taxable.txval + sign * line.taxableValue);
+    taxable.iamt = round2(taxable.iamt + sign * line.igst);
+    taxable.camt = round2(taxable.camt + sign * line.cgst);
+    taxable.samt = round2(taxable.samt + sign * line.sgst);
+    taxable.csamt = round2(taxable.csamt + sign * line.cess);
+    if (!doc.gstin && doc.isInterstate && doc.pos) {
+      const current = unregistered.get(doc.pos) || { pos: doc.pos, txval: 0, iamt: 0 };
+      current.txval = round2(current.txval + sign * line.taxableValue);
+      current.iamt = round2(current.iamt + sign * line.igst);
+      unregistered.set(doc.pos, current);
+    }
+  }
+
+  const receipts = await GoodsReceipt.find({ status: 'posted', receiptDate: { $gte: start, $lte: end } });
+  const suppliers = new Map(
+    (await Supplier.find({ _id: { $in: receipts.map((row) => row.supplierId) } }).select('gstin name'))
+      .map((row) => [row._id.toString(), row])
+  );
+  const itc = { iamt: 0, camt: 0, samt: 0, csamt: 0 };
+  const inward = { gstInter: 0, gstIntra: 0 };
+  for (const receipt of receipts) {
+    const supplierGstin = String(suppliers.get(String(receipt.supplierId))?.gstin || '').toUpperCase();
+    if (!validateGSTIN(supplierGstin)) {
+      if (Number(receipt.totalTax || 0) > 0) {
+        errors.push({ section: 'itc', documentNumber: receipt.grnNumber, message: `No valid GSTIN for ${receipt.supplierName}; tax not claimed as credit` });
+      }
+      continue;
+    }
+    const interstate = Boolean(businessState) && getStateCodeFromGSTIN(supplierGstin) !== businessState;
+    for (const item of receipt.items) {
+      const tax = round2(Number(item.taxAmount || 0));
+      if (Number(item.gstRate || 0) === 0) {
+        if (interstate) inward.gstInter = round2(inward.gstInter + Number(item.taxableValue || 0));
+        else inward.gstIntra = round2(inward.gstIntra + Number(item.taxableValue || 0));
+      } else if (interstate) {
+        itc.iamt = round2(itc.iamt + tax);
+      } else {
+        itc.camt = round2(itc.camt + round2(tax / 2));
+        itc.samt = round2(itc.samt + round2(tax - round2(tax / 2)));
+      }
+    }
+  }
+
+  const zero = { iamt: 0, camt: 0, samt: 0, csamt: 0 };
+  const payload = {
+    gstin: gstin || '',
+    ret_period: filingPeriod(month),
+    sup_details: {
+      osup_det: taxable,
+      osup_zero: { txval: 0, iamt: 0, csamt: 0 },
+      osup_nil_exmp: { txval: nilValue },
+      isup_rev: { txval: 0, ...zero },
+      osup_nongst: { txval: nonGstValue },
+    },
+    inter_sup: {
+      unreg_details: Array.from(unregistered.values()).filter((row) => row.txval !== 0),
+      comp_details: [],
+      uin_details: [],
+    },
+    itc_elg: {
+      itc_avl: [
+        { ty: 'IMPG', ...zero },
+        { ty: 'IMPS', ...zero },
+        { ty: 'ISRC', ...zero },
+        { ty: 'ISD', ...zero },
+        { ty: 'OTH', ...itc },
+      ],
+      itc_rev: [{ ty: 'RUL', ...zero }, { ty: 'OTH', ...zero }],
+      itc_net: itc,
+      itc_inelg: [{ ty: 'RUL', ...zero }, { ty: 'OTH', ...zero }],
+    },
+    inward_sup: {
+      isup_details: [
+        { ty: 'GST', inter: inward.gstInter, intra: inward.gstIntra },
+        { ty: 'NONGST', inter: 0, intra: 0 },
+      ],
+    },
+  };
+
+  return {
+    month,
+    gstin,
+    businessStateCode: businessState,
+    taxPayable: {
+      iamt: round2(taxable.iamt - itc.iamt),
+      camt: round2(taxable.camt - itc.camt),
+      samt: round2(taxable.samt - itc.samt),
+      csamt: round2(taxable.csamt - itc.csamt),
+    },
+    payload,
+    errors,
+  };
+};
+
+const toCsv = (headers: string[], rows: Array<Array<string | number | undefined>>) =>
+  [headers, ...rows]
+    .map((row) => row.map((cell) => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+
+export const GSTR1_CSV_SECTIONS = ['b2b', 'b2cl', 'b2cs', 'cdnr', 'cdnur', 'exemp', 'hsn_b2b', 'hsn_b2c', 'docs'] as const;
+export type Gstr1CsvSection = (typeof GSTR1_CSV_SECTIONS)[number];
+
+// dd-mm-yyyy to the offline tool's dd-Mon-yyyy, without going through a Date and the server's zone.
+const fromPortalDate = (value: string) => {
+  const [day, month, year] = value.split('-').map(Number);
+  return `${String(day).padStart(2, '0')}-${MONTH_NAMES[month - 1]}-${year}`;
+};
+
+/** One section of the GSTR-1 payload in the offline tool's CSV template layout. */
+export const gstr1SectionCsv = (report: Awaited<ReturnType<typeof buildGstr1>>, section: Gstr1CsvSection): string => {
+  const { payload } = report;
+  if (section === 'b2b') {
+    return toCsv(
+      ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+      (payload.b2b || []).flatMap((party: any) => party.inv.flatMap((inv: any) => inv.itms.map((itm: any) => [
+        party.ctin, '', inv.inum, fromPortalDate(inv.idt), inv.val, posLabel(inv.pos), 'N', '', 'Regular B2B', '', itm.itm_det.rt, itm.itm_det.txval, itm.itm_det.csamt || 0,
+      ])))
+    );
+  }
+  if (section === 'b2cl') {
+    return toCsv(
+      ['Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+      (payload.b2cl || []).flatMap((group: any) => group.inv.flatMap((inv: any) => inv.itms.map((itm: any) => [
+        inv.inum, fromPortalDate(inv.idt), inv.val, posLabel(group.pos), '', itm.itm_det.rt, itm.itm_det.txval, itm.itm_det.csamt || 0, '',
+      ])))
+    );
+  }
+  if (section === 'b2cs') {
+    return toCsv(
+      ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+      (payload.b2cs || []).map((row: any) => ['OE', posLabel(row.pos), '', row.rt, row.txval, row.csamt || 0, ''])
+    );
+  }
+  if (section === 'cdnr') {
+    return toCsv(
+      ['GSTIN/UIN of Recipient', 'Receiver Name', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Reverse Charge', 'Note Supply Type', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+      (payload.cdnr || []).flatMap((party: any) => party.nt.flatMap((nt: any) => nt.itms.map((itm: any) => [
+        party.ctin, '', nt.nt_num, fromPortalDate(nt.nt_dt), nt.ntty, posLabel(nt.pos), 'N', 'Regular B2B', nt.val, '', itm.itm_det.rt, itm.itm_det.txval, itm.itm_det.csamt || 0,
+      ])))
+    );
+  }
+  if (section === 'cdnur') {
+    return toCsv(
+      ['UR Type', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+      (payload.cdnur || []).flatMap((nt: any) => nt.itms.map((itm: any) => [
+        nt.typ, nt.nt_num, fromPortalDate(nt.nt_dt), nt.ntty, posLabel(nt.pos), nt.val, '', itm.itm_det.rt, itm.itm_det.txval, itm.itm_det.csamt || 0,
+      ]))
+    );
+  }
+  if (section === 'exemp') {
+    const labels: Record<string, string> = {
+      INTRB2B: 'Inter-State supplies to registered persons',
+      INTRAB2B: 'Intra-State supplies to registered persons',
+      INTRB2C: 'Inter-State supplies to unregistered persons',
+      INTRAB2C: 'Intra-State supplies to unregistered persons',
+    };
+    return toCsv(
+      ['Description', 'Nil Rated Supplies', 'Exempted(other than nil rated/non GST supply)', 'Non-GST Supplies'],
+      (payload.nil?.inv || []).map((row: any) => [labels[row.sply_ty] || row.sply_ty, row.nil_amt, row.expt_amt, row.ngsup_amt])
+    );
+  }
+  if (section === 'hsn_b2b' || section === 'hsn_b2c') {
+    return toCsv(
+      ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+      (payload.hsn?.[section] || []).map((row: any) => [
+        row.hsn_sc, row.desc, row.uqc, row.qty, round2(row.txval + row.iamt + row.camt + row.samt + row.csamt), row.rt, row.txval, row.iamt, row.camt, row.samt, row.csamt,
+      ])
+    );
+  }
+  return toCsv(
+    ['Nature of Document', 'Sr. No. From', 'Sr. No. To', 'Total Number', 'Cancelled'],
+    report.documents.flatMap((type) => type.series.map((row) => [type.nature, row.from, row.to, row.totnum, row.cancel]))
+  );
+};
+
+export const gstr3bCsv = (report: Awaited<ReturnType<typeof buildGstr3b>>): string => {
+  const { sup_details: sup, inter_sup: inter, itc_elg: itc, inward_sup: inward } = report.payload;
+  const taxRow = (section: string, description: string, row: any) => [section, description, row.txval ?? '', row.iamt ?? '', row.camt ?? '', row.samt ?? '', row.csamt ?? ''];
+  return toCsv(['Section', 'Description', 'Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess'], [
+    taxRow('3.1(a)', 'Outward taxable supplies (other than zero rated, nil rated and exempted)', sup.osup_det),
+    taxRow('3.1(b)', 'Outward taxable supplies (zero rated)', sup.osup_zero),
+    taxRow('3.1(c)', 'Other outward supplies (nil rated, exempted)', sup.osup_nil_exmp),
+    taxRow('3.1(d)', 'Inward supplies (liable to reverse charge)', sup.isup_rev),
+    taxRow('3.1(e)', 'Non-GST outward supplies', sup.osup_nongst),
+    ...inter.unreg_details.map((row: any) => taxRow('3.2', `Supplies to unregistered persons - ${posLabel(row.pos)}`, row)),
+    ...itc.itc_avl.map((row: any) => taxRow('4(A)', `ITC available - ${row.ty}`, row)),
+    taxRow('4(C)', 'Net ITC available', itc.itc_net),
+    ...inward.isup_details.map((row: any) => [
+      '5', `Exempt, nil rated and non-GST inward supplies - ${row.ty} (inter-state / intra-state)`, `${row.inter} / ${row.intra}`, '', '', '', '',
+    ]),
+  ]);
+};
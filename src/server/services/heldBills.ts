@@ -0,0 +1,153 @@
+import { HeldBill, HeldBillStatus, IHeldBill, IHeldBillItem } from '../models/HeldBill.js';
+import { Inventory } from '../models/Inventory.js';
+import { Product } from '../models/Product.js';
+import { writeAuditLog } from './audit.js';
+import { baseQuantityOf, resolveProductUnit, toBaseQuantity } from './units.js';
+
+export const DEFAULT_HOLD_MINUTES = 240;
+export const MAX_HOLD_MINUTES = 24 * 60;
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+const round4 = (value: number) => Number(Number(value || 0).toFixed(4));
+
+/** Base-unit quantity currently reserved by held bills, keyed by product id. */
+export const reservedQuantities = async (productIds: string[]): Promise<Map<string, number>> => {
+  const rows = await Inventory.find({ productId: { $in: productIds } }).select('productId reservedQuantity');
+  return new Map(rows.map((row: any) => [String(row.productId), Math.max(0, Number(row.reservedQuantity || 0))]));
+};
+
+export const reservedQuantityOf = async (productId: string): Promise<number> =>
+  Number((await reservedQuantities([productId])).get(String(productId)) || 0);
+
+type ReservableLine = { productId: any; baseQuantity?: number; quantity?: number; conversionFactor?: number };
+
+/**
+ * Reserves base-unit stock on the product's inventory row; held bills and sales orders share this count.
+ * Inventory rows are created on first reservation, seeded with the product's stock like the inventory routes do.
+ */
+export const reserveStock = async (items: ReservableLine[]) => {
+  for (const item of items) {
+    const product = await Product.findById(item.productId).select('stock');
+    await Inventory.findOneAndUpdate(
+      { productId: item.productId },
+      {
+        $inc: { reservedQuantity: round4(baseQuantityOf(item)) },
+        $setOnInsert: { quantity: Math.max(0, Number(product?.stock || 0)) },
+      },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+  }
+};
+
+export const releaseStock = async (items: ReservableLine[]) => {
+  for (const item of items) {
+    await Inventory.updateOne({ productId: item.productId }, { $inc: { reservedQuantity: -round4(baseQuantityOf(item)) } });
+    await Inventory.updateOne({ productId: item.productId, reservedQuantity: { $lt: 0 } }, { $set: { reservedQuantity: 0 } });
+  }
+};
+
+/**
+ * Validates a cart being put on hold and prices it in base units. Stock reserved by other held bills is not
+ * available to this one; products that allow negative stock are held without a check.
+ */
+export const buildHeldBillItems = async (
+  input: any
+): Promise<{ items: IHeldBillItem[]; totalAmount: number; error?: string }> => {
+  if (!Array.isArray(input) || input.length === 0) return { items: [], totalAmount: 0, error: 'At least one item is required' };
+
+  const items: IHeldBillItem[] = [];
+  for (const row of input) {
+    const product: any = await Product.findById(row?.productId);
+    if (!product) return { items: [], totalAmount: 0, error: `Product not found: ${row?.productId}` };
+    const quantity = Number(row?.quantity || 0);
+    if (!(quantity > 0)) return { items: [], totalAmount: 0, error: `Invalid quantity for product ${product.name}` };
+
+    let unit;
+    try {
+      unit = resolveProductUnit(product, row?.unit);
+    } catch (error: any) {
+      return { items: [], totalAmount: 0, error: error.message };
+    }
+    const baseQuantity = toBaseQuantity(quantity, unit.conversionFactor);
+    const alreadyHeld = items
+      .filter((item) => String(item.productId) === String(product._id))
+      .reduce((sum, item) => sum + item.baseQuantity, 0);
+    if (!product.allowNegativeStock) {
+      const available = Number(product.stock || 0) - (await reservedQuantityOf(String(product._id)));
+      if (available < alreadyHeld + baseQuantity) {
+        return {
+          items: [],
+          totalAmount: 0,
+          error: `Insufficient stock for product ${product.name} (Available after holds: ${Math.max(0, available)} ${product.unit})`,
+        };
+      }
+    }
+
+    const unitPrice = Number(row?.unitPrice ?? 0) > 0
+      ? Number(row.unitPrice)
+      : Number(unit.price || 0) || Number(product.price || 0) * unit.conversionFactor;
+    items.push({
+      productId: product._id,
+      productName: product.name,
+      sku: product.sku,
+      quantity,
+      unit: unit.unit,
+      conversionFactor: unit.conversionFactor,
+      baseQuantity,
+      unitPrice: round2(unitPrice),
+      gstRate: Number(row?.gstRate ?? product.gstRate ?? 0),
+    });
+  }
+
+  const totalAmount = round2(items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0));
+  return { items, totalAmount };
+};
+
+export const holdExpiry = (minutes?: any): Date => {
+  const requested = Number(minutes || 0);
+  const span = requested > 0 ? Math.min(requested, MAX_HOLD_MINUTES) : DEFAULT_HOLD_MINUTES;
+  return new Date(Date.now() + span * 60 * 1000);
+};
+
+export const placeHold = async (bill: IHeldBill) => {
+  if (bill.reservedStock) await reserveStock(bill.items);
+};
+
+/**
+ * Moves a held bill out of `held` and gives its reservation back. The status flip is conditional so two
+ * terminals resuming or an expiry sweep racing a resume release the stock only once.
+ */
+export const closeHeldBill = async (
+  billId: string,
+  status: Exclude<HeldBillStatus, 'held'>,
+  userId?: string
+): Promise<IHeldBill | null> => {
+  const now = new Date();
+  const update: any = { status };
+  if (status === 'resumed') Object.assign(update, { resumedAt: now, resumedBy: userId });
+  if (status === 'cancelled') Object.assign(update, { cancelledAt: now, cancelledBy: userId });
+
+  const bill = await HeldBill.findOneAndUpdate({ _id: billId, status: 'held' }, { $set: update }, { new: true });
+  if (bill?.reservedStock) await releaseStock(bill.items);
+  return bill;
+};
+
+/** Expires stale holds lazily; called before holds are listed and before stock is checked for a sale. */
+export const expireHeldBills = async (): Promise<number> => {
+  const stale = await HeldBill.find({ status: 'held', expiresAt: { $lte: new Date() } }).select('_id holdNumber userId');
+  let expired = 0;
+  for (const row of stale) {
+    const bill = await closeHeldBill(row._id.toString(), 'expired');
+    if (!bill) continue;
+    expired += 1;
+    await writeAuditLog({
+      module: 'sales',
+      action: 'held_bill_expired',
+      entityType: 'held_bill',
+      entityId: bill._id.toString(),
+      referenceNo: bill.holdNumber,
+      metadata: { name: bill.name, terminalId: bill.terminalId, userId: bill.userId },
+    });
+  }
+  return expired;
+};
@@ -0,0 +1,108 @@
+import { Product } from '../models/Product.js';
+import { reservedQuantityOf } from './heldBills.js';
+import { locationQuantity } from './stockLocations.js';
+import { resolveProductUnit, toBaseQuantity } from './units.js';
+
+export interface OfflineSaleMeta {
+  offlineId: string;
+  provisionalNumber?: string;
+  terminalId?: string;
+  createdAt?: Date;
+  clientTotal?: number;
+  acceptConflicts: boolean;
+}
+
+export interface OfflineSaleConflict {
+  type: 'product' | 'stock' | 'price' | 'total';
+  productId?: string;
+  productName?: string;
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+export const normalizeOfflineMeta = (input: any): { value: OfflineSaleMeta | null; error?: string } => {
+  if (!input) return { value: null };
+  const offlineId = String(input.offlineId || '').trim();
+  if (!offlineId || offlineId.length > 80) return { value: null, error: 'offline.offlineId is required (max 80 characters)' };
+
+  const createdAt = input.createdAt ? new Date(input.createdAt) : undefined;
+  return {
+    value: {
+      offlineId,
+      provisionalNumber: String(input.provisionalNumber || '').trim() || undefined,
+      terminalId: String(input.terminalId || '').trim() || undefined,
+      createdAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : undefined,
+      clientTotal: input.clientTotal !== undefined ? round2(Number(input.clientTotal)) : undefined,
+      acceptConflicts: Boolean(input.acceptConflicts),
+    },
+  };
+};
+
+/**
+ * Compares a cart billed offline with the catalog as it is now. Stock that ran out while the terminal was
+ * offline and prices below the current list price are reported together so the cashier reviews them once.
+ */
+export const detectOfflineConflicts = async (items: any[], options: { location?: any }): Promise<OfflineSaleConflict[]> => {
+  const conflicts: OfflineSaleConflict[] = [];
+  const requiredByProduct = new Map<string, { product: any; quantity: number }>();
+
+  for (const item of items) {
+    const product: any = await Product.findById(item?.productId);
+    if (!product || product.isActive === false) {
+      conflicts.push({
+        type: 'product',
+        productId: String(item?.productId || ''),
+        productName: item?.productName,
+        message: 'Product no longer exists or is inactive',
+      });
+      continue;
+    }
+
+    let unit;
+    try {
+      unit = resolveProductUnit(product, item.unit);
+    } catch (error: any) {
+      conflicts.push({ type: 'product', productId: String(product._id), productName: product.name, message: error.message });
+      continue;
+    }
+
+    const listPrice = round2(Number(unit.price || 0) || Number(product.price || 0) * unit.conversionFactor);
+    const billedPrice = round2(Number(item.unitPrice ?? listPrice));
+    if (billedPrice < listPrice) {
+      conflicts.push({
+        type: 'price',
+        productId: String(product._id),
+        productName: product.name,
+        message: `Billed at ${billedPrice}, current price is ${listPrice}`,
+        expected: listPrice,
+        actual: billedPrice,
+      });
+    }
+
+    const key = String(product._id);
+    const entry = requiredByProduct.get(key) || { product, quantity: 0 };
+    entry.quantity += toBaseQuantity(Number(item.quantity || 0), unit.conversionFactor);
+    requiredByProduct.set(key, entry);
+  }
+
+  for (const [productId, { product, quantity }] of requiredByProduct) {
+    if (product.allowNegativeStock) continue;
+    const onHand = options.location ? await locationQuantity(product, options.location) : Number(product.stock || 0);
+    const available = onHand - (await reservedQuantityOf(productId));
+    if (available < quantity) {
+      conflicts.push({
+        type: 'stock',
+        productId,
+        productName: product.name,
+        message: `Sold ${quantity} ${product.unit || ''} offline, only ${Math.max(0, available)} available now`.replace(/\s+/g, ' '),
+        expected: quantity,
+        actual: Math.max(0, available),
+      });
+    }
+  }
+
+  return conflicts;
+};
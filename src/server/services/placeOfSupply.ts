@@ -0,0 +1,56 @@
+import { User } from '../models/User.js';
+import { GST_STATE_CODES, getStateCodeFromGSTIN, normalizeStateCode, validateGSTIN } from '../utils/gst.js';
+import { loadGeneralSettings } from './appSettings.js';
+
+export interface PlaceOfSupply {
+  placeOfSupplyCode?: string;
+  placeOfSupply?: string;
+  isInterstate: boolean;
+}
+
+/** The business GSTIN: the GSTIN in the environment, then the general settings, then the user's profile. */
+export const resolveBusinessGstin = async (userId?: string): Promise<string | null> => {
+  const fromEnv = String(process.env.GSTIN || '').trim().toUpperCase();
+  if (validateGSTIN(fromEnv)) return fromEnv;
+  const stored = String((await loadGeneralSettings()).business?.gstin || '').trim().toUpperCase();
+  if (validateGSTIN(stored)) return stored;
+  if (!userId) return null;
+  const user = await User.findById(userId).select('gstin');
+  const gstin = String(user?.gstin || '').trim().toUpperCase();
+  return validateGSTIN(gstin) ? gstin : null;
+};
+
+/**
+ * The registered state of the business: the GSTIN in the environment, then BUSINESS_STATE_CODE, then the
+ * GSTIN on the user's profile.
+ */
+export const resolveBusinessStateCode = async (userId?: string): Promise<string | null> => {
+  const fromEnv = getStateCodeFromGSTIN(String(process.env.GSTIN || '').trim().toUpperCase())
+    || normalizeStateCode(process.env.BUSINESS_STATE_CODE);
+  if (fromEnv) return fromEnv;
+  const gstin = await resolveBusinessGstin(userId);
+  return gstin ? getStateCodeFromGSTIN(gstin) : null;
+};
+
+/**
+ * Place of supply for a sale: an explicit (ship-to) state wins, then the customer's GSTIN, then the state
+ * saved on the customer. Walk-in sales, and a business whose own state is unknown, stay intrastate.
+ */
+export const resolvePlaceOfSupply = async (input: {
+  customer?: any;
+  stateCode?: any;
+  userId?: string;
+}): Promise<PlaceOfSupply> => {
+  const customerGstin = String(input.customer?.gstin || '').trim().toUpperCase();
+  const placeOfSupplyCode = normalizeStateCode(input.stateCode)
+    || (customerGstin ? getStateCodeFromGSTIN(customerGstin) : null)
+    || normalizeStateCode(input.customer?.stateCode);
+  if (!placeOfSupplyCode) return { isInterstate: false };
+
+  const businessStateCode = await resolveBusinessStateCode(input.userId);
+  return {
+    placeOfSupplyCode,
+    placeOfSupply: GST_STATE_CODES[Number(placeOfSupplyCode)],
+    isInterstate: Boolean(businessStateCode && businessStateCode !== placeOfSupplyCode),
+  };
+};
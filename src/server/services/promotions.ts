@@ -0,0 +1,294 @@
+import { Promotion, PromotionType } from '../models/Promotion.js';
+import { zonedDateKey, zonedParts } from '../utils/businessTime.js';
+
+export interface PromotionLine {
+  productId: string;
+  parentProductId?: string;
+  category?: string;
+  quantity: number; // in the selected unit
+  unitPrice: number; // net of manual item discounts
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  promotionName: string;
+  type: PromotionType;
+  discount: number;
+}
+
+export interface PromotionResult {
+  lines: Array<{ promotionDiscount: number; appliedPromotions: AppliedPromotion[] }>;
+  totalDiscount: number;
+}
+
+interface UnitSlot {
+  lineIndex: number;
+  price: number;
+}
+
+const PROMOTION_TYPES: PromotionType[] = ['buy_x_get_y', 'mix_and_match', 'bundle_price', 'percent_off', 'min_bill'];
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+const minutesOf = (value?: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value || '').trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * Date range, weekdays and an optional happy-hour window, all read on the business's clock (BUSINESS_TIME_ZONE),
+ * not the server's. Start and end dates are whole days; an end time before the start wraps past midnight.
+ */
+export const isPromotionActive = (promotion: any, at: Date = new Date()): boolean => {
+  if (!promotion?.isActive) return false;
+  const schedule = promotion.schedule || {};
+  // Dates are saved from date-only input, i.e. UTC midnight of the chosen day.
+  const today = zonedDateKey(at);
+  if (schedule.startDate && new Date(schedule.startDate).toISOString().slice(0, 10) > today) return false;
+  if (schedule.endDate && new Date(schedule.endDate).toISOString().slice(0, 10) < today) return false;
+
+  const local = zonedParts(at);
+  const days: number[] = Array.isArray(schedule.daysOfWeek) ? schedule.daysOfWeek : [];
+  if (days.length > 0 && !days.includes(local.weekday)) return false;
+
+  const start = minutesOf(schedule.startTime);
+  const end = minutesOf(schedule.endTime);
+  if (start === null || end === null || start === end) return true;
+  const now = local.hour * 60 + local.minute;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+const isEligible = (promotion: any, line: PromotionLine): boolean => {
+  const productIds: string[] = (promotion.productIds || []).map(String);
+  const categories: string[] = promotion.categories || [];
+  if (productIds.length === 0 && categories.length === 0) return true;
+  if (productIds.includes(String(line.productId))) return true;
+  if (line.parentProductId && productIds.includes(String(line.parentProductId))) return true;
+  return Boolean(line.category && categories.includes(line.category));
+};
+
+/**
+ * Evaluates active promotions against priced cart lines. Line-level rules run by priority and each unit
+ * can be claimed by one rule only; a minimum-bill rule is then applied on the discounted total and spread
+ * across lines in proportion to their value.
+ */
+export const applyPromotions = async (lines: PromotionLine[], at: Date = new Date()): Promise<PromotionResult> => {
+  const result: PromotionResult = {
+    lines: lines.map(() => ({ promotionDiscount: 0, appliedPromotions: [] })),
+    totalDiscount: 0,
+  };
+  if (lines.length === 0) return result;
+
+  const promotions = (await Promotion.find({ isActive: true }).sort({ priority: -1, createdAt: 1 })).filter((promotion) =>
+    isPromotionActive(promotion, at)
+  );
+  if (promotions.length === 0) return result;
+
+  const consumed = lines.map(() => 0);
+  const remainingQuantity = (index: number) => Math.max(0, Number(lines[index].quantity || 0) - consumed[index]);
+
+  const addDiscount = (lineIndex: number, promotion: any, amount: number) => {
+    const discount = round2(amount);
+    if (discount <= 0) return;
+    const line = result.lines[lineIndex];
+    const existing = line.appliedPromotions.find((row) => row.promotionId === String(promotion._id));
+    if (existing) {
+      existing.discount = round2(existing.discount + discount);
+    } else {
+      line.appliedPromotions.push({
+        promotionId: String(promotion._id),
+        promotionName: promotion.name,
+        type: promotion.type,
+        discount,
+      });
+    }
+    line.promotionDiscount = round2(line.promotionDiscount + discount);
+  };
+
+  // Whole units still unclaimed, most expensive first.
+  const unitSlots = (promotion: any, productIds?: string[]): UnitSlot[] => {
+    const slots: UnitSlot[] = [];
+    lines.forEach((line, lineIndex) => {
+      const matches = productIds
+        ? productIds.includes(String(line.productId)) || Boolean(line.parentProductId && productIds.includes(String(line.parentProductId)))
+        : isEligible(promotion, line);
+      if (!matches) return;
+      const units = Math.floor(remainingQuantity(lineIndex) + 1e-9);
+      for (let i = 0; i < units; i += 1) slots.push({ lineIndex, price: Number(line.unitPrice || 0) });
+    });
+    return slots.sort((a, b) => b.price - a.price);
+  };
+
+  const spreadOver = (promotion: any, slots: UnitSlot[], discount: number) => {
+    const value = slots.reduce((sum, slot) => sum + slot.price, 0);
+    if (value <= 0 || discount <= 0) return;
+    const byLine = new Map<number, number>();
+    for (const slot of slots) byLine.set(slot.lineIndex, (byLine.get(slot.lineIndex) || 0) + slot.price);
+    for (const [lineIndex, lineValue] of byLine) addDiscount(lineIndex, promotion, (discount * lineValue) / value);
+  };
+
+  const claim = (slots: UnitSlot[]) => {
+    for (const slot of slots) consumed[slot.lineIndex] += 1;
+  };
+
+  for (const promotion of promotions as any[]) {
+    switch (promotion.type as PromotionType) {
+      case 'buy_x_get_y': {
+        const buy = Math.floor(Number(promotion.buyQuantity || 0));
+        const get = Math.floor(Number(promotion.getQuantity || 0));
+        const percent = Math.min(100, Math.max(0, Number(promotion.getDiscountPercent ?? 100)));
+        if (buy <= 0 || get <= 0 || percent <= 0) break;
+        const slots = unitSlots(promotion);
+        const groups = Math.floor(slots.length / (buy + get));
+        for (let g = 0; g < groups; g += 1) {
+          const group = slots.slice(g * (buy + get), (g + 1) * (buy + get));
+          for (const slot of group.slice(buy)) addDiscount(slot.lineIndex, promotion, (slot.price * percent) / 100);
+          claim(group);
+        }
+        break;
+      }
+      case 'mix_and_match': {
+        const size = Math.floor(Number(promotion.mixQuantity || 0));
+        const price = Number(promotion.mixPrice || 0);
+        if (size <= 0) break;
+        const slots = unitSlots(promotion);
+        const groups = Math.floor(slots.length / size);
+        for (let g = 0; g < groups; g += 1) {
+          const group = slots.slice(g * size, (g + 1) * size);
+          const value = group.reduce((sum, slot) => sum + slot.price, 0);
+          if (value <= price) break;
+          spreadOver(promotion, group, value - price);
+          claim(group);
+        }
+        break;
+      }
+      case 'bundle_price': {
+        const components = (promotion.bundleItems || []).filter((row: any) => row.productId && Number(row.quantity || 0) > 0);
+        if (components.length === 0) break;
+        const componentSlots = components.map((row: any) => unitSlots(promotion, [String(row.productId)]));
+        const sets = Math.min(
+          ...components.map((row: any, i: number) => Math.floor(componentSlots[i].length / Math.floor(Number(row.quantity))))
+        );
+        for (let s = 0; s < sets; s += 1) {
+          const group: UnitSlot[] = [];
+          components.forEach((row: any, i: number) => {
+            const qty = Math.floor(Number(row.quantity));
+            group.push(...componentSlots[i].slice(s * qty, (s + 1) * qty));
+          });
+          const value = group.reduce((sum, slot) => sum + slot.price, 0);
+          if (value <= Number(promotion.bundlePrice || 0)) break;
+          spreadOver(promotion, group, value - Number(promotion.bundlePrice || 0));
+          claim(group);
+        }
+        break;
+      }
+      case 'percent_off': {
+        const percent = Math.min(100, Math.max(0, Number(promotion.discountPercent || 0)));
+        const perUnit = Math.max(0, Number(promotion.discountAmount || 0));
+        lines.forEach((line, lineIndex) => {
+          const quantity = remainingQuantity(lineIndex);
+          if (quantity <= 0 || !isEligible(promotion, line)) return;
+          const price = Number(line.unitPrice || 0);
+          const unitDiscount = percent > 0 ? (price * percent) / 100 : Math.min(price, perUnit);
+          if (unitDiscount <= 0) return;
+          addDiscount(lineIndex, promotion, unitDiscount * quantity);
+          consumed[lineIndex] += quantity;
+        });
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  const billPromotion = (promotions as any[]).find((promotion) => {
+    if (promotion.type !== 'min_bill') return false;
+    const base = lines.reduce(
+      (sum, line, i) => sum + Number(line.unitPrice || 0) * Number(line.quantity || 0) - result.lines[i].promotionDiscount,
+      0
+    );
+    return base > 0 && base >= Number(promotion.minBillAmount || 0);
+  });
+  if (billPromotion) {
+    const bases = lines.map((line, i) =>
+      Math.max(0, Number(line.unitPrice || 0) * Number(line.quantity || 0) - result.lines[i].promotionDiscount)
+    );
+    const base = bases.reduce((sum, value) => sum + value, 0);
+    let discount = Number(billPromotion.discountPercent || 0) > 0
+      ? (base * Number(billPromotion.discountPercent)) / 100
+      : Number(billPromotion.discountAmount || 0);
+    if (Number(billPromotion.maxDiscountAmount || 0) > 0) discount = Math.min(discount, Number(billPromotion.maxDiscountAmount));
+    discount = Math.min(discount, base);
+    if (discount > 0) {
+      bases.forEach((value, lineIndex) => addDiscount(lineIndex, billPromotion, (discount * value) / base));
+    }
+  }
+
+  result.totalDiscount = round2(result.lines.reduce((sum, line) => sum + line.promotionDiscount, 0));
+  return result;
+};
+
+export const normalizePromotionInput = (input: any): { value: any; error?: string } => {
+  const type = String(input?.type || '').trim() as PromotionType;
+  if (!PROMOTION_TYPES.includes(type)) return { value: null, error: `type must be one of ${PROMOTION_TYPES.join(', ')}` };
+  const name = String(input?.name || '').trim();
+  if (!name) return { value: null, error: 'Promotion name is required' };
+
+  const schedule = input?.schedule || {};
+  for (const key of ['startTime', 'endTime']) {
+    if (schedule[key] && minutesOf(schedule[key]) === null) return { value: null, error: `${key} must be in HH:mm format` };
+  }
+
+  const value: any = {
+    name,
+    code: String(input?.code || '').trim() || undefined,
+    description: String(input?.description || '').trim() || undefined,
+    type,
+    productIds: Array.isArray(input?.productIds) ? input.productIds.map(String).filter(Boolean) : [],
+    categories: Array.isArray(input?.categories) ? input.categories.map(String).filter(Boolean) : [],
+    buyQuantity: Number(input?.buyQuantity || 0),
+    getQuantity: Number(input?.getQuantity || 0),
+    getDiscountPercent: Number(input?.getDiscountPercent ?? 100),
+    mixQuantity: Number(input?.mixQuantity || 0),
+    mixPrice: Number(input?.mixPrice || 0),
+    bundleItems: Array.isArray(input?.bundleItems)
+      ? input.bundleItems
+        .filter((row: any) => row?.productId)
+        .map((row: any) => ({ productId: String(row.productId), quantity: Math.max(1, Math.floor(Number(row.quantity || 1))) }))
+      : [],
+    bundlePrice: Number(input?.bundlePrice || 0),
+    discountPercent: Number(input?.discountPercent || 0),
+    discountAmount: Number(input?.discountAmount || 0),
+    minBillAmount: Number(input?.minBillAmount || 0),
+    maxDiscountAmount: Number(input?.maxDiscountAmount || 0),
+    priority: Number(input?.priority || 0),
+    schedule: {
+      startDate: schedule.startDate ? new Date(schedule.startDate) : undefined,
+      endDate: schedule.endDate ? new Date(schedule.endDate) : undefined,
+      daysOfWeek: Array.isArray(schedule.daysOfWeek)
+        ? schedule.daysOfWeek.map(Number).filter((day: number) => Number.isInteger(day) && day >= 0 && day <= 6)
+        : [],
+      startTime: schedule.startTime || undefined,
+      endTime: schedule.endTime || undefined,
+    },
+    isActive: input?.isActive === undefined ? true : Boolean(input.isActive),
+  };
+
+  if (type === 'buy_x_get_y' && (value.buyQuantity < 1 || value.getQuantity < 1)) {
+    return { value: null, error: 'Buy and get quantities must be at least 1' };
+  }
+  if (type === 'mix_and_match' && (value.mixQuantity < 2 || value.mixPrice <= 0)) {
+    return { value: null, error: 'Mix and match needs a quantity of at least 2 and a price' };
+  }
+  if (type === 'bundle_price' && (value.bundleItems.length === 0 || value.bundlePrice <= 0)) {
+    return { value: null, error: 'Bundle needs at least one item and a bundle price' };
+  }
+  if (['percent_off', 'min_bill'].includes(type) && value.discountPercent <= 0 && value.discountAmount <= 0) {
+    return { value: null, error: 'Discount percent or amount is required' };
+  }
+  if (type === 'min_bill' && value.minBillAmount <= 0) {
+    return { value: null, error: 'Minimum bill amount is required' };
+  }
+  return { value };
+};
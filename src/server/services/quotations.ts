@@ -0,0 +1,56 @@
+import { Quotation, IQuotation } from '../models/Quotation.js';
+
+const DEFAULT_VALIDITY_DAYS = 15;
+
+export const CONVERTIBLE_QUOTATION_STATUSES = ['draft', 'sent', 'accepted'] as const;
+
+// A quote is valid through the whole of its last day.
+export const quotationValidUntil = (value: any, validityDays?: any): Date => {
+  let date = value ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    const days = Number(validityDays ?? DEFAULT_VALIDITY_DAYS);
+    date = new Date();
+    date.setDate(date.getDate() + (Number.isFinite(days) && days >= 0 ? Math.floor(days) : DEFAULT_VALIDITY_DAYS));
+  }
+  date.setHours(23, 59, 59, 999);
+  return date;
+};
+
+/** Open quotes past their validity date are marked expired when quotations are next listed or converted. */
+export const expireQuotations = async (): Promise<number> => {
+  const result = await Quotation.updateMany(
+    { status: { $in: CONVERTIBLE_QUOTATION_STATUSES }, validUntil: { $lt: new Date() } },
+    { $set: { status: 'expired' } }
+  );
+  return result.modifiedCount || 0;
+};
+
+/**
+ * Turns quoted lines back into cart lines for POST /api/sales. Lines carry the price they were quoted at and their
+ * discounts; processItems then applies current stock and tax rates and flags prices now below list for override.
+ */
+export const quotationLinesForSale = (quotation: IQuotation) =>
+  quotation.items.map((item) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    unit: item.unit,
+    unitPrice: item.quotedUnitPrice ?? item.listPrice ?? item.unitPrice,
+    discountAmount: item.discountAmount || 0,
+    discountPercentage: item.discountPercentage || 0,
+  }));
+
+/** Fields a converted sale inherits from its quotation; anything sent with the conversion request wins. */
+export const quotationSaleDefaults = (quotation: IQuotation) => ({
+  items: quotationLinesForSale(quotation),
+  customerId: quotation.customerId,
+  customerName: quotation.customerName,
+  customerPhone: quotation.customerPhone,
+  customerEmail: quotation.customerEmail,
+  placeOfSupplyCode: quotation.placeOfSupplyCode,
+  pricingMode: quotation.pricingMode,
+  taxMode: quotation.taxMode,
+  discountAmount: quotation.discountAmount,
+  discountPercentage: quotation.discountPercentage,
+  applyRoundOff: quotation.applyRoundOff,
+  notes: quotation.notes,
+});
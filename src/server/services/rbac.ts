@@ -58,9 +58,15 @@ export const ensureDefaultRolesAndPermissions = async (): Promise<void> => {
     }
 
     const normalizedExisting = normalizePermissions(existing.permissions as unknown as Map<string, boolean>);
-    const needsUpdate =
-      !existing.isSystemRole ||
-      PAGE_KEYS.some((key) => typeof (existing.permissions as unknown as Map<string, boolean>)?.get?.(key) !== 'boolean');
+    const defaults = getDefaultPermissionsForRole(role);
+    const missingKeys = PAGE_KEYS.filter(
+      (key) => typeof (existing.permissions as unknown as Map<string, boolean>)?.get?.(key) !== 'boolean'
+    );
+    // Pages added after the role was seeded pick up the role default instead of staying hidden.
+    for (const key of missingKeys) {
+      normalizedExisting[key] = defaults[key];
+    }
+    const needsUpdate = !existing.isSystemRole || missingKeys.length > 0;
 
     if (needsUpdate) {
       existing.isSystemRole = true;
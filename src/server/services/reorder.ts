@@ -0,0 +1,156 @@
+import { Product } from '../models/Product.js';
+import { Sale } from '../models/Sale.js';
+import { Supplier } from '../models/Supplier.js';
+import { PurchaseOrder } from '../models/PurchaseOrder.js';
+
+export interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  sku: string;
+  category?: string;
+  unit?: string;
+  onHand: number;
+  onOrder: number;
+  minStock: number;
+  soldQuantity: number;
+  dailyVelocity: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  suggestedQuantity: number;
+  unitCost: number;
+  estimatedValue: number;
+  daysOfCover: number | null;
+}
+
+export interface ReorderSupplierGroup {
+  supplierId: string | null;
+  supplierName: string;
+  items: ReorderSuggestion[];
+  totalValue: number;
+}
+
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+const round2 = (value: number) => Number(Number(value || 0).toFixed(2));
+const round4 = (value: number) => Number(Number(value || 0).toFixed(4));
+
+// Open purchase orders still to be received count towards cover so the same need is not ordered twice.
+const openOrderQuantities = async (): Promise<Map<string, number>> => {
+  const rows = await PurchaseOrder.aggregate([
+    { $match: { status: { $in: ['draft', 'posted', 'partially_received'] } } },
+    { $unwind: '$items' },
+    {
+      $group: {
+        _id: '$items.productId',
+        qty: { $sum: { $max: [0, { $subtract: ['$items.quantity', { $ifNull: ['$items.receivedQuantity', 0] }] }] } },
+      },
+    },
+  ]);
+  return new Map(rows.map((row: any) => [String(row._id), round4(row.qty)]));
+};
+
+const soldQuantities = async (since: Date): Promise<Map<string, number>> => {
+  const rows = await Sale.aggregate([
+    {
+      $match: {
+        createdAt: { $gte: since },
+        $or: [{ invoiceStatus: 'posted' }, { invoiceStatus: null }, { invoiceStatus: { $exists: false } }],
+        saleStatus: { $in: ['completed', 'returned'] },
+      },
+    },
+    { $unwind: '$items' },
+    { $group: { _id: '$items.productId', qty: { $sum: { $ifNull: ['$items.baseQuantity', '$items.quantity'] } } } },
+  ]);
+  return new Map(rows.map((row: any) => [String(row._id), round4(row.qty)]));
+};
+
+/**
+ * Reorder point = daily velocity x lead time + minStock (safety stock).
+ * When on-hand plus on-order falls to the reorder point, order enough to cover the lead time and
+ * `coverDays` of demand on top of safety stock, never less than the product's reorder quantity.
+ */
+export const buildReorderSuggestions = async (options: {
+  windowDays?: number;
+  coverDays?: number;
+  supplierId?: string;
+  category?: string;
+  includeAll?: boolean;
+}): Promise<ReorderSupplierGroup[]> => {
+  const windowDays = Math.max(1, Number(options.windowDays || 30));
+  const coverDays = Math.max(0, Number(options.coverDays ?? windowDays));
+  const since = new Date();
+  since.setDate(since.getDate() - windowDays);
+
+  // Variant parents hold no stock; their variants are suggested instead.
+  const productFilter: any = { isActive: { $ne: false }, hasVariants: { $ne: true } };
+  if (options.category) productFilter.category = options.category;
+  if (options.supplierId) productFilter.preferredSupplierId = options.supplierId;
+
+  const [products, sold, onOrder, suppliers] = await Promise.all([
+    Product.find(productFilter),
+    soldQuantities(since),
+    openOrderQuantities(),
+    Supplier.find({ isActive: true }),
+  ]);
+  const supplierMap = new Map(suppliers.map((supplier) => [supplier._id.toString(), supplier]));
+
+  const groups = new Map<string, ReorderSupplierGroup>();
+  for (const product of products as any[]) {
+    const productId = product._id.toString();
+    const supplier = product.preferredSupplierId ? supplierMap.get(String(product.preferredSupplierId)) : undefined;
+    const leadTimeDays = Number(product.leadTimeDays || 0) || Number(supplier?.leadTimeDays || 0) || DEFAULT_LEAD_TIME_DAYS;
+
+    const onHand = Number(product.stock || 0);
+    const pending = Number(onOrder.get(productId) || 0);
+    const minStock = Number(product.minStock || 0);
+    const soldQuantity = Number(sold.get(productId) || 0);
+    const dailyVelocity = soldQuantity / windowDays;
+    const reorderPoint = dailyVelocity * leadTimeDays + minStock;
+    const position = onHand + pending;
+
+    const needed = dailyVelocity * (leadTimeDays + coverDays) + minStock - position;
+    const reorderQuantity = Number(product.reorderQuantity || 0);
+    const belowPoint = position <= reorderPoint;
+    const suggestedQuantity = belowPoint && needed > 0 ? Math.max(Math.ceil(needed), reorderQuantity) : 0;
+    if (!suggestedQuantity && !options.includeAll) continue;
+
+    const unitCost = Number(product.cost || 0);
+    const groupKey = supplier ? supplier._id.toString() : 'unassigned';
+    const group = groups.get(groupKey) || {
+      supplierId: supplier ? supplier._id.toString() : null,
+      supplierName: supplier ? supplier.name : 'No preferred supplier',
+      items: [],
+      totalValue: 0,
+    };
+    group.items.push({
+      productId,
+      productName: product.name,
+      sku: product.sku,
+      category: product.category,
+      unit: product.unit,
+      onHand: round4(onHand),
+      onOrder: round4(pending),
+      minStock,
+      soldQuantity: round4(soldQuantity),
+      dailyVelocity: round4(dailyVelocity),
+      leadTimeDays,
+      reorderPoint: round4(reorderPoint),
+      reorderQuantity,
+      suggestedQuantity,
+      unitCost,
+      estimatedValue: round2(suggestedQuantity * unitCost),
+      daysOfCover: dailyVelocity > 0 ? round2(position / dailyVelocity) : null,
+    });
+    group.totalValue = round2(group.totalValue + suggestedQuantity * unitCost);
+    groups.set(groupKey, group);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, items: group.items.sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity)) }))
+    .sort((a, b) => {
+      if (!a.supplierId) return 1;
+      if (!b.supplierId) return -1;
+      return a.supplierName.localeCompare(b.supplierName);
+    });
+};
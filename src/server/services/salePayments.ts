@@ -0,0 +1,148 @@
+import { Sale } from '../models/Sale.js';
+
+export const SALE_PAYMENT_METHODS = ['cash', 'card', 'upi', 'cheque', 'online', 'bank_transfer'] as const;
+export type SalePaymentMethod = (typeof SALE_PAYMENT_METHODS)[number];
+
+export interface SaleTender {
+  method: SalePaymentMethod;
+  amount: number; // applied to the invoice, net of change
+  tenderedAmount?: number; // cash handed over, before change
+  reference?: string;
+  cardLast4?: string;
+  upiRef?: string;
+  receiptVoucherId?: string;
+  receiptNumber?: string;
+  paidAt?: Date;
+}
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+
+const normalizeMethod = (value: any): SalePaymentMethod | null => {
+  const method = String(value || '').toLowerCase().trim();
+  return SALE_PAYMENT_METHODS.includes(method as SalePaymentMethod) ? (method as SalePaymentMethod) : null;
+};
+
+/**
+ * Validates the tenders offered against the amount due. Only cash can be over-tendered; the excess is
+ * returned as change and deducted from the cash tenders so `amount` always sums to what the invoice received.
+ */
+export const normalizeSaleTenders = (
+  input: any,
+  amountDue: number,
+  options: { requireFullPayment: boolean }
+): { payments: SaleTender[]; paidAmount: number; changeDue: number; error?: string } => {
+  const empty = { payments: [], paidAmount: 0, changeDue: 0 };
+  if (!Array.isArray(input)) return { ...empty, error: 'payments must be an array' };
+
+  const payments: SaleTender[] = [];
+  for (const row of input) {
+    const method = normalizeMethod(row?.method);
+    const amount = round2(Number(row?.amount || 0));
+    if (!method) return { ...empty, error: `Unsupported payment method: ${row?.method}` };
+    if (amount <= 0) continue;
+    const cardLast4 = String(row?.cardLast4 || '').trim();
+    if (cardLast4 && !/^\d{4}$/.test(cardLast4)) return { ...empty, error: 'Card last 4 digits must be exactly 4 digits' };
+    payments.push({
+      method,
+      amount,
+      reference: String(row?.reference || '').trim() || undefined,
+      cardLast4: method === 'card' && cardLast4 ? cardLast4 : undefined,
+      upiRef: method === 'upi' ? String(row?.upiRef || row?.reference || '').trim() || undefined : undefined,
+    });
+  }
+
+  const due = round2(Math.max(0, amountDue));
+  const tendered = round2(payments.reduce((sum, row) => sum + row.amount, 0));
+  const nonCash = round2(payments.filter((row) => row.method !== 'cash').reduce((sum, row) => sum + row.amount, 0));
+  if (nonCash > due) {
+    return { ...empty, error: `Non-cash tenders (${nonCash}) exceed the bill amount (${due})` };
+  }
+  if (options.requireFullPayment && tendered < due) {
+    return { ...empty, error: `Tendered amount ${tendered} is less than the bill amount ${due}` };
+  }
+
+  const changeDue = round2(Math.max(0, tendered - due));
+  let change = changeDue;
+  for (let i = payments.length - 1; i >= 0 && change > 0; i -= 1) {
+    if (payments[i].method !== 'cash') continue;
+    const reduce = Math.min(change, payments[i].amount);
+    payments[i].tenderedAmount = payments[i].amount;
+    payments[i].amount = round2(payments[i].amount - reduce);
+    change = round2(change - reduce);
+  }
+
+  return {
+    payments: payments.filter((row) => row.amount > 0),
+    paidAmount: round2(Math.min(tendered, due)),
+    changeDue,
+  };
+};
+
+/** The header payment method kept for older consumers: the tender that carried the largest amount. */
+export const primaryTenderMethod = (payments: SaleTender[], fallback: SalePaymentMethod): SalePaymentMethod =>
+  payments.reduce<SaleTender | null>((best, row) => (!best || row.amount > best.amount ? row : best), null)?.method || fallback;
+
+/**
+ * Tenders of a sale for cash/bank reporting. Sales saved before split tender have no `payments` array and
+ * are treated as one tender of the header method for the full amount at the time of the sale.
+ */
+export const saleTenders = (sale: any): SaleTender[] => {
+  if (Array.isArray(sale?.payments)) {
+    return sale.payments.map((row: any) => ({ ...(row.toObject ? row.toObject() : row), paidAt: row.paidAt || sale.createdAt }));
+  }
+  return [
+    {
+      method: normalizeMethod(sale?.paymentMethod) || 'cash',
+      amount: round2(Number(sale?.totalAmount || 0)),
+      paidAt: sale?.createdAt,
+    },
+  ];
+};
+
+const tenderStages = (start: Date, end: Date, method?: string) => [
+  {
+    $match: {
+      invoiceStatus: 'posted',
+      $or: [{ createdAt: { $gte: start, $lte: end } }, { 'payments.paidAt': { $gte: start, $lte: end } }],
+    },
+  },
+  {
+    $project: {
+      userId: 1,
+      tenders: {
+        $cond: [
+          { $isArray: '$payments' },
+          '$payments',
+          [{ method: '$paymentMethod', amount: '$totalAmount', paidAt: '$createdAt' }],
+        ],
+      },
+    },
+  },
+  { $unwind: '$tenders' },
+  {
+    $match: {
+      'tenders.paidAt': { $gte: start, $lte: end },
+      ...(method ? { 'tenders.method': method } : {}),
+    },
+  },
+];
+
+/** Sums tenders received in a period, grouped by the billing user or by payment method. */
+export const aggregateSaleTenders = async (
+  start: Date,
+  end: Date,
+  options: { method?: string; groupBy: 'userId' | 'method' }
+): Promise<Array<{ _id: string; invoices: number; total: number }>> => {
+  const rows = await Sale.aggregate([
+    ...tenderStages(start, end, options.method),
+    {
+      $group: {
+        _id: options.groupBy === 'method' ? '$tenders.method' : '$userId',
+        saleIds: { $addToSet: '$_id' },
+        total: { $sum: '$tenders.amount' },
+      },
+    },
+    { $project: { invoices: { $size: '$saleIds' }, total: 1 } },
+  ]);
+  return rows.map((row: any) => ({ _id: row._id, invoices: Number(row.invoices || 0), total: round2(row.total) }));
+};
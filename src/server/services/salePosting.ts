@@ -0,0 +1,137 @@
+import { ReceiptVoucher } from '../models/ReceiptVoucher.js';
+import { generateNumber } from './numbering.js';
+import { postCustomerLedgerEntry } from './customerLedger.js';
+import { consumeBatchAllocations, ensureBatchAllocations } from './stockBatches.js';
+import { applyStockMovement } from './stockMovements.js';
+import { baseQuantityOf } from './units.js';
+import { SaleTender } from './salePayments.js';
+
+export const allowedPaymentMethods = ['cash', 'card', 'upi', 'cheque', 'online', 'bank_transfer'] as const;
+export type AllowedPaymentMethod = (typeof allowedPaymentMethods)[number];
+
+const roundTo2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const normalizePaymentMethod = (value: any): AllowedPaymentMethod => {
+  const method = String(value || 'cash').toLowerCase().trim();
+  if (allowedPaymentMethods.includes(method as AllowedPaymentMethod)) return method as AllowedPaymentMethod;
+  return 'cash';
+};
+
+export const decrementStockForItems = async (items: any[], location: any, sale: any, userId?: string) => {
+  for (const item of items) {
+    await applyStockMovement(String(item.productId), -baseQuantityOf(item), {
+      movementType: 'sale',
+      location,
+      referenceType: 'sale',
+      referenceId: sale._id.toString(),
+      referenceNo: sale.invoiceNumber || sale.saleNumber,
+      batchNo: item.batchNo,
+      userId,
+    });
+    if (Array.isArray(item.batchAllocations) && item.batchAllocations.length) {
+      item.batchAllocations = await ensureBatchAllocations(
+        String(item.productId),
+        baseQuantityOf(item),
+        item.batchAllocations.map((row: any) => ({ batchNo: row.batchNo, expiryDate: row.expiryDate, quantity: row.quantity }))
+      );
+      await consumeBatchAllocations(String(item.productId), item.batchAllocations);
+    }
+  }
+};
+
+// One receipt voucher per tender so each amount lands in its own cash or bank book.
+export const createReceipt = async (input: {
+  payments: SaleTender[];
+  sale: any;
+  customerId?: string;
+  customerName?: string;
+  createdBy?: string;
+  notes?: string;
+  sourceType?: 'settlement' | 'sale_tender';
+}) => {
+  const receipts: any[] = [];
+  for (const payment of input.payments) {
+    if (Number(payment.amount || 0) <= 0) continue;
+    const voucherNumber = await generateNumber('receipt_voucher', { prefix: 'RV-', datePart: true, padTo: 5 });
+    const tenderNote = [
+      payment.reference,
+      payment.cardLast4 ? `Card xx${payment.cardLast4}` : '',
+      payment.upiRef ? `UPI ${payment.upiRef}` : '',
+    ].filter(Boolean).join(', ');
+
+    const receipt = await ReceiptVoucher.create({
+      voucherNumber,
+      customerId: input.customerId || undefined,
+      customerName: input.customerName,
+      entryDate: payment.paidAt || new Date(),
+      amount: roundTo2(payment.amount),
+      unappliedAmount: 0,
+      mode: payment.method,
+      sourceType: input.sourceType || 'sale_tender',
+      isAdvance: false,
+      allocations: [
+        {
+          saleId: input.sale._id.toString(),
+          saleNumber: input.sale.invoiceNumber || input.sale.saleNumber,
+          amount: roundTo2(payment.amount),
+        },
+      ],
+      notes: [input.notes, tenderNote].filter(Boolean).join(' - ') || undefined,
+      createdBy: input.createdBy,
+    });
+    payment.receiptVoucherId = receipt._id.toString();
+    payment.receiptNumber = voucherNumber;
+    receipts.push(receipt);
+  }
+
+  return receipts;
+};
+
+export const postSaleFinancials = async (sale: any, opts: { userId?: string; paidAmount: number }) => {
+  const paidAmount = roundTo2(Number(opts.paidAmount || 0));
+  if (!sale.customerId) {
+    return;
+  }
+
+  if (sale.invoiceType === 'credit' && Number(sale.totalAmount || 0) > 0) {
+    await postCustomerLedgerEntry({
+      customerId: sale.customerId,
+      entryType: 'invoice',
+      referenceType: 'sale',
+      referenceId: sale._id.toString(),
+      referenceNo: sale.invoiceNumber || sale.saleNumber,
+      narration: 'Invoice posted',
+      debit: Number(sale.totalAmount || 0),
+      credit: 0,
+      dueDate: sale.dueDate || undefined,
+      createdBy: opts.userId,
+    });
+  }
+
+  if (paidAmount > 0) {
+    if (!Array.isArray(sale.payments) || sale.payments.length === 0) {
+      sale.payments = [{ method: normalizePaymentMethod(sale.paymentMethod), amount: paidAmount, paidAt: new Date() }];
+    }
+    await createReceipt({
+      payments: sale.payments,
+      sale,
+      customerId: sale.customerId || undefined,
+      customerName: sale.customerName,
+      createdBy: opts.userId,
+      notes: 'Invoice payment',
+    });
+    sale.markModified('payments');
+
+    await postCustomerLedgerEntry({
+      customerId: sale.customerId,
+      entryType: 'payment',
+      referenceType: 'sale',
+      referenceId: sale._id.toString(),
+      referenceNo: sale.invoiceNumber || sale.saleNumber,
+      narration: 'Payment received against invoice',
+      debit: 0,
+      credit: paidAmount,
+      createdBy: opts.userId,
+    });
+  }
+};
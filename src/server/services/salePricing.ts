@@ -0,0 +1,260 @@
+import { Product } from '../models/Product.js';
+import { BatchAllocation, allocateBatchesFEFO } from './stockBatches.js';
+import { locationQuantity } from './stockLocations.js';
+import { resolveProductUnit, toBaseQuantity } from './units.js';
+import { applyPromotions } from './promotions.js';
+import { expireHeldBills, reservedQuantityOf } from './heldBills.js';
+import { computeLineTax, resolveTaxProfiles } from './taxGroups.js';
+
+const roundTo2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const applyRoundOffIfNeeded = (grossTotal: number, applyRoundOff: boolean) => {
+  if (!applyRoundOff) {
+    return {
+      grossTotal: roundTo2(grossTotal),
+      roundOffAmount: 0,
+      totalAmount: roundTo2(grossTotal),
+    };
+  }
+
+  const rounded = Math.round(grossTotal);
+  const roundOffAmount = roundTo2(rounded - grossTotal);
+  return {
+    grossTotal: roundTo2(grossTotal),
+    roundOffAmount,
+    totalAmount: roundTo2(rounded),
+  };
+};
+
+const customerPriceForProduct = (customer: any, productId: string): number | null => {
+  if (!customer?.priceOverrides || !Array.isArray(customer.priceOverrides)) return null;
+  const row = customer.priceOverrides.find((item: any) => String(item.productId) === String(productId));
+  if (!row) return null;
+  return Number(row.unitPrice || 0);
+};
+
+/**
+ * Prices cart lines the way an invoice is billed: unit conversion, customer/wholesale price lists, line discounts,
+ * promotions and tax from the product's tax group (CGST + SGST or IGST for an interstate place of supply, cess
+ * and TCS). Sales and quotations both go through here so a quote converts at the figures it showed.
+ */
+export const processItems = async (
+  items: any[],
+  options: {
+    validateStock: boolean;
+    allowNegativeStock: boolean;
+    pricingMode: 'retail' | 'wholesale' | 'customer';
+    taxMode: 'inclusive' | 'exclusive';
+    customer?: any;
+    location?: any;
+    promotionAt?: Date;
+    isInterstate?: boolean; // place of supply outside the business state: IGST instead of CGST + SGST
+    taxDate?: Date; // picks the tax group in force; defaults to promotionAt, then now
+    ownReservations?: Map<string, number>; // base quantity already reserved for this sale, e.g. by the order it delivers
+    stockIssued?: boolean; // lines carry the batches that already left (a challan): no FEFO, batch or expiry checks
+  }
+): Promise<{
+  processedItems: any[];
+  subtotal: number;
+  totalTax: number; // GST (or VAT) plus cess
+  totalCess: number;
+  totalTcs: number; // collected over and above the invoice value
+  promotionDiscount: number;
+  itemDiscountPercentages: number[];
+  priceOverrideRequired: boolean;
+}> => {
+  let subtotal = 0;
+  let totalTax = 0;
+  let totalCess = 0;
+  let totalTcs = 0;
+  let priceOverrideRequired = false;
+  const itemDiscountPercentages: number[] = [];
+  const processedItems: any[] = [];
+  const pricedLines: Array<{ item: any; product: any; line: any; unitPrice: number }> = [];
+  if (options.validateStock) await expireHeldBills();
+
+  for (const item of items) {
+    const product = await Product.findById(item.productId);
+    if (!product) {
+      throw new Error(`Product not found: ${item.productId}`);
+    }
+
+    if ((product as any).hasVariants) {
+      throw new Error(`Variant selection is required for product ${product.name}`);
+    }
+
+    const quantity = Number(item.quantity || 0);
+    if (quantity <= 0) {
+      throw new Error(`Invalid quantity for product ${product.name}`);
+    }
+    const saleUnit = resolveProductUnit(product, item.unit);
+    const baseQuantity = toBaseQuantity(quantity, saleUnit.conversionFactor);
+
+    const allowNegative = options.allowNegativeStock || Boolean((product as any).allowNegativeStock);
+    let batchAllocations: BatchAllocation[] = [];
+    if (options.stockIssued) {
+      batchAllocations = Array.isArray(item.batchAllocations) ? item.batchAllocations : [];
+    } else if ((product as any).batchTracking) {
+      const fefo = await allocateBatchesFEFO(String(product._id), baseQuantity, item.batchNo);
+      if (options.validateStock && !allowNegative && fefo.available < baseQuantity) {
+        throw new Error(`Insufficient batch stock for product ${product.name} (Available: ${fefo.available})`);
+      }
+      batchAllocations = fefo.allocations;
+    }
+    const batchNo = item.batchNo || batchAllocations[0]?.batchNo || '';
+    const expiryDate = item.expiryDate || batchAllocations[0]?.expiryDate;
+
+    if (!options.stockIssued) {
+      const expiryRequired = Boolean((product as any).expiryRequired);
+      if (expiryRequired && !expiryDate) {
+        throw new Error(`Expiry date is required for product ${product.name}`);
+      }
+      if (expiryDate) {
+        const exp = new Date(expiryDate);
+        if (exp.getTime() < Date.now()) {
+          throw new Error(`Cannot sell expired stock for product ${product.name}`);
+        }
+      }
+    }
+
+    // Base-unit prices scale by the conversion factor unless the unit carries its own price.
+    const listPrice = (() => {
+      const factor = saleUnit.conversionFactor;
+      if (options.pricingMode === 'customer') {
+        const customerPrice = customerPriceForProduct(options.customer, String(product._id));
+        if (customerPrice !== null && customerPrice > 0) return customerPrice * factor;
+      }
+      if (options.pricingMode === 'wholesale') {
+        const wholesale = Number(saleUnit.wholesalePrice || 0) || Number((product as any).wholesalePrice || 0) * factor;
+        if (wholesale > 0) return wholesale;
+      }
+      return Number(saleUnit.price || 0) || Number(product.price || 0) * factor;
+    })();
+
+    let unitPrice = Number(item.unitPrice ?? listPrice);
+    if (unitPrice < listPrice) {
+      priceOverrideRequired = true;
+    }
+
+    const itemDiscountAmount = Number(item.discountAmount || 0);
+    const itemDiscountPercentage = Number(item.discountPercentage || 0);
+    itemDiscountPercentages.push(itemDiscountPercentage);
+
+    if (itemDiscountAmount > 0) {
+      unitPrice = Math.max(0, unitPrice - itemDiscountAmount);
+    } else if (itemDiscountPercentage > 0) {
+      unitPrice = Math.max(0, unitPrice - (unitPrice * itemDiscountPercentage) / 100);
+    }
+
+    // Stock parked on held bills is not sellable until the hold is resumed, cancelled or expires.
+    if (options.validateStock) {
+      const onHand = options.location ? await locationQuantity(product, options.location) : Number(product.stock || 0);
+      const ownReserved = Number(options.ownReservations?.get(String(product._id)) || 0);
+      const available = onHand - Math.max(0, (await reservedQuantityOf(String(product._id))) - ownReserved);
+      if (!allowNegative && available < baseQuantity) {
+        throw new Error(`Insufficient stock for product ${product.name} (Available: ${available} ${product.unit})`);
+      }
+    }
+
+    pricedLines.push({
+      item,
+      product,
+      unitPrice,
+      line: {
+        productId: product._id,
+        productName: product.name,
+        sku: product.sku,
+        parentProductId: (product as any).parentProductId || undefined,
+        variantAttributes: (product as any).variantAttributes || undefined,
+        hsnCode: item.hsnCode || product.hsnCode || '',
+        batchNo,
+        expiryDate: expiryDate || undefined,
+        batchAllocations,
+        quantity,
+        unit: saleUnit.unit,
+        conversionFactor: saleUnit.conversionFactor,
+        baseQuantity,
+        listPrice: roundTo2(listPrice),
+        unitPrice: roundTo2(unitPrice),
+        discountAmount: roundTo2(itemDiscountAmount),
+        discountPercentage: roundTo2(itemDiscountPercentage),
+      },
+    });
+  }
+
+  // Promotions are priced off the net unit price and reduce the taxable base; they never need override approval.
+  const promotions = await applyPromotions(
+    pricedLines.map(({ product, line, unitPrice }) => ({
+      productId: String(line.productId),
+      parentProductId: line.parentProductId ? String(line.parentProductId) : undefined,
+      category: product.category || undefined,
+      quantity: line.quantity,
+      unitPrice,
+    })),
+    options.promotionAt
+  );
+
+  const taxProfiles = await resolveTaxProfiles(
+    pricedLines.map(({ product }) => product),
+    options.taxDate || options.promotionAt || new Date()
+  );
+
+  pricedLines.forEach(({ item, product, line, unitPrice }, index) => {
+    const { promotionDiscount, appliedPromotions } = promotions.lines[index];
+    const profile = { ...taxProfiles.get(String(product._id))! };
+    // Without a tax group the cart may still carry its own rate, as before the tax master.
+    if (!profile.taxGroupId) {
+      if (typeof item.gstRate === 'number') profile.gstRate = Number(item.gstRate);
+      if (item.taxType) profile.taxType = String(item.taxType).toLowerCase() === 'vat' ? 'vat' : 'gst';
+    }
+    const lineBase = roundTo2(Math.max(0, unitPrice * line.quantity - promotionDiscount));
+    const tax = computeLineTax({
+      lineBase,
+      baseQuantity: line.baseQuantity,
+      profile,
+      taxMode: options.taxMode,
+      isInterstate: options.isInterstate,
+    });
+
+    processedItems.push({
+      ...line,
+      promotionId: appliedPromotions[0]?.promotionId,
+      promotionName: appliedPromotions[0]?.promotionName,
+      promotionDiscount: roundTo2(promotionDiscount),
+      appliedPromotions,
+      taxGroupId: profile.taxGroupId,
+      taxGroupCode: profile.taxGroupCode,
+      supplyType: profile.supplyType,
+      taxableValue: tax.taxableValue,
+      gstRate: roundTo2(profile.supplyType === 'taxable' ? profile.gstRate : 0),
+      gstAmount: tax.gstAmount,
+      cgstAmount: tax.cgstAmount,
+      sgstAmount: tax.sgstAmount,
+      igstAmount: tax.igstAmount,
+      taxType: profile.taxType,
+      vatAmount: tax.vatAmount,
+      cessRate: profile.cessRate,
+      cessPerUnit: profile.cessPerUnit,
+      cessAmount: tax.cessAmount,
+      tcsRate: profile.tcsRate,
+      tcsAmount: tax.tcsAmount,
+      lineTotal: tax.lineTotal,
+    });
+
+    subtotal += tax.taxableValue;
+    totalTax += tax.gstAmount + tax.cessAmount;
+    totalCess += tax.cessAmount;
+    totalTcs += tax.tcsAmount;
+  });
+
+  return {
+    processedItems,
+    subtotal: roundTo2(subtotal),
+    totalTax: roundTo2(totalTax),
+    totalCess: roundTo2(totalCess),
+    totalTcs: roundTo2(totalTcs),
+    promotionDiscount: promotions.totalDiscount,
+    itemDiscountPercentages,
+    priceOverrideRequired,
+  };
+};
@@ -0,0 +1,126 @@
+import { ReceiptVoucher } from '../models/ReceiptVoucher.js';
+import { generateNumber } from './numbering.js';
+import { postCustomerLedgerEntry } from './customerLedger.js';
+import { SalePaymentMethod } from './salePayments.js';
+
+const round2 = (value: number) => Math.round((Number(value || 0) + Number.EPSILON) * 100) / 100;
+const round4 = (value: number) => Number(Number(value || 0).toFixed(4));
+
+export const pendingQuantity = (item: any): number => round4(Math.max(0, Number(item.quantity || 0) - Number(item.deliveredQuantity || 0)));
+
+export const advanceBalance = (order: any): number =>
+  round2(Number(order.advanceAmount || 0) - Number(order.advanceAppliedAmount || 0) - Number(order.advanceRefundedAmount || 0));
+
+/**
+ * Books an advance against a sales order as an on-account receipt voucher. It shows in the cash/bank book on the
+ * day it is taken and credits the customer ledger; delivery invoices later draw it down through allocations.
+ */
+export const recordOrderAdvance = async (
+  order: any,
+  payment: { amount: number; mode: SalePaymentMethod; reference?: string },
+  userId?: string
+) => {
+  const amount = round2(payment.amount);
+  const receipt = await ReceiptVoucher.create({
+    voucherNumber: await generateNumber('receipt_voucher', { prefix: 'RV-', datePart: true, padTo: 5 }),
+    customerId: order.customerId,
+    customerName: order.customerName,
+    entryDate: new Date(),
+    amount,
+    unappliedAmount: amount,
+    mode: payment.mode,
+    sourceType: 'settlement',
+    isAdvance: true,
+    allocations: [],
+    salesOrderId: order._id.toString(),
+    notes: [`Advance for sales order ${order.orderNumber}`, payment.reference].filter(Boolean).join(' - '),
+    createdBy: userId,
+  });
+
+  await postCustomerLedgerEntry({
+    customerId: order.customerId,
+    entryType: 'advance',
+    referenceType: 'receipt',
+    referenceId: receipt._id.toString(),
+    referenceNo: receipt.voucherNumber,
+    narration: `Advance against sales order ${order.orderNumber}`,
+    debit: 0,
+    credit: amount,
+    createdBy: userId,
+  });
+
+  order.advances.push({
+    receiptVoucherId: receipt._id.toString(),
+    voucherNumber: receipt.voucherNumber,
+    amount,
+    mode: payment.mode,
+    paidAt: receipt.entryDate,
+  });
+  order.advanceAmount = round2(Number(order.advanceAmount || 0) + amount);
+  return receipt;
+};
+
+/**
+ * Draws the order's unapplied advance down against a delivery invoice, oldest receipt first. The ledger already
+ * holds the advance as a credit, so only the receipt allocations and the invoice balance change here.
+ */
+export const applyOrderAdvance = async (order: any, sale: any, maxAmount: number): Promise<number> => {
+  let remaining = round2(Math.min(maxAmount, advanceBalance(order)));
+  let applied = 0;
+  for (const advance of order.advances) {
+    if (remaining <= 0) break;
+    const receipt = await ReceiptVoucher.findById(advance.receiptVoucherId);
+    const usable = round2(Math.min(Number(receipt?.unappliedAmount || 0), remaining));
+    if (!receipt || usable <= 0) continue;
+
+    receipt.unappliedAmount = round2(Number(receipt.unappliedAmount || 0) - usable);
+    receipt.allocations.push({ saleId: sale._id.toString(), saleNumber: sale.invoiceNumber || sale.saleNumber, amount: usable });
+    await receipt.save();
+    remaining = round2(remaining - usable);
+    applied = round2(applied + usable);
+  }
+
+  order.advanceAppliedAmount = round2(Number(order.advanceAppliedAmount || 0) + applied);
+  return applied;
+};
+
+/** Pays back whatever advance was not used by delivery invoices, on the receipt it was taken on. */
+export const refundOrderAdvance = async (
+  order: any,
+  options: { mode?: SalePaymentMethod; reference?: string; reason?: string; userId?: string }
+): Promise<number> => {
+  let refunded = 0;
+  for (const advance of order.advances) {
+    const receipt = await ReceiptVoucher.findById(advance.receiptVoucherId);
+    const amount = round2(Number(receipt?.unappliedAmount || 0));
+    if (!receipt || amount <= 0) continue;
+
+    receipt.unappliedAmount = 0;
+    receipt.refundedAmount = round2(Number(receipt.refundedAmount || 0) + amount);
+    receipt.refunds.push({
+      amount,
+      mode: options.mode || receipt.mode,
+      reference: options.reference,
+      reason: options.reason,
+      refundedAt: new Date(),
+      refundedBy: options.userId,
+    });
+    await receipt.save();
+
+    await postCustomerLedgerEntry({
+      customerId: order.customerId,
+      entryType: 'refund',
+      referenceType: 'receipt',
+      referenceId: receipt._id.toString(),
+      referenceNo: receipt.voucherNumber,
+      narration: `Advance refunded on cancellation of sales order ${order.orderNumber}`,
+      debit: amount,
+      credit: 0,
+      createdBy: options.userId,
+    });
+    refunded = round2(refunded + amount);
+  }
+
+  order.advanceRefundedAmount = round2(Number(order.advanceRefundedAmount || 0) + refunded);
+  return refunded;
+};
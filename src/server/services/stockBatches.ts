@@ -0,0 +1,183 @@
+import { StockBatch } from '../models/StockBatch.js';
+
+export interface BatchAllocation {
+  batchNo: string;
+  expiryDate?: Date;
+  quantity: number;
+}
+
+const round4 = (value: number): number => Number(Number(value || 0).toFixed(4));
+
+const startOfToday = (): Date => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+export const normalizeBatchNo = (value: any): string => String(value || '').trim().toUpperCase();
+
+// First-expiry-first-out: batches without an expiry date are consumed last, ties broken by receipt date.
+export const allocateBatchesFEFO = async (
+  productId: string,
+  quantity: number,
+  preferredBatchNo?: string
+): Promise<{ allocations: BatchAllocation[]; available: number }> => {
+  const batchNo = normalizeBatchNo(preferredBatchNo);
+  if (batchNo) {
+    const batch = await StockBatch.findOne({ productId, batchNo });
+    if (!batch) {
+      throw new Error(`Batch ${batchNo} not found`);
+    }
+    if (batch.expiryDate && batch.expiryDate < startOfToday()) {
+      throw new Error(`Batch ${batchNo} is expired`);
+    }
+    return {
+      allocations: [{ batchNo: batch.batchNo, expiryDate: batch.expiryDate, quantity: round4(quantity) }],
+      available: round4(Math.max(0, Number(batch.quantity || 0))),
+    };
+  }
+
+  const batches = await StockBatch.find({
+    productId,
+    quantity: { $gt: 0 },
+    $or: [{ expiryDate: { $gte: startOfToday() } }, { expiryDate: null }, { expiryDate: { $exists: false } }],
+  });
+
+  batches.sort((a, b) => {
+    const aExp = a.expiryDate ? a.expiryDate.getTime() : Number.MAX_SAFE_INTEGER;
+    const bExp = b.expiryDate ? b.expiryDate.getTime() : Number.MAX_SAFE_INTEGER;
+    if (aExp !== bExp) return aExp - bExp;
+    return new Date(a.receivedDate).getTime() - new Date(b.receivedDate).getTime();
+  });
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = round4(quantity);
+  let available = 0;
+  for (const batch of batches) {
+    const qty = Number(batch.quantity || 0);
+    available += qty;
+    if (remaining <= 0) continue;
+    const take = round4(Math.min(qty, remaining));
+    allocations.push({ batchNo: batch.batchNo, expiryDate: batch.expiryDate, quantity: take });
+    remaining = round4(remaining - take);
+  }
+
+  return { allocations, available: round4(available) };
+};
+
+// Keeps allocations made at draft time when every batch can still cover them, otherwise re-runs FEFO.
+export const ensureBatchAllocations = async (
+  productId: string,
+  quantity: number,
+  current: BatchAllocation[] = []
+): Promise<BatchAllocation[]> => {
+  const allocatedQty = round4(current.reduce((sum, row) => sum + Number(row.quantity || 0), 0));
+  if (current.length && allocatedQty >= round4(quantity)) {
+    const batches = await StockBatch.find({ productId, batchNo: { $in: current.map((row) => row.batchNo) } });
+    const stillValid = current.every((row) => {
+      const batch = batches.find((b) => b.batchNo === row.batchNo);
+      return batch && Number(batch.quantity || 0) >= Number(row.quantity || 0);
+    });
+    if (stillValid) return current;
+  }
+
+  const { allocations } = await allocateBatchesFEFO(productId, quantity);
+  return allocations;
+};
+
+export const consumeBatchAllocations = async (productId: string, allocations: BatchAllocation[] = []) => {
+  for (const row of allocations) {
+    const qty = Number(row.quantity || 0);
+    if (!row.batchNo || qty <= 0) continue;
+    await StockBatch.findOneAndUpdate({ productId, batchNo: row.batchNo }, { $inc: { quantity: -qty } });
+  }
+};
+
+export const restockBatchAllocations = async (productId: string, allocations: BatchAllocation[] = []) => {
+  for (const row of allocations) {
+    const qty = Number(row.quantity || 0);
+    if (!row.batchNo || qty <= 0) continue;
+    await StockBatch.findOneAndUpdate({ productId, batchNo: row.batchNo }, { $inc: { quantity: qty } });
+  }
+};
+
+export const restockBatch = async (input: {
+  productId: string;
+  productName?: string;
+  sku?: string;
+  batchNo: string;
+  expiryDate?: Date | string;
+  quantity: number;
+  unitCost?: number;
+  sourceType: 'opening' | 'purchase' | 'return' | 'adjustment';
+  sourceRef?: string;
+  createdBy?: string;
+}) => {
+  const batchNo = normalizeBatchNo(input.batchNo);
+  if (!batchNo) throw new Error('batchNo is required');
+
+  const existing = await StockBatch.findOne({ productId: input.productId, batchNo });
+  if (existing) {
+    const qty = Number(input.quantity || 0);
+    const onHand = Math.max(0, Number(existing.quantity || 0));
+    if (input.unitCost !== undefined && onHand + qty > 0) {
+      existing.unitCost = Number(((onHand * Number(existing.unitCost || 0) + qty * Number(input.unitCost)) / (onHand + qty)).toFixed(2));
+    }
+    if (!existing.expiryDate && input.expiryDate) existing.expiryDate = new Date(input.expiryDate);
+    existing.quantity = round4(Number(existing.quantity || 0) + qty);
+    await existing.save();
+    return existing;
+  }
+
+  return StockBatch.create({
+    productId: input.productId,
+    productName: input.productName,
+    sku: input.sku,
+    batchNo,
+    expiryDate: input.expiryDate ? new Date(input.expiryDate) : undefined,
+    quantity: round4(Number(input.quantity || 0)),
+    unitCost: Number(input.unitCost || 0),
+    receivedDate: new Date(),
+    sourceType: input.sourceType,
+    sourceRef: input.sourceRef,
+    createdBy: input.createdBy,
+  });
+};
+
+// Returned quantity goes back into the batches the sale line drew from, in the order they were consumed.
+export const restockReturnedQuantity = async (input: {
+  productId: string;
+  quantity: number;
+  batchNo?: string;
+  saleAllocations?: BatchAllocation[];
+  sourceRef?: string;
+  createdBy?: string;
+}) => {
+  let remaining = round4(input.quantity);
+  if (remaining <= 0) return [];
+
+  const explicit = normalizeBatchNo(input.batchNo);
+  const targets: BatchAllocation[] = explicit
+    ? [{ batchNo: explicit, quantity: remaining }]
+    : (input.saleAllocations || []).filter((row) => row.batchNo);
+
+  const restocked: BatchAllocation[] = [];
+  for (const target of targets) {
+    if (remaining <= 0) break;
+    const qty = explicit ? remaining : round4(Math.min(Number(target.quantity || 0), remaining));
+    if (qty <= 0) continue;
+    await restockBatch({
+      productId: input.productId,
+      batchNo: target.batchNo,
+      expiryDate: target.expiryDate,
+      quantity: qty,
+      sourceType: 'return',
+      sourceRef: input.sourceRef,
+      createdBy: input.createdBy,
+    });
+    restocked.push({ batchNo: target.batchNo, expiryDate: target.expiryDate, quantity: qty });
+    remaining = round4(remaining - qty);
+  }
+
+  return restocked;
+};
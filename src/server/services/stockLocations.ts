@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import { StockLocation } from '../models/StockLocation.js';
+import { LocationStock } from '../models/LocationStock.js';
+import { StockTransfer } from '../models/StockTransfer.js';
+import { User } from '../models/User.js';
+
+const round4 = (value: number): number => Number(Number(value || 0).toFixed(4));
+
+export const ensureDefaultLocation = async () => {
+  const existing = await StockLocation.findOne({ isDefault: true });
+  if (existing) return existing;
+
+  return StockLocation.findOneAndUpdate(
+    { locationCode: 'MAIN' },
+    { $setOnInsert: { locationCode: 'MAIN', name: 'Main Store', locationType: 'store', isActive: true }, $set: { isDefault: true } },
+    { new: true, upsert: true }
+  ) as any;
+};
+
+export const resolveLocation = async (locationId?: string) => {
+  if (!locationId) return ensureDefaultLocation();
+  if (!mongoose.isValidObjectId(locationId)) throw new Error('Invalid location');
+  const location = await StockLocation.findById(locationId);
+  if (!location) throw new Error('Location not found');
+  return location;
+};
+
+export const resolveUserLocation = async (userId?: string) => {
+  const user = userId ? await User.findById(userId).select('assignedLocationId') : null;
+  const assigned = (user as any)?.assignedLocationId;
+  if (assigned) {
+    const location = await StockLocation.findById(assigned);
+    if (location && location.isActive) return location;
+  }
+  return ensureDefaultLocation();
+};
+
+export const inTransitQuantities = async (productIds: string[]): Promise<Map<string, number>> => {
+  const rows = await StockTransfer.aggregate([
+    { $match: { status: 'in_transit' } },
+    { $unwind: '$items' },
+    { $match: { 'items.productId': { $in: productIds.map((id) => new mongoose.Types.ObjectId(id)) } } },
+    { $group: { _id: '$items.productId', qty: { $sum: '$items.quantity' } } },
+  ]);
+  return new Map(rows.map((row: any) => [String(row._id), round4(row.qty)]));
+};
+
+// The default location is not stored: it holds whatever part of Product.stock is not
+// assigned to another location or in transit, so existing stock flows need no migration.
+export const locationQuantities = async (
+  products: Array<{ _id: any; stock?: number }>,
+  location: any
+): Promise<Map<string, number>> => {
+  const productIds = products.map((p) => String(p._id));
+  if (!location.isDefault) {
+    const rows = await LocationStock.find({ locationId: location._id, productId: { $in: productIds } });
+    return new Map(rows.map((row) => [String(row.productId), round4(Number(row.quantity || 0))]));
+  }
+
+  const assigned = await LocationStock.aggregate([
+    { $match: { productId: { $in: productIds.map((id) => new mongoose.Types.ObjectId(id)) } } },
+    { $group: { _id: '$productId', qty: { $sum: '$quantity' } } },
+  ]);
+  const assignedMap = new Map(assigned.map((row: any) => [String(row._id), Number(row.qty || 0)]));
+  const transit = await inTransitQuantities(productIds);
+
+  return new Map(
+    products.map((p) => [
+      String(p._id),
+      round4(Number(p.stock || 0) - Number(assignedMap.get(String(p._id)) || 0) - Number(transit.get(String(p._id)) || 0)),
+    ])
+  );
+};
+
+export const locationQuantity = async (product: { _id: any; stock?: number }, location: any): Promise<number> => {
+  const map = await locationQuantities([product], location);
+  return Number(map.get(String(product._id)) || 0);
+};
+
+export const adjustLocationStock = async (productId: string, location: any, delta: number) => {
+  if (!location || location.isDefault || !delta) return;
+  await LocationStock.findOneAndUpdate(
+    { productId, locationId: location._id },
+    { $inc: { quantity: round4(delta) } },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+};
@@ -0,0 +1,84 @@
+import { Product } from '../models/Product.js';
+import { StockMovement, StockMovementType } from '../models/StockMovement.js';
+import { adjustLocationStock, ensureDefaultLocation } from './stockLocations.js';
+
+interface StockMovementReference {
+  movementType: StockMovementType;
+  location?: any;
+  referenceType?: string;
+  referenceId?: string;
+  referenceNo?: string;
+  batchNo?: string;
+  reason?: string;
+  userId?: string;
+  metadata?: Record<string, any>;
+}
+
+const round4 = (value: number): number => Number(Number(value || 0).toFixed(4));
+
+export const recordStockMovement = async (
+  input: StockMovementReference & {
+    productId: string;
+    productName?: string;
+    sku?: string;
+    quantity: number;
+    quantityBefore: number;
+    quantityAfter: number;
+  }
+): Promise<void> => {
+  try {
+    // Unassigned moves land in the default location, matching how its residual quantity is derived.
+    const location = input.location || (await ensureDefaultLocation());
+    await StockMovement.create({
+      productId: input.productId,
+      productName: input.productName,
+      sku: input.sku,
+      movementType: input.movementType,
+      quantity: round4(input.quantity),
+      quantityBefore: round4(input.quantityBefore),
+      quantityAfter: round4(input.quantityAfter),
+      locationId: location?._id ? String(location._id) : undefined,
+      locationName: location?.name,
+      referenceType: input.referenceType,
+      referenceId: input.referenceId,
+      referenceNo: input.referenceNo,
+      batchNo: input.batchNo,
+      reason: input.reason,
+      userId: input.userId,
+      metadata: input.metadata,
+    });
+  } catch (error) {
+    console.error('Failed to write stock movement:', error);
+  }
+};
+
+// Moves Product.stock (and the location quantity) by `quantity` and journals the change.
+// Before/after are taken from the atomically updated document so concurrent moves stay consistent.
+export const applyStockMovement = async (
+  productId: string,
+  quantity: number,
+  reference: StockMovementReference,
+  extraUpdate: Record<string, any> = {}
+) => {
+  const delta = round4(quantity);
+  const product = await Product.findByIdAndUpdate(
+    productId,
+    { ...extraUpdate, $inc: { stock: delta } },
+    { new: true }
+  );
+  if (!product) return null;
+
+  await adjustLocationStock(productId, reference.location, delta);
+
+  const quantityAfter = Number(product.stock || 0);
+  await recordStockMovement({
+    ...reference,
+    productId,
+    productName: product.name,
+    sku: product.sku,
+    quantity: delta,
+    quantityBefore: quantityAfter - delta,
+    quantityAfter,
+  });
+  return product;
+};
@@ -0,0 +1,190 @@
+import { ITaxComponent, TaxGroup, TaxSupplyType } from '../models/TaxGroup.js';
+
+// GST slabs a tax group may total to, including the special rates for precious stones and merchant exports.
+export const GST_SLAB_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+const SUPPLY_TYPES: TaxSupplyType[] = ['taxable', 'nil_rated', 'exempt', 'non_gst'];
+
+const roundTo2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/** How a product is taxed on a given day: from its tax group, or from its own gstRate and taxType. */
+export interface TaxProfile {
+  taxGroupId?: string;
+  taxGroupCode?: string;
+  supplyType: TaxSupplyType;
+  taxType: 'gst' | 'vat';
+  gstRate: number;
+  cessRate: number;
+  cessPerUnit: number;
+  tcsRate: number;
+}
+
+export interface LineTax {
+  taxableValue: number;
+  gstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  vatAmount: number;
+  cessAmount: number;
+  tcsAmount: number;
+  lineTotal: number; // taxable value + GST (or VAT) + cess; TCS is collected on top
+}
+
+const componentOf = (components: ITaxComponent[], type: ITaxComponent['type']) =>
+  components.find((row) => row.type === type);
+
+/** Total GST rate of a group: IGST, else CGST + SGST. */
+export const taxGroupGstRate = (components: ITaxComponent[]): number => {
+  const igst = Number(componentOf(components, 'igst')?.rate || 0);
+  if (igst) return igst;
+  return roundTo2(Number(componentOf(components, 'cgst')?.rate || 0) + Number(componentOf(components, 'sgst')?.rate || 0));
+};
+
+/**
+ * Validates a tax group from the request. Taxable groups need CGST = SGST and/or IGST adding up to a GST slab;
+ * nil-rated, exempt and non-GST groups carry no GST or cess, only TCS.
+ */
+export const normalizeTaxGroupInput = (body: any) => {
+  const code = String(body?.code || '').trim().toUpperCase();
+  const name = String(body?.name || '').trim();
+  if (!code) throw new Error('code is required');
+  if (!name) throw new Error('name is required');
+
+  const supplyType = String(body?.supplyType || 'taxable') as TaxSupplyType;
+  if (!SUPPLY_TYPES.includes(supplyType)) throw new Error(`supplyType must be one of ${SUPPLY_TYPES.join(', ')}`);
+
+  const components: ITaxComponent[] = [];
+  for (const row of Array.isArray(body?.components) ? body.components : []) {
+    const type = String(row?.type || '').toLowerCase() as ITaxComponent['type'];
+    if (!['cgst', 'sgst', 'igst', 'cess', 'tcs'].includes(type)) throw new Error(`Unknown tax component ${row?.type}`);
+    if (componentOf(components, type)) throw new Error(`${type.toUpperCase()} is listed more than once`);
+    const rate = Number(row?.rate || 0);
+    const perUnitAmount = type === 'cess' ? Number(row?.perUnitAmount || 0) : 0;
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) throw new Error(`${type.toUpperCase()} rate must be between 0 and 100`);
+    if (!Number.isFinite(perUnitAmount) || perUnitAmount < 0) throw new Error('Cess per unit cannot be negative');
+    components.push({ type, rate, perUnitAmount });
+  }
+
+  const cgst = Number(componentOf(components, 'cgst')?.rate || 0);
+  const sgst = Number(componentOf(components, 'sgst')?.rate || 0);
+  const igst = componentOf(components, 'igst');
+  const cess = componentOf(components, 'cess');
+  if (supplyType === 'taxable') {
+    if (cgst !== sgst) throw new Error('CGST and SGST rates must be equal');
+    if (igst && cgst && Number(igst.rate) !== roundTo2(cgst + sgst)) throw new Error('IGST rate must equal CGST + SGST');
+    if (!Number(igst?.rate || 0) && !cgst) throw new Error('A taxable group needs CGST and SGST, or IGST; use nil_rated for 0%');
+    if (!GST_SLAB_RATES.includes(taxGroupGstRate(components))) throw new Error(`${taxGroupGstRate(components)}% is not a GST rate`);
+    // Either split is enough to bill; fill in the other so intrastate and interstate sales both work.
+    if (!Number(igst?.rate || 0)) components.push({ type: 'igst', rate: roundTo2(cgst + sgst), perUnitAmount: 0 });
+    if (!cgst) {
+      components.push({ type: 'cgst', rate: roundTo2(Number(igst!.rate) / 2), perUnitAmount: 0 });
+      components.push({ type: 'sgst', rate: roundTo2(Number(igst!.rate) / 2), perUnitAmount: 0 });
+    }
+  } else if (cgst || sgst || Number(igst?.rate || 0) || Number(cess?.rate || 0) || Number(cess?.perUnitAmount || 0)) {
+    throw new Error('Nil-rated, exempt and non-GST groups cannot carry GST or cess');
+  }
+
+  return {
+    code,
+    name,
+    description: String(body?.description || '').trim() || undefined,
+    supplyType,
+    components: components.filter((row) => row.rate > 0 || Number(row.perUnitAmount || 0) > 0),
+    isActive: body?.isActive === undefined ? true : Boolean(body.isActive),
+  };
+};
+
+/** The product's tax group effective on a date: the mapping with the latest effectiveFrom not after it. */
+export const effectiveTaxGroupId = (product: any, at: Date): string | undefined => {
+  const rows = Array.isArray(product?.taxGroups) ? product.taxGroups : [];
+  return rows
+    .filter((row: any) => new Date(row.effectiveFrom).getTime() <= at.getTime())
+    .sort((a: any, b: any) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime())[0]?.taxGroupId;
+};
+
+const legacyProfile = (product: any): TaxProfile => ({
+  supplyType: 'taxable',
+  taxType: String(product?.taxType || 'gst').toLowerCase() === 'vat' ? 'vat' : 'gst',
+  gstRate: Number(product?.gstRate || 0),
+  cessRate: 0,
+  cessPerUnit: 0,
+  tcsRate: 0,
+});
+
+/**
+ * Tax profiles for a set of products on a date, keyed by product id. Products without a mapped group keep
+ * their own gstRate and taxType, so catalogues that predate the tax master bill as before.
+ */
+export const resolveTaxProfiles = async (products: any[], at: Date = new Date()): Promise<Map<string, TaxProfile>> => {
+  const groupIds = new Map<string, string>();
+  for (const product of products) {
+    const groupId = effectiveTaxGroupId(product, at);
+    if (groupId) groupIds.set(String(product._id), groupId);
+  }
+  const groups = groupIds.size
+    ? new Map((await TaxGroup.find({ _id: { $in: Array.from(new Set(groupIds.values())) } })).map((row) => [row._id.toString(), row]))
+    : new Map();
+
+  const profiles = new Map<string, TaxProfile>();
+  for (const product of products) {
+    const group = groups.get(groupIds.get(String(product._id)) || '');
+    if (!group) {
+      profiles.set(String(product._id), legacyProfile(product));
+      continue;
+    }
+    const cess = componentOf(group.components, 'cess');
+    profiles.set(String(product._id), {
+      taxGroupId: group._id.toString(),
+      taxGroupCode: group.code,
+      supplyType: group.supplyType,
+      taxType: 'gst',
+      gstRate: group.supplyType === 'taxable' ? taxGroupGstRate(group.components) : 0,
+      cessRate: Number(cess?.rate || 0),
+      cessPerUnit: Number(cess?.perUnitAmount || 0),
+      tcsRate: Number(componentOf(group.components, 'tcs')?.rate || 0),
+    });
+  }
+  return profiles;
+};
+
+/**
+ * Splits a line into its tax components. Inclusive prices carry GST and cess (ad-valorem and per-unit) but not
+ * TCS, which is worked out on the line value including taxes and collected over and above the price.
+ */
+export const computeLineTax = (input: {
+  lineBase: number;
+  baseQuantity: number;
+  profile: TaxProfile;
+  taxMode: 'inclusive' | 'exclusive';
+  isInterstate?: boolean;
+}): LineTax => {
+  const { profile } = input;
+  const gstRate = profile.supplyType === 'taxable' ? profile.gstRate : 0;
+  const perUnitCess = roundTo2(profile.cessPerUnit * input.baseQuantity);
+
+  const taxableValue = input.taxMode === 'inclusive'
+    ? roundTo2(Math.max(0, input.lineBase - perUnitCess) * (100 / (100 + gstRate + profile.cessRate)))
+    : roundTo2(input.lineBase);
+  const gstAmount = input.taxMode === 'inclusive' && !profile.cessRate && !perUnitCess
+    ? roundTo2(input.lineBase - taxableValue)
+    : roundTo2((taxableValue * gstRate) / 100);
+  const cessAmount = input.taxMode === 'inclusive' && (profile.cessRate || perUnitCess)
+    ? roundTo2(input.lineBase - taxableValue - gstAmount)
+    : roundTo2((taxableValue * profile.cessRate) / 100 + perUnitCess);
+
+  const intrastateGst = profile.taxType === 'gst' && !input.isInterstate;
+  const cgstAmount = intrastateGst ? roundTo2(gstAmount / 2) : 0;
+  const lineTotal = roundTo2(taxableValue + gstAmount + cessAmount);
+  return {
+    taxableValue,
+    gstAmount,
+    cgstAmount,
+    sgstAmount: intrastateGst ? roundTo2(gstAmount - cgstAmount) : 0,
+    igstAmount: profile.taxType === 'gst' && input.isInterstate ? gstAmount : 0,
+    vatAmount: profile.taxType === 'vat' ? gstAmount : 0,
+    cessAmount,
+    tcsAmount: roundTo2((lineTotal * profile.tcsRate) / 100),
+    lineTotal,
+  };
+};
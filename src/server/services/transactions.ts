@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+
+let transactionsSupported: boolean | null = null;
+
+// Transactions need a replica set or sharded cluster; a standalone mongod (plain local installs) rejects them.
+const supportsTransactions = async (): Promise<boolean> => {
+  if (transactionsSupported !== null) return transactionsSupported;
+  if (String(process.env.MONGO_TRANSACTIONS || '').toLowerCase() === 'off') {
+    transactionsSupported = false;
+    return false;
+  }
+  const db = mongoose.connection.db;
+  if (!db) return false;
+
+  const hello = await db.admin().command({ hello: 1 });
+  transactionsSupported = Boolean(hello.setName) || hello.msg === 'isdbgrid';
+  if (!transactionsSupported) {
+    console.warn('MongoDB is not running as a replica set; postings will run without transactions.');
+  }
+  return transactionsSupported;
+};
+
+const activeSession = () => (mongoose as any).transactionAsyncLocalStorage?.getStore()?.session;
+
+/**
+ * Runs `work` inside one MongoDB transaction. With `transactionAsyncLocalStorage` enabled every model call made
+ * inside picks up the session, so services such as stock movements and ledger postings need no session argument.
+ * The driver may run `work` again on transient errors, so it must not send the HTTP response itself.
+ * Nested calls join the outer transaction.
+ */
+export const runInTransaction = async <T>(work: () => Promise<T>): Promise<T> => {
+  if (activeSession() || !(await supportsTransactions())) return work();
+  return mongoose.connection.transaction(() => work());
+};
@@ -0,0 +1,71 @@
+export interface ProductAlternateUnit {
+  unit: string;
+  conversionFactor: number;
+  price?: number;
+  wholesalePrice?: number;
+}
+
+export interface ResolvedUnit {
+  unit: string;
+  conversionFactor: number;
+  price?: number;
+  wholesalePrice?: number;
+}
+
+const round4 = (value: number) => Number(Number(value || 0).toFixed(4));
+
+/**
+ * Alternate units are stored with the number of base units they contain (carton = 24 piece, gram = 0.001 kg).
+ * Prices are optional; without one the base price is scaled by the conversion factor.
+ */
+export const normalizeAlternateUnits = (
+  input: any,
+  baseUnit: string
+): { alternateUnits: ProductAlternateUnit[]; error?: string } => {
+  if (input === undefined || input === null) return { alternateUnits: [] };
+  if (!Array.isArray(input)) return { alternateUnits: [], error: 'alternateUnits must be an array' };
+
+  const seen = new Set<string>([String(baseUnit || 'piece').toLowerCase()]);
+  const alternateUnits: ProductAlternateUnit[] = [];
+  for (const row of input) {
+    const unit = String(row?.unit || '').trim().toLowerCase();
+    const conversionFactor = Number(row?.conversionFactor || 0);
+    if (!unit) return { alternateUnits: [], error: 'Each alternate unit needs a unit name' };
+    if (seen.has(unit)) return { alternateUnits: [], error: `Unit ${unit} is duplicated or matches the base unit` };
+    if (!(conversionFactor > 0)) return { alternateUnits: [], error: `Conversion factor for ${unit} must be greater than zero` };
+    seen.add(unit);
+    alternateUnits.push({
+      unit,
+      conversionFactor: round4(conversionFactor),
+      ...(Number(row?.price || 0) > 0 && { price: Number(row.price) }),
+      ...(Number(row?.wholesalePrice || 0) > 0 && { wholesalePrice: Number(row.wholesalePrice) }),
+    });
+  }
+  return { alternateUnits };
+};
+
+export const resolveProductUnit = (product: any, requestedUnit?: string): ResolvedUnit => {
+  const baseUnit = String(product?.unit || 'piece');
+  const unit = String(requestedUnit || '').trim().toLowerCase();
+  if (!unit || unit === baseUnit) return { unit: baseUnit, conversionFactor: 1 };
+
+  const match = (product?.alternateUnits || []).find((row: any) => String(row.unit).toLowerCase() === unit);
+  if (!match) {
+    throw new Error(`Unit ${unit} is not configured for product ${product?.name || ''}`.trim());
+  }
+  return {
+    unit: match.unit,
+    conversionFactor: Number(match.conversionFactor || 1),
+    price: match.price,
+    wholesalePrice: match.wholesalePrice,
+  };
+};
+
+// Stock, batches and journals are always kept in the product's base unit.
+export const baseQuantityOf = (item: any, quantityField: string = 'quantity'): number => {
+  if (item?.baseQuantity !== undefined && item?.baseQuantity !== null) return Number(item.baseQuantity || 0);
+  return round4(Number(item?.[quantityField] || 0) * Number(item?.conversionFactor || 1));
+};
+
+export const toBaseQuantity = (quantity: number, conversionFactor: number): number =>
+  round4(Number(quantity || 0) * Number(conversionFactor || 1));
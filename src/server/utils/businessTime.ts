@@ -0,0 +1,66 @@
+/**
+ * Calendar helpers for the business's time zone. Servers often run in UTC, but a filing month, a printed date
+ * or a happy hour is the business's local day and clock.
+ */
+export const BUSINESS_TIME_ZONE = process.env.BUSINESS_TIME_ZONE || 'Asia/Kolkata';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday, as Date#getDay
+}
+
+export const zonedParts = (value: Date, timeZone: string = BUSINESS_TIME_ZONE): ZonedParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hour12: false,
+  }).formatToParts(value);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')) % 24,
+    minute: Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+};
+
+/** YYYY-MM-DD of the business day the instant falls on. */
+export const zonedDateKey = (value: Date, timeZone: string = BUSINESS_TIME_ZONE): string => {
+  const { year, month, day } = zonedParts(value, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/** The instant a calendar day starts in the business zone; month 13 rolls into the next year like Date.UTC. */
+export const zonedDayStart = (year: number, month: number, day: number, timeZone: string = BUSINESS_TIME_ZONE): Date => {
+  const target = Date.UTC(year, month - 1, day);
+  let instant = target;
+  // Twice, so a day that starts just after a daylight-saving change still lands on local midnight.
+  for (let pass = 0; pass < 2; pass += 1) {
+    const local = zonedParts(new Date(instant), timeZone);
+    const shown = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    instant -= shown - target;
+  }
+  return new Date(instant);
+};
+
+/** First and last instant of a YYYY-MM month in the business zone. */
+export const zonedMonthRange = (month: string, timeZone: string = BUSINESS_TIME_ZONE) => {
+  const [year, mon] = month.split('-').map(Number);
+  return {
+    start: zonedDayStart(year, mon, 1, timeZone),
+    end: new Date(zonedDayStart(year, mon + 1, 1, timeZone).getTime() - 1),
+  };
+};
@@ -84,6 +84,47 @@ export const validateGSTIN = (gstin: string): boolean => {
   return gstinPattern.test(gstin.toUpperCase());
 };
 
+// State and UT codes used in GSTINs and as place of supply.
+export const GST_STATE_CODES: { [key: number]: string } = {
+  1: 'Jammu & Kashmir',
+  2: 'Himachal Pradesh',
+  3: 'Punjab',
+  4: 'Chandigarh',
+  5: 'Uttarakhand',
+  6: 'Haryana',
+  7: 'Delhi',
+  8: 'Rajasthan',
+  9: 'Uttar Pradesh',
+  10: 'Bihar',
+  11: 'Sikkim',
+  12: 'Arunachal Pradesh',
+  13: 'Nagaland',
+  14: 'Manipur',
+  15: 'Mizoram',
+  16: 'Tripura',
+  17: 'Meghalaya',
+  18: 'Assam',
+  19: 'West Bengal',
+  20: 'Jharkhand',
+  21: 'Odisha',
+  22: 'Chhattisgarh',
+  23: 'Madhya Pradesh',
+  24: 'Gujarat',
+  26: 'Dadra & Nagar Haveli and Daman & Diu',
+  27: 'Maharashtra',
+  29: 'Karnataka',
+  30: 'Goa',
+  31: 'Lakshadweep',
+  32: 'Kerala',
+  33: 'Tamil Nadu',
+  34: 'Puducherry',
+  35: 'Andaman & Nicobar Islands',
+  36: 'Telangana',
+  37: 'Andhra Pradesh',
+  38: 'Ladakh',
+  97: 'Other Territory',
+};
+
 /**
  * Check if state code is valid (first 2 digits of GSTIN)
  */
@@ -91,48 +132,29 @@ export const getStateFromGSTIN = (gstin: string): string | null => {
   if (!validateGSTIN(gstin)) return null;
 
   const stateCode = parseInt(gstin.substring(0, 2), 10);
-  const states: { [key: number]: string } = {
-    1: 'Jammu & Kashmir',
-    2: 'Himachal Pradesh',
-    3: 'Punjab',
-    4: 'Chandigarh',
-    5: 'Uttarakhand',
-    6: 'Haryana',
-    7: 'Delhi',
-    8: 'Rajasthan',
-    9: 'Uttar Pradesh',
-    10: 'Bihar',
-    11: 'Bhutan',
-    12: 'Nagaland',
-    13: 'Tripura',
-    14: 'Manipur',
-    15: 'Mizoram',
-    16: 'Assam',
-    17: 'Meghalaya',
-    18: 'Telangana',
-    19: 'Siddipet',
-    20: 'Andhra Pradesh',
-    21: 'Karnataka',
-    22: 'Tamil Nadu',
-    23: 'Telangana',
-    24: 'Kerala',
-    25: 'Sri Lanka',
-    26: 'Union Territory',
-    27: 'Puducherry',
-    28: 'Goa',
-    29: 'Maharashtra',
-    30: 'Gujarat',
-    31: 'Rajasthan',
-    32: 'Madhya Pradesh',
-    33: 'Chhattisgarh',
-    34: 'Jharkhand',
-    35: 'Odisha',
-    36: 'West Bengal',
-    37: 'Sikkim',
-    38: 'Arunachal Pradesh',
-  };
+  return GST_STATE_CODES[stateCode] || null;
+};
 
-  return states[stateCode] || null;
+/**
+ * Two-digit state code of a GSTIN, e.g. '32' for Kerala
+ */
+export const getStateCodeFromGSTIN = (gstin: string): string | null => {
+  if (!getStateFromGSTIN(gstin)) return null;
+  return gstin.substring(0, 2);
+};
+
+/**
+ * Normalise a state code or state name to the two-digit code
+ */
+export const normalizeStateCode = (value: any): string | null => {
+  const raw = String(value ?? '').trim();
+  if (!raw) return null;
+  if (/^[0-9]{1,2}$/.test(raw)) {
+    const code = Number(raw);
+    return GST_STATE_CODES[code] ? String(code).padStart(2, '0') : null;
+  }
+  const match = Object.entries(GST_STATE_CODES).find(([, name]) => name.toLowerCase() === raw.toLowerCase());
+  return match ? match[0].padStart(2, '0') : null;
 };
 
 /**
@@ -151,8 +173,8 @@ export const generateInvoiceNumber = (sequenceNumber: number): string => {
  * Generate HSN (Harmonized System of Nomenclature) code validation
  */
 export const validateHSNCode = (code: string): boolean => {
-  // HSN code should be 4 or 8 digits
-  return /^[0-9]{4}$|^[0-9]{8}$/.test(code);
+  // HSN code should be 4, 6 or 8 digits (SAC codes are 6)
+  return /^([0-9]{4}|[0-9]{6}|[0-9]{8})$/.test(code);
 };
 
 /**
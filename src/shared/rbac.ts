@@ -4,6 +4,7 @@ export const PAGE_KEYS = [
   'inventory',
   'sales',
   'orders',
+  'purchases',
   'products',
   'returns',
   'categories',
@@ -63,6 +64,7 @@ export const DEFAULT_ROLE_PERMISSIONS: Record<DefaultRole, PermissionMatrix> = {
     shifts: true,
     settings: true,
     orders: true,
+    purchases: true,
     products: true,
     inventory: true,
     returns: true,
@@ -73,6 +75,7 @@ export const DEFAULT_ROLE_PERMISSIONS: Record<DefaultRole, PermissionMatrix> = {
   manager: {
     ...EMPTY_PERMISSIONS,
     ...baseOperations,
+    purchases: true,
     accounting: true,
     reports: true,
     employees: true,
@@ -111,6 +114,7 @@ export const PAGE_META: Record<PageKey, { title: string; path: string }> = {
   inventory: { title: 'Inventory', path: '/inventory' },
   sales: { title: 'Sales', path: '/sales' },
   orders: { title: 'Orders', path: '/orders' },
+  purchases: { title: 'Purchases', path: '/purchases' },
   products: { title: 'Products', path: '/products' },
   returns: { title: 'Returns', path: '/returns' },
   categories: { title: 'Categories', path: '/categories' },
@@ -11,6 +11,7 @@ export interface IUser {
   permissions?: PermissionMatrix;
   businessName?: string;
   gstin?: string;
+  assignedLocationId?: string;
   address?: {
     street?: string;
     city?: string;
@@ -46,17 +47,39 @@ export interface IOrder {
   _id?: string;
   orderNumber: string;
   userId: string | IUser;
+  orderStatus: 'booked' | 'partially_delivered' | 'delivered' | 'cancelled';
+  customerId: string;
+  customerName?: string;
+  customerPhone?: string;
+  placeOfSupply?: string;
+  isInterstate?: boolean;
   items: {
     productId: string | IProduct;
+    productName: string;
     quantity: number;
-    price: number;
-    gstAmount: number;
+    unit?: string;
+    deliveredQuantity: number;
+    reservedBaseQuantity: number;
+    unitPrice: number;
+    discountPercentage?: number;
+    gstRate?: number;
+    lineTotal?: number;
   }[];
-  totalAmount: number;
+  subtotal: number;
   gstAmount: number;
-  paymentMethod: 'cash' | 'card' | 'upi' | 'check';
-  paymentStatus: 'pending' | 'completed' | 'failed';
-  orderStatus: 'pending' | 'processing' | 'completed' | 'cancelled';
+  totalAmount: number;
+  advanceAmount: number;
+  advanceAppliedAmount: number;
+  advanceRefundedAmount: number;
+  invoicedAmount: number;
+  deliveries: {
+    saleId: string;
+    invoiceNumber: string;
+    deliveredAt: Date | string;
+    invoiceAmount: number;
+    advanceApplied: number;
+  }[];
+  expectedDeliveryDate?: Date | string;
   notes?: string;
   createdAt?: Date | string;
   updatedAt?: Date | string;